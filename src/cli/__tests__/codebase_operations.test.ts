@@ -0,0 +1,62 @@
+/**
+ * Tests for CLI codebase operations and slash command argument parsing
+ */
+
+import { expect } from "chai"
+import { describe, it } from "mocha"
+import { extractFlags, splitCommandArgs } from "../commands/slash_commands"
+import { replaceInContent } from "../tasks/codebase_operations"
+
+describe("CLI Codebase Operations", () => {
+	describe("replaceInContent", () => {
+		it("should replace every literal occurrence and count matches", () => {
+			const result = replaceInContent("foo.bar foo.bar fooxbar", "foo.bar", "baz")
+			expect(result.content).to.equal("baz baz fooxbar")
+			expect(result.matchCount).to.equal(2)
+		})
+
+		it("should not expand $ sequences for literal replacements", () => {
+			const result = replaceInContent("price", "price", "$&$1")
+			expect(result.content).to.equal("$&$1")
+		})
+
+		it("should support capture groups in regex mode", () => {
+			const result = replaceInContent("getUser getOrder", "get(\\w+)", "fetch$1", true)
+			expect(result.content).to.equal("fetchUser fetchOrder")
+			expect(result.matchCount).to.equal(2)
+		})
+
+		it("should report zero matches when nothing changes", () => {
+			const result = replaceInContent("hello", "world", "there")
+			expect(result.content).to.equal("hello")
+			expect(result.matchCount).to.equal(0)
+		})
+	})
+
+	describe("splitCommandArgs", () => {
+		it("should split on whitespace", () => {
+			expect(splitCommandArgs("replace  foo   bar")).to.deep.equal(["replace", "foo", "bar"])
+		})
+
+		it("should keep quoted arguments together", () => {
+			expect(splitCommandArgs(`replace "old name" 'new name'`)).to.deep.equal(["replace", "old name", "new name"])
+		})
+
+		it("should preserve empty quoted arguments", () => {
+			expect(splitCommandArgs(`replace foo ""`)).to.deep.equal(["replace", "foo", ""])
+		})
+
+		it("should keep a quote that is never closed as a literal", () => {
+			expect(splitCommandArgs(`search don't panic`)).to.deep.equal(["search", "don't", "panic"])
+			expect(splitCommandArgs(`replace "it's" 'a "b" c'`)).to.deep.equal(["replace", "it's", 'a "b" c'])
+		})
+	})
+
+	describe("extractFlags", () => {
+		it("should separate value and boolean flags from positional arguments", () => {
+			const { options, rest } = extractFlags(["--regex", "a+", "--glob", "*.ts", "b"], ["glob"], ["regex"])
+			expect(options).to.deep.equal({ regex: true, glob: "*.ts" })
+			expect(rest).to.deep.equal(["a+", "b"])
+		})
+	})
+})
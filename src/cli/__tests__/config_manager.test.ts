@@ -245,6 +245,16 @@ describe("CliConfigManager", () => {
 			expect(result.errors).to.include("API key is required")
 		})
 
+		it("should accept local providers without an API key", () => {
+			const config: CliConfiguration = {
+				apiProvider: "openai-compatible",
+				apiModelId: "qwen2.5-coder",
+				baseUrl: "http://localhost:8000/v1",
+			}
+
+			expect(configManager.validateConfig(config).valid).to.be.true
+		})
+
 		it("should reject config without provider", () => {
 			const config: CliConfiguration = {
 				apiModelId: "claude-3-5-sonnet-20241022",
@@ -341,6 +351,18 @@ describe("CliConfigManager", () => {
 
 			delete process.env.ANTHROPIC_API_KEY
 		})
+
+		it("should not give environment API keys to local providers", () => {
+			configManager.saveConfig({ apiProvider: "openai-compatible", apiModelId: "qwen2.5-coder" })
+			process.env.ANTHROPIC_API_KEY = "test-env-key"
+
+			configManager.clearCache()
+			const config = configManager.loadConfig()
+
+			expect(config.apiKey).to.be.undefined
+
+			delete process.env.ANTHROPIC_API_KEY
+		})
 	})
 
 	describe("Plan/Act Mode Configuration", () => {
@@ -0,0 +1,201 @@
+/**
+ * Tests for CLI Headless Task Monitor
+ * Critical area: NDJSON event stream, ask policy and exit codes
+ */
+
+import { expect } from "chai"
+import sinon from "sinon"
+import type { Task } from "@/core/task"
+import type { ClineMessage } from "@/shared/ExtensionMessage"
+import { EXIT_CODES, HEADLESS, TIMEOUTS } from "../core/constants"
+import { CliHeadlessTaskMonitor, resolveAskAction } from "../tasks/headless_task_monitor"
+
+describe("CliHeadlessTaskMonitor", () => {
+	let clock: sinon.SinonFakeTimers
+	let messages: ClineMessage[]
+	let mockTask: any
+	let lines: string[]
+
+	const events = () => lines.map((line) => JSON.parse(line))
+
+	beforeEach(() => {
+		clock = sinon.useFakeTimers()
+		messages = []
+		lines = []
+		mockTask = {
+			messageStateHandler: { getClineMessages: () => messages },
+			handleWebviewAskResponse: sinon.stub().resolves(),
+			taskState: { abort: false },
+		}
+	})
+
+	afterEach(() => {
+		clock.restore()
+		sinon.restore()
+	})
+
+	describe("resolveAskAction", () => {
+		it("should finish with a distinct status for completion and mistake limit", () => {
+			expect(resolveAskAction("completion_result", "approve")).to.deep.equal({ action: "finish", status: "completed" })
+			expect(resolveAskAction("mistake_limit_reached", "approve")).to.deep.equal({
+				action: "finish",
+				status: "mistake_limit",
+			})
+		})
+
+		it("should follow the policy for tool and command asks", () => {
+			expect(resolveAskAction("command", "approve")).to.deep.equal({ action: "approve" })
+			expect(resolveAskAction("tool", "reject")).to.deep.equal({ action: "reject" })
+			expect(resolveAskAction("tool", "fail")).to.deep.equal({ action: "finish", status: "input_required" })
+		})
+
+		it("should never approve a command the command policy denies", () => {
+			expect(resolveAskAction("command", "approve", true)).to.deep.equal({ action: "reject" })
+			expect(resolveAskAction("command", "fail", true)).to.deep.equal({ action: "finish", status: "input_required" })
+		})
+
+		it("should reply to followups unless the policy is fail", () => {
+			expect(resolveAskAction("followup", "reject")).to.deep.equal({ action: "reply", text: HEADLESS.FOLLOWUP_REPLY })
+			expect(resolveAskAction("followup", "fail")).to.deep.equal({ action: "finish", status: "input_required" })
+		})
+
+		it("should only retry failed API requests under the approve policy", () => {
+			expect(resolveAskAction("api_req_failed", "approve")).to.deep.equal({ action: "approve" })
+			expect(resolveAskAction("api_req_failed", "reject")).to.deep.equal({ action: "finish", status: "error" })
+		})
+	})
+
+	describe("Event stream", () => {
+		it("should emit each complete message once as a JSON line", async () => {
+			const monitor = new CliHeadlessTaskMonitor("approve", (line) => lines.push(line))
+			monitor.run(mockTask as Task)
+
+			messages.push({ ts: 1, type: "say", say: "text", text: "Hel", partial: true })
+			await clock.tickAsync(TIMEOUTS.MESSAGE_CHECK_INTERVAL)
+			expect(lines).to.have.length(0)
+
+			messages[0] = { ts: 1, type: "say", say: "text", text: "Hello" }
+			await clock.tickAsync(TIMEOUTS.MESSAGE_CHECK_INTERVAL * 2)
+
+			expect(lines).to.have.length(1)
+			expect(lines[0].endsWith("\n")).to.be.true
+			expect(events()[0]).to.deep.include({ type: "message", message: messages[0] })
+			monitor.cancel()
+		})
+
+		it("should emit an update when api_req_started gains its cost", async () => {
+			const monitor = new CliHeadlessTaskMonitor("approve", (line) => lines.push(line))
+			monitor.run(mockTask as Task)
+
+			messages.push({ ts: 1, type: "say", say: "api_req_started", text: JSON.stringify({ request: "req" }) })
+			await clock.tickAsync(TIMEOUTS.MESSAGE_CHECK_INTERVAL)
+			messages[0] = { ...messages[0], text: JSON.stringify({ request: "req", tokensIn: 10, tokensOut: 5, cost: 0.01 }) }
+			await clock.tickAsync(TIMEOUTS.MESSAGE_CHECK_INTERVAL)
+
+			const [first, second] = events()
+			expect(first.type).to.equal("message")
+			expect(second.type).to.equal("message_updated")
+			expect(second.data).to.deep.equal({ request: "req", tokensIn: 10, tokensOut: 5, cost: 0.01 })
+			monitor.cancel()
+		})
+	})
+
+	describe("Run result", () => {
+		it("should approve tools and resolve with success on completion", async () => {
+			const monitor = new CliHeadlessTaskMonitor("approve", (line) => lines.push(line))
+			const result = monitor.run(mockTask as Task)
+
+			messages.push({ ts: 1, type: "say", say: "api_req_started", text: JSON.stringify({ cost: 0.02 }) })
+			messages.push({ ts: 2, type: "ask", ask: "tool", text: JSON.stringify({ tool: "readFile", path: "a.ts" }) })
+			await clock.tickAsync(TIMEOUTS.MESSAGE_CHECK_INTERVAL)
+			expect(mockTask.handleWebviewAskResponse.calledOnceWith("yesButtonClicked")).to.be.true
+
+			messages.push({ ts: 3, type: "ask", ask: "completion_result", text: "" })
+			await clock.tickAsync(TIMEOUTS.MESSAGE_CHECK_INTERVAL)
+
+			expect(await result).to.deep.equal({ status: "completed", exitCode: EXIT_CODES.SUCCESS, reason: undefined })
+			const finished = events().at(-1)
+			expect(finished.type).to.equal("task_finished")
+			expect(finished.usage.cost).to.equal(0.02)
+		})
+
+		it("should reject denied commands under the approve policy", async () => {
+			const monitor = new CliHeadlessTaskMonitor("approve", (line) => lines.push(line))
+			monitor.run(mockTask as Task)
+
+			messages.push({ ts: 1, type: "ask", ask: "command", text: "sudo rm -rf /" })
+			await clock.tickAsync(TIMEOUTS.MESSAGE_CHECK_INTERVAL)
+
+			expect(mockTask.handleWebviewAskResponse.calledOnceWith("noButtonClicked")).to.be.true
+			expect(events().at(-1)).to.include({ type: "ask_response", ask: "command", response: "rejected" })
+		})
+
+		it("should stop with the input-required exit code under the fail policy", async () => {
+			const monitor = new CliHeadlessTaskMonitor("fail", (line) => lines.push(line))
+			const result = monitor.run(mockTask as Task)
+
+			messages.push({ ts: 1, type: "ask", ask: "command", text: "rm -rf build" })
+			await clock.tickAsync(TIMEOUTS.MESSAGE_CHECK_INTERVAL)
+
+			expect((await result).exitCode).to.equal(EXIT_CODES.INPUT_REQUIRED)
+			expect(mockTask.handleWebviewAskResponse.called).to.be.false
+		})
+
+		it("should report the mistake limit with its own exit code", async () => {
+			const monitor = new CliHeadlessTaskMonitor("approve", (line) => lines.push(line))
+			const result = monitor.run(mockTask as Task)
+
+			messages.push({ ts: 1, type: "ask", ask: "mistake_limit_reached", text: "Too many mistakes" })
+			await clock.tickAsync(TIMEOUTS.MESSAGE_CHECK_INTERVAL)
+
+			expect(await result).to.deep.equal({
+				status: "mistake_limit",
+				exitCode: EXIT_CODES.MISTAKE_LIMIT,
+				reason: "Too many mistakes",
+			})
+		})
+
+		it("should report a stop at the task budget with its own exit code", async () => {
+			const monitor = new CliHeadlessTaskMonitor("approve", (line) => lines.push(line))
+			const result = monitor.run(mockTask as Task)
+
+			messages.push({ ts: 1, type: "say", say: "error", text: "Cost hard limit reached: $2.01 of $2.00" })
+			mockTask.taskState = { abort: true, budgetExceeded: true }
+			await clock.tickAsync(TIMEOUTS.MESSAGE_CHECK_INTERVAL)
+
+			expect(await result).to.deep.equal({
+				status: "budget_exceeded",
+				exitCode: EXIT_CODES.BUDGET_EXCEEDED,
+				reason: "Cost hard limit reached: $2.01 of $2.00",
+			})
+		})
+
+		it("should give up after the maximum number of API retries", async () => {
+			const monitor = new CliHeadlessTaskMonitor("approve", (line) => lines.push(line))
+			const result = monitor.run(mockTask as Task)
+
+			for (let i = 0; i <= HEADLESS.MAX_API_RETRIES; i++) {
+				messages.push({ ts: i + 1, type: "ask", ask: "api_req_failed", text: "503" })
+				await clock.tickAsync(TIMEOUTS.MESSAGE_CHECK_INTERVAL)
+			}
+
+			expect((await result).exitCode).to.equal(EXIT_CODES.ERROR)
+			expect(mockTask.handleWebviewAskResponse.callCount).to.equal(HEADLESS.MAX_API_RETRIES)
+		})
+
+		it("should resolve once with the cancelled exit code", async () => {
+			const monitor = new CliHeadlessTaskMonitor("approve", (line) => lines.push(line))
+			const result = monitor.run(mockTask as Task)
+
+			monitor.cancel("Received SIGINT")
+			monitor.cancel("Received SIGTERM")
+
+			expect(await result).to.deep.equal({
+				status: "cancelled",
+				exitCode: EXIT_CODES.CANCELLED,
+				reason: "Received SIGINT",
+			})
+			expect(events().filter((event) => event.type === "task_finished")).to.have.length(1)
+		})
+	})
+})
@@ -0,0 +1,129 @@
+/**
+ * Tests for the persistent shell sessions CLI commands run in
+ */
+
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { expect } from "chai"
+import { CliShellSession, quoteShellArgument, supportsShellSession } from "../terminal/shell_session"
+import { CliTerminalManager } from "../terminal/terminal_manager"
+
+describe("CliShellSession", function () {
+	this.timeout(10_000)
+
+	let tempDir: string
+	let session: CliShellSession
+
+	const run = async (command: string, cwd?: string) => {
+		let output = ""
+		const result = await session.run(command, (text) => (output += text), cwd)
+		return { ...result, output }
+	}
+
+	beforeEach(() => {
+		tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "shell-session-")))
+		fs.mkdirSync(path.join(tempDir, "sub dir"))
+		session = new CliShellSession("/bin/sh", tempDir)
+	})
+
+	afterEach(() => {
+		session.dispose()
+		fs.rmSync(tempDir, { recursive: true, force: true })
+	})
+
+	it("should keep the working directory and environment between commands", async () => {
+		const first = await run(`cd "sub dir" && export GREETING='hi there'`)
+		const second = await run(`echo "$GREETING"; printf 'no newline'`)
+
+		expect(first).to.include({ exitCode: 0, cwd: path.join(tempDir, "sub dir"), output: "" })
+		expect(second).to.include({ exitCode: 0, cwd: path.join(tempDir, "sub dir"), output: "hi there\nno newline" })
+	})
+
+	it("should capture exit codes and stderr without ending the session", async () => {
+		const failed = await run("echo oops >&2; false")
+		const syntaxError = await run("if then")
+		const after = await run("echo still here")
+
+		expect(failed).to.include({ exitCode: 1, output: "oops\n" })
+		expect(syntaxError.exitCode).to.not.equal(0)
+		expect(after).to.include({ exitCode: 0, output: "still here\n" })
+	})
+
+	it("should start a new shell after the command exits it", async () => {
+		await run("cd 'sub dir'")
+
+		expect(await run("exit 3")).to.include({ exitCode: 3 })
+		expect(await run("pwd")).to.include({ exitCode: 0, output: `${path.join(tempDir, "sub dir")}\n` })
+	})
+
+	it("should change to the requested directory first", async () => {
+		await run("cd 'sub dir'")
+
+		expect(await run("pwd", tempDir)).to.include({ cwd: tempDir, output: `${tempDir}\n` })
+	})
+
+	it("should quote arguments and detect POSIX shells", () => {
+		expect(quoteShellArgument("it's")).to.equal(`'it'\\''s'`)
+		expect(supportsShellSession("/bin/bash")).to.equal(process.platform !== "win32")
+		expect(supportsShellSession("/usr/bin/fish")).to.equal(false)
+	})
+})
+
+describe("CliTerminalManager", function () {
+	this.timeout(10_000)
+
+	const originalShell = process.env.SHELL
+	let tempDir: string
+	let manager: CliTerminalManager
+
+	beforeEach(() => {
+		process.env.SHELL = "/bin/sh"
+		tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "terminal-manager-")))
+		fs.mkdirSync(path.join(tempDir, "app"))
+		manager = new CliTerminalManager()
+	})
+
+	afterEach(() => {
+		manager.disposeAll()
+		process.env.SHELL = originalShell
+		fs.rmSync(tempDir, { recursive: true, force: true })
+	})
+
+	it("should reuse the session so cd carries over and report the exit code", async () => {
+		const first = manager.runCommand(await manager.getOrCreateTerminal(tempDir), "cd app")
+		await first
+
+		const terminal = await manager.getOrCreateTerminal(tempDir)
+		const second = manager.runCommand(terminal, "pwd")
+		const lines: string[] = []
+		second.on("line", (line) => lines.push(line))
+		await second
+
+		expect(first.cwd).to.equal(path.join(tempDir, "app"))
+		expect(lines.join("")).to.equal(`${path.join(tempDir, "app")}\n`)
+		expect(second.exitCode).to.equal(0)
+		expect(manager.getTerminals(false)).to.have.length(1)
+	})
+
+	it("should start every command in the given directory when reuse is disabled", async () => {
+		manager.setTerminalReuseEnabled(false)
+		await manager.runCommand(await manager.getOrCreateTerminal(tempDir), "cd app")
+
+		const second = manager.runCommand(await manager.getOrCreateTerminal(tempDir), "pwd")
+		await second
+
+		expect(second.cwd).to.equal(tempDir)
+		expect(manager.getTerminals(false)).to.have.length(2)
+	})
+
+	it("should keep the CLI's reuse setting over the one tasks pass in", async () => {
+		manager.disposeAll()
+		manager = new CliTerminalManager(false)
+		manager.setTerminalReuseEnabled(true)
+		await manager.runCommand(await manager.getOrCreateTerminal(tempDir), "cd app")
+
+		await manager.getOrCreateTerminal(tempDir)
+		expect(manager.getTerminals(false)).to.have.length(2)
+	})
+})
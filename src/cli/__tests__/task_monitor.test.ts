@@ -21,6 +21,7 @@ describe("CliTaskMonitor", () => {
 			handleWebviewAskResponse: sinon.stub().resolves(),
 			taskState: { abort: false },
 		}
+		mockTask.messageStateHandler = { getClineMessages: () => mockTask.clineMessages }
 	})
 
 	afterEach(() => {
@@ -149,6 +150,25 @@ describe("CliTaskMonitor", () => {
 			expect(mockTask.handleWebviewAskResponse.calledWith("yesButtonClicked")).to.be.true
 		})
 
+		it("should reject commands the command policy denies", async () => {
+			monitor = new CliTaskMonitor(true)
+
+			const askMessage: ClineMessage = {
+				type: "ask",
+				ask: "command",
+				text: "git push --force origin main",
+				ts: Date.now(),
+			}
+
+			mockTask.clineMessages = [askMessage]
+			monitor.startMonitoring(mockTask as Task)
+
+			await clock.tickAsync(100)
+
+			expect(mockTask.handleWebviewAskResponse.calledWith("noButtonClicked")).to.be.true
+			expect(mockTask.handleWebviewAskResponse.calledWith("yesButtonClicked")).to.be.false
+		})
+
 		it("should auto-approve tool execution", async () => {
 			monitor = new CliTaskMonitor(true)
 
@@ -0,0 +1,275 @@
+/**
+ * Tests for CLI Workflow Runner
+ * Critical area: conditions, failure handling and output variables
+ */
+
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { expect } from "chai"
+import { EXIT_CODES } from "../core/constants"
+import { CliWorkflowManager, type Workflow, type WorkflowStep } from "../tasks/workflow_manager"
+import {
+	formatWorkflowRunSummary,
+	quoteShellValue,
+	runShellCommand,
+	runWorkflow,
+	substituteWorkflowVariables,
+	validateWorkflow,
+	type WorkflowCommandResult,
+	type WorkflowStepExecutor,
+} from "../tasks/workflow_runner"
+
+describe("CLI Workflow Runner", () => {
+	let commands: string[]
+	let prompts: string[]
+	let commandResults: Record<string, WorkflowCommandResult[]>
+
+	const workflow = (steps: WorkflowStep[], variables?: Record<string, string>): Workflow => ({
+		id: "test-workflow",
+		name: "Test Workflow",
+		description: "",
+		steps,
+		variables,
+		createdAt: 0,
+		updatedAt: 0,
+	})
+
+	// Commands answer from a per-command queue; the last entry repeats once the queue runs dry
+	const executor: WorkflowStepExecutor = {
+		runCommand: async (command) => {
+			commands.push(command)
+			const queue = commandResults[command] ?? [{ exitCode: 0, output: `ran ${command}` }]
+			return queue.length > 1 ? (queue.shift() as WorkflowCommandResult) : queue[0]
+		},
+		runPrompt: async (prompt) => {
+			prompts.push(prompt)
+			return { success: true, output: "done" }
+		},
+	}
+
+	const run = (steps: WorkflowStep[], variables?: Record<string, string>) =>
+		runWorkflow(workflow(steps, { env: "dev", ...variables }), { cwd: ".", executor })
+
+	beforeEach(() => {
+		commands = []
+		prompts = []
+		commandResults = {}
+	})
+
+	describe("substituteWorkflowVariables", () => {
+		it("should replace known placeholders and keep unknown ones", () => {
+			expect(substituteWorkflowVariables("deploy {{ env }} {{missing}}", { env: "prod" })).to.equal(
+				"deploy prod {{missing}}",
+			)
+		})
+
+		it("should keep each value one shell word in commands", async () => {
+			commandResults.branch = [{ exitCode: 0, output: "main; rm -rf ~\n" }]
+
+			await run(
+				[
+					{ id: "branch", name: "Branch", command: "branch" },
+					{ name: "Push", command: "push {{steps.branch.output}} {{message}}" },
+				],
+				{ message: "it's $(whoami)" },
+			)
+
+			expect(commands[1]).to.equal(`push 'main; rm -rf ~' 'it'\\''s $(whoami)'`)
+			expect(quoteShellValue(`say "hi" & exit`, "win32")).to.equal(`"say ""hi"" & exit"`)
+		})
+
+		it("should insert {{{name}}} variables as is, but never step output", async () => {
+			commandResults.branch = [{ exitCode: 0, output: "main; rm -rf ~" }]
+
+			await run(
+				[
+					{ id: "branch", name: "Branch", command: "branch", output: "branch_name" },
+					{ name: "Test", command: "{{{test_command}}} {{{branch_name}}}" },
+				],
+				{ test_command: "npm run test:unit" },
+			)
+
+			expect(commands[1]).to.equal("npm run test:unit {{{branch_name}}}")
+		})
+	})
+
+	describe("validateWorkflow", () => {
+		it("should report steps without a body and conditions on later steps", () => {
+			const errors = validateWorkflow(
+				workflow([
+					{ name: "Empty" },
+					{ name: "Early", command: "true", when: { step: "late" } },
+					{ id: "late", name: "Late", command: "true" },
+				]),
+			)
+
+			expect(errors).to.deep.equal([
+				"Step 1 (Empty) needs a prompt or a command",
+				'Step 2 (Early) has a condition on "late", which is not an earlier step',
+			])
+		})
+
+		it("should make runWorkflow reject an invalid workflow before running anything", async () => {
+			let error: Error | undefined
+			await run([{ name: "Build", command: "make" }, { name: "Empty" }]).catch((e) => {
+				error = e
+			})
+
+			expect(error?.message).to.contain("needs a prompt or a command")
+			expect(commands).to.deep.equal([])
+		})
+	})
+
+	describe("runWorkflow", () => {
+		it("should substitute variables and pass captured output to later steps", async () => {
+			commandResults["git rev-parse HEAD"] = [{ exitCode: 0, output: "abc123\n" }]
+
+			const result = await run([
+				{ id: "sha", name: "Get SHA", command: "git rev-parse HEAD", output: "sha" },
+				{ name: "Deploy", command: "deploy --env {{env}} --sha {{sha}}" },
+				{ name: "Review", prompt: "Review {{steps.sha.output}} ({{steps.sha.exitCode}})" },
+			])
+
+			expect(commands).to.deep.equal(["git rev-parse HEAD", "deploy --env dev --sha abc123"])
+			expect(prompts).to.deep.equal(["Review abc123 (0)"])
+			expect(result.variables.sha).to.equal("abc123")
+			expect(result.status).to.equal("succeeded")
+			expect(result.exitCode).to.equal(EXIT_CODES.SUCCESS)
+		})
+
+		it("should run steps only when their conditions hold", async () => {
+			commandResults.lint = [{ exitCode: 1, output: "2 warnings" }]
+
+			const result = await run([
+				{ id: "lint", name: "Lint", command: "lint", onFailure: "skip" },
+				{ name: "Fix", prompt: "fix", when: { step: "lint", status: "failed" } },
+				{ name: "Ship", command: "ship", when: { step: "lint" } },
+				{
+					name: "Warn",
+					command: "warn",
+					when: [
+						{ step: "lint", contains: "warning" },
+						{ variable: "env", equals: "dev" },
+					],
+				},
+				{ name: "Prod", command: "prod", when: { variable: "env", equals: "prod" } },
+				{ name: "Not prod", command: "not-prod", when: { variable: "env", equals: "prod", not: true } },
+			])
+
+			expect(result.steps.map((step) => step.status)).to.deep.equal([
+				"failed",
+				"succeeded",
+				"skipped",
+				"succeeded",
+				"skipped",
+				"succeeded",
+			])
+			expect(commands).to.deep.equal(["lint", "warn", "not-prod"])
+			expect(result.status).to.equal("succeeded")
+		})
+
+		it("should retry failed steps and succeed once an attempt passes", async () => {
+			commandResults.flaky = [
+				{ exitCode: 1, output: "" },
+				{ exitCode: 0, output: "ok" },
+			]
+
+			const result = await run([{ name: "Flaky", command: "flaky", onFailure: "retry", retries: 3 }])
+
+			expect(result.steps[0]).to.include({ status: "succeeded", attempts: 2, output: "ok" })
+		})
+
+		it("should abort when retries run out and skip the remaining steps", async () => {
+			commandResults.broken = [{ exitCode: 2, output: "boom" }]
+
+			const result = await run([
+				{ name: "Broken", command: "broken", onFailure: "retry", retries: 1 },
+				{ name: "After", command: "after" },
+			])
+
+			expect(commands).to.deep.equal(["broken", "broken"])
+			expect(result.steps[0]).to.include({ status: "failed", attempts: 2, exitCode: 2, error: "Exited with code 2" })
+			expect(result.steps[1]).to.include({ status: "skipped", error: "Workflow aborted" })
+			expect(result.status).to.equal("failed")
+			expect(result.exitCode).to.equal(EXIT_CODES.ERROR)
+		})
+
+		it("should treat executor errors as step failures", async () => {
+			const result = await runWorkflow(workflow([{ name: "Agent", prompt: "go" }]), {
+				cwd: ".",
+				executor: {
+					...executor,
+					runPrompt: async () => {
+						throw new Error("API key not configured")
+					},
+				},
+			})
+
+			expect(result.steps[0]).to.include({ status: "failed", error: "API key not configured" })
+			expect(result.status).to.equal("failed")
+		})
+	})
+
+	describe("formatWorkflowRunSummary", () => {
+		it("should list every step with its status and the totals", async () => {
+			commandResults.test = [{ exitCode: 1, output: "" }]
+			const result = await run([
+				{ name: "Test", command: "test", onFailure: "skip" },
+				{ name: "Release", command: "release", when: { step: "test" } },
+			])
+
+			const summary = formatWorkflowRunSummary(result)
+
+			expect(summary).to.contain("❌ 1. Test (command")
+			expect(summary).to.contain("Exited with code 1")
+			expect(summary).to.contain("2. Release (command)")
+			expect(summary).to.contain("Condition not met")
+			expect(summary).to.contain("0 succeeded, 1 failed, 1 skipped")
+		})
+	})
+
+	describe("fix-failing-tests template", () => {
+		let workspace: string
+
+		beforeEach(() => {
+			workspace = fs.mkdtempSync(path.join(os.tmpdir(), "workflow-template-"))
+		})
+
+		afterEach(() => {
+			fs.rmSync(workspace, { recursive: true, force: true })
+		})
+
+		it("should run the test command through the shell", async () => {
+			const manager = new CliWorkflowManager(workspace)
+			await manager.initialize()
+			await manager.createTemplates()
+			const template = (await manager.getWorkflow("fix-failing-tests")) as Workflow
+
+			const result = await runWorkflow(template, {
+				cwd: workspace,
+				executor: { ...executor, runCommand: runShellCommand },
+				variables: { test_command: `node -e "console.log('all tests passed')"` },
+			})
+
+			expect(result.steps.map((step) => step.status)).to.deep.equal(["succeeded", "skipped", "skipped"])
+			expect(result.variables.test_output.trim()).to.equal("all tests passed")
+		})
+	})
+
+	describe("runShellCommand", () => {
+		it("should capture output and the exit code", async () => {
+			const result = await runShellCommand("echo hello && exit 3", { cwd: ".", timeoutMs: 10000 })
+
+			expect(result.exitCode).to.equal(3)
+			expect(result.output.trim()).to.equal("hello")
+		})
+
+		it("should stop commands that exceed the timeout", async () => {
+			const result = await runShellCommand("sleep 5", { cwd: ".", timeoutMs: 100 })
+
+			expect(result.timedOut).to.equal(true)
+			expect(result.exitCode).to.not.equal(0)
+		})
+	})
+})
@@ -3,6 +3,7 @@
  * Handles slash commands for quick operations in interactive mode
  */
 
+import { MCP_PROMPT_COMMAND_PREFIX } from "@/core/slash-commands/mcp_prompts"
 import type { Task } from "@/core/task"
 import type { CliWebviewProvider } from "../providers/webview_provider"
 import { output } from "../ui/output/output"
@@ -12,6 +13,8 @@ export interface SlashCommand {
 	description: string
 	usage: string
 	aliases?: string[]
+	/** Split arguments honoring quotes, for commands whose arguments may contain spaces */
+	quotedArgs?: boolean
 	handler: (args: string[], context: SlashCommandContext) => Promise<void>
 }
 
@@ -22,6 +25,70 @@ export interface SlashCommandContext {
 	focusChainManager?: any
 }
 
+/**
+ * Split a command line into arguments, honoring single and double quotes
+ * A quote that is never closed (e.g. the apostrophe in "don't") is kept as a literal character
+ */
+export function splitCommandArgs(input: string): string[] {
+	const args: string[] = []
+	let current = ""
+	let quote: '"' | "'" | undefined
+	let hasToken = false
+
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i]
+		if (quote) {
+			if (char === quote) {
+				quote = undefined
+			} else {
+				current += char
+			}
+		} else if ((char === '"' || char === "'") && input.includes(char, i + 1)) {
+			quote = char
+			hasToken = true
+		} else if (/\s/.test(char)) {
+			if (hasToken) {
+				args.push(current)
+				current = ""
+				hasToken = false
+			}
+		} else {
+			current += char
+			hasToken = true
+		}
+	}
+
+	if (hasToken) {
+		args.push(current)
+	}
+	return args
+}
+
+/**
+ * Pull `--name value` options and boolean `--flag` switches out of an argument list
+ */
+export function extractFlags(
+	args: string[],
+	valueFlags: string[],
+	booleanFlags: string[] = [],
+): { options: Record<string, string | boolean>; rest: string[] } {
+	const options: Record<string, string | boolean> = {}
+	const rest: string[] = []
+
+	for (let i = 0; i < args.length; i++) {
+		const name = args[i].startsWith("--") ? args[i].slice(2) : undefined
+		if (name && valueFlags.includes(name) && i + 1 < args.length) {
+			options[name] = args[++i]
+		} else if (name && booleanFlags.includes(name)) {
+			options[name] = true
+		} else {
+			rest.push(args[i])
+		}
+	}
+
+	return { options, rest }
+}
+
 export class CliSlashCommandsHandler {
 	private commands: Map<string, SlashCommand> = new Map()
 
@@ -37,19 +104,28 @@ export class CliSlashCommandsHandler {
 		this.register({
 			name: "search",
 			description: "Search the codebase for a pattern",
-			usage: "/search <query>",
+			usage: "/search <regex> [--glob <pattern>]",
 			aliases: ["find", "grep"],
-			handler: async (args, _context) => {
-				if (args.length === 0) {
-					output.log("❌ Usage: /search <query>")
+			quotedArgs: true,
+			handler: async (args, context) => {
+				const { options, rest } = extractFlags(args, ["glob"])
+				if (rest.length === 0) {
+					output.log("❌ Usage: /search <regex> [--glob <pattern>]")
 					return
 				}
 
-				const query = args.join(" ")
-				output.log(`\n🔍 Searching for: "${query}"`)
+				const { CliCodebaseOperations } = await import("../tasks/codebase_operations")
+				const operations = new CliCodebaseOperations(process.cwd(), context.verbose)
+
+				const query = rest.join(" ")
+				const glob = typeof options.glob === "string" ? options.glob : undefined
+				output.log(`\n🔍 Searching for: "${query}"${glob ? ` in ${glob}` : ""}`)
 				output.log("─".repeat(80))
-				output.log("💡 This would execute a codebase search.")
-				output.log("   Results would be displayed here with file paths and line numbers.")
+				try {
+					output.log(await operations.search(query, glob))
+				} catch (error) {
+					output.log(`❌ Search failed: ${error instanceof Error ? error.message : String(error)}`)
+				}
 				output.log("─".repeat(80) + "\n")
 			},
 		})
@@ -58,21 +134,64 @@ export class CliSlashCommandsHandler {
 		this.register({
 			name: "replace",
 			description: "Perform bulk find-and-replace operations",
-			usage: "/replace <pattern> <replacement>",
+			usage: '/replace [--regex] [--glob <pattern>] <pattern> <replacement>  (quote arguments with spaces, e.g. "a b")',
 			aliases: ["sub"],
-			handler: async (args, _context) => {
-				if (args.length < 2) {
-					output.log("❌ Usage: /replace <pattern> <replacement>")
+			quotedArgs: true,
+			handler: async (args, context) => {
+				const { options, rest } = extractFlags(args, ["glob"], ["regex"])
+				if (rest.length < 2) {
+					output.log("❌ Usage: /replace [--regex] [--glob <pattern>] <pattern> <replacement>")
 					return
 				}
 
-				const pattern = args[0]
-				const replacement = args.slice(1).join(" ")
-				output.log(`\n🔄 Replace: "${pattern}" → "${replacement}"`)
-				output.log("─".repeat(80))
-				output.log("💡 This would perform a bulk find-and-replace.")
-				output.log("   Affected files and preview would be shown here.")
-				output.log("─".repeat(80) + "\n")
+				const pattern = rest[0]
+				const replacement = rest.slice(1).join(" ")
+
+				const { CliCodebaseOperations } = await import("../tasks/codebase_operations")
+				const { CliDiffViewProvider } = await import("../providers/diff_provider")
+				const { getInteractionHandler } = await import("./interaction_handler")
+				const operations = new CliCodebaseOperations(process.cwd(), context.verbose)
+
+				output.log(`\n🔄 Replace: "${pattern}" → "${replacement}"${options.regex ? " (regex)" : ""}`)
+
+				let plan: Awaited<ReturnType<typeof operations.planReplacements>>
+				try {
+					plan = await operations.planReplacements(pattern, replacement, {
+						regex: options.regex === true,
+						glob: typeof options.glob === "string" ? options.glob : undefined,
+					})
+				} catch (error) {
+					output.log(`❌ Replace failed: ${error instanceof Error ? error.message : String(error)}\n`)
+					return
+				}
+
+				if (plan.files.length === 0) {
+					output.log("No matches found. Nothing to replace.\n")
+					return
+				}
+
+				// Preview every affected file before asking for confirmation
+				const diffProvider = new CliDiffViewProvider()
+				for (const file of plan.files) {
+					await diffProvider.displayDiff(file.originalContent, file.newContent, file.relativePath)
+				}
+
+				const fileLabel = plan.files.length === 1 ? "file" : "files"
+				const approved = await getInteractionHandler().askApproval(
+					`Apply ${plan.totalMatches} replacement(s) in ${plan.files.length} ${fileLabel}?`,
+					false,
+				)
+				if (!approved) {
+					output.log("\n⏭️  Replace cancelled. No files were changed.\n")
+					return
+				}
+
+				await operations.applyReplacements(plan)
+				output.log(`\n✅ Updated ${plan.files.length} ${fileLabel}:`)
+				for (const file of plan.files) {
+					output.log(`   ✓ ${file.relativePath} (${file.matchCount})`)
+				}
+				output.log("")
 			},
 		})
 
@@ -82,17 +201,36 @@ export class CliSlashCommandsHandler {
 			description: "Analyze a specific file or directory",
 			usage: "/analyze <path>",
 			aliases: ["check", "inspect"],
-			handler: async (args, _context) => {
+			handler: async (args, context) => {
 				if (args.length === 0) {
 					output.log("❌ Usage: /analyze <path>")
 					return
 				}
 
+				const { CliCodebaseOperations } = await import("../tasks/codebase_operations")
+				const operations = new CliCodebaseOperations(process.cwd(), context.verbose)
+
 				const filePath = args.join(" ")
 				output.log(`\n📊 Analyzing: ${filePath}`)
 				output.log("─".repeat(80))
-				output.log("💡 This would perform static analysis on the file.")
-				output.log("   Code metrics, issues, and suggestions would be displayed.")
+
+				try {
+					const report = await operations.analyze(filePath)
+					output.log(`Path:        ${report.relativePath}`)
+					output.log(`Type:        ${report.isDirectory ? "directory" : report.extension || "file"}`)
+					if (report.lineCount !== undefined) {
+						output.log(`Lines:       ${report.lineCount.toLocaleString()}`)
+					}
+					output.log(`Size:        ${report.sizeBytes.toLocaleString()} bytes`)
+
+					output.log("\n📐 Definitions")
+					output.log(report.definitions.trimEnd())
+
+					output.log("\n🩺 Diagnostics")
+					output.log(report.diagnostics)
+				} catch (error) {
+					output.log(`❌ Analysis failed: ${error instanceof Error ? error.message : String(error)}`)
+				}
 				output.log("─".repeat(80) + "\n")
 			},
 		})
@@ -140,7 +278,7 @@ export class CliSlashCommandsHandler {
 		this.register({
 			name: "checkpoint",
 			description: "Manage Git-based checkpoints (automatic on first API request)",
-			usage: "/checkpoint [status|create|changes]",
+			usage: "/checkpoint [status|create|changes|list|restore <n|hash> [paths...]]",
 			aliases: ["cp"],
 			handler: async (args, context) => {
 				const subcommand = args[0] || "status"
@@ -201,10 +339,60 @@ export class CliSlashCommandsHandler {
 							output.log("─".repeat(80) + "\n")
 							break
 						}
+						case "list":
+						case "ls": {
+							if (!task) {
+								output.log("\n❌ No active task.\n")
+								break
+							}
+
+							const checkpoints = await checkpointIntegration.listCheckpoints(task)
+							output.log(checkpointIntegration.formatCheckpointList(checkpoints))
+							break
+						}
 						case "restore": {
-							output.log("\n💡 Checkpoint restoration is available through the extension UI.")
-							output.log("   This allows you to visually review changes before restoring.")
-							output.log("   Use the 'View Changes' button in the chat to access this feature.\n")
+							if (!task) {
+								output.log("\n❌ No active task.\n")
+								break
+							}
+
+							const [ref, ...filePaths] = args.slice(1)
+							if (!ref) {
+								output.log("\n❌ Usage: /checkpoint restore <n|hash> [paths...]")
+								output.log("   Run /checkpoint list to see available checkpoints.\n")
+								break
+							}
+
+							const checkpoints = await checkpointIntegration.listCheckpoints(task)
+							const checkpoint = checkpointIntegration.resolveCheckpoint(checkpoints, ref)
+							if (!checkpoint) {
+								output.log(
+									`\n❌ No checkpoint matches "${ref}". Run /checkpoint list to see available checkpoints.\n`,
+								)
+								break
+							}
+
+							output.log(`\n⏮️  Restoring from checkpoint ${checkpoint.hash.substring(0, 8)}...`)
+							output.log("─".repeat(80))
+
+							if (filePaths.length === 0) {
+								await checkpointIntegration.restoreCheckpoint(task, checkpoint.messageTs, "workspace")
+								output.log("✅ Workspace restored. The conversation was left unchanged.")
+							} else {
+								const { restored, deleted } = await checkpointIntegration.restoreFiles(
+									task,
+									checkpoint.hash,
+									filePaths,
+								)
+								for (const file of restored) {
+									output.log(`   restored ${file}`)
+								}
+								for (const file of deleted) {
+									output.log(`   removed  ${file} (not in checkpoint)`)
+								}
+								output.log(`✅ Restored ${restored.length + deleted.length} file(s).`)
+							}
+							output.log("─".repeat(80) + "\n")
 							break
 						}
 						case "diff": {
@@ -215,10 +403,12 @@ export class CliSlashCommandsHandler {
 						}
 						default: {
 							output.log("❌ Unknown checkpoint subcommand:", subcommand)
-							output.log("   Usage: /checkpoint [status|create|changes]")
+							output.log("   Usage: /checkpoint [status|create|changes|list|restore]")
 							output.log("\n   status  - Show checkpoint system status")
 							output.log("   create  - Create a checkpoint manually")
-							output.log("   changes - Check for new changes since last completion\n")
+							output.log("   changes - Check for new changes since last completion")
+							output.log("   list    - List checkpoints and the files each one changed")
+							output.log("   restore - Restore the workspace, or only the given files, from a checkpoint\n")
 						}
 					}
 				} catch (error) {
@@ -326,31 +516,42 @@ export class CliSlashCommandsHandler {
 		// History command
 		this.register({
 			name: "history",
-			description: "View task history",
-			usage: "/history [list|export]",
+			description: "View, search and export task history",
+			usage: "/history [list|search <query>|export <id> [format]]",
 			aliases: ["h"],
-			handler: async (args, _context) => {
+			handler: async (args, context) => {
 				const subcommand = args[0] || "list"
 
+				const { CliTaskHistoryManager } = await import("../tasks/task_history_manager")
+				const historyManager = new CliTaskHistoryManager(context.webviewProvider.controller, context.verbose)
+
 				switch (subcommand) {
 					case "list": {
-						output.log("\n📜 Task History")
-						output.log("─".repeat(80))
-						output.log("💡 Recent tasks would be listed here.")
-						output.log("─".repeat(80) + "\n")
+						await historyManager.displayHistory()
+						break
+					}
+					case "search": {
+						const { options, rest } = extractFlags(args.slice(1), ["limit"])
+						if (rest.length === 0) {
+							output.log("❌ Usage: /history search <query> [--limit <n>]")
+							break
+						}
+						const limit = typeof options.limit === "string" ? Number.parseInt(options.limit, 10) : undefined
+						await historyManager.searchHistory(rest.join(" "), limit && limit > 0 ? limit : undefined)
 						break
 					}
 					case "export": {
 						const taskId = args[1]
-						output.log(`\n📤 Exporting task: ${taskId || "latest"}`)
-						output.log("─".repeat(80))
-						output.log("💡 Task would be exported as markdown.")
-						output.log("─".repeat(80) + "\n")
+						if (!taskId) {
+							output.log("❌ Usage: /history export <id> [markdown|json|html|bundle]")
+							break
+						}
+						await historyManager.exportTask(taskId, args[2])
 						break
 					}
 					default: {
 						output.log("❌ Unknown history subcommand:", subcommand)
-						output.log("   Usage: /history [list|export]")
+						output.log("   Usage: /history [list|search <query>|export <id> [format]]")
 					}
 				}
 			},
@@ -482,7 +683,7 @@ export class CliSlashCommandsHandler {
 							}
 
 							output.log("💡 Workflow execution from slash command coming soon.")
-							output.log("   For now, use: mariecoder --workflow <workflow-name>\n")
+							output.log(`   For now, use: mariecoder run-workflow ${workflowName} [--var key=value]\n`)
 							break
 						}
 						case "delete":
@@ -583,13 +784,13 @@ export class CliSlashCommandsHandler {
 		}
 
 		// Parse command and arguments
-		const parts = trimmed.substring(1).split(/\s+/)
-		const commandName = parts[0].toLowerCase()
-		const args = parts.slice(1)
+		const [, name, argText] = trimmed.substring(1).match(/^(\S*)\s*([\s\S]*)$/)!
+		const commandName = name.toLowerCase()
 
 		// Find and execute command
 		const command = this.commands.get(commandName)
 		if (command) {
+			const args = command.quotedArgs ? splitCommandArgs(argText) : argText.split(/\s+/).filter(Boolean)
 			try {
 				await command.handler(args, context)
 				return true
@@ -599,6 +800,11 @@ export class CliSlashCommandsHandler {
 			}
 		}
 
+		// MCP prompts are resolved by the task, like the extension's slash commands
+		if (commandName.startsWith(MCP_PROMPT_COMMAND_PREFIX)) {
+			return false
+		}
+
 		// Unknown command
 		output.log(`\n❌ Unknown command: /${commandName}`)
 		output.log("   Type /help to see available commands.\n")
@@ -642,6 +848,7 @@ export class CliSlashCommandsHandler {
 
 		output.log("\n" + "═".repeat(80))
 		output.log("💡 Tip: Use /help <command> for detailed help on a specific command.")
+		output.log("💡 Run an MCP server's prompt with /mcp:<server>:<prompt> [name=value ...] [message].")
 		output.log("═".repeat(80) + "\n")
 	}
 
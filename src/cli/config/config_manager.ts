@@ -31,6 +31,7 @@
 import * as fs from "node:fs"
 import * as os from "node:os"
 import * as path from "node:path"
+import type { DiagnosticCheckerOverrides } from "@/integrations/diagnostics/checkers"
 import { DataTable } from "../ui/components/data_visualization"
 import { output } from "../ui/output/output"
 import { SemanticColors, style, TerminalColors } from "../ui/output/terminal_colors"
@@ -52,12 +53,26 @@ export interface CliConfiguration {
 	planModeApiModelId?: string
 	actModeApiProvider?: string
 	actModeApiModelId?: string
+	// Endpoint for self-hosted OpenAI-compatible servers
+	baseUrl?: string
 	// Terminal output management
 	terminalOutputLineLimit?: number
 	shellIntegrationTimeout?: number
 	terminalReuseEnabled?: boolean
 	// Task history configuration
 	taskHistoryLimit?: number
+	// Linters and type-checkers run after each edit, keyed by checker name; false turns them all off
+	diagnosticCheckers?: DiagnosticCheckerOverrides | false
+}
+
+/** Providers for local or self-hosted models, which work without an API key */
+const KEYLESS_PROVIDERS = new Set(["lmstudio", "ollama", "openai-compatible"])
+
+/**
+ * Whether the provider can't be used without an API key
+ */
+export function providerRequiresApiKey(provider: string | undefined): boolean {
+	return !provider || !KEYLESS_PROVIDERS.has(provider)
 }
 
 /**
@@ -281,6 +296,9 @@ export class CliConfigManager {
 		if (options.mode) {
 			config.mode = options.mode
 		}
+		if (options.baseUrl) {
+			config.baseUrl = options.baseUrl
+		}
 		if (options.planActSeparateModelsSetting !== undefined) {
 			config.planActSeparateModelsSetting = options.planActSeparateModelsSetting
 		}
@@ -318,8 +336,13 @@ export class CliConfigManager {
 	 * Merge environment variables into config
 	 */
 	private mergeEnvironmentVariables(config: CliConfiguration): void {
-		// API Keys (only if not already set)
-		if (!config.apiKey) {
+		// Provider
+		if (!config.apiProvider && process.env.MARIE_PROVIDER) {
+			config.apiProvider = process.env.MARIE_PROVIDER
+		}
+
+		// API Keys (only if not already set, and never sent to keyless local servers)
+		if (!config.apiKey && providerRequiresApiKey(config.apiProvider)) {
 			config.apiKey =
 				process.env.ANTHROPIC_API_KEY ||
 				process.env.OPENAI_API_KEY ||
@@ -327,16 +350,16 @@ export class CliConfigManager {
 				process.env.MARIE_API_KEY
 		}
 
-		// Provider
-		if (!config.apiProvider && process.env.MARIE_PROVIDER) {
-			config.apiProvider = process.env.MARIE_PROVIDER
-		}
-
 		// Model
 		if (!config.apiModelId && process.env.MARIE_MODEL) {
 			config.apiModelId = process.env.MARIE_MODEL
 		}
 
+		// Base URL
+		if (!config.baseUrl && process.env.MARIE_BASE_URL) {
+			config.baseUrl = process.env.MARIE_BASE_URL
+		}
+
 		// Temperature
 		if (config.temperature === undefined && process.env.MARIE_TEMPERATURE) {
 			config.temperature = Number.parseFloat(process.env.MARIE_TEMPERATURE)
@@ -370,7 +393,7 @@ export class CliConfigManager {
 	validateConfig(config: CliConfiguration): { valid: boolean; errors: string[] } {
 		const errors: string[] = []
 
-		if (!config.apiKey) {
+		if (!config.apiKey && providerRequiresApiKey(config.apiProvider)) {
 			errors.push("API key is required")
 		}
 
@@ -24,6 +24,8 @@ export interface SetupConfig {
 	planModeApiModelId?: string
 	actModeApiProvider?: string
 	actModeApiModelId?: string
+	// Endpoint for self-hosted OpenAI-compatible servers
+	baseUrl?: string
 }
 
 export class CliSetupWizard {
@@ -63,8 +65,8 @@ export class CliSetupWizard {
 
 		try {
 			// Step 1: Provider & API Key (combined)
-			const { provider, apiKey } = await this.configureProviderAndKey()
-			if (!provider || !apiKey) {
+			const { provider, apiKey, baseUrl } = await this.configureProviderAndKey()
+			if (!provider || apiKey === null) {
 				return null
 			}
 
@@ -85,6 +87,7 @@ export class CliSetupWizard {
 				temperature: extras.temperature,
 				maxTokens: extras.maxTokens,
 				hasCompletedSetup: true,
+				baseUrl,
 			}
 
 			this.saveConfig(config)
@@ -138,7 +141,9 @@ export class CliSetupWizard {
 	/**
 	 * Step 1: Configure provider and API key (combined for efficiency)
 	 */
-	private async configureProviderAndKey(): Promise<{ provider: string; apiKey: string } | { provider: null; apiKey: null }> {
+	private async configureProviderAndKey(): Promise<
+		{ provider: string; apiKey: string; baseUrl?: string } | { provider: null; apiKey: null; baseUrl?: undefined }
+	> {
 		output.log("🔑 Step 1: Provider & API Key")
 		output.log("─".repeat(80))
 
@@ -170,9 +175,17 @@ export class CliSetupWizard {
 		output.log("  1. Anthropic Claude (Recommended) - Best for coding")
 		output.log("  2. OpenRouter - Access to 100+ models")
 		output.log("  3. LM Studio - Run models locally")
+		output.log("  4. Ollama - Run models locally")
+		output.log("  5. OpenAI Compatible - Self-hosted servers (vLLM, llama.cpp, ...)")
 		output.log()
 
-		const choice = await this.interactionHandler.askChoice("Select provider:", ["anthropic", "openrouter", "lmstudio"])
+		const choice = await this.interactionHandler.askChoice("Select provider:", [
+			"anthropic",
+			"openrouter",
+			"lmstudio",
+			"ollama",
+			"openai-compatible",
+		])
 
 		if (!choice) {
 			output.log("\n❌ No provider selected. Setup cancelled.")
@@ -184,7 +197,25 @@ export class CliSetupWizard {
 		// LM Studio doesn't need an API key
 		if (choice === "lmstudio") {
 			output.log("✓ LM Studio uses local models (no API key needed)\n")
-			return { provider: "lmstudio", apiKey: "local" }
+			return { provider: "lmstudio", apiKey: "" }
+		}
+
+		// Ollama doesn't need an API key either
+		if (choice === "ollama") {
+			output.log("✓ Ollama uses local models (no API key needed)\n")
+			return { provider: "ollama", apiKey: "" }
+		}
+
+		// Self-hosted endpoints need a base URL; the key is optional for most servers
+		if (choice === "openai-compatible") {
+			const baseUrl = await this.interactionHandler.askInput("\nBase URL", "http://localhost:8000/v1")
+			if (!baseUrl || !URL.canParse(baseUrl.trim())) {
+				output.log("\n❌ Invalid base URL. Setup cancelled.")
+				return { provider: null, apiKey: null }
+			}
+			const apiKey = await this.interactionHandler.askInput("API key (leave empty if not required)", "")
+			output.log("✓ Endpoint configured\n")
+			return { provider: "openai-compatible", apiKey: apiKey.trim(), baseUrl: baseUrl.trim() }
 		}
 
 		// Get API key
@@ -266,6 +297,12 @@ export class CliSetupWizard {
 		} else if (provider === "lmstudio") {
 			output.log("  Enter the exact model name from your LM Studio")
 			output.log("  Example: llama-3.1-8b-instruct")
+		} else if (provider === "ollama") {
+			output.log("  Enter a model from `ollama list`")
+			output.log("  Example: qwen2.5-coder:14b")
+		} else if (provider === "openai-compatible") {
+			output.log("  Enter the model name served by your endpoint (see GET /v1/models)")
+			output.log("  Example: Qwen/Qwen2.5-Coder-32B-Instruct")
 		}
 
 		const customModel = await this.interactionHandler.askInput("\nModel code", "")
@@ -484,7 +521,10 @@ Customize this file to match your project's standards.
 		output.log("═".repeat(80))
 		output.log(`  Provider: ${config.apiProvider}`)
 		output.log(`  Model: ${config.apiModelId}`)
-		output.log(`  API Key: ${this.maskApiKey(config.apiKey)}`)
+		if (config.baseUrl) {
+			output.log(`  Base URL: ${config.baseUrl}`)
+		}
+		output.log(`  API Key: ${config.apiKey ? this.maskApiKey(config.apiKey) : "none"}`)
 		if (config.temperature !== undefined) {
 			output.log(`  Temperature: ${config.temperature}`)
 		}
@@ -523,10 +563,14 @@ Customize this file to match your project's standards.
 			planModeApiModelId: config.planModeApiModelId,
 			actModeApiProvider: config.actModeApiProvider,
 			actModeApiModelId: config.actModeApiModelId,
+			baseUrl: config.baseUrl,
 		}
 		fs.writeFileSync(configPath, JSON.stringify(configToSave, null, 2))
 
-		// Save API key separately for better security
+		// Save API key separately for better security; keyless providers store none
+		if (!config.apiKey) {
+			return
+		}
 		const secretsPath = path.join(this.configDir, "secrets.json")
 		const secrets = {
 			[`${config.apiProvider}_api_key`]: config.apiKey,
@@ -623,6 +667,14 @@ Customize this file to match your project's standards.
 				// LM Studio uses local models - user needs to enter their model name
 				return ["<enter-your-model-name>"]
 
+			case "ollama":
+				// Popular coding models from the Ollama library
+				return ["qwen2.5-coder:14b", "qwen2.5-coder:32b", "deepseek-coder-v2:16b", "llama3.1:8b", "codestral:22b"]
+
+			case "openai-compatible":
+				// Served models depend on the endpoint - user needs to enter the model name
+				return ["<enter-your-model-name>"]
+
 			default:
 				return ["default"]
 		}
@@ -639,6 +691,10 @@ Customize this file to match your project's standards.
 				return openRouterDefaultModelId // Dynamically from shared API
 			case "lmstudio":
 				return "local-model"
+			case "ollama":
+				return "qwen2.5-coder:14b"
+			case "openai-compatible":
+				return "default"
 			default:
 				return "default"
 		}
@@ -163,3 +163,52 @@ export const RETRY = {
 	/** Connection pool shutdown check interval (100ms) */
 	SHUTDOWN_CHECK_INTERVAL: 100,
 } as const
+
+/**
+ * Process exit codes for headless (--json) runs
+ */
+export const EXIT_CODES = {
+	/** Task finished with attempt_completion */
+	SUCCESS: 0,
+
+	/** Task or CLI failed with an error */
+	ERROR: 1,
+
+	/** Task stopped after hitting the consecutive mistake limit */
+	MISTAKE_LIMIT: 2,
+
+	/** Task needed an answer the ask policy was not allowed to give */
+	INPUT_REQUIRED: 3,
+
+	/** Task stopped at a hard budget limit or a declined soft limit */
+	BUDGET_EXCEEDED: 4,
+
+	/** Task was cancelled by SIGINT/SIGTERM (128 + SIGINT) */
+	CANCELLED: 130,
+} as const
+
+/**
+ * Headless mode behaviour
+ */
+export const HEADLESS = {
+	/** Times a failed API request is retried under the approve policy */
+	MAX_API_RETRIES: 3,
+
+	/** Reply sent to followup questions when nobody is available to answer */
+	FOLLOWUP_REPLY:
+		"This task is running non-interactively and no user is available to answer. Proceed with your best judgement and state any assumptions you make.",
+} as const
+
+/**
+ * Non-interactive workflow runs (mariecoder run-workflow)
+ */
+export const WORKFLOW = {
+	/** Extra attempts for a step with onFailure "retry" when it doesn't set retries */
+	DEFAULT_RETRIES: 2,
+
+	/** Shell command step timeout when the step doesn't set timeoutSeconds (10 minutes) */
+	COMMAND_TIMEOUT: 10 * 60 * 1000,
+
+	/** Characters of step output kept for variables and conditions */
+	MAX_OUTPUT_LENGTH: 64 * 1024,
+} as const
@@ -5,20 +5,41 @@
  *
  * Usage:
  *   mariecoder [options] <prompt>
+ *   mariecoder run-workflow <id> [--var key=value ...]
  *   mariecoder --help
  *
  * Examples:
  *   mariecoder "Create a React component for a todo list"
  *   mariecoder --workspace ./my-project "Add tests for the auth module"
  *   mariecoder --model claude-3-5-sonnet "Refactor the API to use async/await"
+ *   mariecoder --json -y "Fix the failing tests" > events.ndjson
+ *   mariecoder run-workflow fix-failing-tests --var test_command="npm run test:unit"
  */
 
 import * as path from "node:path"
 import * as readline from "node:readline"
+import { findLast } from "@shared/array"
+import { disposeSessionLockManager } from "@/core/locks/session_locks"
 import { StateManager } from "@/core/storage/StateManager"
 import { HostProvider } from "@/hosts/host-provider"
+import {
+	type DiagnosticCheckerOverrides,
+	DiagnosticCheckerRunner,
+	resolveDiagnosticCheckers,
+} from "@/integrations/diagnostics/checkers"
 import type { TerminalManager } from "@/integrations/terminal/TerminalManager"
-import { CliConfigManager } from "./config/config_manager"
+import {
+	DEFAULT_TASK_BUDGET_SETTINGS,
+	formatBudgetValue,
+	getBudgetLimit,
+	getBudgetMetricLabel,
+	hasBudgetLimits,
+	TASK_BUDGET_METRICS,
+	type TaskBudgetLimits,
+	type TaskBudgetSettings,
+} from "@/shared/TaskBudgetSettings"
+import { CliConfigManager, providerRequiresApiKey } from "./config/config_manager"
+import { EXIT_CODES } from "./core/constants"
 import { CliContext } from "./core/context"
 import { getCancellationManager } from "./infrastructure/cancellation"
 import { getApiConnectionPoolManager } from "./infrastructure/connection_pool"
@@ -28,7 +49,9 @@ import { getProgressManager } from "./monitoring/progress_manager"
 import { CliDiffViewProvider } from "./providers/diff_provider"
 import { CliHostBridgeClient } from "./providers/host_bridge"
 import { CliWebviewProvider } from "./providers/webview_provider"
+import type { CliHeadlessTaskMonitor, HeadlessAskPolicy } from "./tasks/headless_task_monitor"
 import { CliTaskMonitor } from "./tasks/task_monitor"
+import type { WorkflowPromptResult } from "./tasks/workflow_runner"
 import { CliTerminalManager } from "./terminal/terminal_manager"
 import { LiveActivityMonitor, MetricsDisplay } from "./ui/feedback/enhanced_feedback"
 import { SplashScreen, SuccessAnimation, TutorialOverlay } from "./ui/feedback/immersive_experience"
@@ -45,6 +68,7 @@ interface CliOptions {
 	model?: string
 	apiKey?: string
 	provider?: string
+	baseUrl?: string
 	maxTokens?: number
 	temperature?: number
 	autoApprove?: boolean
@@ -55,6 +79,11 @@ interface CliOptions {
 	logLevel?: LogLevel
 	maxConcurrentRequests?: number
 	requestsPerMinute?: number
+	json?: boolean
+	askPolicy?: HeadlessAskPolicy
+	taskBudget?: Pick<TaskBudgetSettings, "soft" | "hard">
+	// Linters and type-checkers run after each edit; false turns them all off
+	diagnosticCheckers?: DiagnosticCheckerOverrides | false
 }
 
 class MarieCli {
@@ -69,6 +98,7 @@ class MarieCli {
 	private commandHistory: string[] = []
 	private readonly MAX_HISTORY = 100
 	private hasSeenInteractiveTutorial = false
+	private headlessMonitor?: CliHeadlessTaskMonitor
 
 	constructor(private options: CliOptions) {
 		// Configure logger
@@ -84,10 +114,13 @@ class MarieCli {
 			})
 		}
 
-		this.rl = readline.createInterface({
-			input: process.stdin,
-			output: process.stdout,
-		})
+		// Headless runs never read stdin, so don't hold it open
+		if (!this.options.json) {
+			this.rl = readline.createInterface({
+				input: process.stdin,
+				output: process.stdout,
+			})
+		}
 		this.taskMonitor = new CliTaskMonitor(this.options.autoApprove || false, {
 			lineLimit: this.options.terminalOutputLineLimit,
 			shellIntegrationTimeout: this.options.shellIntegrationTimeout,
@@ -110,11 +143,15 @@ class MarieCli {
 
 		// Initialize host provider with CLI implementations
 		const cliHostBridge = new CliHostBridgeClient(this.options.workspace)
+		const diagnosticCheckers =
+			this.options.diagnosticCheckers === false
+				? undefined
+				: new DiagnosticCheckerRunner(this.options.workspace, resolveDiagnosticCheckers(this.options.diagnosticCheckers))
 
 		HostProvider.initialize(
 			() => new CliWebviewProvider(this.context),
-			() => new CliDiffViewProvider(),
-			() => new CliTerminalManager() as unknown as TerminalManager,
+			() => new CliDiffViewProvider(diagnosticCheckers),
+			() => new CliTerminalManager(this.options.terminalReuseEnabled) as unknown as TerminalManager,
 			cliHostBridge,
 			(message: string) => {
 				if (this.options.verbose) {
@@ -346,6 +383,111 @@ class MarieCli {
 		}
 	}
 
+	/**
+	 * Execute a task without any interactive UI, streaming events as NDJSON on stdout
+	 * Returns the process exit code for the run
+	 */
+	async executeHeadlessTask(prompt: string, writeEvent: (line: string) => void): Promise<number> {
+		const { CliHeadlessTaskMonitor } = await import("./tasks/headless_task_monitor")
+		const policy = this.options.askPolicy ?? (this.options.autoApprove ? "approve" : "fail")
+		const monitor = new CliHeadlessTaskMonitor(policy, writeEvent)
+		this.headlessMonitor = monitor
+
+		try {
+			const controller = this.webviewProvider.controller
+
+			if (!(await this.checkApiConfiguration())) {
+				monitor.emit({ type: "error", timestamp: Date.now(), message: "API key not configured" })
+				return EXIT_CODES.ERROR
+			}
+
+			const { text: processedPrompt, mentions } = await this.mentionsParser.resolveAllMentions(prompt)
+			let enhancedPrompt = processedPrompt
+			for (const mention of mentions) {
+				if (mention.content && !mention.error) {
+					enhancedPrompt += `\n\nReferenced ${mention.type} (${mention.path}):\n${mention.content}`
+				}
+			}
+
+			await controller.clearTask()
+			await controller.initTask(enhancedPrompt)
+			if (!controller.task) {
+				throw new Error("Task failed to start")
+			}
+
+			monitor.emit({ type: "task_started", timestamp: Date.now(), prompt, taskId: controller.task.taskId })
+			const result = await monitor.run(controller.task)
+			return result.exitCode
+		} catch (error) {
+			monitor.emit({
+				type: "error",
+				timestamp: Date.now(),
+				message: error instanceof Error ? error.message : String(error),
+			})
+			monitor.fail(error)
+			return EXIT_CODES.ERROR
+		} finally {
+			this.headlessMonitor = undefined
+		}
+	}
+
+	/**
+	 * Run one workflow prompt step as a headless task
+	 * Resolves with the agent's final completion result as the step output
+	 */
+	async executeWorkflowPrompt(prompt: string, autoApprove: boolean): Promise<WorkflowPromptResult> {
+		const { CliHeadlessTaskMonitor } = await import("./tasks/headless_task_monitor")
+		// Workflow output is the step summary, so task events only show up with --verbose
+		const monitor = new CliHeadlessTaskMonitor(autoApprove ? "approve" : "fail", (line) => {
+			if (this.options.verbose) {
+				process.stderr.write(line)
+			}
+		})
+		this.headlessMonitor = monitor
+
+		try {
+			if (!(await this.checkApiConfiguration())) {
+				return { success: false, output: "", error: "API key not configured" }
+			}
+
+			const controller = this.webviewProvider.controller
+			await controller.clearTask()
+			await controller.initTask(prompt)
+			const task = controller.task
+			if (!task) {
+				throw new Error("Task failed to start")
+			}
+
+			const result = await monitor.run(task)
+			const completion = findLast(
+				task.messageStateHandler.getClineMessages(),
+				(message) => message.say === "completion_result" || message.ask === "completion_result",
+			)
+			return {
+				success: result.status === "completed",
+				output: completion?.text ?? "",
+				error:
+					result.status === "completed" ? undefined : `Task ended with status ${result.status}: ${result.reason ?? ""}`,
+			}
+		} catch (error) {
+			monitor.fail(error)
+			return { success: false, output: "", error: error instanceof Error ? error.message : String(error) }
+		} finally {
+			this.headlessMonitor = undefined
+		}
+	}
+
+	/**
+	 * Cancel a running headless task, emitting its final event
+	 */
+	cancelHeadlessTask(signal: string): boolean {
+		if (!this.headlessMonitor) {
+			return false
+		}
+		this.headlessMonitor.cancel(`Received ${signal}`)
+		return true
+	}
+
 	/**
 	 * Wait for the current task to complete
 	 */
@@ -429,7 +571,7 @@ class MarieCli {
 				apiConfiguration.openRouterApiKey = config.apiKey
 			} else if (provider === "anthropic") {
 				apiConfiguration.apiKey = config.apiKey
-			} else if (provider === "openai") {
+			} else if (provider === "openai-compatible") {
 				apiConfiguration.openAiApiKey = config.apiKey
 			} else {
 				// Default to generic apiKey for other providers
@@ -437,11 +579,35 @@ class MarieCli {
 			}
 		}
 
+		// Self-hosted endpoints read their model from the OpenAI-specific fields
+		if (provider === "openai-compatible") {
+			apiConfiguration.openAiBaseUrl = this.options.baseUrl || config.baseUrl
+			apiConfiguration.planModeOpenAiModelId = apiConfiguration.planModeApiModelId
+			apiConfiguration.actModeOpenAiModelId = apiConfiguration.actModeApiModelId
+		} else if (provider === "ollama") {
+			apiConfiguration.ollamaBaseUrl = this.options.baseUrl || config.baseUrl
+			apiConfiguration.planModeOllamaModelId = apiConfiguration.planModeApiModelId
+			apiConfiguration.actModeOllamaModelId = apiConfiguration.actModeApiModelId
+		}
+
 		stateManager.setApiConfiguration(apiConfiguration)
 		stateManager.setGlobalState("planActSeparateModelsSetting", config.planActSeparateModelsSetting || false)
 
+		// Budget flags apply to this run only, on top of the saved limits if the saved budget is on
+		if (this.options.taskBudget) {
+			const configuredBudget = stateManager.getGlobalSettingsKey("taskBudgetSettings")
+			const savedBudget = configuredBudget?.enabled ? configuredBudget : DEFAULT_TASK_BUDGET_SETTINGS
+			stateManager.setRuntimeSettingsOverrides({
+				taskBudgetSettings: {
+					enabled: true,
+					soft: { ...savedBudget.soft, ...this.options.taskBudget.soft },
+					hard: { ...savedBudget.hard, ...this.options.taskBudget.hard },
+				},
+			})
+		}
+
 		// Validate API key exists
-		if (!config.apiKey) {
+		if (!config.apiKey && providerRequiresApiKey(provider)) {
 			console.error("\n❌ API key not configured!")
 			output.log("\n" + "─".repeat(80))
 			output.log("To configure your API key, you have several options:")
@@ -469,6 +635,11 @@ class MarieCli {
 			output.log(`✓ Separate Plan/Act Models: Enabled`)
 		}
 
+		const taskBudget = stateManager.getGlobalSettingsKey("taskBudgetSettings")
+		if (hasBudgetLimits(taskBudget)) {
+			output.log(`✓ Budget: ${formatTaskBudget(taskBudget)}`)
+		}
+
 		return true
 	}
 
@@ -664,6 +835,10 @@ class MarieCli {
 					await this.mcpManager.displayAvailableTools()
 					await prompt()
 					return
+				} else if (command.startsWith("mcp authorize")) {
+					await this.mcpManager.authorizeServer(trimmed.slice("mcp authorize".length).trim())
+					await prompt()
+					return
 				} else if (command === "history" || command.startsWith("history ")) {
 					await this.handleHistoryCommand(trimmed)
 					await prompt()
@@ -707,10 +882,10 @@ class MarieCli {
 			case "export":
 				if (!arg) {
 					output.log("\n❌ Task ID required")
-					output.log("Usage: history export <task-id>\n")
+					output.log("Usage: history export <task-id> [markdown|json|html|bundle]\n")
 					return
 				}
-				await this.taskHistoryManager.exportTask(arg)
+				await this.taskHistoryManager.exportTask(arg, parts[3])
 				break
 
 			case "resume":
@@ -811,15 +986,18 @@ class MarieCli {
 			// History
 			output.log("\n" + style("📜 Task History", TerminalColors.bright))
 			output.log("  " + style("history", SemanticColors.highlight) + "         Show task history")
-			output.log("  " + style("history export <id>", SemanticColors.highlight) + "     Export task as markdown")
+			output.log("  " + style("history export <id>", SemanticColors.highlight) + "     Export task (md/json/html/bundle)")
 			output.log("  " + style("history resume <id>", SemanticColors.highlight) + "     Resume a previous task")
 			output.log("  " + style("history delete <id>", SemanticColors.highlight) + "     Delete task from history")
-			output.log("  " + style("history search <query>", SemanticColors.highlight) + "  Search task history")
+			output.log("  " + style("history search <query>", SemanticColors.highlight) + "  Full-text search of task history")
 
 			// MCP
 			output.log("\n" + style("🔧 MCP (Model Context Protocol)", TerminalColors.bright))
 			output.log("  " + style("mcp", SemanticColors.highlight) + "             Show MCP server status")
 			output.log("  " + style("mcp tools", SemanticColors.highlight) + "        Show available MCP tools and resources")
+			output.log(
+				"  " + style("mcp authorize <server>", SemanticColors.highlight) + "  Sign in to a remote MCP server with OAuth",
+			)
 			output.log("  " + style("💡 Tip:", TerminalColors.dim) + " MCP extends MarieCoder with custom tools")
 
 			// Modes
@@ -897,6 +1075,9 @@ class MarieCli {
 				// Ignore if not initialized
 			}
 
+			// Release file locks so other instances can edit those files right away
+			disposeSessionLockManager()
+
 			logger.debug("Cleanup complete")
 		} catch (error) {
 			logger.error("Error during cleanup", error)
@@ -904,6 +1085,39 @@ class MarieCli {
 	}
 }
 
+/**
+ * Budget flags and the tier/limit each one sets
+ */
+const BUDGET_FLAGS: Record<string, ["soft" | "hard", keyof TaskBudgetLimits]> = {
+	"--max-cost": ["hard", "maxCost"],
+	"--max-tokens-in": ["hard", "maxTokensIn"],
+	"--max-tokens-out": ["hard", "maxTokensOut"],
+	"--max-minutes": ["hard", "maxMinutes"],
+	"--warn-cost": ["soft", "maxCost"],
+	"--warn-tokens-in": ["soft", "maxTokensIn"],
+	"--warn-tokens-out": ["soft", "maxTokensOut"],
+	"--warn-minutes": ["soft", "maxMinutes"],
+}
+
+/**
+ * Summarize budget flags for the startup banner, e.g. "cost $1.00 (warn at $0.50), time 30 min"
+ */
+function formatTaskBudget(budget: Pick<TaskBudgetSettings, "soft" | "hard">): string {
+	return TASK_BUDGET_METRICS.flatMap((metric) => {
+		const hard = getBudgetLimit(budget.hard, metric)
+		const soft = getBudgetLimit(budget.soft, metric)
+		if (hard === undefined && soft === undefined) {
+			return []
+		}
+		const label = getBudgetMetricLabel(metric).toLowerCase()
+		const warn = soft === undefined ? "" : `warn at ${formatBudgetValue(metric, soft)}`
+		if (hard === undefined) {
+			return [`${label} ${warn}`]
+		}
+		return [`${label} ${formatBudgetValue(metric, hard)}${warn ? ` (${warn})` : ""}`]
+	}).join(", ")
+}
+
 /**
  * Parse command-line arguments
  */
@@ -913,6 +1127,7 @@ function parseArgs(args: string[]): {
 	runSetup?: boolean
 	showConfig?: boolean
 	resetConfig?: boolean
+	workflow?: { id: string; variables: Record<string, string> }
 } {
 	const options: CliOptions = {
 		workspace: process.cwd(),
@@ -924,6 +1139,8 @@ function parseArgs(args: string[]): {
 	let runSetup = false
 	let showConfig = false
 	let resetConfig = false
+	let workflowId: string | undefined
+	const workflowVariables: Record<string, string> = {}
 	let i = 0
 
 	while (i < args.length) {
@@ -950,6 +1167,8 @@ function parseArgs(args: string[]): {
 			options.apiKey = args[++i]
 		} else if (arg === "--provider" || arg === "-p") {
 			options.provider = args[++i]
+		} else if (arg === "--base-url") {
+			options.baseUrl = args[++i]
 		} else if (arg === "--max-tokens") {
 			options.maxTokens = Number.parseInt(args[++i], 10)
 		} else if (arg === "--temperature" || arg === "-t") {
@@ -958,6 +1177,26 @@ function parseArgs(args: string[]): {
 			options.autoApprove = true
 		} else if (arg === "--verbose") {
 			options.verbose = true
+		} else if (arg === "--no-diagnostics") {
+			options.diagnosticCheckers = false
+		} else if (arg === "--json" || arg === "--headless") {
+			options.json = true
+		} else if (arg === "--ask-policy") {
+			const policy = args[++i]
+			if (policy === "approve" || policy === "reject" || policy === "fail") {
+				options.askPolicy = policy
+			} else {
+				output.warn(`⚠️  Unknown ask policy: ${policy} (expected approve, reject or fail)`)
+			}
+		} else if (arg in BUDGET_FLAGS) {
+			const [tier, key] = BUDGET_FLAGS[arg]
+			const value = Number.parseFloat(args[++i])
+			if (Number.isFinite(value) && value > 0) {
+				options.taskBudget ??= { soft: {}, hard: {} }
+				options.taskBudget[tier][key] = value
+			} else {
+				output.warn(`⚠️  ${arg} expects a positive number`)
+			}
 		} else if (arg === "--log-level") {
 			const level = args[++i].toUpperCase()
 			options.logLevel = LogLevel[level as keyof typeof LogLevel] ?? LogLevel.INFO
@@ -965,6 +1204,20 @@ function parseArgs(args: string[]): {
 			options.maxConcurrentRequests = Number.parseInt(args[++i], 10)
 		} else if (arg === "--requests-per-minute") {
 			options.requestsPerMinute = Number.parseInt(args[++i], 10)
+		} else if (arg === "--var") {
+			const assignment = args[++i] ?? ""
+			const separator = assignment.indexOf("=")
+			if (separator > 0) {
+				workflowVariables[assignment.slice(0, separator)] = assignment.slice(separator + 1)
+			} else {
+				output.warn(`⚠️  --var expects key=value, got: ${assignment}`)
+			}
+		} else if (arg === "run-workflow" && prompt === undefined && workflowId === undefined) {
+			workflowId = args[++i]
+			if (!workflowId) {
+				output.error("❌ run-workflow requires a workflow ID")
+				process.exit(EXIT_CODES.ERROR)
+			}
 		} else if (!arg.startsWith("-")) {
 			// This is the prompt
 			prompt = args.slice(i).join(" ")
@@ -985,19 +1238,21 @@ function parseArgs(args: string[]): {
 				options.apiKey = options.apiKey || config.apiKey
 				options.provider = options.provider || config.apiProvider
 				options.model = options.model || config.apiModelId
+				options.baseUrl = options.baseUrl || config.baseUrl
 				options.temperature = options.temperature ?? config.temperature
 				options.maxTokens = options.maxTokens ?? config.maxTokens
 				options.terminalOutputLineLimit = options.terminalOutputLineLimit ?? config.terminalOutputLineLimit
 				options.shellIntegrationTimeout = options.shellIntegrationTimeout ?? config.shellIntegrationTimeout
 				options.terminalReuseEnabled = options.terminalReuseEnabled ?? config.terminalReuseEnabled
+				options.diagnosticCheckers = options.diagnosticCheckers ?? config.diagnosticCheckers
 			}
 		} catch {
 			// Ignore config loading errors during argument parsing
 		}
 	}
 
-	// Check environment variables for API key (lowest priority)
-	if (!options.apiKey) {
+	// Check environment variables for API key (lowest priority); keyless local servers never get one
+	if (!options.apiKey && providerRequiresApiKey(options.provider)) {
 		options.apiKey =
 			process.env.ANTHROPIC_API_KEY ||
 			process.env.OPENAI_API_KEY ||
@@ -1005,7 +1260,8 @@ function parseArgs(args: string[]): {
 			process.env.MARIE_API_KEY
 	}
 
-	return { options, prompt, runSetup, showConfig, resetConfig }
+	const workflow = workflowId ? { id: workflowId, variables: workflowVariables } : undefined
+	return { options, prompt, runSetup, showConfig, resetConfig, workflow }
 }
 
 /**
@@ -1021,6 +1277,7 @@ USAGE:
   mariecoder [options] <prompt>    # Execute a single task
   mariecoder [options]              # Interactive mode
   mariecoder --setup                # Run setup wizard
+  mariecoder run-workflow <id>      # Run a saved workflow non-interactively
 
 SETUP & CONFIGURATION:
   --setup                           Run interactive setup wizard (first-time users)
@@ -1033,9 +1290,10 @@ BASIC OPTIONS:
   -w, --workspace <path>            Workspace directory (default: current directory)
 
 AI PROVIDER OPTIONS:
-  -p, --provider <provider>         AI provider (anthropic, openai, openrouter)
+  -p, --provider <provider>         AI provider (anthropic, openrouter, lmstudio, ollama, openai-compatible)
   -m, --model <model>               AI model to use
   -k, --api-key <key>               API key for the AI provider
+  --base-url <url>                  Endpoint for ollama / openai-compatible servers
   -t, --temperature <temp>          Temperature (0.0-1.0, default: 0.0)
   --max-tokens <number>             Maximum tokens for responses
 
@@ -1045,6 +1303,35 @@ EXECUTION OPTIONS:
   --log-level <level>               Set log level (DEBUG, INFO, WARN, ERROR, SILENT)
   --max-concurrent-requests <n>     Maximum concurrent API requests (default: 10)
   --requests-per-minute <n>         Rate limit for API requests (default: 60)
+  --no-diagnostics                  Don't run linters and type-checkers after file edits
+
+  After each edit the CLI runs the checkers that apply to the file (tsc, eslint, ruff,
+  go vet, cargo check) and reports new problems to the model. Override or add checkers
+  with "diagnosticCheckers" in ~/.mariecoder/cli/config.json, e.g.
+  { "diagnosticCheckers": { "eslint": false, "mypy": { "extensions": [".py"],
+    "command": "mypy", "args": ["{file}"], "format": "gnu" } } }
+
+HEADLESS / CI OPTIONS:
+  --json, --headless                Run non-interactively, emitting NDJSON events on stdout
+  --ask-policy <policy>             How asks are answered: approve, reject or fail
+                                    (default: approve with -y, otherwise fail)
+
+  Exit codes: 0 completed, 1 error, 2 mistake limit reached,
+              3 input required by ask policy, 4 budget exceeded, 130 cancelled
+
+WORKFLOW OPTIONS (mariecoder run-workflow <id>):
+  --var <key=value>                 Set a workflow variable (repeatable)
+  -y, --auto-approve                Approve actions in every prompt step, not just autoApprove ones
+
+  Workflows live in .mariecoder/workflows/<id>.json. Steps run a shell "command" or an
+  agent "prompt", can be gated with "when", and handle failure with "onFailure"
+  (retry, skip or abort). Exit code is 0 unless a step aborts the run.
+
+BUDGET OPTIONS (per task; the task stops at --max-*, and asks to continue at --warn-*):
+  --max-cost, --warn-cost <usd>             API cost in USD
+  --max-tokens-in, --warn-tokens-in <n>     Total input tokens
+  --max-tokens-out, --warn-tokens-out <n>   Total output tokens
+  --max-minutes, --warn-minutes <n>         Wall-clock minutes
 
 EXAMPLES:
 
@@ -1063,17 +1350,27 @@ EXAMPLES:
   Use specific model:
     $ mariecoder -m claude-3-5-sonnet-20241022 "Refactor the API"
 
-  Use OpenAI:
-    $ mariecoder -p openai -m gpt-4 "Add error handling"
+  Use a self-hosted vLLM / llama.cpp server:
+    $ mariecoder -p openai-compatible --base-url http://localhost:8000/v1 -m qwen2.5-coder "Add error handling"
 
   Auto-approve mode:
     $ mariecoder -y "Run tests and fix failures"
 
+  CI pipeline (NDJSON events on stdout, logs on stderr):
+    $ mariecoder --json -y "Run tests and fix failures" > events.ndjson
+
+  Run a workflow with a variable override:
+    $ mariecoder run-workflow fix-failing-tests --var test_command="npm run test:unit"
+
+  Cap spend at $2, warning at $1:
+    $ mariecoder --max-cost 2 --warn-cost 1 "Migrate the tests to vitest"
+
 ENVIRONMENT VARIABLES:
   ANTHROPIC_API_KEY                 Anthropic API key
   OPENAI_API_KEY                    OpenAI API key  
   OPENROUTER_API_KEY                OpenRouter API key
   MARIE_API_KEY                     Generic API key
+  MARIE_BASE_URL                    Endpoint for ollama / openai-compatible servers
 
 CONFIGURATION:
   Configuration is stored in: ~/.mariecoder/cli/
@@ -1096,12 +1393,116 @@ Made with ❤️  by the MarieCoder community
 `)
 }
 
+/**
+ * Run a single task in headless mode and return the exit code
+ * No prompts, splash screen or wizard: stdout carries only NDJSON events
+ */
+async function runHeadless(options: CliOptions, prompt?: string): Promise<number> {
+	const { redirectStdoutToStderr } = await import("./tasks/headless_task_monitor")
+	const writeEvent = redirectStdoutToStderr()
+	output.disable()
+
+	const emitError = (message: string) => {
+		writeEvent(`${JSON.stringify({ type: "error", timestamp: Date.now(), message })}\n`)
+	}
+
+	if (!prompt) {
+		emitError("A prompt is required in --json mode")
+		return EXIT_CODES.ERROR
+	}
+
+	const configManager = new CliConfigManager()
+	const validation = configManager.validateConfig(configManager.mergeWithOptions(options))
+	if (!validation.valid) {
+		emitError(`Configuration errors: ${validation.errors.join("; ")}`)
+		return EXIT_CODES.ERROR
+	}
+
+	const cli = new MarieCli(options)
+
+	const onSignal = (signal: string) => {
+		// Before the task starts there is nothing to report, so exit straight away
+		if (!cli.cancelHeadlessTask(signal)) {
+			cli.cleanup()
+			process.exit(EXIT_CODES.CANCELLED)
+		}
+	}
+	process.once("SIGINT", () => onSignal("SIGINT"))
+	process.once("SIGTERM", () => onSignal("SIGTERM"))
+
+	try {
+		await cli.initialize()
+		return await cli.executeHeadlessTask(prompt, writeEvent)
+	} catch (error) {
+		emitError(error instanceof Error ? error.message : String(error))
+		return EXIT_CODES.ERROR
+	} finally {
+		cli.cleanup()
+	}
+}
+
+/**
+ * Run a saved workflow non-interactively, print a step summary and return the exit code
+ * The agent is only initialized once a prompt step needs it, so command-only workflows start instantly
+ */
+async function runWorkflowCommand(options: CliOptions, workflowId: string, variables: Record<string, string>): Promise<number> {
+	const { CliWorkflowManager } = await import("./tasks/workflow_manager")
+	const { runShellCommand } = await import("./tasks/workflow_runner")
+	const workflowManager = new CliWorkflowManager(options.workspace, options.verbose)
+	let cli: MarieCli | undefined
+
+	const getCli = async (): Promise<MarieCli> => {
+		if (!cli) {
+			const configManager = new CliConfigManager()
+			const validation = configManager.validateConfig(configManager.mergeWithOptions(options))
+			if (!validation.valid) {
+				throw new Error(`Configuration errors: ${validation.errors.join("; ")}`)
+			}
+			// Prompt steps never read stdin, so run the CLI the way --json does
+			cli = new MarieCli({ ...options, json: true })
+			await cli.initialize()
+		}
+		return cli
+	}
+
+	const onSignal = (signal: string) => {
+		if (!cli?.cancelHeadlessTask(signal)) {
+			cli?.cleanup()
+			process.exit(EXIT_CODES.CANCELLED)
+		}
+	}
+	process.once("SIGINT", () => onSignal("SIGINT"))
+	process.once("SIGTERM", () => onSignal("SIGTERM"))
+
+	try {
+		const result = await workflowManager.executeWorkflow(workflowId, variables, {
+			runCommand: runShellCommand,
+			runPrompt: async (prompt, step) =>
+				(await getCli()).executeWorkflowPrompt(prompt, !!(step.autoApprove || options.autoApprove)),
+		})
+		return result.exitCode
+	} catch (error) {
+		output.error(`❌ ${error instanceof Error ? error.message : String(error)}`)
+		return EXIT_CODES.ERROR
+	} finally {
+		cli?.cleanup()
+	}
+}
+
 /**
  * Main entry point
  */
 async function main() {
 	try {
-		const { options, prompt, runSetup, showConfig, resetConfig } = parseArgs(process.argv.slice(2))
+		const { options, prompt, runSetup, showConfig, resetConfig, workflow } = parseArgs(process.argv.slice(2))
+
+		if (workflow) {
+			process.exit(await runWorkflowCommand(options, workflow.id, workflow.variables))
+		}
+
+		if (options.json) {
+			process.exit(await runHeadless(options, prompt))
+		}
 
 		const configManager = new CliConfigManager()
 
@@ -1224,7 +1625,7 @@ async function main() {
 				output.log("For now, you'll need to provide configuration via command-line options.\n")
 
 				// Check if we have minimum required config
-				if (!options.apiKey) {
+				if (!options.apiKey && providerRequiresApiKey(options.provider)) {
 					configManager.getConfigurationHelp()
 					process.exit(1)
 				}
@@ -4,7 +4,9 @@
  */
 
 import { HostProvider } from "@/hosts/host-provider"
+import type { DiagnosticCheckerRunner } from "@/integrations/diagnostics/checkers"
 import { DiffViewProvider } from "@/integrations/editor/DiffViewProvider"
+import type { FileDiagnostics } from "@/shared/proto/index.cline"
 import { FORMATTING } from "../core/constants"
 import { output } from "../ui/output/output"
 import { TerminalColors } from "../ui/output/terminal_colors"
@@ -18,6 +20,15 @@ export interface DiffStats {
 export class CliDiffViewProvider extends DiffViewProvider {
 	private activeDiffEditorId: string | undefined
 	private enableColors: boolean = true
+	protected override readonly diagnosticsReadFromDisk = true
+
+	/**
+	 * @param diagnosticCheckers - Linters and type-checkers to run on edited files, since the
+	 * CLI has no editor to report problems; without them no new problems are reported
+	 */
+	constructor(private diagnosticCheckers?: DiagnosticCheckerRunner) {
+		super()
+	}
 
 	override async openDiffEditor(): Promise<void> {
 		if (!this.absolutePath) {
@@ -106,6 +117,13 @@ export class CliDiffViewProvider extends DiffViewProvider {
 		this.activeDiffEditorId = undefined
 	}
 
+	protected override async getDiagnostics(): Promise<FileDiagnostics[]> {
+		if (!this.diagnosticCheckers || !this.absolutePath) {
+			return []
+		}
+		return this.diagnosticCheckers.check(this.absolutePath)
+	}
+
 	/**
 	 * Format a diff line with colors based on the line type
 	 */
@@ -5,7 +5,7 @@
 
 import type { Controller } from "@/core/controller"
 import { McpHub } from "@/services/mcp/McpHub"
-import type { McpServer } from "@/shared/mcp"
+import type { McpServer, McpServerHealth } from "@/shared/mcp"
 import { output } from "../ui/output/output"
 
 export class CliMcpManager {
@@ -149,9 +149,18 @@ export class CliMcpManager {
 					if (server.disabled) {
 						output.log(`      (disabled)`)
 					}
+					if (server.authStatus) {
+						output.log(`      OAuth: ${server.authStatus}`)
+					}
 					if (server.error) {
 						output.log(`      Error: ${server.error}`)
 					}
+					if (server.authStatus === "required") {
+						output.log(`      💡 Run "mcp authorize ${server.name}" to sign in`)
+					}
+					if (server.health) {
+						this.displayHealth(server.health)
+					}
 				}
 
 				const connectedCount = servers.filter((s) => s.status === "connected").length
@@ -167,6 +176,53 @@ export class CliMcpManager {
 		}
 	}
 
+	/**
+	 * Display call statistics and reconnect state for one server
+	 */
+	private displayHealth(health: McpServerHealth): void {
+		const latency = health.averageLatencyMs !== undefined ? `, avg ${health.averageLatencyMs}ms` : ""
+		output.log(`      Calls: ${health.successCount} ok, ${health.errorCount} failed${latency}`)
+		if (health.lastSuccessAt) {
+			output.log(`      Last success: ${new Date(health.lastSuccessAt).toLocaleTimeString()}`)
+		}
+		if (health.lastError) {
+			output.log(`      Last error: ${health.lastError}`)
+		}
+		if (health.quarantinedUntil) {
+			output.log(
+				`      ⏸  Quarantined after ${health.disconnectCount} disconnects until ${new Date(health.quarantinedUntil).toLocaleTimeString()}`,
+			)
+		} else if (health.nextReconnectAt) {
+			output.log(
+				`      🔄 Reconnecting at ${new Date(health.nextReconnectAt).toLocaleTimeString()} (attempt ${health.reconnectAttempts})`,
+			)
+		}
+	}
+
+	/**
+	 * Sign in to a remote MCP server with OAuth
+	 */
+	async authorizeServer(serverName: string): Promise<void> {
+		if (!serverName) {
+			output.log("\n❌ Usage: mcp authorize <server>")
+			return
+		}
+
+		output.log(`\n🔑 Opening the sign-in page for ${serverName} in your browser...`)
+		output.log("   If it doesn't open, visit the sign-in URL printed below.")
+		try {
+			const servers = await this.mcpHub.authorizeServerRPC(serverName)
+			const server = servers.find((s) => s.name === serverName)
+			if (server?.status === "connected") {
+				output.log(`✓ Signed in to ${serverName} and connected`)
+			} else {
+				output.log(`⚠️  Signed in to ${serverName}, but it did not connect${server?.error ? `: ${server.error}` : ""}`)
+			}
+		} catch (error) {
+			output.log(`❌ Failed to authorize ${serverName}: ${error instanceof Error ? error.message : String(error)}`)
+		}
+	}
+
 	/**
 	 * Get status icon for server state
 	 */
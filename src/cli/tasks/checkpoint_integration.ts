@@ -4,7 +4,7 @@
  * Uses the same checkpoint infrastructure as the extension
  */
 
-import type { ICheckpointManager } from "@integrations/checkpoints/types"
+import type { CheckpointSummary, ICheckpointManager } from "@integrations/checkpoints/types"
 import type { Task } from "@/core/task"
 import { output } from "../ui/output/output"
 
@@ -74,6 +74,80 @@ export class CliCheckpointIntegration {
 		}
 	}
 
+	/**
+	 * List the task's checkpoints with the files each one changed
+	 */
+	async listCheckpoints(task?: Task): Promise<CheckpointSummary[]> {
+		const manager = this.getCheckpointManager(task)
+		if (!manager?.listCheckpoints) {
+			throw new Error("Checkpoint listing not available")
+		}
+
+		return await manager.listCheckpoints()
+	}
+
+	/**
+	 * Restore selected files from a checkpoint
+	 */
+	async restoreFiles(
+		task: Task | undefined,
+		hash: string,
+		filePaths: string[],
+	): Promise<{ restored: string[]; deleted: string[] }> {
+		const manager = this.getCheckpointManager(task)
+		if (!manager?.restoreFiles) {
+			throw new Error("Per-file restore not available")
+		}
+
+		try {
+			return await manager.restoreFiles(hash, filePaths)
+		} catch (error) {
+			console.error("Failed to restore files:", error)
+			throw error
+		}
+	}
+
+	/**
+	 * Find a checkpoint by its 1-based position in the list or by a hash prefix
+	 */
+	resolveCheckpoint(checkpoints: CheckpointSummary[], ref: string): CheckpointSummary | undefined {
+		if (/^\d+$/.test(ref)) {
+			const index = Number.parseInt(ref, 10) - 1
+			if (checkpoints[index]) {
+				return checkpoints[index]
+			}
+		}
+
+		const matches = checkpoints.filter((checkpoint) => checkpoint.hash.startsWith(ref))
+		return matches.length === 1 ? matches[0] : undefined
+	}
+
+	/**
+	 * Format the checkpoint timeline for display
+	 */
+	formatCheckpointList(checkpoints: CheckpointSummary[]): string {
+		if (checkpoints.length === 0) {
+			return "\nNo checkpoints in this task yet.\n"
+		}
+
+		const statusMarks = { added: "A", modified: "M", deleted: "D" } as const
+		const lines: string[] = []
+		lines.push("\n" + "─".repeat(80))
+		checkpoints.forEach((checkpoint, index) => {
+			const time = new Date(checkpoint.messageTs).toLocaleTimeString()
+			const label = checkpoint.type === "completion" ? "completion" : "checkpoint"
+			const current = checkpoint.isCheckedOut ? " (restored)" : ""
+			const fileCount = index === 0 ? "initial state" : `${checkpoint.changedFiles.length} file(s) changed`
+			lines.push(`${index + 1}. ${time}  ${checkpoint.hash.substring(0, 8)}  ${label}${current}  ${fileCount}`)
+			for (const file of checkpoint.changedFiles) {
+				lines.push(`     ${statusMarks[file.status]} ${file.relativePath}`)
+			}
+		})
+		lines.push("─".repeat(80) + "\n")
+
+		return lines.join("\n")
+	}
+
 	/**
 	 * Check if there are new changes since last task completion
 	 */
@@ -183,7 +257,9 @@ export class CliCheckpointIntegration {
 		lines.push("")
 		lines.push("Commands:")
 		lines.push("  /checkpoint create    - Create checkpoint manually")
-		lines.push("  /checkpoint restore   - Restore from checkpoint (requires timestamp)")
+		lines.push("  /checkpoint list      - List checkpoints and the files each one changed")
+		lines.push("  /checkpoint restore <n|hash> [paths...]")
+		lines.push("                        - Restore the workspace, or only the given files, from a checkpoint")
 		lines.push("  /checkpoint diff      - Show changes since checkpoint")
 		lines.push("  /undo                 - Undo all changes and restore to last checkpoint")
 		lines.push("═".repeat(80) + "\n")
@@ -0,0 +1,207 @@
+/**
+ * CLI Codebase Operations
+ * Backs the /search, /replace and /analyze slash commands
+ * Uses the same ripgrep and tree-sitter services as the extension tools
+ */
+
+import * as fs from "node:fs/promises"
+import * as path from "node:path"
+import { ClineIgnoreController } from "@/core/ignore/ClineIgnoreController"
+import { HostProvider } from "@/hosts/host-provider"
+import { singleFileDiagnosticsToProblemsString } from "@/integrations/diagnostics"
+import { findFilesWithMatches, regexSearchFiles } from "@/services/ripgrep"
+import { parseSourceCodeForDefinitionsInFile, parseSourceCodeForDefinitionsTopLevel } from "@/services/tree-sitter"
+import { output } from "../ui/output/output"
+
+export interface ReplaceOptions {
+	/** Treat the pattern as a JavaScript regular expression instead of a literal string */
+	regex?: boolean
+	/** Glob limiting which files are considered */
+	glob?: string
+}
+
+export interface FileReplacement {
+	absolutePath: string
+	relativePath: string
+	originalContent: string
+	newContent: string
+	matchCount: number
+}
+
+export interface ReplacementPlan {
+	files: FileReplacement[]
+	totalMatches: number
+}
+
+export interface AnalysisReport {
+	relativePath: string
+	isDirectory: boolean
+	extension?: string
+	lineCount?: number
+	sizeBytes: number
+	definitions: string
+	diagnostics: string
+}
+
+/**
+ * Escape a literal string for use inside a RegExp
+ */
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Replace every occurrence of pattern in content and report how many were replaced.
+ * Literal replacements never expand `$` sequences in the replacement string.
+ */
+export function replaceInContent(
+	content: string,
+	pattern: string,
+	replacement: string,
+	useRegex = false,
+): { content: string; matchCount: number } {
+	const matcher = new RegExp(useRegex ? pattern : escapeRegExp(pattern), "g")
+	const matchCount = content.match(matcher)?.length ?? 0
+	// A function replacer keeps literal replacements from expanding $1, $& and friends
+	const updated = useRegex ? content.replace(matcher, replacement) : content.replace(matcher, () => replacement)
+	return { content: updated, matchCount }
+}
+
+/**
+ * Manages codebase search, bulk replace and file analysis in CLI mode
+ */
+export class CliCodebaseOperations {
+	private cwd: string
+	private verbose: boolean
+
+	constructor(cwd: string, verbose = false) {
+		this.cwd = cwd
+		this.verbose = verbose
+	}
+
+	/**
+	 * Search the workspace with ripgrep and return formatted results with context
+	 */
+	async search(query: string, glob?: string): Promise<string> {
+		return this.withClineIgnore((clineIgnoreController) =>
+			regexSearchFiles(this.cwd, this.cwd, query, glob, clineIgnoreController),
+		)
+	}
+
+	/**
+	 * Compute the replacements without touching the filesystem
+	 */
+	async planReplacements(pattern: string, replacement: string, options: ReplaceOptions = {}): Promise<ReplacementPlan> {
+		if (options.regex) {
+			// Surface invalid patterns before spawning ripgrep
+			new RegExp(pattern)
+		}
+
+		// Ripgrep narrows the candidates; JavaScript regex semantics decide the actual edits
+		// Files the user keeps from Cline with .clineignore are never edited
+		const candidates = await this.withClineIgnore((clineIgnoreController) =>
+			findFilesWithMatches(this.cwd, pattern, {
+				filePattern: options.glob,
+				fixedStrings: !options.regex,
+				clineIgnoreController,
+			}),
+		)
+
+		const files: FileReplacement[] = []
+		let totalMatches = 0
+
+		for (const absolutePath of candidates.sort()) {
+			const originalContent = await fs.readFile(absolutePath, "utf8")
+			const { content: newContent, matchCount } = replaceInContent(originalContent, pattern, replacement, options.regex)
+			if (matchCount === 0 || newContent === originalContent) {
+				continue
+			}
+			files.push({
+				absolutePath,
+				relativePath: path.relative(this.cwd, absolutePath).toPosix(),
+				originalContent,
+				newContent,
+				matchCount,
+			})
+			totalMatches += matchCount
+		}
+
+		if (this.verbose) {
+			output.log(`[Replace] ${candidates.length} candidate files, ${files.length} with changes`)
+		}
+
+		return { files, totalMatches }
+	}
+
+	/**
+	 * Write a previously computed plan to disk
+	 */
+	async applyReplacements(plan: ReplacementPlan): Promise<void> {
+		for (const file of plan.files) {
+			await fs.writeFile(file.absolutePath, file.newContent, "utf8")
+		}
+	}
+
+	/**
+	 * Collect file metadata, top-level definitions and diagnostics for a path
+	 */
+	async analyze(targetPath: string): Promise<AnalysisReport> {
+		const absolutePath = path.resolve(this.cwd, targetPath)
+		const stats = await fs.stat(absolutePath)
+		const relativePath = path.relative(this.cwd, absolutePath).toPosix() || "."
+
+		if (stats.isDirectory()) {
+			return {
+				relativePath,
+				isDirectory: true,
+				sizeBytes: stats.size,
+				definitions: await parseSourceCodeForDefinitionsTopLevel(absolutePath),
+				diagnostics: await this.getDiagnostics((filePath) => filePath.startsWith(absolutePath + path.sep)),
+			}
+		}
+
+		const content = await fs.readFile(absolutePath, "utf8")
+		const definitions = await parseSourceCodeForDefinitionsInFile(absolutePath)
+
+		return {
+			relativePath,
+			isDirectory: false,
+			extension: path.extname(absolutePath).slice(1) || undefined,
+			lineCount: content.split("\n").length,
+			sizeBytes: stats.size,
+			definitions: definitions ?? "No source code definitions found.",
+			diagnostics: await this.getDiagnostics((filePath) => filePath === absolutePath),
+		}
+	}
+
+	/**
+	 * Format host diagnostics for files accepted by the filter
+	 */
+	private async getDiagnostics(include: (filePath: string) => boolean): Promise<string> {
+		const { fileDiagnostics } = await HostProvider.workspace.getDiagnostics({})
+		const problems: string[] = []
+		for (const entry of fileDiagnostics) {
+			if (!include(path.resolve(entry.filePath))) {
+				continue
+			}
+			const problemString = await singleFileDiagnosticsToProblemsString(entry.filePath, entry.diagnostics)
+			if (problemString) {
+				problems.push(problemString)
+			}
+		}
+		return problems.length > 0 ? problems.join("\n\n") : "No diagnostics reported."
+	}
+
+	/**
+	 * Run an operation with the workspace's .clineignore rules loaded
+	 */
+	private async withClineIgnore<T>(operation: (clineIgnoreController: ClineIgnoreController) => Promise<T>): Promise<T> {
+		const clineIgnoreController = new ClineIgnoreController(this.cwd)
+		try {
+			await clineIgnoreController.initialize()
+			return await operation(clineIgnoreController)
+		} finally {
+			await clineIgnoreController.dispose()
+		}
+	}
+}
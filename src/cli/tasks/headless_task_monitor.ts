@@ -0,0 +1,343 @@
+/**
+ * CLI Headless Task Monitor - Machine-readable task execution for CI pipelines
+ *
+ * @description Emits every completed ClineMessage as newline-delimited JSON and
+ * answers asks according to a fixed policy instead of prompting. Resolves with a
+ * terminal status and the process exit code that represents it.
+ *
+ * @example
+ * ```typescript
+ * const monitor = new CliHeadlessTaskMonitor("approve")
+ * const result = await monitor.run(task)
+ * process.exit(result.exitCode)
+ * ```
+ */
+
+import { DEFAULT_COMMAND_POLICY } from "@shared/AutoApprovalSettings"
+import { findLast } from "@shared/array"
+import { COMMAND_REQ_APP_STRING } from "@shared/combineCommandSequences"
+import { StateManager } from "@/core/storage/StateManager"
+import type { Task } from "@/core/task"
+import { AutoApprove } from "@/core/task/tools/autoApprove"
+import { type CommandPolicyResult, CommandPolicyUtils } from "@/core/task/tools/utils/CommandPolicyUtils"
+import type { ClineAsk, ClineMessage } from "@/shared/ExtensionMessage"
+import { getApiMetrics } from "@/shared/getApiMetrics"
+import { EXIT_CODES, HEADLESS, TIMEOUTS } from "../core/constants"
+
+/**
+ * How asks are answered when nobody is at the terminal
+ * - approve: approve tools/commands, retry failed requests, reply to followups
+ * - reject: reject tools/commands, reply to followups
+ * - fail: stop the run as soon as any input is needed
+ */
+export type HeadlessAskPolicy = "approve" | "reject" | "fail"
+
+export type HeadlessTaskStatus = "completed" | "error" | "mistake_limit" | "input_required" | "budget_exceeded" | "cancelled"
+
+export interface HeadlessTaskResult {
+	status: HeadlessTaskStatus
+	exitCode: number
+	reason?: string
+}
+
+/**
+ * A single NDJSON line written to stdout
+ */
+export type HeadlessEvent =
+	| { type: "task_started"; timestamp: number; prompt: string; taskId?: string }
+	| { type: "message" | "message_updated"; timestamp: number; message: ClineMessage; data?: unknown }
+	| { type: "ask_response"; timestamp: number; ask: ClineAsk; response: "approved" | "rejected" | "replied" }
+	| {
+			type: "task_finished"
+			timestamp: number
+			status: HeadlessTaskStatus
+			exitCode: number
+			reason?: string
+			usage: { tokensIn: number; tokensOut: number; cacheWrites?: number; cacheReads?: number; cost: number }
+	  }
+	| { type: "error"; timestamp: number; message: string }
+
+/**
+ * What to do with an ask under a given policy
+ */
+export type HeadlessAskAction =
+	| { action: "approve" }
+	| { action: "reject" }
+	| { action: "reply"; text: string }
+	| { action: "finish"; status: HeadlessTaskStatus }
+
+const STATUS_EXIT_CODES: Record<HeadlessTaskStatus, number> = {
+	completed: EXIT_CODES.SUCCESS,
+	error: EXIT_CODES.ERROR,
+	mistake_limit: EXIT_CODES.MISTAKE_LIMIT,
+	input_required: EXIT_CODES.INPUT_REQUIRED,
+	budget_exceeded: EXIT_CODES.BUDGET_EXCEEDED,
+	cancelled: EXIT_CODES.CANCELLED,
+}
+
+/**
+ * Decide how to answer an ask. Pure so the policy table can be tested in isolation.
+ * A command denied by the command policy is never approved, whatever the ask policy.
+ */
+export function resolveAskAction(ask: ClineAsk, policy: HeadlessAskPolicy, commandDenied = false): HeadlessAskAction {
+	switch (ask) {
+		case "command":
+			if (policy === "fail") {
+				return { action: "finish", status: "input_required" }
+			}
+			return policy === "approve" && !commandDenied ? { action: "approve" } : { action: "reject" }
+		case "completion_result":
+			return { action: "finish", status: "completed" }
+		case "mistake_limit_reached":
+			return { action: "finish", status: "mistake_limit" }
+		case "api_req_failed":
+			return policy === "approve" ? { action: "approve" } : { action: "finish", status: "error" }
+		case "followup":
+		case "plan_mode_respond":
+			return policy === "fail"
+				? { action: "finish", status: "input_required" }
+				: { action: "reply", text: HEADLESS.FOLLOWUP_REPLY }
+		case "report_bug":
+			// Filing issues on someone's behalf is never appropriate without a human
+			return policy === "fail" ? { action: "finish", status: "input_required" } : { action: "reject" }
+		default:
+			if (policy === "fail") {
+				return { action: "finish", status: "input_required" }
+			}
+			return policy === "approve" ? { action: "approve" } : { action: "reject" }
+	}
+}
+
+/**
+ * Check the command of a `command` ask against the user's command policy, merged with
+ * the workspace override. Falls back to the default policy before the state is loaded.
+ */
+export function evaluateCommandAsk(text: string | undefined): CommandPolicyResult {
+	const command = text?.endsWith(COMMAND_REQ_APP_STRING) ? text.slice(0, -COMMAND_REQ_APP_STRING.length) : (text ?? "")
+	let stateManager: StateManager
+	try {
+		stateManager = StateManager.get()
+	} catch {
+		return CommandPolicyUtils.evaluate(command, DEFAULT_COMMAND_POLICY)
+	}
+	return new AutoApprove(stateManager).evaluateCommandPolicy(command)
+}
+
+/**
+ * Send everything else written to stdout (spinners, logs, banners) to stderr so
+ * stdout carries only NDJSON. Returns a writer bound to the real stdout.
+ */
+export function redirectStdoutToStderr(): (line: string) => void {
+	const writeStdout = process.stdout.write.bind(process.stdout)
+	process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write
+	return (line) => {
+		writeStdout(line)
+	}
+}
+
+/**
+ * Parse JSON payloads carried in message text (tool calls, api_req_started, etc.)
+ */
+function parseMessageData(message: ClineMessage): unknown {
+	const text = message.text?.trim()
+	if (!text || !(text.startsWith("{") || text.startsWith("["))) {
+		return undefined
+	}
+	try {
+		return JSON.parse(text)
+	} catch {
+		return undefined
+	}
+}
+
+/**
+ * Streams task messages as NDJSON and drives the task to a terminal status
+ */
+export class CliHeadlessTaskMonitor {
+	private task: Task | null = null
+	private monitorInterval: NodeJS.Timeout | null = null
+	private emittedSignatures = new Map<number, string>()
+	private handledAsks = new Set<number>()
+	private isProcessingAsk = false
+	private apiRetries = 0
+	private resolveRun: ((result: HeadlessTaskResult) => void) | null = null
+
+	/**
+	 * @param policy - How asks are answered
+	 * @param write - Sink for NDJSON lines (defaults to stdout)
+	 */
+	constructor(
+		private policy: HeadlessAskPolicy,
+		private write: (line: string) => void = (line) => process.stdout.write(line),
+	) {}
+
+	/**
+	 * Write one event as a single JSON line
+	 */
+	emit(event: HeadlessEvent): void {
+		this.write(`${JSON.stringify(event)}\n`)
+	}
+
+	/**
+	 * Monitor a task until it completes, fails or needs input the policy cannot give
+	 */
+	run(task: Task): Promise<HeadlessTaskResult> {
+		this.task = task
+		this.emittedSignatures.clear()
+		this.handledAsks.clear()
+		this.apiRetries = 0
+
+		return new Promise((resolve) => {
+			this.resolveRun = resolve
+			this.monitorInterval = setInterval(() => this.checkForNewMessages(), TIMEOUTS.MESSAGE_CHECK_INTERVAL)
+		})
+	}
+
+	/**
+	 * Stop the run because the process is being cancelled
+	 */
+	cancel(reason = "Cancelled by signal"): void {
+		this.finish("cancelled", reason)
+	}
+
+	/**
+	 * Stop the run because of an error outside the message loop
+	 */
+	fail(error: unknown): void {
+		this.finish("error", error instanceof Error ? error.message : String(error))
+	}
+
+	/**
+	 * Emit new and updated messages, then answer a pending ask
+	 */
+	private async checkForNewMessages(): Promise<void> {
+		if (!this.task || this.isProcessingAsk) {
+			return
+		}
+
+		const messages = this.task.messageStateHandler.getClineMessages()
+		for (const message of messages) {
+			if (!message || message.partial) {
+				continue
+			}
+			this.emitMessage(message)
+		}
+
+		const last = messages[messages.length - 1]
+		if (last?.type === "ask" && last.ask && !last.partial && !this.handledAsks.has(last.ts)) {
+			this.handledAsks.add(last.ts)
+			await this.handleAsk(last)
+			return
+		}
+
+		if (this.task?.taskState.budgetExceeded) {
+			const lastError = findLast(messages, (message) => message.say === "error")
+			this.finish("budget_exceeded", lastError?.text || "Task budget exceeded")
+		} else if (this.task?.taskState.abort) {
+			this.finish("cancelled", "Task was aborted")
+		}
+	}
+
+	/**
+	 * Emit a message once, and again whenever its text changes (e.g. api_req_started gaining cost)
+	 */
+	private emitMessage(message: ClineMessage): void {
+		const signature = `${message.type}:${message.ask ?? message.say}:${message.text ?? ""}`
+		const previous = this.emittedSignatures.get(message.ts)
+		if (previous === signature) {
+			return
+		}
+		this.emittedSignatures.set(message.ts, signature)
+		this.emit({
+			type: previous === undefined ? "message" : "message_updated",
+			timestamp: Date.now(),
+			message,
+			data: parseMessageData(message),
+		})
+	}
+
+	/**
+	 * Answer an ask according to the policy
+	 */
+	private async handleAsk(message: ClineMessage): Promise<void> {
+		const task = this.task
+		if (!task || !message.ask) {
+			return
+		}
+
+		const commandDenied = message.ask === "command" && evaluateCommandAsk(message.text).decision === "deny"
+		let decision = resolveAskAction(message.ask, this.policy, commandDenied)
+		if (message.ask === "api_req_failed" && decision.action === "approve") {
+			this.apiRetries++
+			if (this.apiRetries > HEADLESS.MAX_API_RETRIES) {
+				decision = { action: "finish", status: "error" }
+			}
+		}
+
+		if (decision.action === "finish") {
+			this.finish(decision.status, decision.status === "completed" ? undefined : message.text || message.ask)
+			return
+		}
+
+		this.isProcessingAsk = true
+		try {
+			switch (decision.action) {
+				case "approve":
+					await task.handleWebviewAskResponse("yesButtonClicked")
+					break
+				case "reject":
+					await task.handleWebviewAskResponse("noButtonClicked")
+					break
+				case "reply":
+					await task.handleWebviewAskResponse("messageResponse", decision.text)
+					break
+			}
+			this.emit({
+				type: "ask_response",
+				timestamp: Date.now(),
+				ask: message.ask,
+				response: decision.action === "approve" ? "approved" : decision.action === "reject" ? "rejected" : "replied",
+			})
+		} catch (error) {
+			this.fail(error)
+		} finally {
+			this.isProcessingAsk = false
+		}
+	}
+
+	/**
+	 * Emit the final event and resolve the run exactly once
+	 */
+	private finish(status: HeadlessTaskStatus, reason?: string): void {
+		if (!this.resolveRun) {
+			return
+		}
+		const resolve = this.resolveRun
+		this.resolveRun = null
+
+		if (this.monitorInterval) {
+			clearInterval(this.monitorInterval)
+			this.monitorInterval = null
+		}
+
+		const metrics = getApiMetrics(this.task?.messageStateHandler.getClineMessages() ?? [])
+		const exitCode = STATUS_EXIT_CODES[status]
+		this.emit({
+			type: "task_finished",
+			timestamp: Date.now(),
+			status,
+			exitCode,
+			reason,
+			usage: {
+				tokensIn: metrics.totalTokensIn,
+				tokensOut: metrics.totalTokensOut,
+				cacheWrites: metrics.totalCacheWrites,
+				cacheReads: metrics.totalCacheReads,
+				cost: metrics.totalCost,
+			},
+		})
+
+		this.task = null
+		resolve({ status, exitCode, reason })
+	}
+}
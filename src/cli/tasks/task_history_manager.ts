@@ -4,6 +4,8 @@
  */
 
 import { Controller } from "@/core/controller"
+import { TASK_EXPORT_FORMATS, type TaskExportFormat } from "@/integrations/misc/task-export"
+import type { TaskSearchSnippet } from "@/services/search/task-history"
 import type { HistoryItem } from "@/shared/HistoryItem"
 import { DataTable, Sparkline } from "../ui/components/data_visualization"
 import { output } from "../ui/output/output"
@@ -90,7 +92,9 @@ export class CliTaskHistoryManager {
 			}
 
 			output.log("\n" + style("💡 Commands:", TerminalColors.dim))
-			output.log(`  ${style("history export <id>", SemanticColors.highlight)}  - Export task as markdown`)
+			output.log(
+				`  ${style("history export <id>", SemanticColors.highlight)}  - Export task (markdown, json, html, bundle)`,
+			)
 			output.log(`  ${style("history resume <id>", SemanticColors.highlight)}  - Resume a previous task`)
 			output.log(`  ${style("history delete <id>", SemanticColors.highlight)}  - Delete a task from history`)
 			output.log(`  ${style("history details <id>", SemanticColors.highlight)} - Show task details\n`)
@@ -121,14 +125,20 @@ export class CliTaskHistoryManager {
 	}
 
 	/**
-	 * Export task as markdown
+	 * Export task as markdown, JSON, an HTML report or an importable bundle
 	 */
-	async exportTask(taskId: string, outputPath?: string): Promise<void> {
-		output.log(`\n📤 Exporting Task: ${taskId}`)
+	async exportTask(taskId: string, format: string = "markdown", outputPath?: string): Promise<void> {
+		if (!TASK_EXPORT_FORMATS.includes(format as TaskExportFormat)) {
+			output.log(`\n❌ Unknown export format: ${format}`)
+			output.log(`Available formats: ${TASK_EXPORT_FORMATS.join(", ")}\n`)
+			return
+		}
+
+		output.log(`\n📤 Exporting Task: ${taskId} (${format})`)
 		output.log("─".repeat(80))
 
 		try {
-			await this.controller.exportTaskWithId(taskId)
+			await this.controller.exportTaskWithId(taskId, format as TaskExportFormat)
 			output.log(`  ✓ Task exported successfully`)
 			if (outputPath) {
 				output.log(`  Location: ${outputPath}`)
@@ -180,19 +190,14 @@ export class CliTaskHistoryManager {
 	}
 
 	/**
-	 * Search task history
+	 * Full-text search over task conversations, files touched and commands run
 	 */
-	async searchHistory(query: string): Promise<void> {
+	async searchHistory(query: string, limit: number = 10): Promise<void> {
 		output.log(`\n🔍 Searching Task History: "${query}"`)
 		output.log("─".repeat(80))
 
 		try {
-			const taskHistory = this.controller.stateManager.getGlobalStateKey("taskHistory") || []
-			const results = taskHistory.filter(
-				(item) =>
-					item.task?.toLowerCase().includes(query.toLowerCase()) ||
-					item.id?.toLowerCase().includes(query.toLowerCase()),
-			)
+			const results = await this.controller.searchTaskHistory(query, { limit })
 
 			if (results.length === 0) {
 				output.log("  No matching tasks found")
@@ -200,24 +205,21 @@ export class CliTaskHistoryManager {
 				return
 			}
 
-			output.log(`  Found ${results.length} matching task${results.length !== 1 ? "s" : ""}:\n`)
-
-			for (const item of results.slice(0, 10)) {
-				const date = new Date(item.ts)
-				const dateStr = date.toLocaleString()
-				const taskPreview = this.truncateText(item.task, 60)
-				const status = this.getTaskStatusEmoji(item)
+			output.log(`  Top ${results.length} matching task${results.length !== 1 ? "s" : ""}:\n`)
 
-				output.log(`  ${status} ${item.id}`)
-				output.log(`     ${dateStr}`)
-				output.log(`     "${taskPreview}"`)
+			for (const result of results) {
+				const dateStr = new Date(result.ts).toLocaleString()
+				output.log(`  ${style(result.taskId, SemanticColors.highlight)}  ${style(dateStr, TerminalColors.dim)}`)
+				output.log(`     "${this.truncateText(result.task, 70)}"`)
+				for (const snippet of result.snippets) {
+					output.log(`     ${style(`${snippet.source}:`, TerminalColors.dim)} ${this.highlightSnippet(snippet)}`)
+				}
 				output.log()
 			}
 
-			if (results.length > 10) {
-				output.log(`  ... and ${results.length - 10} more`)
-			}
-
+			output.log(
+				`  ${style("history export <id>", SemanticColors.highlight)} or ${style("history resume <id>", SemanticColors.highlight)} to use a result`,
+			)
 			output.log("─".repeat(80))
 		} catch (error) {
 			console.error("  Error searching history:", error instanceof Error ? error.message : String(error))
@@ -226,11 +228,16 @@ export class CliTaskHistoryManager {
 	}
 
 	/**
-	 * Get task status emoji
+	 * Render a search snippet with its matched words emphasized
 	 */
-	private getTaskStatusEmoji(_item: HistoryItem): string {
-		// This is a simple heuristic - could be enhanced
-		return "•"
+	private highlightSnippet(snippet: TaskSearchSnippet): string {
+		let result = ""
+		let cursor = 0
+		for (const [start, end] of snippet.highlights) {
+			result += snippet.text.slice(cursor, start) + style(snippet.text.slice(start, end), SemanticColors.highlight)
+			cursor = end
+		}
+		return result + snippet.text.slice(cursor)
 	}
 
 	/**
@@ -14,12 +14,13 @@
  */
 
 import type { Task } from "@/core/task"
-import type { ClineMessage } from "@/shared/ExtensionMessage"
+import type { ClineMessage, ClineSaySubagents, ClineSubagentStatus } from "@/shared/ExtensionMessage"
 import { getInteractionHandler } from "../commands/interaction_handler"
 import { OUTPUT_LIMITS, TIMEOUTS } from "../core/constants"
 import { getStreamHandler } from "../terminal/stream_handler"
 import { formatCommandExecution, formatMessageBox, TerminalColors } from "../ui/output/message_formatter"
 import { output } from "../ui/output/output"
+import { evaluateCommandAsk } from "./headless_task_monitor"
 
 export interface TerminalOutputConfig {
 	lineLimit?: number // Maximum lines to display per output
@@ -34,11 +35,12 @@ interface ApprovalResult {
 	feedbackFiles?: string[]
 }
 
-/**
- * Extended Task interface with CLI-specific properties
- */
-interface TaskWithMessages {
-	clineMessages?: ClineMessage[]
+const SUBAGENT_STATUS_ICONS: Record<ClineSubagentStatus, string> = {
+	queued: "○",
+	running: "◐",
+	completed: `${TerminalColors.green}✓${TerminalColors.reset}`,
+	failed: `${TerminalColors.red}✗${TerminalColors.reset}`,
+	cancelled: `${TerminalColors.gray}⊘${TerminalColors.reset}`,
 }
 
 /**
@@ -57,6 +59,8 @@ export class CliTaskMonitor {
 	private isProcessingApproval = false
 	private lineLimit: number
 	private streamHandler = getStreamHandler()
+	// Sub-agent trees already printed, by message ts, so progress is printed again only when it changes
+	private printedSubagentTrees = new Map<number, string>()
 
 	/**
 	 * Creates a new CLI task monitor
@@ -87,7 +91,7 @@ export class CliTaskMonitor {
 		if (!this.task) {
 			return []
 		}
-		return (this.task as TaskWithMessages).clineMessages || []
+		return this.task.messageStateHandler?.getClineMessages() ?? []
 	}
 
 	/**
@@ -120,6 +124,7 @@ export class CliTaskMonitor {
 		this.task = task
 		this.lastProcessedMessageIndex = -1
 		this.isProcessingApproval = false
+		this.printedSubagentTrees.clear()
 
 		this.monitorInterval = setInterval(() => this.checkForNewMessages(), TIMEOUTS.MESSAGE_CHECK_INTERVAL)
 	}
@@ -174,6 +179,47 @@ export class CliTaskMonitor {
 				)
 			}
 		}
+
+		this.refreshSubagentTrees(messages)
+	}
+
+	/**
+	 * Reprint sub-agent trees whose progress changed since they were last printed
+	 *
+	 * The tree is a single say message rewritten in place, so it is never picked up as new.
+	 */
+	private refreshSubagentTrees(messages: ClineMessage[]): void {
+		for (const message of messages.slice(0, this.lastProcessedMessageIndex + 1)) {
+			if (message.say === "subagents" && this.printedSubagentTrees.has(message.ts)) {
+				this.printSubagentTree(message)
+			}
+		}
+	}
+
+	/**
+	 * Print the sub-agents of a fan-out with their status, unless it's unchanged since last time
+	 */
+	private printSubagentTree(message: ClineMessage): void {
+		const text = message.text || ""
+		if (this.printedSubagentTrees.get(message.ts) === text) {
+			return
+		}
+		this.printedSubagentTrees.set(message.ts, text)
+
+		let subagents: ClineSaySubagents["subagents"] = []
+		try {
+			subagents = (JSON.parse(text) as ClineSaySubagents).subagents ?? []
+		} catch {
+			return
+		}
+		const lines = subagents.map((subagent, index) => {
+			const branch = index === subagents.length - 1 ? "└─" : "├─"
+			const details = subagent.error ?? subagent.activity
+			return `${branch} ${SUBAGENT_STATUS_ICONS[subagent.status] ?? "○"} ${subagent.title}${
+				details ? ` ${TerminalColors.dim}(${details})${TerminalColors.reset}` : ""
+			}`
+		})
+		output.log(`\n${TerminalColors.cyan}🧩 Sub-agents:${TerminalColors.reset}\n${lines.join("\n")}`)
 	}
 
 	/**
@@ -218,9 +264,16 @@ export class CliTaskMonitor {
 	}
 
 	/**
-	 * Auto-approve request
+	 * Auto-approve request, except commands the command policy denies
 	 */
 	private async autoApproveRequest(message: ClineMessage): Promise<ApprovalResult> {
+		if (message.ask === "command") {
+			const { decision, reason } = evaluateCommandAsk(message.text)
+			if (decision === "deny") {
+				output.log(`\n✗ Auto-rejected command: ${reason ?? "denied by the command policy"}`)
+				return { approved: false }
+			}
+		}
 		output.log(`\n✓ Auto-approved: ${message.ask}`)
 		return { approved: true }
 	}
@@ -254,6 +307,14 @@ export class CliTaskMonitor {
 				output.log(`\n⚠️  API request failed: ${text}`)
 				return { approved: await handler.askApproval("Retry?", false) }
 
+			case "budget_limit_reached":
+				output.log(`\n💰 ${text}`)
+				return { approved: await handler.askApproval("Continue past the soft limit?", false) }
+
+			case "subagents":
+				this.printSubagentTree(message)
+				return { approved: await handler.askApproval("Start these sub-agents?", true) }
+
 			default:
 				output.log(`\n❓ ${askType}: ${text}`)
 				return { approved: await handler.askApproval("Approve?", true) }
@@ -370,6 +431,10 @@ export class CliTaskMonitor {
 				// Don't echo
 				break
 
+			case "subagents":
+				this.printSubagentTree(message)
+				break
+
 			default:
 				if (text) {
 					output.log(`\n${TerminalColors.gray}[${type}]${TerminalColors.reset} ${text}`)
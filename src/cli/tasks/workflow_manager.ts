@@ -6,12 +6,58 @@
 import * as fs from "node:fs/promises"
 import * as path from "node:path"
 import { output } from "../ui/output/output"
+import { formatWorkflowRunSummary, runWorkflow, type WorkflowRunResult, type WorkflowStepExecutor } from "./workflow_runner"
+
+export type WorkflowStepStatus = "succeeded" | "failed" | "skipped"
+
+/**
+ * What happens when a step fails
+ * - retry: run it again up to `retries` more times, then abort
+ * - skip: record the failure and continue with the next step
+ * - abort: stop the workflow (default)
+ */
+export type WorkflowFailureAction = "retry" | "skip" | "abort"
+
+/**
+ * Condition on an earlier step's result or a variable; a step runs only when all its conditions hold
+ *
+ * @example { "step": "test", "status": "failed" }
+ * @example { "step": "lint", "contains": "warning", "not": true }
+ * @example { "variable": "env", "equals": "staging" }
+ */
+export interface WorkflowCondition {
+	/** ID of an earlier step */
+	step?: string
+	/** Name of a workflow variable */
+	variable?: string
+	/** Step ended with this status (or one of these statuses) */
+	status?: WorkflowStepStatus | WorkflowStepStatus[]
+	/** Step output or variable value equals this text (after trimming) */
+	equals?: string
+	/** Step output or variable value contains this text */
+	contains?: string
+	/** Invert the condition */
+	not?: boolean
+}
 
 export interface WorkflowStep {
+	/** Used to refer to the step from conditions and {{steps.<id>.output}}; defaults to the sanitized name */
+	id?: string
 	name: string
-	prompt: string
+	/** Prompt for the agent; each step has either a prompt or a command */
+	prompt?: string
+	/** Shell command run in the workspace; {{name}} values are quoted as one word, {{{name}}} ones inserted as is */
+	command?: string
 	autoApprove?: boolean
 	variables?: Record<string, string>
+	when?: WorkflowCondition | WorkflowCondition[]
+	onFailure?: WorkflowFailureAction
+	/** Extra attempts when onFailure is "retry" */
+	retries?: number
+	/** Variable that receives the step's output (command stdout/stderr or the agent's completion result) */
+	output?: string
+	/** Command step timeout */
+	timeoutSeconds?: number
 }
 
 export interface Workflow {
@@ -26,9 +72,11 @@ export interface Workflow {
 
 export class CliWorkflowManager {
 	private workflowsDir: string
+	private workspacePath: string
 	private verbose: boolean
 
 	constructor(workspacePath: string, verbose = false) {
+		this.workspacePath = workspacePath
 		this.workflowsDir = path.join(workspacePath, ".mariecoder", "workflows")
 		this.verbose = verbose
 	}
@@ -165,21 +213,18 @@ export class CliWorkflowManager {
 	}
 
 	/**
-	 * Execute a workflow
+	 * Execute a workflow, running each step through the given executor
 	 */
 	async executeWorkflow(
 		idOrName: string,
-		variableOverrides?: Record<string, string>,
-		onStep?: (step: WorkflowStep, index: number, total: number) => Promise<void>,
-	): Promise<void> {
+		variableOverrides: Record<string, string> | undefined,
+		executor: WorkflowStepExecutor,
+	): Promise<WorkflowRunResult> {
 		const workflow = await this.getWorkflow(idOrName)
 		if (!workflow) {
 			throw new Error(`Workflow "${idOrName}" not found`)
 		}
 
-		// Merge variables
-		const variables = { ...workflow.variables, ...variableOverrides }
-
 		output.log(`\n${"═".repeat(80)}`)
 		output.log(`⚡ Executing Workflow: ${workflow.name}`)
 		output.log(`${"═".repeat(80)}`)
@@ -187,27 +232,27 @@ export class CliWorkflowManager {
 		output.log(`Steps: ${workflow.steps.length}`)
 		output.log(`${"═".repeat(80)}\n`)
 
-		// Execute each step
-		for (let i = 0; i < workflow.steps.length; i++) {
-			const step = workflow.steps[i]
-			output.log(`\n${"─".repeat(80)}`)
-			output.log(`📍 Step ${i + 1}/${workflow.steps.length}: ${step.name}`)
-			output.log(`${"─".repeat(80)}\n`)
-
-			// Substitute variables in prompt
-			const prompt = this.substituteVariables(step.prompt, { ...variables, ...step.variables })
-
-			if (onStep) {
-				await onStep(step, i, workflow.steps.length)
-			}
-
-			// Execute the step (handled by caller)
-			output.log(`Prompt: ${prompt}\n`)
-		}
+		const result = await runWorkflow(workflow, {
+			cwd: this.workspacePath,
+			executor,
+			variables: variableOverrides,
+			onStepStart: (step, _id, index, total) => {
+				output.log(`\n${"─".repeat(80)}`)
+				output.log(`📍 Step ${index + 1}/${total}: ${step.name}`)
+				output.log(`${"─".repeat(80)}\n`)
+			},
+			onStepFinish: (stepResult) => {
+				if (this.verbose && stepResult.output) {
+					output.log(stepResult.output)
+				}
+			},
+		})
 
 		output.log(`\n${"═".repeat(80)}`)
-		output.log(`✅ Workflow "${workflow.name}" completed!`)
+		output.log(formatWorkflowRunSummary(result))
 		output.log(`${"═".repeat(80)}\n`)
+
+		return result
 	}
 
 	/**
@@ -290,6 +335,34 @@ export class CliWorkflowManager {
 					target_code: "code to refactor",
 				},
 			},
+			{
+				name: "fix-failing-tests",
+				description: "Run the test suite and have the agent fix any failures",
+				steps: [
+					{
+						id: "test",
+						name: "Run Tests",
+						command: "{{{test_command}}}",
+						onFailure: "skip",
+						output: "test_output",
+					},
+					{
+						name: "Fix Failures",
+						prompt: "These tests are failing:\n\n{{test_output}}\n\nFix the code so they pass.",
+						when: { step: "test", status: "failed" },
+					},
+					{
+						name: "Re-run Tests",
+						command: "{{{test_command}}}",
+						when: { step: "test", status: "failed" },
+						onFailure: "retry",
+						retries: 1,
+					},
+				],
+				variables: {
+					test_command: "npm test",
+				},
+			},
 		]
 
 		for (const template of templates) {
@@ -319,10 +392,17 @@ export class CliWorkflowManager {
 			for (let i = 0; i < workflow.steps.length; i++) {
 				const step = workflow.steps[i]
 				lines.push(`   ${i + 1}. ${step.name}`)
-				if (step.prompt) {
-					const preview = step.prompt.length > 60 ? `${step.prompt.substring(0, 60)}...` : step.prompt
+				const body = step.command !== undefined ? `$ ${step.command}` : step.prompt
+				if (body) {
+					const preview = body.length > 60 ? `${body.substring(0, 60)}...` : body
 					lines.push(`      → ${preview}`)
 				}
+				if (step.when) {
+					lines.push(`      when: ${JSON.stringify(step.when)}`)
+				}
+				if (step.onFailure) {
+					lines.push(`      on failure: ${step.onFailure}`)
+				}
 			}
 
 			if (workflow.variables && Object.keys(workflow.variables).length > 0) {
@@ -348,17 +428,6 @@ export class CliWorkflowManager {
 		return workflows.map((w) => this.formatWorkflow(w, detailed)).join("\n\n")
 	}
 
-	/**
-	 * Substitute variables in text
-	 */
-	private substituteVariables(text: string, variables: Record<string, string> = {}): string {
-		let result = text
-		for (const [key, value] of Object.entries(variables)) {
-			result = result.replace(new RegExp(`\\{\\{${key}\\}\\}`, "g"), value)
-		}
-		return result
-	}
-
 	/**
 	 * Sanitize filename
 	 */
@@ -0,0 +1,418 @@
+/**
+ * CLI Workflow Runner - Non-interactive execution of workflow steps
+ *
+ * @description Runs a workflow's steps in order. Steps are either shell commands or agent
+ * prompts, may be gated by `when` conditions on earlier results, retry/skip/abort on
+ * failure, and capture their output into variables that later steps reference as
+ * {{name}} or {{steps.<id>.output}}. In commands each value is quoted as one shell word;
+ * {{{name}}} inserts a workflow or --var variable as is, e.g. a whole test command.
+ *
+ * @example
+ * ```typescript
+ * const result = await runWorkflow(workflow, { cwd, executor, variables: { env: "staging" } })
+ * output.log(formatWorkflowRunSummary(result))
+ * process.exit(result.exitCode)
+ * ```
+ */
+
+import { spawn } from "node:child_process"
+import { EXIT_CODES, WORKFLOW } from "../core/constants"
+import type { Workflow, WorkflowCondition, WorkflowStep, WorkflowStepStatus } from "./workflow_manager"
+
+export type WorkflowStepKind = "command" | "prompt"
+
+export interface WorkflowCommandResult {
+	exitCode: number
+	output: string
+	timedOut?: boolean
+}
+
+export interface WorkflowPromptResult {
+	success: boolean
+	/** The agent's final completion result */
+	output: string
+	error?: string
+}
+
+/**
+ * Runs the two kinds of step; injected so the CLI can drive the agent and tests can fake both
+ */
+export interface WorkflowStepExecutor {
+	runCommand(command: string, options: { cwd: string; timeoutMs: number }): Promise<WorkflowCommandResult>
+	runPrompt(prompt: string, step: WorkflowStep): Promise<WorkflowPromptResult>
+}
+
+export interface WorkflowStepResult {
+	id: string
+	name: string
+	kind: WorkflowStepKind
+	status: WorkflowStepStatus
+	attempts: number
+	exitCode?: number
+	output?: string
+	/** Failure message, or why the step was skipped */
+	error?: string
+	durationMs: number
+}
+
+export interface WorkflowRunResult {
+	workflowId: string
+	workflowName: string
+	/** Failed only when a step aborted the run; steps failing with onFailure "skip" don't fail the workflow */
+	status: "succeeded" | "failed"
+	exitCode: number
+	steps: WorkflowStepResult[]
+	variables: Record<string, string>
+	durationMs: number
+}
+
+export interface WorkflowRunOptions {
+	cwd: string
+	executor: WorkflowStepExecutor
+	/** Overrides for the workflow's default variables */
+	variables?: Record<string, string>
+	onStepStart?: (step: WorkflowStep, id: string, index: number, total: number) => void | Promise<void>
+	onStepFinish?: (result: WorkflowStepResult, index: number, total: number) => void | Promise<void>
+}
+
+// {{{name}}} (raw) or {{name}}
+const VARIABLE_PATTERN = /\{\{\{\s*([\w.-]+)\s*\}\}\}|\{\{\s*([\w.-]+)\s*\}\}/g
+
+/**
+ * Run every step of a workflow and report how each one ended
+ */
+export async function runWorkflow(workflow: Workflow, options: WorkflowRunOptions): Promise<WorkflowRunResult> {
+	const errors = validateWorkflow(workflow)
+	if (errors.length > 0) {
+		throw new Error(`Invalid workflow "${workflow.name}":\n${errors.map((error) => `  - ${error}`).join("\n")}`)
+	}
+
+	const startedAt = Date.now()
+	const ids = getStepIds(workflow.steps)
+	const variables: Record<string, string> = { ...workflow.variables, ...options.variables }
+	// Only these may be inserted unquoted; step output never is
+	const inputVariables = { ...variables }
+	const results = new Map<string, WorkflowStepResult>()
+	const steps: WorkflowStepResult[] = []
+	let aborted = false
+
+	for (let i = 0; i < workflow.steps.length; i++) {
+		const step = workflow.steps[i]
+		const id = ids[i]
+		const kind: WorkflowStepKind = step.command !== undefined ? "command" : "prompt"
+		let result: WorkflowStepResult
+
+		if (aborted) {
+			result = { id, name: step.name, kind, status: "skipped", attempts: 0, error: "Workflow aborted", durationMs: 0 }
+		} else if (!evaluateConditions(step.when, results, variables)) {
+			result = { id, name: step.name, kind, status: "skipped", attempts: 0, error: "Condition not met", durationMs: 0 }
+		} else {
+			await options.onStepStart?.(step, id, i, workflow.steps.length)
+			result = await runStep(
+				step,
+				id,
+				kind,
+				{ ...variables, ...step.variables, ...stepVariables(results) },
+				{ ...inputVariables, ...step.variables },
+				options,
+			)
+			if (step.output && result.output !== undefined) {
+				variables[step.output] = result.output
+			}
+			if (result.status === "failed" && (step.onFailure ?? "abort") !== "skip") {
+				aborted = true
+			}
+		}
+
+		results.set(id, result)
+		steps.push(result)
+		await options.onStepFinish?.(result, i, workflow.steps.length)
+	}
+
+	return {
+		workflowId: workflow.id,
+		workflowName: workflow.name,
+		status: aborted ? "failed" : "succeeded",
+		exitCode: aborted ? EXIT_CODES.ERROR : EXIT_CODES.SUCCESS,
+		steps,
+		variables,
+		durationMs: Date.now() - startedAt,
+	}
+}
+
+/**
+ * Check a workflow for mistakes that would only surface midway through a run
+ */
+export function validateWorkflow(workflow: Workflow): string[] {
+	const errors: string[] = []
+	const ids = getStepIds(workflow.steps)
+
+	workflow.steps.forEach((step, index) => {
+		const label = `Step ${index + 1} (${step.name})`
+		if (!step.prompt && !step.command) {
+			errors.push(`${label} needs a prompt or a command`)
+		} else if (step.prompt && step.command) {
+			errors.push(`${label} has both a prompt and a command`)
+		}
+		if (step.onFailure && !["retry", "skip", "abort"].includes(step.onFailure)) {
+			errors.push(`${label} has an unknown onFailure "${step.onFailure}" (expected retry, skip or abort)`)
+		}
+		for (const condition of toArray(step.when)) {
+			if (!condition.step && !condition.variable) {
+				errors.push(`${label} has a condition without a step or variable`)
+			} else if (condition.step && !ids.slice(0, index).includes(condition.step)) {
+				errors.push(`${label} has a condition on "${condition.step}", which is not an earlier step`)
+			}
+		}
+	})
+
+	const duplicates = ids.filter((id, index) => ids.indexOf(id) !== index)
+	for (const id of new Set(duplicates)) {
+		errors.push(`Step ID "${id}" is used more than once`)
+	}
+
+	return errors
+}
+
+/**
+ * Replace {{name}} and {{{name}}} placeholders, leaving unknown ones in place so mistakes stay visible
+ *
+ * @param quote - Applied to each {{name}} value, e.g. to keep it one shell word
+ * @param rawVariables - The variables {{{name}}} may insert unquoted
+ */
+export function substituteWorkflowVariables(
+	text: string,
+	variables: Record<string, string>,
+	quote: (value: string) => string = (value) => value,
+	rawVariables: Record<string, string> = variables,
+): string {
+	return text.replace(VARIABLE_PATTERN, (placeholder, rawName: string | undefined, name: string | undefined) => {
+		if (rawName !== undefined) {
+			return Object.hasOwn(rawVariables, rawName) ? rawVariables[rawName] : placeholder
+		}
+		return name !== undefined && Object.hasOwn(variables, name) ? quote(variables[name]) : placeholder
+	})
+}
+
+/**
+ * Quote a value as a single word for the shell `runShellCommand` uses
+ *
+ * Variables and step output come from the command line and earlier commands, so they must
+ * never be able to add commands of their own.
+ */
+export function quoteShellValue(value: string, platform: NodeJS.Platform = process.platform): string {
+	if (/^[\w@%+=:,./-]+$/.test(value)) {
+		return value
+	}
+	return platform === "win32" ? `"${value.replace(/"/g, '""')}"` : `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+/**
+ * Check whether every condition holds; a step without conditions always runs
+ */
+export function evaluateConditions(
+	when: WorkflowCondition | WorkflowCondition[] | undefined,
+	results: Map<string, WorkflowStepResult>,
+	variables: Record<string, string>,
+): boolean {
+	return toArray(when).every((condition) => {
+		const holds = evaluateCondition(condition, results, variables)
+		return condition.not ? !holds : holds
+	})
+}
+
+function evaluateCondition(
+	condition: WorkflowCondition,
+	results: Map<string, WorkflowStepResult>,
+	variables: Record<string, string>,
+): boolean {
+	let value: string | undefined
+	if (condition.step) {
+		const result = results.get(condition.step)
+		if (!result) {
+			return false
+		}
+		if (condition.status && !toArray(condition.status).includes(result.status)) {
+			return false
+		}
+		// A bare step reference means "that step succeeded"
+		if (!condition.status && condition.equals === undefined && condition.contains === undefined) {
+			return result.status === "succeeded"
+		}
+		value = result.output ?? ""
+	} else {
+		value = condition.variable ? variables[condition.variable] : undefined
+		// A bare variable reference means "that variable is set"
+		if (condition.equals === undefined && condition.contains === undefined) {
+			return !!value
+		}
+	}
+
+	if (condition.equals !== undefined && (value ?? "").trim() !== condition.equals.trim()) {
+		return false
+	}
+	if (condition.contains !== undefined && !(value ?? "").includes(condition.contains)) {
+		return false
+	}
+	return true
+}
+
+/**
+ * Run one step, retrying it when its failure action asks for that
+ */
+async function runStep(
+	step: WorkflowStep,
+	id: string,
+	kind: WorkflowStepKind,
+	variables: Record<string, string>,
+	rawVariables: Record<string, string>,
+	options: WorkflowRunOptions,
+): Promise<WorkflowStepResult> {
+	const startedAt = Date.now()
+	const maxAttempts = step.onFailure === "retry" ? 1 + Math.max(0, step.retries ?? WORKFLOW.DEFAULT_RETRIES) : 1
+	let result: Omit<WorkflowStepResult, "durationMs"> = { id, name: step.name, kind, status: "failed", attempts: 0 }
+
+	for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+		result = {
+			...(await runStepOnce(step, kind, variables, rawVariables, options)),
+			id,
+			name: step.name,
+			kind,
+			attempts: attempt,
+		}
+		if (result.status === "succeeded") {
+			break
+		}
+	}
+
+	return { ...result, durationMs: Date.now() - startedAt }
+}
+
+async function runStepOnce(
+	step: WorkflowStep,
+	kind: WorkflowStepKind,
+	variables: Record<string, string>,
+	rawVariables: Record<string, string>,
+	options: WorkflowRunOptions,
+): Promise<Pick<WorkflowStepResult, "status" | "exitCode" | "output" | "error">> {
+	try {
+		if (kind === "command") {
+			const timeoutMs = step.timeoutSeconds ? step.timeoutSeconds * 1000 : WORKFLOW.COMMAND_TIMEOUT
+			const command = substituteWorkflowVariables(step.command ?? "", variables, quoteShellValue, rawVariables)
+			const { exitCode, output, timedOut } = await options.executor.runCommand(command, { cwd: options.cwd, timeoutMs })
+			return {
+				status: exitCode === 0 ? "succeeded" : "failed",
+				exitCode,
+				output: capOutput(output),
+				error: timedOut
+					? `Timed out after ${timeoutMs / 1000}s`
+					: exitCode !== 0
+						? `Exited with code ${exitCode}`
+						: undefined,
+			}
+		}
+
+		const prompt = substituteWorkflowVariables(step.prompt ?? "", variables, undefined, rawVariables)
+		const { success, output, error } = await options.executor.runPrompt(prompt, step)
+		return { status: success ? "succeeded" : "failed", output: capOutput(output), error: success ? undefined : error }
+	} catch (error) {
+		return { status: "failed", error: error instanceof Error ? error.message : String(error) }
+	}
+}
+
+/**
+ * Run a command through the user's shell, collecting stdout and stderr together
+ */
+export function runShellCommand(command: string, options: { cwd: string; timeoutMs: number }): Promise<WorkflowCommandResult> {
+	return new Promise((resolve) => {
+		let output = ""
+		const child = spawn(command, { cwd: options.cwd, shell: true, stdio: ["ignore", "pipe", "pipe"] })
+
+		const collect = (chunk: Buffer) => {
+			// Keep only the tail while streaming so noisy commands can't exhaust memory
+			output = (output + chunk.toString()).slice(-2 * WORKFLOW.MAX_OUTPUT_LENGTH)
+		}
+		child.stdout?.on("data", collect)
+		child.stderr?.on("data", collect)
+
+		let settled = false
+		const settle = (result: WorkflowCommandResult) => {
+			if (!settled) {
+				settled = true
+				clearTimeout(timer)
+				resolve(result)
+			}
+		}
+
+		// Resolve on timeout without waiting for close, which a grandchild holding the pipes could delay
+		const timer = setTimeout(() => {
+			child.kill("SIGTERM")
+			settle({ exitCode: 124, output, timedOut: true })
+		}, options.timeoutMs)
+
+		child.on("error", (error) => settle({ exitCode: 127, output: error.message }))
+		child.on("close", (code) => settle({ exitCode: code ?? 1, output }))
+	})
+}
+
+/**
+ * Render the per-step outcome shown at the end of a run
+ */
+export function formatWorkflowRunSummary(result: WorkflowRunResult): string {
+	const icons: Record<WorkflowStepStatus, string> = { succeeded: "✅", failed: "❌", skipped: "⏭️ " }
+	const lines: string[] = [`Workflow "${result.workflowName}" ${result.status} in ${formatDuration(result.durationMs)}`, ""]
+
+	result.steps.forEach((step, index) => {
+		const details = [
+			step.kind,
+			step.attempts > 1 ? `${step.attempts} attempts` : undefined,
+			step.status !== "skipped" ? formatDuration(step.durationMs) : undefined,
+		].filter(Boolean)
+		lines.push(`  ${icons[step.status]} ${index + 1}. ${step.name} (${details.join(", ")})`)
+		if (step.error) {
+			lines.push(`       ${step.error}`)
+		}
+	})
+
+	const counts = (status: WorkflowStepStatus) => result.steps.filter((step) => step.status === status).length
+	lines.push("", `  ${counts("succeeded")} succeeded, ${counts("failed")} failed, ${counts("skipped")} skipped`)
+	return lines.join("\n")
+}
+
+/**
+ * Step IDs default to the sanitized step name
+ */
+function getStepIds(steps: WorkflowStep[]): string[] {
+	return steps.map((step) => step.id ?? step.name.toLowerCase().replace(/[^a-z0-9-_]/g, "-"))
+}
+
+/**
+ * Expose finished steps as {{steps.<id>.output}}, {{steps.<id>.status}} and {{steps.<id>.exitCode}}
+ */
+function stepVariables(results: Map<string, WorkflowStepResult>): Record<string, string> {
+	const variables: Record<string, string> = {}
+	for (const [id, result] of results) {
+		variables[`steps.${id}.status`] = result.status
+		variables[`steps.${id}.output`] = result.output ?? ""
+		if (result.exitCode !== undefined) {
+			variables[`steps.${id}.exitCode`] = String(result.exitCode)
+		}
+	}
+	return variables
+}
+
+function capOutput(output: string): string {
+	// The end of a command's output (the summary, the error) is what later steps care about
+	return output.trimEnd().slice(-WORKFLOW.MAX_OUTPUT_LENGTH)
+}
+
+function formatDuration(ms: number): string {
+	return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+	if (value === undefined) {
+		return []
+	}
+	return Array.isArray(value) ? value : [value]
+}
@@ -0,0 +1,240 @@
+/**
+ * Long-lived shell session for CLI command execution
+ * Keeps one shell running per terminal so `cd`, `export` and `source` carry over between commands
+ */
+
+import { type ChildProcess, spawn } from "node:child_process"
+import { randomBytes } from "node:crypto"
+import * as path from "node:path"
+
+/** Shells that understand the POSIX syntax the session wraps commands in */
+const POSIX_SHELLS = new Set(["sh", "bash", "zsh", "dash", "ksh", "mksh", "ash"])
+
+/**
+ * How a command in a session finished
+ */
+export interface ShellCommandResult {
+	exitCode: number
+	/** The shell's working directory after the command */
+	cwd: string
+}
+
+/**
+ * Whether commands can run in a persistent session of this shell
+ */
+export function supportsShellSession(shellPath: string): boolean {
+	return process.platform !== "win32" && POSIX_SHELLS.has(path.basename(shellPath))
+}
+
+/**
+ * Quote a string as a single shell word
+ */
+export function quoteShellArgument(value: string): string {
+	return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+/**
+ * The script that runs one command in the session and reports back
+ *
+ * `command eval` runs the command in the current shell so its side effects persist, and keeps
+ * a syntax error from exiting the shell. Stdin is closed because it carries the session's own
+ * script. Afterwards the sentinel is printed on both streams, with the exit code and working
+ * directory on stdout, so the command's output is known to be complete.
+ */
+export function buildSessionScript(command: string, sentinel: string, cwd?: string): string {
+	const run = `command eval ${quoteShellArgument(command)} </dev/null`
+	return [
+		cwd ? `command cd -- ${quoteShellArgument(cwd)} </dev/null && ${run}` : run,
+		`printf '\\n%s %s %s\\n' '${sentinel}' "$?" "$PWD"`,
+		`printf '\\n%s\\n' '${sentinel}' >&2`,
+		"",
+	].join("\n")
+}
+
+/**
+ * Output of one stream, held back only as far as it may be the start of the sentinel
+ */
+class SentinelStream {
+	private buffer = ""
+	done = false
+
+	constructor(
+		private readonly sentinel: string,
+		private readonly onOutput: (text: string) => void,
+	) {}
+
+	/**
+	 * Add output; returns the text after the sentinel once it arrived
+	 */
+	push(text: string): string | undefined {
+		this.buffer += text
+		const marker = `\n${this.sentinel}`
+		const markerIndex = this.buffer.indexOf(marker)
+
+		if (markerIndex !== -1) {
+			this.emit(markerIndex)
+			const lineEnd = this.buffer.indexOf("\n", marker.length)
+			if (lineEnd === -1) {
+				return undefined
+			}
+			const trailer = this.buffer.slice(marker.length, lineEnd)
+			this.buffer = ""
+			this.done = true
+			return trailer.trim()
+		}
+
+		// Everything before the last line break is output; the rest may be the sentinel arriving
+		const lastBreak = this.buffer.lastIndexOf("\n")
+		const tail = this.buffer.slice(lastBreak + 1)
+		if (lastBreak !== -1 && this.sentinel.startsWith(tail.slice(0, this.sentinel.length))) {
+			this.emit(lastBreak)
+		} else {
+			this.emit(this.buffer.length)
+		}
+		return undefined
+	}
+
+	/**
+	 * Pass on whatever is held back, e.g. when the shell exited
+	 */
+	flush(): void {
+		this.emit(this.buffer.length)
+	}
+
+	private emit(end: number): void {
+		const text = this.buffer.slice(0, end)
+		this.buffer = this.buffer.slice(end)
+		if (text) {
+			this.onOutput(text)
+		}
+	}
+}
+
+interface PendingCommand {
+	stdout: SentinelStream
+	stderr: SentinelStream
+	exitCode?: number
+	resolve: (result: ShellCommandResult) => void
+}
+
+/**
+ * One long-lived shell that commands run in one after another
+ *
+ * The shell is started on the first command and again after it exits (e.g. the command ran
+ * `exit`), starting over in the last known working directory.
+ */
+export class CliShellSession {
+	private shell?: ChildProcess
+	private pending?: PendingCommand
+	private readonly sentinel = `__MARIE_COMMAND_DONE_${randomBytes(8).toString("hex")}__`
+
+	constructor(
+		readonly shellPath: string,
+		/** The shell's working directory, updated after each command */
+		public cwd: string,
+		private readonly env: NodeJS.ProcessEnv = process.env,
+	) {}
+
+	get isRunningCommand(): boolean {
+		return !!this.pending
+	}
+
+	/**
+	 * Run a command and wait until it finished
+	 *
+	 * @param onOutput - Receives stdout and stderr as they arrive
+	 * @param cwd - Directory to change to first; by default the command runs where the last one left off
+	 * @throws Error if a command is already running or the shell can't be started
+	 */
+	run(command: string, onOutput: (text: string) => void, cwd?: string): Promise<ShellCommandResult> {
+		if (this.pending) {
+			throw new Error("A command is already running in this shell session")
+		}
+
+		const shell = this.shell ?? this.start()
+		return new Promise<ShellCommandResult>((resolve) => {
+			this.pending = {
+				stdout: new SentinelStream(this.sentinel, onOutput),
+				stderr: new SentinelStream(this.sentinel, onOutput),
+				resolve,
+			}
+			shell.stdin?.write(buildSessionScript(command, this.sentinel, cwd && cwd !== this.cwd ? cwd : undefined))
+		})
+	}
+
+	/**
+	 * Stop the shell and anything still running in it
+	 */
+	dispose(): void {
+		const shell = this.shell
+		if (!shell?.pid) {
+			return
+		}
+		this.shell = undefined
+		try {
+			// The shell leads its own process group, so this reaches the command it is running too
+			process.kill(-shell.pid, "SIGTERM")
+		} catch {
+			shell.kill("SIGTERM")
+		}
+	}
+
+	private start(): ChildProcess {
+		const shell = spawn(this.shellPath, [], {
+			cwd: this.cwd,
+			env: {
+				...this.env,
+				CLINE_ACTIVE: "true",
+			},
+			stdio: ["pipe", "pipe", "pipe"],
+			detached: true,
+		})
+		if (!shell.pid) {
+			throw new Error(`Failed to spawn shell process: ${this.shellPath}`)
+		}
+
+		shell.stdout?.setEncoding("utf8")
+		shell.stderr?.setEncoding("utf8")
+		shell.stdout?.on("data", (text: string) => {
+			const pending = this.pending
+			const trailer = pending?.stdout.push(text)
+			if (pending && trailer !== undefined) {
+				const [exitCode, ...cwd] = trailer.split(" ")
+				pending.exitCode = Number(exitCode)
+				this.cwd = cwd.join(" ") || this.cwd
+				this.completeIfDone()
+			}
+		})
+		shell.stderr?.on("data", (text: string) => {
+			if (this.pending?.stderr.push(text) !== undefined) {
+				this.completeIfDone()
+			}
+		})
+		shell.stdin?.on("error", () => {
+			// The shell exited; its close event finishes the command
+		})
+		shell.on("close", (code, signal) => {
+			if (this.shell === shell) {
+				this.shell = undefined
+			}
+			const pending = this.pending
+			if (pending) {
+				pending.stdout.flush()
+				pending.stderr.flush()
+				this.pending = undefined
+				pending.resolve({ exitCode: code ?? (signal ? 128 : 1), cwd: this.cwd })
+			}
+		})
+
+		this.shell = shell
+		return shell
+	}
+
+	private completeIfDone(): void {
+		const pending = this.pending
+		if (pending?.stdout.done && pending.stderr.done && pending.exitCode !== undefined) {
+			this.pending = undefined
+			pending.resolve({ exitCode: pending.exitCode, cwd: this.cwd })
+		}
+	}
+}
@@ -7,6 +7,7 @@
 import { type ChildProcess, spawn } from "node:child_process"
 import { EventEmitter } from "node:events"
 import * as os from "node:os"
+import { CliShellSession, supportsShellSession } from "./shell_session"
 
 /**
  * CLI-compatible terminal information
@@ -16,26 +17,72 @@ interface CliTerminalInfo {
 	busy: boolean
 	lastCommand: string
 	shellPath: string
+	/** Where the next command runs; follows `cd` in a shell session */
 	cwd: string
 	lastActive: number
 	process?: ChildProcess
+	/** Long-lived shell the commands run in; unset for shells that only run one-off commands */
+	session?: CliShellSession
+	/** Stand-in for the VS Code terminal, which the command service shows before running */
+	terminal: { show: () => void }
 }
 
 /**
  * CLI-compatible terminal process
  * Simplified version of TerminalProcess for CLI environment
+ * Awaiting it waits for the command to finish, like the VS Code TerminalProcess
  */
-class CliTerminalProcess extends EventEmitter {
+class CliTerminalProcess extends EventEmitter implements PromiseLike<void> {
 	private fullOutput: string = ""
 	private lastRetrievedIndex: number = 0
 	isHot: boolean = false
 	private hotTimer: NodeJS.Timeout | null = null
+	private completion: Promise<void> = Promise.resolve()
+	/** Set once the command finished */
+	exitCode?: number
+	/** The shell's working directory after the command, when it runs in a session */
+	cwd?: string
 
 	constructor() {
 		super()
 	}
 
-	async run(terminalInfo: CliTerminalInfo, command: string): Promise<void> {
+	then<TResult1 = void, TResult2 = never>(
+		onfulfilled?: ((value: void) => TResult1 | PromiseLike<TResult1>) | null,
+		onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+	): Promise<TResult1 | TResult2> {
+		return this.completion.then(onfulfilled, onrejected)
+	}
+
+	/**
+	 * Start the command; awaiting the process waits for it
+	 */
+	start(terminalInfo: CliTerminalInfo, command: string): Promise<void> {
+		this.completion = terminalInfo.session
+			? this.runInSession(terminalInfo, terminalInfo.session, command)
+			: this.run(terminalInfo, command)
+		return this.completion
+	}
+
+	private async runInSession(terminalInfo: CliTerminalInfo, session: CliShellSession, command: string): Promise<void> {
+		const result = await session.run(command, (text) => this.handleOutput(text), terminalInfo.cwd)
+		terminalInfo.cwd = result.cwd
+		this.exitCode = result.exitCode
+		this.cwd = result.cwd
+		this.markAsCool()
+		this.emit("completed")
+	}
+
+	private handleOutput(text: string): void {
+		this.fullOutput += text
+		this.emit("line", text)
+		this.markAsHot()
+	}
+
+	/**
+	 * Run the command in a one-off shell, for shells without session support
+	 */
+	private async run(terminalInfo: CliTerminalInfo, command: string): Promise<void> {
 		return new Promise((resolve, reject) => {
 			try {
 				const shell = terminalInfo.shellPath || process.env.SHELL || "/bin/sh"
@@ -76,36 +123,17 @@ class CliTerminalProcess extends EventEmitter {
 					}
 				})
 
-				// Handle process completion
+				// Handle process completion; a failing command still completes, with its exit code
 				proc.on("close", (code: number | null, signal: NodeJS.Signals | null) => {
-					this.isHot = false
-					if (this.hotTimer) {
-						clearTimeout(this.hotTimer)
-						this.hotTimer = null
-					}
-
-					if (signal) {
-						const error = new Error(`Command terminated by signal: ${signal}`)
-						this.emit("error", error)
-						reject(error)
-					} else if (code === 0 || code === null) {
-						this.emit("completed")
-						resolve()
-					} else {
-						const error = new Error(`Command exited with code ${code}`)
-						this.emit("error", error)
-						reject(error)
-					}
+					this.markAsCool()
+					this.exitCode = code ?? (signal ? 128 : 0)
+					this.emit("completed")
+					resolve()
 				})
 
 				// Handle process errors
 				proc.on("error", (error: Error) => {
-					this.isHot = false
-					if (this.hotTimer) {
-						clearTimeout(this.hotTimer)
-						this.hotTimer = null
-					}
-					this.emit("error", error)
+					this.markAsCool()
 					reject(error)
 				})
 
@@ -119,6 +147,14 @@ class CliTerminalProcess extends EventEmitter {
 		})
 	}
 
+	private markAsCool(): void {
+		this.isHot = false
+		if (this.hotTimer) {
+			clearTimeout(this.hotTimer)
+			this.hotTimer = null
+		}
+	}
+
 	private markAsHot(): void {
 		this.isHot = true
 		if (this.hotTimer) {
@@ -149,15 +185,21 @@ export class CliTerminalManager {
 	private terminals: Map<number, CliTerminalInfo> = new Map()
 	private processes: Map<number, CliTerminalProcess> = new Map()
 	private nextTerminalId: number = 1
-	private terminalReuseEnabled: boolean = true
+	private terminalReuseEnabled: boolean
 	private terminalOutputLineLimit: number = 500
 
-	constructor() {
-		// No VSCode dependencies needed
+	/**
+	 * @param terminalReuseOverride - Reuse setting from the CLI's flags or config, which wins over
+	 * the saved setting tasks pass in, without changing it
+	 */
+	constructor(private readonly terminalReuseOverride?: boolean) {
+		this.terminalReuseEnabled = terminalReuseOverride ?? true
 	}
 
 	/**
 	 * Get or create a terminal for the given working directory
+	 * With reuse enabled, an idle shell session is reused where its last command left it, so
+	 * `cd`, `export` and `source` carry over between commands
 	 */
 	async getOrCreateTerminal(cwd: string): Promise<CliTerminalInfo> {
 		const shellPath = this.getDefaultShell()
@@ -174,7 +216,9 @@ export class CliTerminalManager {
 		if (this.terminalReuseEnabled) {
 			for (const terminal of this.terminals.values()) {
 				if (!terminal.busy && terminal.shellPath === shellPath) {
-					terminal.cwd = cwd
+					if (!terminal.session) {
+						terminal.cwd = cwd
+					}
 					terminal.lastActive = Date.now()
 					return terminal
 				}
@@ -189,6 +233,8 @@ export class CliTerminalManager {
 			shellPath,
 			cwd,
 			lastActive: Date.now(),
+			session: supportsShellSession(shellPath) ? new CliShellSession(shellPath, cwd) : undefined,
+			terminal: { show: () => {} },
 		}
 
 		this.terminals.set(terminalInfo.id, terminalInfo)
@@ -207,12 +253,10 @@ export class CliTerminalManager {
 
 		this.processes.set(terminalInfo.id, process)
 
-		// Run the process asynchronously
+		// Run the process asynchronously; failures reach whoever awaits the process
 		process
-			.run(terminalInfo, command)
-			.catch(() => {
-				// Error is already emitted via EventEmitter
-			})
+			.start(terminalInfo, command)
+			.catch(() => {})
 			.finally(() => {
 				terminalInfo.busy = false
 				terminalInfo.lastActive = Date.now()
@@ -257,6 +301,7 @@ export class CliTerminalManager {
 	 */
 	disposeAll(): void {
 		for (const terminal of this.terminals.values()) {
+			terminal.session?.dispose()
 			if (terminal.process) {
 				try {
 					// Try graceful termination first
@@ -289,7 +334,7 @@ export class CliTerminalManager {
 	 * Enable or disable terminal reuse
 	 */
 	setTerminalReuseEnabled(enabled: boolean): void {
-		this.terminalReuseEnabled = enabled
+		this.terminalReuseEnabled = this.terminalReuseOverride ?? enabled
 	}
 
 	/**
@@ -359,6 +404,7 @@ export class CliTerminalManager {
 			if (terminal.process) {
 				terminal.process.kill()
 			}
+			terminal.session?.dispose()
 
 			this.terminals.delete(terminal.id)
 			this.processes.delete(terminal.id)
@@ -1,4 +1,5 @@
 import * as vscode from "vscode"
+import { disposeSessionLockManager } from "./core/locks/session_locks"
 import { WebviewProvider } from "./core/webview"
 import { Logger } from "./services/logging/Logger"
 import "./utils/path" // necessary to have access to String.prototype.toPosix
@@ -77,4 +78,7 @@ export async function tearDown(): Promise<void> {
 
 	// Dispose all webview instances
 	await WebviewProvider.disposeAllInstances()
+
+	// Release file locks so other instances can edit those files right away
+	disposeSessionLockManager()
 }
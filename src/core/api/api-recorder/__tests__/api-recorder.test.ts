@@ -0,0 +1,141 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { describe, it } from "mocha"
+import "should"
+import type { ApiHandler } from "../../api_service"
+import { ProviderCategory, ProviderStatus } from "../../registry/provider-metadata"
+import type { ApiStream, ApiStreamChunk } from "../../transform/stream"
+import { ApiStreamRecorder, RecordingApiHandler } from "../api-recorder"
+import { ApiReplayDivergenceError, ReplayApiHandler } from "../api-replay"
+import type { IFixtureFileHandler } from "../fixture-file-handler"
+import type { ApiStreamFixture } from "../types"
+
+class InMemoryFixtureFileHandler implements IFixtureFileHandler {
+	written?: ApiStreamFixture
+
+	async write(fixture: ApiStreamFixture): Promise<void> {
+		this.written = JSON.parse(JSON.stringify(fixture))
+	}
+}
+
+function fakeHandler(responses: (ApiStreamChunk[] | Error)[]): ApiHandler {
+	let index = 0
+	return {
+		async *createMessage(): ApiStream {
+			const response = responses[index++]
+			if (response instanceof Error) {
+				yield { type: "text", text: "partial" }
+				throw response
+			}
+			for (const chunk of response) {
+				yield chunk
+			}
+		},
+		getModel: () => ({ id: "fake-model", info: { contextWindow: 1000, supportsPromptCache: false } }),
+		getCapabilities: () => ({ streaming: true }),
+		getProviderMetadata: () => ({ providerId: "fake", category: ProviderCategory.AI, status: ProviderStatus.ACTIVE }),
+	}
+}
+
+async function collect(stream: ApiStream): Promise<ApiStreamChunk[]> {
+	const chunks: ApiStreamChunk[] = []
+	for await (const chunk of stream) {
+		chunks.push(chunk)
+	}
+	return chunks
+}
+
+const user = (text: string): Anthropic.Messages.MessageParam => ({ role: "user", content: [{ type: "text", text }] })
+const assistant = (text: string): Anthropic.Messages.MessageParam => ({ role: "assistant", content: text })
+
+describe("RecordingApiHandler", () => {
+	it("should pass chunks through and record them per request", async () => {
+		const recorder = new ApiStreamRecorder(new InMemoryFixtureFileHandler())
+		const handler = new RecordingApiHandler(
+			fakeHandler([
+				[
+					{ type: "text", text: "Hello" },
+					{ type: "usage", inputTokens: 10, outputTokens: 2 },
+				],
+				[{ type: "text", text: "Done" }],
+			]),
+			recorder,
+		)
+
+		const first = await collect(handler.createMessage("system", [user("hi")]))
+		const second = await collect(handler.createMessage("system", [user("hi"), assistant("Hello"), user("next")]))
+
+		first.should.deepEqual([
+			{ type: "text", text: "Hello" },
+			{ type: "usage", inputTokens: 10, outputTokens: 2 },
+		])
+		second.should.deepEqual([{ type: "text", text: "Done" }])
+
+		const fixture = recorder.getFixture()
+		fixture.providerId.should.equal("fake")
+		fixture.model.id.should.equal("fake-model")
+		fixture.requests
+			.map((request) => [request.messageCount, request.lastMessage])
+			.should.deepEqual([
+				[1, "hi"],
+				[3, "next"],
+			])
+		fixture.requests[0].chunks.should.deepEqual(first)
+	})
+
+	it("should record errors and rethrow them", async () => {
+		const recorder = new ApiStreamRecorder(new InMemoryFixtureFileHandler())
+		const handler = new RecordingApiHandler(fakeHandler([new Error("overloaded")]), recorder)
+
+		await collect(handler.createMessage("system", [user("hi")])).should.be.rejectedWith("overloaded")
+
+		const [request] = recorder.getFixture().requests
+		request.chunks.should.deepEqual([{ type: "text", text: "partial" }])
+		request.error!.should.equal("overloaded")
+	})
+})
+
+describe("ReplayApiHandler", () => {
+	async function record(): Promise<ApiStreamFixture> {
+		const recorder = new ApiStreamRecorder(new InMemoryFixtureFileHandler())
+		const handler = new RecordingApiHandler(
+			fakeHandler([[{ type: "text", text: "Hello" }], new Error("overloaded")]),
+			recorder,
+		)
+		await collect(handler.createMessage("system", [user("hi")]))
+		await collect(handler.createMessage("system", [user("hi"), assistant("Hello"), user("next")])).catch(() => {})
+		return JSON.parse(JSON.stringify(recorder.getFixture()))
+	}
+
+	it("should serve recorded chunks and errors in order", async () => {
+		const replay = new ReplayApiHandler(await record())
+
+		replay.getModel().id.should.equal("fake-model")
+		const chunks = await collect(replay.createMessage("different system prompt", [user("hi")]))
+		chunks.should.deepEqual([{ type: "text", text: "Hello" }])
+		replay.isComplete().should.be.false()
+
+		await collect(replay.createMessage("system", [user("hi"), assistant("Hello"), user("next")])).should.be.rejectedWith(
+			"overloaded",
+		)
+		replay.isComplete().should.be.true()
+	})
+
+	it("should fail when the conversation diverges from the recording", async () => {
+		const replay = new ReplayApiHandler(await record())
+
+		await collect(replay.createMessage("system", [user("hi"), assistant("Hello")])).should.be.rejectedWith(
+			ApiReplayDivergenceError,
+		)
+	})
+
+	it("should fail when more requests are made than were recorded", async () => {
+		const fixture = await record()
+		fixture.requests = fixture.requests.slice(0, 1)
+		const replay = new ReplayApiHandler(fixture)
+
+		await collect(replay.createMessage("system", [user("hi")]))
+		await collect(replay.createMessage("system", [user("hi"), assistant("Hello"), user("next")])).should.be.rejectedWith(
+			/Request 2 was not recorded/,
+		)
+	})
+})
@@ -0,0 +1,126 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import type { ApiHandler, ApiHandlerModel, ApiToolDefinition } from "../api_service"
+import type { ProviderCapabilities, ProviderMetadata } from "../registry/provider-metadata"
+import type { ApiStream, ApiStreamChunk, ApiStreamUsageChunk } from "../transform/stream"
+import type { IFixtureFileHandler } from "./fixture-file-handler"
+import type { ApiRecordedRequest, ApiStreamFixture } from "./types"
+
+/**
+ * Collects the requests of a session into a single fixture.
+ *
+ * Responsibilities:
+ * - Records requests in the order they are made, across every handler that shares it.
+ * - Tracks the provider and model of the latest request.
+ * - Persists the fixture asynchronously through a file handler.
+ */
+export class ApiStreamRecorder {
+	private fixture: ApiStreamFixture
+
+	constructor(private fileHandler: IFixtureFileHandler) {
+		this.fixture = {
+			startTime: new Date().toISOString(),
+			providerId: "",
+			model: { id: "", info: {} as ApiHandlerModel["info"] },
+			requests: [],
+		}
+	}
+
+	/**
+	 * Start recording a request made through the given handler
+	 */
+	public startRequest(handler: ApiHandler, messages: Anthropic.Messages.MessageParam[]): ApiRecordedRequest {
+		this.fixture.providerId = handler.getProviderMetadata().providerId
+		this.fixture.model = handler.getModel()
+
+		const request: ApiRecordedRequest = {
+			messageCount: messages.length,
+			lastMessage: lastMessageText(messages),
+			chunks: [],
+		}
+		this.fixture.requests.push(request)
+		return request
+	}
+
+	public getFixture(): ApiStreamFixture {
+		return this.fixture
+	}
+
+	public flushAsync(): void {
+		setImmediate(() => {
+			this.fileHandler.write(this.fixture).catch(() => {
+				// Silently fail - recording is optional
+			})
+		})
+	}
+}
+
+/**
+ * API handler decorator that records every stream chunk the wrapped handler produces.
+ * Requests and chunks pass through unchanged.
+ */
+export class RecordingApiHandler implements ApiHandler {
+	private lastRequest?: ApiRecordedRequest
+
+	constructor(
+		private handler: ApiHandler,
+		private recorder: ApiStreamRecorder,
+	) {}
+
+	async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		tools?: ApiToolDefinition[],
+	): ApiStream {
+		const request = this.recorder.startRequest(this.handler, messages)
+		this.lastRequest = request
+		const startTime = Date.now()
+
+		try {
+			for await (const chunk of this.handler.createMessage(systemPrompt, messages, tools)) {
+				request.chunks.push(structuredClone(chunk) as ApiStreamChunk)
+				yield chunk
+			}
+		} catch (error) {
+			request.error = error instanceof Error ? error.message : String(error)
+			throw error
+		} finally {
+			request.duration = Date.now() - startTime
+			this.recorder.flushAsync()
+		}
+	}
+
+	getModel(): ApiHandlerModel {
+		return this.handler.getModel()
+	}
+
+	getCapabilities(): ProviderCapabilities {
+		return this.handler.getCapabilities()
+	}
+
+	getProviderMetadata(): ProviderMetadata {
+		return this.handler.getProviderMetadata()
+	}
+
+	async getApiStreamUsage(): Promise<ApiStreamUsageChunk | undefined> {
+		const usage = await this.handler.getApiStreamUsage?.()
+		if (usage && this.lastRequest) {
+			this.lastRequest.streamUsage = usage
+			this.recorder.flushAsync()
+		}
+		return usage
+	}
+}
+
+/**
+ * Get the text of the last message, joining its text blocks
+ */
+export function lastMessageText(messages: Anthropic.Messages.MessageParam[]): string {
+	const last = messages[messages.length - 1]
+	if (!last) {
+		return ""
+	}
+	if (typeof last.content === "string") {
+		return last.content
+	}
+	return last.content.map((block) => (block.type === "text" ? block.text : `[${block.type}]`)).join("\n")
+}
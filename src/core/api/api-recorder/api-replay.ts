@@ -0,0 +1,85 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import type { ApiHandler, ApiHandlerModel } from "../api_service"
+import { ProviderCapabilities, ProviderCategory, ProviderMetadata, ProviderStatus } from "../registry/provider-metadata"
+import type { ApiStream, ApiStreamUsageChunk } from "../transform/stream"
+import { lastMessageText } from "./api-recorder"
+import type { ApiRecordedRequest, ApiStreamFixture } from "./types"
+
+/**
+ * Thrown when a replayed task asks for something the fixture didn't record,
+ * which means the task behaved differently than when it was recorded
+ */
+export class ApiReplayDivergenceError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = "ApiReplayDivergenceError"
+	}
+}
+
+/**
+ * API handler that serves the chunks of a recorded fixture instead of calling a model.
+ *
+ * Requests are answered strictly in recorded order. Each request must send the same number of
+ * conversation messages as the recorded one; otherwise tool handling changed and the replay fails.
+ */
+export class ReplayApiHandler implements ApiHandler {
+	private nextRequestIndex = 0
+	private lastRequest?: ApiRecordedRequest
+
+	constructor(private fixture: ApiStreamFixture) {}
+
+	async *createMessage(_systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+		const index = this.nextRequestIndex++
+		const request = this.fixture.requests[index]
+		if (!request) {
+			throw new ApiReplayDivergenceError(
+				`Request ${index + 1} was not recorded (fixture has ${this.fixture.requests.length} requests). Last message: ${lastMessageText(messages)}`,
+			)
+		}
+		if (request.messageCount !== messages.length) {
+			throw new ApiReplayDivergenceError(
+				`Request ${index + 1} sent ${messages.length} messages but ${request.messageCount} were recorded. Last message: ${lastMessageText(messages)}\nRecorded last message: ${request.lastMessage}`,
+			)
+		}
+		this.lastRequest = request
+
+		for (const chunk of request.chunks) {
+			yield chunk
+		}
+		if (request.error) {
+			throw new Error(request.error)
+		}
+	}
+
+	getModel(): ApiHandlerModel {
+		return this.fixture.model
+	}
+
+	getCapabilities(): ProviderCapabilities {
+		return {
+			streaming: true,
+			functionCalling: false,
+			vision: false,
+			caching: false,
+		}
+	}
+
+	getProviderMetadata(): ProviderMetadata {
+		return {
+			providerId: this.fixture.providerId,
+			category: ProviderCategory.AI,
+			status: ProviderStatus.EXPERIMENTAL,
+		}
+	}
+
+	async getApiStreamUsage(): Promise<ApiStreamUsageChunk | undefined> {
+		return this.lastRequest?.streamUsage
+	}
+
+	/**
+	 * Whether every recorded request has been served
+	 */
+	isComplete(): boolean {
+		return this.nextRequestIndex >= this.fixture.requests.length
+	}
+}
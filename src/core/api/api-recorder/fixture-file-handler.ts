@@ -0,0 +1,57 @@
+import { writeFile } from "@utils/fs"
+import { readFileSync } from "fs"
+import fs from "fs/promises"
+import * as path from "path"
+import type { ApiStreamFixture } from "./types"
+
+const FIXTURE_FILE_PREFIX = "api_recorded_session"
+
+export interface IFixtureFileHandler {
+	write(fixture: ApiStreamFixture): Promise<void>
+}
+
+export class FixtureFileHandlerNoops implements IFixtureFileHandler {
+	async write(_fixture: ApiStreamFixture): Promise<void> {}
+}
+
+/**
+ * Default implementation of `IFixtureFileHandler` that persists fixtures to disk.
+ *
+ * - Creates the fixture file inside the workspace `tests/specs/api` folder.
+ * - Uses a timestamped filename by default, unless overridden by an env var.
+ * - Saves fixtures in JSON format.
+ */
+export class FixtureFileHandler implements IFixtureFileHandler {
+	private fixtureFilePath: string
+
+	constructor(fixtureFilePath?: string) {
+		const workspaceFolder = process.env.DEV_WORKSPACE_FOLDER ?? process.cwd()
+		this.fixtureFilePath = fixtureFilePath ?? path.join(workspaceFolder, "tests", "specs", "api", this.getFileName())
+	}
+
+	public getFilePath(): string {
+		return this.fixtureFilePath
+	}
+
+	public getFileName(): string {
+		const envFileName = path.basename(process.env.API_RECORDER_FILE_NAME || "").replace(/[^a-zA-Z0-9-_]/g, "_")
+		if (envFileName && envFileName.trim().length > 0) {
+			return `${FIXTURE_FILE_PREFIX}_${envFileName}.json`
+		}
+
+		const timestamp = new Date().toISOString().replace(/[:.]/g, "-")
+		return `${FIXTURE_FILE_PREFIX}_${timestamp}.json`
+	}
+
+	public async write(fixture: ApiStreamFixture): Promise<void> {
+		await fs.mkdir(path.dirname(this.fixtureFilePath), { recursive: true })
+		await writeFile(this.fixtureFilePath, JSON.stringify(fixture, null, 2), "utf8")
+	}
+}
+
+/**
+ * Read a recorded fixture. Synchronous because API handlers are created synchronously.
+ */
+export function readFixtureSync(fixtureFilePath: string): ApiStreamFixture {
+	return JSON.parse(readFileSync(fixtureFilePath, "utf8")) as ApiStreamFixture
+}
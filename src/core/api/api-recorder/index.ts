@@ -0,0 +1,45 @@
+/**
+ * API Recorder - Record model responses and replay them offline
+ *
+ * Controlled by environment variables (local environment only):
+ * - API_RECORDER_ENABLED=true: record every ApiStream chunk to tests/specs/api/api_recorded_session_<name>.json
+ * - API_RECORDER_FILE_NAME: fixture name to record to (defaults to a timestamp)
+ * - API_REPLAY_FIXTURE: path of a recorded fixture to serve instead of calling the configured provider
+ */
+
+import type { ApiHandler } from "../api_service"
+import { ApiStreamRecorder, RecordingApiHandler } from "./api-recorder"
+import { ReplayApiHandler } from "./api-replay"
+import { FixtureFileHandler, readFixtureSync } from "./fixture-file-handler"
+
+export { ApiStreamRecorder, lastMessageText, RecordingApiHandler } from "./api-recorder"
+export { ApiReplayDivergenceError, ReplayApiHandler } from "./api-replay"
+export { FixtureFileHandler, FixtureFileHandlerNoops, type IFixtureFileHandler, readFixtureSync } from "./fixture-file-handler"
+export type { ApiRecordedRequest, ApiStreamFixture } from "./types"
+
+// Handlers are recreated on every mode or settings change, so the recorder and replay have to outlive them
+let recorder: ApiStreamRecorder | undefined
+let replayHandler: ReplayApiHandler | undefined
+
+/**
+ * Create an API handler, wrapped for recording or replaced by the replay when enabled through the environment.
+ * The provider isn't created at all during replay, so no credentials are needed.
+ */
+export function withApiRecorder(createHandler: () => ApiHandler): ApiHandler {
+	if (process.env.CLINE_ENVIRONMENT !== "local") {
+		return createHandler()
+	}
+
+	const fixturePath = process.env.API_REPLAY_FIXTURE
+	if (fixturePath) {
+		replayHandler ??= new ReplayApiHandler(readFixtureSync(fixturePath))
+		return replayHandler
+	}
+
+	if (process.env.API_RECORDER_ENABLED === "true") {
+		recorder ??= new ApiStreamRecorder(new FixtureFileHandler())
+		return new RecordingApiHandler(createHandler(), recorder)
+	}
+
+	return createHandler()
+}
@@ -0,0 +1,21 @@
+import type { ApiHandlerModel } from "../api_service"
+import type { ApiStreamChunk, ApiStreamUsageChunk } from "../transform/stream"
+
+export interface ApiRecordedRequest {
+	// Number of conversation messages sent with the request, used to detect when a replay diverges
+	messageCount: number
+	// Text of the last message sent, to make fixtures readable when diffing them
+	lastMessage: string
+	chunks: ApiStreamChunk[]
+	error?: string
+	// Usage reported after the stream ended, for providers that look it up separately
+	streamUsage?: ApiStreamUsageChunk
+	duration?: number
+}
+
+export interface ApiStreamFixture {
+	startTime: string
+	providerId: string
+	model: ApiHandlerModel
+	requests: ApiRecordedRequest[]
+}
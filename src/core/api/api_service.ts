@@ -1,6 +1,7 @@
 import { Anthropic } from "@anthropic-ai/sdk"
 import { ApiConfiguration, ModelInfo } from "@shared/api"
 import { Mode } from "@shared/storage/types"
+import { withApiRecorder } from "./api-recorder"
 import { simpleRegistry } from "./registry/enhanced-registrations"
 import { ProviderCapabilities, ProviderMetadata } from "./registry/provider-metadata"
 import { ErrorService } from "./services/error-service"
@@ -13,11 +14,25 @@ export type ApiHandlerOptions = {
 	onRetryAttempt?: ApiConfiguration["onRetryAttempt"]
 }
 
+/**
+ * Tool definition sent to providers that support native tool calling
+ * Mirrors Anthropic's tool schema; OpenAI-style providers wrap it as a function
+ */
+export interface ApiToolDefinition {
+	name: string
+	description: string
+	input_schema: {
+		type: "object"
+		properties: Record<string, { type: "string"; description?: string }>
+		required?: string[]
+	}
+}
+
 /**
  * API handler interface for message streaming
  */
 export interface ApiHandler {
-	createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream
+	createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[], tools?: ApiToolDefinition[]): ApiStream
 	getModel(): ApiHandlerModel
 	getCapabilities(): ProviderCapabilities
 	getProviderMetadata(): ProviderMetadata
@@ -56,7 +71,8 @@ export class ApiService {
 	static createHandler(configuration: ApiConfiguration, mode: Mode, options: ApiHandlerOptions = {}): ApiHandler {
 		try {
 			const providerId = ApiService.determineProviderId(configuration, mode)
-			return ApiService.createHandlerForProvider(providerId, configuration, mode, options)
+			// Record or replay model responses when enabled for local test runs
+			return withApiRecorder(() => ApiService.createHandlerForProvider(providerId, configuration, mode, options))
 		} catch (error) {
 			const apiError = ErrorService.parseError(error)
 			ErrorService.logError(apiError, "ApiService.createHandler")
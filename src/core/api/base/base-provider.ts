@@ -1,5 +1,5 @@
 import { ModelInfo } from "@shared/api"
-import { ApiHandler, ApiHandlerModel, ApiHandlerOptions } from "../index"
+import { ApiHandler, ApiHandlerModel, ApiHandlerOptions, ApiToolDefinition } from "../index"
 import { ProviderCapabilities, ProviderCategory, ProviderMetadata, ProviderStatus } from "../registry/provider-metadata"
 import { ApiStream } from "../transform/stream"
 
@@ -37,7 +37,7 @@ export abstract class BaseProvider implements ApiHandler {
 	/**
 	 * Abstract method to create the message stream
 	 */
-	abstract createMessage(systemPrompt: string, messages: any[]): ApiStream
+	abstract createMessage(systemPrompt: string, messages: any[], tools?: ApiToolDefinition[]): ApiStream
 
 	/**
 	 * Get the model handler
@@ -0,0 +1,66 @@
+import type { Anthropic } from "@anthropic-ai/sdk"
+import { describe, it } from "mocha"
+import "should"
+import type { ApiStreamChunk } from "../../../transform/stream"
+import { AnthropicProvider } from "../anthropic"
+import { OpenRouterProvider } from "../openrouter"
+
+async function collect(events: Partial<Anthropic.RawMessageStreamEvent>[]): Promise<ApiStreamChunk[]> {
+	async function* toStream() {
+		for (const event of events) {
+			yield event
+		}
+	}
+	const provider = new AnthropicProvider({ apiKey: "test-key" })
+	const result: ApiStreamChunk[] = []
+	// processAnthropicStream is private; the stream events are all it depends on
+	for await (const chunk of (provider as any).processAnthropicStream(toStream())) {
+		result.push(chunk)
+	}
+	return result
+}
+
+describe("AnthropicProvider", () => {
+	it("should assemble streamed tool input into tool_use chunks", async () => {
+		const chunks = await collect([
+			{ type: "content_block_start", index: 0, content_block: { type: "text", text: "", citations: null } },
+			{ type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Reading." } },
+			{ type: "content_block_stop", index: 0 },
+			{
+				type: "content_block_start",
+				index: 1,
+				content_block: { type: "tool_use", id: "toolu_1", name: "read_file", input: {} },
+			},
+			{ type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: '{"path":' } },
+			{ type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: '"src/a.ts"}' } },
+			{ type: "content_block_stop", index: 1 },
+			{
+				type: "content_block_start",
+				index: 2,
+				content_block: { type: "tool_use", id: "toolu_2", name: "list_files", input: {} },
+			},
+			{ type: "content_block_stop", index: 2 },
+		])
+
+		chunks.should.deepEqual([
+			{ type: "text", text: "Reading." },
+			{ type: "tool_use", id: "toolu_1", name: "read_file", input: { path: "src/a.ts" } },
+			{ type: "tool_use", id: "toolu_2", name: "list_files", input: {} },
+		])
+	})
+})
+
+describe("OpenRouterProvider", () => {
+	it("should only call tools natively for models that support tools", () => {
+		const capabilities = (supportsNativeTools?: boolean) =>
+			new OpenRouterProvider({
+				openRouterApiKey: "test-key",
+				openRouterModelId: "some/model",
+				openRouterModelInfo: { supportsPromptCache: false, supportsNativeTools },
+			}).getCapabilities()
+
+		capabilities(true).nativeToolCalls!.should.be.true()
+		capabilities(false).nativeToolCalls!.should.be.false()
+		capabilities(undefined).nativeToolCalls!.should.be.false()
+	})
+})
@@ -1,9 +1,12 @@
 import { Anthropic } from "@anthropic-ai/sdk"
 import { Stream as AnthropicStream } from "@anthropic-ai/sdk/streaming"
 import { AnthropicModelId, anthropicDefaultModelId, anthropicModels, CLAUDE_SONNET_1M_SUFFIX, ModelInfo } from "@shared/api"
+import type { ApiToolDefinition } from "../../api_service"
 import { BaseProvider, BaseProviderOptions } from "../../base/base-provider"
+import { ProviderCapabilities } from "../../registry/provider-metadata"
 import { withRetry } from "../../retry"
 import { ErrorService } from "../../services/error-service"
+import { parseToolArguments } from "../../transform/openai-compatible-stream"
 import { ApiStream } from "../../transform/stream"
 
 /**
@@ -65,11 +68,24 @@ export class AnthropicProvider extends BaseProvider {
 		return anthropicDefaultModelId
 	}
 
+	/**
+	 * Claude models accept tool definitions and stream tool_use content blocks
+	 */
+	override getCapabilities(): ProviderCapabilities {
+		return {
+			streaming: true,
+			functionCalling: true,
+			nativeToolCalls: true,
+			vision: this.getModelInfo().supportsImages ?? false,
+			caching: this.getModelInfo().supportsPromptCache ?? false,
+		}
+	}
+
 	/**
 	 * Create message stream with retry logic
 	 */
 	@withRetry()
-	async *createMessage(systemPrompt: string, messages: any[]): ApiStream {
+	async *createMessage(systemPrompt: string, messages: any[], tools?: ApiToolDefinition[]): ApiStream {
 		try {
 			const client = this.ensureClient()
 			const model = this.getModel()
@@ -84,6 +100,7 @@ export class AnthropicProvider extends BaseProvider {
 				messages,
 				reasoningOn,
 				enable1mContextWindow,
+				tools,
 			)
 
 			yield* this.processAnthropicStream(stream)
@@ -117,17 +134,18 @@ export class AnthropicProvider extends BaseProvider {
 		messages: any[],
 		reasoningOn: boolean,
 		_enable1mContextWindow: boolean,
+		tools?: ApiToolDefinition[],
 	): Promise<AnthropicStream<Anthropic.RawMessageStreamEvent>> {
 		const model = this.getModel()
 		const budget_tokens = this.anthropicOptions.thinkingBudgetTokens || 0
 
 		// Handle cache-enabled models
 		if (this.supportsCache(modelId)) {
-			return this.createCachedStream(client, modelId, systemPrompt, messages, reasoningOn, budget_tokens, model)
+			return this.createCachedStream(client, modelId, systemPrompt, messages, reasoningOn, budget_tokens, model, tools)
 		}
 
 		// Handle standard models
-		return this.createStandardStream(client, modelId, systemPrompt, messages, reasoningOn, budget_tokens, model)
+		return this.createStandardStream(client, modelId, systemPrompt, messages, reasoningOn, budget_tokens, model, tools)
 	}
 
 	/**
@@ -159,6 +177,7 @@ export class AnthropicProvider extends BaseProvider {
 		reasoningOn: boolean,
 		budget_tokens: number,
 		model: any,
+		tools?: ApiToolDefinition[],
 	): Promise<AnthropicStream<Anthropic.RawMessageStreamEvent>> {
 		const userMsgIndices: number[] = []
 		messages.forEach((msg, index) => {
@@ -199,6 +218,7 @@ export class AnthropicProvider extends BaseProvider {
 				}
 				return message
 			}),
+			...(tools?.length ? { tools } : {}),
 			stream: true,
 		})
 	}
@@ -214,6 +234,7 @@ export class AnthropicProvider extends BaseProvider {
 		reasoningOn: boolean,
 		budget_tokens: number,
 		model: any,
+		tools?: ApiToolDefinition[],
 	): Promise<AnthropicStream<Anthropic.RawMessageStreamEvent>> {
 		return await client.messages.create({
 			model: modelId,
@@ -222,6 +243,7 @@ export class AnthropicProvider extends BaseProvider {
 			temperature: reasoningOn ? undefined : 0,
 			system: systemPrompt,
 			messages: messages,
+			...(tools?.length ? { tools } : {}),
 			stream: true,
 		})
 	}
@@ -230,12 +252,31 @@ export class AnthropicProvider extends BaseProvider {
 	 * Process Anthropic stream and yield standardized chunks
 	 */
 	private async *processAnthropicStream(stream: AnthropicStream<Anthropic.RawMessageStreamEvent>): ApiStream {
+		// Tool input arrives as partial JSON, keyed by content block index
+		const pendingToolUses = new Map<number, { id: string; name: string; json: string }>()
+
 		for await (const chunk of stream) {
 			if (chunk.type === "content_block_delta" && chunk.delta.type === "text_delta") {
 				yield {
 					type: "text",
 					text: chunk.delta.text,
 				}
+			} else if (chunk.type === "content_block_start" && chunk.content_block.type === "tool_use") {
+				pendingToolUses.set(chunk.index, { id: chunk.content_block.id, name: chunk.content_block.name, json: "" })
+			} else if (chunk.type === "content_block_delta" && chunk.delta.type === "input_json_delta") {
+				const pending = pendingToolUses.get(chunk.index)
+				if (pending) {
+					pending.json += chunk.delta.partial_json
+				}
+			} else if (chunk.type === "content_block_stop" && pendingToolUses.has(chunk.index)) {
+				const { id, name, json } = pendingToolUses.get(chunk.index)!
+				pendingToolUses.delete(chunk.index)
+				yield {
+					type: "tool_use",
+					id,
+					name,
+					input: parseToolArguments(json),
+				}
 			} else if (chunk.type === "message_stop") {
 				// Handle usage information if available
 				if ("usage" in chunk && chunk.usage) {
@@ -0,0 +1,150 @@
+import type { Anthropic } from "@anthropic-ai/sdk"
+import { ModelInfo, ollamaDefaultContextWindow, openAiModelInfoSaneDefaults } from "@shared/api"
+import { HttpProvider, HttpProviderOptions } from "../../base/http-provider"
+import { withRetry } from "../../retry"
+import { ErrorService } from "../../services/error-service"
+import { convertToOllamaMessages, processOllamaStream } from "../../transform/ollama-stream"
+import type { ApiStream } from "../../transform/stream"
+
+/**
+ * Ollama-specific provider options
+ */
+interface OllamaProviderOptions extends HttpProviderOptions {
+	ollamaBaseUrl?: string
+	ollamaApiKey?: string
+	ollamaModelId?: string
+	ollamaApiOptionsCtxNum?: string
+}
+
+/**
+ * Resolved connection settings used for each request
+ */
+interface OllamaClient {
+	baseURL: string
+	timeout: number
+	headers: Record<string, string>
+}
+
+/**
+ * Ollama provider for local model inference via the native /api/chat endpoint
+ * Follows MarieCoder standards: clean, self-documenting, type-safe
+ */
+export class OllamaProvider extends HttpProvider {
+	private ollamaOptions: OllamaProviderOptions
+
+	constructor(options: OllamaProviderOptions) {
+		super({
+			...options,
+			baseUrl: options.ollamaBaseUrl || "http://localhost:11434",
+			apiKey: options.ollamaApiKey,
+			// Models are loaded before the first byte is sent, so allow more than the HTTP default
+			timeout: options.requestTimeoutMs || 120_000,
+		})
+		this.ollamaOptions = options
+	}
+
+	/**
+	 * Ollama is called with fetch, so the "client" is just the resolved connection settings
+	 */
+	protected override createHttpClient(config: any): OllamaClient {
+		return {
+			baseURL: config.baseURL.endsWith("/") ? config.baseURL : `${config.baseURL}/`,
+			timeout: config.timeout,
+			headers: config.headers,
+		}
+	}
+
+	/**
+	 * Process the NDJSON body returned by /api/chat
+	 */
+	protected override processStreamResponse(response: Response): ApiStream {
+		if (!response.body) {
+			throw new Error("Ollama returned an empty response body")
+		}
+		// Node's fetch body is async iterable, but the DOM typings don't declare it
+		return processOllamaStream(response.body as unknown as AsyncIterable<Uint8Array>)
+	}
+
+	/**
+	 * Get provider ID
+	 */
+	protected override getProviderId(): string {
+		return "ollama"
+	}
+
+	/**
+	 * Get model information with the configured context window
+	 */
+	protected override getModelInfo(): ModelInfo {
+		return {
+			...openAiModelInfoSaneDefaults,
+			contextWindow: this.getContextWindow(),
+		}
+	}
+
+	/**
+	 * Get default model ID
+	 */
+	protected override getDefaultModelId(): string {
+		return this.ollamaOptions.ollamaModelId || ""
+	}
+
+	/**
+	 * Create message stream with retry logic
+	 */
+	@withRetry({ retryAllErrors: true })
+	async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+		const client = this.ensureClient() as OllamaClient
+		const model = this.getModel()
+
+		// Only guard the connection phase; generation on local hardware can legitimately take minutes
+		const controller = new AbortController()
+		const timer = setTimeout(() => controller.abort(new Error(`timeout after ${client.timeout}ms`)), client.timeout)
+
+		let response: Response
+		try {
+			response = await fetch(new URL("api/chat", client.baseURL), {
+				method: "POST",
+				headers: client.headers,
+				signal: controller.signal,
+				body: JSON.stringify({
+					model: model.id,
+					messages: convertToOllamaMessages(systemPrompt, messages),
+					stream: true,
+					options: {
+						num_ctx: this.getContextWindow(),
+					},
+				}),
+			})
+		} catch (error) {
+			throw ErrorService.parseError(error, "ollama")
+		} finally {
+			clearTimeout(timer)
+		}
+
+		if (!response.ok) {
+			const body = await response.text().catch(() => "")
+			let message = body || response.statusText
+			try {
+				message = JSON.parse(body).error || message
+			} catch {
+				// Plain-text error body
+			}
+			throw ErrorService.parseError({ status: response.status, message }, "ollama")
+		}
+
+		try {
+			yield* this.processStreamResponse(response)
+		} catch (error) {
+			throw ErrorService.parseError(error, "ollama")
+		}
+	}
+
+	/**
+	 * Context window sent as num_ctx, from settings or the default
+	 */
+	private getContextWindow(): number {
+		const configured = Number(this.ollamaOptions.ollamaApiOptionsCtxNum)
+		return !Number.isNaN(configured) && configured > 0 ? configured : ollamaDefaultContextWindow
+	}
+}
@@ -0,0 +1,119 @@
+import type { Anthropic } from "@anthropic-ai/sdk"
+import { OpenAiCompatibleModelInfo, openAiModelInfoSaneDefaults } from "@shared/api"
+import OpenAI from "openai"
+import { BaseProvider, BaseProviderOptions } from "../../base/base-provider"
+import { ProviderCapabilities } from "../../registry/provider-metadata"
+import { withRetry } from "../../retry"
+import { ErrorService } from "../../services/error-service"
+import { processOpenAiCompatibleStream } from "../../transform/openai-compatible-stream"
+import type { ApiStream } from "../../transform/stream"
+import { convertToOpenAiMessages, convertToR1Format } from "../../utils/message-transformers"
+
+/**
+ * OpenAI-compatible provider options
+ */
+interface OpenAiCompatibleProviderOptions extends BaseProviderOptions {
+	openAiBaseUrl?: string
+	openAiApiKey?: string
+	openAiHeaders?: Record<string, string>
+	openAiModelId?: string
+	openAiModelInfo?: OpenAiCompatibleModelInfo
+}
+
+/**
+ * Provider for self-hosted servers exposing /v1/chat/completions (vLLM, llama.cpp, TGI, ...)
+ * Follows MarieCoder standards: clean, self-documenting, type-safe
+ */
+export class OpenAiCompatibleProvider extends BaseProvider {
+	private openAiOptions: OpenAiCompatibleProviderOptions
+
+	constructor(options: OpenAiCompatibleProviderOptions) {
+		super(options)
+		this.openAiOptions = options
+		this.validateRequiredOptions(["openAiBaseUrl"])
+	}
+
+	/**
+	 * Create OpenAI client pointed at the configured endpoint
+	 */
+	protected override createClient(): OpenAI {
+		try {
+			// Most self-hosted servers don't check the key, so without one no Authorization header is sent
+			const apiKey = this.openAiOptions.openAiApiKey
+			return new OpenAI({
+				baseURL: this.openAiOptions.openAiBaseUrl!,
+				apiKey: apiKey || "noop",
+				defaultHeaders: apiKey
+					? this.openAiOptions.openAiHeaders
+					: { ...this.openAiOptions.openAiHeaders, Authorization: null },
+				timeout: this.openAiOptions.requestTimeoutMs,
+			})
+		} catch (error) {
+			throw ErrorService.parseError(error, "openai-compatible")
+		}
+	}
+
+	/**
+	 * Get provider ID
+	 */
+	protected override getProviderId(): string {
+		return "openai-compatible"
+	}
+
+	/**
+	 * Get model information, falling back to sane defaults for unknown local models
+	 */
+	protected override getModelInfo(): OpenAiCompatibleModelInfo {
+		return this.openAiOptions.openAiModelInfo || openAiModelInfoSaneDefaults
+	}
+
+	/**
+	 * Get default model ID
+	 */
+	protected override getDefaultModelId(): string {
+		return this.openAiOptions.openAiModelId || ""
+	}
+
+	/**
+	 * Native tool calls are translated into XML tool use by the stream transform
+	 */
+	override getCapabilities(): ProviderCapabilities {
+		return {
+			streaming: true,
+			functionCalling: true,
+			vision: this.getModelInfo().supportsImages ?? false,
+			caching: false,
+		}
+	}
+
+	/**
+	 * Create message stream with retry logic
+	 */
+	@withRetry()
+	async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+		try {
+			const client = this.ensureClient() as OpenAI
+			const model = this.getModel()
+			const modelInfo = this.getModelInfo()
+
+			const openAiMessages: OpenAI.Chat.ChatCompletionMessageParam[] = modelInfo.isR1FormatRequired
+				? convertToR1Format([{ role: "user", content: systemPrompt }, ...messages])
+				: [{ role: "system", content: systemPrompt }, ...convertToOpenAiMessages(messages)]
+
+			const maxTokens = modelInfo.maxTokens && modelInfo.maxTokens > 0 ? modelInfo.maxTokens : undefined
+
+			const stream = await client.chat.completions.create({
+				model: model.id,
+				messages: openAiMessages,
+				temperature: modelInfo.temperature ?? openAiModelInfoSaneDefaults.temperature,
+				max_tokens: maxTokens,
+				stream: true,
+				stream_options: { include_usage: true },
+			})
+
+			yield* processOpenAiCompatibleStream(stream)
+		} catch (error) {
+			throw ErrorService.parseError(error, "openai-compatible")
+		}
+	}
+}
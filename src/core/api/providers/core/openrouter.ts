@@ -1,10 +1,13 @@
 import { ModelInfo, openRouterDefaultModelId, openRouterDefaultModelInfo } from "@shared/api"
 import OpenAI from "openai"
+import type { ApiToolDefinition } from "../../api_service"
 import { HttpProvider, HttpProviderOptions } from "../../base/http-provider"
+import { ProviderCapabilities } from "../../registry/provider-metadata"
 import { withRetry } from "../../retry"
 import { ErrorService } from "../../services/error-service"
+import { parseToolArguments, ToolCallTranslator } from "../../transform/openai-compatible-stream"
 import { createOpenRouterStream } from "../../transform/openrouter-stream"
-import { ApiStream, ApiStreamUsageChunk } from "../../transform/stream"
+import { ApiStream, ApiStreamChunk, ApiStreamUsageChunk } from "../../transform/stream"
 import { OpenRouterErrorResponse } from "../shared"
 
 /**
@@ -70,6 +73,21 @@ export class OpenRouterProvider extends HttpProvider {
 		return "openrouter"
 	}
 
+	/**
+	 * OpenRouter forwards OpenAI-style tool definitions, but only to models that list "tools"
+	 * among their supported parameters
+	 */
+	override getCapabilities(): ProviderCapabilities {
+		const supportsNativeTools = this.getModelInfo().supportsNativeTools ?? false
+		return {
+			streaming: true,
+			functionCalling: supportsNativeTools,
+			nativeToolCalls: supportsNativeTools,
+			vision: this.getModelInfo().supportsImages ?? false,
+			caching: false,
+		}
+	}
+
 	/**
 	 * Get model information
 	 */
@@ -88,10 +106,11 @@ export class OpenRouterProvider extends HttpProvider {
 	 * Create message stream with retry logic
 	 */
 	@withRetry()
-	async *createMessage(systemPrompt: string, messages: any[]): ApiStream {
+	async *createMessage(systemPrompt: string, messages: any[], tools?: ApiToolDefinition[]): ApiStream {
 		try {
 			const client = this.ensureClient()
 			this.lastGenerationId = undefined
+			const toolCalls = new ToolCallTranslator()
 
 			const stream = await createOpenRouterStream(
 				client,
@@ -101,6 +120,7 @@ export class OpenRouterProvider extends HttpProvider {
 				this.openRouterOptions.reasoningEffort,
 				this.openRouterOptions.thinkingBudgetTokens,
 				this.openRouterOptions.openRouterProviderSorting,
+				tools,
 			)
 
 			let didOutputUsage: boolean = false
@@ -151,6 +171,14 @@ export class OpenRouterProvider extends HttpProvider {
 					}
 				}
 
+				// Collect native tool calls and emit them once the model finishes the turn
+				for (const toolCallDelta of choice?.delta?.tool_calls ?? []) {
+					toolCalls.push(toolCallDelta)
+				}
+				if (choice?.finish_reason && toolCalls.hasPending()) {
+					yield* this.flushToolCalls(toolCalls)
+				}
+
 				// Handle usage information (only output once)
 				if (chunk.usage && !didOutputUsage) {
 					didOutputUsage = true
@@ -167,11 +195,30 @@ export class OpenRouterProvider extends HttpProvider {
 					this.lastGenerationId = chunk.id
 				}
 			}
+
+			// Some upstream providers close the stream without a finish_reason
+			if (toolCalls.hasPending()) {
+				yield* this.flushToolCalls(toolCalls)
+			}
 		} catch (error) {
 			throw ErrorService.parseError(error, "openrouter")
 		}
 	}
 
+	/**
+	 * Yield completed tool calls as tool_use chunks
+	 */
+	private *flushToolCalls(toolCalls: ToolCallTranslator): Generator<ApiStreamChunk> {
+		for (const [index, call] of toolCalls.flushCalls().entries()) {
+			yield {
+				type: "tool_use",
+				id: call.id || `call_${Date.now()}_${index}`,
+				name: call.name,
+				input: parseToolArguments(call.arguments),
+			}
+		}
+	}
+
 	/**
 	 * Get API stream usage (for cost tracking)
 	 * Uses OpenRouter's generation API to fetch usage data
@@ -1,11 +1,13 @@
 import { AnthropicProvider } from "../../providers/core/anthropic"
 import { LmStudioProvider } from "../../providers/core/lmstudio"
+import { OllamaProvider } from "../../providers/core/ollama"
+import { OpenAiCompatibleProvider } from "../../providers/core/openai-compatible"
 import { OpenRouterProvider } from "../../providers/core/openrouter"
 import { simpleRegistry } from "../simple_registry"
 
 /**
  * Register Supported Providers
- * Anthropic, OpenRouter, and LMStudio
+ * Anthropic, OpenRouter, LMStudio, Ollama, and OpenAI-compatible servers
  * Follows MarieCoder standards: clean, intentional additions
  */
 
@@ -30,5 +32,19 @@ simpleRegistry.register({
 	requiredFields: [], // No API key required for local server
 })
 
+// Register generic OpenAI-compatible endpoints (vLLM, llama.cpp, ...)
+simpleRegistry.register({
+	providerId: "openai-compatible",
+	handlerClass: OpenAiCompatibleProvider,
+	requiredFields: ["openAiBaseUrl"], // API key is optional for self-hosted servers
+})
+
+// Register Ollama (local server)
+simpleRegistry.register({
+	providerId: "ollama",
+	handlerClass: OllamaProvider,
+	requiredFields: [], // Defaults to http://localhost:11434 and needs no API key
+})
+
 // Export for use
 export { simpleRegistry }
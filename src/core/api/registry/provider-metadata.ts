@@ -28,6 +28,7 @@ export enum ProviderStatus {
 export interface ProviderCapabilities {
 	streaming: boolean
 	functionCalling?: boolean
+	nativeToolCalls?: boolean // accepts tool definitions in createMessage and yields tool_use chunks
 	vision?: boolean
 	caching?: boolean
 }
@@ -1,15 +1,15 @@
-import { ApiConfiguration } from "@shared/api"
+import { ApiConfiguration, ApiProvider } from "@shared/api"
 import { Mode } from "@shared/storage/types"
 import type { ApiHandler, ApiHandlerOptions } from "../index"
 
 /**
  * Simple Provider Registry
- * Supports Anthropic, OpenRouter, and LMStudio
+ * Supports Anthropic, OpenRouter, LMStudio, Ollama, and generic OpenAI-compatible servers
  * Follows MarieCoder standards: clean, intentional additions
  */
 
 export interface ProviderConfig {
-	providerId: "anthropic" | "openrouter" | "lmstudio"
+	providerId: ApiProvider
 	handlerClass: new (options: any) => ApiHandler
 	requiredFields: string[]
 }
@@ -32,14 +32,14 @@ class SimpleProviderRegistry {
 	 * Get all supported provider IDs
 	 */
 	getSupportedProviders(): string[] {
-		return ["anthropic", "openrouter", "lmstudio"]
+		return ["anthropic", "openrouter", "lmstudio", "openai-compatible", "ollama"]
 	}
 
 	/**
 	 * Check if provider is supported
 	 */
 	isSupported(providerId: string): boolean {
-		return providerId === "anthropic" || providerId === "openrouter" || providerId === "lmstudio"
+		return this.getSupportedProviders().includes(providerId)
 	}
 
 	/**
@@ -47,7 +47,9 @@ class SimpleProviderRegistry {
 	 */
 	createHandler(providerId: string, configuration: ApiConfiguration, mode: Mode, options: ApiHandlerOptions): ApiHandler {
 		if (!this.isSupported(providerId)) {
-			throw new Error(`Unsupported provider: ${providerId}. Only 'anthropic', 'openrouter', and 'lmstudio' are supported.`)
+			throw new Error(
+				`Unsupported provider: ${providerId}. Only 'anthropic', 'openrouter', 'lmstudio', 'openai-compatible', and 'ollama' are supported.`,
+			)
 		}
 
 		const config = this.providers.get(providerId)
@@ -122,6 +124,19 @@ class SimpleProviderRegistry {
 			options.lmStudioMaxTokens = configuration.lmStudioMaxTokens
 			options.planModeLmStudioModelId = configuration.planModeLmStudioModelId
 			options.actModeLmStudioModelId = configuration.actModeLmStudioModelId
+		} else if (providerId === "openai-compatible") {
+			options.openAiBaseUrl = configuration.openAiBaseUrl
+			options.openAiApiKey = configuration.openAiApiKey
+			options.openAiHeaders = configuration.openAiHeaders
+			options.openAiModelId = getModeValue("openAiModelId")
+			options.openAiModelInfo = getModeValue("openAiModelInfo")
+			options.requestTimeoutMs = configuration.requestTimeoutMs
+		} else if (providerId === "ollama") {
+			options.ollamaBaseUrl = configuration.ollamaBaseUrl
+			options.ollamaApiKey = configuration.ollamaApiKey
+			options.ollamaModelId = getModeValue("ollamaModelId")
+			options.ollamaApiOptionsCtxNum = configuration.ollamaApiOptionsCtxNum
+			options.requestTimeoutMs = configuration.requestTimeoutMs
 		}
 
 		return options
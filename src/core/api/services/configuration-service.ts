@@ -109,6 +109,15 @@ export class ConfigurationService {
 			"openRouterModelId",
 			"openRouterModelInfo",
 			"openRouterProviderSorting",
+			"openAiBaseUrl",
+			"openAiApiKey",
+			"openAiHeaders",
+			"openAiModelId",
+			"openAiModelInfo",
+			"ollamaBaseUrl",
+			"ollamaApiKey",
+			"ollamaModelId",
+			"ollamaApiOptionsCtxNum",
 		]
 
 		for (const key of commonKeys) {
@@ -130,7 +139,7 @@ export class ConfigurationService {
 		providerId: string,
 		mode: Mode,
 		errors: string[],
-		_warnings: string[],
+		warnings: string[],
 	): void {
 		const modeConfig = ConfigurationService.extractModeConfiguration(configuration, mode)
 
@@ -147,6 +156,21 @@ export class ConfigurationService {
 				}
 				break
 
+			case "openai-compatible":
+				if (!configuration.openAiBaseUrl) {
+					errors.push("Base URL is required for OpenAI-compatible endpoints")
+				}
+				if (!modeConfig.openAiModelId) {
+					warnings.push("No model selected for the OpenAI-compatible endpoint; the server default will be used")
+				}
+				break
+
+			case "ollama":
+				if (!modeConfig.ollamaModelId) {
+					errors.push("Ollama model is required")
+				}
+				break
+
 			default:
 				// Unsupported provider
 				errors.push(`Unsupported provider: ${providerId}. Only 'anthropic' and 'openrouter' are supported.`)
@@ -185,6 +209,12 @@ export class ConfigurationService {
 			openrouter: {
 				openRouterApiKey: "",
 			},
+			"openai-compatible": {
+				openAiBaseUrl: "http://localhost:8000/v1",
+			},
+			ollama: {
+				ollamaBaseUrl: "http://localhost:11434",
+			},
 		}
 
 		return defaults[providerId] || {}
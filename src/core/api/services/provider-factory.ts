@@ -152,6 +152,18 @@ export class ProviderFactoryService {
 				supportsCache: false,
 				maxTokens: 200000,
 			},
+			"openai-compatible": {
+				supportsStreaming: true,
+				supportsThinking: false,
+				supportsReasoning: true,
+				supportsCache: false,
+			},
+			ollama: {
+				supportsStreaming: true,
+				supportsThinking: true,
+				supportsReasoning: true,
+				supportsCache: false,
+			},
 		}
 
 		return (
@@ -0,0 +1,74 @@
+import { describe, it } from "mocha"
+import "should"
+import { convertToOllamaMessages, processOllamaStream } from "../ollama-stream"
+import type { ApiStreamChunk } from "../stream"
+
+async function* toBody(parts: string[]) {
+	const encoder = new TextEncoder()
+	for (const part of parts) {
+		yield encoder.encode(part)
+	}
+}
+
+async function collect(parts: string[]): Promise<ApiStreamChunk[]> {
+	const result: ApiStreamChunk[] = []
+	for await (const chunk of processOllamaStream(toBody(parts))) {
+		result.push(chunk)
+	}
+	return result
+}
+
+describe("convertToOllamaMessages", () => {
+	it("should prepend the system prompt and flatten content blocks", () => {
+		const messages = convertToOllamaMessages("system", [
+			{ role: "user", content: "hello" },
+			{
+				role: "user",
+				content: [
+					{ type: "text", text: "look at this" },
+					{ type: "image", source: { type: "base64", media_type: "image/png", data: "AAAA" } },
+				],
+			},
+			{ role: "assistant", content: [{ type: "text", text: "ok" }] },
+		])
+
+		messages.should.deepEqual([
+			{ role: "system", content: "system" },
+			{ role: "user", content: "hello" },
+			{ role: "user", content: "look at this", images: ["AAAA"] },
+			{ role: "assistant", content: "ok" },
+		])
+	})
+})
+
+describe("processOllamaStream", () => {
+	it("should yield text, thinking and usage from NDJSON lines", async () => {
+		const chunks = await collect([
+			'{"message":{"role":"assistant","thinking":"hmm"},"done":false}\n',
+			'{"message":{"role":"assistant","content":"Hel"},"done":false}\n{"message":{"role":"assistant","content":"lo"},"done":false}\n',
+			'{"message":{"role":"assistant","content":""},"done":true,"prompt_eval_count":12,"eval_count":3}\n',
+		])
+
+		chunks.should.deepEqual([
+			{ type: "reasoning", reasoning: "hmm" },
+			{ type: "text", text: "Hel" },
+			{ type: "text", text: "lo" },
+			{ type: "usage", inputTokens: 12, outputTokens: 3 },
+		])
+	})
+
+	it("should reassemble lines split across network chunks", async () => {
+		const chunks = await collect(['{"message":{"content":"par', 'tial"},"done":false}\n{"done":true,"eval_count":1}'])
+
+		chunks.should.deepEqual([
+			{ type: "text", text: "partial" },
+			{ type: "usage", inputTokens: 0, outputTokens: 1 },
+		])
+	})
+
+	it("should throw when the server reports an error mid-stream", async () => {
+		await collect(['{"error":"model requires more system memory"}\n']).should.be.rejectedWith(
+			"Ollama error: model requires more system memory",
+		)
+	})
+})
@@ -0,0 +1,99 @@
+import { describe, it } from "mocha"
+import "should"
+import type OpenAI from "openai"
+import { formatToolCallAsXml, processOpenAiCompatibleStream } from "../openai-compatible-stream"
+import type { ApiStreamChunk } from "../stream"
+
+async function* toStream(chunks: Partial<OpenAI.Chat.Completions.ChatCompletionChunk>[]) {
+	for (const chunk of chunks) {
+		yield chunk as OpenAI.Chat.Completions.ChatCompletionChunk
+	}
+}
+
+async function collect(chunks: Partial<OpenAI.Chat.Completions.ChatCompletionChunk>[]): Promise<ApiStreamChunk[]> {
+	const result: ApiStreamChunk[] = []
+	for await (const chunk of processOpenAiCompatibleStream(toStream(chunks))) {
+		result.push(chunk)
+	}
+	return result
+}
+
+describe("formatToolCallAsXml", () => {
+	it("should render string arguments verbatim", () => {
+		formatToolCallAsXml("read_file", '{"path":"src/index.ts"}').should.equal(
+			"\n<read_file>\n<path>src/index.ts</path>\n</read_file>\n",
+		)
+	})
+
+	it("should serialize non-string arguments as JSON", () => {
+		formatToolCallAsXml("use_mcp_tool", '{"arguments":{"a":1}}').should.equal(
+			'\n<use_mcp_tool>\n<arguments>{"a":1}</arguments>\n</use_mcp_tool>\n',
+		)
+	})
+
+	it("should emit the tool call without parameters when arguments are malformed", () => {
+		formatToolCallAsXml("list_files", '{"path":').should.equal("\n<list_files>\n</list_files>\n")
+	})
+})
+
+describe("processOpenAiCompatibleStream", () => {
+	it("should pass through text, reasoning and usage", async () => {
+		const chunks = await collect([
+			{ choices: [{ index: 0, delta: { content: "Hello" }, finish_reason: null, logprobs: null }] },
+			{
+				choices: [{ index: 0, delta: { reasoning_content: "thinking" } as any, finish_reason: null, logprobs: null }],
+			},
+			{ choices: [], usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } },
+		])
+
+		chunks.should.deepEqual([
+			{ type: "text", text: "Hello" },
+			{ type: "reasoning", reasoning: "thinking" },
+			{ type: "usage", inputTokens: 10, outputTokens: 5, cacheReadTokens: 0 },
+		])
+	})
+
+	it("should assemble streamed tool call fragments into XML on finish", async () => {
+		const chunks = await collect([
+			{
+				choices: [
+					{
+						index: 0,
+						delta: { tool_calls: [{ index: 0, id: "call_1", function: { name: "read_file", arguments: '{"pa' } }] },
+						finish_reason: null,
+						logprobs: null,
+					},
+				],
+			},
+			{
+				choices: [
+					{
+						index: 0,
+						delta: { tool_calls: [{ index: 0, function: { arguments: 'th":"a.ts"}' } }] },
+						finish_reason: "tool_calls",
+						logprobs: null,
+					},
+				],
+			},
+		])
+
+		chunks.should.deepEqual([{ type: "text", text: "\n<read_file>\n<path>a.ts</path>\n</read_file>\n" }])
+	})
+
+	it("should flush pending tool calls when the stream ends without a finish reason", async () => {
+		const chunks = await collect([
+			{
+				choices: [
+					{
+						index: 0,
+						delta: { tool_calls: [{ index: 0, function: { name: "list_files", arguments: '{"path":"."}' } }] },
+						finish_reason: null,
+						logprobs: null,
+					},
+				],
+			},
+		])
+
+		chunks.should.deepEqual([{ type: "text", text: "\n<list_files>\n<path>.</path>\n</list_files>\n" }])
+	})
+})
@@ -0,0 +1,144 @@
+import type { Anthropic } from "@anthropic-ai/sdk"
+import { ApiStream } from "./stream"
+
+/**
+ * Message shape accepted by Ollama's /api/chat endpoint
+ */
+export interface OllamaMessage {
+	role: "system" | "user" | "assistant"
+	content: string
+	images?: string[]
+}
+
+/**
+ * A single NDJSON line streamed back from /api/chat
+ */
+interface OllamaChatChunk {
+	message?: {
+		role?: string
+		content?: string
+		thinking?: string
+	}
+	done?: boolean
+	done_reason?: string
+	prompt_eval_count?: number
+	eval_count?: number
+	error?: string
+}
+
+/**
+ * Flatten Anthropic content blocks into Ollama's text + base64 images format.
+ * Tool results are inlined as text since tool use is expressed in the prompt.
+ */
+function flattenContent(blocks: Anthropic.Messages.ContentBlockParam[]): { content: string; images: string[] } {
+	const parts: string[] = []
+	const images: string[] = []
+
+	for (const block of blocks) {
+		switch (block.type) {
+			case "text":
+				parts.push(block.text)
+				break
+			case "image":
+				if (block.source.type === "base64") {
+					images.push(block.source.data)
+				}
+				break
+			case "tool_result":
+				if (typeof block.content === "string") {
+					parts.push(block.content)
+				} else if (block.content) {
+					const nested = flattenContent(block.content)
+					parts.push(nested.content)
+					images.push(...nested.images)
+				}
+				break
+			default:
+				break
+		}
+	}
+
+	return { content: parts.join("\n\n"), images }
+}
+
+/**
+ * Convert Anthropic messages to Ollama chat messages
+ */
+export function convertToOllamaMessages(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): OllamaMessage[] {
+	const ollamaMessages: OllamaMessage[] = [{ role: "system", content: systemPrompt }]
+
+	for (const message of messages) {
+		if (typeof message.content === "string") {
+			ollamaMessages.push({ role: message.role, content: message.content })
+			continue
+		}
+
+		const { content, images } = flattenContent(message.content)
+		ollamaMessages.push({
+			role: message.role,
+			content,
+			...(images.length > 0 && message.role === "user" ? { images } : {}),
+		})
+	}
+
+	return ollamaMessages
+}
+
+/**
+ * Translate Ollama's NDJSON /api/chat stream into standardized ApiStream chunks.
+ * Token usage is only reported on the final `done` line.
+ */
+export async function* processOllamaStream(body: AsyncIterable<Uint8Array>): ApiStream {
+	const decoder = new TextDecoder()
+	let buffer = ""
+
+	const parseLine = (line: string): OllamaChatChunk | undefined => {
+		const trimmed = line.trim()
+		if (!trimmed) {
+			return undefined
+		}
+		try {
+			return JSON.parse(trimmed) as OllamaChatChunk
+		} catch {
+			throw new Error(`Ollama returned malformed stream data: ${trimmed.slice(0, 200)}`)
+		}
+	}
+
+	const toApiChunks = function* (chunk: OllamaChatChunk) {
+		if (chunk.error) {
+			throw new Error(`Ollama error: ${chunk.error}`)
+		}
+		if (chunk.message?.thinking) {
+			yield { type: "reasoning" as const, reasoning: chunk.message.thinking }
+		}
+		if (chunk.message?.content) {
+			yield { type: "text" as const, text: chunk.message.content }
+		}
+		if (chunk.done) {
+			yield {
+				type: "usage" as const,
+				inputTokens: chunk.prompt_eval_count || 0,
+				outputTokens: chunk.eval_count || 0,
+			}
+		}
+	}
+
+	for await (const bytes of body) {
+		buffer += decoder.decode(bytes, { stream: true })
+		const lines = buffer.split("\n")
+		buffer = lines.pop() ?? ""
+
+		for (const line of lines) {
+			const chunk = parseLine(line)
+			if (chunk) {
+				yield* toApiChunks(chunk)
+			}
+		}
+	}
+
+	// Flush a final line that was not newline-terminated
+	const last = parseLine(buffer + decoder.decode())
+	if (last) {
+		yield* toApiChunks(last)
+	}
+}
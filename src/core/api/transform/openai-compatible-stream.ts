@@ -0,0 +1,153 @@
+import OpenAI from "openai"
+import { ApiStream } from "./stream"
+
+/**
+ * Partially received native tool call, keyed by its index in the delta stream
+ */
+export interface PendingToolCall {
+	id?: string
+	name: string
+	arguments: string
+}
+
+/**
+ * Parse the JSON arguments of a native tool call into an object
+ */
+export function parseToolArguments(rawArguments: string): Record<string, unknown> {
+	if (!rawArguments.trim()) {
+		return {}
+	}
+	try {
+		const parsed = JSON.parse(rawArguments)
+		if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+			return parsed
+		}
+	} catch {
+		// Servers occasionally emit truncated JSON; surface the tool call without parameters
+		// so the task loop reports the missing values to the model instead of dropping the call
+	}
+	return {}
+}
+
+/**
+ * Render a native tool call in the XML tool-use format understood by parseAssistantMessageV2.
+ * String arguments are written verbatim, everything else is serialized as JSON.
+ */
+export function formatToolCallAsXml(name: string, rawArguments: string): string {
+	const params = parseToolArguments(rawArguments)
+
+	const lines = Object.entries(params).map(([key, value]) => {
+		const text = typeof value === "string" ? value : JSON.stringify(value)
+		return `<${key}>${text}</${key}>`
+	})
+
+	return `\n<${name}>\n${lines.join("\n")}${lines.length > 0 ? "\n" : ""}</${name}>\n`
+}
+
+/**
+ * Accumulates streamed tool call deltas and flushes them once complete
+ */
+export class ToolCallTranslator {
+	private pending = new Map<number, PendingToolCall>()
+
+	/**
+	 * Merge a delta fragment into the pending tool call it belongs to
+	 */
+	push(delta: OpenAI.Chat.Completions.ChatCompletionChunk.Choice.Delta.ToolCall): void {
+		const existing = this.pending.get(delta.index) ?? { name: "", arguments: "" }
+		if (delta.id) {
+			existing.id = delta.id
+		}
+		if (delta.function?.name) {
+			existing.name += delta.function.name
+		}
+		if (delta.function?.arguments) {
+			existing.arguments += delta.function.arguments
+		}
+		this.pending.set(delta.index, existing)
+	}
+
+	/**
+	 * Whether any tool call is still waiting to be flushed
+	 */
+	hasPending(): boolean {
+		return this.pending.size > 0
+	}
+
+	/**
+	 * Return all pending tool calls that have a name, in index order, and reset the buffer
+	 */
+	flushCalls(): PendingToolCall[] {
+		const calls = [...this.pending.entries()].sort(([a], [b]) => a - b).map(([, call]) => call)
+		this.pending.clear()
+		return calls.filter((call) => call.name)
+	}
+
+	/**
+	 * Render all pending tool calls as XML text and reset the buffer
+	 */
+	flush(): string {
+		return this.flushCalls()
+			.map((call) => formatToolCallAsXml(call.name, call.arguments))
+			.join("")
+	}
+}
+
+/**
+ * Translate an OpenAI-compatible chat completion stream into standardized ApiStream chunks.
+ * Native tool calls (vLLM, llama.cpp with --jinja, etc.) are converted into XML tool-use text
+ * so they flow through the same parser as prompt-based tool calls.
+ */
+export async function* processOpenAiCompatibleStream(
+	stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>,
+): ApiStream {
+	const toolCalls = new ToolCallTranslator()
+
+	for await (const chunk of stream) {
+		const choice = chunk.choices?.[0]
+		const delta = choice?.delta
+
+		if (delta?.content) {
+			yield {
+				type: "text",
+				text: delta.content,
+			}
+		}
+
+		// llama.cpp and vLLM reasoning parsers expose thinking as reasoning_content
+		if (delta && "reasoning_content" in delta && delta.reasoning_content) {
+			yield {
+				type: "reasoning",
+				reasoning: delta.reasoning_content as string,
+			}
+		}
+
+		for (const toolCallDelta of delta?.tool_calls ?? []) {
+			toolCalls.push(toolCallDelta)
+		}
+
+		if (choice?.finish_reason && toolCalls.hasPending()) {
+			yield {
+				type: "text",
+				text: toolCalls.flush(),
+			}
+		}
+
+		if (chunk.usage) {
+			yield {
+				type: "usage",
+				inputTokens: chunk.usage.prompt_tokens || 0,
+				outputTokens: chunk.usage.completion_tokens || 0,
+				cacheReadTokens: chunk.usage.prompt_tokens_details?.cached_tokens || 0,
+			}
+		}
+	}
+
+	// Some servers close the stream without a finish_reason on the final delta
+	if (toolCalls.hasPending()) {
+		yield {
+			type: "text",
+			text: toolCalls.flush(),
+		}
+	}
+}
@@ -6,7 +6,8 @@ import {
 	openRouterClaudeSonnet451mModelId,
 } from "@shared/api"
 import OpenAI from "openai"
-import { convertToOpenAiMessages, convertToR1Format } from "../utils/message-transformers"
+import type { ApiToolDefinition } from "../api_service"
+import { convertToOpenAiMessages, convertToOpenAiTools, convertToR1Format } from "../utils/message-transformers"
 
 export async function createOpenRouterStream(
 	client: OpenAI,
@@ -16,6 +17,7 @@ export async function createOpenRouterStream(
 	reasoningEffort?: string,
 	thinkingBudgetTokens?: number,
 	openRouterProviderSorting?: string,
+	tools?: ApiToolDefinition[],
 ) {
 	// Convert Anthropic messages to OpenAI format
 	let openAiMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [
@@ -174,6 +176,7 @@ export async function createOpenRouterStream(
 		...(model.id.startsWith("openai/o") ? { reasoning_effort: reasoningEffort || "medium" } : {}),
 		...(reasoning ? { reasoning } : {}),
 		...(openRouterProviderSorting ? { provider: { sort: openRouterProviderSorting } } : {}),
+		...(tools?.length ? { tools: convertToOpenAiTools(tools) } : {}),
 		// limit providers to only those that support the 131k context window
 		...(isKimiK2
 			? { provider: { order: ["groq", "together", "baseten", "parasail", "novita", "deepinfra"], allow_fallbacks: false } }
@@ -6,6 +6,7 @@ export type ApiStreamChunk =
 	| ApiStreamAnthropicThinkingChunk
 	| ApiStreamAnthropicRedactedThinkingChunk
 	| ApiStreamUsageChunk
+	| ApiStreamToolUseChunk
 
 export interface ApiStreamTextChunk {
 	type: "text"
@@ -33,6 +34,13 @@ export interface ApiStreamAnthropicRedactedThinkingChunk {
 	data: string
 }
 
+export interface ApiStreamToolUseChunk {
+	type: "tool_use"
+	id: string
+	name: string
+	input: Record<string, unknown> // complete arguments; providers only yield a tool call once it has finished streaming
+}
+
 export interface ApiStreamUsageChunk {
 	type: "usage"
 	inputTokens: number
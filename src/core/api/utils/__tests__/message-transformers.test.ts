@@ -0,0 +1,118 @@
+import type { Anthropic } from "@anthropic-ai/sdk"
+import { describe, it } from "mocha"
+import "should"
+import { convertNativeToolCallsToText, convertToOpenAiMessages, convertToOpenAiTools } from "../message-transformers"
+
+describe("convertToOpenAiMessages", () => {
+	it("should convert native tool calls and results to OpenAI tool messages", () => {
+		const messages: Anthropic.Messages.MessageParam[] = [
+			{
+				role: "assistant",
+				content: [
+					{ type: "text", text: "Reading the file." },
+					{ type: "tool_use", id: "call_1", name: "read_file", input: { path: "src/index.ts" } },
+				],
+			},
+			{
+				role: "user",
+				content: [
+					{ type: "tool_result", tool_use_id: "call_1", content: [{ type: "text", text: "export {}" }] },
+					{ type: "text", text: "<environment_details />" },
+				],
+			},
+		]
+
+		convertToOpenAiMessages(messages).should.deepEqual([
+			{
+				role: "assistant",
+				content: "Reading the file.",
+				tool_calls: [
+					{ id: "call_1", type: "function", function: { name: "read_file", arguments: '{"path":"src/index.ts"}' } },
+				],
+			},
+			{ role: "tool", tool_call_id: "call_1", content: "export {}" },
+			{ role: "user", content: [{ type: "text", text: "<environment_details />" }] },
+		])
+	})
+
+	it("should forward images from tool results with the user message", () => {
+		const image: Anthropic.ImageBlockParam = {
+			type: "image",
+			source: { type: "base64", media_type: "image/png", data: "abc" },
+		}
+		const converted = convertToOpenAiMessages([
+			{
+				role: "user",
+				content: [
+					{ type: "tool_result", tool_use_id: "call_2", content: [{ type: "text", text: "Screenshot:" }, image] },
+				],
+			},
+		])
+
+		converted.should.deepEqual([
+			{ role: "tool", tool_call_id: "call_2", content: "Screenshot:\n(see attached image)" },
+			{ role: "user", content: [image] },
+		])
+	})
+
+	it("should leave messages without tool blocks unchanged", () => {
+		const messages: Anthropic.Messages.MessageParam[] = [
+			{ role: "user", content: "hello" },
+			{ role: "assistant", content: [{ type: "text", text: "<read_file><path>a.ts</path></read_file>" }] },
+		]
+		convertToOpenAiMessages(messages).should.deepEqual(messages)
+	})
+})
+
+describe("convertToOpenAiTools", () => {
+	it("should wrap tool definitions as OpenAI functions", () => {
+		const input_schema = {
+			type: "object" as const,
+			properties: { path: { type: "string" as const, description: "File path" } },
+			required: ["path"],
+		}
+		convertToOpenAiTools([{ name: "read_file", description: "Read a file", input_schema }]).should.deepEqual([
+			{ type: "function", function: { name: "read_file", description: "Read a file", parameters: input_schema } },
+		])
+	})
+})
+
+describe("convertNativeToolCallsToText", () => {
+	it("should rewrite tool calls as XML and results as text", () => {
+		const messages: Anthropic.Messages.MessageParam[] = [
+			{ role: "user", content: "<task>Fix it</task>" },
+			{
+				role: "assistant",
+				content: [
+					{ type: "text", text: "Reading the file." },
+					{ type: "tool_use", id: "call_1", name: "read_file", input: { path: "src/index.ts" } },
+				],
+			},
+			{
+				role: "user",
+				content: [
+					{ type: "tool_result", tool_use_id: "call_1", content: "export {}" },
+					{ type: "text", text: "<environment_details />" },
+				],
+			},
+		]
+
+		convertNativeToolCallsToText(messages).should.deepEqual([
+			messages[0],
+			{
+				role: "assistant",
+				content: [
+					{ type: "text", text: "Reading the file." },
+					{ type: "text", text: "<read_file>\n<path>src/index.ts</path>\n</read_file>" },
+				],
+			},
+			{
+				role: "user",
+				content: [
+					{ type: "text", text: "[read_file] Result:\nexport {}" },
+					{ type: "text", text: "<environment_details />" },
+				],
+			},
+		])
+	})
+})
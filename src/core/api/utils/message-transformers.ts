@@ -1,4 +1,6 @@
 import { Anthropic } from "@anthropic-ai/sdk"
+import type { ApiToolDefinition } from "../api_service"
+import { formatToolCallAsXml } from "../transform/openai-compatible-stream"
 
 /**
  * Message transformation utilities for supported providers
@@ -8,24 +10,120 @@ import { Anthropic } from "@anthropic-ai/sdk"
 
 /**
  * Convert Anthropic messages to OpenAI format (used by OpenRouter)
+ * Native tool_use blocks become assistant tool_calls and tool_result blocks become tool messages
  */
 export function convertToOpenAiMessages(messages: Anthropic.Messages.MessageParam[]): any[] {
-	return messages.map((message) => {
+	return messages.flatMap((message): any[] => {
 		if (typeof message.content === "string") {
-			return {
-				role: message.role,
-				content: message.content,
-			}
+			return [
+				{
+					role: message.role,
+					content: message.content,
+				},
+			]
+		}
+
+		if (message.role === "assistant" && message.content.some((part) => part.type === "tool_use")) {
+			const toolUses = message.content.filter(
+				(part): part is Anthropic.Messages.ToolUseBlockParam => part.type === "tool_use",
+			)
+			const text = message.content
+				.filter((part): part is Anthropic.Messages.TextBlockParam => part.type === "text")
+				.map((part) => part.text)
+				.join("\n")
+			return [
+				{
+					role: "assistant",
+					content: text || null,
+					tool_calls: toolUses.map((toolUse) => ({
+						id: toolUse.id,
+						type: "function",
+						function: { name: toolUse.name, arguments: JSON.stringify(toolUse.input) },
+					})),
+				},
+			]
+		}
+
+		if (message.role === "user" && message.content.some((part) => part.type === "tool_result")) {
+			const toolResults = message.content.filter(
+				(part): part is Anthropic.Messages.ToolResultBlockParam => part.type === "tool_result",
+			)
+			// Tool messages only carry text, so images in a result are forwarded with the user message
+			const resultImages = toolResults.flatMap((toolResult) =>
+				Array.isArray(toolResult.content) ? toolResult.content.filter((part) => part.type === "image") : [],
+			)
+			const rest = [...message.content.filter((part) => part.type !== "tool_result"), ...resultImages]
+			return [
+				...toolResults.map((toolResult) => ({
+					role: "tool",
+					tool_call_id: toolResult.tool_use_id,
+					content: toolResultText(toolResult),
+				})),
+				...(rest.length ? [{ role: "user", content: rest }] : []),
+			]
 		}
 
 		// Handle complex content types
-		return {
-			role: message.role,
-			content: message.content,
+		return [
+			{
+				role: message.role,
+				content: message.content,
+			},
+		]
+	})
+}
+
+/**
+ * Convert tool definitions to OpenAI function tools
+ */
+export function convertToOpenAiTools(tools: ApiToolDefinition[]): any[] {
+	return tools.map((tool) => ({
+		type: "function",
+		function: {
+			name: tool.name,
+			description: tool.description,
+			parameters: tool.input_schema,
+		},
+	}))
+}
+
+/**
+ * Rewrite native tool calls and results as text, for a task that continues with XML tool calls
+ * Calls become the XML the model is prompted to write and results get the usual "[tool] Result:" header
+ */
+export function convertNativeToolCallsToText(messages: Anthropic.Messages.MessageParam[]): Anthropic.Messages.MessageParam[] {
+	const toolNames = new Map<string, string>()
+	return messages.map((message) => {
+		if (
+			typeof message.content === "string" ||
+			!message.content.some((part) => part.type === "tool_use" || part.type === "tool_result")
+		) {
+			return message
 		}
+		const content = message.content.flatMap((part): Anthropic.Messages.ContentBlockParam[] => {
+			if (part.type === "tool_use") {
+				toolNames.set(part.id, part.name)
+				return [{ type: "text", text: formatToolCallAsXml(part.name, JSON.stringify(part.input)).trim() }]
+			}
+			if (part.type === "tool_result") {
+				const header = `[${toolNames.get(part.tool_use_id) ?? "tool"}] Result:`
+				return typeof part.content === "string"
+					? [{ type: "text", text: `${header}\n${part.content}` }]
+					: [{ type: "text", text: header }, ...(part.content ?? [])]
+			}
+			return [part]
+		})
+		return { ...message, content }
 	})
 }
 
+function toolResultText(toolResult: Anthropic.Messages.ToolResultBlockParam): string {
+	if (typeof toolResult.content === "string") {
+		return toolResult.content
+	}
+	return (toolResult.content ?? []).map((part) => (part.type === "text" ? part.text : "(see attached image)")).join("\n")
+}
+
 /**
  * Convert messages to provider-specific format
  * Only supports anthropic and openrouter
@@ -0,0 +1,163 @@
+import { expect } from "chai"
+import { describe, it } from "mocha"
+import { applyFilePatch, constructNewFileContent, PatchParser } from "../diff"
+
+const original = `import fs from "fs"
+
+function greet(name) {
+	console.log("hello " + name)
+}
+
+function farewell(name) {
+	console.log("bye " + name)
+}
+`
+
+describe("constructNewFileContent (unified)", () => {
+	it("should apply hunks whose line numbers are off", async () => {
+		const diff = `--- a/greet.js
++++ b/greet.js
+@@ -40,3 +40,3 @@
+ function farewell(name) {
+-	console.log("bye " + name)
++	console.log(\`bye \${name}\`)
+ }
+@@ -1,2 +1,3 @@
+ import fs from "fs"
++import path from "path"
+ `
+		const result = await constructNewFileContent(diff, original, true, "unified")
+		expect(result).to.equal(`import fs from "fs"
+import path from "path"
+
+function greet(name) {
+	console.log("hello " + name)
+}
+
+function farewell(name) {
+	console.log(\`bye \${name}\`)
+}
+`)
+	})
+
+	it("should tolerate whitespace differences in context lines", async () => {
+		const diff = `@@
+ function greet(name) {
+-    console.log("hello " + name)
++	console.log("hi " + name)
+ }`
+		const result = await constructNewFileContent(diff, original, true, "unified")
+		expect(result).to.contain(`\tconsole.log("hi " + name)`)
+		expect(result).to.not.contain("hello")
+	})
+
+	it("should only apply complete hunks while streaming", async () => {
+		const diff = `@@ -3,3 +3,3 @@
+ function greet(name) {
+-	console.log("hello " + name)
++	console.log("hi " + name)
+ }
+@@ -7,3 +7,3 @@
+ function farewell(name) {
+-	console.log("bye`
+		const result = await constructNewFileContent(diff, original, false, "unified")
+		expect(result).to.contain(`console.log("hi " + name)`)
+		expect(result).to.contain(`console.log("bye " + name)`)
+	})
+
+	it("should throw when a hunk does not match the file", async () => {
+		const diff = `@@ -1,1 +1,1 @@
+-const missing = true
++const missing = false`
+		try {
+			await constructNewFileContent(diff, original, true, "unified")
+			expect.fail("Expected an error")
+		} catch (error) {
+			expect((error as Error).message).to.contain("does not match anything")
+		}
+	})
+
+	it("should reject diffs that touch several files", async () => {
+		const diff = `--- a/one.js
++++ b/one.js
+@@
+-a
++b
+--- a/two.js
++++ b/two.js
+@@
+-c
++d`
+		try {
+			await constructNewFileContent(diff, "a\n", true, "unified")
+			expect.fail("Expected an error")
+		} catch (error) {
+			expect((error as Error).message).to.contain("apply_patch")
+		}
+	})
+})
+
+describe("PatchParser", () => {
+	it("should parse apply_patch envelopes with add, delete, update and move", () => {
+		const patches = PatchParser.parse(`*** Begin Patch
+*** Add File: src/new.js
++export const value = 1
+*** Delete File: src/old.js
+*** Update File: greet.js
+*** Move to: src/greet.js
+@@ function farewell(name) {
+-	console.log("bye " + name)
++	console.log("goodbye " + name)
+*** End Patch`)
+
+		expect(patches.map((patch) => [patch.operation, patch.path, patch.movePath])).to.deep.equal([
+			["add", "src/new.js", undefined],
+			["delete", "src/old.js", undefined],
+			["update", "greet.js", "src/greet.js"],
+		])
+		expect(applyFilePatch(patches[0], "")).to.equal("export const value = 1\n")
+		expect(applyFilePatch(patches[2], original)).to.contain(`console.log("goodbye " + name)`)
+	})
+
+	it("should use the anchor line to pick between identical contexts", () => {
+		const content = "a() {\n\treturn 1\n}\nb() {\n\treturn 1\n}\n"
+		const [patch] = PatchParser.parse(`*** Begin Patch
+*** Update File: x.js
+@@ b() {
+-	return 1
++	return 2
+*** End Patch`)
+		expect(applyFilePatch(patch, content)).to.equal("a() {\n\treturn 1\n}\nb() {\n\treturn 2\n}\n")
+	})
+
+	it("should parse git diffs that create, delete and rename files", () => {
+		const patches = PatchParser.parse(`diff --git a/new.txt b/new.txt
+new file mode 100644
+--- /dev/null
++++ b/new.txt
+@@ -0,0 +1,2 @@
++first
++second
+diff --git a/gone.txt b/gone.txt
+deleted file mode 100644
+--- a/gone.txt
++++ /dev/null
+@@ -1 +0,0 @@
+-bye
+diff --git a/before.txt b/after.txt
+similarity index 90%
+--- a/before.txt
++++ b/after.txt
+@@ -1 +1 @@
+-old
++new`)
+
+		expect(patches.map((patch) => [patch.operation, patch.path, patch.movePath])).to.deep.equal([
+			["add", "new.txt", undefined],
+			["delete", "gone.txt", undefined],
+			["update", "before.txt", "after.txt"],
+		])
+		expect(patches[0].content).to.equal("first\nsecond\n")
+		expect(applyFilePatch(patches[2], "old\n")).to.equal("new\n")
+	})
+})
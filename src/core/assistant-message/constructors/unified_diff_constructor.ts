@@ -0,0 +1,116 @@
+/**
+ * Unified diff constructor implementation
+ * Applies unified diff hunks (or a single-file apply_patch envelope) with fuzzy hunk relocation
+ */
+
+import { HunkMatcher } from "../matchers/hunk_matcher"
+import { PatchParser } from "../parsers/patch_parser"
+import type { FilePatch, PatchHunk } from "../types/patch_types"
+
+/**
+ * Constructs new file content by applying a streamed unified diff
+ * While streaming, only hunks that are already complete are applied
+ *
+ * @param diffContent - The diff content (may be partial or complete)
+ * @param originalContent - The original file content
+ * @param isFinal - Whether this is the final chunk
+ * @returns Reconstructed file content
+ * @throws Error if the diff touches more than one file or a hunk can't be located
+ */
+export async function constructNewFileContentUnified(
+	diffContent: string,
+	originalContent: string,
+	isFinal: boolean,
+): Promise<string> {
+	let filePatches = PatchParser.parse(diffContent)
+	if (!isFinal) {
+		filePatches = PatchParser.withoutIncompleteHunk(filePatches)
+	}
+
+	if (filePatches.length === 0) {
+		if (isFinal) {
+			throw new Error("The diff does not contain any hunks. Each change must start with an @@ hunk header.")
+		}
+		return originalContent
+	}
+	if (filePatches.length > 1) {
+		throw new Error(
+			`The diff touches ${filePatches.length} files (${filePatches.map((patch) => patch.path).join(", ")}), but only one file can be edited at a time. Use apply_patch for multi-file changes.`,
+		)
+	}
+
+	const [filePatch] = filePatches
+	if (filePatch.operation === "delete" || filePatch.movePath) {
+		throw new Error(`Deleting or renaming ${filePatch.path} is not supported here. Use apply_patch instead.`)
+	}
+	return applyFilePatch(filePatch, originalContent)
+}
+
+/**
+ * Computes the content a file patch produces
+ *
+ * @param filePatch - Parsed patch for a single file
+ * @param originalContent - Current content of the file ("" for added files)
+ * @returns New file content ("" for deleted files)
+ */
+export function applyFilePatch(filePatch: FilePatch, originalContent: string): string {
+	switch (filePatch.operation) {
+		case "add":
+			return filePatch.content ?? ""
+		case "delete":
+			return ""
+		case "update":
+			return applyHunks(originalContent, filePatch.hunks)
+	}
+}
+
+/**
+ * Applies hunks to content, relocating each one to where its context actually is
+ *
+ * @param originalContent - The original file content
+ * @param hunks - Hunks in file order
+ * @returns Content with every hunk applied
+ * @throws Error if a hunk doesn't match anything or two hunks overlap
+ */
+export function applyHunks(originalContent: string, hunks: PatchHunk[]): string {
+	const hadTrailingNewline = originalContent === "" || originalContent.endsWith("\n")
+	const fileLines = originalContent.split("\n")
+	if (hadTrailingNewline) {
+		fileLines.pop()
+	}
+
+	// Locate every hunk against the original lines before changing anything
+	const placements: { index: number; hunk: PatchHunk }[] = []
+	let searchFrom = 0
+	for (const hunk of hunks) {
+		const index = HunkMatcher.findHunk(fileLines, hunk, searchFrom)
+		if (index === -1) {
+			throw new Error(`The hunk:\n${formatHunk(hunk)}\n...does not match anything in the file.`)
+		}
+		placements.push({ index, hunk })
+		searchFrom = index + hunk.oldLines.length
+	}
+
+	placements.sort((a, b) => a.index - b.index)
+	for (let i = 1; i < placements.length; i++) {
+		const previous = placements[i - 1]
+		if (placements[i].index < previous.index + previous.hunk.oldLines.length) {
+			throw new Error(`The hunk:\n${formatHunk(placements[i].hunk)}\n...overlaps another hunk in the same diff.`)
+		}
+	}
+
+	// Apply from the bottom up so earlier indices stay valid
+	for (let i = placements.length - 1; i >= 0; i--) {
+		const { index, hunk } = placements[i]
+		fileLines.splice(index, hunk.oldLines.length, ...hunk.newLines)
+	}
+
+	if (fileLines.length === 0) {
+		return ""
+	}
+	return hadTrailingNewline ? `${fileLines.join("\n")}\n` : fileLines.join("\n")
+}
+
+function formatHunk(hunk: PatchHunk): string {
+	return hunk.oldLines.join("\n")
+}
@@ -7,13 +7,17 @@
  * - validators/block_validator.ts - Block marker validation
  * - matchers/* - Three-tier matching strategy (exact, line, block)
  * - coordinators/match_coordinator.ts - Match orchestration
- * - constructors/* - V1 and V2 implementations
+ * - constructors/* - V1, V2 and unified diff implementations
+ * - parsers/patch_parser.ts - Unified diff and apply_patch parsing
  */
 
+import { constructNewFileContentUnified } from "./constructors/unified_diff_constructor"
 import { constructNewFileContentV1 } from "./constructors/v1_constructor"
 import { constructNewFileContentV2 } from "./constructors/v2_constructor"
 import type { DiffConstructor, DiffVersion } from "./types/diff_types"
 
+export { applyFilePatch, applyHunks } from "./constructors/unified_diff_constructor"
+export { PatchParser } from "./parsers/patch_parser"
 // Re-export types for backward compatibility
 export type { DiffVersion, MatchResult, ProcessingState, Replacement } from "./types/diff_types"
 export {
@@ -25,14 +29,16 @@ export {
 	SEARCH_BLOCK_END,
 	SEARCH_BLOCK_START,
 } from "./types/diff_types"
+export type { FilePatch, FilePatchOperation, PatchHunk } from "./types/patch_types"
 
 /**
  * Version mapping for diff constructors
- * Allows switching between V1 and V2 implementations
+ * Allows switching between V1 and V2 SEARCH/REPLACE implementations and unified diffs
  */
 const constructNewFileContentVersionMapping: Record<string, DiffConstructor> = {
 	v1: constructNewFileContentV1,
 	v2: constructNewFileContentV2,
+	unified: constructNewFileContentUnified,
 } as const
 
 /**
@@ -57,10 +63,14 @@ const constructNewFileContentVersionMapping: Record<string, DiffConstructor> = {
  * - Error recovery for malformed blocks (V2)
  * - Legacy format support (<<< SEARCH >>> REPLACE)
  *
+ * The "unified" version instead takes standard unified diff hunks (or a single-file
+ * apply_patch envelope) and relocates each hunk by its context, using header line
+ * numbers only as a starting point.
+ *
  * @param diffContent - The diff content (may be partial or complete)
  * @param originalContent - The original file content
  * @param isFinal - Whether this is the final chunk
- * @param version - Constructor version to use ("v1" or "v2", defaults to "v1")
+ * @param version - Constructor version to use ("v1", "v2" or "unified", defaults to "v1")
  * @returns Reconstructed file content
  * @throws Error if constructor version is invalid or diff cannot be parsed
  *
@@ -1,6 +1,7 @@
 import { ClineDefaultTool } from "@shared/tools"
 export type AssistantMessageContent = TextContent | ToolUse
 
+export { toolUseFromNativeCall } from "./native-tool-use"
 export { parseAssistantMessageV2 } from "./parse-assistant-message"
 
 export interface TextContent {
@@ -39,6 +40,7 @@ export const toolParamNames = [
 	"needs_more_exploration",
 	"task_progress",
 	"timeout",
+	"subtasks",
 ] as const
 
 export type ToolParamName = (typeof toolParamNames)[number]
@@ -49,4 +51,5 @@ export interface ToolUse {
 	// params is a partial record, allowing only some or none of the possible parameters to be used
 	params: Partial<Record<ToolParamName, string>>
 	partial: boolean
+	id?: string // set for native tool calls, whose result must be returned as a tool_result block with this id
 }
@@ -0,0 +1,127 @@
+/**
+ * Fuzzy hunk relocation for unified diffs
+ * Finds where a hunk applies even when its line numbers or whitespace are off
+ */
+
+import type { PatchHunk } from "../types/patch_types"
+
+type LineComparator = (fileLine: string, hunkLine: string) => boolean
+
+/**
+ * Comparators tried in order, from strictest to most whitespace tolerant
+ */
+const COMPARATORS: LineComparator[] = [
+	(fileLine, hunkLine) => fileLine === hunkLine,
+	(fileLine, hunkLine) => fileLine.trimEnd() === hunkLine.trimEnd(),
+	(fileLine, hunkLine) => fileLine.trim() === hunkLine.trim(),
+]
+
+/**
+ * Locates hunks in file content
+ * Line numbers from hunk headers are treated as hints: the search starts there and moves outward
+ */
+export class HunkMatcher {
+	/**
+	 * Find the line index where a hunk's old lines start
+	 *
+	 * @param fileLines - The file content split into lines
+	 * @param hunk - The hunk to locate
+	 * @param searchFrom - Line index the previous hunk ended at; matches at or after it are preferred
+	 * @returns Line index of the match, or -1 if the hunk doesn't match anywhere
+	 */
+	static findHunk(fileLines: string[], hunk: PatchHunk, searchFrom: number): number {
+		const anchorIndex = HunkMatcher.findAnchor(fileLines, hunk, searchFrom)
+		const start = anchorIndex === -1 ? searchFrom : anchorIndex + 1
+
+		// Pure insertions have nothing to match, so place them by header line, anchor or end of file
+		if (hunk.oldLines.length === 0) {
+			if (hunk.isEndOfFile) {
+				return fileLines.length
+			}
+			if (hunk.oldStart !== undefined) {
+				// For insertions the header names the line the new lines follow
+				return Math.min(Math.max(hunk.oldStart, start), fileLines.length)
+			}
+			return anchorIndex === -1 ? fileLines.length : start
+		}
+
+		const hint = hunk.oldStart !== undefined ? Math.max(hunk.oldStart - 1, start) : start
+		for (const compare of COMPARATORS) {
+			if (hunk.isEndOfFile) {
+				const endIndex = fileLines.length - hunk.oldLines.length
+				if (endIndex >= 0 && HunkMatcher.matchesAt(fileLines, hunk.oldLines, endIndex, compare)) {
+					return endIndex
+				}
+			}
+
+			const index = HunkMatcher.searchOutward(fileLines, hunk.oldLines, hint, start, compare)
+			if (index !== -1) {
+				return index
+			}
+		}
+
+		// Hunks written out of order may still match earlier in the file
+		for (const compare of COMPARATORS) {
+			for (let i = 0; i < start && i <= fileLines.length - hunk.oldLines.length; i++) {
+				if (HunkMatcher.matchesAt(fileLines, hunk.oldLines, i, compare)) {
+					return i
+				}
+			}
+		}
+
+		return -1
+	}
+
+	/**
+	 * Search positions in [min, end] nearest to the hint first
+	 */
+	private static searchOutward(
+		fileLines: string[],
+		oldLines: string[],
+		hint: number,
+		min: number,
+		compare: LineComparator,
+	): number {
+		const max = fileLines.length - oldLines.length
+		if (max < min) {
+			return -1
+		}
+		const center = Math.min(Math.max(hint, min), max)
+		for (let distance = 0; center - distance >= min || center + distance <= max; distance++) {
+			const after = center + distance
+			if (after <= max && HunkMatcher.matchesAt(fileLines, oldLines, after, compare)) {
+				return after
+			}
+			const before = center - distance
+			if (distance > 0 && before >= min && HunkMatcher.matchesAt(fileLines, oldLines, before, compare)) {
+				return before
+			}
+		}
+		return -1
+	}
+
+	/**
+	 * apply_patch hunks may name a line (e.g. a class or function signature) that precedes the change
+	 */
+	private static findAnchor(fileLines: string[], hunk: PatchHunk, searchFrom: number): number {
+		if (!hunk.anchor) {
+			return -1
+		}
+		const anchor = hunk.anchor.trim()
+		for (let i = searchFrom; i < fileLines.length; i++) {
+			if (fileLines[i].trim() === anchor) {
+				return i
+			}
+		}
+		return -1
+	}
+
+	private static matchesAt(fileLines: string[], oldLines: string[], index: number, compare: LineComparator): boolean {
+		for (let j = 0; j < oldLines.length; j++) {
+			if (!compare(fileLines[index + j], oldLines[j])) {
+				return false
+			}
+		}
+		return true
+	}
+}
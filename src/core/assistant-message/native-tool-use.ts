@@ -0,0 +1,22 @@
+import type { ApiStreamToolUseChunk } from "@core/api/transform/stream"
+import type { ClineDefaultTool } from "@shared/tools"
+import type { ToolParamName, ToolUse } from "."
+
+/**
+ * Convert a native tool call into the same ToolUse block the XML parser produces.
+ * String arguments are used verbatim, everything else is serialized as JSON.
+ */
+export function toolUseFromNativeCall(toolCall: ApiStreamToolUseChunk): ToolUse {
+	const params: Partial<Record<ToolParamName, string>> = {}
+	for (const [key, value] of Object.entries(toolCall.input)) {
+		params[key as ToolParamName] = typeof value === "string" ? value : JSON.stringify(value)
+	}
+
+	return {
+		type: "tool_use",
+		id: toolCall.id,
+		name: toolCall.name as ClineDefaultTool,
+		params,
+		partial: false,
+	}
+}
@@ -0,0 +1,302 @@
+/**
+ * Patch parser for unified diffs and apply_patch envelopes
+ * Turns model-written patch text into per-file hunks for the unified diff constructor
+ */
+
+import {
+	DEV_NULL,
+	type FilePatch,
+	HUNK_HEADER_REGEX,
+	PATCH_ADD_FILE_PREFIX,
+	PATCH_BEGIN,
+	PATCH_DELETE_FILE_PREFIX,
+	PATCH_END,
+	PATCH_END_OF_FILE,
+	PATCH_MOVE_TO_PREFIX,
+	PATCH_UPDATE_FILE_PREFIX,
+	type PatchHunk,
+} from "../types/patch_types"
+
+/**
+ * Hunk being collected, tracking blank lines the model may have left between hunks
+ */
+interface HunkBuilder {
+	hunk: PatchHunk
+	trailingBareLines: number
+}
+
+/**
+ * Parses both patch grammars models commonly emit:
+ *
+ *   Unified diff (git style, file headers optional for single-file diffs):
+ *     --- a/src/app.ts
+ *     +++ b/src/app.ts
+ *     @@ -10,3 +10,3 @@
+ *      context
+ *     -removed
+ *     +added
+ *
+ *   apply_patch envelope (multi-file, no line numbers):
+ *     *** Begin Patch
+ *     *** Update File: src/app.ts
+ *     *** Move to: src/main.ts
+ *     @@ class App
+ *     -removed
+ *     +added
+ *     *** Add File: src/new.ts
+ *     +content
+ *     *** Delete File: src/old.ts
+ *     *** End Patch
+ */
+export class PatchParser {
+	/**
+	 * Parse patch text into file patches
+	 *
+	 * @param patchText - Unified diff or apply_patch envelope
+	 * @returns One entry per file touched; headerless unified diffs yield a single entry with an empty path
+	 * @throws Error if the patch contains lines that belong to neither grammar
+	 */
+	static parse(patchText: string): FilePatch[] {
+		const lines = patchText.replace(/\r\n/g, "\n").split("\n")
+		if (lines.some((line) => line.trim() === PATCH_BEGIN)) {
+			return PatchParser.parseEnvelope(lines)
+		}
+		return PatchParser.parseUnifiedDiff(lines)
+	}
+
+	/**
+	 * Drop the last hunk of a patch that is still streaming, since it may be incomplete
+	 */
+	static withoutIncompleteHunk(filePatches: FilePatch[]): FilePatch[] {
+		const last = filePatches[filePatches.length - 1]
+		if (!last || last.operation !== "update") {
+			return filePatches
+		}
+		return [...filePatches.slice(0, -1), { ...last, hunks: last.hunks.slice(0, -1) }]
+	}
+
+	private static parseEnvelope(lines: string[]): FilePatch[] {
+		const filePatches: FilePatch[] = []
+		let current: FilePatch | undefined
+		let addedLines: string[] = []
+		let hunkBuilder: HunkBuilder | undefined
+
+		const finishFile = () => {
+			if (!current) {
+				return
+			}
+			if (hunkBuilder) {
+				current.hunks.push(PatchParser.finishHunk(hunkBuilder))
+				hunkBuilder = undefined
+			}
+			if (current.operation === "add") {
+				current.content = addedLines.length ? `${addedLines.join("\n")}\n` : ""
+				addedLines = []
+			}
+			filePatches.push(current)
+			current = undefined
+		}
+
+		const start = lines.findIndex((line) => line.trim() === PATCH_BEGIN)
+		for (let i = start + 1; i < lines.length; i++) {
+			const line = lines[i]
+
+			if (line.trim() === PATCH_END) {
+				break
+			}
+			if (line.startsWith(PATCH_ADD_FILE_PREFIX)) {
+				finishFile()
+				current = { operation: "add", path: line.slice(PATCH_ADD_FILE_PREFIX.length).trim(), hunks: [] }
+				continue
+			}
+			if (line.startsWith(PATCH_DELETE_FILE_PREFIX)) {
+				finishFile()
+				current = { operation: "delete", path: line.slice(PATCH_DELETE_FILE_PREFIX.length).trim(), hunks: [] }
+				continue
+			}
+			if (line.startsWith(PATCH_UPDATE_FILE_PREFIX)) {
+				finishFile()
+				current = { operation: "update", path: line.slice(PATCH_UPDATE_FILE_PREFIX.length).trim(), hunks: [] }
+				continue
+			}
+			if (!current) {
+				if (line.trim()) {
+					throw new Error(`Expected a file operation after '${PATCH_BEGIN}', got: ${line}`)
+				}
+				continue
+			}
+
+			if (current.operation === "add") {
+				if (line.startsWith("+")) {
+					addedLines.push(line.slice(1))
+				} else if (line.trim()) {
+					throw new Error(`Lines of an added file must start with '+', got: ${line}`)
+				}
+				continue
+			}
+			if (current.operation === "delete") {
+				if (line.trim()) {
+					throw new Error(`Unexpected content after '${PATCH_DELETE_FILE_PREFIX}${current.path}': ${line}`)
+				}
+				continue
+			}
+
+			if (line.startsWith(PATCH_MOVE_TO_PREFIX)) {
+				current.movePath = line.slice(PATCH_MOVE_TO_PREFIX.length).trim()
+				continue
+			}
+			if (line.trim() === PATCH_END_OF_FILE) {
+				if (hunkBuilder) {
+					hunkBuilder.hunk.isEndOfFile = true
+				}
+				continue
+			}
+			if (line.startsWith("@@")) {
+				if (hunkBuilder) {
+					current.hunks.push(PatchParser.finishHunk(hunkBuilder))
+				}
+				hunkBuilder = { hunk: PatchParser.parseHunkHeader(line), trailingBareLines: 0 }
+				continue
+			}
+
+			// apply_patch allows the first hunk of a file to omit its @@ line
+			hunkBuilder ??= { hunk: { oldLines: [], newLines: [], isEndOfFile: false }, trailingBareLines: 0 }
+			PatchParser.addHunkLine(hunkBuilder, line)
+		}
+
+		finishFile()
+		return filePatches
+	}
+
+	private static parseUnifiedDiff(lines: string[]): FilePatch[] {
+		const filePatches: FilePatch[] = []
+		let current: FilePatch | undefined
+		let oldPath: string | undefined
+		let hunkBuilder: HunkBuilder | undefined
+
+		const finishHunk = () => {
+			if (hunkBuilder) {
+				current!.hunks.push(PatchParser.finishHunk(hunkBuilder))
+				hunkBuilder = undefined
+			}
+		}
+		const finishFile = () => {
+			if (!current) {
+				return
+			}
+			finishHunk()
+			if (current.operation === "add") {
+				current.content = PatchParser.joinLines(current.hunks.flatMap((hunk) => hunk.newLines))
+				current.hunks = []
+			}
+			filePatches.push(current)
+			current = undefined
+		}
+
+		for (let i = 0; i < lines.length; i++) {
+			const line = lines[i]
+
+			if (line.startsWith("diff --git ")) {
+				finishFile()
+				oldPath = undefined
+				continue
+			}
+			if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+				finishFile()
+				oldPath = PatchParser.parseHeaderPath(line)
+				const newPath = PatchParser.parseHeaderPath(lines[i + 1])
+				i++
+				if (oldPath === DEV_NULL) {
+					current = { operation: "add", path: newPath, hunks: [] }
+				} else if (newPath === DEV_NULL) {
+					current = { operation: "delete", path: oldPath, hunks: [] }
+				} else {
+					current = { operation: "update", path: oldPath, hunks: [] }
+					if (newPath !== oldPath) {
+						current.movePath = newPath
+					}
+				}
+				continue
+			}
+			if (line.startsWith("@@")) {
+				current ??= { operation: "update", path: "", hunks: [] }
+				finishHunk()
+				hunkBuilder = { hunk: PatchParser.parseHunkHeader(line), trailingBareLines: 0 }
+				continue
+			}
+			if (hunkBuilder && (line === "" || line[0] === " " || line[0] === "+" || line[0] === "-")) {
+				PatchParser.addHunkLine(hunkBuilder, line)
+				continue
+			}
+			if (line.startsWith("\\")) {
+				// "\ No newline at end of file"
+				continue
+			}
+			// git metadata (index, mode and similarity lines) and any prose around the diff
+			finishHunk()
+		}
+
+		finishFile()
+		return filePatches
+	}
+
+	private static parseHunkHeader(line: string): PatchHunk {
+		const hunk: PatchHunk = { oldLines: [], newLines: [], isEndOfFile: false }
+		const match = line.match(HUNK_HEADER_REGEX)
+		if (match?.[1] !== undefined) {
+			hunk.oldStart = Number.parseInt(match[1], 10)
+		}
+		const anchor = (match ? match[5] : line.slice(2)).trim()
+		if (anchor) {
+			hunk.anchor = anchor
+		}
+		return hunk
+	}
+
+	private static addHunkLine(builder: HunkBuilder, line: string): void {
+		const { hunk } = builder
+		if (line === "") {
+			// Models often drop the leading space of blank context lines
+			hunk.oldLines.push("")
+			hunk.newLines.push("")
+			builder.trailingBareLines++
+			return
+		}
+		builder.trailingBareLines = 0
+		const text = line.slice(1)
+		if (line[0] === "-") {
+			hunk.oldLines.push(text)
+		} else if (line[0] === "+") {
+			hunk.newLines.push(text)
+		} else {
+			hunk.oldLines.push(text)
+			hunk.newLines.push(text)
+		}
+	}
+
+	/**
+	 * Blank lines at the end of a hunk are more likely separators than context, so leave them out
+	 */
+	private static finishHunk({ hunk, trailingBareLines }: HunkBuilder): PatchHunk {
+		if (trailingBareLines > 0) {
+			hunk.oldLines.splice(hunk.oldLines.length - trailingBareLines)
+			hunk.newLines.splice(hunk.newLines.length - trailingBareLines)
+		}
+		return hunk
+	}
+
+	/**
+	 * Strip the a/ or b/ prefix and any trailing timestamp from a ---/+++ header
+	 */
+	private static parseHeaderPath(line: string): string {
+		const path = line.slice(4).split("\t")[0].trim()
+		if (path === DEV_NULL) {
+			return path
+		}
+		return path.replace(/^[ab]\//, "")
+	}
+
+	private static joinLines(lines: string[]): string {
+		return lines.length ? `${lines.join("\n")}\n` : ""
+	}
+}
@@ -49,7 +49,7 @@ export type MatchResult = [number, number] | false
 /**
  * Version types for diff constructors
  */
-export type DiffVersion = "v1" | "v2"
+export type DiffVersion = "v1" | "v2" | "unified"
 
 /**
  * Constructor function signature
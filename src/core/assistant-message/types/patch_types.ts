@@ -0,0 +1,51 @@
+/**
+ * Type definitions for unified diff and apply_patch parsing
+ * Shared by the patch parser, hunk matcher and unified diff constructor
+ */
+
+// apply_patch envelope markers
+export const PATCH_BEGIN = "*** Begin Patch"
+export const PATCH_END = "*** End Patch"
+export const PATCH_END_OF_FILE = "*** End of File"
+export const PATCH_ADD_FILE_PREFIX = "*** Add File: "
+export const PATCH_DELETE_FILE_PREFIX = "*** Delete File: "
+export const PATCH_UPDATE_FILE_PREFIX = "*** Update File: "
+export const PATCH_MOVE_TO_PREFIX = "*** Move to: "
+
+// Unified diff markers
+export const DEV_NULL = "/dev/null"
+export const HUNK_HEADER_REGEX = /^@@(?: -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))?)? @@ ?(.*)$/
+
+/**
+ * Operation a file patch performs on its file
+ */
+export type FilePatchOperation = "add" | "delete" | "update"
+
+/**
+ * A single hunk of a unified diff
+ * oldLines are the context and removed lines the hunk expects to find in the file,
+ * newLines are the context and added lines that replace them
+ */
+export interface PatchHunk {
+	/** 1-based line number from the hunk header, if the model provided one */
+	oldStart?: number
+	/** Text after the closing @@ (apply_patch uses it as an anchor line) */
+	anchor?: string
+	oldLines: string[]
+	newLines: string[]
+	/** Whether the hunk must match at the end of the file */
+	isEndOfFile: boolean
+}
+
+/**
+ * All changes a patch makes to one file
+ */
+export interface FilePatch {
+	operation: FilePatchOperation
+	path: string
+	/** New path when the file is renamed */
+	movePath?: string
+	hunks: PatchHunk[]
+	/** Full content for added files */
+	content?: string
+}
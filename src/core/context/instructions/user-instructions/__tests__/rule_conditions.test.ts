@@ -0,0 +1,123 @@
+import { expect } from "chai"
+import { describe, it } from "mocha"
+import { evaluateRuleConditions, matchesGlob, parseRuleFrontmatter, resolveInstructionFileActivations } from "../rule_conditions"
+
+describe("parseRuleFrontmatter", () => {
+	it("should return files without frontmatter unchanged", () => {
+		const parsed = parseRuleFrontmatter("Always use tabs.")
+		expect(parsed).to.deep.equal({ frontmatter: {}, body: "Always use tabs." })
+	})
+
+	it("should parse inline lists, dash lists and scalars", () => {
+		const parsed = parseRuleFrontmatter(`---
+description: "Frontend conventions"
+paths: ["web/**", "*.tsx"]
+modes:
+  - act
+---
+Use function components.`)
+
+		expect(parsed.frontmatter).to.deep.equal({
+			description: "Frontend conventions",
+			paths: ["web/**", "*.tsx"],
+			modes: ["act"],
+		})
+		expect(parsed.body).to.equal("Use function components.")
+	})
+
+	it("should read Cursor globs and alwaysApply", () => {
+		const parsed = parseRuleFrontmatter(`---
+description: Go services
+globs: services/**/*.go, {cmd,internal}/**
+alwaysApply: false
+---
+Wrap errors with %w.`)
+
+		expect(parsed.frontmatter).to.deep.equal({
+			description: "Go services",
+			paths: ["services/**/*.go", "{cmd,internal}/**"],
+		})
+	})
+})
+
+describe("matchesGlob", () => {
+	it("should match globstars across directories", () => {
+		expect(matchesGlob("services/api/handlers/user.go", "services/**/*.go")).to.equal(true)
+		expect(matchesGlob("services/main.go", "services/**/*.go")).to.equal(true)
+		expect(matchesGlob("web/src/app.tsx", "services/**/*.go")).to.equal(false)
+	})
+
+	it("should match globs without a slash against the file name", () => {
+		expect(matchesGlob("web/src/components/Button.tsx", "*.tsx")).to.equal(true)
+		expect(matchesGlob("web/src/index.ts", "*.tsx")).to.equal(false)
+	})
+
+	it("should support braces and treat directory globs as prefixes", () => {
+		expect(matchesGlob("cmd/server/main.go", "{cmd,internal}/**")).to.equal(true)
+		expect(matchesGlob("pkg/util.go", "{cmd,internal}/**")).to.equal(false)
+		expect(matchesGlob("./web/package.json", "web")).to.equal(true)
+	})
+})
+
+describe("evaluateRuleConditions", () => {
+	const context = { mode: "act" as const, touchedPaths: ["services/api/main.go"] }
+
+	it("should always apply rules without conditions", () => {
+		expect(evaluateRuleConditions({}, context)).to.deep.equal({ active: true, reason: "always applies" })
+	})
+
+	it("should apply path rules only when a touched file matches", () => {
+		expect(evaluateRuleConditions({ paths: ["services/**/*.go"] }, context)).to.deep.equal({
+			active: true,
+			reason: "services/api/main.go matches services/**/*.go",
+		})
+
+		const inactive = evaluateRuleConditions({ paths: ["web/**"] }, context)
+		expect(inactive.active).to.equal(false)
+		expect(inactive.reason).to.contain("web/**")
+	})
+
+	it("should skip rules restricted to another mode", () => {
+		expect(evaluateRuleConditions({ modes: ["plan"], paths: ["services/**"] }, context)).to.deep.equal({
+			active: false,
+			reason: "only applies in plan mode",
+		})
+		expect(evaluateRuleConditions({ modes: ["act"] }, context)).to.deep.equal({
+			active: true,
+			reason: "applies in act mode",
+		})
+	})
+})
+
+describe("resolveInstructionFileActivations", () => {
+	const files = [
+		{ scope: "", name: "AGENTS.md" },
+		{ scope: "packages/web", name: "packages/web/AGENTS.md" },
+		{ scope: "packages/web/admin", name: "packages/web/admin/CLAUDE.md" },
+		{ scope: "services/api", name: "services/api/AGENTS.md" },
+	]
+	const activeNames = (touchedPaths: string[]) =>
+		resolveInstructionFileActivations(files, touchedPaths)
+			.filter(({ active }) => active)
+			.map(({ file }) => file.name)
+
+	it("should only apply root-level files when nothing nested was touched", () => {
+		expect(activeNames([])).to.deep.equal(["AGENTS.md"])
+		expect(activeNames(["README.md"])).to.deep.equal(["AGENTS.md"])
+	})
+
+	it("should apply the closest file to each touched path", () => {
+		expect(activeNames(["packages/web/admin/page.tsx"])).to.deep.equal(["AGENTS.md", "packages/web/admin/CLAUDE.md"])
+		expect(activeNames(["packages/web/src/app.tsx", "services/api/main.go"])).to.deep.equal([
+			"AGENTS.md",
+			"packages/web/AGENTS.md",
+			"services/api/AGENTS.md",
+		])
+	})
+
+	it("should explain why nested files are inactive", () => {
+		const [, web] = resolveInstructionFileActivations(files, ["packages/web/admin/page.tsx"])
+		expect(web.active).to.equal(false)
+		expect(web.reason).to.contain("closer instruction file")
+	})
+})
@@ -0,0 +1,320 @@
+import type { Mode } from "@shared/storage/types"
+
+/**
+ * Conditions a rule file can declare in YAML frontmatter:
+ *
+ *   ---
+ *   description: Frontend conventions
+ *   paths: ["web/**", "*.tsx"]
+ *   modes: act
+ *   ---
+ *
+ * Cursor `.mdc` files use `globs` and `alwaysApply` for the same purpose, so both are understood.
+ */
+export interface RuleFrontmatter {
+	description?: string
+	paths?: string[]
+	modes?: Mode[]
+	alwaysApply?: boolean
+}
+
+/**
+ * A rule file split into its frontmatter and the instructions injected into the prompt
+ */
+export interface ParsedRule {
+	frontmatter: RuleFrontmatter
+	body: string
+}
+
+/**
+ * What the current task looks like when deciding whether a conditional rule applies
+ */
+export interface RuleActivationContext {
+	mode: Mode
+	/** Workspace-relative, forward-slash paths the task has read, edited or mentioned */
+	touchedPaths: string[]
+}
+
+/**
+ * Whether a rule is injected into the prompt, and why
+ */
+export interface RuleActivation {
+	rulePath: string
+	active: boolean
+	reason: string
+	description?: string
+}
+
+const FRONTMATTER_REGEX = /^---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/
+const MODES: Mode[] = ["plan", "act"]
+
+/**
+ * Split a rule file into frontmatter and body
+ * Only the flat subset of YAML rule files need is supported: scalars, inline lists and dash lists.
+ * Files without frontmatter are returned unchanged and always apply.
+ */
+export function parseRuleFrontmatter(content: string): ParsedRule {
+	const match = content.match(FRONTMATTER_REGEX)
+	if (!match) {
+		return { frontmatter: {}, body: content }
+	}
+
+	const values = parseYamlBlock(match[1])
+	const frontmatter: RuleFrontmatter = {}
+
+	const description = values.description
+	if (typeof description === "string" && description) {
+		frontmatter.description = description
+	}
+
+	const paths = [...toList(values.paths), ...toList(values.globs)]
+	if (paths.length > 0) {
+		frontmatter.paths = paths
+	}
+
+	const modes = toList(values.modes ?? values.mode)
+		.map((mode) => mode.toLowerCase())
+		.filter((mode): mode is Mode => MODES.includes(mode as Mode))
+	if (modes.length > 0) {
+		frontmatter.modes = modes
+	}
+
+	if (values.alwaysApply === "true") {
+		frontmatter.alwaysApply = true
+	}
+
+	return { frontmatter, body: content.slice(match[0].length).trim() }
+}
+
+/**
+ * Decide whether a rule applies to the current task
+ * Mode restrictions are checked first, then path globs against every touched file.
+ */
+export function evaluateRuleConditions(
+	frontmatter: RuleFrontmatter,
+	context: RuleActivationContext,
+): Pick<RuleActivation, "active" | "reason"> {
+	const { modes, paths, alwaysApply } = frontmatter
+
+	if (modes && !modes.includes(context.mode)) {
+		return { active: false, reason: `only applies in ${modes.join("/")} mode` }
+	}
+
+	if (!paths || alwaysApply) {
+		return { active: true, reason: modes ? `applies in ${context.mode} mode` : "always applies" }
+	}
+
+	for (const touchedPath of context.touchedPaths) {
+		const pattern = paths.find((glob) => matchesGlob(touchedPath, glob))
+		if (pattern) {
+			return { active: true, reason: `${touchedPath} matches ${pattern}` }
+		}
+	}
+
+	return { active: false, reason: `no file touched or mentioned in this task matches ${paths.join(", ")}` }
+}
+
+/**
+ * Match a workspace-relative path against a glob
+ * Supports `**`, `*`, `?`, `[...]` and `{a,b}`. Globs without a slash match a file or directory name at any depth.
+ */
+export function matchesGlob(filePath: string, glob: string): boolean {
+	const normalizedPath = filePath.replace(/\\/g, "/").replace(/^\.\//, "")
+	const normalizedGlob = glob
+		.trim()
+		.replace(/\\/g, "/")
+		.replace(/^\.?\//, "")
+	if (!normalizedGlob) {
+		return false
+	}
+
+	const regex = globToRegExp(normalizedGlob)
+	if (normalizedGlob.includes("/")) {
+		return regex.test(normalizedPath)
+	}
+	// Like .gitignore, a slashless glob matches a file or directory name at any level
+	const segments = normalizedPath.split("/")
+	return segments.some((_, index) => regex.test(segments.slice(index).join("/")))
+}
+
+function globToRegExp(glob: string): RegExp {
+	let source = ""
+	let braceDepth = 0
+
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i]
+		switch (char) {
+			case "*":
+				if (glob[i + 1] === "*") {
+					// "**/" matches zero or more directories, a trailing "**" matches everything below
+					if (glob[i + 2] === "/") {
+						source += "(?:.*/)?"
+						i += 2
+					} else {
+						source += ".*"
+						i++
+					}
+				} else {
+					source += "[^/]*"
+				}
+				break
+			case "?":
+				source += "[^/]"
+				break
+			case "[": {
+				const end = glob.indexOf("]", i + 1)
+				if (end === -1) {
+					source += "\\["
+					break
+				}
+				const body = glob
+					.slice(i + 1, end)
+					.replace(/^!/, "^")
+					.replace(/\\/g, "\\\\")
+				source += `[${body}]`
+				i = end
+				break
+			}
+			case "{":
+				braceDepth++
+				source += "(?:"
+				break
+			case "}":
+				if (braceDepth > 0) {
+					braceDepth--
+					source += ")"
+				} else {
+					source += "\\}"
+				}
+				break
+			case ",":
+				source += braceDepth > 0 ? "|" : ","
+				break
+			default:
+				source += char.replace(/[.+^$()|\\]/g, "\\$&")
+		}
+	}
+
+	// A directory glob like "services/go" also covers everything inside it
+	return new RegExp(`^${source}(?:/.*)?$`)
+}
+
+/**
+ * Parse "key: value" lines, inline "[a, b]" lists and indented "- item" lists
+ */
+function parseYamlBlock(block: string): Record<string, string | string[]> {
+	const values: Record<string, string | string[]> = {}
+	let listKey: string | undefined
+
+	for (const rawLine of block.split(/\r?\n/)) {
+		const line = rawLine.replace(/\s+#.*$/, "")
+		if (!line.trim() || line.trim().startsWith("#")) {
+			continue
+		}
+
+		const listItem = line.match(/^\s+-\s*(.*)$/) ?? line.match(/^-\s*(.*)$/)
+		if (listItem && listKey) {
+			const list = values[listKey]
+			values[listKey] = [...(Array.isArray(list) ? list : []), unquote(listItem[1])]
+			continue
+		}
+
+		const entry = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/)
+		if (!entry) {
+			continue
+		}
+		const [, key, value] = entry
+		listKey = undefined
+		if (!value) {
+			listKey = key
+			values[key] = []
+		} else if (value.startsWith("[") && value.endsWith("]")) {
+			values[key] = splitList(value.slice(1, -1))
+		} else {
+			values[key] = unquote(value)
+		}
+	}
+
+	return values
+}
+
+function toList(value: string | string[] | undefined): string[] {
+	if (value === undefined) {
+		return []
+	}
+	return (Array.isArray(value) ? value : splitList(value)).filter(Boolean)
+}
+
+/**
+ * Split on commas outside of braces, so "{a,b}/**" stays a single glob
+ */
+function splitList(value: string): string[] {
+	const items: string[] = []
+	let depth = 0
+	let current = ""
+	for (const char of value) {
+		if (char === "{") {
+			depth++
+		} else if (char === "}") {
+			depth = Math.max(0, depth - 1)
+		} else if (char === "," && depth === 0) {
+			items.push(unquote(current))
+			current = ""
+			continue
+		}
+		current += char
+	}
+	items.push(unquote(current))
+	return items.filter(Boolean)
+}
+
+function unquote(value: string): string {
+	const trimmed = value.trim()
+	if (trimmed.length >= 2 && (trimmed[0] === '"' || trimmed[0] === "'") && trimmed[trimmed.length - 1] === trimmed[0]) {
+		return trimmed.slice(1, -1)
+	}
+	return trimmed
+}
+
+/**
+ * Decide which nested instruction files (AGENTS.md, CLAUDE.md, ...) apply to the touched paths
+ * Root-level files always apply. Below the root, each touched path only picks up the closest directory with instruction files.
+ *
+ * @param files - Instruction files with `scope`, their workspace-relative directory ("" for the root)
+ * @param touchedPaths - Workspace-relative paths the task has read, edited or mentioned
+ */
+export function resolveInstructionFileActivations<T extends { scope: string }>(
+	files: T[],
+	touchedPaths: string[],
+): Array<Pick<RuleActivation, "active" | "reason"> & { file: T }> {
+	const isUnder = (filePath: string, scope: string) => filePath === scope || filePath.startsWith(`${scope}/`)
+	const nestedScopes = [...new Set(files.map((file) => file.scope).filter(Boolean))]
+
+	// Closest scope per touched path, remembering one path that selected it for the reason
+	const selectedScopes = new Map<string, string>()
+	for (const touchedPath of touchedPaths) {
+		const nearest = nestedScopes
+			.filter((scope) => isUnder(touchedPath, scope))
+			.reduce<string | undefined>(
+				(closest, scope) => (!closest || scope.length > closest.length ? scope : closest),
+				undefined,
+			)
+		if (nearest && !selectedScopes.has(nearest)) {
+			selectedScopes.set(nearest, touchedPath)
+		}
+	}
+
+	return files.map((file) => {
+		if (!file.scope) {
+			return { file, active: true, reason: "applies to the whole workspace" }
+		}
+		const selectedBy = selectedScopes.get(file.scope)
+		if (selectedBy) {
+			return { file, active: true, reason: `closest instruction file to ${selectedBy}` }
+		}
+		if (touchedPaths.some((touchedPath) => isUnder(touchedPath, file.scope))) {
+			return { file, active: false, reason: `a closer instruction file applies to the files touched under ${file.scope}/` }
+		}
+		return { file, active: false, reason: `no file touched or mentioned in this task is under ${file.scope}/` }
+	})
+}
@@ -1,20 +1,42 @@
 import { formatResponse } from "@core/prompts/response_formatters"
-import { ensureRulesDirectoryExists, ensureWorkflowsDirectoryExists, GlobalFileNames } from "@core/storage/disk"
+import { ensureRulesDirectoryExists, ensureWorkflowsDirectoryExists, GlobalFileNames, getTaskMetadata } from "@core/storage/disk"
 import { ClineRulesToggles } from "@shared/cline-rules"
+import type { Mode } from "@shared/storage/types"
 import { fileExistsAtPath, isDirectory, readDirectory } from "@utils/fs"
 import fs from "fs/promises"
+import { globby } from "globby"
 import * as path from "path"
 import { Controller } from "@/core/controller"
+import {
+	evaluateRuleConditions,
+	parseRuleFrontmatter,
+	type RuleActivation,
+	type RuleActivationContext,
+	resolveInstructionFileActivations,
+} from "./rule_conditions"
+
+// Directories never searched for nested AGENTS.md / CLAUDE.md files
+const AGENTS_RULES_IGNORE = ["**/node_modules/**", "**/.*/**", "**/dist/**", "**/out/**", "**/build/**", "**/vendor/**"]
+const AGENTS_RULES_MAX_DEPTH = 8
 
 /**
- * Core rule loading logic - handles any rule type
+ * A rule file read from disk, labelled with its path relative to the rules directory
  */
-async function loadRulesFromPath(
+interface RuleFile {
+	filePath: string
+	label?: string
+	content: string
+}
+
+/**
+ * Read every enabled, non-empty rule file at a path (single file or directory)
+ */
+async function readRuleFiles(
 	rulePath: string,
 	toggles: ClineRulesToggles,
 	allowedExtensions: string[] = [],
 	excludePaths: string[][] = [],
-): Promise<string[]> {
+): Promise<RuleFile[]> {
 	const pathExists = await fileExistsAtPath(rulePath)
 	if (!pathExists) {
 		return []
@@ -28,12 +50,12 @@ async function loadRulesFromPath(
 			return []
 		}
 		const content = (await fs.readFile(rulePath, "utf8")).trim()
-		return content ? [content] : []
+		return content ? [{ filePath: rulePath, content }] : []
 	}
 
 	// Directory case - read all files
 	const files = await readDirectory(rulePath, excludePaths)
-	const contents: string[] = []
+	const ruleFiles: RuleFile[] = []
 
 	for (const file of files) {
 		const filePath = path.resolve(rulePath, file)
@@ -53,9 +75,37 @@ async function loadRulesFromPath(
 
 		const content = (await fs.readFile(filePath, "utf8")).trim()
 		if (content) {
-			const relativePath = path.relative(rulePath, filePath)
-			contents.push(`${relativePath}\n${content}`)
+			ruleFiles.push({ filePath, label: path.relative(rulePath, filePath), content })
+		}
+	}
+
+	return ruleFiles
+}
+
+function formatRuleFile(label: string | undefined, content: string): string {
+	return label ? `${label}\n${content}` : content
+}
+
+/**
+ * Core rule loading logic - handles any rule type
+ * Frontmatter is stripped, and when an activation context is given, rules whose conditions don't match are skipped.
+ */
+async function loadRulesFromPath(
+	rulePath: string,
+	toggles: ClineRulesToggles,
+	allowedExtensions: string[] = [],
+	excludePaths: string[][] = [],
+	activation?: RuleActivationContext,
+): Promise<string[]> {
+	const ruleFiles = await readRuleFiles(rulePath, toggles, allowedExtensions, excludePaths)
+	const contents: string[] = []
+
+	for (const { label, content } of ruleFiles) {
+		const { frontmatter, body } = parseRuleFrontmatter(content)
+		if (!body || (activation && !evaluateRuleConditions(frontmatter, activation).active)) {
+			continue
 		}
+		contents.push(formatRuleFile(label, body))
 	}
 
 	return contents
@@ -107,10 +157,13 @@ async function syncToggles(
 /**
  * Get global Cline rules
  */
-export async function getGlobalClineRules(toggles: ClineRulesToggles): Promise<string | undefined> {
+export async function getGlobalClineRules(
+	toggles: ClineRulesToggles,
+	activation?: RuleActivationContext,
+): Promise<string | undefined> {
 	try {
 		const rulesPath = await ensureRulesDirectoryExists()
-		const contents = await loadRulesFromPath(rulesPath, toggles)
+		const contents = await loadRulesFromPath(rulesPath, toggles, [], [], activation)
 
 		if (contents.length === 0) {
 			return undefined
@@ -126,10 +179,14 @@ export async function getGlobalClineRules(toggles: ClineRulesToggles): Promise<s
 /**
  * Get local Cline rules
  */
-export async function getLocalClineRules(cwd: string, toggles: ClineRulesToggles): Promise<string | undefined> {
+export async function getLocalClineRules(
+	cwd: string,
+	toggles: ClineRulesToggles,
+	activation?: RuleActivationContext,
+): Promise<string | undefined> {
 	try {
 		const rulesPath = path.resolve(cwd, GlobalFileNames.clineRules)
-		const contents = await loadRulesFromPath(rulesPath, toggles, [], [[".clinerules", "workflows"]])
+		const contents = await loadRulesFromPath(rulesPath, toggles, [], [[".clinerules", "workflows"]], activation)
 
 		if (contents.length === 0) {
 			return undefined
@@ -149,13 +206,17 @@ export async function getLocalClineRules(cwd: string, toggles: ClineRulesToggles
 /**
  * Get local Cursor rules (supports both .cursorrules file and .cursor/rules directory)
  */
-export async function getLocalCursorRules(cwd: string, toggles: ClineRulesToggles): Promise<string[]> {
+export async function getLocalCursorRules(
+	cwd: string,
+	toggles: ClineRulesToggles,
+	activation?: RuleActivationContext,
+): Promise<string[]> {
 	const results: string[] = []
 
 	// Check .cursorrules file
 	try {
 		const filePath = path.resolve(cwd, GlobalFileNames.cursorRulesFile)
-		const contents = await loadRulesFromPath(filePath, toggles)
+		const contents = await loadRulesFromPath(filePath, toggles, [], [], activation)
 		if (contents.length > 0) {
 			results.push(formatResponse.cursorRulesLocalFileInstructions(cwd, contents[0]))
 		}
@@ -166,7 +227,7 @@ export async function getLocalCursorRules(cwd: string, toggles: ClineRulesToggle
 	// Check .cursor/rules directory
 	try {
 		const dirPath = path.resolve(cwd, GlobalFileNames.cursorRulesDir)
-		const contents = await loadRulesFromPath(dirPath, toggles, [".mdc"])
+		const contents = await loadRulesFromPath(dirPath, toggles, [".mdc"], [], activation)
 		if (contents.length > 0) {
 			results.push(formatResponse.cursorRulesLocalDirectoryInstructions(cwd, contents.join("\n\n")))
 		}
@@ -180,10 +241,14 @@ export async function getLocalCursorRules(cwd: string, toggles: ClineRulesToggle
 /**
  * Get local Windsurf rules
  */
-export async function getLocalWindsurfRules(cwd: string, toggles: ClineRulesToggles): Promise<string | undefined> {
+export async function getLocalWindsurfRules(
+	cwd: string,
+	toggles: ClineRulesToggles,
+	activation?: RuleActivationContext,
+): Promise<string | undefined> {
 	try {
 		const rulesPath = path.resolve(cwd, GlobalFileNames.windsurfRules)
-		const contents = await loadRulesFromPath(rulesPath, toggles)
+		const contents = await loadRulesFromPath(rulesPath, toggles, [], [], activation)
 
 		if (contents.length === 0) {
 			return undefined
@@ -195,19 +260,97 @@ export async function getLocalWindsurfRules(cwd: string, toggles: ClineRulesTogg
 	}
 }
 
+/**
+ * Find AGENTS.md and CLAUDE.md files at any depth, plus the root copilot instructions
+ */
+async function findAgentsRuleFiles(cwd: string): Promise<string[]> {
+	const nestedFiles = await globby([`**/${GlobalFileNames.agentsRules}`, `**/${GlobalFileNames.claudeRules}`], {
+		cwd,
+		absolute: true,
+		gitignore: true,
+		ignore: AGENTS_RULES_IGNORE,
+		deep: AGENTS_RULES_MAX_DEPTH,
+		suppressErrors: true,
+	})
+	const ruleFiles = nestedFiles.map((filePath) => path.resolve(filePath))
+
+	const copilotInstructionsPath = path.resolve(cwd, GlobalFileNames.copilotInstructions)
+	if (await fileExistsAtPath(copilotInstructionsPath)) {
+		ruleFiles.push(copilotInstructionsPath)
+	}
+
+	return ruleFiles.sort()
+}
+
+/**
+ * Workspace-relative directory an instruction file governs ("" for the root)
+ * copilot-instructions.md lives in .github/ but applies to the whole repository.
+ */
+function getAgentsRuleScope(cwd: string, filePath: string): string {
+	if (filePath === path.resolve(cwd, GlobalFileNames.copilotInstructions)) {
+		return ""
+	}
+	return path.relative(cwd, path.dirname(filePath)).split(path.sep).join("/")
+}
+
+/**
+ * Resolve which enabled agent instruction files apply to the touched paths
+ * The toggles come from refreshAllToggles, which has just searched the workspace, so they list every file.
+ */
+function resolveAgentsRuleFiles(cwd: string, toggles: ClineRulesToggles, touchedPaths: string[]) {
+	const enabledFiles = Object.keys(toggles)
+		.filter((filePath) => toggles[filePath] !== false)
+		.sort()
+	const scopedFiles = enabledFiles.map((filePath) => ({ filePath, scope: getAgentsRuleScope(cwd, filePath) }))
+	return resolveInstructionFileActivations(scopedFiles, touchedPaths)
+}
+
+/**
+ * Get local agent instruction files (AGENTS.md, CLAUDE.md and .github/copilot-instructions.md)
+ * Nested files only apply once the task touches something below them, and the closest one wins.
+ */
+export async function getLocalAgentsRules(
+	cwd: string,
+	toggles: ClineRulesToggles,
+	activation?: RuleActivationContext,
+): Promise<string | undefined> {
+	try {
+		const resolved = resolveAgentsRuleFiles(cwd, toggles, activation?.touchedPaths ?? [])
+		const contents: string[] = []
+
+		for (const { file, active } of resolved) {
+			if (!active) {
+				continue
+			}
+			const [content] = await loadRulesFromPath(file.filePath, toggles, [], [], activation)
+			if (content) {
+				contents.push(formatRuleFile(path.relative(cwd, file.filePath).toPosix(), content))
+			}
+		}
+
+		if (contents.length === 0) {
+			return undefined
+		}
+
+		return formatResponse.agentsRulesLocalFileInstructions(cwd, contents.join("\n\n"))
+	} catch {
+		return undefined
+	}
+}
+
 /**
  * Get global workflows
  */
 export async function getGlobalWorkflows(toggles: ClineRulesToggles): Promise<string | undefined> {
 	try {
 		const workflowsPath = await ensureWorkflowsDirectoryExists()
-		const contents = await loadRulesFromPath(workflowsPath, toggles)
+		const workflowFiles = await readRuleFiles(workflowsPath, toggles)
 
-		if (contents.length === 0) {
+		if (workflowFiles.length === 0) {
 			return undefined
 		}
 
-		return contents.join("\n\n")
+		return workflowFiles.map(({ label, content }) => formatRuleFile(label, content)).join("\n\n")
 	} catch {
 		return undefined
 	}
@@ -219,18 +362,112 @@ export async function getGlobalWorkflows(toggles: ClineRulesToggles): Promise<st
 export async function getLocalWorkflows(cwd: string, toggles: ClineRulesToggles): Promise<string | undefined> {
 	try {
 		const workflowsPath = path.resolve(cwd, GlobalFileNames.workflows)
-		const contents = await loadRulesFromPath(workflowsPath, toggles)
+		const workflowFiles = await readRuleFiles(workflowsPath, toggles)
 
-		if (contents.length === 0) {
+		if (workflowFiles.length === 0) {
 			return undefined
 		}
 
-		return contents.join("\n\n")
+		return workflowFiles.map(({ label, content }) => formatRuleFile(label, content)).join("\n\n")
 	} catch {
 		return undefined
 	}
 }
 
+/**
+ * Build the context conditional rules are evaluated against
+ * Every file the task has read, edited or mentioned counts as touched.
+ */
+export async function getRuleActivationContext(
+	cwd: string,
+	taskId: string | undefined,
+	mode: Mode,
+): Promise<RuleActivationContext> {
+	if (!taskId) {
+		return { mode, touchedPaths: [] }
+	}
+
+	const metadata = await getTaskMetadata(taskId)
+	const touchedPaths = new Set<string>()
+	for (const entry of metadata.files_in_context) {
+		const relativePath = path.isAbsolute(entry.path) ? path.relative(cwd, entry.path) : entry.path
+		touchedPaths.add(relativePath.split(path.sep).join("/"))
+	}
+
+	return { mode, touchedPaths: [...touchedPaths] }
+}
+
+/**
+ * Report whether each enabled rule file is currently injected into the prompt, and why
+ */
+export async function getRuleActivations(
+	cwd: string,
+	toggles: {
+		globalClineRules: ClineRulesToggles
+		localClineRules: ClineRulesToggles
+		cursorRules: ClineRulesToggles
+		windsurfRules: ClineRulesToggles
+		agentsRules: ClineRulesToggles
+	},
+	activation: RuleActivationContext,
+): Promise<RuleActivation[]> {
+	const sources: Promise<RuleFile[]>[] = [
+		ensureRulesDirectoryExists().then((rulesPath) => readRuleFiles(rulesPath, toggles.globalClineRules)),
+		readRuleFiles(path.resolve(cwd, GlobalFileNames.clineRules), toggles.localClineRules, [], [[".clinerules", "workflows"]]),
+		readRuleFiles(path.resolve(cwd, GlobalFileNames.cursorRulesFile), toggles.cursorRules),
+		readRuleFiles(path.resolve(cwd, GlobalFileNames.cursorRulesDir), toggles.cursorRules, [".mdc"]),
+		readRuleFiles(path.resolve(cwd, GlobalFileNames.windsurfRules), toggles.windsurfRules),
+	]
+
+	const activations: RuleActivation[] = []
+	for (const ruleFiles of await Promise.all(sources.map((source) => source.catch((): RuleFile[] => [])))) {
+		for (const { filePath, content } of ruleFiles) {
+			const { frontmatter } = parseRuleFrontmatter(content)
+			activations.push({
+				rulePath: filePath,
+				...evaluateRuleConditions(frontmatter, activation),
+				description: frontmatter.description,
+			})
+		}
+	}
+
+	// Agent instruction files must be in scope before their frontmatter is considered
+	for (const { file, active, reason } of resolveAgentsRuleFiles(cwd, toggles.agentsRules, activation.touchedPaths)) {
+		const content = (await fs.readFile(file.filePath, "utf8").catch(() => "")).trim()
+		if (!content) {
+			continue
+		}
+		const { frontmatter } = parseRuleFrontmatter(content)
+		const conditions = active ? evaluateRuleConditions(frontmatter, activation) : { active, reason }
+		activations.push({ rulePath: file.filePath, ...conditions, description: frontmatter.description })
+	}
+
+	return activations
+}
+
+/**
+ * Refresh the global and local workflow toggles for a workspace
+ * Cheaper than refreshAllToggles, which also searches the workspace for agent instruction files
+ */
+export async function refreshWorkflowToggles(
+	controller: Controller,
+	workingDirectory: string,
+): Promise<{ globalWorkflows: ClineRulesToggles; localWorkflows: ClineRulesToggles }> {
+	// Global workflows
+	const globalWorkflowsPath = await ensureWorkflowsDirectoryExists()
+	const globalWorkflowsOld = controller.stateManager.getGlobalSettingsKey("globalWorkflowToggles")
+	const globalWorkflows = await syncToggles(globalWorkflowsPath, globalWorkflowsOld)
+	controller.stateManager.setGlobalState("globalWorkflowToggles", globalWorkflows)
+
+	// Local workflows
+	const localWorkflowsPath = path.resolve(workingDirectory, GlobalFileNames.workflows)
+	const localWorkflowsOld = controller.stateManager.getWorkspaceStateKey("workflowToggles")
+	const localWorkflows = await syncToggles(localWorkflowsPath, localWorkflowsOld)
+	controller.stateManager.setWorkspaceState("workflowToggles", localWorkflows)
+
+	return { globalWorkflows, localWorkflows }
+}
+
 /**
  * Refresh all toggles for a workspace
  */
@@ -244,6 +481,7 @@ export async function refreshAllToggles(
 	localWorkflows: ClineRulesToggles
 	cursorRules: ClineRulesToggles
 	windsurfRules: ClineRulesToggles
+	agentsRules: ClineRulesToggles
 }> {
 	// Global Cline rules
 	const globalClineRulesPath = await ensureRulesDirectoryExists()
@@ -257,17 +495,7 @@ export async function refreshAllToggles(
 	const localClineRules = await syncToggles(localClineRulesPath, localClineRulesOld, [], [[".clinerules", "workflows"]])
 	controller.stateManager.setWorkspaceState("localClineRulesToggles", localClineRules)
 
-	// Global workflows
-	const globalWorkflowsPath = await ensureWorkflowsDirectoryExists()
-	const globalWorkflowsOld = controller.stateManager.getGlobalSettingsKey("globalWorkflowToggles")
-	const globalWorkflows = await syncToggles(globalWorkflowsPath, globalWorkflowsOld)
-	controller.stateManager.setGlobalState("globalWorkflowToggles", globalWorkflows)
-
-	// Local workflows
-	const localWorkflowsPath = path.resolve(workingDirectory, GlobalFileNames.workflows)
-	const localWorkflowsOld = controller.stateManager.getWorkspaceStateKey("workflowToggles")
-	const localWorkflows = await syncToggles(localWorkflowsPath, localWorkflowsOld)
-	controller.stateManager.setWorkspaceState("workflowToggles", localWorkflows)
+	const { globalWorkflows, localWorkflows } = await refreshWorkflowToggles(controller, workingDirectory)
 
 	// Cursor rules (two locations)
 	const cursorRulesOld = controller.stateManager.getWorkspaceStateKey("localCursorRulesToggles")
@@ -282,6 +510,14 @@ export async function refreshAllToggles(
 	const windsurfRules = await syncToggles(windsurfRulesPath, windsurfRulesOld)
 	controller.stateManager.setWorkspaceState("localWindsurfRulesToggles", windsurfRules)
 
+	// Agent instruction files (AGENTS.md, CLAUDE.md at any depth, plus copilot instructions)
+	const agentsRulesOld = controller.stateManager.getWorkspaceStateKey("localAgentsRulesToggles")
+	const agentsRules: ClineRulesToggles = {}
+	for (const filePath of await findAgentsRuleFiles(workingDirectory)) {
+		agentsRules[filePath] = agentsRulesOld[filePath] ?? true
+	}
+	controller.stateManager.setWorkspaceState("localAgentsRulesToggles", agentsRules)
+
 	return {
 		globalClineRules,
 		localClineRules,
@@ -289,6 +525,7 @@ export async function refreshAllToggles(
 		localWorkflows,
 		cursorRules,
 		windsurfRules,
+		agentsRules,
 	}
 }
 
@@ -377,6 +614,10 @@ export async function deleteRuleFile(
 				const toggles = controller.stateManager.getWorkspaceStateKey("localWindsurfRulesToggles")
 				delete toggles[rulePath]
 				controller.stateManager.setWorkspaceState("localWindsurfRulesToggles", toggles)
+			} else if (type === "agents") {
+				const toggles = controller.stateManager.getWorkspaceStateKey("localAgentsRulesToggles")
+				delete toggles[rulePath]
+				controller.stateManager.setWorkspaceState("localAgentsRulesToggles", toggles)
 			} else {
 				const toggles = controller.stateManager.getWorkspaceStateKey("localClineRulesToggles")
 				delete toggles[rulePath]
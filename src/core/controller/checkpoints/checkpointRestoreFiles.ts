@@ -0,0 +1,22 @@
+import { CheckpointRestoreFilesRequest, CheckpointRestoreFilesResponse } from "@shared/proto/cline/checkpoints"
+import { Controller } from ".."
+
+/**
+ * Restores selected files from one of the current task's checkpoints
+ * @param controller The controller instance
+ * @param request The checkpoint hash and the paths to restore
+ * @returns The paths that were restored and those that were deleted
+ * @throws Error if there is no active task or its checkpoint manager cannot restore files
+ */
+export async function checkpointRestoreFiles(
+	controller: Controller,
+	request: CheckpointRestoreFilesRequest,
+): Promise<CheckpointRestoreFilesResponse> {
+	const checkpointManager = controller.task?.checkpointManager
+	if (!checkpointManager?.restoreFiles) {
+		throw new Error("No active task with checkpoints to restore files from")
+	}
+
+	const result = await checkpointManager.restoreFiles(request.hash, request.paths)
+	return CheckpointRestoreFilesResponse.create(result)
+}
@@ -0,0 +1,27 @@
+import { CheckpointFileChange, CheckpointInfo, CheckpointList } from "@shared/proto/cline/checkpoints"
+import { EmptyRequest } from "@shared/proto/cline/common"
+import { Controller } from ".."
+
+/**
+ * Lists the current task's checkpoints, oldest first, with the files each one changed
+ * @param controller The controller instance
+ * @param _request The empty request
+ * @returns The checkpoints, or an empty list when there is no task or checkpoints are unsupported
+ */
+export async function listCheckpoints(controller: Controller, _request: EmptyRequest): Promise<CheckpointList> {
+	const checkpoints = (await controller.task?.checkpointManager?.listCheckpoints?.()) ?? []
+
+	return CheckpointList.create({
+		checkpoints: checkpoints.map((checkpoint) =>
+			CheckpointInfo.create({
+				messageTs: checkpoint.messageTs,
+				hash: checkpoint.hash,
+				type: checkpoint.type,
+				isCheckedOut: checkpoint.isCheckedOut,
+				changedFiles: checkpoint.changedFiles.map((file) =>
+					CheckpointFileChange.create({ path: file.relativePath, status: file.status }),
+				),
+			}),
+		),
+	})
+}
@@ -1,5 +1,7 @@
+import { registerTaskLockManager, releaseTaskLocks } from "@core/locks/session_locks"
 import { StateManager } from "@core/storage/StateManager"
 import { Task } from "@core/task"
+import type { SubagentTaskHandle } from "@core/task/subagents"
 import { Logger } from "@services/logging/Logger"
 import { McpHub } from "@services/mcp/McpHub"
 import type { HistoryItem } from "@shared/HistoryItem"
@@ -16,6 +18,8 @@ import type { TaskCreationParams } from "../types/controller_types"
  */
 export class TaskCoordinator {
 	private readonly NEW_USER_TASK_COUNT_THRESHOLD = 10
+	private readonly SUBAGENT_INITIALIZATION_TIMEOUT = 30_000
+	private lastSubagentTaskId = 0
 
 	constructor(
 		private controller: Controller,
@@ -73,6 +77,7 @@ export class TaskCoordinator {
 			files: params.files,
 			historyItem: params.historyItem,
 			taskId,
+			startSubagentTask: (prompt) => this.createSubagentTask(taskId, prompt),
 		})
 
 		// Emit task created event
@@ -84,6 +89,57 @@ export class TaskCoordinator {
 		return taskId
 	}
 
+	/**
+	 * Start a sub-agent task for a parent task's new_task fan-out
+	 *
+	 * The child runs alongside the current task instead of replacing it. It stays off the
+	 * webview, gets its own file lock holder, and is driven and aborted by whoever started it.
+	 */
+	async createSubagentTask(parentTaskId: string, prompt: string): Promise<SubagentTaskHandle> {
+		// Sub-agents started in the same millisecond still need distinct IDs
+		this.lastSubagentTaskId = Math.max(Date.now(), this.lastSubagentTaskId + 1)
+		const taskId = String(this.lastSubagentTaskId)
+		registerTaskLockManager(taskId)
+
+		const task: Task = new Task({
+			controller: this.controller,
+			mcpHub: this.mcpHub,
+			updateTaskHistory: (historyItem) => this.updateTaskHistory(historyItem),
+			postStateToWebview: async () => {},
+			reinitExistingTaskFromId: async () => {},
+			cancelTask: () => task.abortTask(),
+			shellIntegrationTimeout: this.stateManager.getGlobalSettingsKey("shellIntegrationTimeout"),
+			terminalReuseEnabled: this.stateManager.getGlobalStateKey("terminalReuseEnabled") ?? true,
+			terminalOutputLineLimit: this.stateManager.getGlobalSettingsKey("terminalOutputLineLimit") ?? 500,
+			defaultTerminalProfile: this.stateManager.getGlobalSettingsKey("defaultTerminalProfile") ?? "default",
+			cwd: this.controller.workspaceCoordinator.getCwd() || (await getCwd(getDesktopDir())),
+			stateManager: this.stateManager,
+			workspaceManager: this.controller.workspaceCoordinator.getWorkspaceManager(),
+			task: prompt,
+			taskId,
+			parentTaskId,
+		})
+
+		// Task components are initialized asynchronously; the handle needs its messages and abort
+		try {
+			await pWaitFor(() => task.messageStateHandler !== undefined, {
+				timeout: this.SUBAGENT_INITIALIZATION_TIMEOUT,
+			})
+		} catch (error) {
+			await task.abortTask().catch(() => {})
+			releaseTaskLocks(taskId)
+			throw new Error(`Sub-agent task ${taskId} failed to initialize: ${error instanceof Error ? error.message : error}`)
+		}
+
+		return {
+			taskId,
+			getMessages: () => task.messageStateHandler.getClineMessages(),
+			isAborted: () => task.taskState.abort,
+			respond: (response, text) => task.handleWebviewAskResponse(response, text),
+			abort: () => task.abortTask(),
+		}
+	}
+
 	/**
 	 * Cancel current task with graceful abort
 	 */
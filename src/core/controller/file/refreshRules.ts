@@ -1,4 +1,8 @@
-import { refreshAllToggles } from "@core/context/instructions/user-instructions/rule_loader"
+import {
+	getRuleActivationContext,
+	getRuleActivations,
+	refreshAllToggles,
+} from "@core/context/instructions/user-instructions/rule_loader"
 import { EmptyRequest } from "@shared/proto/cline/common"
 import { RefreshedRules } from "@shared/proto/cline/file"
 import { getCwd, getDesktopDir } from "@/utils/path"
@@ -6,14 +10,21 @@ import type { Controller } from "../index"
 
 /**
  * Refreshes all rule toggles (Cline, External, and Workflows)
+ * and reports which rules currently apply to the active task, and why
  * @param controller The controller instance
  * @param _request The empty request
- * @returns RefreshedRules containing updated toggles for all rule types
+ * @returns RefreshedRules containing updated toggles for all rule types and rule activations
  */
 export async function refreshRules(controller: Controller, _request: EmptyRequest): Promise<RefreshedRules> {
 	try {
 		const cwd = await getCwd(getDesktopDir())
 		const allToggles = await refreshAllToggles(controller, cwd)
+		const activation = await getRuleActivationContext(
+			cwd,
+			controller.task?.taskId,
+			controller.stateManager.getGlobalSettingsKey("mode"),
+		)
+		const ruleActivations = await getRuleActivations(cwd, allToggles, activation)
 
 		return RefreshedRules.create({
 			globalClineRulesToggles: { toggles: allToggles.globalClineRules },
@@ -22,6 +33,8 @@ export async function refreshRules(controller: Controller, _request: EmptyReques
 			localWindsurfRulesToggles: { toggles: allToggles.windsurfRules },
 			localWorkflowToggles: { toggles: allToggles.localWorkflows },
 			globalWorkflowToggles: { toggles: allToggles.globalWorkflows },
+			ruleActivations,
+			localAgentsRulesToggles: { toggles: allToggles.agentsRules },
 		})
 	} catch (error) {
 		console.error("Failed to refresh rules:", error)
@@ -0,0 +1,28 @@
+import type { ToggleAgentsRuleRequest } from "@shared/proto/cline/file"
+import { ClineRulesToggles } from "@shared/proto/cline/file"
+import type { Controller } from "../index"
+
+/**
+ * Toggles an agent instruction file (AGENTS.md, CLAUDE.md or copilot-instructions.md)
+ * @param controller The controller instance
+ * @param request The toggle request
+ * @returns The updated agent instruction file toggles
+ */
+export async function toggleAgentsRule(controller: Controller, request: ToggleAgentsRuleRequest): Promise<ClineRulesToggles> {
+	const { rulePath, enabled } = request
+
+	if (!rulePath || typeof enabled !== "boolean") {
+		console.error("toggleAgentsRule: Missing or invalid parameters", {
+			rulePath,
+			enabled: typeof enabled === "boolean" ? enabled : `Invalid: ${typeof enabled}`,
+		})
+		throw new Error("Missing or invalid parameters for toggleAgentsRule")
+	}
+
+	// Update the toggles
+	const toggles = controller.stateManager.getWorkspaceStateKey("localAgentsRulesToggles")
+	toggles[rulePath] = enabled
+	controller.stateManager.setWorkspaceState("localAgentsRulesToggles", toggles)
+
+	return ClineRulesToggles.create({ toggles: toggles })
+}
@@ -1,7 +1,9 @@
 import { Anthropic } from "@anthropic-ai/sdk"
 import { ApiService } from "@core/api"
-import { downloadTask } from "@integrations/misc/export-markdown"
+import { exportTask, importTaskBundle, TASK_BUNDLE_EXTENSION, type TaskExportFormat } from "@integrations/misc/task-export"
 import { McpHub } from "@services/mcp/McpHub"
+import { createSecretsMcpOAuthSessionStore } from "@services/mcp/mcp_oauth_manager"
+import { TaskSearchIndex, type TaskSearchOptions, type TaskSearchResult } from "@services/search/task-history"
 import { ApiProvider, ModelInfo } from "@shared/api"
 import { ChatContent } from "@shared/ChatContent"
 import { ExtensionState, Platform } from "@shared/ExtensionMessage"
@@ -24,6 +26,8 @@ import {
 	ensureMcpServersDirectoryExists,
 	ensureSettingsDirectoryExists,
 	GlobalFileNames,
+	getSavedClineMessages,
+	getTaskMetadata,
 } from "../storage/disk"
 import { StateManager } from "../storage/StateManager"
 import { Task } from "../task"
@@ -55,6 +59,8 @@ export class Controller {
 	stateCoordinator: StateCoordinator
 	taskCoordinator: TaskCoordinator
 
+	private taskSearchIndex?: TaskSearchIndex
+
 	constructor(readonly context: vscode.ExtensionContext) {
 		PromptRegistry.getInstance() // Ensure prompts and tools are registered
 		HostProvider.get().logToChannel("MarieProvider instantiated")
@@ -68,6 +74,7 @@ export class Controller {
 			() => ensureMcpServersDirectoryExists(),
 			() => ensureSettingsDirectoryExists(),
 			ExtensionRegistryInfo.version,
+			createSecretsMcpOAuthSessionStore(this.stateManager),
 		)
 
 		// Initialize coordinators with event emitter
@@ -333,11 +340,51 @@ export class Controller {
 	}
 
 	/**
-	 * Export task as markdown
+	 * Export task as markdown, JSON, an HTML report or an importable bundle
+	 */
+	async exportTaskWithId(id: string, format: TaskExportFormat = "markdown"): Promise<void> {
+		const { historyItem, apiConversationHistory, contextHistoryFilePath, taskMetadataFilePath } = await this.getTaskWithId(id)
+		const clineMessages = await getSavedClineMessages(id)
+		const contextHistory = (await fileExistsAtPath(contextHistoryFilePath))
+			? JSON.parse(await fs.readFile(contextHistoryFilePath, "utf8"))
+			: undefined
+		const taskMetadata = (await fileExistsAtPath(taskMetadataFilePath)) ? await getTaskMetadata(id) : undefined
+		await exportTask({ historyItem, apiConversationHistory, clineMessages, contextHistory, taskMetadata }, format)
+	}
+
+	/**
+	 * Import a task bundle chosen by the user into task history
+	 * @returns The imported task's ID, or undefined if the user cancelled
 	 */
-	async exportTaskWithId(id: string): Promise<void> {
-		const { historyItem, apiConversationHistory } = await this.getTaskWithId(id)
-		await downloadTask(historyItem.ts, apiConversationHistory)
+	async importTaskBundle(): Promise<string | undefined> {
+		const { paths } = await HostProvider.window.showOpenDialogue({
+			canSelectMany: false,
+			openLabel: "Import Task",
+			filters: { files: [TASK_BUNDLE_EXTENSION, "zip"] },
+		})
+		if (!paths[0]) {
+			return undefined
+		}
+
+		const taskHistory = this.stateManager.getGlobalStateKey("taskHistory")
+		const historyItem = await importTaskBundle(paths[0], new Set(taskHistory.map((item) => item.id)))
+		await this.updateTaskHistory(historyItem)
+		await this.postStateToWebview()
+		return historyItem.id
+	}
+
+	/**
+	 * Full-text search over stored task conversations
+	 */
+	async searchTaskHistory(query: string, options?: TaskSearchOptions): Promise<TaskSearchResult[]> {
+		if (!this.taskSearchIndex) {
+			this.taskSearchIndex = new TaskSearchIndex(
+				path.join(await ensureCacheDirectoryExists(), GlobalFileNames.taskSearchIndex),
+				path.join(HostProvider.get().globalStorageFsPath, "tasks"),
+			)
+		}
+		await this.taskSearchIndex.sync(this.stateManager.getGlobalStateKey("taskHistory"))
+		return this.taskSearchIndex.search(query, options)
 	}
 
 	/**
@@ -371,6 +418,7 @@ export class Controller {
 		const autoApprovalSettings = this.stateManager.getGlobalSettingsKey("autoApprovalSettings")
 		const browserSettings = this.stateManager.getGlobalSettingsKey("browserSettings")
 		const focusChainSettings = this.stateManager.getGlobalSettingsKey("focusChainSettings")
+		const taskBudgetSettings = this.stateManager.getGlobalSettingsKey("taskBudgetSettings")
 		const dictationSettings = this.stateManager.getGlobalSettingsKey("dictationSettings")
 		const preferredLanguage = this.stateManager.getGlobalSettingsKey("preferredLanguage")
 		const openaiReasoningEffort = this.stateManager.getGlobalSettingsKey("openaiReasoningEffort")
@@ -399,7 +447,9 @@ export class Controller {
 		const localClineRulesToggles = this.stateManager.getWorkspaceStateKey("localClineRulesToggles")
 		const localWindsurfRulesToggles = this.stateManager.getWorkspaceStateKey("localWindsurfRulesToggles")
 		const localCursorRulesToggles = this.stateManager.getWorkspaceStateKey("localCursorRulesToggles")
+		const localAgentsRulesToggles = this.stateManager.getWorkspaceStateKey("localAgentsRulesToggles")
 		const workflowToggles = this.stateManager.getWorkspaceStateKey("workflowToggles")
+		const workspaceCommandPolicy = this.stateManager.getWorkspaceStateKey("workspaceCommandPolicy")
 		const autoCondenseThreshold = this.stateManager.getGlobalSettingsKey("autoCondenseThreshold")
 
 		const currentTaskItem = this.task?.taskId ? (taskHistory || []).find((item) => item.id === this.task?.taskId) : undefined
@@ -433,6 +483,7 @@ export class Controller {
 			autoApprovalSettings,
 			browserSettings,
 			focusChainSettings,
+			taskBudgetSettings,
 			dictationSettings: updatedDictationSettings,
 			preferredLanguage,
 			openaiReasoningEffort,
@@ -450,8 +501,10 @@ export class Controller {
 			localClineRulesToggles: localClineRulesToggles || {},
 			localWindsurfRulesToggles: localWindsurfRulesToggles || {},
 			localCursorRulesToggles: localCursorRulesToggles || {},
+			localAgentsRulesToggles: localAgentsRulesToggles || {},
 			localWorkflowToggles: workflowToggles || {},
 			globalWorkflowToggles: globalWorkflowToggles || {},
+			workspaceCommandPolicy,
 			shellIntegrationTimeout,
 			terminalReuseEnabled,
 			defaultTerminalProfile,
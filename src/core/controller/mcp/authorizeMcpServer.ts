@@ -0,0 +1,24 @@
+import { StringRequest } from "@shared/proto/cline/common"
+import { McpServers } from "@shared/proto/cline/mcp"
+import { convertMcpServersToProtoMcpServers } from "@shared/proto-conversions/mcp/mcp-server-conversion"
+import type { Controller } from "../index"
+
+/**
+ * Signs in to a remote MCP server with OAuth and reconnects it
+ * @param controller The controller instance
+ * @param request The request containing the server name
+ * @returns The updated list of MCP servers
+ */
+export async function authorizeMcpServer(controller: Controller, request: StringRequest): Promise<McpServers> {
+	try {
+		const mcpServers = await controller.mcpHub.authorizeServerRPC(request.value)
+
+		// Convert from McpServer[] to ProtoMcpServer[] ensuring all required fields are set
+		const protoServers = convertMcpServersToProtoMcpServers(mcpServers)
+
+		return McpServers.create({ mcpServers: protoServers })
+	} catch (error) {
+		console.error(`Failed to authorize MCP server ${request.value}:`, error)
+		throw error
+	}
+}
@@ -0,0 +1,82 @@
+import { StringArray, type StringRequest } from "@shared/proto/cline/common"
+import type { Controller } from ".."
+
+/**
+ * Model entry returned by Ollama's /api/tags endpoint
+ */
+interface OllamaTagModel {
+	name: string
+	size?: number
+	details?: {
+		family?: string
+		parameter_size?: string
+		quantization_level?: string
+	}
+}
+
+/**
+ * Reads the context window for a model from /api/show.
+ * A num_ctx in the Modelfile wins over the architecture's trained context length.
+ */
+async function getContextLength(baseUrl: string, model: string): Promise<number | undefined> {
+	try {
+		const response = await fetch(new URL("api/show", baseUrl), {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ model }),
+		})
+		if (!response.ok) {
+			return undefined
+		}
+		const data = await response.json()
+
+		const numCtx = /^num_ctx\s+(\d+)/m.exec(data?.parameters ?? "")
+		if (numCtx) {
+			return Number(numCtx[1])
+		}
+
+		// model_info keys are prefixed with the architecture, e.g. "llama.context_length"
+		const modelInfo: Record<string, unknown> = data?.model_info ?? {}
+		const key = Object.keys(modelInfo).find((k) => k.endsWith(".context_length"))
+		return key && typeof modelInfo[key] === "number" ? (modelInfo[key] as number) : undefined
+	} catch {
+		return undefined
+	}
+}
+
+/**
+ * Fetches available models from Ollama
+ * @param controller The controller instance
+ * @param request The request containing the base URL (optional)
+ * @returns Array of JSON-encoded models including their detected context_length
+ */
+export async function getOllamaModels(_controller: Controller, request: StringRequest): Promise<StringArray> {
+	try {
+		const baseUrl = request.value || "http://localhost:11434"
+		if (!URL.canParse(baseUrl)) {
+			return StringArray.create({ values: [] })
+		}
+
+		const response = await fetch(new URL("api/tags", baseUrl))
+		const data = await response.json()
+		const tagModels: OllamaTagModel[] = data?.models ?? []
+
+		const models = await Promise.all(
+			tagModels.map(async (model) =>
+				JSON.stringify({
+					id: model.name,
+					size: model.size,
+					family: model.details?.family,
+					parameter_size: model.details?.parameter_size,
+					quantization_level: model.details?.quantization_level,
+					context_length: await getContextLength(baseUrl, model.name),
+				}),
+			),
+		)
+
+		return StringArray.create({ values: models })
+	} catch (error) {
+		console.error("Failed to fetch Ollama models:", error)
+		return StringArray.create({ values: [] })
+	}
+}
@@ -0,0 +1,36 @@
+import { StringArray } from "@shared/proto/cline/common"
+import type { OpenAiModelsRequest } from "@shared/proto/cline/models"
+import type { Controller } from ".."
+
+/**
+ * Fetches available models from an OpenAI-compatible endpoint
+ * @param controller The controller instance
+ * @param request The request containing the base URL, optional API key and extra headers
+ * @returns Array of model IDs reported by the server's /models endpoint
+ */
+export async function getOpenAiModels(_controller: Controller, request: OpenAiModelsRequest): Promise<StringArray> {
+	try {
+		if (!request.baseUrl || !URL.canParse(request.baseUrl)) {
+			return StringArray.create({ values: [] })
+		}
+		// Resolve relative to the base path so "http://host:8000/v1" becomes "http://host:8000/v1/models"
+		const endpoint = new URL("models", request.baseUrl.endsWith("/") ? request.baseUrl : `${request.baseUrl}/`)
+
+		const headers: Record<string, string> = { ...request.headers }
+		if (request.apiKey) {
+			headers.Authorization = `Bearer ${request.apiKey}`
+		}
+
+		const response = await fetch(endpoint.href, { headers })
+		if (!response.ok) {
+			throw new Error(`${endpoint.href} returned ${response.status}: ${response.statusText}`)
+		}
+		const data = await response.json()
+		const models: string[] = data?.data?.map((m: { id?: string }) => m.id).filter(Boolean) || []
+
+		return StringArray.create({ values: [...new Set(models)].sort() })
+	} catch (error) {
+		console.error("Failed to fetch OpenAI-compatible models:", error)
+		return StringArray.create({ values: [] })
+	}
+}
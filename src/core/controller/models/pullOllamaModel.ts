@@ -0,0 +1,32 @@
+import { Empty } from "@shared/proto/cline/common"
+import type { OllamaPullRequest } from "@shared/proto/cline/models"
+import type { Controller } from ".."
+
+/**
+ * Pulls a model into the local Ollama library
+ * @param controller The controller instance
+ * @param request The request containing the base URL (optional) and the model to pull
+ * @returns Empty response once Ollama reports the pull as complete
+ */
+export async function pullOllamaModel(_controller: Controller, request: OllamaPullRequest): Promise<Empty> {
+	const baseUrl = request.baseUrl || "http://localhost:11434"
+	if (!URL.canParse(baseUrl)) {
+		throw new Error(`Invalid Ollama base URL: ${baseUrl}`)
+	}
+	if (!request.model.trim()) {
+		throw new Error("Model name is required")
+	}
+
+	const response = await fetch(new URL("api/pull", baseUrl), {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify({ model: request.model.trim(), stream: false }),
+	})
+	const data = await response.json().catch(() => ({}))
+
+	if (!response.ok || data?.error) {
+		throw new Error(`Failed to pull ${request.model}: ${data?.error || response.statusText}`)
+	}
+
+	return Empty.create()
+}
@@ -113,6 +113,7 @@ export async function refreshOpenRouterModels(
 					description: rawModel.description ?? "",
 					thinkingConfig: supportThinking ? (rawModel.thinking_config ?? {}) : undefined,
 					supportsGlobalEndpoint: rawModel.supports_global_endpoint ?? undefined,
+					supportsNativeTools: rawModel.supported_parameters?.includes("tools") ?? false,
 					tiers: rawModel.tiers ?? [],
 				})
 
@@ -265,6 +266,7 @@ const CLINE_STEALTH_MODELS: Record<string, OpenRouterModelInfo> = {
 		description: clineCodeSupernovaModelInfo.description ?? "",
 		thinkingConfig: clineCodeSupernovaModelInfo.thinkingConfig ?? undefined,
 		supportsGlobalEndpoint: clineCodeSupernovaModelInfo.supportsGlobalEndpoint ?? undefined,
+		supportsNativeTools: clineCodeSupernovaModelInfo.supportsNativeTools ?? undefined,
 		tiers: clineCodeSupernovaModelInfo.tiers
 			? (clineCodeSupernovaModelInfo.tiers as import("@shared/proto/cline/models").ModelTier[])
 			: [],
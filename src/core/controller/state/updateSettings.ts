@@ -4,6 +4,7 @@ import {
 	PlanActMode,
 	McpDisplayMode as ProtoMcpDisplayMode,
 	OpenaiReasoningEffort as ProtoOpenaiReasoningEffort,
+	TaskBudgetLimits,
 	UpdateSettingsRequest,
 } from "@shared/proto/cline/state"
 import { convertProtoToApiProvider } from "@shared/proto-conversions/models/api-configuration-conversion"
@@ -180,6 +181,21 @@ export async function updateSettings(controller: Controller, request: UpdateSett
 			}
 		}
 
+		// Update task budget settings
+		if (request.taskBudgetSettings !== undefined) {
+			const toLimits = (limits?: TaskBudgetLimits) => ({
+				maxCost: limits?.maxCost,
+				maxTokensIn: limits?.maxTokensIn,
+				maxTokensOut: limits?.maxTokensOut,
+				maxMinutes: limits?.maxMinutes,
+			})
+			controller.stateManager.setGlobalState("taskBudgetSettings", {
+				enabled: request.taskBudgetSettings.enabled,
+				soft: toLimits(request.taskBudgetSettings.soft),
+				hard: toLimits(request.taskBudgetSettings.hard),
+			})
+		}
+
 		// Update custom prompt choice
 		if (request.customPrompt !== undefined) {
 			const value = request.customPrompt === "compact" ? "compact" : undefined
@@ -0,0 +1,24 @@
+import { Empty } from "@shared/proto/cline/common"
+import { CommandPolicy } from "@shared/proto/cline/state"
+import { Controller } from ".."
+
+/**
+ * Updates the command allow/deny rules for the current workspace
+ * An empty policy clears the override so only the global rules apply
+ * @param controller The controller instance
+ * @param request The workspace command policy
+ * @returns Empty response
+ */
+export async function updateWorkspaceCommandPolicy(controller: Controller, request: CommandPolicy): Promise<Empty> {
+	const allow = request.allow.map((pattern) => pattern.trim()).filter(Boolean)
+	const deny = request.deny.map((pattern) => pattern.trim()).filter(Boolean)
+
+	controller.stateManager.setWorkspaceState(
+		"workspaceCommandPolicy",
+		allow.length > 0 || deny.length > 0 ? { allow, deny } : undefined,
+	)
+
+	await controller.postStateToWebview()
+
+	return Empty.create()
+}
@@ -1,19 +1,30 @@
-import { Empty, StringRequest } from "@shared/proto/cline/common"
+import { Empty } from "@shared/proto/cline/common"
+import { ExportTaskRequest, TaskExportFormat } from "@shared/proto/cline/task"
+import type { TaskExportFormat as ExportFormat } from "@/integrations/misc/task-export"
 import { Controller } from ".."
 
 /**
- * Exports a task with the given ID to markdown
+ * Exports a task with the given ID as markdown, JSON, an HTML report or an importable bundle
  * @param controller The controller instance
- * @param request The request containing the task ID in the value field
+ * @param request The request containing the task ID and export format
  * @returns Empty response
  */
-export async function exportTaskWithId(controller: Controller, request: StringRequest): Promise<Empty> {
-	try {
-		if (request.value) {
-			await controller.exportTaskWithId(request.value)
-		}
-		return Empty.create()
-	} catch (error) {
-		throw error
+export async function exportTaskWithId(controller: Controller, request: ExportTaskRequest): Promise<Empty> {
+	if (request.taskId) {
+		await controller.exportTaskWithId(request.taskId, convertExportFormat(request.format))
+	}
+	return Empty.create()
+}
+
+function convertExportFormat(format: TaskExportFormat): ExportFormat {
+	switch (format) {
+		case TaskExportFormat.TASK_EXPORT_JSON:
+			return "json"
+		case TaskExportFormat.TASK_EXPORT_HTML:
+			return "html"
+		case TaskExportFormat.TASK_EXPORT_BUNDLE:
+			return "bundle"
+		default:
+			return "markdown"
 	}
 }
@@ -0,0 +1,23 @@
+import { EmptyRequest, String } from "@shared/proto/cline/common"
+import { HostProvider } from "@/hosts/host-provider"
+import { ShowMessageType } from "@/shared/proto/host/window"
+import { Controller } from ".."
+
+/**
+ * Imports a task bundle chosen by the user into task history
+ * @param controller The controller instance
+ * @param _request Empty request
+ * @returns The imported task's ID, or an empty string if nothing was imported
+ */
+export async function importTaskBundle(controller: Controller, _request: EmptyRequest): Promise<String> {
+	try {
+		const taskId = await controller.importTaskBundle()
+		return String.create({ value: taskId ?? "" })
+	} catch (error) {
+		await HostProvider.window.showMessage({
+			type: ShowMessageType.ERROR,
+			message: `Failed to import task: ${error instanceof Error ? error.message : error}`,
+		})
+		return String.create({ value: "" })
+	}
+}
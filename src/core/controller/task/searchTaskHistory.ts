@@ -0,0 +1,26 @@
+import { TaskSearchRequest, TaskSearchResults } from "@shared/proto/cline/task"
+import { Controller } from ".."
+
+/**
+ * Searches the full text of stored tasks: user messages, assistant text, touched files and commands run
+ * @param controller The controller instance
+ * @param request The search query and optional result limit
+ * @returns Ranked tasks with highlighted snippets
+ */
+export async function searchTaskHistory(controller: Controller, request: TaskSearchRequest): Promise<TaskSearchResults> {
+	const results = await controller.searchTaskHistory(request.query, { limit: request.limit })
+
+	return TaskSearchResults.create({
+		results: results.map((result) => ({
+			taskId: result.taskId,
+			task: result.task,
+			ts: result.ts,
+			score: result.score,
+			snippets: result.snippets.map((snippet) => ({
+				source: snippet.source,
+				text: snippet.text,
+				highlights: snippet.highlights.map(([start, end]) => ({ start, end })),
+			})),
+		})),
+	})
+}
@@ -3,27 +3,37 @@
  *
  * Clean, self-explanatory modules following MARIECODER methodology:
  * - lock_database.ts: Database initialization and schema
- * - lock_operations.ts: Instance registry operations
+ * - lock_operations.ts: Instance registry and path lock operations
  * - lock_utils.ts: Utility functions
  *
  * Tidied from 221-line monolith → 4 focused modules
  */
 
 import type Database from "better-sqlite3"
+import * as path from "path"
 import { initializeDatabaseWithLockSync } from "./lock_database"
 import {
+	acquirePathLock,
+	findConflictingPathLock,
 	getInstanceByPort,
 	registerInstance,
+	releaseAllPathLocks,
+	releasePathLock,
 	removeInstanceByAddress,
 	touchInstance,
+	touchPathLocks,
 	unregisterInstance,
 } from "./lock_operations"
-import type { SqliteLockManagerOptions } from "./types"
+import type { LockAcquireResult, PathLockHolder, PathLockType, SqliteLockManagerOptions } from "./types"
+
+const HEARTBEAT_INTERVAL = 30 * 1000 // 30 seconds in milliseconds
+const STALE_PATH_LOCK_TIMEOUT = 2 * 60 * 1000 // 2 minutes without a heartbeat means the holder is gone
 
 export class SqliteLockManager {
 	private db!: Database.Database
 	private instanceAddress: string
 	private dbPath: string
+	private heartbeatTimer?: NodeJS.Timeout
 
 	constructor(options: SqliteLockManagerOptions) {
 		this.instanceAddress = options.instanceAddress
@@ -68,10 +78,120 @@ export class SqliteLockManager {
 		removeInstanceByAddress(this.db, instanceAddress)
 	}
 
+	/**
+	 * The address locks taken by this manager are recorded under
+	 */
+	getInstanceAddress(): string {
+		return this.instanceAddress
+	}
+
+	/**
+	 * Acquire a lock on a file for this instance
+	 */
+	acquireFileLock(filePath: string): LockAcquireResult {
+		return this.acquirePathLock("file", filePath)
+	}
+
+	/**
+	 * Acquire a lock on a folder and everything beneath it for this instance
+	 */
+	acquireFolderLock(folderPath: string): LockAcquireResult {
+		return this.acquirePathLock("folder", folderPath)
+	}
+
+	/**
+	 * Release this instance's lock on a file
+	 */
+	releaseFileLock(filePath: string): void {
+		releasePathLock(this.db, this.instanceAddress, "file", normalizeLockTarget(filePath))
+	}
+
+	/**
+	 * Release this instance's lock on a folder
+	 */
+	releaseFolderLock(folderPath: string): void {
+		releasePathLock(this.db, this.instanceAddress, "folder", normalizeLockTarget(folderPath))
+	}
+
+	/**
+	 * Release every file and folder lock held by this instance
+	 */
+	releaseAllLocks(): void {
+		releaseAllPathLocks(this.db, this.instanceAddress)
+	}
+
+	/**
+	 * Get the live lock held by another instance that blocks writing to the given file, if any
+	 */
+	getFileLockHolder(filePath: string): PathLockHolder | null {
+		return findConflictingPathLock(
+			this.db,
+			this.instanceAddress,
+			"file",
+			normalizeLockTarget(filePath),
+			Date.now() - STALE_PATH_LOCK_TIMEOUT,
+		)
+	}
+
+	/**
+	 * Refresh this instance's registration and all of its path locks so other instances don't treat them as stale
+	 */
+	heartbeat(): void {
+		touchInstance(this.db, this.instanceAddress)
+		touchPathLocks(this.db, this.instanceAddress)
+	}
+
+	/**
+	 * Start sending heartbeats periodically until stopHeartbeat or close is called
+	 */
+	startHeartbeat(): void {
+		if (this.heartbeatTimer) {
+			return
+		}
+		this.heartbeatTimer = setInterval(() => {
+			try {
+				this.heartbeat()
+			} catch (error) {
+				console.error("Failed to refresh locks:", error)
+			}
+		}, HEARTBEAT_INTERVAL)
+		// Don't keep the process alive just to refresh locks
+		this.heartbeatTimer.unref()
+	}
+
+	/**
+	 * Stop sending heartbeats
+	 */
+	stopHeartbeat(): void {
+		if (this.heartbeatTimer) {
+			clearInterval(this.heartbeatTimer)
+			this.heartbeatTimer = undefined
+		}
+	}
+
 	/**
 	 * Close the database connection
 	 */
 	close(): void {
+		this.stopHeartbeat()
 		this.db.close()
 	}
+
+	private acquirePathLock(lockType: PathLockType, target: string): LockAcquireResult {
+		return acquirePathLock(
+			this.db,
+			this.instanceAddress,
+			lockType,
+			normalizeLockTarget(target),
+			Date.now() - STALE_PATH_LOCK_TIMEOUT,
+		)
+	}
+}
+
+/**
+ * Normalize a path into the form stored in lock_target: absolute, forward slashes, no trailing slash
+ */
+function normalizeLockTarget(target: string): string {
+	const normalized = path.resolve(target).replace(/\\/g, "/")
+	return normalized.length > 1 ? normalized.replace(/\/+$/, "") : normalized
 }
@@ -0,0 +1,89 @@
+import { expect } from "chai"
+import * as fs from "fs"
+import { afterEach, beforeEach, describe, it } from "mocha"
+import * as os from "os"
+import * as path from "path"
+import { SqliteLockManager } from "../SqliteLockManager"
+
+describe("SqliteLockManager path locks", () => {
+	let tmpDir: string
+	let first: SqliteLockManager
+	let second: SqliteLockManager
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "locks-test-"))
+		const dbPath = path.join(tmpDir, "locks.db")
+		first = new SqliteLockManager({ dbPath, instanceAddress: "host:1111" })
+		second = new SqliteLockManager({ dbPath, instanceAddress: "host:2222" })
+	})
+
+	afterEach(() => {
+		first.close()
+		second.close()
+		fs.rmSync(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should block another instance from locking a held file", () => {
+		expect(first.acquireFileLock("/repo/src/a.ts").acquired).to.be.true
+		expect(first.acquireFileLock("/repo/src/a.ts").acquired).to.be.true
+
+		const result = second.acquireFileLock("/repo/src/a.ts")
+		expect(result).to.deep.equal({
+			acquired: false,
+			holder: { heldBy: "host:1111", lockType: "file", lockTarget: "/repo/src/a.ts" },
+		})
+		expect(second.getFileLockHolder("/repo/src/a.ts")?.heldBy).to.equal("host:1111")
+		expect(first.getFileLockHolder("/repo/src/a.ts")).to.be.null
+	})
+
+	it("should treat a folder lock as covering everything beneath it", () => {
+		expect(first.acquireFolderLock("/repo/src/").acquired).to.be.true
+
+		const result = second.acquireFileLock("/repo/src/nested/b.ts")
+		expect(result.acquired).to.be.false
+		expect(second.acquireFileLock("/repo/srcs/b.ts").acquired).to.be.true
+	})
+
+	it("should block a folder lock over another instance's file", () => {
+		expect(first.acquireFileLock("/repo/src/a.ts").acquired).to.be.true
+
+		expect(second.acquireFolderLock("/repo/src").acquired).to.be.false
+		expect(second.acquireFolderLock("/repo/test").acquired).to.be.true
+	})
+
+	it("should free files once the holder releases them", () => {
+		first.acquireFileLock("/repo/src/a.ts")
+		first.acquireFileLock("/repo/src/b.ts")
+
+		first.releaseFileLock("/repo/src/a.ts")
+		expect(second.acquireFileLock("/repo/src/a.ts").acquired).to.be.true
+		expect(second.acquireFileLock("/repo/src/b.ts").acquired).to.be.false
+
+		first.releaseAllLocks()
+		expect(second.acquireFileLock("/repo/src/b.ts").acquired).to.be.true
+	})
+
+	it("should replace locks whose holder stopped sending heartbeats", () => {
+		first.acquireFileLock("/repo/src/a.ts")
+		const clock = Date.now
+		Date.now = () => clock() + 3 * 60 * 1000
+		try {
+			expect(second.acquireFileLock("/repo/src/a.ts").acquired).to.be.true
+		} finally {
+			Date.now = clock
+		}
+	})
+
+	it("should keep locks alive across heartbeats", () => {
+		first.acquireFileLock("/repo/src/a.ts")
+		const clock = Date.now
+		Date.now = () => clock() + 90 * 1000
+		try {
+			first.heartbeat()
+			Date.now = () => clock() + 180 * 1000
+			expect(second.acquireFileLock("/repo/src/a.ts").acquired).to.be.false
+		} finally {
+			Date.now = clock
+		}
+	})
+})
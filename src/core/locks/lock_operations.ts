@@ -1,14 +1,16 @@
 /**
- * Lock Operations - Instance registry operations
+ * Lock Operations - Instance registry and path lock operations
  *
  * Handles:
  * - Instance registration and unregistration
  * - Instance timestamp updates (touch)
  * - Instance queries by port
  * - Instance cleanup
+ * - File and folder lock acquire, release and heartbeat
  */
 
 import type Database from "better-sqlite3"
+import type { LockAcquireResult, PathLockHolder, PathLockType } from "./types"
 
 /**
  * Register an instance in the locks table
@@ -85,3 +87,120 @@ export function removeInstanceByAddress(db: Database.Database, instanceAddress:
 
 	deleteLock.run(instanceAddress)
 }
+
+/**
+ * Find a live file or folder lock held by another instance that overlaps the target.
+ * A folder lock covers every path beneath it, so a file conflicts with locks on its ancestor folders
+ * and a folder conflicts with locks on anything inside it.
+ */
+export function findConflictingPathLock(
+	db: Database.Database,
+	instanceAddress: string,
+	lockType: PathLockType,
+	lockTarget: string,
+	staleBefore: number,
+): PathLockHolder | null {
+	const query = db.prepare(`
+		SELECT held_by, lock_type, lock_target
+		FROM locks
+		WHERE lock_type IN ('file', 'folder')
+		AND held_by != ?
+		AND locked_at >= ?
+		AND (
+			lock_target = ?
+			OR (lock_type = 'folder' AND substr(?, 1, length(lock_target) + 1) = lock_target || '/')
+			OR (? = 'folder' AND substr(lock_target, 1, length(?) + 1) = ? || '/')
+		)
+		LIMIT 1
+	`)
+
+	const result = query.get(instanceAddress, staleBefore, lockTarget, lockTarget, lockType, lockTarget, lockTarget) as
+		| { held_by: string; lock_type: PathLockType; lock_target: string }
+		| undefined
+
+	if (result) {
+		return {
+			heldBy: result.held_by,
+			lockType: result.lock_type,
+			lockTarget: result.lock_target,
+		}
+	}
+
+	return null
+}
+
+/**
+ * Acquire a file or folder lock for an instance, unless another instance holds an overlapping live lock.
+ * Locks not refreshed since staleBefore are treated as abandoned and replaced.
+ */
+export function acquirePathLock(
+	db: Database.Database,
+	instanceAddress: string,
+	lockType: PathLockType,
+	lockTarget: string,
+	staleBefore: number,
+): LockAcquireResult {
+	const acquire = db.transaction((): LockAcquireResult => {
+		db.prepare(`
+			DELETE FROM locks 
+			WHERE lock_type IN ('file', 'folder') AND locked_at < ?
+		`).run(staleBefore)
+
+		const holder = findConflictingPathLock(db, instanceAddress, lockType, lockTarget, staleBefore)
+		if (holder) {
+			return { acquired: false, holder }
+		}
+
+		db.prepare(`
+			INSERT OR REPLACE INTO locks (held_by, lock_type, lock_target, locked_at)
+			VALUES (?, ?, ?, ?)
+		`).run(instanceAddress, lockType, lockTarget, Date.now())
+
+		return { acquired: true }
+	})
+
+	// IMMEDIATE takes the write lock up front so two processes can't both see the target as free
+	return acquire.immediate()
+}
+
+/**
+ * Release a file or folder lock held by an instance
+ */
+export function releasePathLock(
+	db: Database.Database,
+	instanceAddress: string,
+	lockType: PathLockType,
+	lockTarget: string,
+): void {
+	const deleteLock = db.prepare(`
+		DELETE FROM locks 
+		WHERE held_by = ? AND lock_type = ? AND lock_target = ?
+	`)
+
+	deleteLock.run(instanceAddress, lockType, lockTarget)
+}
+
+/**
+ * Release every file and folder lock held by an instance
+ */
+export function releaseAllPathLocks(db: Database.Database, instanceAddress: string): void {
+	const deleteLocks = db.prepare(`
+		DELETE FROM locks 
+		WHERE held_by = ? AND lock_type IN ('file', 'folder')
+	`)
+
+	deleteLocks.run(instanceAddress)
+}
+
+/**
+ * Refresh the timestamp of every file and folder lock held by an instance (heartbeat)
+ */
+export function touchPathLocks(db: Database.Database, instanceAddress: string): void {
+	const updateLocks = db.prepare(`
+		UPDATE locks 
+		SET locked_at = ? 
+		WHERE held_by = ? AND lock_type IN ('file', 'folder')
+	`)
+
+	updateLocks.run(Date.now(), instanceAddress)
+}
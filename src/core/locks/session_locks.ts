@@ -0,0 +1,126 @@
+/**
+ * Session Locks - Process-wide lock manager shared by every task in this instance
+ *
+ * Handles:
+ * - Opening the lock database shared by all MarieCoder instances (extension windows and CLI)
+ * - Identifying this instance in the locks it holds
+ * - Giving sub-agent tasks their own lock holder so they can't overwrite each other's files
+ * - Releasing held locks when the session ends
+ */
+
+import * as os from "os"
+import * as path from "path"
+import { SqliteLockManager } from "./SqliteLockManager"
+
+const LOCK_DB_PATH = path.join(os.homedir(), ".mariecoder", "data", "locks.db")
+
+// undefined = not opened yet, null = the lock database is unavailable (locking is skipped)
+let sessionLockManager: SqliteLockManager | null | undefined
+
+// Lock managers for sub-agent tasks, keyed by task ID
+const taskLockManagers = new Map<string, SqliteLockManager>()
+
+/**
+ * Get the lock manager for this instance, opening the shared lock database on first use.
+ * Returns null when the database can't be opened, in which case callers should proceed without locking.
+ */
+export function getSessionLockManager(): SqliteLockManager | null {
+	if (sessionLockManager === undefined) {
+		try {
+			sessionLockManager = new SqliteLockManager({
+				dbPath: LOCK_DB_PATH,
+				instanceAddress: getSessionInstanceAddress(),
+			})
+			sessionLockManager.startHeartbeat()
+		} catch (error) {
+			console.error("Failed to open lock database, file locking is disabled:", error)
+			sessionLockManager = null
+		}
+	}
+	return sessionLockManager
+}
+
+/**
+ * Give a sub-agent task its own lock holder, identified as "<instance>#<taskId>"
+ *
+ * Sub-agents run side by side in one instance, so sharing the session holder would let them
+ * overwrite each other's files. Returns null when locking is unavailable.
+ */
+export function registerTaskLockManager(taskId: string): SqliteLockManager | null {
+	const existing = taskLockManagers.get(taskId)
+	if (existing) {
+		return existing
+	}
+	if (!getSessionLockManager()) {
+		return null
+	}
+	try {
+		const manager = new SqliteLockManager({
+			dbPath: LOCK_DB_PATH,
+			instanceAddress: `${getSessionInstanceAddress()}#${taskId}`,
+		})
+		manager.startHeartbeat()
+		taskLockManagers.set(taskId, manager)
+		return manager
+	} catch (error) {
+		console.error(`Failed to open lock database for task ${taskId}, file locking is disabled for it:`, error)
+		return null
+	}
+}
+
+/**
+ * Get the lock manager a task should take its locks with: its own if it is a sub-agent,
+ * otherwise the one shared by the session
+ */
+export function getTaskLockManager(taskId: string): SqliteLockManager | null {
+	return taskLockManagers.get(taskId) ?? getSessionLockManager()
+}
+
+/**
+ * Release the locks a task holds. A sub-agent's lock holder is closed; for any other task
+ * this releases the session's locks.
+ */
+export function releaseTaskLocks(taskId: string): void {
+	const manager = taskLockManagers.get(taskId)
+	if (!manager) {
+		releaseSessionLocks()
+		return
+	}
+	taskLockManagers.delete(taskId)
+	try {
+		manager.releaseAllLocks()
+		manager.close()
+	} catch (error) {
+		console.error(`Failed to release locks for task ${taskId}:`, error)
+	}
+}
+
+/**
+ * Release every lock this instance holds, keeping the database open for the next session
+ */
+export function releaseSessionLocks(): void {
+	try {
+		sessionLockManager?.releaseAllLocks()
+	} catch (error) {
+		console.error("Failed to release session locks:", error)
+	}
+}
+
+/**
+ * Release every lock this instance holds and close the lock database
+ */
+export function disposeSessionLockManager(): void {
+	if (!sessionLockManager) {
+		return
+	}
+	for (const taskId of [...taskLockManagers.keys()]) {
+		releaseTaskLocks(taskId)
+	}
+	releaseSessionLocks()
+	sessionLockManager.close()
+	sessionLockManager = undefined
+}
+
+function getSessionInstanceAddress(): string {
+	return `${os.hostname()}:${process.pid}`
+}
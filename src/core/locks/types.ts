@@ -12,3 +12,14 @@ export interface SqliteLockManagerOptions {
 	dbPath: string
 	instanceAddress: string // cline core address
 }
+
+/** Lock types that guard paths, as opposed to instance registrations */
+export type PathLockType = Exclude<LockType, "instance">
+
+export interface PathLockHolder {
+	heldBy: string
+	lockType: PathLockType
+	lockTarget: string
+}
+
+export type LockAcquireResult = { acquired: true } | { acquired: false; holder: PathLockHolder }
@@ -10,7 +10,7 @@ import * as path from "path"
 import * as sinon from "sinon"
 import { HostProvider } from "@/hosts/host-provider"
 import { setVscodeHostProviderMock } from "@/test/host-provider-test-utils"
-import { parseMentions } from "."
+import { parseMentions, registerMentionHandler, unregisterMentionHandler } from "."
 
 describe("parseMentions", () => {
 	let sandbox: sinon.SinonSandbox
@@ -35,6 +35,7 @@ describe("parseMentions", () => {
 			launchBrowser: sandbox.stub().resolves(),
 			closeBrowser: sandbox.stub().resolves(),
 			urlToMarkdown: sandbox.stub().resolves("# Example Website\n\nContent here"),
+			urlToReadableMarkdown: sandbox.stub().resolves("# Readable\n\nMain content"),
 		} as any
 
 		fileContextTrackerStub = {
@@ -412,4 +413,46 @@ Content
 			expect(result).to.equal(expectedOutput)
 		})
 	})
+
+	describe("Prefixed mentions", () => {
+		afterEach(() => {
+			unregisterMentionHandler("ticket")
+		})
+
+		it("should handle readable URL mention without launching the browser", async () => {
+			const text = "Read @url-readable:https://example.com/docs"
+
+			const result = await parseMentions(text, cwd, urlContentFetcherStub)
+
+			const expectedOutput = `Read 'https://example.com/docs' (see below for site content)
+
+<url_content url="https://example.com/docs">
+# Readable
+
+Main content
+</url_content>`
+
+			expect(result).to.equal(expectedOutput)
+			expect(urlContentFetcherStub.launchBrowser.called).to.be.false
+		})
+
+		it("should dispatch custom mention kinds to registered handlers", async () => {
+			registerMentionHandler({
+				kind: "ticket",
+				getPlaceholder: (value) => `Ticket ${value} (see below for details)`,
+				handle: async (value) => `<ticket id="${value}">\nDetails\n</ticket>`,
+			})
+			const text = "Fix @ticket:ABC-1 today"
+
+			const result = await parseMentions(text, cwd, urlContentFetcherStub)
+
+			const expectedOutput = `Fix Ticket ABC-1 (see below for details) today
+
+<ticket id="ABC-1">
+Details
+</ticket>`
+
+			expect(result).to.equal(expectedOutput)
+		})
+	})
 })
@@ -9,16 +9,31 @@
  * Tidied from 301-line monolith → 4 focused modules
  */
 
+export type { MentionHandler, MentionHandlerContext } from "./mention_handlers"
 // Re-export handlers for advanced usage
 export {
+	getMentionHandler,
+	getRegisteredMentionKinds,
 	handleCommitMention,
 	handleFileMention,
+	handleFolderTreeMention,
 	handleGitChangesMention,
 	handleProblemsMention,
+	handleSymbolMention,
 	handleTerminalMention,
 	handleUrlMention,
+	handleUrlReadableMention,
+	registerMentionHandler,
+	unregisterMentionHandler,
 } from "./mention_handlers"
 // Re-export main functions from organized modules
 export { parseMentions, parseMentionsInTags } from "./mention_parsers"
 // Re-export utilities for advanced usage
-export { getFileMentionFromPath, getFilePathFromMention, isCommitHash, isFileMention, openMention } from "./mention_utils"
+export {
+	getFileMentionFromPath,
+	getFilePathFromMention,
+	isCommitHash,
+	isFileMention,
+	openMention,
+	parsePrefixedMention,
+} from "./mention_utils"
@@ -7,12 +7,16 @@
  * - Workspace problems
  * - Terminal output
  * - Git changes and commits
+ * - Prefixed `@kind:value` mentions via the mention handler registry
  */
 
+import { formatResponse } from "@core/prompts/response_formatters"
 import { diagnosticsToProblemsString } from "@integrations/diagnostics"
 import { extractTextFromFile } from "@integrations/misc/extract-text"
 import { getLatestTerminalOutput } from "@integrations/terminal/get-latest-output"
 import { UrlContentFetcher } from "@services/browser/UrlContentFetcher"
+import { listFiles } from "@services/glob/list-files"
+import { findSymbolDefinitions } from "@services/tree-sitter"
 import { getCommitInfo, getWorkingState } from "@utils/git"
 import fs from "fs/promises"
 import { isBinaryFile } from "isbinaryfile"
@@ -202,3 +206,121 @@ export async function handleCommitMention(mention: string, cwd: string): Promise
 		return `<git_commit hash="${mention}">\nError fetching commit info: ${error.message}\n</git_commit>`
 	}
 }
+
+/**
+ * Context passed to prefixed mention handlers
+ */
+export interface MentionHandlerContext {
+	cwd: string
+	urlContentFetcher: UrlContentFetcher
+	fileContextTracker?: FileContextTracker
+}
+
+/**
+ * Handler for a prefixed `@kind:value` mention
+ */
+export interface MentionHandler {
+	kind: string
+	/** Text that replaces the mention inline, pointing at the content appended below */
+	getPlaceholder(value: string): string
+	/** Content appended after the message for the mention */
+	handle(value: string, context: MentionHandlerContext): Promise<string>
+}
+
+const mentionHandlers = new Map<string, MentionHandler>()
+
+/**
+ * Register a handler for a prefixed mention kind, replacing any existing handler for that kind
+ */
+export function registerMentionHandler(handler: MentionHandler): void {
+	mentionHandlers.set(handler.kind, handler)
+}
+
+/**
+ * Remove the handler for a prefixed mention kind
+ */
+export function unregisterMentionHandler(kind: string): void {
+	mentionHandlers.delete(kind)
+}
+
+/**
+ * Get the handler registered for a prefixed mention kind
+ */
+export function getMentionHandler(kind: string): MentionHandler | undefined {
+	return mentionHandlers.get(kind)
+}
+
+/**
+ * Get all registered prefixed mention kinds
+ */
+export function getRegisteredMentionKinds(): string[] {
+	return Array.from(mentionHandlers.keys())
+}
+
+/**
+ * Handle symbol mention - inline the definitions of a function, class or method
+ */
+export async function handleSymbolMention(symbolName: string, cwd: string): Promise<string> {
+	try {
+		const definitions = await findSymbolDefinitions(cwd, symbolName)
+		if (definitions.length === 0) {
+			return `<symbol_definition name="${symbolName}">\nNo definition found for symbol "${symbolName}".\n</symbol_definition>`
+		}
+		return definitions
+			.map(
+				(definition) =>
+					`<symbol_definition name="${symbolName}" kind="${definition.kind}" path="${definition.filePath}" lines="${definition.startLine}-${definition.endLine}">\n${definition.content}\n</symbol_definition>`,
+			)
+			.join("\n\n")
+	} catch (error) {
+		return `<symbol_definition name="${symbolName}">\nError finding symbol: ${error.message}\n</symbol_definition>`
+	}
+}
+
+/**
+ * Handle folder tree mention - list the folder recursively without file contents
+ */
+export async function handleFolderTreeMention(mentionPath: string, cwd: string): Promise<string> {
+	try {
+		const absPath = path.resolve(cwd, mentionPath)
+		const stats = await fs.stat(absPath)
+		if (!stats.isDirectory()) {
+			throw new Error(`"${mentionPath}" is not a folder`)
+		}
+		const [files, didHitLimit] = await listFiles(absPath, true, 200)
+		const tree = formatResponse.formatFilesList(absPath, files, didHitLimit)
+		return `<folder_tree path="${mentionPath}">\n${tree}\n</folder_tree>`
+	} catch (error) {
+		return `<folder_tree path="${mentionPath}">\nError listing folder: ${error.message}\n</folder_tree>`
+	}
+}
+
+/**
+ * Handle readable URL mention - fetch the page without a browser and keep only its main content
+ */
+export async function handleUrlReadableMention(url: string, urlContentFetcher: UrlContentFetcher): Promise<string> {
+	try {
+		const markdown = await urlContentFetcher.urlToReadableMarkdown(url)
+		return `<url_content url="${url}">\n${markdown}\n</url_content>`
+	} catch (error) {
+		return `<url_content url="${url}">\nError fetching content: ${error.message}\n</url_content>`
+	}
+}
+
+registerMentionHandler({
+	kind: "symbol",
+	getPlaceholder: (value) => `Symbol '${value}' (see below for definition)`,
+	handle: (value, { cwd }) => handleSymbolMention(value, cwd),
+})
+
+registerMentionHandler({
+	kind: "folder-tree",
+	getPlaceholder: (value) => `'${value}' (see below for folder tree)`,
+	handle: (value, { cwd }) => handleFolderTreeMention(value.replace(/^\//, ""), cwd),
+})
+
+registerMentionHandler({
+	kind: "url-readable",
+	getPlaceholder: (value) => `'${value}' (see below for site content)`,
+	handle: (value, { urlContentFetcher }) => handleUrlReadableMention(value, urlContentFetcher),
+})
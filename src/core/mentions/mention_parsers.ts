@@ -5,15 +5,18 @@
  * - Parsing mention syntax from text
  * - Replacing mentions with placeholders
  * - Fetching content for each mention type
+ * - Dispatching prefixed `@kind:value` mentions to registered handlers
  * - Building final parsed text with content
  */
 
 import { UrlContentFetcher } from "@services/browser/UrlContentFetcher"
-import { mentionRegexGlobal } from "@shared/context-mentions"
+import { buildMentionRegex } from "@shared/context-mentions"
 import { HostProvider } from "@/hosts/host-provider"
 import { ShowMessageType } from "@/shared/proto/host/window"
 import { FileContextTracker } from "../context/context-tracking"
 import {
+	getMentionHandler,
+	getRegisteredMentionKinds,
 	handleCommitMention,
 	handleFileMention,
 	handleGitChangesMention,
@@ -21,7 +24,7 @@ import {
 	handleTerminalMention,
 	handleUrlMention,
 } from "./mention_handlers"
-import { getFilePathFromMention, isCommitHash, isFileMention } from "./mention_utils"
+import { getFilePathFromMention, isCommitHash, isFileMention, parsePrefixedMention } from "./mention_utils"
 
 /**
  * Parse mentions only within specific tags to avoid parsing tool results
@@ -41,7 +44,7 @@ export async function parseMentionsInTags(
 
 	// Replace mentions only within tags
 	let parsedText = text.replace(tagRegex, (_fullMatch, tagName, tagContent) => {
-		const processedContent = tagContent.replace(mentionRegexGlobal, (_match: string, mention: string) => {
+		const processedContent = tagContent.replace(getMentionRegexGlobal(), (_match: string, mention: string) => {
 			mentions.add(mention)
 			return getMentionPlaceholder(mention)
 		})
@@ -102,7 +105,7 @@ export async function parseMentions(
 	const mentions: Set<string> = new Set()
 
 	// Replace mentions with placeholders and collect unique mentions
-	let parsedText = text.replace(mentionRegexGlobal, (_match, mention) => {
+	let parsedText = text.replace(getMentionRegexGlobal(), (_match, mention) => {
 		mentions.add(mention)
 		return getMentionPlaceholder(mention)
 	})
@@ -148,11 +151,21 @@ export async function parseMentions(
 	return parsedText
 }
 
+/**
+ * Global mention regex that also matches every registered prefixed mention kind
+ */
+function getMentionRegexGlobal(): RegExp {
+	return buildMentionRegex(getRegisteredMentionKinds(), "g")
+}
+
 /**
  * Get placeholder text for a mention
  */
 function getMentionPlaceholder(mention: string): string {
-	if (mention.startsWith("http")) {
+	const prefixed = parsePrefixedMention(mention, getRegisteredMentionKinds())
+	if (prefixed) {
+		return getMentionHandler(prefixed.kind)!.getPlaceholder(prefixed.value)
+	} else if (mention.startsWith("http")) {
 		return `'${mention}' (see below for site content)`
 	} else if (isFileMention(mention)) {
 		const mentionPath = getFilePathFromMention(mention)
@@ -181,7 +194,10 @@ async function processMention(
 	fileContextTracker: FileContextTracker | undefined,
 	launchBrowserError: Error | undefined,
 ): Promise<string | undefined> {
-	if (mention.startsWith("http")) {
+	const prefixed = parsePrefixedMention(mention, getRegisteredMentionKinds())
+	if (prefixed) {
+		return await getMentionHandler(prefixed.kind)!.handle(prefixed.value, { cwd, urlContentFetcher, fileContextTracker })
+	} else if (mention.startsWith("http")) {
 		return await handleUrlMention(mention, urlContentFetcher, launchBrowserError)
 	} else if (isFileMention(mention)) {
 		const mentionPath = getFilePathFromMention(mention)
@@ -80,3 +80,20 @@ export function getFilePathFromMention(mention: string): string {
 export function isCommitHash(mention: string): boolean {
 	return /^[a-f0-9]{7,40}$/.test(mention)
 }
+
+/**
+ * Split a prefixed `kind:value` mention into its kind and (unquoted) value
+ */
+export function parsePrefixedMention(mention: string, kinds: readonly string[]): { kind: string; value: string } | undefined {
+	const separatorIndex = mention.indexOf(":")
+	if (separatorIndex <= 0) {
+		return undefined
+	}
+	const kind = mention.slice(0, separatorIndex)
+	if (!kinds.includes(kind)) {
+		return undefined
+	}
+	const rawValue = mention.slice(separatorIndex + 1)
+	const match = rawValue.match(/^"(.*)"$/)
+	return { kind, value: match ? match[1] : rawValue }
+}
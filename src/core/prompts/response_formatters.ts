@@ -32,6 +32,9 @@ export const formatResponse = {
 	clineIgnoreError: (path: string) =>
 		`Access to ${path} is blocked by the .clineignore file settings. You must try to continue in the task without using this file, or ask the user to update the .clineignore file.`,
 
+	fileLockedError: (path: string, heldBy: string, lockedFolder?: string) =>
+		`${path} is locked by instance ${heldBy}${lockedFolder ? ` (which holds a lock on the folder ${lockedFolder})` : ""}, another MarieCoder session working in this repository. The file was not modified. Continue with other work and try again later, or ask the user to finish or close the other session.`,
+
 	noToolsUsed: () =>
 		`[ERROR] You did not use a tool in your previous response! Please retry with a tool use.
 
@@ -50,6 +53,9 @@ Otherwise, if you have not completed the task and do not need additional informa
 	autoApprovalMaxReached: (feedback?: string) =>
 		`Auto-approval limit reached. The user has provided the following feedback to help guide you:\n<feedback>\n${feedback}\n</feedback>`,
 
+	budgetLimitReached: (feedback?: string) =>
+		`The task is approaching its budget. The user has provided the following feedback to help guide you:\n<feedback>\n${feedback}\n</feedback>`,
+
 	missingToolParameterError: (paramName: string) =>
 		`Missing value for required parameter '${paramName}'. Please retry with complete response.\n\n${toolUseInstructionsReminder}`,
 
@@ -233,6 +239,12 @@ Otherwise, if you have not completed the task and do not need additional informa
 		`<file_content path="${relPath.toPosix()}">\n${originalContent}\n</file_content>\n\n` +
 		`Now that you have the latest state of the file, try the operation again with fewer, more precise SEARCH blocks. For large files especially, it may be prudent to try to limit yourself to <5 SEARCH/REPLACE blocks at a time, then wait for the user to respond with the result of the operation before following up with another replace_in_file call to make additional edits.\n(If you run into this error 3 times in a row, you may use the write_to_file tool as a fallback.)`,
 
+	patchError: (relPath: string, originalContent: string | undefined) =>
+		`This is likely because the context lines of a hunk don't match what's in the file, or a hunk is missing the leading space, "-" or "+" on some of its lines.\n\n` +
+		`The file was reverted to its original state:\n\n` +
+		`<file_content path="${relPath.toPosix()}">\n${originalContent}\n</file_content>\n\n` +
+		`Now that you have the latest state of the file, try the operation again with smaller hunks whose context lines are copied exactly from the content above.\n(If you run into this error 3 times in a row, you may use the write_to_file tool as a fallback.)`,
+
 	toolAlreadyUsed: (toolName: string) =>
 		`Tool [${toolName}] was not executed because a tool has already been used in this message. Only one tool may be used per message. You must assess the first tool's result before proceeding to use the next tool.`,
 
@@ -251,6 +263,9 @@ Otherwise, if you have not completed the task and do not need additional informa
 	windsurfRulesLocalFileInstructions: (cwd: string, content: string) =>
 		`# .windsurfrules\n\nThe following is provided by a root-level .windsurfrules file where the user has specified instructions for this working directory (${cwd.toPosix()})\n\n${content}`,
 
+	agentsRulesLocalFileInstructions: (cwd: string, content: string) =>
+		`# AGENTS.md\n\nThe following is provided by AGENTS.md, CLAUDE.md and copilot-instructions.md files where the user has specified instructions for this working directory (${cwd.toPosix()}). Files in subdirectories apply to the files below them and take precedence over root-level ones.\n\n${content}`,
+
 	cursorRulesLocalFileInstructions: (cwd: string, content: string) =>
 		`# .cursorrules\n\nThe following is provided by a root-level .cursorrules file where the user has specified instructions for this working directory (${cwd.toPosix()})\n\n${content}`,
 
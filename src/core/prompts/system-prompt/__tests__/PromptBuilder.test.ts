@@ -1,8 +1,10 @@
 import { expect } from "chai"
 import type { McpHub } from "@/services/mcp/McpHub"
 import { ModelFamily } from "@/shared/prompts"
+import { ClineDefaultTool } from "@/shared/tools"
 import { PromptBuilder } from "../registry/prompt_builder"
 import { SystemPromptSection } from "../templates/section_definitions"
+import { registerClineToolSets } from "../tools"
 import type { ComponentRegistry, PromptVariant, SystemPromptContext } from "../types"
 import { createVariant } from "../variants/variant_builder"
 import { mockProviderInfo } from "./integration.test"
@@ -248,6 +250,27 @@ describe("PromptBuilder", () => {
 		})
 	})
 
+	describe("getNativeToolDefinitions", () => {
+		it("should build JSON schemas for the variant's tools in order", () => {
+			registerClineToolSets()
+			const variant: PromptVariant = {
+				...baseVariant,
+				tools: [ClineDefaultTool.FILE_EDIT, ClineDefaultTool.FILE_READ],
+				config: { editFormat: "unified_diff" },
+			}
+
+			const definitions = PromptBuilder.getNativeToolDefinitions(variant, mockContext)
+
+			expect(definitions.map((definition) => definition.name)).to.deep.equal(["replace_in_file", "read_file"])
+			const [replaceInFile] = definitions
+			expect(replaceInFile.input_schema.type).to.equal("object")
+			expect(replaceInFile.input_schema.required).to.include.members(["path", "diff"])
+			expect(replaceInFile.input_schema.properties.path.type).to.equal("string")
+			// Only the diff parameter matching the edit format is offered
+			expect(replaceInFile.input_schema.properties.diff.description).to.include("@@")
+		})
+	})
+
 	describe("VariantBuilder auto-generation", () => {
 		it("should auto-generate baseTemplate from componentOrder when not provided", () => {
 			const config = createVariant(ModelFamily.GENERIC)
@@ -85,6 +85,14 @@ export const CommonVariables = {
 	yoloMode: (context: SystemPromptContext, whenEnabled: string, whenDisabled: string) =>
 		context.yoloModeToggled === true ? whenEnabled : whenDisabled,
 
+	/** Edit format status (unified diffs vs SEARCH/REPLACE blocks) */
+	unifiedDiffs: (context: SystemPromptContext, whenUnified: string, whenSearchReplace: string = "") =>
+		context.editFormat === "unified_diff" ? whenUnified : whenSearchReplace,
+
+	/** Tool call format (native function calling vs XML in the response text) */
+	nativeToolCalls: (context: SystemPromptContext, whenNative: string, whenXml: string = "") =>
+		context.toolCallFormat === "native" ? whenNative : whenXml,
+
 	/** Focus chain status */
 	focusChainEnabled: (context: SystemPromptContext) => context.focusChainSettings?.enabled ?? false,
 }
@@ -1,11 +1,21 @@
 import { SystemPromptSection } from "../templates/section_definitions"
-import { createComponent } from "./base_component"
+import { CommonVariables, createComponent } from "./base_component"
 
 /**
  * File Operations - Clear guidelines for editing files
  * Unified base component system.
  */
 
+const APPLY_PATCH_TEMPLATE_TEXT = `
+## apply_patch
+
+**Purpose**: Apply one patch that creates, deletes, renames or edits several files.
+
+**When to Use**:
+- **Cross-file changes**: Renaming a symbol used in many files, moving code between files
+- **File moves**: Renaming or deleting files alongside their edits
+`
+
 const EDITING_FILES_TEMPLATE_TEXT = `EDITING FILES
 
 **Two Tools**: \`write_to_file\` and \`replace_in_file\`. Select the right one for efficient, accurate modifications.
@@ -38,7 +48,7 @@ const EDITING_FILES_TEMPLATE_TEXT = `EDITING FILES
 **Advantages**:
 - **Efficient**: Don't need to supply entire file content
 - **Safer**: Reduces errors from overwriting large files
-
+{{APPLY_PATCH_SECTION}}
 ## Tool Selection (Required)
 
 **Default**: Use \`replace_in_file\` for most changes (safer, more precise).
@@ -65,20 +75,25 @@ const EDITING_FILES_TEMPLATE_TEXT = `EDITING FILES
 
 **CRITICAL**: Tool responses include final state AFTER auto-formatting.
 - **Use final state**: Reference point for subsequent edits
-- **ESPECIALLY for SEARCH blocks**: Must match file content EXACTLY
+- **ESPECIALLY for {{EDIT_CONTEXT}}**: Must match file content EXACTLY
 
 ## Workflow (Required)
 
 1. **Assess scope**: Decide which tool to use before editing
-2. **Targeted edits**: Use replace_in_file with SEARCH/REPLACE blocks
+2. **Targeted edits**: Use replace_in_file with {{EDIT_BLOCKS}}
    - **Multiple changes**: Stack multiple blocks in single call
-3. **IMPORTANT - Single Call**: For multiple changes to same file, use ONE replace_in_file call with multiple SEARCH/REPLACE blocks
+3. **IMPORTANT - Single Call**: For multiple changes to same file, use ONE replace_in_file call with multiple {{EDIT_BLOCKS}}
    - **DO**: Single call with blocks for import + component usage
    - **DON'T**: Separate calls for import, then component
 4. **Major overhauls**: Use write_to_file for major rewrites or new files
-5. **Use final state**: System provides final state after edits - use this for subsequent SEARCH/REPLACE (reflects auto-formatting)`
+5. **Use final state**: System provides final state after edits - use this for subsequent {{EDIT_BLOCKS}} (reflects auto-formatting)`
 
 export const getEditingFilesSection = createComponent({
 	section: SystemPromptSection.EDITING_FILES,
 	defaultTemplate: EDITING_FILES_TEMPLATE_TEXT,
+	buildVariables: (context) => ({
+		EDIT_BLOCKS: CommonVariables.unifiedDiffs(context, "unified diff hunks", "SEARCH/REPLACE blocks"),
+		EDIT_CONTEXT: CommonVariables.unifiedDiffs(context, "diff context lines", "SEARCH blocks"),
+		APPLY_PATCH_SECTION: CommonVariables.unifiedDiffs(context, APPLY_PATCH_TEMPLATE_TEXT),
+	}),
 })
@@ -20,6 +20,9 @@ Every tool use supports an optional \`task_progress\` parameter for an updated c
 
 ### Format (Required):
 - **Markdown checklist**: \`- [ ]\` for incomplete, \`- [x]\` for completed
+- **Status markers**: \`- [-]\` for the item in progress, \`- [!]\` for items that are blocked
+- **Subtasks**: Indent by two spaces under the parent item for long tasks
+- **Dependencies**: Name an item with \`[id: name]\` and make another wait for it with \`[after: name]\`; keep existing annotations
 - **Complete checklist**: Provide ALL steps you intend to complete
 - **Keep updated**: Update checkboxes as you make progress
 - **Rewrite as needed**: Update if scope changes or new information emerges
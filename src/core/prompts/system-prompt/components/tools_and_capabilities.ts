@@ -11,19 +11,13 @@ const TOOL_USE_TEMPLATE_TEXT = `TOOL USE
 
 **Access**: Tools executed upon user approval. One tool per message. Results returned in user's response. Use step-by-step, each informed by previous results.
 
-## Tool Formatting (Required)
-
-\`\`\`xml
-<tool_name>
-<parameter_name>parameter_value</parameter_name>
-</tool_name>
-\`\`\`
+{{TOOL_FORMATTING}}
 
 ## Available Tools
 
 - \`execute_command\` - Run CLI commands
 - \`write_to_file\` - Create or overwrite files
-- \`replace_in_file\` - Make targeted edits to files
+- \`replace_in_file\` - Make targeted edits to files{{PATCH_TOOLS}}
 - \`read_file\` - Read file contents
 - \`list_files\` - List directory contents
 - \`search_files\` - Search for patterns in files
@@ -31,7 +25,26 @@ const TOOL_USE_TEMPLATE_TEXT = `TOOL USE
 - \`use_mcp_tool\` - Use MCP server tools
 {{BROWSER_TOOLS}}
 
-## Examples
+{{TOOL_EXAMPLES}}## Guidelines (Required)
+
+- **Step-by-step**: Use tools sequentially to accomplish tasks
+- **Wait for approval**: Confirm user approval before proceeding
+- **Informed decisions**: Each tool use informed by previous results
+- **Precision**: Be precise with file paths and parameters`
+
+const XML_TOOL_FORMATTING_TEXT = `## Tool Formatting (Required)
+
+\`\`\`xml
+<tool_name>
+<parameter_name>parameter_value</parameter_name>
+</tool_name>
+\`\`\``
+
+const NATIVE_TOOL_CALLING_TEXT = `## Tool Calling (Required)
+
+Call tools through the function-calling interface. Each tool's parameters are described in its schema; pass every value as a string. Do not write tool calls as XML in your response text.`
+
+const getXmlToolExamplesText = (editFileExample: string) => `## Examples
 
 ### Execute Command
 \`\`\`xml
@@ -59,27 +72,34 @@ const TOOL_USE_TEMPLATE_TEXT = `TOOL USE
 <replace_in_file>
 <path>src/App.tsx</path>
 <diff>
-------- SEARCH
-import React from 'react';
-=======
-import React, { useState } from 'react';
-+++++++ REPLACE
+${editFileExample}
 </diff>
 </replace_in_file>
 \`\`\`
 
-## Guidelines (Required)
-
-- **Step-by-step**: Use tools sequentially to accomplish tasks
-- **Wait for approval**: Confirm user approval before proceeding
-- **Informed decisions**: Each tool use informed by previous results
-- **Precision**: Be precise with file paths and parameters`
+`
 
 export const getToolUseSection = createComponent({
 	section: SystemPromptSection.TOOL_USE,
 	defaultTemplate: TOOL_USE_TEMPLATE_TEXT,
 	buildVariables: (context) => ({
+		TOOL_FORMATTING: CommonVariables.nativeToolCalls(context, NATIVE_TOOL_CALLING_TEXT, XML_TOOL_FORMATTING_TEXT),
 		BROWSER_TOOLS: CommonVariables.browserSupport(context, "\n- `browser_action` - Interact with web pages"),
+		PATCH_TOOLS: CommonVariables.unifiedDiffs(
+			context,
+			"\n- `apply_patch` - Create, delete, rename or edit several files at once",
+		),
+		TOOL_EXAMPLES: CommonVariables.nativeToolCalls(
+			context,
+			"",
+			getXmlToolExamplesText(
+				CommonVariables.unifiedDiffs(
+					context,
+					"@@ -1,1 +1,1 @@\n-import React from 'react';\n+import React, { useState } from 'react';",
+					"------- SEARCH\nimport React from 'react';\n=======\nimport React, { useState } from 'react';\n+++++++ REPLACE",
+				),
+			),
+		),
 		CWD: CommonVariables.cwd(context),
 	}),
 })
@@ -24,6 +24,7 @@ export const getUserInstructions = createComponent({
 			context.localCursorRulesFileInstructions,
 			context.localCursorRulesDirInstructions,
 			context.localWindsurfRulesFileInstructions,
+			context.localAgentsRulesFileInstructions,
 			context.clineIgnoreInstructions,
 			context.preferredLanguageInstructions,
 		)
@@ -36,6 +37,7 @@ export const getUserInstructions = createComponent({
 			context.localCursorRulesFileInstructions,
 			context.localCursorRulesDirInstructions,
 			context.localWindsurfRulesFileInstructions,
+			context.localAgentsRulesFileInstructions,
 			context.clineIgnoreInstructions,
 			context.preferredLanguageInstructions,
 		),
@@ -48,6 +50,7 @@ function buildUserInstructions(
 	localCursorRulesFileInstructions?: string,
 	localCursorRulesDirInstructions?: string,
 	localWindsurfRulesFileInstructions?: string,
+	localAgentsRulesFileInstructions?: string,
 	clineIgnoreInstructions?: string,
 	preferredLanguageInstructions?: string,
 ): string | undefined {
@@ -70,6 +73,9 @@ function buildUserInstructions(
 	if (localWindsurfRulesFileInstructions) {
 		customInstructions.push(localWindsurfRulesFileInstructions)
 	}
+	if (localAgentsRulesFileInstructions) {
+		customInstructions.push(localAgentsRulesFileInstructions)
+	}
 	if (clineIgnoreInstructions) {
 		customInstructions.push(clineIgnoreInstructions)
 	}
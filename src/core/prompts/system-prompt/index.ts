@@ -1,7 +1,8 @@
 import { isGPT5ModelFamily, isLocalModel, isNextGenModelFamily } from "@utils/model-utils"
 import { ModelFamily } from "@/shared/prompts"
 import { PromptRegistry } from "./registry"
-import type { SystemPromptContext } from "./types"
+import type { EditFormat, SystemPromptContext, ToolCallFormat } from "./types"
+import { isValidVariantId, loadVariantConfig } from "./variants"
 
 export { ClineToolSet, PromptBuilder, PromptRegistry } from "./registry"
 export * from "./templates"
@@ -9,7 +10,7 @@ export { TemplateEngine } from "./templates"
 export * from "./types"
 export { VariantBuilder, validateVariant } from "./variants"
 
-import { ProviderInfo } from "@/core/api"
+import { ApiToolDefinition, ProviderInfo } from "@/core/api"
 
 /**
  * Extract model family from model ID (e.g., "claude-4" -> "claude")
@@ -29,6 +30,29 @@ export function getModelFamily(providerInfo: ProviderInfo): ModelFamily {
 	return ModelFamily.GENERIC
 }
 
+/**
+ * Get the edit format configured for the model's prompt variant
+ */
+export function getEditFormat(providerInfo: ProviderInfo): EditFormat {
+	return getVariantConfig(providerInfo).editFormat ?? "search_replace"
+}
+
+/**
+ * Get how the model should call tools
+ * Native tool calls need both a variant that asks for them and a provider that supports them;
+ * everything else falls back to XML tool calls in the response text
+ */
+export function getToolCallFormat(providerInfo: ProviderInfo): ToolCallFormat {
+	const wantsNative = getVariantConfig(providerInfo).toolCallFormat === "native"
+	return wantsNative && providerInfo.capabilities?.nativeToolCalls ? "native" : "xml"
+}
+
+function getVariantConfig(providerInfo: ProviderInfo) {
+	const modelFamily = getModelFamily(providerInfo)
+	const variantId = isValidVariantId(modelFamily) ? modelFamily : ModelFamily.GENERIC
+	return loadVariantConfig(variantId).config
+}
+
 /**
  * Get the system prompt by id
  */
@@ -36,3 +60,11 @@ export async function getSystemPrompt(context: SystemPromptContext): Promise<str
 	const registry = PromptRegistry.getInstance()
 	return await registry.get(context)
 }
+
+/**
+ * Get the tool definitions to send to providers when the model calls tools natively
+ */
+export async function getNativeToolDefinitions(context: SystemPromptContext): Promise<ApiToolDefinition[]> {
+	const registry = PromptRegistry.getInstance()
+	return await registry.getNativeTools(context)
+}
@@ -1,3 +1,4 @@
+import type { ApiToolDefinition } from "@/core/api/api_service"
 import { Logger } from "@/services/logging/Logger"
 import type { ClineDefaultTool } from "@/shared/tools"
 import { getModelFamily } from "../"
@@ -13,12 +14,22 @@ const STANDARD_PLACEHOLDER_KEYS = Object.values(STANDARD_PLACEHOLDERS)
 export class PromptBuilder {
 	private templateEngine: TemplateEngine
 
+	private context: SystemPromptContext
+
 	constructor(
 		private variant: PromptVariant,
-		private context: SystemPromptContext,
+		context: SystemPromptContext,
 		private components: ComponentRegistry,
 	) {
 		this.templateEngine = new TemplateEngine()
+		this.context = PromptBuilder.withEditFormat(variant, context)
+	}
+
+	/**
+	 * Components, tools and parameters can depend on the edit format the variant asks for
+	 */
+	private static withEditFormat(variant: PromptVariant, context: SystemPromptContext): SystemPromptContext {
+		return { ...context, editFormat: variant.config.editFormat ?? "search_replace" }
 	}
 
 	async build(): Promise<string> {
@@ -130,8 +141,46 @@ export class PromptBuilder {
 		}
 	}
 
-	public static async getToolsPrompts(variant: PromptVariant, context: SystemPromptContext) {
-		let resolvedTools: ReturnType<typeof ClineToolSet.getTools> = []
+	public static async getToolsPrompts(variant: PromptVariant, promptContext: SystemPromptContext) {
+		const context = PromptBuilder.withEditFormat(variant, promptContext)
+		const enabledTools = PromptBuilder.getEnabledTools(variant, context)
+		const ids = enabledTools.map((tool) => tool.config.id)
+		return Promise.all(enabledTools.map((tool) => PromptBuilder.tool(tool.config, ids, context)))
+	}
+
+	/**
+	 * Build JSON schema tool definitions for providers that support native tool calling
+	 */
+	public static getNativeToolDefinitions(variant: PromptVariant, promptContext: SystemPromptContext): ApiToolDefinition[] {
+		const context = PromptBuilder.withEditFormat(variant, promptContext)
+		const enabledTools = PromptBuilder.getEnabledTools(variant, context)
+		const ids = enabledTools.map((tool) => tool.config.id)
+
+		return enabledTools
+			.map((tool) => tool.config)
+			.filter((config) => config.parameters?.length || config.description?.length)
+			.map((config) => {
+				const params = PromptBuilder.filterParameters(config, ids, context)
+				const description = [config.description, ...params.flatMap((p) => (p.description ? [p.description] : []))]
+				return {
+					name: config.id,
+					description: description.join("\n"),
+					input_schema: {
+						type: "object" as const,
+						properties: Object.fromEntries(
+							params.map((p) => [p.name, { type: "string" as const, description: p.instruction }]),
+						),
+						required: params.filter((p) => p.required).map((p) => p.name),
+					},
+				}
+			})
+	}
+
+	/**
+	 * Resolve the tools a variant offers and drop those whose context requirements aren't met
+	 */
+	private static getEnabledTools(variant: PromptVariant, context: SystemPromptContext): ClineToolSet[] {
+		let resolvedTools: ClineToolSet[] = []
 
 		// If the variant explicitly lists tools, resolve each by id with fallback to GENERIC
 		if (variant?.tools?.length) {
@@ -150,12 +199,7 @@ export class PromptBuilder {
 		}
 
 		// Filter by context requirements
-		const enabledTools = resolvedTools.filter(
-			(tool) => !tool.config.contextRequirements || tool.config.contextRequirements(context),
-		)
-
-		const ids = enabledTools.map((tool) => tool.config.id)
-		return Promise.all(enabledTools.map((tool) => PromptBuilder.tool(tool.config, ids, context)))
+		return resolvedTools.filter((tool) => !tool.config.contextRequirements || tool.config.contextRequirements(context))
 	}
 
 	public static tool(config: ClineToolSpec, registry: ClineDefaultTool[], context: SystemPromptContext): string {
@@ -170,25 +214,7 @@ export class PromptBuilder {
 			config.parameters = []
 		}
 
-		// Clone parameters to avoid mutating original
-		const params = [...config.parameters]
-
-		// Filter parameters based on dependencies and contextRequirements
-		const filteredParams = params.filter((p) => {
-			// Check dependencies first (existing behavior)
-			if (p.dependencies?.length) {
-				if (!p.dependencies.every((d) => registry.includes(d))) {
-					return false
-				}
-			}
-
-			// Check contextRequirements (new behavior)
-			if (p.contextRequirements) {
-				return p.contextRequirements(context)
-			}
-
-			return true
-		})
+		const filteredParams = PromptBuilder.filterParameters(config, registry, context)
 
 		// Collect additional descriptions only from filtered parameters (single-pass optimization)
 		const additionalDesc = filteredParams.reduce<string[]>((acc, p) => {
@@ -212,6 +238,34 @@ export class PromptBuilder {
 		return sections.filter(Boolean).join("\n")
 	}
 
+	/**
+	 * Keep the parameters whose dependencies and context requirements are met
+	 */
+	private static filterParameters(
+		config: ClineToolSpec,
+		registry: ClineDefaultTool[],
+		context: SystemPromptContext,
+	): NonNullable<ClineToolSpec["parameters"]> {
+		// Clone parameters to avoid mutating original
+		const params = [...(config.parameters ?? [])]
+
+		return params.filter((p) => {
+			// Check dependencies first (existing behavior)
+			if (p.dependencies?.length) {
+				if (!p.dependencies.every((d) => registry.includes(d))) {
+					return false
+				}
+			}
+
+			// Check contextRequirements (new behavior)
+			if (p.contextRequirements) {
+				return p.contextRequirements(context)
+			}
+
+			return true
+		})
+	}
+
 	private static buildParametersSection(params: any[]): string {
 		if (!params.length) {
 			return "Parameters: None"
@@ -1,3 +1,4 @@
+import type { ApiToolDefinition } from "@/core/api/api_service"
 import { Logger } from "@/services/logging/Logger"
 import { ModelFamily } from "@/shared/prompts"
 import { getModelFamily } from ".."
@@ -68,6 +69,23 @@ export class PromptRegistry {
 	async get(context: SystemPromptContext): Promise<string> {
 		await this.load()
 
+		const builder = new PromptBuilder(this.resolveVariant(context), context, this.components)
+		return await builder.build()
+	}
+
+	/**
+	 * Get the native tool definitions of the variant the prompt is built from
+	 */
+	async getNativeTools(context: SystemPromptContext): Promise<ApiToolDefinition[]> {
+		await this.load()
+
+		return PromptBuilder.getNativeToolDefinitions(this.resolveVariant(context), context)
+	}
+
+	/**
+	 * Find the variant for the context's model family, falling back to generic
+	 */
+	private resolveVariant(context: SystemPromptContext): PromptVariant {
 		// Try model family fallback (e.g., "claude-4" -> "claude")
 		const modelFamily = getModelFamily(context.providerInfo)
 		let variant = this.variants.get(modelFamily ?? ModelFamily.GENERIC)
@@ -98,8 +116,7 @@ export class PromptRegistry {
 			)
 		}
 
-		const builder = new PromptBuilder(variant, context, this.components)
-		return await builder.build()
+		return variant
 	}
 
 	/**
@@ -0,0 +1,4 @@
+import { ClineDefaultTool } from "@/shared/tools"
+import { getToolVariants } from "./shared"
+
+export const apply_patch_variants = getToolVariants(ClineDefaultTool.APPLY_PATCH)
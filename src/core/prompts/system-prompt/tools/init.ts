@@ -5,6 +5,7 @@ import { list_code_definition_names_variants } from "./code_definitions"
 import { execute_command_variants } from "./command_execution"
 import { replace_in_file_variants } from "./file_editing"
 import { list_files_variants } from "./file_listing"
+import { apply_patch_variants } from "./file_patching"
 import { read_file_variants } from "./file_reading"
 import { search_files_variants } from "./file_searching"
 import { write_to_file_variants } from "./file_writing"
@@ -27,6 +28,7 @@ export function registerClineToolSets(): void {
 	// Collect all variants from all tools
 	const allToolVariants = [
 		...access_mcp_resource_variants,
+		...apply_patch_variants,
 		...ask_followup_question_variants,
 		...attempt_completion_variants,
 		...browser_action_variants,
@@ -255,6 +255,61 @@ Critical rules:
 	usage: "Search and replace blocks here",
 })
 
+/**
+ * Standard parameter template for unified diff content
+ */
+export const createUnifiedDiffParameter = (customInstruction?: string) => ({
+	name: "diff",
+	required: true,
+	instruction:
+		customInstruction ||
+		`One or more unified diff hunks for this file:
+\`\`\`
+@@ -12,4 +12,4 @@
+ [unchanged context line]
+-[line to remove]
++[line to add]
+ [unchanged context line]
+\`\`\`
+Critical rules:
+1. Prefix every line of a hunk: a space for unchanged context, "-" for removed lines, "+" for added lines.
+2. Include 2-3 lines of unchanged context around each change, copied exactly from the file, so the hunk can be located even if the line numbers are off.
+3. List hunks in the order they appear in the file and never let two hunks overlap.
+4. Each line must be complete. Never truncate lines or use "..." to skip content inside a hunk.
+5. The ---/+++ file headers are optional, and the diff must only touch the file given in path. Use apply_patch to create, delete, rename or edit several files at once.`,
+	usage: "Unified diff hunks here",
+})
+
+/**
+ * Standard parameter template for multi-file apply_patch envelopes
+ */
+export const createPatchParameter = (customInstruction?: string) => ({
+	name: "diff",
+	required: true,
+	instruction:
+		customInstruction ||
+		`A patch envelope with one section per file, in this exact format:
+\`\`\`
+*** Begin Patch
+*** Update File: src/app.ts
+*** Move to: src/main.ts
+@@ [optional line just above the change, e.g. a function signature]
+ [unchanged context line]
+-[line to remove]
++[line to add]
+*** Add File: src/new.ts
++[every line of the new file, prefixed with +]
+*** Delete File: src/old.ts
+*** End Patch
+\`\`\`
+Critical rules:
+1. Paths are relative to the current working directory {{CWD}}.
+2. Update sections use unified diff hunks without line numbers. Include 2-3 lines of unchanged context around each change, copied exactly from the file.
+3. "*** Move to:" is optional and renames the file being updated.
+4. Standard unified diffs with ---/+++ file headers (using /dev/null for created or deleted files) are also accepted.`,
+	usage: "Patch envelope here",
+})
+
 /**
  * Standard parameter template for code definition names
  */
@@ -299,10 +354,24 @@ export const createMcpDocumentationParameter = (customInstruction?: string) => (
  * Standard parameter template for new task creation
  */
 export const createNewTaskParameter = (customInstruction?: string) => ({
-	name: "task",
+	name: "context",
 	required: true,
-	instruction: customInstruction || "The new task to create.",
-	usage: "New task here",
+	instruction:
+		customInstruction ||
+		"The context to preload the new task with. When subtasks are given, this is the shared background every sub-agent receives.",
+	usage: "New task context here",
+})
+
+/**
+ * Standard parameter template for fanning a task out to parallel sub-agents
+ */
+export const createSubtasksParameter = (customInstruction?: string) => ({
+	name: "subtasks",
+	required: false,
+	instruction:
+		customInstruction ||
+		'A JSON array of independent subtasks to run in parallel as sub-agents, each either a string or an object like {"title": "...", "task": "..."}. Each sub-agent works in its own task with its own context, and you receive every result when they finish. Only use this for work that can proceed without coordination, such as updating several packages, and never give two subtasks the same files.',
+	usage: '["Update packages/api to the new logger", "Update packages/web to the new logger"]',
 })
 
 /**
@@ -8,6 +8,7 @@
 import { ModelFamily } from "@/shared/prompts"
 import { ClineDefaultTool } from "@/shared/tools"
 import type { ClineToolSpec } from "../../spec"
+import type { SystemPromptContext } from "../../types"
 import {
 	createActionParameter,
 	createAttemptCompletionParameter,
@@ -20,6 +21,7 @@ import {
 	createFocusChainParameter,
 	createMcpDocumentationParameter,
 	createNewTaskParameter,
+	createPatchParameter,
 	createPathParameter,
 	createPlanModeResponseParameter,
 	createQuestionParameter,
@@ -27,17 +29,24 @@ import {
 	createRegexParameter,
 	createRequiresApprovalParameter,
 	createServerNameParameter,
+	createSubtasksParameter,
 	createTaskProgressParameter,
 	createTextParameter,
 	createTimeoutParameter,
 	createToolArgumentsParameter,
 	createToolNameParameter,
+	createUnifiedDiffParameter,
 	createUriParameter,
 	createUrlParameter,
 	createWebFetchParameter,
 } from "./parameter_definitions"
 import { ToolFactory, type ToolVariantConfig } from "./tool_factory"
 
+/**
+ * Whether the model's prompt variant asks for unified diffs instead of SEARCH/REPLACE blocks
+ */
+const usesUnifiedDiffs = (context: SystemPromptContext) => context.editFormat === "unified_diff"
+
 /**
  * Tool configuration registry
  */
@@ -100,7 +109,22 @@ class ToolConfigService {
 			name: "replace_in_file",
 			description:
 				"Request to replace content in a file using search and replace operations. This tool allows precise editing of file contents by finding specific text patterns and replacing them with new content.",
-			parameters: [createPathParameter("file"), createDiffParameter(), createTaskProgressParameter()],
+			parameters: [
+				createPathParameter("file"),
+				{ ...createDiffParameter(), contextRequirements: (context) => !usesUnifiedDiffs(context) },
+				{ ...createUnifiedDiffParameter(), contextRequirements: usesUnifiedDiffs },
+				createTaskProgressParameter(),
+			],
+			variants: [ModelFamily.GENERIC],
+		})
+
+		ToolConfigService.register({
+			id: ClineDefaultTool.APPLY_PATCH,
+			name: "apply_patch",
+			description:
+				"Request to apply a patch that creates, deletes, renames or edits one or more files in a single operation. Use this for changes that span several files; for targeted edits to a single file, replace_in_file is usually simpler.",
+			parameters: [createPatchParameter(), createTaskProgressParameter()],
+			contextRequirements: usesUnifiedDiffs,
 			variants: [ModelFamily.GENERIC],
 		})
 
@@ -186,7 +210,12 @@ class ToolConfigService {
 			contextRequirements: (context) => context.mcpHub !== undefined && context.mcpHub !== null,
 			parameters: [
 				createServerNameParameter("The name of the MCP server providing the resource"),
-				createUriParameter("The URI identifying the specific resource to access"),
+				createUriParameter(
+					"The URI identifying the specific resource to access. For a resource template, pass the template itself (e.g. weather://{city}/current) and fill it in with arguments",
+				),
+				createToolArgumentsParameter(
+					'The values for the resource template\'s variables as JSON (e.g. {"city": "Paris"}); only needed when uri is a template',
+				),
 				createTaskProgressParameter(),
 			],
 			variants: [ModelFamily.GENERIC, ModelFamily.NEXT_GEN, ModelFamily.GPT],
@@ -249,8 +278,8 @@ class ToolConfigService {
 			id: ClineDefaultTool.NEW_TASK,
 			name: "new_task",
 			description:
-				"Request to create a new task or subtask. Use this when you need to break down complex tasks into manageable components.",
-			parameters: [createNewTaskParameter()],
+				"Request to create a new task or subtask. Use this when you need to break down complex tasks into manageable components. With subtasks, the work is fanned out to sub-agents that run in parallel while the current task waits for their results.",
+			parameters: [createNewTaskParameter(), createSubtasksParameter()],
 			variants: [ModelFamily.GENERIC],
 		})
 
@@ -62,6 +62,20 @@ export interface MutablePromptVariant {
 	toolOverrides?: Partial<Record<ClineDefaultTool, ConfigOverride>>
 }
 
+/**
+ * Grammar the model uses for file edits
+ * - search_replace: SEARCH/REPLACE blocks in replace_in_file (default)
+ * - unified_diff: unified diff hunks in replace_in_file, plus apply_patch for multi-file changes
+ */
+export type EditFormat = "search_replace" | "unified_diff"
+
+/**
+ * How the model calls tools
+ * - xml: tool calls are written as XML in the response text (default, works with every provider)
+ * - native: tools are sent to the provider as JSON schemas and called through its function-calling API
+ */
+export type ToolCallFormat = "xml" | "native"
+
 /**
  * Type-safe prompt configuration
  */
@@ -70,6 +84,8 @@ export interface PromptConfig {
 	readonly temperature?: number
 	readonly maxTokens?: number
 	readonly tools?: readonly ClineToolSpec[]
+	readonly editFormat?: EditFormat
+	readonly toolCallFormat?: ToolCallFormat // "native" only applies when the provider supports it
 	readonly [key: string]: unknown // Additional arbitrary config
 }
 
@@ -102,6 +118,7 @@ export interface SystemPromptContext {
 	readonly localCursorRulesFileInstructions?: string
 	readonly localCursorRulesDirInstructions?: string
 	readonly localWindsurfRulesFileInstructions?: string
+	readonly localAgentsRulesFileInstructions?: string
 	readonly clineIgnoreInstructions?: string
 	readonly preferredLanguageInstructions?: string
 	readonly browserSettings?: BrowserSettings
@@ -110,6 +127,8 @@ export interface SystemPromptContext {
 	readonly yoloModeToggled?: boolean
 	readonly isMultiRootEnabled?: boolean
 	readonly workspaceRoots?: Array<{ path: string; name: string; vcs?: string }>
+	readonly editFormat?: EditFormat
+	readonly toolCallFormat?: ToolCallFormat
 }
 
 /**
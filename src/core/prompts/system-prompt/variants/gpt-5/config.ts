@@ -36,6 +36,7 @@ export const config = createVariant(ModelFamily.GPT_5)
 		ClineDefaultTool.FILE_READ,
 		ClineDefaultTool.FILE_NEW,
 		ClineDefaultTool.FILE_EDIT,
+		ClineDefaultTool.APPLY_PATCH,
 		ClineDefaultTool.SEARCH,
 		ClineDefaultTool.LIST_FILES,
 		ClineDefaultTool.LIST_CODE_DEF,
@@ -53,7 +54,8 @@ export const config = createVariant(ModelFamily.GPT_5)
 	.placeholders({
 		MODEL_FAMILY: ModelFamily.GPT_5,
 	})
-	.config({})
+	// GPT-5 models are trained on unified diffs and apply_patch envelopes, and call tools natively
+	.config({ editFormat: "unified_diff", toolCallFormat: "native" })
 	// Override the RULES component with custom template
 	.overrideComponent(SystemPromptSection.RULES, {
 		template: rules_template,
@@ -35,7 +35,8 @@ export const config = QuickVariants.full(
 	.placeholders({
 		MODEL_FAMILY: ModelFamily.NEXT_GEN,
 	})
-	.config({})
+	// Call tools through the provider's function-calling API where it is supported
+	.config({ toolCallFormat: "native" })
 	// Override the RULES component with custom template
 	.overrideComponent(SystemPromptSection.RULES, {
 		template: rules_template,
@@ -0,0 +1,115 @@
+import type { McpPrompt, McpPromptResponse } from "@shared/mcp"
+import { expect } from "chai"
+import { describe, it } from "mocha"
+import { parseSlashCommands } from ".."
+import { formatMcpPromptMessages, type McpPromptSource, parseMcpPromptArguments, parseMcpPromptCommand } from "../mcp_prompts"
+
+const REVIEW_PROMPT: McpPrompt = {
+	name: "review",
+	arguments: [{ name: "pr", required: true }, { name: "focus" }],
+}
+
+function createHub(calls: Array<{ serverName: string; promptName: string; args?: Record<string, string> }>): McpPromptSource {
+	return {
+		getPrompts: (serverName: string) => (serverName === "github" ? [REVIEW_PROMPT] : []),
+		getPrompt: async (serverName: string, promptName: string, args: Record<string, string> | undefined) => {
+			calls.push({ serverName, promptName, args })
+			return {
+				messages: [{ role: "user", content: { type: "text", text: `Review PR ${args?.pr} (${args?.focus ?? "all"})` } }],
+			}
+		},
+	}
+}
+
+describe("MCP prompt slash commands", () => {
+	describe("parseMcpPromptCommand", () => {
+		it("should split at the last colon", () => {
+			expect(parseMcpPromptCommand("mcp:github:review")).to.deep.equal({ serverName: "github", promptName: "review" })
+			expect(parseMcpPromptCommand("mcp:my:server:review")).to.deep.equal({
+				serverName: "my:server",
+				promptName: "review",
+			})
+			expect(parseMcpPromptCommand("mcp:github")).to.equal(undefined)
+			expect(parseMcpPromptCommand("newtask")).to.equal(undefined)
+		})
+	})
+
+	describe("parseMcpPromptArguments", () => {
+		it("should take leading name=value pairs and leave the message", () => {
+			const { promptArguments, remainingText } = parseMcpPromptArguments(
+				` pr=42 focus="error handling" note='a b' and check the tests`,
+			)
+
+			expect(promptArguments).to.deep.equal({ pr: "42", focus: "error handling", note: "a b" })
+			expect(remainingText).to.equal("and check the tests")
+		})
+	})
+
+	describe("formatMcpPromptMessages", () => {
+		it("should wrap conversations by role and inline text resources", () => {
+			const response: McpPromptResponse = {
+				messages: [
+					{ role: "user", content: { type: "resource", resource: { uri: "file:///a.md", text: "Notes" } } },
+					{ role: "assistant", content: { type: "image", data: "", mimeType: "image/png" } },
+				],
+			}
+
+			expect(formatMcpPromptMessages(response)).to.equal(
+				'<message role="user">\n<resource uri="file:///a.md">\nNotes\n</resource>\n</message>\n' +
+					'<message role="assistant">\n[image content omitted: image/png]\n</message>',
+			)
+		})
+	})
+
+	describe("parseSlashCommands", () => {
+		it("should replace the command with the prompt and keep the message", async () => {
+			const calls: Array<{ serverName: string; promptName: string; args?: Record<string, string> }> = []
+
+			const { processedText } = await parseSlashCommands(
+				"<task>/mcp:github:review pr=42 focus=tests please be thorough</task>",
+				{},
+				{},
+				"ulid",
+				undefined,
+				createHub(calls),
+			)
+
+			expect(calls).to.deep.equal([{ serverName: "github", promptName: "review", args: { pr: "42", focus: "tests" } }])
+			expect(processedText).to.equal(
+				'<explicit_instructions type="mcp:github:review">\nReview PR 42 (tests)\n</explicit_instructions>\n' +
+					"<task> please be thorough</task>",
+			)
+		})
+
+		it("should explain why a prompt couldn't be run", async () => {
+			const calls: Array<{ serverName: string; promptName: string }> = []
+
+			const missingArgument = await parseSlashCommands(
+				"<task>/mcp:github:review</task>",
+				{},
+				{},
+				"ulid",
+				undefined,
+				createHub(calls),
+			)
+			const unknownPrompt = await parseSlashCommands(
+				"<task>/mcp:slack:post</task>",
+				{},
+				{},
+				"ulid",
+				undefined,
+				createHub(calls),
+			)
+
+			expect(calls).to.be.empty
+			expect(missingArgument.processedText).to.include("Missing required arguments: pr")
+			expect(unknownPrompt.processedText).to.include('MCP server "slack" has no prompt named "post"')
+		})
+
+		it("should leave MCP commands alone without a hub", async () => {
+			const text = "<task>/mcp:github:review pr=1</task>"
+
+			expect((await parseSlashCommands(text, {}, {}, "ulid")).processedText).to.equal(text)
+		})
+	})
+})
@@ -7,10 +7,14 @@ import {
 	newTaskToolResponse,
 	reportBugToolResponse,
 } from "../prompts/command_responses"
+import { type McpPromptSource, parseMcpPromptArguments, parseMcpPromptCommand, resolveMcpPrompt } from "./mcp_prompts"
 
 /**
  * Processes text for slash commands and transforms them with appropriate instructions
  * This is called after parseMentions() to process any slash commands in the user's message
+ *
+ * Besides the built-in commands and workflows, `/mcp:<server>:<prompt> name=value ...` runs a
+ * prompt from a connected MCP server when an MCP hub is given.
  */
 export async function parseSlashCommands(
 	text: string,
@@ -18,6 +22,7 @@ export async function parseSlashCommands(
 	globalWorkflowToggles: ClineRulesToggles,
 	_ulid: string,
 	focusChainSettings?: { enabled: boolean },
+	mcpHub?: McpPromptSource,
 ): Promise<{ processedText: string; needsClinerulesFileCheck: boolean }> {
 	const SUPPORTED_DEFAULT_COMMANDS = ["newtask", "smol", "compact", "newrule", "reportbug", "deep-planning"]
 
@@ -32,10 +37,10 @@ export async function parseSlashCommands(
 
 	// this currently allows matching prepended whitespace prior to /slash-command
 	const tagPatterns = [
-		{ tag: "task", regex: /<task>(\s*\/([a-zA-Z0-9_.-]+))(\s+.+?)?\s*<\/task>/is },
-		{ tag: "feedback", regex: /<feedback>(\s*\/([a-zA-Z0-9_.-]+))(\s+.+?)?\s*<\/feedback>/is },
-		{ tag: "answer", regex: /<answer>(\s*\/([a-zA-Z0-9_.-]+))(\s+.+?)?\s*<\/answer>/is },
-		{ tag: "user_message", regex: /<user_message>(\s*\/([a-zA-Z0-9_.-]+))(\s+.+?)?\s*<\/user_message>/is },
+		{ tag: "task", regex: /<task>(\s*\/(mcp:[^\s<]+|[a-zA-Z0-9_.-]+))(\s+.+?)?\s*<\/task>/is },
+		{ tag: "feedback", regex: /<feedback>(\s*\/(mcp:[^\s<]+|[a-zA-Z0-9_.-]+))(\s+.+?)?\s*<\/feedback>/is },
+		{ tag: "answer", regex: /<answer>(\s*\/(mcp:[^\s<]+|[a-zA-Z0-9_.-]+))(\s+.+?)?\s*<\/answer>/is },
+		{ tag: "user_message", regex: /<user_message>(\s*\/(mcp:[^\s<]+|[a-zA-Z0-9_.-]+))(\s+.+?)?\s*<\/user_message>/is },
 	]
 
 	// if we find a valid match, we will return inside that block
@@ -70,6 +75,39 @@ export async function parseSlashCommands(
 				return { processedText: processedText, needsClinerulesFileCheck: commandName === "newrule" }
 			}
 
+			const mcpPromptCommand = mcpHub ? parseMcpPromptCommand(commandName) : undefined
+			if (mcpHub && mcpPromptCommand) {
+				// match[3] holds the prompt arguments followed by the user's message
+				const { promptArguments, remainingText } = parseMcpPromptArguments(match[3] ?? "")
+
+				let promptContent: string
+				try {
+					promptContent = await resolveMcpPrompt(
+						mcpHub,
+						mcpPromptCommand.serverName,
+						mcpPromptCommand.promptName,
+						promptArguments,
+					)
+				} catch (error) {
+					const errorMessage = error instanceof Error ? error.message : String(error)
+					promptContent = `The user ran the MCP prompt /${commandName}, but it could not be loaded: ${errorMessage}\nLet the user know so they can fix the command.`
+				}
+
+				const slashCommandStartIndex = match.index + match[0].indexOf(match[1])
+				const slashCommandEndIndex = slashCommandStartIndex + match[1].length + (match[3]?.length ?? 0)
+
+				// replace the command and its arguments with the prompt, keeping the rest of the message
+				const textWithoutSlashCommand =
+					text.substring(0, slashCommandStartIndex) +
+					(remainingText ? ` ${remainingText}` : "") +
+					text.substring(slashCommandEndIndex)
+				const processedText =
+					`<explicit_instructions type="${commandName}">\n${promptContent}\n</explicit_instructions>\n` +
+					textWithoutSlashCommand
+
+				return { processedText, needsClinerulesFileCheck: false }
+			}
+
 			const globalWorkflows = Object.entries(globalWorkflowToggles)
 				.filter(([_, enabled]) => enabled)
 				.map(([filePath, _]) => {
@@ -0,0 +1,98 @@
+import type { McpHub } from "@services/mcp/McpHub"
+import type { McpPromptResponse } from "@shared/mcp"
+
+/** MCP prompts are run as `/mcp:<server>:<prompt> [name=value ...] [message]` */
+export const MCP_PROMPT_COMMAND_PREFIX = "mcp:"
+
+export type McpPromptSource = Pick<McpHub, "getPrompts" | "getPrompt">
+
+/**
+ * Split an `mcp:<server>:<prompt>` command into its server and prompt names. The prompt name is
+ * taken after the last colon so server names may contain colons.
+ */
+export function parseMcpPromptCommand(commandName: string): { serverName: string; promptName: string } | undefined {
+	if (!commandName.startsWith(MCP_PROMPT_COMMAND_PREFIX)) {
+		return undefined
+	}
+	const target = commandName.slice(MCP_PROMPT_COMMAND_PREFIX.length)
+	const separatorIndex = target.lastIndexOf(":")
+	if (separatorIndex <= 0 || separatorIndex === target.length - 1) {
+		return undefined
+	}
+	return { serverName: target.slice(0, separatorIndex), promptName: target.slice(separatorIndex + 1) }
+}
+
+/**
+ * Take the leading `name=value` pairs off the text after the command. Values with spaces can be
+ * quoted with single or double quotes; whatever follows the last pair is the user's message.
+ */
+export function parseMcpPromptArguments(text: string): { promptArguments: Record<string, string>; remainingText: string } {
+	const promptArguments: Record<string, string> = {}
+	const argumentPattern = /^\s*([A-Za-z_][\w.-]*)=(?:"((?:[^"\\]|\\.)*)"|'([^']*)'|(\S*))/
+	let remainingText = text
+
+	let match = argumentPattern.exec(remainingText)
+	while (match) {
+		const [fullMatch, name, doubleQuoted, singleQuoted, bare] = match
+		promptArguments[name] = doubleQuoted !== undefined ? doubleQuoted.replace(/\\(.)/g, "$1") : (singleQuoted ?? bare)
+		remainingText = remainingText.slice(fullMatch.length)
+		match = argumentPattern.exec(remainingText)
+	}
+
+	return { promptArguments, remainingText: remainingText.trim() }
+}
+
+/**
+ * Get a prompt from an MCP server and render its messages as instructions for the model
+ *
+ * @throws Error if the server has no such prompt, a required argument is missing or the server fails
+ */
+export async function resolveMcpPrompt(
+	mcpHub: McpPromptSource,
+	serverName: string,
+	promptName: string,
+	promptArguments: Record<string, string>,
+): Promise<string> {
+	const prompt = mcpHub.getPrompts(serverName).find((candidate) => candidate.name === promptName)
+	if (!prompt) {
+		throw new Error(`MCP server "${serverName}" has no prompt named "${promptName}"`)
+	}
+
+	const missing = (prompt.arguments ?? [])
+		.filter((argument) => argument.required && promptArguments[argument.name] === undefined)
+		.map((argument) => argument.name)
+	if (missing.length > 0) {
+		throw new Error(`Missing required arguments: ${missing.join(", ")} (pass them as name=value)`)
+	}
+
+	return formatMcpPromptMessages(await mcpHub.getPrompt(serverName, promptName, promptArguments))
+}
+
+/**
+ * Render a prompt's messages as text. A single user message is used as-is; conversations are
+ * wrapped per message so the model can tell the roles apart.
+ */
+export function formatMcpPromptMessages(response: McpPromptResponse): string {
+	const messages = response.messages.map((message) => {
+		const content = message.content
+		switch (content.type) {
+			case "text":
+				return { role: message.role, text: content.text }
+			case "resource":
+				return {
+					role: message.role,
+					text:
+						content.resource.text !== undefined
+							? `<resource uri="${content.resource.uri}">\n${content.resource.text}\n</resource>`
+							: `[Binary resource: ${content.resource.uri}]`,
+				}
+			default:
+				return { role: message.role, text: `[${content.type} content omitted: ${content.mimeType}]` }
+		}
+	})
+
+	if (messages.length === 1 && messages[0].role === "user") {
+		return messages[0].text.trim()
+	}
+	return messages.map((message) => `<message role="${message.role}">\n${message.text.trim()}\n</message>`).join("\n")
+}
@@ -54,6 +54,9 @@ export class StateManager {
 	private readonly taskHistoryWatcher: TaskHistoryWatcher
 	private readonly apiConfigService: ApiConfigurationService
 
+	// Settings overridden for this process only, e.g. by CLI flags; never persisted
+	private runtimeSettingsOverrides: Partial<Settings> = {}
+
 	private constructor(context: ExtensionContext) {
 		this.context = context
 
@@ -162,10 +165,14 @@ export class StateManager {
 	}
 
 	/**
-	 * Get a global settings key (may be overridden by task settings)
+	 * Get a global settings key (may be overridden for this process or by task settings)
 	 */
 	getGlobalSettingsKey<K extends keyof Settings>(key: K): Settings[K] {
 		this.ensureInitialized()
+		const runtimeValue = this.runtimeSettingsOverrides[key]
+		if (runtimeValue !== undefined) {
+			return runtimeValue as Settings[K]
+		}
 		const taskValue = this.taskStateManager.get(key)
 		if (taskValue !== undefined) {
 			return taskValue
@@ -173,6 +180,14 @@ export class StateManager {
 		return this.globalStateManager.getSettingsKey(key)
 	}
 
+	/**
+	 * Override settings for the rest of this process without persisting them
+	 * Takes precedence over task and global settings, which stay as they are on disk
+	 */
+	setRuntimeSettingsOverrides(overrides: Partial<Settings>): void {
+		this.runtimeSettingsOverrides = { ...this.runtimeSettingsOverrides, ...overrides }
+	}
+
 	// ==================== Task Settings Methods ====================
 
 	/**
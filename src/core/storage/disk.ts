@@ -25,7 +25,11 @@ export const GlobalFileNames = {
 	cursorRulesDir: ".cursor/rules",
 	cursorRulesFile: ".cursorrules",
 	windsurfRules: ".windsurfrules",
+	agentsRules: "AGENTS.md",
+	claudeRules: "CLAUDE.md",
+	copilotInstructions: ".github/copilot-instructions.md",
 	taskMetadata: "task_metadata.json",
+	taskSearchIndex: "task_search_index.json",
 }
 
 export async function getDocumentsPath(): Promise<string> {
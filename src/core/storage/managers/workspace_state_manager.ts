@@ -37,9 +37,7 @@ export class WorkspaceStateManager {
 	 */
 	setBatch(updates: Partial<LocalState>): void {
 		this.ensureInitialized()
-		Object.entries(updates).forEach(([key, value]) => {
-			this.cache[key as keyof LocalState] = value
-		})
+		Object.assign(this.cache, updates)
 	}
 
 	/**
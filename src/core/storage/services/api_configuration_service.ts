@@ -23,6 +23,8 @@ export class ApiConfigurationService {
 			// Secrets
 			apiKey: this.secretsManager.get("apiKey"),
 			openRouterApiKey: this.secretsManager.get("openRouterApiKey"),
+			openAiApiKey: this.secretsManager.get("openAiApiKey"),
+			ollamaApiKey: this.secretsManager.get("ollamaApiKey"),
 
 			// Global state with task overrides
 			anthropicBaseUrl:
@@ -30,6 +32,12 @@ export class ApiConfigurationService {
 			openRouterProviderSorting:
 				this.taskStateManager.get("openRouterProviderSorting") ||
 				this.globalStateManager.getSettingsKey("openRouterProviderSorting"),
+			openAiBaseUrl: this.taskStateManager.get("openAiBaseUrl") || this.globalStateManager.getSettingsKey("openAiBaseUrl"),
+			openAiHeaders: this.taskStateManager.get("openAiHeaders") || this.globalStateManager.getSettingsKey("openAiHeaders"),
+			ollamaBaseUrl: this.taskStateManager.get("ollamaBaseUrl") || this.globalStateManager.getSettingsKey("ollamaBaseUrl"),
+			ollamaApiOptionsCtxNum:
+				this.taskStateManager.get("ollamaApiOptionsCtxNum") ||
+				this.globalStateManager.getSettingsKey("ollamaApiOptionsCtxNum"),
 			requestTimeoutMs:
 				this.taskStateManager.get("requestTimeoutMs") || this.globalStateManager.getSettingsKey("requestTimeoutMs"),
 
@@ -50,6 +58,15 @@ export class ApiConfigurationService {
 			planModeOpenRouterModelInfo:
 				this.taskStateManager.get("planModeOpenRouterModelInfo") ||
 				this.globalStateManager.getSettingsKey("planModeOpenRouterModelInfo"),
+			planModeOpenAiModelId:
+				this.taskStateManager.get("planModeOpenAiModelId") ||
+				this.globalStateManager.getSettingsKey("planModeOpenAiModelId"),
+			planModeOpenAiModelInfo:
+				this.taskStateManager.get("planModeOpenAiModelInfo") ||
+				this.globalStateManager.getSettingsKey("planModeOpenAiModelInfo"),
+			planModeOllamaModelId:
+				this.taskStateManager.get("planModeOllamaModelId") ||
+				this.globalStateManager.getSettingsKey("planModeOllamaModelId"),
 
 			// Act mode configurations
 			actModeApiProvider:
@@ -68,6 +85,15 @@ export class ApiConfigurationService {
 			actModeOpenRouterModelInfo:
 				this.taskStateManager.get("actModeOpenRouterModelInfo") ||
 				this.globalStateManager.getSettingsKey("actModeOpenRouterModelInfo"),
+			actModeOpenAiModelId:
+				this.taskStateManager.get("actModeOpenAiModelId") ||
+				this.globalStateManager.getSettingsKey("actModeOpenAiModelId"),
+			actModeOpenAiModelInfo:
+				this.taskStateManager.get("actModeOpenAiModelInfo") ||
+				this.globalStateManager.getSettingsKey("actModeOpenAiModelInfo"),
+			actModeOllamaModelId:
+				this.taskStateManager.get("actModeOllamaModelId") ||
+				this.globalStateManager.getSettingsKey("actModeOllamaModelId"),
 		}
 	}
 
@@ -83,8 +109,14 @@ export class ApiConfigurationService {
 		const {
 			apiKey,
 			openRouterApiKey,
+			openAiApiKey,
+			ollamaApiKey,
 			anthropicBaseUrl,
 			openRouterProviderSorting,
+			openAiBaseUrl,
+			openAiHeaders,
+			ollamaBaseUrl,
+			ollamaApiOptionsCtxNum,
 			requestTimeoutMs,
 			// Plan mode configurations
 			planModeApiProvider,
@@ -93,6 +125,9 @@ export class ApiConfigurationService {
 			planModeReasoningEffort,
 			planModeOpenRouterModelId,
 			planModeOpenRouterModelInfo,
+			planModeOpenAiModelId,
+			planModeOpenAiModelInfo,
+			planModeOllamaModelId,
 			// Act mode configurations
 			actModeApiProvider,
 			actModeApiModelId,
@@ -100,6 +135,9 @@ export class ApiConfigurationService {
 			actModeReasoningEffort,
 			actModeOpenRouterModelId,
 			actModeOpenRouterModelInfo,
+			actModeOpenAiModelId,
+			actModeOpenAiModelInfo,
+			actModeOllamaModelId,
 		} = config
 
 		// Update global state batch
@@ -111,6 +149,9 @@ export class ApiConfigurationService {
 			planModeReasoningEffort,
 			planModeOpenRouterModelId,
 			planModeOpenRouterModelInfo,
+			planModeOpenAiModelId,
+			planModeOpenAiModelInfo,
+			planModeOllamaModelId,
 
 			// Act mode configuration updates
 			actModeApiProvider,
@@ -119,10 +160,17 @@ export class ApiConfigurationService {
 			actModeReasoningEffort,
 			actModeOpenRouterModelId,
 			actModeOpenRouterModelInfo,
+			actModeOpenAiModelId,
+			actModeOpenAiModelInfo,
+			actModeOllamaModelId,
 
 			// Global state updates
 			anthropicBaseUrl,
 			openRouterProviderSorting,
+			openAiBaseUrl,
+			openAiHeaders,
+			ollamaBaseUrl,
+			ollamaApiOptionsCtxNum,
 			requestTimeoutMs,
 		})
 
@@ -130,6 +178,8 @@ export class ApiConfigurationService {
 		this.secretsManager.setBatch({
 			apiKey,
 			openRouterApiKey,
+			openAiApiKey,
+			ollamaApiKey,
 		})
 
 		return {
@@ -140,17 +190,27 @@ export class ApiConfigurationService {
 				"planModeReasoningEffort",
 				"planModeOpenRouterModelId",
 				"planModeOpenRouterModelInfo",
+				"planModeOpenAiModelId",
+				"planModeOpenAiModelInfo",
+				"planModeOllamaModelId",
 				"actModeApiProvider",
 				"actModeApiModelId",
 				"actModeThinkingBudgetTokens",
 				"actModeReasoningEffort",
 				"actModeOpenRouterModelId",
 				"actModeOpenRouterModelInfo",
+				"actModeOpenAiModelId",
+				"actModeOpenAiModelInfo",
+				"actModeOllamaModelId",
 				"anthropicBaseUrl",
 				"openRouterProviderSorting",
+				"openAiBaseUrl",
+				"openAiHeaders",
+				"ollamaBaseUrl",
+				"ollamaApiOptionsCtxNum",
 				"requestTimeoutMs",
 			],
-			secretKeys: ["apiKey", "openRouterApiKey"],
+			secretKeys: ["apiKey", "openRouterApiKey", "openAiApiKey", "ollamaApiKey"],
 		}
 	}
 }
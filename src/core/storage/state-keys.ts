@@ -1,7 +1,7 @@
-import { ApiProvider, ModelInfo } from "@shared/api"
+import { ApiProvider, ModelInfo, OpenAiCompatibleModelInfo } from "@shared/api"
 import { FocusChainSettings } from "@shared/FocusChainSettings"
 import { WorkspaceRoot } from "@/core/workspace/WorkspaceRoot"
-import { AutoApprovalSettings } from "@/shared/AutoApprovalSettings"
+import { AutoApprovalSettings, CommandPolicy } from "@/shared/AutoApprovalSettings"
 import { BrowserSettings } from "@/shared/BrowserSettings"
 import { ClineRulesToggles } from "@/shared/cline-rules"
 import { DictationSettings } from "@/shared/DictationSettings"
@@ -9,6 +9,7 @@ import { HistoryItem } from "@/shared/HistoryItem"
 import { McpDisplayMode } from "@/shared/McpDisplayMode"
 import { McpMarketplaceCatalog } from "@/shared/mcp"
 import { Mode, OpenaiReasoningEffort } from "@/shared/storage/types"
+import { TaskBudgetSettings } from "@/shared/TaskBudgetSettings"
 import { UserInfo } from "@/shared/UserInfo"
 export type SecretKey = keyof Secrets
 
@@ -44,6 +45,10 @@ export interface GlobalState {
 export interface Settings {
 	anthropicBaseUrl: string | undefined
 	openRouterProviderSorting: string | undefined
+	openAiBaseUrl: string | undefined
+	openAiHeaders: Record<string, string> | undefined
+	ollamaBaseUrl: string | undefined
+	ollamaApiOptionsCtxNum: string | undefined
 	autoApprovalSettings: AutoApprovalSettings
 	globalClineRulesToggles: ClineRulesToggles
 	globalWorkflowToggles: ClineRulesToggles
@@ -62,6 +67,7 @@ export interface Settings {
 	mode: Mode
 	dictationSettings: DictationSettings
 	focusChainSettings: FocusChainSettings
+	taskBudgetSettings: TaskBudgetSettings
 	customPrompt: "compact" | undefined
 	autoCondenseThreshold: number | undefined // number from 0 to 1
 
@@ -72,6 +78,9 @@ export interface Settings {
 	planModeReasoningEffort: string | undefined
 	planModeOpenRouterModelId: string | undefined
 	planModeOpenRouterModelInfo: ModelInfo | undefined
+	planModeOpenAiModelId: string | undefined
+	planModeOpenAiModelInfo: OpenAiCompatibleModelInfo | undefined
+	planModeOllamaModelId: string | undefined
 
 	// Act mode configurations
 	actModeApiProvider: ApiProvider
@@ -80,16 +89,24 @@ export interface Settings {
 	actModeReasoningEffort: string | undefined
 	actModeOpenRouterModelId: string | undefined
 	actModeOpenRouterModelInfo: ModelInfo | undefined
+	actModeOpenAiModelId: string | undefined
+	actModeOpenAiModelInfo: OpenAiCompatibleModelInfo | undefined
+	actModeOllamaModelId: string | undefined
 }
 
 export interface Secrets {
 	apiKey: string | undefined // Anthropic API key
 	openRouterApiKey: string | undefined
+	openAiApiKey: string | undefined
+	ollamaApiKey: string | undefined
+	mcpOAuthSessions: string | undefined // JSON of each remote MCP server's OAuth client and tokens
 }
 
 export interface LocalState {
 	localClineRulesToggles: ClineRulesToggles
 	localCursorRulesToggles: ClineRulesToggles
 	localWindsurfRulesToggles: ClineRulesToggles
+	localAgentsRulesToggles: ClineRulesToggles
 	workflowToggles: ClineRulesToggles
+	workspaceCommandPolicy: CommandPolicy | undefined
 }
@@ -1,13 +1,14 @@
 import { ANTHROPIC_MIN_THINKING_BUDGET, ApiProvider } from "@shared/api"
 import { ExtensionContext } from "vscode"
 import { Controller } from "@/core/controller"
-import { DEFAULT_AUTO_APPROVAL_SETTINGS } from "@/shared/AutoApprovalSettings"
+import { CommandPolicy, DEFAULT_AUTO_APPROVAL_SETTINGS } from "@/shared/AutoApprovalSettings"
 import { DEFAULT_BROWSER_SETTINGS } from "@/shared/BrowserSettings"
 import { ClineRulesToggles } from "@/shared/cline-rules"
 import { DEFAULT_DICTATION_SETTINGS, DictationSettings } from "@/shared/DictationSettings"
 import { DEFAULT_FOCUS_CHAIN_SETTINGS } from "@/shared/FocusChainSettings"
 import { DEFAULT_MCP_DISPLAY_MODE } from "@/shared/McpDisplayMode"
 import { OpenaiReasoningEffort } from "@/shared/storage/types"
+import { DEFAULT_TASK_BUDGET_SETTINGS } from "@/shared/TaskBudgetSettings"
 import { readTaskHistoryFromState } from "../disk"
 import { GlobalStateAndSettings, LocalState, SecretKey, Secrets } from "../state-keys"
 /**
@@ -21,14 +22,20 @@ import { GlobalStateAndSettings, LocalState, SecretKey, Secrets } from "../state
  * @returns Object containing all decrypted secrets
  */
 export async function readSecretsFromDisk(context: ExtensionContext): Promise<Secrets> {
-	const [apiKey, openRouterApiKey] = await Promise.all([
+	const [apiKey, openRouterApiKey, openAiApiKey, ollamaApiKey, mcpOAuthSessions] = await Promise.all([
 		context.secrets.get("apiKey") as Promise<Secrets["apiKey"]>,
 		context.secrets.get("openRouterApiKey") as Promise<Secrets["openRouterApiKey"]>,
+		context.secrets.get("openAiApiKey") as Promise<Secrets["openAiApiKey"]>,
+		context.secrets.get("ollamaApiKey") as Promise<Secrets["ollamaApiKey"]>,
+		context.secrets.get("mcpOAuthSessions") as Promise<Secrets["mcpOAuthSessions"]>,
 	])
 
 	return {
 		apiKey,
 		openRouterApiKey,
+		openAiApiKey,
+		ollamaApiKey,
+		mcpOAuthSessions,
 	}
 }
 
@@ -46,13 +53,17 @@ export async function readWorkspaceStateFromDisk(context: ExtensionContext): Pro
 	const localClineRulesToggles = context.workspaceState.get("localClineRulesToggles") as ClineRulesToggles | undefined
 	const localWindsurfRulesToggles = context.workspaceState.get("localWindsurfRulesToggles") as ClineRulesToggles | undefined
 	const localCursorRulesToggles = context.workspaceState.get("localCursorRulesToggles") as ClineRulesToggles | undefined
+	const localAgentsRulesToggles = context.workspaceState.get("localAgentsRulesToggles") as ClineRulesToggles | undefined
 	const localWorkflowToggles = context.workspaceState.get("workflowToggles") as ClineRulesToggles | undefined
+	const workspaceCommandPolicy = context.workspaceState.get("workspaceCommandPolicy") as CommandPolicy | undefined
 
 	return {
 		localClineRulesToggles: localClineRulesToggles || {},
 		localWindsurfRulesToggles: localWindsurfRulesToggles || {},
 		localCursorRulesToggles: localCursorRulesToggles || {},
+		localAgentsRulesToggles: localAgentsRulesToggles || {},
 		workflowToggles: localWorkflowToggles || {},
+		workspaceCommandPolicy,
 	}
 }
 
@@ -91,6 +102,7 @@ export async function readGlobalStateFromDisk(context: ExtensionContext): Promis
 		const browserSettings = context.globalState.get<GlobalStateAndSettings["browserSettings"]>("browserSettings")
 		const preferredLanguage = context.globalState.get<GlobalStateAndSettings["preferredLanguage"]>("preferredLanguage")
 		const focusChainSettings = context.globalState.get<GlobalStateAndSettings["focusChainSettings"]>("focusChainSettings")
+		const taskBudgetSettings = context.globalState.get<GlobalStateAndSettings["taskBudgetSettings"]>("taskBudgetSettings")
 		const dictationSettings = context.globalState.get<GlobalStateAndSettings["dictationSettings"]>("dictationSettings") as
 			| DictationSettings
 			| undefined
@@ -130,7 +142,24 @@ export async function readGlobalStateFromDisk(context: ExtensionContext): Promis
 			context.globalState.get<GlobalStateAndSettings["actModeOpenRouterModelId"]>("actModeOpenRouterModelId")
 		const actModeOpenRouterModelInfo =
 			context.globalState.get<GlobalStateAndSettings["actModeOpenRouterModelInfo"]>("actModeOpenRouterModelInfo")
+		const planModeOpenAiModelId =
+			context.globalState.get<GlobalStateAndSettings["planModeOpenAiModelId"]>("planModeOpenAiModelId")
+		const planModeOpenAiModelInfo =
+			context.globalState.get<GlobalStateAndSettings["planModeOpenAiModelInfo"]>("planModeOpenAiModelInfo")
+		const actModeOpenAiModelId =
+			context.globalState.get<GlobalStateAndSettings["actModeOpenAiModelId"]>("actModeOpenAiModelId")
+		const actModeOpenAiModelInfo =
+			context.globalState.get<GlobalStateAndSettings["actModeOpenAiModelInfo"]>("actModeOpenAiModelInfo")
+		const planModeOllamaModelId =
+			context.globalState.get<GlobalStateAndSettings["planModeOllamaModelId"]>("planModeOllamaModelId")
+		const actModeOllamaModelId =
+			context.globalState.get<GlobalStateAndSettings["actModeOllamaModelId"]>("actModeOllamaModelId")
 		const anthropicBaseUrl = context.globalState.get<GlobalStateAndSettings["anthropicBaseUrl"]>("anthropicBaseUrl")
+		const openAiBaseUrl = context.globalState.get<GlobalStateAndSettings["openAiBaseUrl"]>("openAiBaseUrl")
+		const openAiHeaders = context.globalState.get<GlobalStateAndSettings["openAiHeaders"]>("openAiHeaders")
+		const ollamaBaseUrl = context.globalState.get<GlobalStateAndSettings["ollamaBaseUrl"]>("ollamaBaseUrl")
+		const ollamaApiOptionsCtxNum =
+			context.globalState.get<GlobalStateAndSettings["ollamaApiOptionsCtxNum"]>("ollamaApiOptionsCtxNum")
 		const requestTimeoutMs = context.globalState.get<GlobalStateAndSettings["requestTimeoutMs"]>("requestTimeoutMs")
 		const favoritedModelIds = context.globalState.get<GlobalStateAndSettings["favoritedModelIds"]>("favoritedModelIds")
 		const globalClineRulesToggles =
@@ -196,6 +225,10 @@ export async function readGlobalStateFromDisk(context: ExtensionContext): Promis
 			// api configuration fields
 			anthropicBaseUrl,
 			openRouterProviderSorting,
+			openAiBaseUrl,
+			openAiHeaders,
+			ollamaBaseUrl,
+			ollamaApiOptionsCtxNum,
 			favoritedModelIds: favoritedModelIds || [],
 			requestTimeoutMs,
 			// Plan mode configurations
@@ -207,6 +240,9 @@ export async function readGlobalStateFromDisk(context: ExtensionContext): Promis
 			planModeReasoningEffort,
 			planModeOpenRouterModelId,
 			planModeOpenRouterModelInfo,
+			planModeOpenAiModelId,
+			planModeOpenAiModelInfo,
+			planModeOllamaModelId,
 			// Act mode configurations
 			actModeApiProvider: actModeApiProvider || apiProvider,
 			actModeApiModelId,
@@ -214,9 +250,13 @@ export async function readGlobalStateFromDisk(context: ExtensionContext): Promis
 			actModeReasoningEffort,
 			actModeOpenRouterModelId,
 			actModeOpenRouterModelInfo,
+			actModeOpenAiModelId,
+			actModeOpenAiModelInfo,
+			actModeOllamaModelId,
 
 			// Other global fields
 			focusChainSettings: focusChainSettings || DEFAULT_FOCUS_CHAIN_SETTINGS,
+			taskBudgetSettings: taskBudgetSettings || DEFAULT_TASK_BUDGET_SETTINGS,
 			dictationSettings: { ...DEFAULT_DICTATION_SETTINGS, ...dictationSettings },
 			strictPlanModeEnabled: strictPlanModeEnabled ?? true,
 			yoloModeToggled: yoloModeToggled ?? false,
@@ -298,7 +338,7 @@ export async function resetGlobalState(controller: Controller) {
 	await Promise.all(context.globalState.keys().map((key) => context.globalState.update(key, undefined)))
 
 	// Clear all secrets (API keys, tokens)
-	const secretKeys: SecretKey[] = ["apiKey", "openRouterApiKey"]
+	const secretKeys: SecretKey[] = ["apiKey", "openRouterApiKey", "openAiApiKey", "ollamaApiKey", "mcpOAuthSessions"]
 	await Promise.all(secretKeys.map((key) => context.secrets.delete(key)))
 
 	// Re-initialize state manager to load defaults
@@ -1,5 +1,7 @@
 import { Anthropic } from "@anthropic-ai/sdk"
 import { AssistantMessageContent } from "@core/assistant-message"
+import type { ToolCallFormat } from "@core/prompts/system-prompt/types"
+import type { TaskBudgetMetric } from "@shared/TaskBudgetSettings"
 import { ClineAskResponse } from "@shared/WebviewMessage"
 
 export class TaskState {
@@ -11,7 +13,7 @@ export class TaskState {
 	// Content processing
 	currentStreamingContentIndex = 0
 	assistantMessageContent: AssistantMessageContent[] = []
-	userMessageContent: (Anthropic.TextBlockParam | Anthropic.ImageBlockParam)[] = []
+	userMessageContent: (Anthropic.TextBlockParam | Anthropic.ImageBlockParam | Anthropic.ToolResultBlockParam)[] = []
 	userMessageContentReady = false
 
 	// Presentation locks
@@ -31,6 +33,8 @@ export class TaskState {
 
 	// Context and history
 	conversationHistoryDeletedRange?: [number, number]
+	// How the task calls tools, fixed once the first request picked it
+	toolCallFormat?: ToolCallFormat
 
 	// Tool execution flags
 	didRejectTool = false
@@ -45,6 +49,10 @@ export class TaskState {
 	didAutomaticallyRetryFailedApiRequest = false
 	checkpointManagerErrorMessage?: string
 
+	// Budget tracking
+	acknowledgedSoftBudgetLimits: TaskBudgetMetric[] = []
+	budgetExceeded = false
+
 	// Task Initialization
 	isInitialized = false
 
@@ -17,9 +17,11 @@ import { StateManager } from "../storage/StateManager"
 import { WorkspaceRootManager } from "../workspace"
 import { ToolResponse } from "."
 import { MessageStateHandler } from "./message-state"
+import type { SubagentTaskFactory } from "./subagents/types"
 import { TaskState } from "./TaskState"
 import { AutoApprove } from "./tools/autoApprove"
 import { AccessMcpResourceHandler } from "./tools/handlers/AccessMcpResourceHandler"
+import { ApplyPatchToolHandler } from "./tools/handlers/ApplyPatchToolHandler"
 import { AskFollowupQuestionToolHandler } from "./tools/handlers/AskFollowupQuestionToolHandler"
 import { AttemptCompletionHandler } from "./tools/handlers/AttemptCompletionHandler"
 import { BrowserToolHandler } from "./tools/handlers/BrowserToolHandler"
@@ -110,6 +112,7 @@ export class ToolExecutor {
 		private doesLatestTaskCompletionHaveNewChanges: () => Promise<boolean>,
 		private updateFCListFromToolResponse: (taskProgress: string | undefined) => Promise<void>,
 		private switchToActMode: () => Promise<boolean>,
+		private startSubagentTask?: SubagentTaskFactory,
 	) {
 		this.autoApprover = new AutoApprove(this.stateManager)
 
@@ -165,6 +168,7 @@ export class ToolExecutor {
 				shouldAutoApproveToolWithPath: this.shouldAutoApproveToolWithPath.bind(this),
 				applyLatestBrowserSettings: this.applyLatestBrowserSettings.bind(this),
 				switchToActMode: this.switchToActMode,
+				startSubagentTask: this.startSubagentTask,
 			},
 			coordinator: this.coordinator,
 		}
@@ -192,6 +196,7 @@ export class ToolExecutor {
 		this.coordinator.register(writeHandler) // registers as "write_to_file" (ClineDefaultTool.FILE_NEW)
 		this.coordinator.register(new SharedToolHandler(ClineDefaultTool.FILE_EDIT, writeHandler))
 		this.coordinator.register(new SharedToolHandler(ClineDefaultTool.NEW_RULE, writeHandler))
+		this.coordinator.register(new ApplyPatchToolHandler(validator))
 
 		this.coordinator.register(new ListCodeDefinitionNamesToolHandler(validator))
 		this.coordinator.register(new SearchFilesToolHandler(validator))
@@ -259,6 +264,7 @@ export class ToolExecutor {
 	private static readonly PLAN_MODE_RESTRICTED_TOOLS: ClineDefaultTool[] = [
 		ClineDefaultTool.FILE_NEW,
 		ClineDefaultTool.FILE_EDIT,
+		ClineDefaultTool.APPLY_PATCH,
 		ClineDefaultTool.NEW_RULE,
 	]
 
@@ -0,0 +1,140 @@
+import { expect } from "chai"
+import { describe, it } from "mocha"
+import {
+	flattenFocusChainItems,
+	formatFocusChainMarkdown,
+	getFocusChainResumePoint,
+	getUnmetDependencies,
+	parseFocusChainMarkdown,
+	reconcileFocusChainState,
+} from "../structured"
+import { parseFocusChainListCounts } from "../utils"
+
+const LIST = `- [x] Design schema [id: schema]
+- [-] Build API [id: api]
+  - [x] Routes
+  - [-] Validation
+  - [ ] Error handling
+- [ ] Write docs [after: api]
+- [!] Deploy [after: api, infra]`
+
+describe("Structured focus chain", () => {
+	describe("parseFocusChainMarkdown", () => {
+		it("should nest indented items and read statuses, IDs and dependencies", () => {
+			const items = parseFocusChainMarkdown(LIST)
+
+			expect(items.map((item) => [item.id, item.text, item.status])).to.deep.equal([
+				["schema", "Design schema", "done"],
+				["api", "Build API", "in_progress"],
+				[undefined, "Write docs", "pending"],
+				[undefined, "Deploy", "blocked"],
+			])
+			expect(items[1].children.map((child) => child.text)).to.deep.equal(["Routes", "Validation", "Error handling"])
+			expect(items[3].dependsOn).to.deep.equal(["api", "infra"])
+		})
+
+		it("should treat tab indentation as nesting", () => {
+			const [parent] = parseFocusChainMarkdown("- [ ] Parent\n\t- [ ] Child\n\t\t- [ ] Grandchild")
+
+			expect(parent.children[0].children[0].text).to.equal("Grandchild")
+		})
+	})
+
+	describe("parseFocusChainListCounts", () => {
+		it("should count nested items by status", () => {
+			expect(parseFocusChainListCounts(LIST)).to.deep.equal({
+				totalItems: 7,
+				completedItems: 2,
+				inProgressItems: 2,
+				blockedItems: 1,
+			})
+		})
+	})
+
+	describe("reconcileFocusChainState", () => {
+		it("should generate unique IDs that don't collide with explicit ones", () => {
+			const state = reconcileFocusChainState(
+				undefined,
+				parseFocusChainMarkdown("- [ ] Run tests\n- [ ] Run tests\n- [ ] Other [id: run-tests-2]"),
+				1,
+			)
+
+			expect(state.items.map((item) => item.id)).to.deep.equal(["run-tests", "run-tests-3", "run-tests-2"])
+		})
+
+		it("should stamp status changes with time and checkpoint and keep history across rewrites", () => {
+			const first = reconcileFocusChainState(undefined, parseFocusChainMarkdown("- [ ] Build API\n- [ ] Docs"), 100, {
+				messageTs: 10,
+			})
+			const second = reconcileFocusChainState(
+				first,
+				parseFocusChainMarkdown("- [-] Build API\n- [ ] Docs [after: build-api]"),
+				200,
+				{ messageTs: 20, hash: "aaa" },
+			)
+			// Reordered and reworded around the item; it is still matched by its text
+			const third = reconcileFocusChainState(
+				second,
+				parseFocusChainMarkdown("- [ ] Docs [after: build-api]\n- [x] Build API"),
+				300,
+				{ messageTs: 30, hash: "bbb" },
+			)
+
+			const api = third.items[1]
+			expect(api).to.include({ id: "build-api", status: "done", createdAt: 100, startedAt: 200, completedAt: 300 })
+			expect(api.startedAtCheckpoint).to.deep.equal({ messageTs: 20, hash: "aaa" })
+			expect(api.completedAtCheckpoint).to.deep.equal({ messageTs: 30, hash: "bbb" })
+			expect(third.items[0]).to.include({ id: "docs", updatedAt: 100 })
+		})
+
+		it("should clear completion when an item is reopened", () => {
+			const done = reconcileFocusChainState(undefined, parseFocusChainMarkdown("- [x] Ship"), 100, { messageTs: 1 })
+			const reopened = reconcileFocusChainState(done, parseFocusChainMarkdown("- [-] Ship"), 200)
+
+			expect(reopened.items[0]).to.include({ status: "in_progress", startedAt: 100, updatedAt: 200 })
+			expect(reopened.items[0].completedAt).to.equal(undefined)
+			expect(reopened.items[0].completedAtCheckpoint).to.equal(undefined)
+		})
+	})
+
+	describe("getFocusChainResumePoint", () => {
+		it("should resume from the deepest in-progress item at the checkpoint it started from", () => {
+			const state = reconcileFocusChainState(undefined, parseFocusChainMarkdown(LIST), 100, { messageTs: 5, hash: "abc" })
+
+			const resumePoint = getFocusChainResumePoint(state)
+
+			expect(resumePoint?.item.text).to.equal("Validation")
+			expect(resumePoint?.checkpoint).to.deep.equal({ messageTs: 5, hash: "abc" })
+		})
+
+		it("should otherwise pick the first pending leaf whose dependencies are done", () => {
+			const pending = reconcileFocusChainState(
+				undefined,
+				parseFocusChainMarkdown("- [ ] Docs [after: api]\n- [x] Schema\n- [ ] API [id: api]"),
+				100,
+			)
+			const done = reconcileFocusChainState(
+				pending,
+				parseFocusChainMarkdown("- [ ] Docs [after: api]\n- [x] Schema\n- [x] API [id: api]"),
+				200,
+				{ messageTs: 7 },
+			)
+
+			expect(getFocusChainResumePoint(pending)?.item.id).to.equal("api")
+			expect(getUnmetDependencies(pending, pending.items[0])).to.deep.equal(["api"])
+			expect(getFocusChainResumePoint(done)).to.deep.include({ checkpoint: { messageTs: 7 } })
+			expect(getFocusChainResumePoint(done)?.item.id).to.equal("docs")
+		})
+	})
+
+	describe("formatFocusChainMarkdown", () => {
+		it("should round-trip through the parser with IDs written out", () => {
+			const state = reconcileFocusChainState(undefined, parseFocusChainMarkdown(LIST), 1)
+			const reparsed = reconcileFocusChainState(state, parseFocusChainMarkdown(formatFocusChainMarkdown(state.items)), 2)
+
+			expect(flattenFocusChainItems(reparsed.items).map((item) => [item.id, item.status, item.updatedAt])).to.deep.equal(
+				flattenFocusChainItems(state.items).map((item) => [item.id, item.status, 1]),
+			)
+		})
+	})
+})
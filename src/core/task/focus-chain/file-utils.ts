@@ -2,6 +2,7 @@ import { isFocusChainItem } from "@shared/focus-chain-utils"
 import * as fs from "fs/promises"
 import * as path from "path"
 import { ensureTaskDirectoryExists } from "../../storage/disk"
+import { FOCUS_CHAIN_STATE_VERSION, type FocusChainState } from "./structured"
 
 /**
  * Generate the standard file path for a task's focusChain markdown file
@@ -10,6 +11,32 @@ export function getFocusChainFilePath(taskDir: string, taskId: string): string {
 	return path.join(taskDir, `focus_chain_taskid_${taskId}.md`)
 }
 
+/**
+ * Generate the file path for a task's structured focusChain state (statuses, timestamps, checkpoint links)
+ */
+export function getFocusChainStateFilePath(taskDir: string, taskId: string): string {
+	return path.join(taskDir, `focus_chain_state_taskid_${taskId}.json`)
+}
+
+/**
+ * Read a task's structured focusChain state, or undefined if it is missing or from another version
+ */
+export async function readFocusChainState(taskDir: string, taskId: string): Promise<FocusChainState | undefined> {
+	try {
+		const state = JSON.parse(await fs.readFile(getFocusChainStateFilePath(taskDir, taskId), "utf8")) as FocusChainState
+		return state.version === FOCUS_CHAIN_STATE_VERSION && Array.isArray(state.items) ? state : undefined
+	} catch {
+		return undefined
+	}
+}
+
+/**
+ * Persist a task's structured focusChain state
+ */
+export async function writeFocusChainState(taskDir: string, taskId: string, state: FocusChainState): Promise<void> {
+	await fs.writeFile(getFocusChainStateFilePath(taskDir, taskId), JSON.stringify(state, null, 2), "utf8")
+}
+
 /**
  * Create the standard markdown content structure for a focusChain file
  */
@@ -18,6 +45,8 @@ export function createFocusChainMarkdownContent(taskId: string, focusChainList:
 
 <!-- Edit this markdown file to update your focus chain list -->
 <!-- Use the format: - [ ] for incomplete items and - [x] for completed items -->
+<!-- Mark items in progress with - [-] and blocked with - [!]; indent subtasks by two spaces -->
+<!-- Name an item with [id: name] and make it wait for others with [after: name, other] -->
 
 ${focusChainList}
 
@@ -13,7 +13,19 @@ import {
 	extractFocusChainItemsFromText,
 	extractFocusChainListFromText,
 	getFocusChainFilePath,
+	readFocusChainState,
+	writeFocusChainState,
 } from "./file-utils"
+import {
+	type FocusChainCheckpointLink,
+	type FocusChainResumePoint,
+	type FocusChainState,
+	flattenFocusChainItems,
+	getFocusChainResumePoint,
+	getUnmetDependencies,
+	parseFocusChainMarkdown,
+	reconcileFocusChainState,
+} from "./structured"
 import { parseFocusChainListCounts } from "./utils"
 
 export interface FocusChainDependencies {
@@ -24,6 +36,8 @@ export interface FocusChainDependencies {
 	postStateToWebview: () => Promise<void>
 	say: (type: ClineSay, text?: string, images?: string[], files?: string[], partial?: boolean) => Promise<number | undefined>
 	focusChainSettings: FocusChainSettings
+	/** Checkpoints created so far in the task, oldest first; used to link items to the checkpoint that completed them */
+	getCheckpoints?: () => FocusChainCheckpointLink[]
 }
 
 export class FocusChainManager {
@@ -42,6 +56,10 @@ export class FocusChainManager {
 	private hasTrackedFirstProgress = false
 	private focusChainSettings: FocusChainSettings
 	private fileUpdateDebounceTimer?: NodeJS.Timeout
+	private getCheckpoints: () => FocusChainCheckpointLink[]
+	private structuredState?: FocusChainState
+	private structuredStateLoaded = false
+	private resumedFromHistory = false
 
 	constructor(dependencies: FocusChainDependencies) {
 		this.taskId = dependencies.taskId
@@ -50,6 +68,7 @@ export class FocusChainManager {
 		this.postStateToWebview = dependencies.postStateToWebview
 		this.say = dependencies.say
 		this.focusChainSettings = dependencies.focusChainSettings
+		this.getCheckpoints = dependencies.getCheckpoints ?? (() => [])
 	}
 
 	/**
@@ -123,6 +142,7 @@ export class FocusChainManager {
 					if (previousList !== markdownTodoList) {
 						this.taskState.currentFocusChainChecklist = markdownTodoList
 						this.taskState.todoListWasUpdatedByUser = true
+						await this.syncStructuredState(markdownTodoList)
 
 						await this.postStateToWebview()
 					} else {
@@ -203,8 +223,12 @@ Keeping the todo list updated helps track progress and ensures nothing is missed
 1. To create or update a todo list, include the task_progress parameter in the next tool call\n
 2. Review each item and update its status:\n
    - Mark completed items with: - [x]\n
+   - Mark the item you are working on with: - [-]\n
+   - Mark items you cannot progress with: - [!]\n
    - Keep incomplete items as: - [ ]\n
    - Add new items if you discover additional steps\n
+   - Indent subtasks by two spaces under their parent item\n
+   - Keep any [id: ...] and [after: ...] annotations; [after: id] means the item waits for that item\n
 3. Modify the list as needed:\n
 		- Add any new steps you've discovered\n
 		- Reorder if the sequence has changed\n
@@ -220,7 +244,7 @@ Keeping the todo list updated helps track progress and ensures nothing is missed
 
 			const introUpdateRequired =
 				"# TODO LIST UPDATE REQUIRED - You MUST include the task_progress parameter in your NEXT tool call."
-			const listCurrentProgress = `**Current Progress: ${completedItems}/${totalItems} items completed (${percentComplete}%)**`
+			const listCurrentProgress = `**Current Progress: ${completedItems}/${totalItems} items completed (${percentComplete}%)**${this.describeStructuredProgress()}`
 			const userHasUpdatedList =
 				"**CRITICAL INFORMATION:** The user has modified this todo list - review ALL changes carefully"
 
@@ -388,6 +412,8 @@ ${listInstrunctionsReminder}\n`
 				else if (this.hasTrackedFirstProgress && totalItems > 0) {
 				}
 
+				await this.syncStructuredState(taskProgress.trim())
+
 				// Write the model's update to the markdown file
 				try {
 					await this.writeFocusChainToDisk(taskProgress.trim())
@@ -408,6 +434,7 @@ ${listInstrunctionsReminder}\n`
 				if (markdownTodoList) {
 					const _previousList = this.taskState.currentFocusChainChecklist
 					this.taskState.currentFocusChainChecklist = markdownTodoList
+					await this.syncStructuredState(markdownTodoList)
 
 					// Create a task_progress message to display the focus chain list in the UI
 					await this.say("task_progress", markdownTodoList)
@@ -436,6 +463,8 @@ ${listInstrunctionsReminder}\n`
 		const justSwitchedFromPlanMode = this.taskState.didRespondToPlanAskBySwitchingMode
 		// Always include when user had edited the list manually
 		const userUpdatedList = this.taskState.todoListWasUpdatedByUser
+		// Always include on the first request after resuming, so the model knows where to pick up
+		const resumedWithList = this.resumedFromHistory && !!this.taskState.currentFocusChainChecklist
 		// Include when reaching the reminder interval, configured by settings
 		const reachedReminderInterval =
 			this.taskState.apiRequestsSinceLastTodoUpdate >= this.focusChainSettings.remindClineInterval
@@ -449,6 +478,7 @@ ${listInstrunctionsReminder}\n`
 			reachedReminderInterval ||
 			justSwitchedFromPlanMode ||
 			userUpdatedList ||
+			resumedWithList ||
 			inPlanMode ||
 			isFirstApiRequest ||
 			hasNoTodoListAfterMultipleRequests
@@ -456,6 +486,114 @@ ${listInstrunctionsReminder}\n`
 		return shouldInclude
 	}
 
+	/**
+	 * Reloads the focus chain list and its structured state from disk when a task is resumed.
+	 * The next prompt then names the item to resume from, even if the previous session crashed mid-item.
+	 * @requires this.taskId to locate the task directory
+	 * @returns Promise<FocusChainResumePoint | undefined> - The item to resume from and its checkpoint, if any
+	 */
+	public async restoreFromDisk(): Promise<FocusChainResumePoint | undefined> {
+		const markdownTodoList = await this.readFocusChainFromDisk()
+		if (!markdownTodoList) {
+			return undefined
+		}
+
+		this.taskState.currentFocusChainChecklist = markdownTodoList
+		this.resumedFromHistory = true
+		await this.syncStructuredState(markdownTodoList)
+		return this.getResumePoint()
+	}
+
+	/**
+	 * Returns the structured focus chain: nested items with statuses, dependencies, timestamps and checkpoint links.
+	 * @returns FocusChainState | undefined - Undefined until a list has been created or loaded
+	 */
+	public getStructuredState(): FocusChainState | undefined {
+		return this.structuredState
+	}
+
+	/**
+	 * Finds the item work should continue from, along with the checkpoint to restore to.
+	 * @returns FocusChainResumePoint | undefined - Undefined when there is no list or every item is done or blocked
+	 */
+	public getResumePoint(): FocusChainResumePoint | undefined {
+		return this.structuredState ? getFocusChainResumePoint(this.structuredState) : undefined
+	}
+
+	/**
+	 * Merges a markdown list into the structured state and persists it next to the markdown file.
+	 * Status changes are stamped with the current time and checkpoint; failures are logged, never thrown,
+	 * since the markdown list remains the source of truth.
+	 * @param markdownTodoList - The focus chain list as markdown
+	 * @returns Promise<void> - Updates this.structuredState and writes it to disk
+	 */
+	private async syncStructuredState(markdownTodoList: string): Promise<void> {
+		try {
+			const taskDir = await ensureTaskDirectoryExists(this.taskId)
+			if (!this.structuredStateLoaded) {
+				this.structuredState = await readFocusChainState(taskDir, this.taskId)
+				this.structuredStateLoaded = true
+			}
+
+			const checkpoints = this.getCheckpoints()
+			const state = reconcileFocusChainState(
+				this.structuredState,
+				parseFocusChainMarkdown(markdownTodoList),
+				Date.now(),
+				checkpoints[checkpoints.length - 1],
+			)
+
+			// Checkpoint commits finish asynchronously, so fill in hashes that weren't known when an item changed
+			const hashes = new Map(checkpoints.map((checkpoint) => [checkpoint.messageTs, checkpoint.hash]))
+			for (const item of flattenFocusChainItems(state.items)) {
+				for (const link of [item.startedAtCheckpoint, item.completedAtCheckpoint]) {
+					if (link && !link.hash) {
+						link.hash = hashes.get(link.messageTs)
+					}
+				}
+			}
+
+			this.structuredState = state
+			await writeFocusChainState(taskDir, this.taskId, state)
+		} catch (error) {
+			Logger.error(
+				`[Task ${this.taskId}] focus chain list: Failed to update structured state`,
+				error instanceof Error ? error : new Error(String(error)),
+			)
+		}
+	}
+
+	/**
+	 * Summarizes what the structured state adds to the plain checklist: where to continue and what is waiting on dependencies.
+	 * The resume hint is only given once, on the first prompt after a task is resumed.
+	 * @returns string - Markdown lines to append to the progress summary, or an empty string
+	 */
+	private describeStructuredProgress(): string {
+		const state = this.structuredState
+		if (!state) {
+			return ""
+		}
+
+		const lines: string[] = []
+		const resumePoint = getFocusChainResumePoint(state)
+		if (resumePoint) {
+			const label = this.resumedFromHistory ? "Resume from" : "Next item"
+			const status = resumePoint.item.status === "in_progress" ? " (was in progress)" : ""
+			lines.push(`**${label}:** ${resumePoint.item.text} [id: ${resumePoint.item.id}]${status}`)
+		}
+		this.resumedFromHistory = false
+
+		const waiting = flattenFocusChainItems(state.items).filter(
+			(item) => item.status !== "done" && getUnmetDependencies(state, item).length > 0,
+		)
+		if (waiting.length > 0) {
+			const descriptions = waiting.map((item) => `${item.text} (after: ${getUnmetDependencies(state, item).join(", ")})`)
+			lines.push(`**Waiting on dependencies:** ${descriptions.join("; ")}`)
+		}
+
+		return lines.length > 0 ? `\n${lines.join("\n")}` : ""
+	}
+
 	/**
 	 * Analyzes the current focus chain list for incomplete items when a task is marked as complete.
 	 * Captures telemetry data about unfinished progress items to help improve the focus chain system.
@@ -0,0 +1,270 @@
+import { FOCUS_CHAIN_STATUS_MARKERS, type FocusChainItemStatus, parseFocusChainItem } from "@shared/focus-chain-utils"
+
+export type { FocusChainItemStatus }
+
+/**
+ * The checkpoint that was current when an item changed status
+ * The hash is filled in once the checkpoint commit finishes, so only the message timestamp is guaranteed
+ */
+export interface FocusChainCheckpointLink {
+	messageTs: number
+	hash?: string
+}
+
+/**
+ * One focus chain item with the history the markdown list can't hold
+ */
+export interface FocusChainItem {
+	id: string
+	text: string
+	status: FocusChainItemStatus
+	/** IDs of items that must be done before this one can start */
+	dependsOn: string[]
+	children: FocusChainItem[]
+	createdAt: number
+	/** When the status last changed */
+	updatedAt: number
+	startedAt?: number
+	completedAt?: number
+	/** Checkpoint that was current when work on the item started */
+	startedAtCheckpoint?: FocusChainCheckpointLink
+	/** Checkpoint that was current when the item was marked done */
+	completedAtCheckpoint?: FocusChainCheckpointLink
+}
+
+/**
+ * Structured focus chain persisted alongside the markdown file
+ */
+export interface FocusChainState {
+	version: number
+	items: FocusChainItem[]
+	updatedAt: number
+}
+
+/**
+ * Where to pick a task back up: the item to work on and the checkpoint to restore to
+ */
+export interface FocusChainResumePoint {
+	item: FocusChainItem
+	checkpoint?: FocusChainCheckpointLink
+}
+
+/**
+ * An item as written in markdown, before it is matched against the stored state
+ */
+export interface ParsedFocusChainItem {
+	/** Set by an explicit [id: ...] annotation */
+	id?: string
+	text: string
+	status: FocusChainItemStatus
+	dependsOn: string[]
+	children: ParsedFocusChainItem[]
+}
+
+export const FOCUS_CHAIN_STATE_VERSION = 1
+
+// Trailing annotations such as "[id: api]" and "[after: schema, db]"
+const ANNOTATION_REGEX = /\s*\[(id|after|depends):\s*([^\]]*)\]/gi
+
+/**
+ * Parse a markdown checklist into a tree of items
+ *
+ * Subtasks are indented under their parent by two spaces or a tab per level. Items can name
+ * themselves with "[id: name]" and declare dependencies with "[after: a, b]".
+ */
+export function parseFocusChainMarkdown(markdown: string): ParsedFocusChainItem[] {
+	const roots: ParsedFocusChainItem[] = []
+	const stack: { indent: number; item: ParsedFocusChainItem }[] = []
+
+	for (const line of markdown.split("\n")) {
+		const parsed = parseFocusChainItem(line.trim())
+		if (!parsed) {
+			continue
+		}
+
+		const indent = line.slice(0, line.length - line.trimStart().length).replace(/\t/g, "  ").length
+		const item: ParsedFocusChainItem = { text: parsed.text, status: parsed.status, dependsOn: [], children: [] }
+		item.text = parsed.text
+			.replace(ANNOTATION_REGEX, (_match, key: string, value: string) => {
+				const values = value
+					.split(",")
+					.map((entry) => entry.trim())
+					.filter(Boolean)
+				if (key.toLowerCase() === "id") {
+					item.id = values[0]
+				} else {
+					item.dependsOn.push(...values)
+				}
+				return ""
+			})
+			.trim()
+
+		while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+			stack.pop()
+		}
+		const parent = stack[stack.length - 1]
+		;(parent ? parent.item.children : roots).push(item)
+		stack.push({ indent, item })
+	}
+
+	return roots
+}
+
+/**
+ * Merge a freshly parsed list into the stored state
+ *
+ * Items are matched by explicit ID, then by text, so timestamps and checkpoint links survive
+ * rewrites of the list. Status changes stamp the item with the current time and checkpoint.
+ */
+export function reconcileFocusChainState(
+	previous: FocusChainState | undefined,
+	parsed: ParsedFocusChainItem[],
+	now: number,
+	checkpoint?: FocusChainCheckpointLink,
+): FocusChainState {
+	const previousItems = flattenFocusChainItems(previous?.items ?? [])
+	const byId = new Map(previousItems.map((item) => [item.id, item]))
+	const byText = new Map<string, FocusChainItem>()
+	for (const item of previousItems) {
+		if (!byText.has(normalizeText(item.text))) {
+			byText.set(normalizeText(item.text), item)
+		}
+	}
+	// Explicit IDs are reserved up front so generated ones never collide with them
+	const reservedIds = new Set(flattenParsed(parsed).flatMap((entry) => (entry.id ? [entry.id] : [])))
+	const usedIds = new Set<string>()
+
+	const reconcile = (entry: ParsedFocusChainItem): FocusChainItem => {
+		let existing = entry.id ? byId.get(entry.id) : undefined
+		if (!existing) {
+			const candidate = byText.get(normalizeText(entry.text))
+			const claimedElsewhere = candidate && candidate.id !== entry.id && reservedIds.has(candidate.id)
+			existing = candidate && !usedIds.has(candidate.id) && !claimedElsewhere ? candidate : undefined
+		}
+
+		const id =
+			entry.id ??
+			existing?.id ??
+			uniqueId(slugify(entry.text), (candidate) => usedIds.has(candidate) || reservedIds.has(candidate))
+		usedIds.add(id)
+
+		const item: FocusChainItem = {
+			...existing,
+			id,
+			text: entry.text,
+			status: entry.status,
+			dependsOn: entry.dependsOn,
+			children: [],
+			createdAt: existing?.createdAt ?? now,
+			updatedAt: existing?.updatedAt ?? now,
+		}
+
+		if (existing?.status !== entry.status) {
+			item.updatedAt = now
+			if ((entry.status === "in_progress" || entry.status === "done") && item.startedAt === undefined) {
+				item.startedAt = now
+				item.startedAtCheckpoint = checkpoint
+			}
+			if (entry.status === "done") {
+				item.completedAt = now
+				item.completedAtCheckpoint = checkpoint
+			} else {
+				// Reopened items no longer count as completed by their old checkpoint
+				delete item.completedAt
+				delete item.completedAtCheckpoint
+			}
+		}
+
+		item.children = entry.children.map(reconcile)
+		return item
+	}
+
+	return { version: FOCUS_CHAIN_STATE_VERSION, items: parsed.map(reconcile), updatedAt: now }
+}
+
+/**
+ * Items in document order, parents before their children
+ */
+export function flattenFocusChainItems(items: FocusChainItem[]): FocusChainItem[] {
+	return items.flatMap((item) => [item, ...flattenFocusChainItems(item.children)])
+}
+
+/**
+ * IDs this item depends on that are not done yet; unknown IDs count as unmet
+ */
+export function getUnmetDependencies(state: FocusChainState, item: FocusChainItem): string[] {
+	const done = new Set(
+		flattenFocusChainItems(state.items)
+			.filter((entry) => entry.status === "done")
+			.map((entry) => entry.id),
+	)
+	return item.dependsOn.filter((id) => !done.has(id))
+}
+
+/**
+ * Find the item to continue with after an interruption
+ *
+ * An item already in progress wins (its deepest in-progress subtask, if any). Otherwise it is
+ * the first unfinished leaf that isn't blocked and whose dependencies are all done. The
+ * checkpoint is the one the item started from, or else the one that completed the most
+ * recently finished item.
+ */
+export function getFocusChainResumePoint(state: FocusChainState): FocusChainResumePoint | undefined {
+	const items = flattenFocusChainItems(state.items)
+	const isInProgress = (item: FocusChainItem) => item.status === "in_progress"
+	const isReady = (item: FocusChainItem) =>
+		item.children.length === 0 && item.status === "pending" && getUnmetDependencies(state, item).length === 0
+
+	let item = items.find(isInProgress)
+	for (let child = item?.children.find(isInProgress); child; child = child.children.find(isInProgress)) {
+		item = child
+	}
+	item ??= items.find(isReady)
+	if (!item) {
+		return undefined
+	}
+
+	const lastCompleted = items
+		.filter((entry) => entry.completedAtCheckpoint)
+		.sort((a, b) => (b.completedAt ?? 0) - (a.completedAt ?? 0))[0]
+	return { item, checkpoint: item.startedAtCheckpoint ?? lastCompleted?.completedAtCheckpoint }
+}
+
+/**
+ * Render the state back to a markdown checklist, with IDs written out so they stay stable
+ */
+export function formatFocusChainMarkdown(items: FocusChainItem[], depth = 0): string {
+	return items
+		.flatMap((item) => {
+			const annotations = [` [id: ${item.id}]`, item.dependsOn.length > 0 ? ` [after: ${item.dependsOn.join(", ")}]` : ""]
+			const line = `${"  ".repeat(depth)}- [${FOCUS_CHAIN_STATUS_MARKERS[item.status]}] ${item.text}${annotations.join("")}`
+			return item.children.length > 0 ? [line, formatFocusChainMarkdown(item.children, depth + 1)] : [line]
+		})
+		.join("\n")
+}
+
+function flattenParsed(items: ParsedFocusChainItem[]): ParsedFocusChainItem[] {
+	return items.flatMap((item) => [item, ...flattenParsed(item.children)])
+}
+
+function normalizeText(text: string): string {
+	return text.toLowerCase().replace(/\s+/g, " ").trim()
+}
+
+function slugify(text: string): string {
+	const slug = text
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "")
+		.slice(0, 40)
+		.replace(/-+$/, "")
+	return slug || "item"
+}
+
+function uniqueId(base: string, isTaken: (id: string) => boolean): string {
+	let id = base
+	for (let suffix = 2; isTaken(id); suffix++) {
+		id = `${base}-${suffix}`
+	}
+	return id
+}
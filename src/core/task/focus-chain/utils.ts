@@ -1,29 +1,35 @@
-import { isCompletedFocusChainItem, isFocusChainItem } from "@shared/focus-chain-utils"
+import { parseFocusChainItem } from "@shared/focus-chain-utils"
 
 export interface TodoListCounts {
 	totalItems: number
 	completedItems: number
+	inProgressItems: number
+	blockedItems: number
 }
 
 /**
- * Parses a focus chain list string and returns counts of total and completed items
+ * Parses a focus chain list string and returns counts of items by status
+ * Nested subtasks count as items of their own
  * @param todoList The focus chain list string to parse
- * @returns Object with totalItems and completedItems counts
+ * @returns Object with totalItems, completedItems, inProgressItems and blockedItems counts
  */
 export function parseFocusChainListCounts(todoList: string): TodoListCounts {
-	const lines = todoList.split("\n")
-	let totalItems = 0
-	let completedItems = 0
+	const counts: TodoListCounts = { totalItems: 0, completedItems: 0, inProgressItems: 0, blockedItems: 0 }
 
-	for (const line of lines) {
-		const trimmed = line.trim()
-		if (isFocusChainItem(trimmed)) {
-			totalItems++
-			if (isCompletedFocusChainItem(trimmed)) {
-				completedItems++
-			}
+	for (const line of todoList.split("\n")) {
+		const item = parseFocusChainItem(line.trim())
+		if (!item) {
+			continue
+		}
+		counts.totalItems++
+		if (item.status === "done") {
+			counts.completedItems++
+		} else if (item.status === "in_progress") {
+			counts.inProgressItems++
+		} else if (item.status === "blocked") {
+			counts.blockedItems++
 		}
 	}
 
-	return { totalItems, completedItems }
+	return counts
 }
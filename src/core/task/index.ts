@@ -14,6 +14,7 @@ import { BrowserSession } from "@services/browser/BrowserSession"
 import { McpHub } from "@services/mcp/McpHub"
 import { ClineAsk, ClineSay } from "@shared/ExtensionMessage"
 import { HistoryItem } from "@shared/HistoryItem"
+import type { ClineMessage as ProtoClineMessage } from "@shared/proto/cline/ui"
 import { convertClineMessageToProto } from "@shared/proto-conversions/cline-message"
 import { ClineDefaultTool } from "@shared/tools"
 import { ClineAskResponse } from "@shared/WebviewMessage"
@@ -57,6 +58,8 @@ export class Task {
 	// Core task variables
 	readonly taskId: string
 	readonly ulid: string
+	// Set when this task runs as a sub-agent of another task
+	readonly parentTaskId?: string
 	private taskIsFavorited?: boolean
 	private taskInitializationStartTime: number
 
@@ -134,6 +137,7 @@ export class Task {
 			files,
 			historyItem,
 			taskId,
+			parentTaskId,
 		} = params
 
 		// Basic initialization
@@ -148,11 +152,16 @@ export class Task {
 		this.stateManager = stateManager
 		this.workspaceManager = workspaceManager
 
+		this.parentTaskId = parentTaskId
+
 		// Set up MCP notification callback for real-time notifications
-		this.mcpHub.setNotificationCallback(async (serverName: string, _level: string, message: string) => {
-			// Display notification in chat immediately
-			await this.say("mcp_notification", `[${serverName}] ${message}`)
-		})
+		// Sub-agents leave it to the task shown in the chat, which the hub delivers to
+		if (!parentTaskId) {
+			this.mcpHub.setNotificationCallback(async (serverName: string, _level: string, message: string) => {
+				// Display notification in chat immediately
+				await this.say("mcp_notification", `[${serverName}] ${message}`)
+			})
+		}
 
 		// Initialize ULID and task metadata
 		this.taskId = taskId
@@ -239,6 +248,7 @@ export class Task {
 				this.getCurrentProviderInfo.bind(this),
 				this.getApiRequestIdSafe.bind(this),
 				this.taskInitializationStartTime,
+				this.abortTask.bind(this),
 			)
 
 			// Initialize lifecycle service with bound callback
@@ -252,6 +262,7 @@ export class Task {
 				cwd: params.cwd,
 				taskState: this.taskState,
 				taskId: this.taskId,
+				parentTaskId: this.parentTaskId,
 				fileContextTracker: components.fileContextTracker,
 				contextManager: components.contextManager,
 				stateManager: this.stateManager,
@@ -333,7 +344,7 @@ export class Task {
 						partial,
 					})
 					const protoMessage = convertClineMessageToProto(lastMessage)
-					await sendPartialMessageEvent(protoMessage)
+					await this.publishPartialMessage(protoMessage)
 					// Partial message update completed - abort this promise as it's not waiting for a response
 					throw new Error("Ask promise superseded by partial message update")
 				} else {
@@ -369,7 +380,7 @@ export class Task {
 						partial: false,
 					})
 					const protoMessage = convertClineMessageToProto(lastMessage)
-					await sendPartialMessageEvent(protoMessage)
+					await this.publishPartialMessage(protoMessage)
 				} else {
 					// Check if we should convert a partial say message to a non-partial ask message
 					const canConvertPartialSayToAsk =
@@ -390,7 +401,7 @@ export class Task {
 							partial: false,
 						})
 						const protoMessage = convertClineMessageToProto(lastMessage)
-						await sendPartialMessageEvent(protoMessage)
+						await this.publishPartialMessage(protoMessage)
 					} else {
 						// New partial=false message - add as complete message
 						this.taskState.askResponse = undefined
@@ -497,7 +508,7 @@ export class Task {
 					lastMessage.files = files
 					lastMessage.partial = partial
 					const protoMessage = convertClineMessageToProto(lastMessage)
-					await sendPartialMessageEvent(protoMessage)
+					await this.publishPartialMessage(protoMessage)
 					return undefined
 				} else {
 					// New partial message - add it with partial state
@@ -528,7 +539,7 @@ export class Task {
 					// Save to disk and send targeted update (more performant than full postStateToWebview)
 					await this.messageStateHandler.saveClineMessagesAndUpdateHistory()
 					const protoMessage = convertClineMessageToProto(lastMessage)
-					await sendPartialMessageEvent(protoMessage)
+					await this.publishPartialMessage(protoMessage)
 					return undefined
 				} else {
 					// New partial=false message - add as complete message
@@ -580,6 +591,13 @@ export class Task {
 		}
 	}
 
+	// Sub-agents run alongside the task shown in the webview, so their streaming updates must not reach it
+	private async publishPartialMessage(message: ProtoClineMessage): Promise<void> {
+		if (!this.parentTaskId) {
+			await sendPartialMessageEvent(message)
+		}
+	}
+
 	private async saveCheckpointCallback(isAttemptCompletionMessage?: boolean, completionMessageTs?: number): Promise<void> {
 		return this.checkpointManager?.saveCheckpoint(isAttemptCompletionMessage, completionMessageTs) ?? Promise.resolve()
 	}
@@ -2,6 +2,7 @@ import { ApiHandler, ApiService } from "@core/api"
 import { ContextManager } from "@core/context/context-management/context_manager"
 import { FileContextTracker } from "@core/context/context-tracking"
 import { ModelContextTracker } from "@core/context/context-tracking/ModelContextTracker"
+import { sendPartialMessageEvent } from "@core/controller/ui/subscribeToPartialMessage"
 import { ClineIgnoreController } from "@core/ignore/ClineIgnoreController"
 import { isMultiRootEnabled } from "@core/workspace/multi-root-utils"
 import { buildCheckpointManager } from "@integrations/checkpoints/factory"
@@ -116,6 +117,7 @@ export class TaskInitializer {
 			cwd,
 			stateManager,
 			workspaceManager,
+			parentTaskId,
 		} = params
 
 		// Initialize core components
@@ -162,6 +164,11 @@ export class TaskInitializer {
 				postStateToWebview,
 				say,
 				focusChainSettings,
+				getCheckpoints: () =>
+					messageStateHandler
+						.getClineMessages()
+						.filter((message) => message.say === "checkpoint_created")
+						.map((message) => ({ messageTs: message.ts, hash: message.lastCheckpointHash })),
 			})
 
 			// Set up focus chain file watcher (async, runs in background)
@@ -280,10 +287,17 @@ export class TaskInitializer {
 			() => checkpointManager?.doesLatestTaskCompletionHaveNewChanges() ?? Promise.resolve(false),
 			focusChainManager?.updateFCListFromToolResponse.bind(focusChainManager) || (async () => {}),
 			switchToActModeCallback,
+			params.startSubagentTask,
 		)
 
 		// Initialize services
-		const messageService = new TaskMessageService(taskState, messageStateHandler, postStateToWebview)
+		// Sub-agents run alongside the task shown in the webview, so their streaming updates must not reach it
+		const messageService = new TaskMessageService(
+			taskState,
+			messageStateHandler,
+			postStateToWebview,
+			parentTaskId ? async () => {} : sendPartialMessageEvent,
+		)
 
 		const contextBuilder = new TaskContextBuilder(
 			cwd,
@@ -326,6 +340,7 @@ export class TaskInitializer {
 			undefined as any, // getCurrentProviderInfo
 			undefined as any, // getApiRequestIdSafe
 			performance.now(), // taskInitializationStartTime
+			undefined as any, // abortTask
 		)
 
 		const lifecycleService = new TaskLifecycleService({
@@ -338,6 +353,7 @@ export class TaskInitializer {
 			cwd,
 			taskState,
 			taskId,
+			parentTaskId,
 			fileContextTracker,
 			contextManager,
 			stateManager,
@@ -0,0 +1,39 @@
+import type { ApiStreamToolUseChunk } from "@core/api/transform/stream"
+import { describe, it } from "mocha"
+import "should"
+import { ApiStreamManager } from "../api_stream_manager"
+
+function createManager(nativeToolCalls: ApiStreamToolUseChunk[]): ApiStreamManager {
+	// buildAssistantContent only reads the native tool calls collected from the stream
+	const manager = new ApiStreamManager({} as any, {} as any, {} as any, {} as any, {} as any, "ulid")
+	;(manager as any).nativeToolCalls = nativeToolCalls
+	return manager
+}
+
+describe("ApiStreamManager.buildAssistantContent", () => {
+	it("should parse XML tool calls from text when there are no native calls", () => {
+		const content = createManager([]).buildAssistantContent("Reading.\n<read_file>\n<path>a.ts</path>\n</read_file>")
+
+		content.map((block) => block.type).should.deepEqual(["text", "tool_use"])
+		content[1].should.containEql({ name: "read_file", params: { path: "a.ts" }, partial: false })
+	})
+
+	it("should append native tool calls after the text and complete the text", () => {
+		const content = createManager([
+			{ type: "tool_use", id: "call_1", name: "read_file", input: { path: "a.ts" } },
+			{ type: "tool_use", id: "call_2", name: "search_files", input: { path: ".", regex: "x", recursive: true } },
+		]).buildAssistantContent("Let me look")
+
+		content.should.deepEqual([
+			{ type: "text", content: "Let me look", partial: false },
+			{ type: "tool_use", id: "call_1", name: "read_file", params: { path: "a.ts" }, partial: false },
+			{
+				type: "tool_use",
+				id: "call_2",
+				name: "search_files",
+				params: { path: ".", regex: "x", recursive: "true" },
+				partial: false,
+			},
+		])
+	})
+})
@@ -0,0 +1,67 @@
+import type { ClineMessage } from "@shared/ExtensionMessage"
+import type { TaskBudgetSettings } from "@shared/TaskBudgetSettings"
+import { afterEach, beforeEach, describe, it } from "mocha"
+import "should"
+import sinon from "sinon"
+import { TaskState } from "../../TaskState"
+import { TaskLimitManager } from "../task_limit_manager"
+
+describe("TaskLimitManager time limit", () => {
+	let clock: sinon.SinonFakeTimers
+	let taskState: TaskState
+	let said: string[]
+	let abortTask: sinon.SinonStub
+	let budget: TaskBudgetSettings
+
+	const createManager = (messages: ClineMessage[]) => {
+		const settings: Record<string, unknown> = {
+			taskBudgetSettings: budget,
+			autoApprovalSettings: { enabled: false, maxRequests: 20 },
+		}
+		return new TaskLimitManager(
+			taskState,
+			{ say: async (_type: string, text: string) => said.push(text) } as any,
+			{ getGlobalSettingsKey: (key: string) => settings[key] } as any,
+			{ getClineMessages: () => messages } as any,
+			abortTask,
+		)
+	}
+
+	beforeEach(() => {
+		clock = sinon.useFakeTimers({ now: 1_000_000 })
+		taskState = new TaskState()
+		said = []
+		abortTask = sinon.stub().resolves()
+		budget = { enabled: true, soft: {}, hard: { maxMinutes: 2 } }
+	})
+
+	afterEach(() => {
+		clock.restore()
+	})
+
+	it("should stop the task when the hard time limit passes during a tool", async () => {
+		const manager = createManager([{ ts: Date.now(), type: "say", say: "api_req_started", text: "{}" }])
+
+		;(await manager.checkLimitsBeforeRequest([])).shouldProceed.should.be.true()
+		await clock.tickAsync(119_000)
+		abortTask.called.should.be.false()
+
+		await clock.tickAsync(1_000)
+		abortTask.calledOnce.should.be.true()
+		taskState.budgetExceeded.should.be.true()
+		said.should.deepEqual(["Time hard limit reached: 2 min of 2 min. The task has been stopped."])
+	})
+
+	it("should leave aborted tasks and tasks without a time limit alone", async () => {
+		budget = { enabled: true, soft: {}, hard: { maxCost: 1 } }
+		await createManager([]).checkLimitsBeforeRequest([])
+
+		budget = { enabled: true, soft: {}, hard: { maxMinutes: 1 } }
+		await createManager([]).checkLimitsBeforeRequest([])
+		taskState.abort = true
+
+		await clock.tickAsync(120_000)
+		abortTask.called.should.be.false()
+		said.should.be.empty()
+	})
+})
@@ -1,5 +1,6 @@
 import { Anthropic } from "@anthropic-ai/sdk"
-import type { ApiStream } from "@core/api/transform/stream"
+import type { ApiStream, ApiStreamToolUseChunk } from "@core/api/transform/stream"
+import { type AssistantMessageContent, toolUseFromNativeCall } from "@core/assistant-message"
 import { parseAssistantMessageV2 } from "@core/assistant-message/parse-assistant-message"
 import type { DiffViewProvider } from "@integrations/editor/DiffViewProvider"
 import { telemetryService } from "@services/telemetry"
@@ -35,6 +36,7 @@ export interface TokenUsage {
  * - Calculate costs from usage data
  * - Handle stream abortion gracefully
  * - Process reasoning and thinking blocks
+ * - Collect native tool calls and present them alongside parsed text
  * - Coordinate with diff view provider
  *
  * @example
@@ -49,6 +51,9 @@ export class ApiStreamManager {
 	private lastTextUpdateTime = 0
 	private readonly UPDATE_THROTTLE_MS = 50 // Update UI at most every 50ms
 
+	// Native tool calls received in the current stream, in order
+	private nativeToolCalls: ApiStreamToolUseChunk[] = []
+
 	constructor(
 		private readonly taskState: TaskState,
 		private readonly messageService: TaskMessageService,
@@ -75,7 +80,7 @@ export class ApiStreamManager {
 	 * @param lastApiReqIndex - Index of the API request message
 	 * @param providerId - The provider ID for telemetry
 	 * @param modelId - The model ID for telemetry
-	 * @returns Promise<{usage: TokenUsage, assistantMessage: string, reasoningMessage: string, antThinkingContent: array}>
+	 * @returns Promise<{usage: TokenUsage, assistantMessage: string, reasoningMessage: string, antThinkingContent: array, nativeToolCalls: array}>
 	 */
 	async processStream(
 		stream: ApiStream,
@@ -87,6 +92,7 @@ export class ApiStreamManager {
 		assistantMessage: string
 		reasoningMessage: string
 		antThinkingContent: Array<Anthropic.Messages.RedactedThinkingBlock | Anthropic.Messages.ThinkingBlock>
+		nativeToolCalls: ApiStreamToolUseChunk[]
 		didReceiveUsageChunk: boolean
 	}> {
 		let inputTokens = 0
@@ -181,6 +187,14 @@ export class ApiStreamManager {
 							await this.throttledTextUpdate(assistantMessage)
 						}
 						break
+
+					case "tool_use":
+						// Native tool calls arrive complete, so present them right away
+						this.nativeToolCalls.push(chunk)
+						if (!this.taskState.abort) {
+							this.updateAssistantContent(assistantMessage)
+						}
+						break
 				}
 
 				// Check for abortion conditions
@@ -231,10 +245,32 @@ export class ApiStreamManager {
 			assistantMessage,
 			reasoningMessage,
 			antThinkingContent,
+			nativeToolCalls: [...this.nativeToolCalls],
 			didReceiveUsageChunk,
 		}
 	}
 
+	/**
+	 * Build the assistant content blocks from the streamed text and native tool calls
+	 *
+	 * Text is parsed for XML tool calls as usual; native tool calls follow it in the order they arrived.
+	 *
+	 * @param assistantMessage - The accumulated assistant message text
+	 * @returns Content blocks to present
+	 */
+	buildAssistantContent(assistantMessage: string): AssistantMessageContent[] {
+		const content = parseAssistantMessageV2(assistantMessage)
+		if (this.nativeToolCalls.length === 0) {
+			return content
+		}
+
+		// Text streamed before a native tool call is complete once the call arrives
+		for (const block of content) {
+			block.partial = false
+		}
+		return [...content, ...this.nativeToolCalls.map(toolUseFromNativeCall)]
+	}
+
 	/**
 	 * Flush any pending throttled updates at the end of streaming
 	 *
@@ -262,23 +298,11 @@ export class ApiStreamManager {
 			if (assistantMessage) {
 				// Send final text with partial=false to complete the streaming message
 				await this.messageService.say("text", assistantMessage, undefined, undefined, false)
+			}
 
-				// Parse and update task state for tool execution (without sending partial message)
-				try {
-					const parsedContent = parseAssistantMessageV2(assistantMessage)
-					const previousContentLength = this.taskState.assistantMessageContent.length
-					this.taskState.assistantMessageContent = parsedContent
-
-					// Trigger presentation if new content was added
-					if (this.presentAssistantMessage && parsedContent.length > previousContentLength) {
-						this.taskState.userMessageContentReady = false
-						this.presentAssistantMessage().catch((error) => {
-							console.error("Error presenting final content:", error)
-						})
-					}
-				} catch (error) {
-					console.error("Error parsing final text:", error)
-				}
+			// Update task state for tool execution (without sending partial message)
+			if (assistantMessage || this.nativeToolCalls.length > 0) {
+				this.updateAssistantContent(assistantMessage)
 			}
 		} catch (error) {
 			console.error("Error flushing pending updates:", error)
@@ -350,7 +374,22 @@ export class ApiStreamManager {
 			await this.messageService.say("text", cleanedMessage, undefined, undefined, true)
 
 			// Parse the accumulated text to extract content blocks (text + tool_use)
-			const parsedContent = parseAssistantMessageV2(assistantMessage)
+			this.updateAssistantContent(assistantMessage)
+		} catch (error) {
+			// Parsing errors shouldn't interrupt the stream
+			console.error("Error parsing streaming text:", error)
+		}
+	}
+
+	/**
+	 * Update the task state's content blocks and present any new ones
+	 *
+	 * @param assistantMessage - The accumulated assistant message text
+	 * @private
+	 */
+	private updateAssistantContent(assistantMessage: string): void {
+		try {
+			const parsedContent = this.buildAssistantContent(assistantMessage)
 
 			// Calculate previous content length to detect new blocks
 			const previousContentLength = this.taskState.assistantMessageContent.length
@@ -536,6 +575,7 @@ export class ApiStreamManager {
 	 * Should be called before starting a new API request stream.
 	 */
 	async resetStreamState(): Promise<void> {
+		this.nativeToolCalls = []
 		this.taskState.currentStreamingContentIndex = 0
 		this.taskState.assistantMessageContent = []
 		this.taskState.didCompleteReadingStream = false
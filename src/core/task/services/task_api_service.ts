@@ -1,20 +1,21 @@
 import { Anthropic } from "@anthropic-ai/sdk"
-import type { ApiStream } from "@core/api/transform/stream"
-import { parseAssistantMessageV2 } from "@core/assistant-message"
+import type { ApiStream, ApiStreamToolUseChunk } from "@core/api/transform/stream"
 import type { ContextManager } from "@core/context/context-management/context_manager"
 import type { ModelContextTracker } from "@core/context/context-tracking/ModelContextTracker"
 import {
 	getGlobalClineRules,
+	getLocalAgentsRules,
 	getLocalClineRules,
 	getLocalCursorRules,
 	getLocalWindsurfRules,
+	getRuleActivationContext,
 	refreshAllToggles,
 } from "@core/context/instructions/user-instructions/rule_loader"
 import type { ClineIgnoreController } from "@core/ignore/ClineIgnoreController"
 import { summarizeTask } from "@core/prompts/context_summarization"
 import { formatResponse } from "@core/prompts/response_formatters"
-import type { SystemPromptContext } from "@core/prompts/system-prompt"
-import { getSystemPrompt } from "@core/prompts/system-prompt"
+import type { SystemPromptContext, ToolCallFormat } from "@core/prompts/system-prompt"
+import { getNativeToolDefinitions, getSystemPrompt, getToolCallFormat } from "@core/prompts/system-prompt"
 import { ensureTaskDirectoryExists } from "@core/storage/disk"
 import { isMultiRootEnabled } from "@core/workspace/multi-root-utils"
 import type { ICheckpointManager } from "@integrations/checkpoints/types"
@@ -28,7 +29,7 @@ import { DEFAULT_LANGUAGE_SETTINGS, getLanguageKey, type LanguageDisplay } from
 import { isLocalModel, isNextGenModelFamily } from "@utils/model-utils"
 import pWaitFor from "p-wait-for"
 import * as path from "path"
-import type { ApiHandler } from "@/core/api"
+import { type ApiHandler, convertNativeToolCallsToText, type ProviderInfo } from "@/core/api"
 import type { Controller } from "@/core/controller"
 import type { StateManager } from "@/core/storage/StateManager"
 import type { WorkspaceRootManager } from "@/core/workspace/WorkspaceRootManager"
@@ -37,6 +38,7 @@ import { telemetryService } from "@/services/telemetry"
 import type { MessageStateHandler } from "../message-state"
 import type { TaskState } from "../TaskState"
 import type { ToolExecutor } from "../ToolExecutor"
+import { ToolResultUtils } from "../tools/utils/ToolResultUtils"
 import { updateApiReqMsg } from "../utils"
 import { ApiRetryService } from "./api_retry_service"
 import { ApiStreamManager } from "./api_stream_manager"
@@ -105,6 +107,7 @@ export class TaskApiService {
 		private readonly getCurrentProviderInfo: () => any,
 		private readonly getApiRequestIdSafe: () => string | undefined,
 		private readonly taskInitializationStartTime: number,
+		abortTask: () => Promise<void>,
 	) {
 		// Initialize specialized service delegates
 		this.retryService = new ApiRetryService(taskState, messageService, messageStateHandler, contextManager, taskId)
@@ -128,7 +131,7 @@ export class TaskApiService {
 			taskId,
 		)
 
-		this.limitManager = new TaskLimitManager(taskState, messageService, stateManager)
+		this.limitManager = new TaskLimitManager(taskState, messageService, stateManager, messageStateHandler, abortTask)
 	}
 
 	/**
@@ -177,7 +180,11 @@ export class TaskApiService {
 		})
 
 		// Generate system prompt with all context
-		const systemPrompt = await this.buildSystemPrompt()
+		const promptContext = await this.buildPromptContext()
+		const systemPrompt = await getSystemPrompt(promptContext)
+
+		// Models that call tools natively get the tool specs as JSON schemas instead of XML instructions
+		const tools = promptContext.toolCallFormat === "native" ? await getNativeToolDefinitions(promptContext) : undefined
 
 		// Get conversation history with context management
 		const contextManagementMetadata = await this.contextManager.getNewContextMessagesAndMetadata(
@@ -195,8 +202,14 @@ export class TaskApiService {
 			await this.messageStateHandler.saveClineMessagesAndUpdateHistory()
 		}
 
+		// A native task that fell back to XML can't send tool blocks the request doesn't define tools for
+		const conversationHistory =
+			promptContext.toolCallFormat === "native"
+				? contextManagementMetadata.truncatedConversationHistory
+				: convertNativeToolCallsToText(contextManagementMetadata.truncatedConversationHistory)
+
 		// Create API stream
-		const stream = this.api.createMessage(systemPrompt, contextManagementMetadata.truncatedConversationHistory)
+		const stream = this.api.createMessage(systemPrompt, conversationHistory, tools)
 		const iterator = stream[Symbol.asyncIterator]()
 
 		try {
@@ -223,15 +236,15 @@ export class TaskApiService {
 	}
 
 	/**
-	 * Build system prompt with all context
+	 * Build system prompt context
 	 *
-	 * Gathers all necessary context (rules, settings, workspace info) and
-	 * generates the system prompt for the API request.
+	 * Gathers all necessary context (rules, settings, workspace info) the
+	 * system prompt and native tool definitions are generated from.
 	 *
-	 * @returns Promise<string> - The system prompt
+	 * @returns Promise<SystemPromptContext> - The system prompt context
 	 * @private
 	 */
-	private async buildSystemPrompt(): Promise<string> {
+	private async buildPromptContext(): Promise<SystemPromptContext> {
 		const providerInfo = this.getCurrentProviderInfo()
 		const ide = (await HostProvider.env.getHostVersion({})).platform || "Unknown"
 
@@ -248,14 +261,22 @@ export class TaskApiService {
 				? `# Preferred Language\n\nSpeak in ${preferredLanguage}.`
 				: ""
 
+		// Conditional rules only apply once the task has touched matching files, or in their declared mode
 		const allToggles = await refreshAllToggles(this.controller, this.cwd)
-		const globalClineRulesFileInstructions = await getGlobalClineRules(allToggles.globalClineRules)
-		const localClineRulesFileInstructions = await getLocalClineRules(this.cwd, allToggles.localClineRules)
+		const ruleActivation = await getRuleActivationContext(
+			this.cwd,
+			this.taskId,
+			this.stateManager.getGlobalSettingsKey("mode"),
+		)
+		const globalClineRulesFileInstructions = await getGlobalClineRules(allToggles.globalClineRules, ruleActivation)
+		const localClineRulesFileInstructions = await getLocalClineRules(this.cwd, allToggles.localClineRules, ruleActivation)
 		const [localCursorRulesFileInstructions, localCursorRulesDirInstructions] = await getLocalCursorRules(
 			this.cwd,
 			allToggles.cursorRules,
+			ruleActivation,
 		)
-		const localWindsurfRulesFileInstructions = await getLocalWindsurfRules(this.cwd, allToggles.windsurfRules)
+		const localWindsurfRulesFileInstructions = await getLocalWindsurfRules(this.cwd, allToggles.windsurfRules, ruleActivation)
+		const localAgentsRulesFileInstructions = await getLocalAgentsRules(this.cwd, allToggles.agentsRules, ruleActivation)
 
 		const clineIgnoreContent = this.clineIgnoreController.clineIgnoreContent
 		let clineIgnoreInstructions: string | undefined
@@ -286,15 +307,44 @@ export class TaskApiService {
 			localCursorRulesFileInstructions,
 			localCursorRulesDirInstructions,
 			localWindsurfRulesFileInstructions,
+			localAgentsRulesFileInstructions,
 			clineIgnoreInstructions,
 			preferredLanguageInstructions,
 			browserSettings: this.stateManager.getGlobalSettingsKey("browserSettings"),
 			yoloModeToggled: this.stateManager.getGlobalSettingsKey("yoloModeToggled"),
 			isMultiRootEnabled: multiRootEnabled,
 			workspaceRoots,
+			toolCallFormat: this.getTaskToolCallFormat(providerInfo),
 		}
 
-		return await getSystemPrompt(promptContext)
+		return promptContext
+	}
+
+	/**
+	 * The tool call format for the next request, pinned to the one the task started with
+	 *
+	 * Switching models mid-task (e.g. between plan and act mode) doesn't switch formats, so the
+	 * model never sees tool calls in its history it isn't asked to make. A resumed task picks the
+	 * format back up from its history. A native task only falls back to XML when the current
+	 * provider can't call tools natively, and its history is converted to text for that request.
+	 *
+	 * @private
+	 */
+	private getTaskToolCallFormat(providerInfo: ProviderInfo): ToolCallFormat {
+		if (!this.taskState.toolCallFormat) {
+			const history = this.messageStateHandler.getApiConversationHistory()
+			const assistantMessages = history.filter((message) => message.role === "assistant")
+			this.taskState.toolCallFormat =
+				assistantMessages.length === 0
+					? getToolCallFormat(providerInfo)
+					: assistantMessages.some(
+								(message) =>
+									Array.isArray(message.content) && message.content.some((block) => block.type === "tool_use"),
+							)
+						? "native"
+						: "xml"
+		}
+		return this.taskState.toolCallFormat === "native" && providerInfo.capabilities?.nativeToolCalls ? "native" : "xml"
 	}
 
 	/**
@@ -538,6 +588,7 @@ export class TaskApiService {
 				streamResult.assistantMessage,
 				streamResult.reasoningMessage,
 				streamResult.antThinkingContent,
+				streamResult.nativeToolCalls,
 				streamResult.usage,
 				lastApiReqIndex,
 				providerId,
@@ -640,17 +691,18 @@ export class TaskApiService {
 		assistantMessage: string,
 		_reasoningMessage: string,
 		antThinkingContent: Array<Anthropic.Messages.RedactedThinkingBlock | Anthropic.Messages.ThinkingBlock>,
+		nativeToolCalls: ApiStreamToolUseChunk[],
 		usage: any,
 		lastApiReqIndex: number,
 		providerId: string,
 		modelId: string,
 	): Promise<boolean> {
-		if (assistantMessage.length === 0) {
+		if (assistantMessage.length === 0 && nativeToolCalls.length === 0) {
 			return await this.handleEmptyAssistantMessage()
 		}
 
-		// Parse assistant message
-		this.taskState.assistantMessageContent = parseAssistantMessageV2(assistantMessage)
+		// Parse assistant message and append native tool calls
+		this.taskState.assistantMessageContent = this.streamManager.buildAssistantContent(assistantMessage)
 
 		// Present content to user
 		this.presentAssistantMessage()
@@ -679,12 +731,19 @@ export class TaskApiService {
 			role: "assistant",
 			content: [
 				...antThinkingContent,
-				{
-					type: "text",
-					text: assistantMessage,
-				},
+				// Providers reject empty text blocks, which native tool calls can leave behind
+				...(assistantMessage ? [{ type: "text" as const, text: assistantMessage }] : []),
+				...nativeToolCalls.map((toolCall) => ({
+					type: "tool_use" as const,
+					id: toolCall.id,
+					name: toolCall.name,
+					input: toolCall.input,
+				})),
 			] as Array<
-				Anthropic.Messages.RedactedThinkingBlock | Anthropic.Messages.ThinkingBlock | Anthropic.Messages.TextBlock
+				| Anthropic.Messages.RedactedThinkingBlock
+				| Anthropic.Messages.ThinkingBlock
+				| Anthropic.Messages.TextBlock
+				| Anthropic.Messages.ToolUseBlock
 			>,
 		})
 
@@ -699,6 +758,14 @@ export class TaskApiService {
 			this.limitManager.incrementMistakeCount()
 		}
 
+		// Every native tool call needs a matching tool_result in the next user message
+		if (nativeToolCalls.length > 0) {
+			this.taskState.userMessageContent = ToolResultUtils.pairNativeToolResults(
+				nativeToolCalls.map((toolCall) => toolCall.id),
+				this.taskState.userMessageContent,
+			)
+		}
+
 		// Recurse
 		return await this.recursivelyMakeClineRequests(this.taskState.userMessageContent)
 	}
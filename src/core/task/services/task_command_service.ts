@@ -365,7 +365,10 @@ export class TaskCommandService {
 		}
 
 		if (completed) {
-			return [false, `Command executed.${result.length > 0 ? `\nOutput:\n${result}` : ""}`]
+			return [
+				false,
+				`Command executed.${this.describeCommandResult(process)}${result.length > 0 ? `\nOutput:\n${result}` : ""}`,
+			]
 		} else {
 			return [
 				false,
@@ -375,4 +378,16 @@ export class TaskCommandService {
 			]
 		}
 	}
+
+	/**
+	 * Exit code and working directory of a finished command, for terminals that report them
+	 */
+	private describeCommandResult(process: { exitCode?: number; cwd?: string }): string {
+		if (process.exitCode === undefined) {
+			return ""
+		}
+		const cwdNote =
+			process.cwd && process.cwd !== this.deps.cwd ? ` The terminal's working directory is now ${process.cwd}.` : ""
+		return ` Exit code: ${process.exitCode}.${cwdNote}`
+	}
 }
@@ -2,7 +2,7 @@ import { setTimeout as setTimeoutPromise } from "node:timers/promises"
 import { Anthropic } from "@anthropic-ai/sdk"
 import { getContextWindowInfo } from "@core/context/context-management/context_window_utils"
 import { FileContextTracker } from "@core/context/context-tracking"
-import { refreshAllToggles } from "@core/context/instructions/user-instructions/rule_loader"
+import { refreshWorkflowToggles } from "@core/context/instructions/user-instructions/rule_loader"
 import type { ClineIgnoreController } from "@core/ignore/ClineIgnoreController"
 import { parseMentionsInTags } from "@core/mentions"
 import { formatResponse } from "@core/prompts/response_formatters"
@@ -94,43 +94,60 @@ export class TaskContextBuilder {
 		includeFileDetails: boolean = false,
 		useCompactPrompt = false,
 	): Promise<[UserContent, string, boolean]> {
-		const allToggles = await refreshAllToggles(this.controller, this.cwd)
-		const { localWorkflows: localWorkflowToggles, globalWorkflows: globalWorkflowToggles } = allToggles
+		const { localWorkflows: localWorkflowToggles, globalWorkflows: globalWorkflowToggles } = await refreshWorkflowToggles(
+			this.controller,
+			this.cwd,
+		)
+
+		// Parse mentions and slash commands in user-generated content
+		// Only processes text within specific tags: <feedback>, <answer>, <task>, <user_message>
+		const processText = async (text: string): Promise<string> => {
+			// Check if this text contains user-generated content markers
+			if (
+				!text.includes("<feedback>") &&
+				!text.includes("<answer>") &&
+				!text.includes("<task>") &&
+				!text.includes("<user_message>")
+			) {
+				return text
+			}
+
+			// Parse @mentions (files, folders, URLs, problems, etc.)
+			const parsedText = await parseMentionsInTags(text, this.cwd, this.urlContentFetcher, this.fileContextTracker)
+
+			// Parse /slash commands (workflows, focus chain commands, MCP prompts)
+			const { processedText } = await parseSlashCommands(
+				parsedText,
+				localWorkflowToggles,
+				globalWorkflowToggles,
+				this.ulid,
+				this.stateManager.getGlobalSettingsKey("focusChainSettings"),
+				this.controller.mcpHub,
+			)
+			return processedText
+		}
 
 		const processUserContent = async () => {
-			// Parse mentions and slash commands in user-generated content
-			// Only processes text within specific tags: <feedback>, <answer>, <task>, <user_message>
 			return await Promise.all(
 				userContent.map(async (block) => {
 					if (block.type === "text") {
-						// Check if this block contains user-generated content markers
-						if (
-							block.text.includes("<feedback>") ||
-							block.text.includes("<answer>") ||
-							block.text.includes("<task>") ||
-							block.text.includes("<user_message>")
-						) {
-							// Parse @mentions (files, folders, URLs, problems, etc.)
-							const parsedText = await parseMentionsInTags(
-								block.text,
-								this.cwd,
-								this.urlContentFetcher,
-								this.fileContextTracker,
-							)
-
-							// Parse /slash commands (workflows, focus chain commands)
-							const { processedText } = await parseSlashCommands(
-								parsedText,
-								localWorkflowToggles,
-								globalWorkflowToggles,
-								this.ulid,
-								this.stateManager.getGlobalSettingsKey("focusChainSettings"),
-							)
-
-							return {
-								...block,
-								text: processedText,
-							}
+						return {
+							...block,
+							text: await processText(block.text),
+						}
+					}
+					// Native tool results carry the user's answers and feedback
+					if (block.type === "tool_result") {
+						return {
+							...block,
+							content:
+								typeof block.content === "string"
+									? await processText(block.content)
+									: await Promise.all(
+											(block.content ?? []).map(async (part) =>
+												part.type === "text" ? { ...part, text: await processText(part.text) } : part,
+											),
+										),
 						}
 					}
 					return block
@@ -2,6 +2,7 @@ import { Anthropic } from "@anthropic-ai/sdk"
 import type { ContextManager } from "@core/context/context-management/context_manager"
 import type { FileContextTracker } from "@core/context/context-tracking"
 import type { ClineIgnoreController } from "@core/ignore/ClineIgnoreController"
+import { releaseTaskLocks } from "@core/locks/session_locks"
 import { formatResponse } from "@core/prompts/response_formatters"
 import { ensureTaskDirectoryExists, getSavedApiConversationHistory, getSavedClineMessages } from "@core/storage/disk"
 import type { ICheckpointManager } from "@integrations/checkpoints/types"
@@ -18,6 +19,7 @@ import type { McpHub } from "@/services/mcp/McpHub"
 import type { FocusChainManager } from "../focus-chain"
 import type { MessageStateHandler } from "../message-state"
 import type { TaskState } from "../TaskState"
+import { ToolResultUtils } from "../tools/utils/ToolResultUtils"
 
 type UserContent = Array<Anthropic.ContentBlockParam>
 
@@ -37,6 +39,8 @@ type TaskLifecycleDependencies = {
 	cwd: string
 	taskState: TaskState
 	taskId: string
+	// Set when the task runs as a sub-agent of another task
+	parentTaskId?: string
 	fileContextTracker: FileContextTracker
 	contextManager: ContextManager
 	stateManager: StateManager
@@ -180,6 +184,9 @@ export class TaskLifecycleService {
 		await ensureTaskDirectoryExists(this.deps.taskId)
 		await this.deps.contextManager.initializeContextHistory(await ensureTaskDirectoryExists(this.deps.taskId))
 
+		// Pick the focus chain back up from disk so the next prompt says which item to resume from
+		await this.deps.focusChainManager?.restoreFromDisk()
+
 		const lastClineMessage = this.deps.messageStateHandler
 			.getClineMessages()
 			.slice()
@@ -234,7 +241,17 @@ export class TaskLifecycleService {
 			throw new Error("Unexpected: No existing API conversation history")
 		}
 
-		const newUserContent: UserContent = [...modifiedOldUserContent]
+		// Tool calls cut off by the interruption still need a result before the API accepts the turn
+		const lastAssistantMessage = modifiedApiConversationHistory.at(-1)
+		const pendingToolUseIds =
+			lastAssistantMessage?.role === "assistant" && Array.isArray(lastAssistantMessage.content)
+				? lastAssistantMessage.content.flatMap((block) => (block.type === "tool_use" ? [block.id] : []))
+				: []
+		const newUserContent: UserContent = ToolResultUtils.pairNativeToolResults(
+			pendingToolUseIds,
+			modifiedOldUserContent,
+			"(the task was interrupted before this tool finished)",
+		)
 
 		const agoText = (() => {
 			const timestamp = lastClineMessage?.ts ?? Date.now()
@@ -369,8 +386,9 @@ export class TaskLifecycleService {
 	 * - Closes browser and URL fetcher
 	 * - Disposes file context tracker
 	 * - Reverts any uncommitted changes
-	 * - Clears MCP notification callback
+	 * - Clears MCP notification callback (unless this is a sub-agent, which never set it)
 	 * - Disposes focus chain manager
+	 * - Releases file locks held by the task
 	 */
 	async abortTask(): Promise<void> {
 		// Check for incomplete progress before aborting
@@ -388,9 +406,12 @@ export class TaskLifecycleService {
 		// re-starting the task from a checkpoint
 		await this.deps.diffViewProvider.revertChanges()
 		// Clear the notification callback when task is aborted
-		this.deps.mcpHub.clearNotificationCallback()
+		if (!this.deps.parentTaskId) {
+			this.deps.mcpHub.clearNotificationCallback()
+		}
 		if (this.deps.focusChainManager) {
 			this.deps.focusChainManager.dispose()
 		}
+		releaseTaskLocks(this.deps.taskId)
 	}
 }
@@ -2,7 +2,17 @@ import { Anthropic } from "@anthropic-ai/sdk"
 import { formatResponse } from "@core/prompts/response_formatters"
 import { processFilesIntoText } from "@integrations/misc/extract-text"
 import { showSystemNotification } from "@integrations/notifications"
+import {
+	checkTaskBudget,
+	formatBudgetViolation,
+	getBudgetLimit,
+	getTaskBudgetUsage,
+	type TaskBudgetSettings,
+	type TaskBudgetUsage,
+	type TaskBudgetViolation,
+} from "@shared/TaskBudgetSettings"
 import type { StateManager } from "@/core/storage/StateManager"
+import type { MessageStateHandler } from "../message-state"
 import type { TaskState } from "../TaskState"
 import type { TaskMessageService } from "./task_message_service"
 
@@ -19,15 +29,18 @@ export interface LimitCheckResult {
 /**
  * Manages task execution limits and user intervention
  *
- * This service tracks and enforces limits on consecutive mistakes and
- * auto-approved requests. When limits are reached, it prompts the user
- * for feedback and allows them to provide guidance or continue the task.
+ * This service tracks and enforces limits on consecutive mistakes,
+ * auto-approved requests and the per-task budget. When limits are reached,
+ * it prompts the user for feedback and allows them to provide guidance or
+ * continue the task.
  *
  * Responsibilities:
  * - Track consecutive mistake count
  * - Track consecutive auto-approved request count
  * - Enforce mistake limit (3 consecutive mistakes)
  * - Enforce auto-approval limit (configurable per user)
+ * - Enforce cost, token and time budgets (soft limits ask, hard limits stop)
+ * - Stop the task when the hard time limit passes, even while a tool is running
  * - Show system notifications when limits reached
  * - Collect and format user feedback
  * - Reset counters after user intervention
@@ -40,17 +53,22 @@ export interface LimitCheckResult {
  * ```
  */
 export class TaskLimitManager {
+	private timeLimitTimer?: NodeJS.Timeout
+
 	constructor(
 		private readonly taskState: TaskState,
 		private readonly messageService: TaskMessageService,
 		private readonly stateManager: StateManager,
+		private readonly messageStateHandler: MessageStateHandler,
+		private readonly abortTask?: () => Promise<void>,
 	) {}
 
 	/**
 	 * Check limits before making API request
 	 *
-	 * Checks both mistake limit and auto-approval limit. If either limit
-	 * is reached, prompts the user for feedback and resets the counter.
+	 * Checks the task budget, mistake limit and auto-approval limit. If a
+	 * limit is reached, prompts the user for feedback and resets the counter.
+	 * A crossed hard budget limit stops the task.
 	 *
 	 * Returns updated user content if user provides feedback, allowing
 	 * the caller to proceed with the modified content.
@@ -59,27 +77,158 @@ export class TaskLimitManager {
 	 * @returns Promise<LimitCheckResult> - Whether to proceed and updated content
 	 */
 	async checkLimitsBeforeRequest(userContent: UserContent): Promise<LimitCheckResult> {
-		// Check mistake limit first
+		// Check budget first so a stopped task never asks about anything else
+		const budgetResult = await this.checkBudgetLimit(userContent)
+		if (!budgetResult.shouldProceed) {
+			return budgetResult
+		}
+
+		// Check mistake limit
 		const mistakeResult = await this.checkMistakeLimit(userContent)
 		if (!mistakeResult.shouldProceed) {
 			return mistakeResult
 		}
 
-		// If mistake limit provided new content, use it
-		if (mistakeResult.updatedUserContent) {
-			userContent = mistakeResult.updatedUserContent
-		}
-
 		// Check auto-approval limit
 		const autoApprovalResult = await this.checkAutoApprovalLimit(userContent)
 		if (!autoApprovalResult.shouldProceed) {
 			return autoApprovalResult
 		}
 
-		// Return final user content (might be updated from either check)
+		// Return final user content (might be updated from any check)
 		return {
 			shouldProceed: true,
-			updatedUserContent: autoApprovalResult.updatedUserContent || mistakeResult.updatedUserContent,
+			updatedUserContent:
+				autoApprovalResult.updatedUserContent || mistakeResult.updatedUserContent || budgetResult.updatedUserContent,
+		}
+	}
+
+	/**
+	 * Check if the task budget has been exceeded
+	 *
+	 * A crossed hard limit reports an error and stops the task. A crossed
+	 * soft limit asks the user whether to continue; once they agree, that
+	 * soft limit is not checked again for the rest of the session.
+	 *
+	 * @param userContent - Current user content
+	 * @returns Promise<LimitCheckResult>
+	 * @private
+	 */
+	private async checkBudgetLimit(_userContent: UserContent): Promise<LimitCheckResult> {
+		const budgetSettings = this.stateManager.getGlobalSettingsKey("taskBudgetSettings")
+		const usage = getTaskBudgetUsage(this.messageStateHandler.getClineMessages())
+		const violation = checkTaskBudget(budgetSettings, usage, this.taskState.acknowledgedSoftBudgetLimits)
+		if (!violation) {
+			this.scheduleTimeLimit(budgetSettings, usage)
+			return { shouldProceed: true }
+		}
+
+		if (violation.tier === "hard") {
+			await this.stopForHardLimit(violation)
+			return { shouldProceed: false }
+		}
+
+		this.notifyBudgetLimit(violation)
+
+		const { response, text, images, files } = await this.messageService.ask(
+			"budget_limit_reached",
+			`${formatBudgetViolation(violation)}. Would you like to continue the task?`,
+		)
+
+		if (response === "noButtonClicked") {
+			this.taskState.budgetExceeded = true
+			return { shouldProceed: false }
+		}
+
+		this.taskState.acknowledgedSoftBudgetLimits.push(violation.metric)
+		this.scheduleTimeLimit(budgetSettings, getTaskBudgetUsage(this.messageStateHandler.getClineMessages()))
+
+		if (response === "messageResponse") {
+			// Display the user's message in the chat UI
+			await this.messageService.say("user_feedback", text, images, files)
+
+			return {
+				shouldProceed: true,
+				updatedUserContent: await this.formatUserFeedback(text, images, files, "budgetLimitReached"),
+			}
+		}
+
+		return { shouldProceed: true }
+	}
+
+	/**
+	 * Report a crossed hard limit and mark the task as stopped
+	 *
+	 * @param violation - The crossed limit
+	 * @private
+	 */
+	private async stopForHardLimit(violation: TaskBudgetViolation): Promise<void> {
+		this.notifyBudgetLimit(violation)
+		await this.messageService.say("error", `${formatBudgetViolation(violation)}. The task has been stopped.`)
+		this.taskState.budgetExceeded = true
+	}
+
+	/**
+	 * Arm a timer for the hard time limit
+	 *
+	 * Requests are the only other place limits are checked, so without it a long-running
+	 * command could keep the task going well past its time limit. Re-armed before every
+	 * request, since the settings and the time the budget is measured from can change.
+	 *
+	 * @param budgetSettings - Current budget settings
+	 * @param usage - Current budget usage
+	 * @private
+	 */
+	private scheduleTimeLimit(budgetSettings: TaskBudgetSettings, usage: TaskBudgetUsage): void {
+		clearTimeout(this.timeLimitTimer)
+		this.timeLimitTimer = undefined
+
+		const limit = budgetSettings.enabled ? getBudgetLimit(budgetSettings.hard, "time") : undefined
+		if (limit === undefined || !this.abortTask) {
+			return
+		}
+
+		this.timeLimitTimer = setTimeout(() => void this.enforceTimeLimit(), (limit - usage.time) * 60_000)
+		// Don't keep the process alive just for the timer
+		this.timeLimitTimer.unref?.()
+	}
+
+	/**
+	 * Stop the task if a hard limit was crossed since the last request, or re-arm the timer
+	 *
+	 * @private
+	 */
+	private async enforceTimeLimit(): Promise<void> {
+		this.timeLimitTimer = undefined
+		if (this.taskState.abort || this.taskState.budgetExceeded) {
+			return
+		}
+
+		const budgetSettings = this.stateManager.getGlobalSettingsKey("taskBudgetSettings")
+		const usage = getTaskBudgetUsage(this.messageStateHandler.getClineMessages())
+		const violation = checkTaskBudget({ ...budgetSettings, soft: {} }, usage)
+		if (!violation) {
+			this.scheduleTimeLimit(budgetSettings, usage)
+			return
+		}
+
+		await this.stopForHardLimit(violation)
+		await this.abortTask?.()
+	}
+
+	/**
+	 * Show a system notification for a crossed budget limit (if enabled)
+	 *
+	 * @param violation - The crossed limit
+	 * @private
+	 */
+	private notifyBudgetLimit(violation: TaskBudgetViolation): void {
+		const autoApprovalSettings = this.stateManager.getGlobalSettingsKey("autoApprovalSettings")
+		if (autoApprovalSettings.enabled && autoApprovalSettings.enableNotifications) {
+			showSystemNotification({
+				subtitle: violation.tier === "hard" ? "Budget Exceeded" : "Budget Warning",
+				message: formatBudgetViolation(violation),
+			})
 		}
 	}
 
@@ -208,15 +357,12 @@ export class TaskLimitManager {
 		text?: string,
 		images?: string[],
 		files?: string[],
-		feedbackType: "tooManyMistakes" | "autoApprovalMaxReached" = "tooManyMistakes",
+		feedbackType: "tooManyMistakes" | "autoApprovalMaxReached" | "budgetLimitReached" = "tooManyMistakes",
 	): Promise<UserContent> {
 		const feedbackUserContent: UserContent = []
 
 		// Add formatted text based on feedback type
-		const formattedText =
-			feedbackType === "tooManyMistakes"
-				? formatResponse.tooManyMistakes(text)
-				: formatResponse.autoApprovalMaxReached(text)
+		const formattedText = formatResponse[feedbackType](text)
 
 		feedbackUserContent.push({
 			type: "text",
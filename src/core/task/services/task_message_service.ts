@@ -1,6 +1,7 @@
 import { sendPartialMessageEvent } from "@core/controller/ui/subscribeToPartialMessage"
 import { formatResponse } from "@core/prompts/response_formatters"
 import { ClineAsk, ClineSay } from "@shared/ExtensionMessage"
+import type { ClineMessage as ProtoClineMessage } from "@shared/proto/cline/ui"
 import { convertClineMessageToProto } from "@shared/proto-conversions/cline-message"
 import { ClineDefaultTool } from "@shared/tools"
 import { ClineAskResponse } from "@shared/WebviewMessage"
@@ -34,6 +35,7 @@ export class TaskMessageService {
 		private readonly taskState: TaskState,
 		private readonly messageStateHandler: MessageStateHandler,
 		private readonly postStateToWebview: () => Promise<void>,
+		private readonly publishPartialMessage: (message: ProtoClineMessage) => Promise<void> = sendPartialMessageEvent,
 	) {}
 
 	/**
@@ -85,7 +87,7 @@ export class TaskMessageService {
 						partial,
 					})
 					const protoMessage = convertClineMessageToProto(lastMessage)
-					await sendPartialMessageEvent(protoMessage)
+					await this.publishPartialMessage(protoMessage)
 					throw new Error("Current ask promise was ignored 1")
 				} else {
 					// Create new partial message
@@ -115,7 +117,7 @@ export class TaskMessageService {
 						partial: false,
 					})
 					const protoMessage = convertClineMessageToProto(lastMessage)
-					await sendPartialMessageEvent(protoMessage)
+					await this.publishPartialMessage(protoMessage)
 				} else {
 					// Check if we should convert a partial say message to a non-partial ask message
 					const canConvertPartialSayToAsk =
@@ -133,7 +135,7 @@ export class TaskMessageService {
 							partial: false,
 						})
 						const protoMessage = convertClineMessageToProto(lastMessage)
-						await sendPartialMessageEvent(protoMessage)
+						await this.publishPartialMessage(protoMessage)
 					} else {
 						// New non-partial message (not updating previous partial)
 						this.clearAskResponse()
@@ -274,7 +276,7 @@ export class TaskMessageService {
 					lastMessage.files = files
 					lastMessage.partial = partial
 					const protoMessage = convertClineMessageToProto(lastMessage)
-					await sendPartialMessageEvent(protoMessage)
+					await this.publishPartialMessage(protoMessage)
 					return undefined
 				} else {
 					// Create new partial message
@@ -305,7 +307,7 @@ export class TaskMessageService {
 					// Persist to disk and notify webview
 					await this.messageStateHandler.saveClineMessagesAndUpdateHistory()
 					const protoMessage = convertClineMessageToProto(lastMessage)
-					await sendPartialMessageEvent(protoMessage)
+					await this.publishPartialMessage(protoMessage)
 					return undefined
 				} else {
 					// New non-partial message (not updating previous partial)
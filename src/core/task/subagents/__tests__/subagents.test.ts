@@ -0,0 +1,277 @@
+import { COMMAND_REQ_APP_STRING } from "@shared/combineCommandSequences"
+import type { ClineMessage } from "@shared/ExtensionMessage"
+import { expect } from "chai"
+import { describe, it } from "mocha"
+import {
+	buildSubagentPrompt,
+	type ClineSubagent,
+	formatSubagentResults,
+	getSubagentFilesChanged,
+	MAX_SUBAGENTS,
+	parseSubagentSpecs,
+	resolveSubagentAsk,
+	SUBAGENT_FOLLOWUP_REPLY,
+	SubagentOrchestrator,
+	type SubagentTaskHandle,
+} from ".."
+
+const allowAll = () => true
+
+function ask(ts: number, type: ClineMessage["ask"], text?: string): ClineMessage {
+	return { ts, type: "ask", ask: type, text }
+}
+
+function say(ts: number, type: ClineMessage["say"], text?: string): ClineMessage {
+	return { ts, type: "say", say: type, text }
+}
+
+/**
+ * A child task that plays back a script: each ask appears once the previous one is answered
+ */
+class FakeSubagentTask implements SubagentTaskHandle {
+	readonly responses: Array<{ response: string; text?: string }> = []
+	aborted = false
+	private messages: ClineMessage[] = []
+
+	constructor(
+		readonly taskId: string,
+		private script: ClineMessage[],
+	) {
+		this.advance()
+	}
+
+	getMessages(): ClineMessage[] {
+		return this.messages
+	}
+
+	isAborted(): boolean {
+		return this.aborted
+	}
+
+	async respond(response: string, text?: string): Promise<void> {
+		this.responses.push({ response, text })
+		this.advance()
+	}
+
+	async abort(): Promise<void> {
+		this.aborted = true
+	}
+
+	private advance(): void {
+		while (this.script.length > 0) {
+			const next = this.script.shift()!
+			this.messages = [...this.messages, next]
+			if (next.type === "ask") {
+				return
+			}
+		}
+	}
+}
+
+describe("Sub-agents", () => {
+	describe("parseSubagentSpecs", () => {
+		it("should accept a JSON array of strings and objects", () => {
+			const specs = parseSubagentSpecs(
+				'["Add the settings page\\nwith a form", {"title": "API", "task": "Add the settings endpoint"}]',
+			)
+
+			expect(specs).to.deep.equal([
+				{ title: "Add the settings page", task: "Add the settings page\nwith a form" },
+				{ title: "API", task: "Add the settings endpoint" },
+			])
+		})
+
+		it("should fall back to a markdown list", () => {
+			const specs = parseSubagentSpecs("- Write the migration\n2. Update the docs")
+
+			expect(specs.map((spec) => spec.task)).to.deep.equal(["Write the migration", "Update the docs"])
+		})
+
+		it("should reject empty, malformed and oversized lists", () => {
+			expect(() => parseSubagentSpecs("[]")).to.throw("at least one subtask")
+			expect(() => parseSubagentSpecs("just some prose")).to.throw("JSON array")
+			expect(() => parseSubagentSpecs('[{"title": "No task"}]')).to.throw("Subtask 1")
+			const tooMany = JSON.stringify(Array.from({ length: MAX_SUBAGENTS + 1 }, (_, index) => `Task ${index}`))
+			expect(() => parseSubagentSpecs(tooMany)).to.throw(`At most ${MAX_SUBAGENTS}`)
+		})
+	})
+
+	describe("buildSubagentPrompt", () => {
+		it("should include the background, the assignment and the other assignments", () => {
+			const specs = parseSubagentSpecs('["Frontend", "Backend"]')
+
+			const prompt = buildSubagentPrompt("We are adding settings.", specs, 1)
+
+			expect(prompt).to.include("sub-agent 2 of 2")
+			expect(prompt).to.include("<background>\nWe are adding settings.\n</background>")
+			expect(prompt).to.include('<assignment title="Backend">\nBackend\n</assignment>')
+			expect(prompt).to.include("<other_assignments>\n- Frontend\n</other_assignments>")
+		})
+	})
+
+	describe("resolveSubagentAsk", () => {
+		it("should approve workspace tools and refuse ones outside the workspace", () => {
+			const inside = ask(1, "tool", JSON.stringify({ tool: "readFile", path: "a.ts", operationIsLocatedInWorkspace: true }))
+			const outside = ask(
+				2,
+				"tool",
+				JSON.stringify({ tool: "readFile", path: "/etc/x", operationIsLocatedInWorkspace: false }),
+			)
+
+			expect(resolveSubagentAsk(inside, allowAll)).to.deep.equal({ action: "approve" })
+			expect(resolveSubagentAsk(outside, allowAll).action).to.equal("reject")
+		})
+
+		it("should only approve commands the parent would auto-approve", () => {
+			const checked: [string, boolean][] = []
+			const isCommandAllowed = (command: string, requiresApproval: boolean) => {
+				checked.push([command, requiresApproval])
+				return !requiresApproval
+			}
+
+			const safe = resolveSubagentAsk(ask(1, "command", "npm test"), isCommandAllowed)
+			const risky = resolveSubagentAsk(ask(2, "command", `rm -rf build${COMMAND_REQ_APP_STRING}`), isCommandAllowed)
+
+			expect(safe.action).to.equal("approve")
+			expect(risky.action).to.equal("reject")
+			expect(checked).to.deep.equal([
+				["npm test", false],
+				["rm -rf build", true],
+			])
+		})
+
+		it("should answer questions itself and finish on completion or limits", () => {
+			expect(resolveSubagentAsk(ask(1, "followup", "Which?"), allowAll)).to.deep.equal({
+				action: "reply",
+				text: SUBAGENT_FOLLOWUP_REPLY,
+			})
+			expect(resolveSubagentAsk(ask(2, "completion_result"), allowAll)).to.deep.equal({
+				action: "finish",
+				status: "completed",
+			})
+			expect(resolveSubagentAsk(ask(3, "mistake_limit_reached"), allowAll)).to.include({
+				action: "finish",
+				status: "failed",
+			})
+			expect(resolveSubagentAsk(ask(4, "use_mcp_server"), allowAll).action).to.equal("reject")
+		})
+	})
+
+	describe("getSubagentFilesChanged", () => {
+		it("should list edited and created files, skipping refused edits", () => {
+			const messages = [
+				say(1, "tool", JSON.stringify({ tool: "editedExistingFile", path: "a.ts, b.ts" })),
+				ask(2, "tool", JSON.stringify({ tool: "newFileCreated", path: "c.ts" })),
+				ask(3, "tool", JSON.stringify({ tool: "editedExistingFile", path: "refused.ts" })),
+				say(4, "tool", JSON.stringify({ tool: "readFile", path: "d.ts" })),
+			]
+
+			expect(getSubagentFilesChanged(messages, new Set([3]))).to.deep.equal(["a.ts", "b.ts", "c.ts"])
+		})
+	})
+
+	describe("formatSubagentResults", () => {
+		it("should summarize each sub-agent's outcome", () => {
+			const subagents: ClineSubagent[] = [
+				{ index: 0, title: 'Say "hi"', status: "completed", taskId: "1", result: "Done", filesChanged: ["a.ts"] },
+				{ index: 1, title: "Other", status: "failed", error: "Boom" },
+			]
+
+			const result = formatSubagentResults(subagents)
+
+			expect(result).to.include("All 2 sub-agents have finished (1 completed, 1 failed)")
+			expect(result).to.include(
+				`<subagent index="1" title="Say 'hi'" status="completed" task_id="1">\n<result>\nDone\n</result>\n<files_changed>\na.ts\n</files_changed>\n</subagent>`,
+			)
+			expect(result).to.include('<subagent index="2" title="Other" status="failed">\n<error>\nBoom\n</error>\n</subagent>')
+		})
+	})
+
+	describe("SubagentOrchestrator", () => {
+		it("should run sub-agents with limited concurrency and abort every task", async () => {
+			const tasks: FakeSubagentTask[] = []
+			let running = 0
+			let maxRunning = 0
+			const specs = parseSubagentSpecs('["One", "Two", "Three"]')
+
+			const orchestrator = new SubagentOrchestrator(specs, {
+				createTask: async (prompt) => {
+					running++
+					maxRunning = Math.max(maxRunning, running)
+					const script =
+						prompt === "Two"
+							? [ask(1, "mistake_limit_reached")]
+							: [
+									ask(1, "tool", JSON.stringify({ tool: "newFileCreated", path: `${prompt}.ts` })),
+									say(2, "completion_result", `${prompt} done`),
+									ask(3, "completion_result"),
+								]
+					const task = new FakeSubagentTask(String(tasks.length + 1), script)
+					const abort = task.abort.bind(task)
+					task.abort = async () => {
+						running--
+						await abort()
+					}
+					tasks.push(task)
+					return task
+				},
+				buildPrompt: (index) => specs[index].task,
+				onUpdate: () => {},
+				isCancelled: () => false,
+				isCommandAllowed: allowAll,
+				concurrency: 2,
+				pollIntervalMs: 1,
+			})
+
+			const subagents = await orchestrator.run()
+
+			expect(maxRunning).to.equal(2)
+			expect(tasks.every((task) => task.aborted)).to.equal(true)
+			expect(subagents.map((subagent) => subagent.status)).to.deep.equal(["completed", "failed", "completed"])
+			expect(subagents[0]).to.include({ result: "One done" })
+			expect(subagents[0].filesChanged).to.deep.equal(["One.ts"])
+			expect(subagents[1].error).to.include("too many consecutive mistakes")
+		})
+
+		it("should cancel running and queued sub-agents once cancelled", async () => {
+			let cancelled = false
+			const updates: ClineSubagent[][] = []
+			const orchestrator = new SubagentOrchestrator(parseSubagentSpecs('["One", "Two"]'), {
+				createTask: async () => {
+					cancelled = true
+					return new FakeSubagentTask("1", [say(1, "text", "Thinking")])
+				},
+				buildPrompt: () => "",
+				onUpdate: (subagents) => {
+					updates.push(subagents)
+				},
+				isCancelled: () => cancelled,
+				isCommandAllowed: allowAll,
+				concurrency: 1,
+				pollIntervalMs: 1,
+			})
+
+			const subagents = await orchestrator.run()
+
+			expect(subagents.map((subagent) => subagent.status)).to.deep.equal(["cancelled", "cancelled"])
+			expect(subagents[1].error).to.equal("Cancelled before it started")
+			expect(updates[0][0].status).to.equal("running")
+		})
+
+		it("should mark a sub-agent failed when its task can't be started", async () => {
+			const orchestrator = new SubagentOrchestrator(parseSubagentSpecs('["One"]'), {
+				createTask: async () => {
+					throw new Error("No slots")
+				},
+				buildPrompt: () => "",
+				onUpdate: () => {},
+				isCancelled: () => false,
+				isCommandAllowed: allowAll,
+			})
+
+			const [subagent] = await orchestrator.run()
+
+			expect(subagent).to.include({ status: "failed", error: "No slots" })
+		})
+	})
+})
@@ -0,0 +1,227 @@
+import { setTimeout as setTimeoutPromise } from "node:timers/promises"
+import { findLast } from "@shared/array"
+import { COMMAND_REQ_APP_STRING } from "@shared/combineCommandSequences"
+import { type ClineMessage, type ClineSayTool, COMPLETION_RESULT_CHANGES_FLAG } from "@shared/ExtensionMessage"
+import { getApiMetrics } from "@shared/getApiMetrics"
+import type { SubagentAskAction, SubagentOutcome, SubagentTaskHandle } from "./types"
+
+const DEFAULT_POLL_INTERVAL_MS = 500
+const DEFAULT_MAX_API_RETRIES = 3
+const MAX_ACTIVITY_LENGTH = 80
+
+export const SUBAGENT_FOLLOWUP_REPLY =
+	"You are running as a sub-agent and nobody is available to answer. Make the most reasonable choice yourself and mention it in your completion result, or finish with attempt_completion and explain what you need."
+
+export interface SubagentDriverOptions {
+	/** Whether a command the sub-agent asks to run may go ahead, given whether the model flagged it as needing approval */
+	isCommandAllowed: (command: string, requiresApproval: boolean) => boolean
+	/** Checked on every poll; the sub-agent is stopped once it returns true */
+	isCancelled: () => boolean
+	/** Called whenever what the sub-agent is doing changes */
+	onActivity?: (activity: string) => void
+	pollIntervalMs?: number
+	maxApiRetries?: number
+}
+
+/**
+ * Decide how to answer an ask from a sub-agent. Pure so the policy can be tested in isolation.
+ *
+ * Approving the fan-out approves the sub-agents' work inside the workspace, so in-workspace
+ * tools go ahead. Commands get no more than the parent task would auto-approve. Anything that
+ * reaches outside the workspace or needs a person is refused with an explanation the sub-agent
+ * can act on.
+ */
+export function resolveSubagentAsk(
+	message: ClineMessage,
+	isCommandAllowed: SubagentDriverOptions["isCommandAllowed"],
+): SubagentAskAction {
+	switch (message.ask) {
+		case "completion_result":
+			return { action: "finish", status: "completed" }
+		case "mistake_limit_reached":
+			return { action: "finish", status: "failed", error: "Stopped after too many consecutive mistakes" }
+		case "budget_limit_reached":
+			return { action: "finish", status: "failed", error: "Reached the task budget limit" }
+		case "auto_approval_max_req_reached":
+			return { action: "finish", status: "failed", error: "Reached the limit of auto-approved requests" }
+		case "api_req_failed":
+			return { action: "approve" }
+		case "followup":
+		case "plan_mode_respond":
+			return { action: "reply", text: SUBAGENT_FOLLOWUP_REPLY }
+		case "tool": {
+			const tool = parseTool(message.text)
+			return tool?.operationIsLocatedInWorkspace === false
+				? { action: "reject", text: "Sub-agents can only work on files inside the workspace." }
+				: { action: "approve" }
+		}
+		case "command": {
+			const text = message.text ?? ""
+			return isCommandAllowed(stripApprovalFlag(text), text.endsWith(COMMAND_REQ_APP_STRING))
+				? { action: "approve" }
+				: {
+						action: "reject",
+						text: "This command needs the user's approval, which sub-agents can't get. Do without it, or report in your completion result that it needs to be run.",
+					}
+		}
+		default:
+			return { action: "reject", text: "Sub-agents can't do this. Report what you need in your completion result." }
+	}
+}
+
+/**
+ * A short description of what the sub-agent is doing, from its latest message
+ */
+export function describeSubagentActivity(messages: ClineMessage[]): string | undefined {
+	const last = messages.at(-1)
+	switch (last?.type === "ask" ? last.ask : last?.say) {
+		case "tool": {
+			const tool = parseTool(last?.text)
+			return tool ? truncate(describeTool(tool)) : undefined
+		}
+		case "command":
+			return truncate(`Running ${stripApprovalFlag(last?.text ?? "")}`)
+		case "command_output":
+			return "Running a command"
+		case "api_req_started":
+		case "reasoning":
+		case "text":
+			return "Thinking"
+		case "completion_result":
+			return "Finishing up"
+		default:
+			return undefined
+	}
+}
+
+/**
+ * Files the sub-agent created or edited, skipping edits that were refused
+ */
+export function getSubagentFilesChanged(messages: ClineMessage[], refusedAsks: ReadonlySet<number> = new Set()): string[] {
+	const files = new Set<string>()
+	for (const message of messages) {
+		if (message.partial || refusedAsks.has(message.ts) || (message.say !== "tool" && message.ask !== "tool")) {
+			continue
+		}
+		const tool = parseTool(message.text)
+		if (tool?.path && (tool.tool === "editedExistingFile" || tool.tool === "newFileCreated")) {
+			// Patches that touch several files list them comma-separated
+			for (const path of tool.path.split(", ")) {
+				files.add(path)
+			}
+		}
+	}
+	return [...files]
+}
+
+/**
+ * Answer a sub-agent's asks until it completes, fails or is cancelled
+ *
+ * The caller owns the task and must abort it afterwards; a completed sub-agent is left
+ * waiting on its completion ask.
+ */
+export async function driveSubagent(handle: SubagentTaskHandle, options: SubagentDriverOptions): Promise<SubagentOutcome> {
+	const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS
+	const maxApiRetries = options.maxApiRetries ?? DEFAULT_MAX_API_RETRIES
+	const handledAsks = new Set<number>()
+	const refusedAsks = new Set<number>()
+	let apiRetries = 0
+	let activity: string | undefined
+
+	const finish = (status: SubagentOutcome["status"], details: { result?: string; error?: string } = {}): SubagentOutcome => {
+		const messages = handle.getMessages()
+		return {
+			status,
+			...details,
+			filesChanged: getSubagentFilesChanged(messages, refusedAsks),
+			cost: getApiMetrics(messages).totalCost,
+		}
+	}
+
+	while (true) {
+		if (options.isCancelled()) {
+			return finish("cancelled", { error: "Cancelled before it finished" })
+		}
+
+		const messages = handle.getMessages()
+		const nextActivity = describeSubagentActivity(messages)
+		if (nextActivity && nextActivity !== activity) {
+			activity = nextActivity
+			options.onActivity?.(activity)
+		}
+
+		const last = messages.at(-1)
+		if (last?.type === "ask" && last.ask && !last.partial && !handledAsks.has(last.ts)) {
+			handledAsks.add(last.ts)
+			let decision = resolveSubagentAsk(last, options.isCommandAllowed)
+			if (last.ask === "api_req_failed" && ++apiRetries > maxApiRetries) {
+				decision = { action: "finish", status: "failed", error: last.text || "API request failed" }
+			}
+
+			switch (decision.action) {
+				case "finish":
+					return decision.status === "completed"
+						? finish("completed", { result: getCompletionResult(messages) })
+						: finish("failed", { error: decision.error })
+				case "approve":
+					await handle.respond("yesButtonClicked")
+					break
+				case "reject":
+					refusedAsks.add(last.ts)
+					await handle.respond("noButtonClicked", decision.text)
+					break
+				case "reply":
+					await handle.respond("messageResponse", decision.text)
+					break
+			}
+		} else if (handle.isAborted()) {
+			return finish("failed", { error: "Stopped before completing its assignment" })
+		}
+
+		await setTimeoutPromise(pollIntervalMs)
+	}
+}
+
+function getCompletionResult(messages: ClineMessage[]): string | undefined {
+	const text = findLast(messages, (message) => message.say === "completion_result" && !!message.text)?.text
+	return text?.endsWith(COMPLETION_RESULT_CHANGES_FLAG) ? text.slice(0, -COMPLETION_RESULT_CHANGES_FLAG.length) : text
+}
+
+function describeTool(tool: ClineSayTool): string {
+	switch (tool.tool) {
+		case "editedExistingFile":
+			return `Editing ${tool.path}`
+		case "newFileCreated":
+			return `Creating ${tool.path}`
+		case "readFile":
+			return `Reading ${tool.path}`
+		case "listFilesTopLevel":
+		case "listFilesRecursive":
+			return `Listing ${tool.path}`
+		case "listCodeDefinitionNames":
+			return `Scanning ${tool.path}`
+		case "searchFiles":
+			return `Searching for ${tool.regex}`
+		case "webFetch":
+			return "Fetching a web page"
+		default:
+			return "Using tools"
+	}
+}
+
+function parseTool(text: string | undefined): ClineSayTool | undefined {
+	try {
+		const parsed = JSON.parse(text ?? "")
+		return parsed && typeof parsed === "object" && typeof parsed.tool === "string" ? parsed : undefined
+	} catch {
+		return undefined
+	}
+}
+
+function stripApprovalFlag(command: string): string {
+	return command.endsWith(COMMAND_REQ_APP_STRING) ? command.slice(0, -COMMAND_REQ_APP_STRING.length) : command
+}
+
+function truncate(text: string): string {
+	return text.length > MAX_ACTIVITY_LENGTH ? `${text.slice(0, MAX_ACTIVITY_LENGTH - 1)}…` : text
+}
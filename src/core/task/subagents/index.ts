@@ -0,0 +1,106 @@
+import { driveSubagent, type SubagentDriverOptions } from "./driver"
+import type { ClineSubagent, SubagentSpec, SubagentTaskFactory, SubagentTaskHandle } from "./types"
+
+export * from "./driver"
+export * from "./types"
+export * from "./utils"
+
+export const DEFAULT_SUBAGENT_CONCURRENCY = 3
+
+export interface SubagentOrchestratorOptions {
+	/** Starts a child task for a sub-agent's prompt */
+	createTask: SubagentTaskFactory
+	/** Builds the prompt for the sub-agent at the given index */
+	buildPrompt: (index: number) => string
+	/** Called with a snapshot of every sub-agent whenever one of them changes */
+	onUpdate: (subagents: ClineSubagent[]) => void | Promise<void>
+	/** Checked before starting each sub-agent and on every poll of a running one */
+	isCancelled: () => boolean
+	isCommandAllowed: SubagentDriverOptions["isCommandAllowed"]
+	concurrency?: number
+	pollIntervalMs?: number
+	now?: () => number
+}
+
+/**
+ * Runs sub-agents side by side, a few at a time, and collects what each one reports back
+ *
+ * Each sub-agent is a separate task with its own context and file locks. The orchestrator
+ * starts them as slots free up, drives each to completion and aborts the task afterwards, so
+ * nothing is left running whichever way it ended.
+ *
+ * Checkpoints are not isolated: every task in a workspace commits to the same shadow git repo
+ * and a checkpoint snapshots the whole workspace, so restoring one sub-agent's checkpoint also
+ * rolls back whatever its siblings (and the parent) changed since.
+ */
+export class SubagentOrchestrator {
+	private subagents: ClineSubagent[]
+
+	constructor(
+		specs: SubagentSpec[],
+		private options: SubagentOrchestratorOptions,
+	) {
+		this.subagents = specs.map((spec, index) => ({ index, title: spec.title, status: "queued" }))
+	}
+
+	/**
+	 * A copy of the current state of every sub-agent
+	 */
+	getSubagents(): ClineSubagent[] {
+		return this.subagents.map((subagent) => ({ ...subagent }))
+	}
+
+	/**
+	 * Run every sub-agent and resolve once all of them have finished
+	 */
+	async run(): Promise<ClineSubagent[]> {
+		let next = 0
+		const worker = async () => {
+			while (next < this.subagents.length) {
+				await this.runSubagent(next++)
+			}
+		}
+		const concurrency = Math.max(1, this.options.concurrency ?? DEFAULT_SUBAGENT_CONCURRENCY)
+		await Promise.all(Array.from({ length: Math.min(concurrency, this.subagents.length) }, worker))
+		return this.getSubagents()
+	}
+
+	private async runSubagent(index: number): Promise<void> {
+		const now = this.options.now ?? Date.now
+		if (this.options.isCancelled()) {
+			await this.update(index, { status: "cancelled", error: "Cancelled before it started" })
+			return
+		}
+
+		await this.update(index, { status: "running", startedAt: now() })
+		let handle: SubagentTaskHandle | undefined
+		try {
+			handle = await this.options.createTask(this.options.buildPrompt(index))
+			await this.update(index, { taskId: handle.taskId })
+
+			const outcome = await driveSubagent(handle, {
+				isCommandAllowed: this.options.isCommandAllowed,
+				isCancelled: this.options.isCancelled,
+				onActivity: (activity) => {
+					this.update(index, { activity }).catch(() => {})
+				},
+				pollIntervalMs: this.options.pollIntervalMs,
+			})
+			await this.update(index, { ...outcome, activity: undefined, finishedAt: now() })
+		} catch (error) {
+			await this.update(index, {
+				status: "failed",
+				error: error instanceof Error ? error.message : String(error),
+				activity: undefined,
+				finishedAt: now(),
+			})
+		} finally {
+			await handle?.abort().catch(() => {})
+		}
+	}
+
+	private async update(index: number, changes: Partial<ClineSubagent>): Promise<void> {
+		this.subagents[index] = { ...this.subagents[index], ...changes }
+		await this.options.onUpdate(this.getSubagents())
+	}
+}
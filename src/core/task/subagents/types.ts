@@ -0,0 +1,48 @@
+import type { ClineMessage, ClineSubagent, ClineSubagentStatus } from "@shared/ExtensionMessage"
+import type { ClineAskResponse } from "@shared/WebviewMessage"
+
+export type { ClineSubagent, ClineSubagentStatus }
+
+/**
+ * One unit of work handed to a sub-agent
+ */
+export interface SubagentSpec {
+	title: string
+	task: string
+}
+
+/**
+ * The parts of a running child task the driver needs, so it can be tested without a real Task
+ */
+export interface SubagentTaskHandle {
+	readonly taskId: string
+	getMessages(): ClineMessage[]
+	isAborted(): boolean
+	respond(response: ClineAskResponse, text?: string): Promise<void>
+	abort(): Promise<void>
+}
+
+/**
+ * Starts a child task for the given prompt
+ */
+export type SubagentTaskFactory = (prompt: string) => Promise<SubagentTaskHandle>
+
+/**
+ * How the driver answers an ask from a sub-agent
+ */
+export type SubagentAskAction =
+	| { action: "approve" }
+	| { action: "reject"; text: string }
+	| { action: "reply"; text: string }
+	| { action: "finish"; status: "completed" | "failed"; error?: string }
+
+/**
+ * How a sub-agent ended up, with what it reported back
+ */
+export interface SubagentOutcome {
+	status: Exclude<ClineSubagentStatus, "queued" | "running">
+	result?: string
+	error?: string
+	filesChanged: string[]
+	cost: number
+}
@@ -0,0 +1,118 @@
+import type { ClineSubagent, SubagentSpec } from "./types"
+
+export const MAX_SUBAGENTS = 8
+
+const MAX_TITLE_LENGTH = 60
+const LIST_ITEM_REGEX = /^\s*(?:[-*]|\d+[.)])\s+(.*)$/
+
+/**
+ * Parse the subtasks parameter of new_task
+ *
+ * Accepts a JSON array whose entries are strings or {"title", "task"} objects, or a markdown
+ * list with one subtask per item. Throws with a message meant for the model when the value
+ * can't be used.
+ */
+export function parseSubagentSpecs(raw: string): SubagentSpec[] {
+	const entries = parseEntries(raw.trim())
+	if (entries.length === 0) {
+		throw new Error("subtasks must list at least one subtask.")
+	}
+	if (entries.length > MAX_SUBAGENTS) {
+		throw new Error(`At most ${MAX_SUBAGENTS} subtasks can run at once, but ${entries.length} were given.`)
+	}
+
+	return entries.map((entry, index) => {
+		if (typeof entry === "string" && entry.trim()) {
+			return { title: titleFromTask(entry), task: entry.trim() }
+		}
+		if (entry && typeof entry === "object") {
+			const { title, task } = entry as { title?: unknown; task?: unknown }
+			if (typeof task === "string" && task.trim()) {
+				const explicitTitle = typeof title === "string" && title.trim() ? title.trim() : undefined
+				return { title: explicitTitle ?? titleFromTask(task), task: task.trim() }
+			}
+		}
+		throw new Error(`Subtask ${index + 1} must be a non-empty string or an object with a "task" string.`)
+	})
+}
+
+/**
+ * The first message of a sub-agent: the shared background, its own assignment and what
+ * the other sub-agents are doing, so it stays out of their way
+ */
+export function buildSubagentPrompt(context: string, specs: SubagentSpec[], index: number): string {
+	const spec = specs[index]
+	const others = specs
+		.map((other, otherIndex) => (otherIndex === index ? undefined : `- ${other.title}`))
+		.filter((line): line is string => line !== undefined)
+
+	const sections = [
+		`You are sub-agent ${index + 1} of ${specs.length}, working on one part of a larger task. The other sub-agents are working at the same time, so stay within your assignment and don't edit files that belong to theirs.`,
+		`<background>\n${context}\n</background>`,
+		`<assignment title="${quoteAttribute(spec.title)}">\n${spec.task}\n</assignment>`,
+	]
+	if (others.length > 0) {
+		sections.push(`<other_assignments>\n${others.join("\n")}\n</other_assignments>`)
+	}
+	sections.push(
+		"Nobody is available to answer questions while you work, so make reasonable decisions on your own. When you're done, use attempt_completion to report what you changed and anything the parent task needs to know.",
+	)
+	return sections.join("\n\n")
+}
+
+/**
+ * The tool result the parent task receives once every sub-agent has finished
+ */
+export function formatSubagentResults(subagents: ClineSubagent[]): string {
+	const counts = new Map<string, number>()
+	for (const subagent of subagents) {
+		counts.set(subagent.status, (counts.get(subagent.status) ?? 0) + 1)
+	}
+	const summary = [...counts.entries()].map(([status, count]) => `${count} ${status}`).join(", ")
+
+	const blocks = subagents.map((subagent) => {
+		const attributes = [
+			`index="${subagent.index + 1}"`,
+			`title="${quoteAttribute(subagent.title)}"`,
+			`status="${subagent.status}"`,
+			subagent.taskId ? `task_id="${subagent.taskId}"` : undefined,
+		]
+			.filter(Boolean)
+			.join(" ")
+		const sections = [
+			subagent.result ? `<result>\n${subagent.result}\n</result>` : undefined,
+			subagent.error ? `<error>\n${subagent.error}\n</error>` : undefined,
+			subagent.filesChanged?.length ? `<files_changed>\n${subagent.filesChanged.join("\n")}\n</files_changed>` : undefined,
+		].filter(Boolean)
+		return `<subagent ${attributes}>\n${sections.join("\n")}\n</subagent>`
+	})
+
+	return `All ${subagents.length} sub-agents have finished (${summary}). Review their results, then continue with the task, redoing or fixing any subtask that did not complete.\n\n${blocks.join("\n\n")}`
+}
+
+function parseEntries(raw: string): unknown[] {
+	try {
+		const parsed = JSON.parse(raw)
+		if (Array.isArray(parsed)) {
+			return parsed
+		}
+	} catch {
+		// Not JSON; fall back to a markdown list below
+	}
+
+	const lines = raw.split("\n").filter((line) => line.trim())
+	const items = lines.map((line) => LIST_ITEM_REGEX.exec(line)?.[1])
+	if (items.length > 0 && items.every((item) => item !== undefined)) {
+		return items
+	}
+	throw new Error('subtasks must be a JSON array of strings or {"title": "...", "task": "..."} objects.')
+}
+
+function quoteAttribute(value: string): string {
+	return value.replace(/"/g, "'")
+}
+
+function titleFromTask(task: string): string {
+	const firstLine = task.trim().split("\n")[0]
+	return firstLine.length > MAX_TITLE_LENGTH ? `${firstLine.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : firstLine
+}
@@ -3,7 +3,9 @@ import { isMultiRootEnabled } from "@core/workspace/multi-root-utils"
 import { ClineDefaultTool } from "@shared/tools"
 import { StateManager } from "@/core/storage/StateManager"
 import { HostProvider } from "@/hosts/host-provider"
+import { DEFAULT_COMMAND_POLICY } from "@/shared/AutoApprovalSettings"
 import { getCwd, getDesktopDir, isLocatedInPath, isLocatedInWorkspace } from "@/utils/path"
+import { CommandPolicyResult, CommandPolicyUtils } from "./utils/CommandPolicyUtils"
 
 export class AutoApprove {
 	private stateManager: StateManager
@@ -50,6 +52,7 @@ export class AutoApprove {
 				case ClineDefaultTool.NEW_RULE:
 				case ClineDefaultTool.FILE_NEW:
 				case ClineDefaultTool.FILE_EDIT:
+				case ClineDefaultTool.APPLY_PATCH:
 				case ClineDefaultTool.BASH:
 					return [true, true]
 
@@ -73,6 +76,7 @@ export class AutoApprove {
 				case ClineDefaultTool.NEW_RULE:
 				case ClineDefaultTool.FILE_NEW:
 				case ClineDefaultTool.FILE_EDIT:
+				case ClineDefaultTool.APPLY_PATCH:
 					return [autoApprovalSettings.actions.editFiles, autoApprovalSettings.actions.editFilesExternally ?? false]
 				case ClineDefaultTool.BASH:
 					return [
@@ -138,4 +142,29 @@ export class AutoApprove {
 			return false
 		}
 	}
+
+	// Evaluate a command against the user's allow/deny policy, merged with any
+	// override for the current workspace. A "deny" result must never be auto-approved,
+	// even in YOLO mode or when the model claims the command is safe.
+	evaluateCommandPolicy(command: string): CommandPolicyResult {
+		const autoApprovalSettings = this.stateManager.getGlobalSettingsKey("autoApprovalSettings")
+		const policy = CommandPolicyUtils.merge(
+			autoApprovalSettings.commandPolicy ?? DEFAULT_COMMAND_POLICY,
+			this.stateManager.getWorkspaceStateKey("workspaceCommandPolicy"),
+		)
+		return CommandPolicyUtils.evaluate(command, policy)
+	}
+
+	// Whether a command runs without asking: the policy doesn't deny it and the auto-approve
+	// settings cover it, with the policy overriding the model's requires_approval claim.
+	// Doesn't account for the sandbox, which only runs commands approved this way.
+	shouldAutoApproveCommand(command: string, requiresApprovalPerLLM: boolean): boolean {
+		const autoApproveResult = this.shouldAutoApproveTool(ClineDefaultTool.BASH)
+		const [autoApproveSafe, autoApproveAll] = Array.isArray(autoApproveResult)
+			? autoApproveResult
+			: [autoApproveResult, false]
+		const { decision } = this.evaluateCommandPolicy(command)
+		const requiresApproval = decision === "deny" || (requiresApprovalPerLLM && decision !== "allow")
+		return decision !== "deny" && autoApproveSafe && (!requiresApproval || autoApproveAll)
+	}
 }
@@ -1,5 +1,6 @@
 import type { ToolUse } from "@core/assistant-message"
 import { formatResponse } from "@core/prompts/response_formatters"
+import { expandResourceTemplate, isResourceTemplate } from "@services/mcp/resource_templates"
 import { ClineAsk, ClineAskUseMcpServer } from "@shared/ExtensionMessage"
 import { ClineDefaultTool } from "@/shared/tools"
 import type { ToolResponse } from "../../index"
@@ -42,7 +43,8 @@ export class AccessMcpResourceHandler implements IFullyManagedTool {
 
 	async execute(config: TaskConfig, block: ToolUse): Promise<ToolResponse> {
 		const server_name: string | undefined = block.params.server_name
-		const uri: string | undefined = block.params.uri
+		let uri: string | undefined = block.params.uri
+		const template_arguments: string | undefined = block.params.arguments
 
 		// Validate required parameters
 		if (!server_name) {
@@ -55,6 +57,22 @@ export class AccessMcpResourceHandler implements IFullyManagedTool {
 			return await config.callbacks.sayAndCreateMissingParamError(ClineDefaultTool.MCP_ACCESS, "uri")
 		}
 
+		// Fill in a resource template with the given arguments to get the URI to read
+		if (isResourceTemplate(uri)) {
+			try {
+				const variables = template_arguments ? JSON.parse(template_arguments) : {}
+				if (typeof variables !== "object" || variables === null || Array.isArray(variables)) {
+					throw new Error("arguments must be a JSON object mapping the template's variables to values")
+				}
+				uri = expandResourceTemplate(uri, variables)
+			} catch (error) {
+				config.taskState.consecutiveMistakeCount++
+				const errorMessage = error instanceof Error ? error.message : String(error)
+				await config.callbacks.say("error", `Cline couldn't fill in the resource template ${uri}. Retrying...`)
+				return formatResponse.toolError(`Could not resolve the resource template ${uri}: ${errorMessage}`)
+			}
+		}
+
 		config.taskState.consecutiveMistakeCount = 0
 
 		// Handle approval flow
@@ -0,0 +1,248 @@
+import fs from "node:fs/promises"
+import type { ToolUse } from "@core/assistant-message"
+import { applyFilePatch, type FilePatch, PatchParser } from "@core/assistant-message/diff"
+import { getTaskLockManager } from "@core/locks/session_locks"
+import { formatResponse } from "@core/prompts/response_formatters"
+import { resolveWorkspacePath } from "@core/workspace"
+import { ClineSayTool } from "@shared/ExtensionMessage"
+import { createDirectoriesForFile, fileExistsAtPath, writeFile } from "@utils/fs"
+import { getReadablePath, isLocatedInWorkspace } from "@utils/path"
+import { ClineDefaultTool } from "@/shared/tools"
+import type { ToolResponse } from "../../index"
+import { showNotificationForApprovalIfAutoApprovalEnabled } from "../../utils"
+import type { IFullyManagedTool } from "../ToolExecutorCoordinator"
+import type { ToolValidator } from "../ToolValidator"
+import type { TaskConfig } from "../types/TaskConfig"
+import type { StronglyTypedUIHelpers } from "../types/UIHelpers"
+import { ToolResultUtils } from "../utils/ToolResultUtils"
+
+/**
+ * A file patch with its paths resolved
+ */
+interface FileChangeTarget {
+	patch: FilePatch
+	relPath: string
+	absolutePath: string
+	moveRelPath?: string
+	moveAbsolutePath?: string
+}
+
+/**
+ * A file patch with its resulting content computed
+ */
+interface PreparedFileChange extends FileChangeTarget {
+	newContent: string
+}
+
+export class ApplyPatchToolHandler implements IFullyManagedTool {
+	readonly name = ClineDefaultTool.APPLY_PATCH
+
+	constructor(private validator: ToolValidator) {}
+
+	getDescription(block: ToolUse): string {
+		return `[${block.name}]`
+	}
+
+	async handlePartialBlock(block: ToolUse, uiHelpers: StronglyTypedUIHelpers): Promise<void> {
+		const sharedMessageProps: ClineSayTool = {
+			tool: "editedExistingFile",
+			path: "",
+			content: uiHelpers.removeClosingTag(block, "diff", block.params.diff),
+		}
+
+		await uiHelpers.removeLastPartialMessageIfExistsWithType("say", "tool")
+		await uiHelpers.ask("tool", JSON.stringify(sharedMessageProps), block.partial).catch(() => {})
+	}
+
+	async execute(config: TaskConfig, block: ToolUse): Promise<ToolResponse> {
+		const patchText = block.params.diff
+		if (!patchText) {
+			config.taskState.consecutiveMistakeCount++
+			return await config.callbacks.sayAndCreateMissingParamError(this.name, "diff")
+		}
+
+		let targets: FileChangeTarget[]
+		try {
+			targets = this.resolveTargets(config, patchText)
+		} catch (error) {
+			return await this.patchError(config, error)
+		}
+
+		// Ignored and locked files are refused before any of their content is read
+		for (const target of targets) {
+			for (const relPath of [target.relPath, target.moveRelPath]) {
+				if (relPath && !this.validator.checkClineIgnorePath(relPath).ok) {
+					await config.callbacks.say("clineignore_error", relPath)
+					return formatResponse.toolError(formatResponse.clineIgnoreError(relPath))
+				}
+			}
+		}
+
+		// Lock every touched file for this task so other instances and sub-agents can't overwrite them
+		const lockManager = getTaskLockManager(config.taskId)
+		const absolutePaths = targets.flatMap((target) =>
+			target.moveAbsolutePath ? [target.absolutePath, target.moveAbsolutePath] : [target.absolutePath],
+		)
+		for (const absolutePath of absolutePaths) {
+			const lockResult = lockManager?.acquireFileLock(absolutePath)
+			if (lockResult && !lockResult.acquired) {
+				const { heldBy, lockType, lockTarget } = lockResult.holder
+				const lockError = formatResponse.fileLockedError(
+					getReadablePath(config.cwd, absolutePath),
+					heldBy,
+					lockType === "folder" ? getReadablePath(config.cwd, lockTarget) : undefined,
+				)
+				await config.callbacks.say("error", lockError)
+				return formatResponse.toolError(lockError)
+			}
+		}
+
+		// Apply every file patch in memory first, so a bad hunk leaves all files untouched
+		let changes: PreparedFileChange[]
+		try {
+			changes = await this.prepareChanges(targets)
+		} catch (error) {
+			return await this.patchError(config, error)
+		}
+		config.taskState.consecutiveMistakeCount = 0
+
+		const summary = changes.map((change) => this.describeChange(change)).join("\n")
+		const locatedInWorkspace = await Promise.all(
+			changes.map((change) => isLocatedInWorkspace(change.moveRelPath ?? change.relPath)),
+		)
+		const completeMessage = JSON.stringify({
+			tool: "editedExistingFile",
+			path: changes.map((change) => getReadablePath(config.cwd, change.moveRelPath ?? change.relPath)).join(", "),
+			content: patchText,
+			operationIsLocatedInWorkspace: locatedInWorkspace.every(Boolean),
+		} satisfies ClineSayTool)
+
+		let autoApprove = true
+		for (const change of changes) {
+			autoApprove &&= await config.callbacks.shouldAutoApproveToolWithPath(block.name, change.moveRelPath ?? change.relPath)
+		}
+
+		if (autoApprove) {
+			await config.callbacks.removeLastPartialMessageIfExistsWithType("ask", "tool")
+			await config.callbacks.say("tool", completeMessage, undefined, undefined, false)
+			config.taskState.consecutiveAutoApprovedRequestsCount++
+		} else {
+			showNotificationForApprovalIfAutoApprovalEnabled(
+				`Cline wants to apply a patch to ${changes.length} file${changes.length === 1 ? "" : "s"}`,
+				config.autoApprovalSettings.enabled,
+				config.autoApprovalSettings.enableNotifications,
+			)
+			await config.callbacks.removeLastPartialMessageIfExistsWithType("say", "tool")
+
+			const didApprove = await ToolResultUtils.askApprovalAndPushFeedback("tool", completeMessage, config)
+			if (!didApprove) {
+				return formatResponse.toolDenied()
+			}
+		}
+
+		for (const change of changes) {
+			await this.writeChange(config, change)
+		}
+		config.taskState.didEditFile = true
+
+		return formatResponse.toolResult(`The patch was applied successfully:\n${summary}`)
+	}
+
+	private async patchError(config: TaskConfig, error: unknown): Promise<ToolResponse> {
+		config.taskState.consecutiveMistakeCount++
+		const errorMessage = `Failed to apply patch: ${(error as Error).message}`
+		await config.callbacks.say("error", errorMessage)
+		return formatResponse.toolError(errorMessage)
+	}
+
+	/**
+	 * Parse the patch and resolve the paths of every file it touches
+	 */
+	private resolveTargets(config: TaskConfig, patchText: string): FileChangeTarget[] {
+		const filePatches = PatchParser.parse(patchText)
+		if (filePatches.length === 0) {
+			throw new Error("The patch does not contain any file sections.")
+		}
+
+		return filePatches.map((patch) => {
+			if (!patch.path) {
+				throw new Error("Every file in the patch needs a path. Add ---/+++ headers or '*** Update File:' lines.")
+			}
+			const target: FileChangeTarget = { patch, ...this.resolvePath(config, patch.path) }
+			if (patch.movePath) {
+				const moved = this.resolvePath(config, patch.movePath)
+				target.moveRelPath = moved.relPath
+				target.moveAbsolutePath = moved.absolutePath
+			}
+			return target
+		})
+	}
+
+	/**
+	 * Compute the resulting content of every file in the patch
+	 */
+	private async prepareChanges(targets: FileChangeTarget[]): Promise<PreparedFileChange[]> {
+		const changes: PreparedFileChange[] = []
+		for (const target of targets) {
+			const { patch, relPath, absolutePath, moveRelPath, moveAbsolutePath } = target
+			const exists = await fileExistsAtPath(absolutePath)
+			if (patch.operation === "add" && exists) {
+				throw new Error(`Cannot add ${relPath} because it already exists. Use an update section instead.`)
+			}
+			if (patch.operation !== "add" && !exists) {
+				throw new Error(`Cannot ${patch.operation} ${relPath} because it does not exist.`)
+			}
+			if (moveAbsolutePath && moveAbsolutePath !== absolutePath && (await fileExistsAtPath(moveAbsolutePath))) {
+				throw new Error(`Cannot move ${relPath} to ${moveRelPath} because ${moveRelPath} already exists.`)
+			}
+
+			const originalContent = exists ? await fs.readFile(absolutePath, "utf8") : ""
+			let newContent: string
+			try {
+				newContent = applyFilePatch(patch, originalContent)
+			} catch (error) {
+				throw new Error(`${relPath}: ${(error as Error).message}`)
+			}
+
+			changes.push({ ...target, newContent })
+		}
+		return changes
+	}
+
+	private resolvePath(config: TaskConfig, relPath: string): { relPath: string; absolutePath: string } {
+		const pathResult = resolveWorkspacePath(config, relPath, "ApplyPatchToolHandler.resolvePath")
+		return typeof pathResult === "string"
+			? { relPath, absolutePath: pathResult }
+			: { relPath: pathResult.resolvedPath, absolutePath: pathResult.absolutePath }
+	}
+
+	private async writeChange(config: TaskConfig, change: PreparedFileChange): Promise<void> {
+		const { patch, relPath, absolutePath, moveRelPath, moveAbsolutePath, newContent } = change
+		if (patch.operation === "delete") {
+			await fs.rm(absolutePath, { force: true })
+			return
+		}
+
+		const targetPath = moveAbsolutePath ?? absolutePath
+		await createDirectoriesForFile(targetPath)
+		await writeFile(targetPath, newContent)
+		if (moveAbsolutePath) {
+			await fs.rm(absolutePath, { force: true })
+		}
+
+		const trackedPath = moveRelPath ?? relPath
+		config.services.fileContextTracker.markFileAsEditedByCline(trackedPath)
+		await config.services.fileContextTracker.trackFileContext(trackedPath, "cline_edited")
+	}
+
+	private describeChange({ patch, relPath, moveRelPath }: PreparedFileChange): string {
+		switch (patch.operation) {
+			case "add":
+				return `- Created ${relPath}`
+			case "delete":
+				return `- Deleted ${relPath}`
+			case "update":
+				return moveRelPath ? `- Updated ${relPath} and moved it to ${moveRelPath}` : `- Updated ${relPath}`
+		}
+	}
+}
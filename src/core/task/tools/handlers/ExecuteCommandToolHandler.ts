@@ -13,6 +13,7 @@ import type { IFullyManagedTool } from "../ToolExecutorCoordinator"
 import type { ToolValidator } from "../ToolValidator"
 import type { TaskConfig } from "../types/TaskConfig"
 import type { StronglyTypedUIHelpers } from "../types/UIHelpers"
+import { CommandSandboxUtils } from "../utils/CommandSandboxUtils"
 import { ToolResultUtils } from "../utils/ToolResultUtils"
 
 export class ExecuteCommandToolHandler implements IFullyManagedTool {
@@ -126,6 +127,20 @@ export class ExecuteCommandToolHandler implements IFullyManagedTool {
 			? autoApproveResult
 			: [autoApproveResult, false]
 
+		// The user's command policy overrides the model's requires_approval claim in both directions:
+		// denied commands always need approval, and allowed commands count as safe
+		const commandPolicy = config.autoApprover?.evaluateCommandPolicy(actualCommand)
+		const policyDenied = commandPolicy?.decision === "deny"
+		const requiresApproval = policyDenied || (requiresApprovalPerLLM && commandPolicy?.decision !== "allow")
+
+		// With the sandbox on, auto-approved commands only run sandboxed; without bwrap they need approval
+		const sandboxSettings = config.autoApprovalSettings.sandbox
+		const workspacePaths = config.workspaceManager?.getRoots().map((root) => root.path) ?? [config.cwd]
+		const sandbox = sandboxSettings?.enabled
+			? CommandSandboxUtils.getOptions(sandboxSettings, executionDir, workspacePaths)
+			: undefined
+		const sandboxUnavailable = !!sandboxSettings?.enabled && !sandbox
+
 		// Determine workspace context for telemetry
 		const resolvedToNonPrimary = !arePathsEqual(executionDir, config.cwd)
 		const _workspaceContext = {
@@ -140,7 +155,7 @@ export class ExecuteCommandToolHandler implements IFullyManagedTool {
 			// Telemetry removed
 		}
 
-		if ((!requiresApprovalPerLLM && autoApproveSafe) || (requiresApprovalPerLLM && autoApproveSafe && autoApproveAll)) {
+		if (!policyDenied && !sandboxUnavailable && autoApproveSafe && (!requiresApproval || autoApproveAll)) {
 			// Auto-approve flow
 			await config.callbacks.removeLastPartialMessageIfExistsWithType("ask", "command")
 			await config.callbacks.say("command", actualCommand, undefined, undefined, false)
@@ -156,7 +171,7 @@ export class ExecuteCommandToolHandler implements IFullyManagedTool {
 
 			const didApprove = await ToolResultUtils.askApprovalAndPushFeedback(
 				"command",
-				actualCommand + `${autoApproveSafe && requiresApprovalPerLLM ? COMMAND_REQ_APP_STRING : ""}`,
+				actualCommand + `${autoApproveSafe && requiresApproval ? COMMAND_REQ_APP_STRING : ""}`,
 				config,
 			)
 			if (!didApprove) {
@@ -177,9 +192,11 @@ export class ExecuteCommandToolHandler implements IFullyManagedTool {
 		}
 
 		// Execute the command in the correct directory
-		// If executionDir is different from cwd, prepend cd command
+		// If executionDir is different from cwd, prepend cd command; the sandbox starts there itself
 		let finalCommand: string = actualCommand
-		if (executionDir !== config.cwd) {
+		if (didAutoApprove && sandbox) {
+			finalCommand = CommandSandboxUtils.wrap(actualCommand, sandbox)
+		} else if (executionDir !== config.cwd) {
 			// Use && to chain commands so they run in sequence
 			finalCommand = `cd "${executionDir}" && ${actualCommand}`
 		}
@@ -194,6 +211,12 @@ export class ExecuteCommandToolHandler implements IFullyManagedTool {
 			config.taskState.didRejectTool = true
 		}
 
+		const sandboxBlock =
+			didAutoApprove && sandbox && typeof result === "string" ? CommandSandboxUtils.detectBlock(result, sandbox) : undefined
+		if (sandboxBlock) {
+			return formatResponse.toolError(`The command was blocked by the sandbox. ${sandboxBlock.message}\n\n${result}`)
+		}
+
 		return result
 	}
 }
@@ -1,9 +1,21 @@
 import type { ToolUse } from "@core/assistant-message"
+import { sendPartialMessageEvent } from "@core/controller/ui/subscribeToPartialMessage"
 import { formatResponse } from "@core/prompts/response_formatters"
 import { processFilesIntoText } from "@integrations/misc/extract-text"
 import { showSystemNotification } from "@integrations/notifications"
+import { Logger } from "@services/logging/Logger"
+import { findLastIndex } from "@shared/array"
+import type { ClineSaySubagents, ClineSubagent } from "@shared/ExtensionMessage"
+import { convertClineMessageToProto } from "@shared/proto-conversions/cline-message"
 import { ClineDefaultTool } from "@/shared/tools"
 import type { ToolResponse } from "../../index"
+import {
+	buildSubagentPrompt,
+	formatSubagentResults,
+	parseSubagentSpecs,
+	SubagentOrchestrator,
+	type SubagentSpec,
+} from "../../subagents"
 import type { IPartialBlockHandler, IToolHandler } from "../ToolExecutorCoordinator"
 import type { TaskConfig } from "../types/TaskConfig"
 import type { StronglyTypedUIHelpers } from "../types/UIHelpers"
@@ -33,6 +45,10 @@ export class NewTaskHandler implements IToolHandler, IPartialBlockHandler {
 			return await config.callbacks.sayAndCreateMissingParamError(block.name, "context")
 		}
 
+		if (block.params.subtasks !== undefined) {
+			return await this.fanOut(config, context, block.params.subtasks)
+		}
+
 		config.taskState.consecutiveMistakeCount = 0
 
 		// Show notification if auto-approval is enabled
@@ -64,4 +80,105 @@ export class NewTaskHandler implements IToolHandler, IPartialBlockHandler {
 			return formatResponse.toolResult(`The user has created a new task with the provided context.`)
 		}
 	}
+
+	/**
+	 * Run the subtasks as parallel sub-agents and wait for all of their results
+	 *
+	 * Unlike a plain new_task, the current task keeps going: its chat shows the sub-agent tree
+	 * while they work, and their results come back as this tool's result.
+	 */
+	private async fanOut(config: TaskConfig, context: string, rawSubtasks: string): Promise<ToolResponse> {
+		await config.callbacks.removeLastPartialMessageIfExistsWithType("ask", this.name)
+
+		if (!config.callbacks.startSubagentTask) {
+			return formatResponse.toolError(
+				"Sub-agents can't start sub-agents of their own. Do this work yourself, or finish and report back to the parent task.",
+			)
+		}
+
+		let specs: SubagentSpec[]
+		try {
+			specs = parseSubagentSpecs(rawSubtasks)
+		} catch (error) {
+			config.taskState.consecutiveMistakeCount++
+			return formatResponse.toolError(error instanceof Error ? error.message : `${error}`)
+		}
+		config.taskState.consecutiveMistakeCount = 0
+
+		// The tree in the chat is rewritten one update at a time so the writes land in order
+		let messageTs: number | undefined
+		let pendingUpdate = Promise.resolve()
+		const orchestrator = new SubagentOrchestrator(specs, {
+			createTask: config.callbacks.startSubagentTask,
+			buildPrompt: (index) => buildSubagentPrompt(context, specs, index),
+			onUpdate: (subagents) => {
+				pendingUpdate = pendingUpdate
+					.then(() => this.rewriteSubagentsMessage(config, messageTs, subagents))
+					.catch((error) => {
+						Logger.error(
+							"Failed to update sub-agent progress",
+							error instanceof Error ? error : new Error(`${error}`),
+						)
+					})
+			},
+			isCancelled: () => config.taskState.abort,
+			// Sub-agent commands get what the parent would auto-approve; with the sandbox on that's
+			// nothing, since approving the ask would run the command outside the sandbox
+			isCommandAllowed: (command, requiresApproval) =>
+				!config.autoApprovalSettings.sandbox?.enabled &&
+				config.autoApprover.shouldAutoApproveCommand(command, requiresApproval),
+		})
+		const plan = JSON.stringify({
+			parentTaskId: config.taskId,
+			subagents: orchestrator.getSubagents(),
+		} satisfies ClineSaySubagents)
+
+		// Sub-agents act on their own once started, so the fan-out itself always needs approval outside YOLO mode
+		if (!config.yoloModeToggled) {
+			if (config.autoApprovalSettings.enabled && config.autoApprovalSettings.enableNotifications) {
+				showSystemNotification({
+					subtitle: "Cline wants to start sub-agents...",
+					message: `Cline wants to run ${specs.length} subtasks in parallel`,
+				})
+			}
+
+			const { response, text, images, files } = await config.callbacks.ask("subagents", plan, false)
+			if (response !== "yesButtonClicked") {
+				if (text || (images && images.length > 0) || (files && files.length > 0)) {
+					const fileContentString = files && files.length > 0 ? await processFilesIntoText(files) : ""
+					await config.callbacks.say("user_feedback", text ?? "", images, files)
+					return formatResponse.toolResult(
+						`The user provided feedback instead of starting the sub-agents:\n<feedback>\n${text}\n</feedback>`,
+						images,
+						fileContentString,
+					)
+				}
+				return formatResponse.toolDenied()
+			}
+		}
+
+		messageTs = await config.callbacks.say("subagents", plan)
+		const subagents = await orchestrator.run()
+		await pendingUpdate
+
+		return formatResponse.toolResult(formatSubagentResults(subagents))
+	}
+
+	/**
+	 * Rewrite the sub-agent tree in the chat with the latest state of every sub-agent
+	 */
+	private async rewriteSubagentsMessage(
+		config: TaskConfig,
+		messageTs: number | undefined,
+		subagents: ClineSubagent[],
+	): Promise<void> {
+		const messages = config.messageState.getClineMessages()
+		const index = findLastIndex(messages, (message) => message.ts === messageTs && message.say === "subagents")
+		if (index === -1) {
+			return
+		}
+		const text = JSON.stringify({ parentTaskId: config.taskId, subagents } satisfies ClineSaySubagents)
+		await config.messageState.updateClineMessage(index, { text })
+		await sendPartialMessageEvent(convertClineMessageToProto(messages[index]))
+	}
 }
@@ -1,8 +1,10 @@
 import path from "node:path"
 import { setTimeout as setTimeoutPromise } from "node:timers/promises"
 import type { ToolUse } from "@core/assistant-message"
-import { constructNewFileContent } from "@core/assistant-message/diff"
+import { constructNewFileContent, type DiffVersion } from "@core/assistant-message/diff"
+import { getTaskLockManager } from "@core/locks/session_locks"
 import { formatResponse } from "@core/prompts/response_formatters"
+import { getEditFormat } from "@core/prompts/system-prompt"
 import { getWorkspaceBasename, resolveWorkspacePath } from "@core/workspace"
 import { processFilesIntoText } from "@integrations/misc/extract-text"
 import { getEditorStreamingStatus } from "@services/editor/editor_streaming_status"
@@ -393,6 +395,34 @@ export class WriteToFileToolHandler implements IFullyManagedTool {
 			return
 		}
 
+		// Lock the file for this task so other instances and sub-agents working in the same repo can't overwrite it.
+		// Only the first chunk takes it; once the diff editor is open the lock is already held.
+		const lockResult = config.services.diffViewProvider.isEditing
+			? undefined
+			: getTaskLockManager(config.taskId)?.acquireFileLock(absolutePath)
+		if (lockResult && !lockResult.acquired) {
+			const { heldBy, lockType, lockTarget } = lockResult.holder
+			const lockError = formatResponse.fileLockedError(
+				resolvedPath,
+				heldBy,
+				lockType === "folder" ? getReadablePath(config.cwd, lockTarget) : undefined,
+			)
+			await config.callbacks.say("error", lockError)
+
+			ToolResultUtils.pushToolResult(
+				formatResponse.toolError(lockError),
+				block,
+				config.taskState.userMessageContent,
+				ToolDisplayUtils.getToolDescription,
+				config.api,
+				() => {
+					config.taskState.didAlreadyUseTool = true
+				},
+				config.coordinator,
+			)
+			return
+		}
+
 		// Check if file exists to determine the correct UI message
 		let fileExists: boolean
 		if (config.services.diffViewProvider.editType !== undefined) {
@@ -419,11 +449,13 @@ export class WriteToFileToolHandler implements IFullyManagedTool {
 			// Even if already editing, we need to refresh the originalContent for subsequent edits
 			await config.services.diffViewProvider.open(absolutePath, { displayPath: relPath })
 
+			const diffVersion = this.getDiffVersion(config)
 			try {
 				newContent = await constructNewFileContent(
 					diff,
 					config.services.diffViewProvider.originalContent || "",
 					!block.partial, // Pass the partial flag correctly
+					diffVersion,
 				)
 			} catch (error) {
 				// Full original behavior - comprehensive error handling even for partial blocks
@@ -438,9 +470,10 @@ export class WriteToFileToolHandler implements IFullyManagedTool {
 				// Add telemetry for diff edit failure
 
 				// Push tool result with detailed error using existing utilities
+				const formatDiffError = diffVersion === "unified" ? formatResponse.patchError : formatResponse.diffError
 				const errorResponse = formatResponse.toolError(
 					`${(error as Error)?.message}\n\n` +
-						formatResponse.diffError(relPath, config.services.diffViewProvider.originalContent),
+						formatDiffError(relPath, config.services.diffViewProvider.originalContent),
 				)
 				ToolResultUtils.pushToolResult(
 					errorResponse,
@@ -487,4 +520,16 @@ export class WriteToFileToolHandler implements IFullyManagedTool {
 
 		return { relPath, absolutePath, fileExists, diff, content, newContent, workspaceContext }
 	}
+
+	/**
+	 * The diff grammar replace_in_file expects, as configured by the model's prompt variant
+	 */
+	private getDiffVersion(config: TaskConfig): DiffVersion {
+		const editFormat = getEditFormat({
+			providerId: config.api.getProviderMetadata().providerId,
+			model: config.api.getModel(),
+			customPrompt: config.services.stateManager.getGlobalSettingsKey("customPrompt"),
+		})
+		return editFormat === "unified_diff" ? "unified" : "v1"
+	}
 }
@@ -17,6 +17,7 @@ import { WorkspaceRootManager } from "@/core/workspace"
 import type { ContextManager } from "../../../context/context-management/context_manager"
 import type { StateManager } from "../../../storage/StateManager"
 import type { MessageStateHandler } from "../../message-state"
+import type { SubagentTaskFactory } from "../../subagents/types"
 import type { TaskState } from "../../TaskState"
 import type { AutoApprove } from "../../tools/autoApprove"
 import type { ToolExecutorCoordinator } from "../ToolExecutorCoordinator"
@@ -122,6 +123,9 @@ export interface TaskCallbacks {
 	applyLatestBrowserSettings: () => Promise<BrowserSession>
 
 	switchToActMode: () => Promise<boolean>
+
+	// Starts a sub-agent for new_task fan-out; undefined inside sub-agents, which can't fan out further
+	startSubagentTask?: SubagentTaskFactory
 }
 
 /**
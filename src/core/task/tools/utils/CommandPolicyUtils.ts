@@ -0,0 +1,424 @@
+import type { CommandPolicy } from "@shared/AutoApprovalSettings"
+
+/**
+ * A single simple command extracted from a shell command line
+ */
+export interface ShellSegment {
+	command: string
+	// True when the segment reads the output of a previous segment through a pipe
+	pipedInput: boolean
+}
+
+export interface ParsedShellCommand {
+	segments: ShellSegment[]
+	// False when quotes, subshells or substitutions were left unterminated
+	complete: boolean
+}
+
+export type CommandPolicyDecision = "allow" | "deny" | "default"
+
+export interface CommandPolicyResult {
+	decision: CommandPolicyDecision
+	reason?: string
+	segment?: string
+	pattern?: string
+}
+
+// Programs that execute whatever they read on stdin
+const STDIN_INTERPRETERS = new Set([
+	"sh",
+	"bash",
+	"zsh",
+	"dash",
+	"ksh",
+	"fish",
+	"csh",
+	"tcsh",
+	"python",
+	"python3",
+	"perl",
+	"ruby",
+	"node",
+	"php",
+	"pwsh",
+	"powershell",
+	"source",
+	".",
+])
+
+// Shells whose `-c` argument is a command line of its own
+const SHELLS = new Set(["sh", "bash", "zsh", "dash", "ksh", "fish", "csh", "tcsh"])
+
+// Placeholder left in a segment where `<(...)` fed it another command's output
+const PROCESS_SUBSTITUTION = "<()"
+
+// Prefixes that run the rest of the segment as another command
+const COMMAND_WRAPPERS = new Set(["env", "nohup", "time", "nice", "command", "builtin", "exec", "xargs", "stdbuf", "timeout"])
+
+const ENV_ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/
+
+/**
+ * Parse commands and evaluate them against a user command policy.
+ * Deny rules always win; a command is only allowed when every segment is allowed.
+ */
+export class CommandPolicyUtils {
+	/**
+	 * Split a command line on &&, ||, ;, |, & and newlines, descending into
+	 * subshells, $(...), <(...) and backticks so nested commands are checked too
+	 */
+	static parse(command: string): ParsedShellCommand {
+		const result: ParsedShellCommand = { segments: [], complete: true }
+		CommandPolicyUtils.parseSequence(command, 0, undefined, result)
+		return result
+	}
+
+	/**
+	 * Check one segment against a glob (`git status*`) or regex (`/^npm (test|run lint)$/`) pattern
+	 */
+	static matchesPattern(segment: string, pattern: string): boolean {
+		const normalizedSegment = CommandPolicyUtils.normalize(segment)
+		const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/)
+		if (regexMatch) {
+			try {
+				return new RegExp(regexMatch[1], regexMatch[2]).test(normalizedSegment)
+			} catch {
+				return false
+			}
+		}
+
+		const glob = CommandPolicyUtils.normalize(pattern)
+		if (!glob) {
+			return false
+		}
+		const source = glob
+			.split("")
+			.map((char) => (char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+			.join("")
+		return new RegExp(`^${source}$`).test(normalizedSegment)
+	}
+
+	/**
+	 * Evaluate a full command line against the policy
+	 */
+	static evaluate(command: string, policy: CommandPolicy): CommandPolicyResult {
+		const { segments, complete } = CommandPolicyUtils.parse(command)
+
+		if (!complete) {
+			return { decision: "deny", reason: "Command has unterminated quotes or subshells" }
+		}
+
+		for (const segment of segments) {
+			const commands = CommandPolicyUtils.getCommandWords(segment.command)
+			const variants = [
+				...new Set([CommandPolicyUtils.normalize(segment.command), ...commands.map((words) => words.join(" "))]),
+			]
+
+			// Process substitution (`bash <(curl ...)`) feeds an interpreter just like a pipe
+			const readsOtherOutput = segment.pipedInput || commands[0]?.includes(PROCESS_SUBSTITUTION)
+			if (readsOtherOutput) {
+				const interpreter = commands.map((words) => words[0]).find((word) => STDIN_INTERPRETERS.has(word))
+				if (interpreter) {
+					return {
+						decision: "deny",
+						reason: `Piping output into ${interpreter} is never auto-approved`,
+						segment: segment.command,
+					}
+				}
+			}
+
+			// `bash -c '...'` runs its argument as a command line, so that gets the same checks
+			for (const payload of commands.map(CommandPolicyUtils.getShellPayload)) {
+				const nested = payload !== undefined ? CommandPolicyUtils.evaluate(payload, policy) : undefined
+				if (nested?.decision === "deny") {
+					return { ...nested, segment: segment.command }
+				}
+			}
+
+			for (const pattern of policy.deny) {
+				if (variants.some((variant) => CommandPolicyUtils.matchesPattern(variant, pattern))) {
+					return { decision: "deny", reason: "Matched deny rule", segment: segment.command, pattern }
+				}
+			}
+		}
+
+		if (policy.allow.length > 0 && segments.length > 0) {
+			const allAllowed = segments.every((segment) =>
+				policy.allow.some((pattern) => CommandPolicyUtils.matchesPattern(segment.command, pattern)),
+			)
+			if (allAllowed) {
+				return { decision: "allow", reason: "Every segment matched an allow rule" }
+			}
+		}
+
+		return { decision: "default" }
+	}
+
+	/**
+	 * Combine the global policy with a workspace override. Lists are additive, so a
+	 * workspace can allow more commands but can never lift a global deny rule.
+	 */
+	static merge(global: CommandPolicy, workspace?: CommandPolicy): CommandPolicy {
+		if (!workspace) {
+			return global
+		}
+		return {
+			allow: [...global.allow, ...workspace.allow],
+			deny: [...global.deny, ...workspace.deny],
+		}
+	}
+
+	/**
+	 * Collapse whitespace and drop grouping/negation tokens so patterns see the bare command
+	 */
+	private static normalize(segment: string): string {
+		return segment
+			.trim()
+			.replace(/\s+/g, " ")
+			.replace(/^([{}!]\s*)+/, "")
+			.replace(/(\s*[{}])+$/, "")
+	}
+
+	/**
+	 * The segment's words with quotes and escapes removed, plus the commands hidden behind env
+	 * assignments and wrappers such as `env`, `nohup` or `xargs`. Command names lose their
+	 * directory, so `/bin/rm`, `\rm` and `r"m"` all read as `rm` and deny rules cannot be sidestepped.
+	 */
+	private static getCommandWords(segment: string): string[][] {
+		let words = CommandPolicyUtils.splitWords(CommandPolicyUtils.normalize(segment))
+		if (words.length === 0) {
+			return []
+		}
+		words = [CommandPolicyUtils.commandName(words[0]), ...words.slice(1)]
+		const commands = [words]
+
+		while (words.length > 1) {
+			let index = 0
+			while (index < words.length && ENV_ASSIGNMENT.test(words[index])) {
+				index++
+			}
+			if (index === 0 && COMMAND_WRAPPERS.has(words[0])) {
+				index = 1
+				// Skip wrapper options and their numeric arguments (e.g. `timeout 10`, `nice -n 5`)
+				while (index < words.length && (words[index].startsWith("-") || /^\d+[smhd]?$/.test(words[index]))) {
+					index++
+				}
+			}
+			if (index === 0 || index >= words.length) {
+				break
+			}
+			words = [CommandPolicyUtils.commandName(words[index]), ...words.slice(index + 1)]
+			commands.push(words)
+		}
+
+		return commands
+	}
+
+	/**
+	 * The command line a shell runs with `-c` (also combined flags such as `-lc`)
+	 */
+	private static getShellPayload(words: string[]): string | undefined {
+		if (!SHELLS.has(words[0])) {
+			return undefined
+		}
+		for (let index = 1; index < words.length && words[index].startsWith("-"); index++) {
+			if (/^-[a-zA-Z]*c[a-zA-Z]*$/.test(words[index])) {
+				return words[index + 1]
+			}
+		}
+		return undefined
+	}
+
+	private static commandName(word: string): string {
+		return word.includes("/") && word !== PROCESS_SUBSTITUTION ? word.slice(word.lastIndexOf("/") + 1) || word : word
+	}
+
+	/**
+	 * Split a segment into words the way the shell would, removing quotes and backslash escapes
+	 */
+	private static splitWords(segment: string): string[] {
+		const words: string[] = []
+		let word: string | undefined
+		let i = 0
+
+		while (i < segment.length) {
+			const char = segment[i]
+			if (/\s/.test(char)) {
+				if (word !== undefined) {
+					words.push(word)
+					word = undefined
+				}
+				i++
+			} else if (char === "\\") {
+				word = (word ?? "") + (segment[i + 1] ?? "")
+				i += 2
+			} else if (char === "'") {
+				const end = segment.indexOf("'", i + 1)
+				const stop = end === -1 ? segment.length : end
+				word = (word ?? "") + segment.slice(i + 1, stop)
+				i = stop + 1
+			} else if (char === '"') {
+				word = word ?? ""
+				i++
+				while (i < segment.length && segment[i] !== '"') {
+					if (segment[i] === "\\" && /["\\$`]/.test(segment[i + 1] ?? "")) {
+						i++
+					}
+					word += segment[i]
+					i++
+				}
+				i++
+			} else {
+				word = (word ?? "") + char
+				i++
+			}
+		}
+		if (word !== undefined) {
+			words.push(word)
+		}
+		return words
+	}
+
+	/**
+	 * Parse until `closing` (or end of input), appending segments to result
+	 * Returns the index just past the closing character
+	 */
+	private static parseSequence(
+		input: string,
+		start: number,
+		closing: ")" | "`" | undefined,
+		result: ParsedShellCommand,
+	): number {
+		let current = ""
+		let pipedInput = false
+		let i = start
+
+		const flush = (nextPipedInput: boolean) => {
+			const command = current.trim()
+			if (command) {
+				result.segments.push({ command, pipedInput })
+			}
+			current = ""
+			pipedInput = nextPipedInput
+		}
+
+		while (i < input.length) {
+			const char = input[i]
+
+			if (closing && char === closing) {
+				flush(false)
+				return i + 1
+			}
+
+			if (char === "\\") {
+				current += input.slice(i, i + 2)
+				i += 2
+				continue
+			}
+
+			if (char === "'") {
+				const end = input.indexOf("'", i + 1)
+				if (end === -1) {
+					result.complete = false
+					current += input.slice(i)
+					i = input.length
+					break
+				}
+				current += input.slice(i, end + 1)
+				i = end + 1
+				continue
+			}
+
+			if (char === '"') {
+				// Double quotes still expand $(...) and backticks
+				let j = i + 1
+				current += char
+				while (j < input.length && input[j] !== '"') {
+					if (input[j] === "\\") {
+						current += input.slice(j, j + 2)
+						j += 2
+					} else if (input.startsWith("$(", j)) {
+						j = CommandPolicyUtils.parseSequence(input, j + 2, ")", result)
+						current += "$()"
+					} else if (input[j] === "`") {
+						j = CommandPolicyUtils.parseSequence(input, j + 1, "`", result)
+						current += "``"
+					} else {
+						current += input[j]
+						j++
+					}
+				}
+				if (j >= input.length) {
+					result.complete = false
+					i = j
+					break
+				}
+				current += '"'
+				i = j + 1
+				continue
+			}
+
+			if (input.startsWith("$(", i) || input.startsWith("<(", i) || input.startsWith(">(", i)) {
+				const placeholder = char === "<" ? PROCESS_SUBSTITUTION : "$()"
+				i = CommandPolicyUtils.parseSequence(input, i + 2, ")", result)
+				current += placeholder
+				continue
+			}
+
+			if (char === "`") {
+				i = CommandPolicyUtils.parseSequence(input, i + 1, "`", result)
+				current += "``"
+				continue
+			}
+
+			if (char === "(" && current.trim() === "") {
+				// Subshell group: its commands are segments in their own right
+				i = CommandPolicyUtils.parseSequence(input, i + 1, ")", result)
+				continue
+			}
+
+			if (input.startsWith("&&", i) || input.startsWith("||", i)) {
+				flush(false)
+				i += 2
+				continue
+			}
+
+			if (input.startsWith("|&", i)) {
+				flush(true)
+				i += 2
+				continue
+			}
+
+			if (char === "|") {
+				flush(true)
+				i++
+				continue
+			}
+
+			if (char === ";" || char === "\n") {
+				flush(false)
+				i++
+				continue
+			}
+
+			if (char === "&") {
+				// `2>&1` and `&>file` are redirections, not background operators
+				if (current.endsWith(">") || input[i + 1] === ">") {
+					current += char
+				} else {
+					flush(false)
+				}
+				i++
+				continue
+			}
+
+			current += char
+			i++
+		}
+
+		if (closing) {
+			result.complete = false
+		}
+		flush(false)
+		return i
+	}
+}
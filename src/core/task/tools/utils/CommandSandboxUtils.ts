@@ -0,0 +1,156 @@
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import type { CommandSandboxSettings } from "@shared/AutoApprovalSettings"
+
+export interface SandboxOptions {
+	// Path of the bwrap binary
+	bwrapPath: string
+	// Directory the command starts in
+	cwd: string
+	// Mounted read-write; everything else is read-only
+	writablePaths: string[]
+	allowNetwork: boolean
+}
+
+export type SandboxBlockReason = "filesystem" | "network" | "unavailable"
+
+export interface SandboxBlock {
+	reason: SandboxBlockReason
+	message: string
+}
+
+// Printed by the sandboxed shell when the command fails, since not every terminal reports exit codes
+const FAILURE_MARKER = "[sandbox] exit status"
+const FAILURE_PATTERN = /^\[sandbox\] exit status [1-9]\d*$/m
+
+// Runs the command (passed as $1) in a subshell so `exit` in it still reaches the failure report
+const SANDBOX_SCRIPT = `(eval "$1"); status=$?; [ "$status" -eq 0 ] || printf '\\n%s %s\\n' '${FAILURE_MARKER}' "$status" >&2; exit "$status"`
+
+// bwrap's own errors when it can't set up the sandbox
+const UNAVAILABLE_PATTERN = /^bwrap: .*(namespace|uid map|Operation not permitted|Permission denied)/im
+
+// Output of a failed command that means the sandbox, not the command itself, stopped it
+const BLOCK_PATTERNS: { reason: SandboxBlockReason; pattern: RegExp }[] = [
+	{ reason: "filesystem", pattern: /Read-only file system|EROFS/ },
+	{
+		reason: "network",
+		pattern:
+			/Network is unreachable|ENETUNREACH|Temporary failure in name resolution|Could not resolve host|getaddrinfo (EAI_AGAIN|ENOTFOUND)|Name or service not known/,
+	},
+]
+
+const BLOCK_MESSAGES: Record<SandboxBlockReason, string> = {
+	filesystem:
+		"The command tried to write outside the workspace, which the sandbox mounts read-only. Keep writes inside the workspace, or ask the user to add the path to the sandbox's writable paths.",
+	network:
+		"The command needed the network, which the sandbox disables. Ask the user to run it or to allow network access in the sandbox settings.",
+	unavailable:
+		"The sandbox could not start because this system doesn't allow unprivileged user namespaces. Ask the user to run the command or to disable sandboxed execution.",
+}
+
+/**
+ * Runs auto-approved commands under Linux namespaces with bubblewrap
+ *
+ * The whole filesystem is mounted read-only with the workspace (and any extra writable paths)
+ * bound read-write on top, /tmp is a private tmpfs, and the network is cut off unless allowed.
+ * Commands run in a child of the terminal's shell, so `cd` and `export` inside them don't persist.
+ */
+export class CommandSandboxUtils {
+	/**
+	 * Path of bwrap if commands can be sandboxed on this system
+	 */
+	static findBwrap(platform: NodeJS.Platform = process.platform, searchPath = process.env.PATH ?? ""): string | undefined {
+		if (platform !== "linux") {
+			return undefined
+		}
+		return searchPath
+			.split(path.delimiter)
+			.filter(Boolean)
+			.map((dir) => path.join(dir, "bwrap"))
+			.find((candidate) => {
+				try {
+					fs.accessSync(candidate, fs.constants.X_OK)
+					return true
+				} catch {
+					return false
+				}
+			})
+	}
+
+	/**
+	 * Options for sandboxing a command in the given workspaces, or undefined without bwrap
+	 */
+	static getOptions(settings: CommandSandboxSettings, cwd: string, workspacePaths: string[]): SandboxOptions | undefined {
+		const bwrapPath = CommandSandboxUtils.findBwrap()
+		if (!bwrapPath) {
+			return undefined
+		}
+		return {
+			bwrapPath,
+			cwd,
+			writablePaths: [
+				...new Set([
+					...workspacePaths,
+					...settings.writablePaths.map((writablePath) => writablePath.replace(/^~(?=$|\/)/, os.homedir())),
+				]),
+			],
+			allowNetwork: settings.allowNetwork,
+		}
+	}
+
+	/**
+	 * The command line that runs `command` inside the sandbox
+	 */
+	static wrap(command: string, options: SandboxOptions): string {
+		const args = [
+			options.bwrapPath,
+			"--ro-bind",
+			"/",
+			"/",
+			"--dev",
+			"/dev",
+			"--proc",
+			"/proc",
+			"--tmpfs",
+			"/tmp",
+			...options.writablePaths.flatMap((writablePath) => ["--bind-try", writablePath, writablePath]),
+			"--unshare-all",
+			...(options.allowNetwork ? ["--share-net"] : []),
+			"--die-with-parent",
+			"--new-session",
+			"--chdir",
+			options.cwd,
+			"--",
+			"/bin/sh",
+			"-c",
+			SANDBOX_SCRIPT,
+			"sh",
+			command,
+		]
+		return args.map(CommandSandboxUtils.quote).join(" ")
+	}
+
+	/**
+	 * Whether the sandbox stopped the command, judging by its output
+	 *
+	 * Only failed commands are considered, so a command that merely prints one of the patterns
+	 * isn't mistaken for a blocked one, and network errors don't count when the network is shared.
+	 */
+	static detectBlock(output: string, options: Pick<SandboxOptions, "allowNetwork">): SandboxBlock | undefined {
+		if (UNAVAILABLE_PATTERN.test(output)) {
+			return { reason: "unavailable", message: BLOCK_MESSAGES.unavailable }
+		}
+		if (!FAILURE_PATTERN.test(output)) {
+			return undefined
+		}
+		const match = BLOCK_PATTERNS.find(
+			({ reason, pattern }) => !(reason === "network" && options.allowNetwork) && pattern.test(output),
+		)
+		return match ? { reason: match.reason, message: BLOCK_MESSAGES[match.reason] } : undefined
+	}
+
+	private static quote(arg: string): string {
+		return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`
+	}
+}
@@ -1,3 +1,4 @@
+import { Anthropic } from "@anthropic-ai/sdk"
 import { ApiHandler } from "@core/api"
 import { ToolUse } from "@core/assistant-message"
 import { formatResponse } from "@core/prompts/response_formatters"
@@ -23,7 +24,14 @@ export class ToolResultUtils {
 		markToolAsUsed: () => void,
 		coordinator?: ToolExecutorCoordinator,
 	): void {
-		if (typeof content === "string") {
+		if (block.id) {
+			// Native tool calls get their result in a tool_result block paired by id
+			userMessageContent.push({
+				type: "tool_result",
+				tool_use_id: block.id,
+				content: typeof content === "string" ? content || "(tool did not return anything)" : content,
+			})
+		} else if (typeof content === "string") {
 			const resultText = content || "(tool did not return anything)"
 
 			// Try to get description from coordinator first, otherwise use the provided function
@@ -50,6 +58,34 @@ export class ToolResultUtils {
 		markToolAsUsed()
 	}
 
+	/**
+	 * Pair every native tool call of the assistant message with exactly one tool_result block
+	 *
+	 * Providers reject a turn where a tool_use has no matching tool_result, so tool calls that were
+	 * skipped (a previous tool was rejected or already used) get a placeholder result. Tool results
+	 * are moved to the front of the user message, as the Anthropic API requires.
+	 */
+	static pairNativeToolResults<T extends Anthropic.ContentBlockParam>(
+		toolUseIds: string[],
+		userMessageContent: T[],
+		placeholder = "(tool was not executed)",
+	): (T | Anthropic.ToolResultBlockParam)[] {
+		const toolResults = userMessageContent.filter(
+			(block): block is T & Anthropic.ToolResultBlockParam => block.type === "tool_result",
+		)
+		const otherBlocks = userMessageContent.filter((block) => block.type !== "tool_result")
+
+		const pairedResults = toolUseIds.map(
+			(id): Anthropic.ToolResultBlockParam =>
+				toolResults.find((result) => result.tool_use_id === id) ?? {
+					type: "tool_result",
+					tool_use_id: id,
+					content: placeholder,
+				},
+		)
+		return [...pairedResults, ...otherBlocks]
+	}
+
 	/**
 	 * Push additional tool feedback from user to message content
 	 */
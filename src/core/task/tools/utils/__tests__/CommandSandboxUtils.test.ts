@@ -0,0 +1,83 @@
+import { spawnSync } from "node:child_process"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { describe, it } from "mocha"
+import "should"
+import { CommandSandboxUtils } from "../CommandSandboxUtils"
+
+const options = {
+	bwrapPath: "/usr/bin/bwrap",
+	cwd: "/work/app",
+	writablePaths: ["/work/app", "/home/me/my cache"],
+	allowNetwork: false,
+}
+
+describe("CommandSandboxUtils.wrap", () => {
+	it("should mount the filesystem read-only with writable paths and no network", () => {
+		const wrapped = CommandSandboxUtils.wrap("npm test && echo 'done'", options)
+
+		wrapped.should.startWith(
+			"/usr/bin/bwrap --ro-bind / / --dev /dev --proc /proc --tmpfs /tmp --bind-try /work/app /work/app " +
+				"--bind-try '/home/me/my cache' '/home/me/my cache' --unshare-all --die-with-parent --new-session " +
+				"--chdir /work/app -- /bin/sh -c ",
+		)
+		wrapped.should.endWith(` sh 'npm test && echo '\\''done'\\'''`)
+	})
+
+	it("should run the command unchanged and report failures", () => {
+		// Run what bwrap would run, without the sandbox
+		const run = (command: string) => {
+			const wrapped = CommandSandboxUtils.wrap(command, options)
+			const result = spawnSync("/bin/sh", ["-c", wrapped.slice(wrapped.indexOf("/bin/sh -c "))], { encoding: "utf8" })
+			return { status: result.status, output: result.stdout + result.stderr }
+		}
+
+		run("echo 'it works'").should.deepEqual({ status: 0, output: "it works\n" })
+		run("echo oops >&2; exit 3").should.deepEqual({ status: 3, output: "oops\n\n[sandbox] exit status 3\n" })
+	})
+
+	it("should share the network when allowed", () => {
+		CommandSandboxUtils.wrap("curl example.com", { ...options, allowNetwork: true }).should.containEql(
+			"--unshare-all --share-net",
+		)
+	})
+})
+
+describe("CommandSandboxUtils.detectBlock", () => {
+	const failed = (output: string) => `${output}\n[sandbox] exit status 1\n`
+	const noNetwork = { allowNetwork: false }
+
+	it("should recognize writes outside the workspace and network access", () => {
+		const detect = (output: string) => CommandSandboxUtils.detectBlock(output, noNetwork)?.reason
+		detect(failed("touch: cannot touch '/etc/x': Read-only file system"))!.should.equal("filesystem")
+		detect(failed("curl: (6) Could not resolve host: example.com"))!.should.equal("network")
+		detect("bwrap: No permissions to creating new namespace")!.should.equal("unavailable")
+	})
+
+	it("should leave ordinary failures and successful commands alone", () => {
+		;(CommandSandboxUtils.detectBlock(failed("npm ERR! Test failed."), noNetwork) === undefined).should.be.true()
+		;(CommandSandboxUtils.detectBlock("grep found: Read-only file system", noNetwork) === undefined).should.be.true()
+	})
+
+	it("should not blame the sandbox for network errors when the network is allowed", () => {
+		const output = failed("curl: (6) Could not resolve host: example.com")
+		;(CommandSandboxUtils.detectBlock(output, { allowNetwork: true }) === undefined).should.be.true()
+	})
+})
+
+describe("CommandSandboxUtils.findBwrap", () => {
+	it("should only sandbox on Linux with bwrap on the PATH", () => {
+		const binDir = fs.mkdtempSync(path.join(os.tmpdir(), "sandbox-bin-"))
+		try {
+			const bwrap = path.join(binDir, "bwrap")
+			fs.writeFileSync(bwrap, "#!/bin/sh\n", { mode: 0o755 })
+
+			CommandSandboxUtils.findBwrap("linux", binDir)!.should.equal(bwrap)
+			;(CommandSandboxUtils.findBwrap("darwin", binDir) === undefined).should.be.true()
+			;(CommandSandboxUtils.findBwrap("linux", path.join(binDir, "missing")) === undefined).should.be.true()
+		} finally {
+			fs.rmSync(binDir, { recursive: true, force: true })
+		}
+	})
+})
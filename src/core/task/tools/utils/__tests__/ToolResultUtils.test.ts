@@ -0,0 +1,33 @@
+import type { Anthropic } from "@anthropic-ai/sdk"
+import { describe, it } from "mocha"
+import "should"
+import { ToolResultUtils } from "../ToolResultUtils"
+
+describe("ToolResultUtils.pairNativeToolResults", () => {
+	it("should put one result per tool call first, in call order", () => {
+		const content: (Anthropic.TextBlockParam | Anthropic.ToolResultBlockParam)[] = [
+			{ type: "text", text: "<environment_details />" },
+			{ type: "tool_result", tool_use_id: "call_2", content: "second" },
+			{ type: "tool_result", tool_use_id: "call_1", content: "first" },
+		]
+
+		ToolResultUtils.pairNativeToolResults(["call_1", "call_2"], content).should.deepEqual([
+			{ type: "tool_result", tool_use_id: "call_1", content: "first" },
+			{ type: "tool_result", tool_use_id: "call_2", content: "second" },
+			{ type: "text", text: "<environment_details />" },
+		])
+	})
+
+	it("should fill in results for tool calls that never ran", () => {
+		const paired = ToolResultUtils.pairNativeToolResults(
+			["call_1", "call_2"],
+			[{ type: "tool_result", tool_use_id: "call_1", content: "done" }],
+			"(interrupted)",
+		)
+
+		paired.should.deepEqual([
+			{ type: "tool_result", tool_use_id: "call_1", content: "done" },
+			{ type: "tool_result", tool_use_id: "call_2", content: "(interrupted)" },
+		])
+	})
+})
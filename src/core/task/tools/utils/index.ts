@@ -1,3 +1,5 @@
+export * from "./CommandPolicyUtils"
+export * from "./CommandSandboxUtils"
 export * from "./ToolConstants"
 export { ToolDisplayUtils } from "./ToolDisplayUtils"
 export { ToolResultUtils } from "./ToolResultUtils"
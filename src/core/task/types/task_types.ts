@@ -4,6 +4,7 @@ import { StateManager } from "@core/storage/StateManager"
 import { WorkspaceRootManager } from "@core/workspace/WorkspaceRootManager"
 import { McpHub } from "@services/mcp/McpHub"
 import { HistoryItem } from "@shared/HistoryItem"
+import type { SubagentTaskFactory } from "../subagents/types"
 
 /**
  * Tool response type - can be string or array of content blocks
@@ -38,6 +39,10 @@ export interface TaskParams {
 	files?: string[]
 	historyItem?: HistoryItem
 	taskId: string
+	// Set when the task runs as a sub-agent of another task; it then stays off the webview and out of MCP notifications
+	parentTaskId?: string
+	// Starts a sub-agent of this task; absent for sub-agents, which can't fan out further
+	startSubagentTask?: SubagentTaskFactory
 }
 
 /**
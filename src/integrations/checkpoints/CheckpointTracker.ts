@@ -3,7 +3,8 @@ import * as path from "path"
 import simpleGit from "simple-git"
 import { Logger } from "@/services/logging/Logger"
 import { GitOperations } from "./CheckpointGitOperations"
-import { getShadowGitPath, hashWorkingDir } from "./CheckpointUtils"
+import { getShadowGitPath, hashWorkingDir, parseNameStatus, toCheckpointRelativePaths } from "./CheckpointUtils"
+import type { CheckpointFileChange } from "./types"
 
 /**
  * CheckpointTracker Module
@@ -37,6 +38,9 @@ import { getShadowGitPath, hashWorkingDir } from "./CheckpointUtils"
  * - All commits for a workspace are stored in one shadow git, under a single branch
  */
 
+// Pending commits per shadow git, so tasks sharing a workspace (e.g. parallel sub-agents) commit one at a time
+const commitQueues = new Map<string, Promise<unknown>>()
+
 class CheckpointTracker {
 	private taskId: string
 	private cwd: string
@@ -150,6 +154,7 @@ class CheckpointTracker {
 	 * Commit structure:
 	 * - Commit message: "checkpoint-{cwdHash}-{taskId}"
 	 * - Always allows empty commits
+	 * - Commits to the same shadow git run one at a time, since concurrent ones would fight over git's index lock
 	 *
 	 * Dependencies:
 	 * - Requires initialized shadow git (getShadowGitPath)
@@ -166,6 +171,19 @@ class CheckpointTracker {
 	 * - Stage or commit files
 	 */
 	public async commit(): Promise<string | undefined> {
+		const previous = commitQueues.get(this.cwdHash) ?? Promise.resolve()
+		const current = previous.catch(() => {}).then(() => this.commitNow())
+		commitQueues.set(this.cwdHash, current)
+		try {
+			return await current
+		} finally {
+			if (commitQueues.get(this.cwdHash) === current) {
+				commitQueues.delete(this.cwdHash)
+			}
+		}
+	}
+
+	private async commitNow(): Promise<string | undefined> {
 		try {
 			const startTime = performance.now()
 
@@ -361,6 +379,78 @@ class CheckpointTracker {
 
 		return diffSummary.files.length
 	}
+
+	/**
+	 * Returns the paths and change type of files changed between one commit and either
+	 * another commit or the current working directory, without reading file contents.
+	 *
+	 * @param lhsHash - The commit to compare from (older commit)
+	 * @param rhsHash - The commit to compare to (newer commit).
+	 *                  If omitted, we compare to the working directory.
+	 * @returns The changed files relative to the workspace root
+	 */
+	public async getChangedFiles(lhsHash: string, rhsHash?: string): Promise<CheckpointFileChange[]> {
+		const gitPath = await getShadowGitPath(this.cwdHash)
+		const git = simpleGit(path.dirname(gitPath))
+
+		const cleanRhs = rhsHash ? this.cleanCommitHash(rhsHash) : undefined
+		if (!cleanRhs) {
+			// Stage all changes so that untracked files appear in the diff
+			await this.gitOperations.addCheckpointFiles(git)
+		}
+
+		const diffRange = cleanRhs ? `${this.cleanCommitHash(lhsHash)}..${cleanRhs}` : this.cleanCommitHash(lhsHash)
+		const output = await git.raw(["diff", "--name-status", "--no-renames", "-z", diffRange])
+		return parseNameStatus(output)
+	}
+
+	/**
+	 * Restores only the given files to their state in a checkpoint, leaving the rest of
+	 * the workspace and the shadow git HEAD untouched. Files that did not exist in the
+	 * checkpoint are removed from the workspace.
+	 *
+	 * @param commitHash - The hash of the checkpoint commit to restore from
+	 * @param filePaths - Absolute or workspace-relative paths of the files to restore
+	 * @returns The relative paths that were restored and those that were deleted
+	 * @throws Error if a path is outside the workspace or git fails to check out a file
+	 */
+	public async restoreFiles(commitHash: string, filePaths: string[]): Promise<{ restored: string[]; deleted: string[] }> {
+		const relativePaths = toCheckpointRelativePaths(this.cwd, filePaths)
+		const cleanHash = this.cleanCommitHash(commitHash)
+
+		const gitPath = await getShadowGitPath(this.cwdHash)
+		const git = simpleGit(path.dirname(gitPath))
+
+		const restored: string[] = []
+		const deleted: string[] = []
+		for (const relativePath of relativePaths) {
+			const existsInCheckpoint = await git
+				.raw(["cat-file", "-e", `${cleanHash}:${relativePath}`])
+				.then(() => true)
+				.catch(() => false)
+
+			if (existsInCheckpoint) {
+				// Literal pathspec so names containing glob characters are not expanded
+				await git.raw(["checkout", cleanHash, "--", `:(top,literal)${relativePath}`])
+				restored.push(relativePath)
+				continue
+			}
+
+			try {
+				await fs.unlink(path.join(this.cwd, relativePath))
+				deleted.push(relativePath)
+			} catch (error) {
+				if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+					throw error
+				}
+			}
+		}
+
+		Logger.info(
+			`[CheckpointTracker] Restored ${restored.length} and removed ${deleted.length} file(s) from checkpoint ${cleanHash} for task ${this.taskId}`,
+		)
+		return { restored, deleted }
+	}
 }
 
 export default CheckpointTracker
@@ -3,6 +3,7 @@ import os from "os"
 import * as path from "path"
 import { HostProvider } from "@/hosts/host-provider"
 import { getCwd, getDesktopDir } from "@/utils/path"
+import type { CheckpointFileChange } from "./types"
 
 /**
  * Gets the path to the shadow Git repository in globalStorage.
@@ -112,3 +113,38 @@ export function hashWorkingDir(workingDir: string): string {
 	const numericHash = bigHash.toString().slice(0, 13)
 	return numericHash
 }
+
+/**
+ * Parses the output of `git diff --name-status -z --no-renames` into file changes.
+ * Type changes and any other non add/delete status are reported as modifications.
+ * @param output - NUL-separated status/path pairs
+ * @returns The changed files in the order git reported them
+ */
+export function parseNameStatus(output: string): CheckpointFileChange[] {
+	const parts = output.split("\0").filter((part) => part.length > 0)
+	const changes: CheckpointFileChange[] = []
+	for (let i = 0; i + 1 < parts.length; i += 2) {
+		const code = parts[i].charAt(0)
+		const status = code === "A" ? "added" : code === "D" ? "deleted" : "modified"
+		changes.push({ relativePath: parts[i + 1], status })
+	}
+	return changes
+}
+
+/**
+ * Normalizes user-supplied paths to forward-slash paths relative to the workspace.
+ * @param cwd - The absolute path to the workspace directory
+ * @param filePaths - Absolute or workspace-relative file paths
+ * @returns The de-duplicated relative paths
+ * @throws Error if a path resolves to the workspace root or outside of it
+ */
+export function toCheckpointRelativePaths(cwd: string, filePaths: string[]): string[] {
+	const relativePaths = filePaths.map((filePath) => {
+		const relativePath = path.relative(cwd, path.resolve(cwd, filePath))
+		if (!relativePath || relativePath === ".." || relativePath.startsWith(`..${path.sep}`) || path.isAbsolute(relativePath)) {
+			throw new Error(`Path is outside of the workspace: ${filePath}`)
+		}
+		return relativePath.split(path.sep).join("/")
+	})
+	return Array.from(new Set(relativePaths))
+}
@@ -0,0 +1,109 @@
+import type { ClineMessage } from "@shared/ExtensionMessage"
+import { expect } from "chai"
+import * as path from "path"
+import sinon from "sinon"
+import { Logger } from "@/services/logging/Logger"
+import type CheckpointTracker from "../CheckpointTracker"
+import { parseNameStatus, toCheckpointRelativePaths } from "../CheckpointUtils"
+import type { MessageStateCoordinator } from "../coordinators/message_state_coordinator"
+import { CheckpointLister } from "../operations/checkpoint_lister"
+
+describe("parseNameStatus", () => {
+	it("maps git status letters to change types", () => {
+		const output = ["A", "src/new.ts", "M", "src/app.ts", "D", "old.txt", "T", "link", ""].join("\0")
+		expect(parseNameStatus(output)).to.deep.equal([
+			{ relativePath: "src/new.ts", status: "added" },
+			{ relativePath: "src/app.ts", status: "modified" },
+			{ relativePath: "old.txt", status: "deleted" },
+			{ relativePath: "link", status: "modified" },
+		])
+	})
+
+	it("keeps paths containing spaces and tabs intact", () => {
+		expect(parseNameStatus("M\0docs/read me\t.md\0")).to.deep.equal([
+			{ relativePath: "docs/read me\t.md", status: "modified" },
+		])
+	})
+
+	it("returns no changes for empty output", () => {
+		expect(parseNameStatus("")).to.deep.equal([])
+	})
+})
+
+describe("toCheckpointRelativePaths", () => {
+	const cwd = path.resolve("/workspace/project")
+
+	it("accepts relative and absolute paths inside the workspace", () => {
+		expect(toCheckpointRelativePaths(cwd, ["src/a.ts", path.join(cwd, "src", "b.ts"), "./src/a.ts"])).to.deep.equal([
+			"src/a.ts",
+			"src/b.ts",
+		])
+	})
+
+	it("rejects paths outside the workspace", () => {
+		expect(() => toCheckpointRelativePaths(cwd, ["../other/file.ts"])).to.throw("outside of the workspace")
+		expect(() => toCheckpointRelativePaths(cwd, [path.resolve("/etc/passwd")])).to.throw("outside of the workspace")
+		expect(() => toCheckpointRelativePaths(cwd, ["."])).to.throw("outside of the workspace")
+	})
+
+	it("allows names that merely start with two dots", () => {
+		expect(toCheckpointRelativePaths(cwd, ["..env"])).to.deep.equal(["..env"])
+	})
+})
+
+describe("CheckpointLister", () => {
+	afterEach(() => {
+		sinon.restore()
+	})
+
+	const makeLister = (messages: ClineMessage[], tracker?: Partial<CheckpointTracker>) =>
+		new CheckpointLister(
+			{ taskId: "task-1" },
+			{ getClineMessages: () => messages } as unknown as MessageStateCoordinator,
+			() => tracker as CheckpointTracker | undefined,
+		)
+
+	const messages: ClineMessage[] = [
+		{ ts: 1, type: "say", say: "text", text: "hello" },
+		{ ts: 2, type: "say", say: "checkpoint_created", lastCheckpointHash: "aaa" },
+		{ ts: 3, type: "say", say: "checkpoint_created", lastCheckpointHash: "bbb", isCheckpointCheckedOut: true },
+		{ ts: 4, type: "say", say: "completion_result", text: "done", lastCheckpointHash: "bbb" },
+		{ ts: 5, type: "say", say: "completion_result", text: "done again", lastCheckpointHash: "ccc" },
+	]
+
+	it("lists checkpoints in order with the files changed since the previous one", async () => {
+		const ranges: string[] = []
+		const lister = makeLister(messages, {
+			getChangedFiles: async (lhs: string, rhs?: string) => {
+				ranges.push(`${lhs}..${rhs}`)
+				return [{ relativePath: `${rhs}.ts`, status: "modified" as const }]
+			},
+		})
+
+		const checkpoints = await lister.list()
+
+		expect(ranges).to.deep.equal(["aaa..bbb", "bbb..ccc"])
+		expect(
+			checkpoints.map(({ messageTs, hash, type, isCheckedOut }) => ({ messageTs, hash, type, isCheckedOut })),
+		).to.deep.equal([
+			{ messageTs: 2, hash: "aaa", type: "checkpoint", isCheckedOut: false },
+			{ messageTs: 3, hash: "bbb", type: "checkpoint", isCheckedOut: true },
+			{ messageTs: 5, hash: "ccc", type: "completion", isCheckedOut: false },
+		])
+		expect(checkpoints[0].changedFiles).to.deep.equal([])
+		expect(checkpoints[2].changedFiles).to.deep.equal([{ relativePath: "ccc.ts", status: "modified" }])
+	})
+
+	it("still lists checkpoints when there is no tracker or a diff fails", async () => {
+		expect((await makeLister(messages).list()).map((checkpoint) => checkpoint.changedFiles)).to.deep.equal([[], [], []])
+
+		const warnStub = sinon.stub(Logger, "warn")
+		const failing = makeLister(messages, {
+			getChangedFiles: async () => {
+				throw new Error("bad object")
+			},
+		})
+		expect(await failing.list()).to.have.length(3)
+		expect(warnStub.calledTwice).to.be.true
+	})
+})
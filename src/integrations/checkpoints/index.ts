@@ -13,10 +13,11 @@ import { CheckpointUICoordinator } from "./coordinators/ui_coordinator"
 import { TrackerInitializer } from "./initialization/tracker_initializer"
 import { WorkspaceResolver } from "./initialization/workspace_resolver"
 import { CheckpointDiffPresenter } from "./operations/checkpoint_diff_presenter"
+import { CheckpointLister } from "./operations/checkpoint_lister"
 import { CheckpointRestorer } from "./operations/checkpoint_restorer"
 import { CheckpointSaver } from "./operations/checkpoint_saver"
 import { CheckpointValidator } from "./operations/checkpoint_validator"
-import type { ICheckpointManager } from "./types"
+import type { CheckpointSummary, ICheckpointManager } from "./types"
 import { CheckpointStateManager } from "./utils/checkpoint_state_manager"
 
 // Type definitions for callbacks
@@ -83,7 +84,7 @@ interface CheckpointManagerInternalState {
  *
  * Architecture:
  * - Coordinators: UI, MessageState, Restoration
- * - Operations: Validator, Saver, DiffPresenter, Restorer
+ * - Operations: Validator, Saver, DiffPresenter, Restorer, Lister
  * - Initialization: TrackerInitializer, WorkspaceResolver
  * - Utils: CheckpointStateManager
  *
@@ -91,6 +92,8 @@ interface CheckpointManagerInternalState {
  * - saveCheckpoint: Creates a new checkpoint
  * - restoreCheckpoint: Restores to a previous checkpoint
  * - presentMultifileDiff: Shows diff between checkpoints
+ * - listCheckpoints: Lists checkpoints with their changed files
+ * - restoreFiles: Restores selected files from a checkpoint
  * - doesLatestTaskCompletionHaveNewChanges: Checks for new changes
  * - commit: Creates a commit
  */
@@ -115,6 +118,7 @@ export class TaskCheckpointManager implements ICheckpointManager {
 	private readonly saver: CheckpointSaver
 	private readonly diffPresenter: CheckpointDiffPresenter
 	private readonly restorer: CheckpointRestorer
+	private readonly lister: CheckpointLister
 
 	constructor(
 		task: CheckpointManagerTask,
@@ -181,6 +185,10 @@ export class TaskCheckpointManager implements ICheckpointManager {
 			(tracker) => this.stateManager.setCheckpointTracker(tracker),
 			(message) => this.stateManager.setErrorMessage(message),
 		)
+
+		this.lister = new CheckpointLister({ taskId: task.taskId }, this.messageCoordinator, () =>
+			this.stateManager.getCheckpointTracker(),
+		)
 	}
 
 	// ============================================================================
@@ -240,6 +248,25 @@ export class TaskCheckpointManager implements ICheckpointManager {
 		await this.diffPresenter.presentDiff(messageTs, seeNewChangesSinceLastTaskCompletion)
 	}
 
+	/**
+	 * Lists the task's checkpoints with the files each one changed
+	 */
+	async listCheckpoints(): Promise<CheckpointSummary[]> {
+		// Initialize tracker if needed to compute changed files
+		if (!this.stateManager.getCheckpointTracker() && this.config.enableCheckpoints && !this.stateManager.getErrorMessage()) {
+			await this.checkpointTrackerCheckAndInit()
+		}
+
+		return await this.lister.list()
+	}
+
+	/**
+	 * Restores selected files from a checkpoint without touching the conversation
+	 */
+	async restoreFiles(hash: string, filePaths: string[]): Promise<{ restored: string[]; deleted: string[] }> {
+		return await this.restorer.restoreFiles(hash, filePaths)
+	}
+
 	/**
 	 * Checks if the latest task completion has new changes
 	 */
@@ -0,0 +1,66 @@
+import { Logger } from "@/services/logging/Logger"
+import type CheckpointTracker from "../CheckpointTracker"
+import type { MessageStateCoordinator } from "../coordinators/message_state_coordinator"
+import type { CheckpointFileChange, CheckpointSummary } from "../types"
+
+/**
+ * Configuration for checkpoint listing
+ */
+export interface CheckpointListerConfig {
+	readonly taskId: string
+}
+
+/**
+ * Lists the checkpoints of a task in timeline order
+ * Each checkpoint carries the files it changed relative to the checkpoint before it
+ */
+export class CheckpointLister {
+	constructor(
+		private readonly config: CheckpointListerConfig,
+		private readonly messageCoordinator: MessageStateCoordinator,
+		private readonly getTracker: () => CheckpointTracker | undefined,
+	) {}
+
+	/**
+	 * List every checkpoint with its changed-file set
+	 * @returns The checkpoints, oldest first. Changed files are empty when no tracker is available.
+	 */
+	async list(): Promise<CheckpointSummary[]> {
+		const tracker = this.getTracker()
+		const checkpoints: CheckpointSummary[] = []
+		let previousHash: string | undefined
+
+		for (const message of this.messageCoordinator.getClineMessages()) {
+			const hash = message.lastCheckpointHash
+			// Completion messages reuse the hash of the checkpoint before them when nothing changed
+			if (!hash || hash === previousHash) {
+				continue
+			}
+
+			checkpoints.push({
+				messageTs: message.ts,
+				hash,
+				type: message.say === "completion_result" || message.ask === "completion_result" ? "completion" : "checkpoint",
+				isCheckedOut: message.isCheckpointCheckedOut === true,
+				changedFiles: tracker && previousHash ? await this.getChangedFiles(tracker, previousHash, hash) : [],
+			})
+			previousHash = hash
+		}
+
+		return checkpoints
+	}
+
+	/**
+	 * Get the files changed between two checkpoints, tolerating commits that no longer exist
+	 */
+	private async getChangedFiles(tracker: CheckpointTracker, lhsHash: string, rhsHash: string): Promise<CheckpointFileChange[]> {
+		try {
+			return await tracker.getChangedFiles(lhsHash, rhsHash)
+		} catch (error) {
+			Logger.warn(
+				`[CheckpointLister] Failed to diff checkpoints ${lhsHash}..${rhsHash} for task ${this.config.taskId}: ${error instanceof Error ? error.message : String(error)}`,
+			)
+			return []
+		}
+	}
+}
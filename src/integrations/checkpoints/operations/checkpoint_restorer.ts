@@ -76,6 +76,40 @@ export class CheckpointRestorer {
 		}
 	}
 
+	/**
+	 * Restore selected files from one of this task's checkpoints
+	 * Unlike restore(), this leaves the conversation and the rest of the workspace untouched
+	 * @param hash - Hash of the checkpoint to restore from
+	 * @param filePaths - Absolute or workspace-relative paths of the files to restore
+	 * @returns The relative paths that were restored and those that were deleted
+	 * @throws Error if checkpoints are unavailable or the hash is not a checkpoint of this task
+	 */
+	async restoreFiles(hash: string, filePaths: string[]): Promise<{ restored: string[]; deleted: string[] }> {
+		if (!this.config.enableCheckpoints) {
+			throw new Error("Checkpoints are disabled for this task")
+		}
+		if (!hash || filePaths.length === 0) {
+			throw new Error("A checkpoint hash and at least one file are required")
+		}
+
+		const checkpointHash = this.messageCoordinator
+			.getClineMessages()
+			.find(
+				(m) => m.lastCheckpointHash && (m.lastCheckpointHash === hash || m.lastCheckpointHash.startsWith(hash)),
+			)?.lastCheckpointHash
+		if (!checkpointHash) {
+			throw new Error(`No checkpoint ${hash} found in task ${this.config.taskId}`)
+		}
+
+		const initSuccess = await this.ensureTrackerInitialized()
+		const tracker = this.getTracker()
+		if (!initSuccess || !tracker) {
+			throw new Error("Checkpoint tracker is not available")
+		}
+
+		return await tracker.restoreFiles(checkpointHash, filePaths)
+	}
+
 	/**
 	 * Find the message to restore to
 	 */
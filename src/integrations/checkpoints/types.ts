@@ -13,9 +13,33 @@ export interface ICheckpointManager {
 
 	presentMultifileDiff?(messageTs: number, seeNewChangesSinceLastTaskCompletion: boolean): Promise<void>
 
+	// Optional methods for inspecting checkpoints and restoring individual files
+	listCheckpoints?(): Promise<CheckpointSummary[]>
+
+	restoreFiles?(hash: string, filePaths: string[]): Promise<{ restored: string[]; deleted: string[] }>
+
 	// Optional method for multi-root specific initialization
 	initialize?(): Promise<void>
 
 	// Optional method for checking and initializing checkpoint tracker
 	checkpointTrackerCheckAndInit?(): Promise<any>
 }
+
+/**
+ * A file changed by a checkpoint, relative to the workspace root
+ */
+export interface CheckpointFileChange {
+	relativePath: string
+	status: "added" | "modified" | "deleted"
+}
+
+/**
+ * A checkpoint in the task timeline with the files it changed since the previous checkpoint
+ */
+export interface CheckpointSummary {
+	messageTs: number
+	hash: string
+	type: "checkpoint" | "completion"
+	isCheckedOut: boolean
+	changedFiles: CheckpointFileChange[]
+}
@@ -0,0 +1,167 @@
+import { DiagnosticSeverity } from "@shared/proto/index.cline"
+import { expect } from "chai"
+import * as fs from "fs/promises"
+import { describe, it } from "mocha"
+import * as os from "os"
+import * as path from "path"
+import sinon from "sinon"
+import { Logger } from "@/services/logging/Logger"
+import { BUILTIN_DIAGNOSTIC_CHECKERS, DiagnosticCheckerRunner, parseCheckerOutput, resolveDiagnosticCheckers } from "../checkers"
+
+const CWD = path.resolve("/workspace")
+
+describe("Diagnostic checkers", () => {
+	describe("parseCheckerOutput", () => {
+		it("should parse tsc output with 0-indexed positions", () => {
+			const output = [
+				"src/a.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+				"Found 1 error in src/a.ts:3",
+			].join("\n")
+
+			expect(parseCheckerOutput("tsc", output, CWD, "tsc")).to.deep.equal([
+				{
+					filePath: path.join(CWD, "src/a.ts"),
+					diagnostics: [
+						{
+							message: "Type 'string' is not assignable to type 'number'. (TS2322)",
+							range: { start: { line: 2, character: 6 }, end: { line: 2, character: 6 } },
+							severity: DiagnosticSeverity.DIAGNOSTIC_ERROR,
+							source: "tsc",
+						},
+					],
+				},
+			])
+		})
+
+		it("should parse eslint JSON and keep its severities", () => {
+			const output = JSON.stringify([
+				{
+					filePath: path.join(CWD, "src/a.js"),
+					messages: [
+						{
+							ruleId: "no-undef",
+							severity: 2,
+							message: "'x' is not defined.",
+							line: 1,
+							column: 1,
+							endLine: 1,
+							endColumn: 2,
+						},
+						{ ruleId: "no-console", severity: 1, message: "Unexpected console statement.", line: 4, column: 3 },
+					],
+				},
+			])
+
+			const [file] = parseCheckerOutput("eslint", output, CWD, "eslint")
+
+			expect(file.diagnostics.map((diagnostic) => [diagnostic.message, diagnostic.severity])).to.deep.equal([
+				["'x' is not defined. (no-undef)", DiagnosticSeverity.DIAGNOSTIC_ERROR],
+				["Unexpected console statement. (no-console)", DiagnosticSeverity.DIAGNOSTIC_WARNING],
+			])
+			expect(file.diagnostics[0].range?.end).to.deep.equal({ line: 0, character: 1 })
+		})
+
+		it("should parse ruff JSON", () => {
+			const output = JSON.stringify([
+				{
+					filename: path.join(CWD, "app.py"),
+					code: "F401",
+					message: "`os` imported but unused",
+					location: { row: 1, column: 8 },
+					end_location: { row: 1, column: 10 },
+				},
+			])
+
+			const [file] = parseCheckerOutput("ruff", output, CWD, "ruff")
+
+			expect(file.filePath).to.equal(path.join(CWD, "app.py"))
+			expect(file.diagnostics[0]).to.include({ message: "`os` imported but unused (F401)", source: "ruff" })
+		})
+
+		it("should parse go vet, cargo and mypy style output and skip notes", () => {
+			const output = [
+				"# example.com/app",
+				"vet: main.go:5:2: undefined: foo",
+				"src/main.rs:2:5: error[E0425]: cannot find value `y` in this scope",
+				"src/lib.rs:9:1: warning: function `unused` is never used",
+				"app.py:12: error: Incompatible return value type  [return-value]",
+				"app.py:12: note: See the docs",
+				'error: could not compile `app` (bin "app") due to 1 previous error',
+			].join("\n")
+
+			const files = parseCheckerOutput("gnu", output, CWD, "check")
+
+			expect(
+				files.flatMap((file) =>
+					file.diagnostics.map((diagnostic) => [
+						path.relative(CWD, file.filePath),
+						diagnostic.range?.start?.line,
+						diagnostic.severity,
+					]),
+				),
+			).to.deep.equal([
+				["main.go", 4, DiagnosticSeverity.DIAGNOSTIC_ERROR],
+				["src/main.rs", 1, DiagnosticSeverity.DIAGNOSTIC_ERROR],
+				["src/lib.rs", 8, DiagnosticSeverity.DIAGNOSTIC_WARNING],
+				["app.py", 11, DiagnosticSeverity.DIAGNOSTIC_ERROR],
+			])
+			expect(files[1].diagnostics[0].message).to.equal("cannot find value `y` in this scope (E0425)")
+		})
+
+		it("should ignore output it can't parse", () => {
+			expect(parseCheckerOutput("eslint", "Oops! Something went wrong!", CWD, "eslint")).to.deep.equal([])
+			expect(parseCheckerOutput("eslint", '[null, {"filePath": "a.js", "messages": "none"}]', CWD, "eslint")).to.deep.equal(
+				[],
+			)
+			expect(parseCheckerOutput("ruff", '[{"code": "F401"}]', CWD, "ruff")).to.deep.equal([])
+		})
+	})
+
+	describe("resolveDiagnosticCheckers", () => {
+		afterEach(() => {
+			sinon.restore()
+		})
+
+		it("should apply overrides, disable checkers and add complete custom ones", () => {
+			const warnStub = sinon.stub(Logger, "warn")
+			const checkers = resolveDiagnosticCheckers({
+				eslint: false,
+				ruff: { enabled: false },
+				tsc: { timeoutMs: 5000 },
+				mypy: { extensions: [".py"], command: "mypy", args: ["{file}"], format: "gnu" },
+				broken: { command: "lint" },
+			})
+
+			expect(Object.keys(checkers)).to.deep.equal(["tsc", "go-vet", "cargo", "mypy"])
+			expect(checkers.tsc).to.deep.equal({ ...BUILTIN_DIAGNOSTIC_CHECKERS.tsc, timeoutMs: 5000 })
+			expect(warnStub.calledOnce).to.be.true
+		})
+	})
+
+	describe("DiagnosticCheckerRunner", () => {
+		it("should run matching checkers with the file substituted and skip missing tools", async () => {
+			const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "diagnostic-checkers-"))
+			try {
+				const runner = new DiagnosticCheckerRunner(cwd, {
+					echo: {
+						extensions: [".py"],
+						command: process.execPath,
+						args: ["-e", "console.error(process.argv[1] + ':3:1: error: bad')", "{file}"],
+						format: "gnu",
+					},
+					missing: { extensions: [".py"], command: "definitely-not-a-real-checker", args: [], format: "gnu" },
+					gated: { extensions: [".py"], command: process.execPath, args: [], format: "gnu", requires: ["setup.cfg"] },
+					other: { extensions: [".go"], command: process.execPath, args: [], format: "gnu" },
+				})
+
+				const diagnostics = await runner.check(path.join(cwd, "pkg", "app.py"))
+
+				expect(diagnostics).to.have.length(1)
+				expect(diagnostics[0].filePath).to.equal(path.join(cwd, "pkg", "app.py"))
+				expect(diagnostics[0].diagnostics[0]).to.include({ message: "bad", source: "echo" })
+			} finally {
+				await fs.rm(cwd, { recursive: true, force: true })
+			}
+		})
+	})
+})
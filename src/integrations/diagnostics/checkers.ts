@@ -0,0 +1,310 @@
+import { execa } from "@packages/execa"
+import { Logger } from "@services/logging/Logger"
+import * as fs from "fs/promises"
+import * as path from "path"
+import { Diagnostic, DiagnosticSeverity, FileDiagnostics } from "@/shared/proto/index.cline"
+
+/**
+ * How a checker's output is parsed
+ *
+ * - `tsc`: `file(line,col): error TS1234: message`, as printed by `tsc --pretty false`
+ * - `eslint`: `eslint --format json`
+ * - `ruff`: `ruff check --output-format json`
+ * - `gnu`: `file:line[:col]: [error|warning[code]:] message`, as printed by `go vet`, `cargo check --message-format short` and mypy
+ */
+export type DiagnosticCheckerFormat = "tsc" | "eslint" | "ruff" | "gnu"
+
+export interface DiagnosticCheckerConfig {
+	/** Extensions of the files the checker runs for, e.g. ".ts" */
+	extensions: string[]
+	command: string
+	/** `{file}` and `{dir}` are replaced with the edited file and its directory, relative to the workspace */
+	args: string[]
+	format: DiagnosticCheckerFormat
+	/** The checker only runs when at least one of these exists in the workspace, e.g. its config file */
+	requires?: string[]
+	timeoutMs?: number
+	enabled?: boolean
+}
+
+/**
+ * Per-checker overrides from the user's configuration, keyed by checker name. `false` turns a
+ * checker off; a new name adds a custom checker, which must then set extensions, command and format.
+ */
+export type DiagnosticCheckerOverrides = Record<string, Partial<DiagnosticCheckerConfig> | false>
+
+const DEFAULT_TIMEOUT_MS = 60_000
+
+/** One file's results in `eslint --format json`; only checked for its shape before use */
+interface EslintFileResult {
+	filePath: string
+	messages: {
+		message: string
+		ruleId?: string | null
+		severity: number
+		line?: number
+		column?: number
+		endLine?: number
+		endColumn?: number
+	}[]
+}
+
+/** One problem in `ruff check --output-format json`; only checked for its shape before use */
+interface RuffProblem {
+	filename: string
+	message: string
+	code?: string | null
+	location?: { row: number; column: number }
+	end_location?: { row: number; column: number }
+}
+
+export const BUILTIN_DIAGNOSTIC_CHECKERS: Record<string, DiagnosticCheckerConfig> = {
+	tsc: {
+		extensions: [".ts", ".tsx", ".mts", ".cts"],
+		command: "npx",
+		args: ["--no-install", "tsc", "--noEmit", "--pretty", "false"],
+		format: "tsc",
+		requires: ["tsconfig.json"],
+	},
+	eslint: {
+		extensions: [".js", ".jsx", ".mjs", ".cjs", ".ts", ".tsx", ".mts", ".cts"],
+		command: "npx",
+		args: ["--no-install", "eslint", "--format", "json", "{file}"],
+		format: "eslint",
+		requires: [
+			"eslint.config.js",
+			"eslint.config.mjs",
+			"eslint.config.cjs",
+			"eslint.config.ts",
+			".eslintrc",
+			".eslintrc.js",
+			".eslintrc.cjs",
+			".eslintrc.json",
+			".eslintrc.yml",
+			".eslintrc.yaml",
+		],
+	},
+	ruff: {
+		extensions: [".py", ".pyi"],
+		command: "ruff",
+		args: ["check", "--output-format", "json", "--no-fix", "{file}"],
+		format: "ruff",
+	},
+	"go-vet": {
+		extensions: [".go"],
+		command: "go",
+		args: ["vet", "./{dir}"],
+		format: "gnu",
+		requires: ["go.mod"],
+	},
+	cargo: {
+		extensions: [".rs"],
+		command: "cargo",
+		args: ["check", "--quiet", "--message-format", "short"],
+		format: "gnu",
+		requires: ["Cargo.toml"],
+	},
+}
+
+/**
+ * Merge the user's overrides into the built-in checkers, dropping disabled and incomplete ones
+ */
+export function resolveDiagnosticCheckers(overrides: DiagnosticCheckerOverrides = {}): Record<string, DiagnosticCheckerConfig> {
+	const checkers: Record<string, DiagnosticCheckerConfig> = {}
+	for (const name of new Set([...Object.keys(BUILTIN_DIAGNOSTIC_CHECKERS), ...Object.keys(overrides)])) {
+		const override = overrides[name]
+		if (override === false) {
+			continue
+		}
+		const checker = { ...BUILTIN_DIAGNOSTIC_CHECKERS[name], ...override } as Partial<DiagnosticCheckerConfig>
+		if (checker.enabled === false) {
+			continue
+		}
+		if (!checker.command || !checker.extensions?.length || !checker.format) {
+			Logger.warn(`[DiagnosticCheckers] Skipping checker "${name}": it needs extensions, command and format`)
+			continue
+		}
+		checkers[name] = { ...checker, args: checker.args ?? [] } as DiagnosticCheckerConfig
+	}
+	return checkers
+}
+
+/**
+ * Parse a checker's output into diagnostics, with file paths resolved against the workspace
+ */
+export function parseCheckerOutput(
+	format: DiagnosticCheckerFormat,
+	output: string,
+	cwd: string,
+	source: string,
+): FileDiagnostics[] {
+	const byFile = new Map<string, Diagnostic[]>()
+	const add = (file: string, diagnostic: Diagnostic) => {
+		const filePath = path.resolve(cwd, file)
+		byFile.set(filePath, [...(byFile.get(filePath) ?? []), diagnostic])
+	}
+
+	switch (format) {
+		case "tsc":
+			for (const match of output.matchAll(/^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/gm)) {
+				const [, file, line, column, severity, code, message] = match
+				add(file, createDiagnostic(message, code, source, toSeverity(severity), [line, column]))
+			}
+			break
+		case "eslint":
+			for (const result of parseJsonArray(output) as EslintFileResult[]) {
+				if (typeof result?.filePath !== "string" || !Array.isArray(result.messages)) {
+					continue
+				}
+				for (const problem of result.messages) {
+					add(
+						result.filePath,
+						createDiagnostic(
+							problem.message,
+							problem.ruleId,
+							source,
+							problem.severity === 2 ? DiagnosticSeverity.DIAGNOSTIC_ERROR : DiagnosticSeverity.DIAGNOSTIC_WARNING,
+							[problem.line ?? 1, problem.column ?? 1],
+							problem.endLine ? [problem.endLine, problem.endColumn ?? problem.column ?? 1] : undefined,
+						),
+					)
+				}
+			}
+			break
+		case "ruff":
+			for (const problem of parseJsonArray(output) as RuffProblem[]) {
+				if (typeof problem?.filename !== "string" || typeof problem.message !== "string") {
+					continue
+				}
+				add(
+					problem.filename,
+					createDiagnostic(
+						problem.message,
+						problem.code,
+						source,
+						DiagnosticSeverity.DIAGNOSTIC_ERROR,
+						[problem.location?.row ?? 1, problem.location?.column ?? 1],
+						problem.end_location ? [problem.end_location.row, problem.end_location.column] : undefined,
+					),
+				)
+			}
+			break
+		case "gnu":
+			for (const match of output.matchAll(
+				/^(?:vet: )?([^\s:][^:]*):(\d+):(?:(\d+):)? (?:(error|warning|note)(?:\[([\w-]+)\])?: )?(.*)$/gm,
+			)) {
+				const [, file, line, column = 1, severity, code, message] = match
+				if (severity !== "note") {
+					add(file, createDiagnostic(message, code, source, toSeverity(severity), [line, column]))
+				}
+			}
+			break
+	}
+
+	return [...byFile.entries()].map(([filePath, diagnostics]) => ({ filePath, diagnostics }))
+}
+
+/**
+ * Runs the configured checkers for edited files, for hosts that can't report diagnostics themselves
+ *
+ * A checker that isn't installed, times out or prints nothing it can parse contributes no
+ * diagnostics, so a missing tool never blocks an edit.
+ */
+export class DiagnosticCheckerRunner {
+	constructor(
+		private cwd: string,
+		private checkers: Record<string, DiagnosticCheckerConfig> = resolveDiagnosticCheckers(),
+	) {}
+
+	/**
+	 * Diagnostics from every checker that applies to the file. Project-wide checkers such as
+	 * tsc also report problems in other files, just like the editor's problems panel.
+	 */
+	async check(filePath: string): Promise<FileDiagnostics[]> {
+		const extension = path.extname(filePath).toLowerCase()
+		const byFile = new Map<string, Diagnostic[]>()
+
+		// One at a time: several checkers may compile the same project
+		for (const [name, checker] of Object.entries(this.checkers)) {
+			if (!checker.extensions.includes(extension) || !(await this.isAvailable(checker))) {
+				continue
+			}
+			for (const { filePath: file, diagnostics } of await this.runChecker(name, checker, filePath)) {
+				byFile.set(file, [...(byFile.get(file) ?? []), ...diagnostics])
+			}
+		}
+
+		return [...byFile.entries()].map(([file, diagnostics]) => ({ filePath: file, diagnostics }))
+	}
+
+	private async isAvailable(checker: DiagnosticCheckerConfig): Promise<boolean> {
+		if (!checker.requires?.length) {
+			return true
+		}
+		for (const file of checker.requires) {
+			try {
+				await fs.access(path.join(this.cwd, file))
+				return true
+			} catch {
+				// Try the next one
+			}
+		}
+		return false
+	}
+
+	private async runChecker(name: string, checker: DiagnosticCheckerConfig, filePath: string): Promise<FileDiagnostics[]> {
+		const relPath = path.relative(this.cwd, filePath).toPosix()
+		const relDir = path.dirname(relPath)
+		const args = checker.args.map((arg) => arg.replaceAll("{file}", relPath).replaceAll("{dir}", relDir))
+
+		const result = await execa(checker.command, args, {
+			cwd: this.cwd,
+			reject: false,
+			timeout: checker.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+			stdin: "ignore",
+		})
+		if (result.exitCode === undefined || result.timedOut) {
+			// Not installed or too slow for this project
+			return []
+		}
+
+		// Checkers that print JSON do so on stdout; compilers report on either stream
+		const output =
+			checker.format === "eslint" || checker.format === "ruff" ? result.stdout : `${result.stdout}\n${result.stderr}`
+		return parseCheckerOutput(checker.format, String(output), this.cwd, name)
+	}
+}
+
+function createDiagnostic(
+	message: string,
+	code: string | undefined | null,
+	source: string,
+	severity: DiagnosticSeverity,
+	start: [number | string, number | string],
+	end: [number | string, number | string] = start,
+): Diagnostic {
+	// Checkers count lines and columns from 1, diagnostics from 0
+	const toPosition = ([line, column]: [number | string, number | string]) => ({
+		line: Math.max(0, Number(line) - 1),
+		character: Math.max(0, Number(column) - 1),
+	})
+	return {
+		message: code ? `${message.trim()} (${code})` : message.trim(),
+		range: { start: toPosition(start), end: toPosition(end) },
+		severity,
+		source,
+	}
+}
+
+function toSeverity(label: string | undefined): DiagnosticSeverity {
+	return label === "warning" ? DiagnosticSeverity.DIAGNOSTIC_WARNING : DiagnosticSeverity.DIAGNOSTIC_ERROR
+}
+
+function parseJsonArray(output: string): unknown[] {
+	try {
+		const parsed = JSON.parse(output)
+		return Array.isArray(parsed) ? parsed : []
+	} catch {
+		return []
+	}
+}
@@ -17,7 +17,12 @@ export abstract class DiffViewProvider {
 	originalContent: string | undefined
 	private createdDirs: string[] = []
 	protected documentWasOpen = false
-	private preDiagnostics: FileDiagnostics[] = []
+	private preDiagnostics: Promise<FileDiagnostics[]> = Promise.resolve([])
+	/**
+	 * Whether diagnostics are computed from the file on disk, which doesn't change until the edit is
+	 * saved, so the check before editing can run alongside the streaming instead of delaying it
+	 */
+	protected readonly diagnosticsReadFromDisk: boolean = false
 	protected relPath?: string
 	protected absolutePath?: string
 	protected fileEncoding: string = "utf8"
@@ -91,7 +96,10 @@ export abstract class DiffViewProvider {
 		}
 
 		// get diagnostics before editing the file, we'll compare to diagnostics after editing to see if cline needs to fix anything
-		this.preDiagnostics = (await HostProvider.workspace.getDiagnostics({})).fileDiagnostics
+		this.preDiagnostics = this.getDiagnostics().catch(() => [])
+		if (!this.diagnosticsReadFromDisk) {
+			await this.preDiagnostics
+		}
 
 		try {
 			await this.openDiffEditor()
@@ -162,6 +170,16 @@ export abstract class DiffViewProvider {
 	 */
 	protected abstract getDocumentText(): Promise<string | undefined>
 
+	/**
+	 * Get the current diagnostics to compare before and after the edit.
+	 *
+	 * Uses the host's diagnostics by default. Hosts that can't provide them, like the CLI,
+	 * override this to run linters and type-checkers on the edited file instead.
+	 */
+	protected async getDiagnostics(): Promise<FileDiagnostics[]> {
+		return (await HostProvider.workspace.getDiagnostics({})).fileDiagnostics
+	}
+
 	/**
 	 * Get any new diagnostic problems that appeared after applying the diff.
 	 *
@@ -183,9 +201,9 @@ export abstract class DiffViewProvider {
 	 */
 	private async getNewDiagnosticProblems(): Promise<string> {
 		// Get the diagnostics after changing the document.
-		const postDiagnostics = (await HostProvider.workspace.getDiagnostics({})).fileDiagnostics
+		const postDiagnostics = await this.getDiagnostics()
 
-		const newProblems = getNewDiagnostics(this.preDiagnostics, postDiagnostics)
+		const newProblems = getNewDiagnostics(await this.preDiagnostics, postDiagnostics)
 		// Only including errors since warnings can be distracting (if user wants to fix warnings they can use the @problems mention)
 		// will be empty string if no errors
 		const problems = await diagnosticsToProblemsString(newProblems, [DiagnosticSeverity.DIAGNOSTIC_ERROR])
@@ -340,6 +358,8 @@ export abstract class DiffViewProvider {
 			}
 		}
 
+		// the check before editing has to finish before the file on disk changes
+		await this.preDiagnostics
 		await this.saveDocument()
 		// get text after save in case there is any auto-formatting done by the editor
 		const postSaveContent = (await this.getDocumentText()) || ""
@@ -451,7 +471,7 @@ export abstract class DiffViewProvider {
 		this.editType = undefined
 		this.absolutePath = undefined
 		this.relPath = undefined
-		this.preDiagnostics = []
+		this.preDiagnostics = Promise.resolve([])
 
 		this.originalContent = undefined
 		this.fileEncoding = "utf8"
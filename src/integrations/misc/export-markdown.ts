@@ -6,8 +6,10 @@ import { HostProvider } from "@/hosts/host-provider"
 import { ShowMessageType } from "@/shared/proto/host/window"
 import { openFile } from "./open-file"
 
-export async function downloadTask(dateTs: number, conversationHistory: Anthropic.MessageParam[]) {
-	// File name
+/**
+ * Default file name for an exported task, e.g. cline_task_jan-5-2025_3-04-05-pm.md
+ */
+export function getTaskExportFileName(dateTs: number, extension: string): string {
 	const date = new Date(dateTs)
 	const month = date.toLocaleString("en-US", { month: "short" }).toLowerCase()
 	const day = date.getDate()
@@ -18,7 +20,11 @@ export async function downloadTask(dateTs: number, conversationHistory: Anthropi
 	const ampm = hours >= 12 ? "pm" : "am"
 	hours = hours % 12
 	hours = hours ? hours : 12 // the hour '0' should be '12'
-	const fileName = `cline_task_${month}-${day}-${year}_${hours}-${minutes}-${seconds}-${ampm}.md`
+	return `cline_task_${month}-${day}-${year}_${hours}-${minutes}-${seconds}-${ampm}.${extension}`
+}
+
+export async function downloadTask(dateTs: number, conversationHistory: Anthropic.MessageParam[]) {
+	const fileName = getTaskExportFileName(dateTs, "md")
 
 	// Generate markdown
 	const markdownContent = conversationHistory
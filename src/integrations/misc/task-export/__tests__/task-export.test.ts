@@ -0,0 +1,185 @@
+import type { ClineMessage } from "@shared/ExtensionMessage"
+import { expect } from "chai"
+import { describe, it } from "mocha"
+import zlib from "zlib"
+import { createTaskBundle, readTaskBundle } from "../bundle"
+import { buildTaskHtmlReport, renderDiff } from "../html-report"
+import { buildTaskJsonExport } from "../json-export"
+import { buildTaskExportMetrics } from "../metrics"
+import type { TaskExportData } from "../types"
+import { createZip, readZip } from "../zip"
+
+function createTaskData(clineMessages: ClineMessage[]): TaskExportData {
+	return {
+		historyItem: {
+			id: "1700000000000",
+			ts: 1700000000000,
+			task: "Fix <the> bug",
+			tokensIn: 120,
+			tokensOut: 45,
+			totalCost: 0.02,
+		},
+		clineMessages,
+		apiConversationHistory: [{ role: "user", content: "<task>Fix the bug</task>" }],
+		taskMetadata: {
+			files_in_context: [],
+			model_usage: [{ ts: 1, model_id: "claude-sonnet", model_provider_id: "anthropic", mode: "act" }],
+		},
+	}
+}
+
+const MESSAGES: ClineMessage[] = [
+	{ ts: 1000, type: "say", say: "task", text: "Fix <the> bug" },
+	{ ts: 2000, type: "say", say: "api_req_started", text: JSON.stringify({ tokensIn: 100, tokensOut: 40, cost: 0.015 }) },
+	{
+		ts: 3000,
+		type: "ask",
+		ask: "tool",
+		text: JSON.stringify({ tool: "editedExistingFile", path: "src/a.ts", content: "-old\n+new" }),
+	},
+	{ ts: 4000, type: "say", say: "tool", text: JSON.stringify({ tool: "readFile", path: "src/b.ts", content: "contents" }) },
+	{ ts: 5000, type: "say", say: "checkpoint_created", lastCheckpointHash: "abcdef1234567890" },
+	{ ts: 6000, type: "ask", ask: "command", text: "npm test" },
+	{ ts: 7000, type: "say", say: "api_req_started", text: JSON.stringify({ tokensIn: 20, tokensOut: 5, cost: 0.005 }) },
+	{ ts: 9000, type: "say", say: "completion_result", text: "Done" },
+	{ ts: 9500, type: "say", say: "text", text: "streaming", partial: true },
+]
+
+describe("Task export", () => {
+	describe("zip", () => {
+		it("should round-trip stored and deflated entries", () => {
+			const entries = [
+				{ name: "small.txt", data: Buffer.from("a") },
+				{ name: "nested/large.json", data: Buffer.from(JSON.stringify({ text: "x".repeat(5000) })) },
+				{ name: "ünïcode.txt", data: Buffer.from("héllo") },
+			]
+
+			const result = readZip(createZip(entries))
+
+			expect(result.map((entry) => entry.name)).to.deep.equal(entries.map((entry) => entry.name))
+			result.forEach((entry, i) => expect(entry.data.equals(entries[i].data)).to.be.true)
+		})
+
+		it("should produce an archive readable by a standard inflater", () => {
+			const data = Buffer.from("y".repeat(1000))
+			const archive = createZip([{ name: "file.txt", data }])
+
+			// Local header is 30 bytes followed by the name, then the deflated payload
+			const compressedSize = archive.readUInt32LE(18)
+			const payload = archive.subarray(30 + "file.txt".length, 30 + "file.txt".length + compressedSize)
+
+			expect(archive.readUInt16LE(8)).to.equal(8)
+			expect(zlib.inflateRawSync(payload).equals(data)).to.be.true
+		})
+
+		it("should reject corrupted archives", () => {
+			const archive = createZip([{ name: "file.txt", data: Buffer.from("hello") }])
+			archive[30 + "file.txt".length] ^= 0xff
+
+			expect(() => readZip(archive)).to.throw("Checksum mismatch for file.txt")
+			expect(() => readZip(Buffer.from("not a zip file at all, definitely not"))).to.throw(/end of central directory/)
+		})
+
+		it("should refuse to extract more than the size limit", () => {
+			const archive = createZip([
+				{ name: "a.txt", data: Buffer.alloc(600, "a") },
+				{ name: "b.txt", data: Buffer.alloc(600, "b") },
+			])
+
+			expect(readZip(archive, 1200)).to.have.length(2)
+			expect(() => readZip(archive, 1000)).to.throw(/larger than 1000 bytes/)
+			expect(() => readZip(archive, 500)).to.throw(/larger than 500 bytes/)
+		})
+	})
+
+	describe("buildTaskExportMetrics", () => {
+		it("should summarize costs, approvals, checkpoints and timing", () => {
+			const metrics = buildTaskExportMetrics(createTaskData(MESSAGES))
+
+			expect(metrics.totalTokensIn).to.equal(120)
+			expect(metrics.totalTokensOut).to.equal(45)
+			expect(metrics.totalCost).to.be.closeTo(0.02, 1e-9)
+			expect(metrics.apiRequests).to.equal(2)
+			expect(metrics.approvalRequests).to.equal(2)
+			expect(metrics.autoApprovedTools).to.equal(1)
+			expect(metrics.checkpoints).to.deep.equal([{ ts: 5000, hash: "abcdef1234567890" }])
+			expect(metrics.startedAt).to.equal(1000)
+			expect(metrics.endedAt).to.equal(9000)
+			expect(metrics.durationMs).to.equal(8000)
+			expect(metrics.models).to.deep.equal(["claude-sonnet"])
+		})
+	})
+
+	describe("buildTaskJsonExport", () => {
+		it("should include the full message list, api history and metrics", () => {
+			const data = createTaskData(MESSAGES)
+
+			const result = buildTaskJsonExport(data, 42)
+
+			expect(result.format).to.equal("cline-task-export")
+			expect(result.exportedAt).to.equal(42)
+			expect(result.task).to.equal(data.historyItem)
+			expect(result.clineMessages).to.have.length(MESSAGES.length)
+			expect(result.apiConversationHistory).to.deep.equal(data.apiConversationHistory)
+			expect(result.metrics.apiRequests).to.equal(2)
+		})
+	})
+
+	describe("buildTaskHtmlReport", () => {
+		it("should escape task content", () => {
+			const html = buildTaskHtmlReport(createTaskData(MESSAGES))
+
+			expect(html).to.include("Fix &lt;the&gt; bug")
+			expect(html).not.to.include("Fix <the> bug")
+		})
+
+		it("should render tool calls and commands as collapsible blocks", () => {
+			const html = buildTaskHtmlReport(createTaskData(MESSAGES))
+
+			expect(html).to.include('<details class="tool"><summary>editedExistingFile <code>src/a.ts</code>')
+			expect(html).to.include("approval requested")
+			expect(html).to.include('<details class="command">')
+			expect(html).to.include("Checkpoint <code>abcdef12</code>")
+			expect(html).to.include("$0.0150")
+			expect(html).not.to.include("streaming")
+		})
+	})
+
+	describe("renderDiff", () => {
+		it("should colour +/- lines", () => {
+			expect(renderDiff("@@ -1 +1 @@\n-old\n+new\n same")).to.equal(
+				'<pre class="diff"><span class="hunk">@@ -1 +1 @@</span>\n<span class="del">-old</span>\n<span class="add">+new</span>\n same</pre>',
+			)
+		})
+
+		it("should colour SEARCH/REPLACE blocks", () => {
+			const html = renderDiff("<<<<<<< SEARCH\nold line\n=======\nnew line\n>>>>>>> REPLACE")
+
+			expect(html).to.include('<span class="del">old line</span>')
+			expect(html).to.include('<span class="add">new line</span>')
+		})
+	})
+
+	describe("task bundles", () => {
+		it("should round-trip task data", () => {
+			const data = { ...createTaskData(MESSAGES), contextHistory: [[0, [1, 2]]] }
+
+			const result = readTaskBundle(createTaskBundle(data))
+
+			expect(result).to.deep.equal(data)
+		})
+
+		it("should reject archives without a bundle manifest", () => {
+			const archive = createZip([{ name: "ui_messages.json", data: Buffer.from("[]") }])
+
+			expect(() => readTaskBundle(archive)).to.throw("Not a task bundle")
+		})
+
+		it("should reject bundles from a newer version", () => {
+			const manifest = { format: "cline-task-bundle", version: 99, exportedAt: 0, historyItem: { id: "1" }, files: [] }
+			const archive = createZip([{ name: "manifest.json", data: Buffer.from(JSON.stringify(manifest)) }])
+
+			expect(() => readTaskBundle(archive)).to.throw(/newer than supported/)
+		})
+	})
+})
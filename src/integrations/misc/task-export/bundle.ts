@@ -0,0 +1,83 @@
+import { GlobalFileNames } from "@core/storage/disk"
+import { TASK_BUNDLE_FORMAT, TASK_EXPORT_VERSION, type TaskBundleManifest, type TaskExportData } from "./types"
+import { createZip, readZip, type ZipEntry } from "./zip"
+
+const MANIFEST_FILE = "manifest.json"
+
+/**
+ * Zip a task's on-disk files together with a manifest so it can be imported on another machine
+ */
+export function createTaskBundle(data: TaskExportData, exportedAt: number = Date.now()): Buffer {
+	const files: ZipEntry[] = [
+		jsonEntry(GlobalFileNames.uiMessages, data.clineMessages),
+		jsonEntry(GlobalFileNames.apiConversationHistory, data.apiConversationHistory),
+	]
+	if (data.contextHistory !== undefined) {
+		files.push(jsonEntry(GlobalFileNames.contextHistory, data.contextHistory))
+	}
+	if (data.taskMetadata !== undefined) {
+		files.push(jsonEntry(GlobalFileNames.taskMetadata, data.taskMetadata))
+	}
+
+	const manifest: TaskBundleManifest = {
+		format: TASK_BUNDLE_FORMAT,
+		version: TASK_EXPORT_VERSION,
+		exportedAt,
+		historyItem: data.historyItem,
+		files: files.map((file) => file.name),
+	}
+
+	return createZip([jsonEntry(MANIFEST_FILE, manifest), ...files], new Date(exportedAt))
+}
+
+/**
+ * Read a task bundle created by createTaskBundle
+ *
+ * Only the known task files are read; anything else in the archive is ignored.
+ *
+ * @throws Error if the archive is not a task bundle or was written by a newer version
+ */
+export function readTaskBundle(archive: Buffer): TaskExportData {
+	const entries = new Map(readZip(archive).map((entry) => [entry.name, entry.data]))
+
+	const manifest = parseEntry<TaskBundleManifest>(entries, MANIFEST_FILE)
+	if (manifest?.format !== TASK_BUNDLE_FORMAT || !manifest.historyItem?.id) {
+		throw new Error("Not a task bundle: missing or invalid manifest.json")
+	}
+	if (manifest.version > TASK_EXPORT_VERSION) {
+		throw new Error(`Task bundle version ${manifest.version} is newer than supported version ${TASK_EXPORT_VERSION}`)
+	}
+
+	const clineMessages = parseEntry<TaskExportData["clineMessages"]>(entries, GlobalFileNames.uiMessages)
+	const apiConversationHistory = parseEntry<TaskExportData["apiConversationHistory"]>(
+		entries,
+		GlobalFileNames.apiConversationHistory,
+	)
+	if (!Array.isArray(clineMessages) || !Array.isArray(apiConversationHistory)) {
+		throw new Error("Task bundle is missing its conversation history")
+	}
+
+	return {
+		historyItem: manifest.historyItem,
+		clineMessages,
+		apiConversationHistory,
+		contextHistory: parseEntry(entries, GlobalFileNames.contextHistory),
+		taskMetadata: parseEntry<TaskExportData["taskMetadata"]>(entries, GlobalFileNames.taskMetadata),
+	}
+}
+
+function jsonEntry(name: string, value: unknown): ZipEntry {
+	return { name, data: Buffer.from(JSON.stringify(value), "utf8") }
+}
+
+function parseEntry<T>(entries: Map<string, Buffer>, name: string): T | undefined {
+	const data = entries.get(name)
+	if (!data) {
+		return undefined
+	}
+	try {
+		return JSON.parse(data.toString("utf8")) as T
+	} catch {
+		throw new Error(`Task bundle file ${name} is not valid JSON`)
+	}
+}
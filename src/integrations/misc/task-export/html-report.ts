@@ -0,0 +1,250 @@
+import type {
+	ClineApiReqInfo,
+	ClineAskQuestion,
+	ClineAskUseMcpServer,
+	ClineMessage,
+	ClinePlanModeResponse,
+	ClineSayTool,
+} from "@shared/ExtensionMessage"
+import { buildTaskExportMetrics } from "./metrics"
+import type { TaskExportData, TaskExportMetrics } from "./types"
+
+/**
+ * Self-contained HTML report of a task
+ *
+ * Conversation text is shown inline; tool calls, command output, reasoning and diffs are
+ * collapsible <details> blocks so long tasks stay skimmable. No scripts or external assets.
+ */
+export function buildTaskHtmlReport(data: TaskExportData): string {
+	const metrics = buildTaskExportMetrics(data)
+	const body = data.clineMessages
+		.filter((message) => !message.partial)
+		.map(renderMessage)
+		.filter(Boolean)
+		.join("\n")
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(truncate(data.historyItem.task, 80))}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(data.historyItem.task)}</h1>
+${renderSummary(metrics, data.historyItem.ts)}
+</header>
+<main>
+${body}
+</main>
+</body>
+</html>
+`
+}
+
+function renderSummary(metrics: TaskExportMetrics, ts: number): string {
+	const items = [
+		["Started", new Date(metrics.startedAt ?? ts).toLocaleString()],
+		["Duration", metrics.durationMs !== undefined ? formatDuration(metrics.durationMs) : "-"],
+		["Cost", `$${metrics.totalCost.toFixed(4)}`],
+		["Tokens", `${metrics.totalTokensIn.toLocaleString()} in / ${metrics.totalTokensOut.toLocaleString()} out`],
+		["API requests", String(metrics.apiRequests)],
+		["Approvals requested", String(metrics.approvalRequests)],
+		["Auto-approved tools", String(metrics.autoApprovedTools)],
+		["Checkpoints", String(metrics.checkpoints.length)],
+	]
+	if (metrics.models.length > 0) {
+		items.push(["Models", metrics.models.join(", ")])
+	}
+	return `<dl class="summary">${items.map(([label, value]) => `<div><dt>${label}</dt><dd>${escapeHtml(value)}</dd></div>`).join("")}</dl>`
+}
+
+function renderMessage(message: ClineMessage): string {
+	const kind = message.type === "ask" ? message.ask : message.say
+	const text = message.text ?? ""
+
+	switch (kind) {
+		case "task":
+		case "user_feedback":
+			return bubble("user", kind === "task" ? "Task" : "User", text, message)
+		case "text":
+		case "completion_result":
+			if (!text) {
+				return ""
+			}
+			return bubble("assistant", kind === "completion_result" ? "Result" : "Assistant", text, message)
+		case "followup": {
+			const question = parseJson<ClineAskQuestion>(text)
+			return bubble("assistant", "Question", question?.question ?? text, message)
+		}
+		case "plan_mode_respond": {
+			const response = parseJson<ClinePlanModeResponse>(text)
+			return bubble("assistant", "Plan", response?.response ?? text, message)
+		}
+		case "reasoning":
+			return collapsible("reasoning", "Thinking", `<pre>${escapeHtml(text)}</pre>`)
+		case "api_req_started":
+			return renderApiRequest(text)
+		case "tool":
+			return renderTool(text, message.type === "ask")
+		case "command":
+			return collapsible(
+				"command",
+				`Command${message.type === "ask" ? " (approval requested)" : ""}`,
+				`<pre>${escapeHtml(text)}</pre>`,
+				text,
+			)
+		case "command_output":
+			return collapsible("output", "Command output", `<pre>${escapeHtml(text)}</pre>`)
+		case "use_mcp_server": {
+			const request = parseJson<ClineAskUseMcpServer>(text)
+			const target = request ? `${request.serverName} · ${request.toolName ?? request.uri ?? request.type}` : "MCP server"
+			const body = request?.arguments ? `<pre>${escapeHtml(request.arguments)}</pre>` : ""
+			return collapsible("tool", `MCP: ${target}`, body)
+		}
+		case "checkpoint_created":
+			return message.lastCheckpointHash
+				? `<div class="meta">Checkpoint <code>${escapeHtml(message.lastCheckpointHash.slice(0, 8))}</code></div>`
+				: ""
+		case "error":
+		case "diff_error":
+		case "api_req_failed":
+		case "mistake_limit_reached":
+		case "clineignore_error":
+			return `<div class="error"><strong>Error</strong><pre>${escapeHtml(text)}</pre></div>`
+		case "api_req_finished":
+		case "api_req_retried":
+		case "deleted_api_reqs":
+		case "resume_task":
+		case "resume_completed_task":
+			return ""
+		default:
+			return text ? collapsible("other", escapeHtml(kind ?? message.type), `<pre>${escapeHtml(text)}</pre>`) : ""
+	}
+}
+
+function renderApiRequest(text: string): string {
+	const info = parseJson<ClineApiReqInfo>(text)
+	if (!info) {
+		return ""
+	}
+	const parts = ["API request"]
+	if (info.tokensIn !== undefined || info.tokensOut !== undefined) {
+		parts.push(`${(info.tokensIn ?? 0).toLocaleString()} in / ${(info.tokensOut ?? 0).toLocaleString()} out`)
+	}
+	if (info.cost !== undefined) {
+		parts.push(`$${info.cost.toFixed(4)}`)
+	}
+	if (info.cancelReason) {
+		parts.push(info.cancelReason === "user_cancelled" ? "cancelled" : "failed")
+	}
+	return `<div class="meta">${escapeHtml(parts.join(" · "))}</div>`
+}
+
+function renderTool(text: string, awaitedApproval: boolean): string {
+	const tool = parseJson<ClineSayTool>(text)
+	if (!tool) {
+		return collapsible("tool", "Tool", `<pre>${escapeHtml(text)}</pre>`)
+	}
+
+	const approval = awaitedApproval ? "approval requested" : "auto-approved"
+	const title = `${escapeHtml(tool.tool)}${tool.path ? ` <code>${escapeHtml(tool.path)}</code>` : ""} <span class="badge">${approval}</span>`
+	const content = tool.diff ?? tool.content ?? ""
+	const isEdit = tool.tool === "editedExistingFile" || tool.tool === "newFileCreated"
+	const body = isEdit ? renderDiff(content) : content ? `<pre>${escapeHtml(content)}</pre>` : ""
+	return collapsible("tool", title, body)
+}
+
+/**
+ * Colour diff lines, understanding both SEARCH/REPLACE blocks and +/- prefixed diffs
+ */
+export function renderDiff(diff: string): string {
+	let section: "search" | "replace" | undefined
+	const lines = diff.split("\n").map((line) => {
+		let className = ""
+		if (/^<{3,} SEARCH/.test(line)) {
+			section = "search"
+			className = "hunk"
+		} else if (/^={3,}$/.test(line) && section) {
+			section = "replace"
+			className = "hunk"
+		} else if (/^>{3,} REPLACE/.test(line)) {
+			section = undefined
+			className = "hunk"
+		} else if (section) {
+			className = section === "search" ? "del" : "add"
+		} else if (line.startsWith("@@") || line.startsWith("***")) {
+			className = "hunk"
+		} else if (line.startsWith("+")) {
+			className = "add"
+		} else if (line.startsWith("-")) {
+			className = "del"
+		}
+		return className ? `<span class="${className}">${escapeHtml(line)}</span>` : escapeHtml(line)
+	})
+	return `<pre class="diff">${lines.join("\n")}</pre>`
+}
+
+function bubble(role: "user" | "assistant", label: string, text: string, message: ClineMessage): string {
+	const attachments = (message.images?.length ?? 0) + (message.files?.length ?? 0)
+	const note = attachments > 0 ? `<div class="meta">${attachments} attachment${attachments === 1 ? "" : "s"}</div>` : ""
+	return `<section class="message ${role}"><div class="label">${label} <time>${new Date(message.ts).toLocaleTimeString()}</time></div><div class="text">${escapeHtml(text)}</div>${note}</section>`
+}
+
+function collapsible(className: string, summary: string, body: string, preview?: string): string {
+	const previewText = preview ? ` <code>${escapeHtml(truncate(preview.split("\n")[0], 80))}</code>` : ""
+	return `<details class="${className}"><summary>${summary}${previewText}</summary>${body}</details>`
+}
+
+function parseJson<T>(text: string): T | undefined {
+	try {
+		return JSON.parse(text) as T
+	} catch {
+		return undefined
+	}
+}
+
+function truncate(text: string, length: number): string {
+	return text.length > length ? `${text.slice(0, length - 1)}…` : text
+}
+
+function formatDuration(ms: number): string {
+	const totalSeconds = Math.round(ms / 1000)
+	const hours = Math.floor(totalSeconds / 3600)
+	const minutes = Math.floor((totalSeconds % 3600) / 60)
+	const seconds = totalSeconds % 60
+	return hours > 0 ? `${hours}h ${minutes}m` : minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`
+}
+
+export function escapeHtml(text: string): string {
+	return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;")
+}
+
+const REPORT_STYLES = `
+:root { color-scheme: light dark; --bg: #fff; --fg: #1f2328; --muted: #656d76; --border: #d0d7de; --user: #ddf4ff; --assistant: #f6f8fa; --add: #dafbe1; --del: #ffebe9; --hunk: #ddf4ff; --error: #ffebe9; }
+@media (prefers-color-scheme: dark) { :root { --bg: #0d1117; --fg: #e6edf3; --muted: #8d96a0; --border: #30363d; --user: #0c2d6b; --assistant: #161b22; --add: #033a16; --del: #67060c; --hunk: #0c2d6b; --error: #67060c; } }
+body { margin: 0 auto; max-width: 960px; padding: 24px; background: var(--bg); color: var(--fg); font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; }
+h1 { font-size: 20px; white-space: pre-wrap; }
+.summary { display: grid; grid-template-columns: repeat(auto-fill, minmax(180px, 1fr)); gap: 8px; margin: 0 0 24px; }
+.summary div { border: 1px solid var(--border); border-radius: 6px; padding: 8px; }
+.summary dt { color: var(--muted); font-size: 12px; }
+.summary dd { margin: 0; }
+.message { border: 1px solid var(--border); border-radius: 6px; padding: 8px 12px; margin: 12px 0; }
+.message.user { background: var(--user); }
+.message.assistant { background: var(--assistant); }
+.label { font-weight: 600; margin-bottom: 4px; }
+.label time, .meta { color: var(--muted); font-size: 12px; font-weight: normal; }
+.meta { margin: 4px 0; }
+.text { white-space: pre-wrap; }
+details { border: 1px solid var(--border); border-radius: 6px; margin: 8px 0; padding: 4px 12px; }
+summary { cursor: pointer; }
+.badge { color: var(--muted); font-size: 12px; }
+pre { overflow-x: auto; white-space: pre-wrap; word-break: break-word; font: 12px/1.45 ui-monospace, SFMono-Regular, Menlo, monospace; }
+.diff span { display: block; }
+.diff .add { background: var(--add); }
+.diff .del { background: var(--del); }
+.diff .hunk { background: var(--hunk); color: var(--muted); }
+.error { background: var(--error); border-radius: 6px; padding: 8px 12px; margin: 12px 0; }
+`
@@ -0,0 +1,120 @@
+import {
+	ensureTaskDirectoryExists,
+	GlobalFileNames,
+	saveApiConversationHistory,
+	saveClineMessages,
+	saveTaskMetadata,
+} from "@core/storage/disk"
+import { HistoryItem } from "@shared/HistoryItem"
+import { writeFile } from "@utils/fs"
+import fs from "fs/promises"
+import getFolderSize from "get-folder-size"
+import os from "os"
+import * as path from "path"
+import { HostProvider } from "@/hosts/host-provider"
+import { ShowMessageType } from "@/shared/proto/host/window"
+import { downloadTask, getTaskExportFileName } from "../export-markdown"
+import { openFile } from "../open-file"
+import { createTaskBundle, readTaskBundle } from "./bundle"
+import { buildTaskHtmlReport } from "./html-report"
+import { buildTaskJsonExport } from "./json-export"
+import type { TaskExportData, TaskExportFormat } from "./types"
+
+export { TASK_EXPORT_FORMATS, type TaskExportData, type TaskExportFormat } from "./types"
+
+export const TASK_BUNDLE_EXTENSION = "clinetask"
+
+const EXPORT_FILTERS: Record<Exclude<TaskExportFormat, "markdown">, { name: string; extension: string }> = {
+	json: { name: "JSON", extension: "json" },
+	html: { name: "HTML", extension: "html" },
+	bundle: { name: "Task Bundle", extension: TASK_BUNDLE_EXTENSION },
+}
+
+/**
+ * Prompt for a save location and write the task in the requested format
+ */
+export async function exportTask(data: TaskExportData, format: TaskExportFormat): Promise<void> {
+	if (format === "markdown") {
+		await downloadTask(data.historyItem.ts, data.apiConversationHistory)
+		return
+	}
+
+	const { name, extension } = EXPORT_FILTERS[format]
+	const saveResponse = await HostProvider.window.showSaveDialog({
+		options: {
+			filters: { [name]: { extensions: [extension] } },
+			defaultPath: path.join(os.homedir(), "Downloads", getTaskExportFileName(data.historyItem.ts, extension)),
+		},
+	})
+	if (!saveResponse.selectedPath) {
+		return
+	}
+
+	try {
+		switch (format) {
+			case "json":
+				await writeFile(saveResponse.selectedPath, JSON.stringify(buildTaskJsonExport(data), null, 2))
+				await openFile(saveResponse.selectedPath, false, true)
+				break
+			case "html":
+				await writeFile(saveResponse.selectedPath, buildTaskHtmlReport(data))
+				await openFile(saveResponse.selectedPath, false, true)
+				break
+			case "bundle":
+				await writeFile(saveResponse.selectedPath, createTaskBundle(data))
+				await HostProvider.window.showMessage({
+					type: ShowMessageType.INFORMATION,
+					message: `Task bundle saved to ${saveResponse.selectedPath}`,
+				})
+				break
+		}
+	} catch (error) {
+		await HostProvider.window.showMessage({
+			type: ShowMessageType.ERROR,
+			message: `Failed to save ${name} export: ${error instanceof Error ? error.message : String(error)}`,
+		})
+	}
+}
+
+/**
+ * Write a task bundle into task storage and return the history item to register
+ *
+ * The task gets a fresh id if one with the same id already exists. Checkpoint state is dropped
+ * because the shadow git repository it points to only exists on the exporting machine.
+ *
+ * @throws Error if the file is not a valid task bundle
+ */
+export async function importTaskBundle(bundlePath: string, existingTaskIds: Set<string>): Promise<HistoryItem> {
+	const data = readTaskBundle(await fs.readFile(bundlePath))
+
+	const {
+		shadowGitConfigWorkTree: _workTree,
+		checkpointManagerErrorMessage: _checkpointError,
+		...historyItem
+	} = data.historyItem
+	// The id names the task's directory, so anything but a fresh timestamp id could escape task storage
+	let id = historyItem.id
+	if (!/^\d+$/.test(id) || existingTaskIds.has(id)) {
+		id = Date.now().toString()
+		while (existingTaskIds.has(id)) {
+			id = (Number(id) + 1).toString()
+		}
+	}
+
+	const taskDir = await ensureTaskDirectoryExists(id)
+	await saveClineMessages(id, data.clineMessages)
+	await saveApiConversationHistory(id, data.apiConversationHistory)
+	if (data.contextHistory !== undefined) {
+		await fs.writeFile(path.join(taskDir, GlobalFileNames.contextHistory), JSON.stringify(data.contextHistory))
+	}
+	if (data.taskMetadata) {
+		await saveTaskMetadata(id, data.taskMetadata)
+	}
+
+	return {
+		...historyItem,
+		id,
+		// getFolderSize.loose silently ignores errors
+		size: await getFolderSize.loose(taskDir),
+	}
+}
@@ -0,0 +1,17 @@
+import { buildTaskExportMetrics } from "./metrics"
+import { TASK_EXPORT_VERSION, TASK_JSON_EXPORT_FORMAT, type TaskExportData, type TaskJsonExport } from "./types"
+
+/**
+ * Build the JSON export: the full UI message list and API history, plus derived metrics
+ */
+export function buildTaskJsonExport(data: TaskExportData, exportedAt: number = Date.now()): TaskJsonExport {
+	return {
+		format: TASK_JSON_EXPORT_FORMAT,
+		version: TASK_EXPORT_VERSION,
+		exportedAt,
+		task: data.historyItem,
+		metrics: buildTaskExportMetrics(data),
+		clineMessages: data.clineMessages,
+		apiConversationHistory: data.apiConversationHistory,
+	}
+}
@@ -0,0 +1,42 @@
+import { combineApiRequests } from "@shared/combineApiRequests"
+import type { ClineMessage } from "@shared/ExtensionMessage"
+import { getApiMetrics } from "@shared/getApiMetrics"
+import type { TaskExportData, TaskExportMetrics } from "./types"
+
+// Asks that pause the task until the user approves an action
+const APPROVAL_ASKS = new Set(["tool", "command", "use_mcp_server", "browser_action_launch"])
+
+/**
+ * Summarize cost, approvals, checkpoints and timing for an exported task
+ */
+export function buildTaskExportMetrics({ clineMessages, taskMetadata }: TaskExportData): TaskExportMetrics {
+	const messages = clineMessages.filter((message) => !message.partial)
+	const apiMetrics = getApiMetrics(combineApiRequests(messages))
+
+	const checkpoints: TaskExportMetrics["checkpoints"] = []
+	for (const message of messages) {
+		if (message.say === "checkpoint_created" && message.lastCheckpointHash) {
+			checkpoints.push({ ts: message.ts, hash: message.lastCheckpointHash })
+		}
+	}
+
+	const startedAt = messages[0]?.ts
+	const endedAt = messages[messages.length - 1]?.ts
+	const models = [...new Set((taskMetadata?.model_usage ?? []).map((usage) => usage.model_id))]
+
+	return {
+		...apiMetrics,
+		apiRequests: countMessages(messages, (message) => message.say === "api_req_started"),
+		approvalRequests: countMessages(messages, (message) => message.type === "ask" && APPROVAL_ASKS.has(message.ask ?? "")),
+		autoApprovedTools: countMessages(messages, (message) => message.say === "tool"),
+		checkpoints,
+		startedAt,
+		endedAt,
+		durationMs: startedAt !== undefined && endedAt !== undefined ? endedAt - startedAt : undefined,
+		models,
+	}
+}
+
+function countMessages(messages: ClineMessage[], predicate: (message: ClineMessage) => boolean): number {
+	return messages.filter(predicate).length
+}
@@ -0,0 +1,71 @@
+import type { Anthropic } from "@anthropic-ai/sdk"
+import type { TaskMetadata } from "@core/context/context-tracking/context_tracker_types"
+import type { ClineMessage } from "@shared/ExtensionMessage"
+import type { HistoryItem } from "@shared/HistoryItem"
+
+export const TASK_JSON_EXPORT_FORMAT = "cline-task-export"
+export const TASK_BUNDLE_FORMAT = "cline-task-bundle"
+export const TASK_EXPORT_VERSION = 1
+
+/**
+ * Formats a task can be exported to
+ */
+export type TaskExportFormat = "markdown" | "json" | "html" | "bundle"
+
+export const TASK_EXPORT_FORMATS: TaskExportFormat[] = ["markdown", "json", "html", "bundle"]
+
+/**
+ * Everything stored on disk for a task
+ */
+export interface TaskExportData {
+	historyItem: HistoryItem
+	clineMessages: ClineMessage[]
+	apiConversationHistory: Anthropic.MessageParam[]
+	contextHistory?: unknown
+	taskMetadata?: TaskMetadata
+}
+
+/**
+ * Aggregate numbers derived from a task's UI messages
+ */
+export interface TaskExportMetrics {
+	totalTokensIn: number
+	totalTokensOut: number
+	totalCacheWrites?: number
+	totalCacheReads?: number
+	totalCost: number
+	apiRequests: number
+	/** Tool, command, MCP and browser actions that waited for the user's approval */
+	approvalRequests: number
+	/** Tool uses that ran without asking */
+	autoApprovedTools: number
+	checkpoints: { ts: number; hash: string }[]
+	startedAt?: number
+	endedAt?: number
+	durationMs?: number
+	models: string[]
+}
+
+/**
+ * Shape of the JSON export
+ */
+export interface TaskJsonExport {
+	format: typeof TASK_JSON_EXPORT_FORMAT
+	version: number
+	exportedAt: number
+	task: HistoryItem
+	metrics: TaskExportMetrics
+	clineMessages: ClineMessage[]
+	apiConversationHistory: Anthropic.MessageParam[]
+}
+
+/**
+ * manifest.json at the root of a task bundle
+ */
+export interface TaskBundleManifest {
+	format: typeof TASK_BUNDLE_FORMAT
+	version: number
+	exportedAt: number
+	historyItem: HistoryItem
+	files: string[]
+}
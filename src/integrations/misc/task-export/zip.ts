@@ -0,0 +1,189 @@
+import zlib from "zlib"
+
+/**
+ * Minimal zip archive support for task bundles
+ *
+ * Only what bundles need is implemented: deflated or stored entries, UTF-8 names, no zip64,
+ * encryption or multi-disk archives. That keeps bundles readable by any unzip tool without
+ * pulling in an archive dependency.
+ */
+
+export interface ZipEntry {
+	name: string
+	data: Buffer
+}
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22
+const ZIP_VERSION = 20
+const UTF8_NAME_FLAG = 0x0800
+const METHOD_STORED = 0
+const METHOD_DEFLATED = 8
+// Bundles are JSON and a few files; anything far bigger is a zip bomb
+const DEFAULT_MAX_TOTAL_SIZE = 512 * 1024 * 1024
+
+const CRC32_TABLE = (() => {
+	const table = new Uint32Array(256)
+	for (let n = 0; n < 256; n++) {
+		let c = n
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+		}
+		table[n] = c >>> 0
+	}
+	return table
+})()
+
+function crc32(data: Buffer): number {
+	let crc = 0xffffffff
+	for (const byte of data) {
+		crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+	}
+	return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Encode a date as MS-DOS time and date words
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+	const year = Math.max(date.getFullYear(), 1980)
+	return {
+		time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+		date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+	}
+}
+
+/**
+ * Create a zip archive from in-memory entries
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Buffer {
+	const { time, date } = toDosDateTime(modified)
+	const localParts: Buffer[] = []
+	const centralParts: Buffer[] = []
+	let offset = 0
+
+	for (const entry of entries) {
+		const name = Buffer.from(entry.name, "utf8")
+		const deflated = zlib.deflateRawSync(entry.data)
+		const useDeflate = deflated.length < entry.data.length
+		const payload = useDeflate ? deflated : entry.data
+		const checksum = crc32(entry.data)
+
+		const localHeader = Buffer.alloc(30)
+		localHeader.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0)
+		localHeader.writeUInt16LE(ZIP_VERSION, 4)
+		localHeader.writeUInt16LE(UTF8_NAME_FLAG, 6)
+		localHeader.writeUInt16LE(useDeflate ? METHOD_DEFLATED : METHOD_STORED, 8)
+		localHeader.writeUInt16LE(time, 10)
+		localHeader.writeUInt16LE(date, 12)
+		localHeader.writeUInt32LE(checksum, 14)
+		localHeader.writeUInt32LE(payload.length, 18)
+		localHeader.writeUInt32LE(entry.data.length, 22)
+		localHeader.writeUInt16LE(name.length, 26)
+		localHeader.writeUInt16LE(0, 28)
+
+		const centralHeader = Buffer.alloc(46)
+		centralHeader.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0)
+		centralHeader.writeUInt16LE(ZIP_VERSION, 4)
+		centralHeader.writeUInt16LE(ZIP_VERSION, 6)
+		centralHeader.writeUInt16LE(UTF8_NAME_FLAG, 8)
+		centralHeader.writeUInt16LE(useDeflate ? METHOD_DEFLATED : METHOD_STORED, 10)
+		centralHeader.writeUInt16LE(time, 12)
+		centralHeader.writeUInt16LE(date, 14)
+		centralHeader.writeUInt32LE(checksum, 16)
+		centralHeader.writeUInt32LE(payload.length, 20)
+		centralHeader.writeUInt32LE(entry.data.length, 24)
+		centralHeader.writeUInt16LE(name.length, 28)
+		centralHeader.writeUInt32LE(offset, 42)
+
+		localParts.push(localHeader, name, payload)
+		centralParts.push(centralHeader, name)
+		offset += localHeader.length + name.length + payload.length
+	}
+
+	const centralDirectory = Buffer.concat(centralParts)
+	const end = Buffer.alloc(END_OF_CENTRAL_DIRECTORY_SIZE)
+	end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0)
+	end.writeUInt16LE(entries.length, 8)
+	end.writeUInt16LE(entries.length, 10)
+	end.writeUInt32LE(centralDirectory.length, 12)
+	end.writeUInt32LE(offset, 16)
+
+	return Buffer.concat([...localParts, centralDirectory, end])
+}
+
+/**
+ * Read every file entry of a zip archive
+ *
+ * @param maxTotalSize - Limit for the entries' combined uncompressed size
+ * @throws Error if the archive is malformed, uses unsupported features, fails its checksums or is too large
+ */
+export function readZip(archive: Buffer, maxTotalSize: number = DEFAULT_MAX_TOTAL_SIZE): ZipEntry[] {
+	const endOffset = findEndOfCentralDirectory(archive)
+	const entryCount = archive.readUInt16LE(endOffset + 10)
+	let cursor = archive.readUInt32LE(endOffset + 16)
+	const entries: ZipEntry[] = []
+	let totalSize = 0
+
+	for (let i = 0; i < entryCount; i++) {
+		if (archive.readUInt32LE(cursor) !== CENTRAL_DIRECTORY_SIGNATURE) {
+			throw new Error("Invalid zip archive: corrupt central directory")
+		}
+		const method = archive.readUInt16LE(cursor + 10)
+		const checksum = archive.readUInt32LE(cursor + 16)
+		const compressedSize = archive.readUInt32LE(cursor + 20)
+		const nameLength = archive.readUInt16LE(cursor + 28)
+		const extraLength = archive.readUInt16LE(cursor + 30)
+		const commentLength = archive.readUInt16LE(cursor + 32)
+		const localOffset = archive.readUInt32LE(cursor + 42)
+		const name = archive.toString("utf8", cursor + 46, cursor + 46 + nameLength)
+		cursor += 46 + nameLength + extraLength + commentLength
+
+		if (name.endsWith("/")) {
+			continue
+		}
+		if (archive.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER_SIGNATURE) {
+			throw new Error(`Invalid zip archive: missing local header for ${name}`)
+		}
+		const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28)
+		const payload = archive.subarray(dataStart, dataStart + compressedSize)
+
+		const remaining = maxTotalSize - totalSize
+		const tooLarge = new Error(`Zip archive is larger than ${maxTotalSize} bytes when extracted`)
+		let data: Buffer
+		if (method === METHOD_DEFLATED) {
+			try {
+				data = zlib.inflateRawSync(payload, { maxOutputLength: Math.max(remaining, 1) })
+			} catch (error) {
+				throw error instanceof RangeError ? tooLarge : error
+			}
+		} else if (method === METHOD_STORED) {
+			data = Buffer.from(payload)
+		} else {
+			throw new Error(`Unsupported compression method ${method} for ${name}`)
+		}
+		totalSize += data.length
+		if (totalSize > maxTotalSize) {
+			throw tooLarge
+		}
+		if (crc32(data) !== checksum) {
+			throw new Error(`Checksum mismatch for ${name}`)
+		}
+		entries.push({ name, data })
+	}
+
+	return entries
+}
+
+function findEndOfCentralDirectory(archive: Buffer): number {
+	// The record is at the very end unless the archive has a trailing comment (at most 64KB)
+	const lowest = Math.max(0, archive.length - END_OF_CENTRAL_DIRECTORY_SIZE - 0xffff)
+	for (let offset = archive.length - END_OF_CENTRAL_DIRECTORY_SIZE; offset >= lowest; offset--) {
+		if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+			return offset
+		}
+	}
+	throw new Error("Invalid zip archive: end of central directory not found")
+}
@@ -67,4 +67,23 @@ export class UrlContentFetcher {
 
 		return markdown
 	}
+
+	// fetches the page over plain HTTP (no browser needed), so it only sees server-rendered content
+	async urlToReadableMarkdown(url: string): Promise<string> {
+		const response = await fetch(url, { signal: AbortSignal.timeout(10_000) })
+		if (!response.ok) {
+			throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+		}
+		const content = await response.text()
+
+		const { document } = parseHTML(content)
+		document
+			.querySelectorAll("script, style, nav, footer, header, aside, form, iframe, noscript")
+			.forEach((el) => el.remove())
+
+		// prefer the page's main content region when it marks one
+		const main = document.querySelector("article") || document.querySelector("main") || document.body
+		const turndownService = new TurndownService()
+		return turndownService.turndown(main?.outerHTML ?? content)
+	}
 }
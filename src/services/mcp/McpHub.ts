@@ -1,5 +1,5 @@
 import { sendMcpServersUpdate } from "@core/controller/mcp/subscribeToMcpServers"
-import type { McpServer } from "@shared/mcp"
+import type { McpPrompt, McpPromptResponse, McpResourceResponse, McpResourceTemplate, McpServer } from "@shared/mcp"
 import { MIN_MCP_TIMEOUT_SECONDS } from "@shared/mcp"
 import { convertMcpServersToProtoMcpServers } from "@shared/proto-conversions/mcp/mcp-server-conversion"
 import { z } from "zod"
@@ -8,8 +8,11 @@ import { Logger } from "@/services/logging/Logger"
 import { ShowMessageType } from "@/shared/proto/host/window"
 import { McpConnectionManager } from "./mcp_connection_manager"
 import { McpNotificationManager } from "./mcp_notification_manager"
+import { McpOAuthManager } from "./mcp_oauth_manager"
+import type { McpOAuthSessionStore } from "./mcp_oauth_provider"
 import { McpSettingsManager } from "./mcp_settings_manager"
 import { McpTransportFactory } from "./mcp_transport_factory"
+import { expandResourceTemplate } from "./resource_templates"
 import { BaseConfigSchema, ServerConfigSchema } from "./schemas"
 import type { McpServerConfig } from "./types"
 
@@ -31,12 +34,14 @@ import type { McpServerConfig } from "./types"
  * - Transport creation → McpTransportFactory
  * - Notifications → McpNotificationManager
  * - Connections → McpConnectionManager
+ * - OAuth sign-in → McpOAuthManager
  *
  * @example
  * ```typescript
  * const mcpHub = new McpHub(getMcpServersPath, getSettingsDirectoryPath, clientVersion)
  * const servers = mcpHub.getServers()
  * await mcpHub.callTool(serverName, toolName, args, ulid)
+ * await mcpHub.getPrompt(serverName, promptName, { topic: "auth" })
  * ```
  */
 export class McpHub {
@@ -45,6 +50,7 @@ export class McpHub {
 	private readonly transportFactory: McpTransportFactory
 	private readonly notificationManager: McpNotificationManager
 	private readonly connectionManager: McpConnectionManager
+	private readonly oauthManager?: McpOAuthManager
 
 	isConnecting: boolean = false
 
@@ -52,17 +58,22 @@ export class McpHub {
 		getMcpServersPath: () => Promise<string>,
 		getSettingsDirectoryPath: () => Promise<string>,
 		clientVersion: string,
+		oauthSessionStore?: McpOAuthSessionStore,
 	) {
 		// Initialize specialized service delegates
+		this.oauthManager = oauthSessionStore ? new McpOAuthManager(oauthSessionStore) : undefined
 		this.settingsManager = new McpSettingsManager(getMcpServersPath, getSettingsDirectoryPath)
-		this.transportFactory = new McpTransportFactory()
+		this.transportFactory = new McpTransportFactory(this.oauthManager)
 		this.notificationManager = new McpNotificationManager()
 		this.connectionManager = new McpConnectionManager(
 			this.transportFactory,
 			this.notificationManager,
 			this.settingsManager,
 			clientVersion,
+			this.oauthManager,
 		)
+		// Automatic reconnects happen in the background, so the UI is told separately
+		this.connectionManager.setServersChangedCallback(() => this.notifyWebviewOfServerChanges())
 
 		// Start watching settings file and initialize servers
 		this.watchMcpSettingsFile()
@@ -185,6 +196,50 @@ export class McpHub {
 		return this.getSortedMcpServers(Object.keys(config.mcpServers || {}))
 	}
 
+	/**
+	 * Sign in to a remote server with OAuth and reconnect (RPC method)
+	 *
+	 * Opens the server's authorization page in the browser and resolves once the user has
+	 * approved access and the server has been reconnected with the new tokens.
+	 *
+	 * @param serverName - Server name to authorize
+	 * @returns Promise<McpServer[]> - Updated server list
+	 */
+	async authorizeServerRPC(serverName: string): Promise<McpServer[]> {
+		const connection = this.connectionManager.findConnection(serverName)
+		if (!connection) {
+			throw new Error(`Server "${serverName}" not found`)
+		}
+		const config: McpServerConfig = JSON.parse(connection.server.config)
+		if (!this.oauthManager || config.type === "stdio") {
+			throw new Error(`Server "${serverName}" is not a remote server that supports OAuth`)
+		}
+
+		connection.server.authStatus = "pending"
+		await this.notifyWebviewOfServerChanges()
+
+		try {
+			await this.oauthManager.authorize(serverName, config.url)
+		} catch (error) {
+			const current = this.connectionManager.findConnection(serverName)
+			if (current) {
+				current.server.authStatus = "required"
+			}
+			await this.notifyWebviewOfServerChanges()
+			Logger.error(
+				`Failed to authorize MCP server ${serverName}`,
+				error instanceof Error ? error : new Error(String(error)),
+			)
+			HostProvider.window.showMessage({
+				type: ShowMessageType.ERROR,
+				message: `Failed to authorize ${serverName}: ${error instanceof Error ? error.message : String(error)}`,
+			})
+			throw error
+		}
+
+		return await this.restartConnectionRPC(serverName)
+	}
+
 	/**
 	 * Read a resource from a server (delegates to ConnectionManager)
 	 *
@@ -196,6 +251,59 @@ export class McpHub {
 		return await this.connectionManager.readResource(serverName, uri)
 	}
 
+	/**
+	 * Get the resource templates a server provides
+	 *
+	 * @param serverName - Server name
+	 * @returns Resource templates, empty if the server isn't connected
+	 */
+	getResourceTemplates(serverName: string): McpResourceTemplate[] {
+		return this.getServers().find((server) => server.name === serverName)?.resourceTemplates ?? []
+	}
+
+	/**
+	 * Read a resource by filling in one of a server's resource templates
+	 *
+	 * @param serverName - Server name
+	 * @param uriTemplate - Resource template URI
+	 * @param variables - Values for the template's variables
+	 * @returns Promise with the expanded URI and the resource content
+	 */
+	async readResourceTemplate(
+		serverName: string,
+		uriTemplate: string,
+		variables: Record<string, unknown>,
+	): Promise<{ uri: string; response: McpResourceResponse }> {
+		const uri = expandResourceTemplate(uriTemplate, variables)
+		return { uri, response: await this.readResource(serverName, uri) }
+	}
+
+	/**
+	 * Get the prompts a server provides
+	 *
+	 * @param serverName - Server name
+	 * @returns Prompts, empty if the server isn't connected
+	 */
+	getPrompts(serverName: string): McpPrompt[] {
+		return this.getServers().find((server) => server.name === serverName)?.prompts ?? []
+	}
+
+	/**
+	 * Get a prompt from a server (delegates to ConnectionManager)
+	 *
+	 * @param serverName - Server name
+	 * @param promptName - Prompt name
+	 * @param promptArguments - Prompt arguments
+	 * @returns Promise with the prompt's messages
+	 */
+	async getPrompt(
+		serverName: string,
+		promptName: string,
+		promptArguments: Record<string, string> | undefined,
+	): Promise<McpPromptResponse> {
+		return await this.connectionManager.getPrompt(serverName, promptName, promptArguments)
+	}
+
 	/**
 	 * Call a tool on a server (delegates to ConnectionManager)
 	 *
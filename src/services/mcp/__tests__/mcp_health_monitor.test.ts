@@ -0,0 +1,128 @@
+import { expect } from "chai"
+import { beforeEach, describe, it } from "mocha"
+import { DEFAULT_MCP_HEALTH_POLICY, type McpHealthClock, McpHealthMonitor } from "../mcp_health_monitor"
+
+/** Clock whose timers only fire when the test advances time */
+class FakeClock implements McpHealthClock {
+	time = 0
+	private timers: { at: number; callback: () => void; timer: NodeJS.Timeout }[] = []
+
+	now = () => this.time
+
+	setTimeout = (callback: () => void, ms: number) => {
+		const timer = {} as NodeJS.Timeout
+		this.timers.push({ at: this.time + ms, callback, timer })
+		return timer
+	}
+
+	clearTimeout = (timer: NodeJS.Timeout) => {
+		this.timers = this.timers.filter((entry) => entry.timer !== timer)
+	}
+
+	/** Fire the next timer and let the reconnect it starts settle */
+	async fireNext(): Promise<number> {
+		const next = [...this.timers].sort((a, b) => a.at - b.at)[0]
+		this.timers = this.timers.filter((entry) => entry !== next)
+		const delay = next.at - this.time
+		this.time = next.at
+		next.callback()
+		await new Promise((resolve) => setImmediate(resolve))
+		return delay
+	}
+
+	get pending(): number {
+		return this.timers.length
+	}
+}
+
+describe("McpHealthMonitor", () => {
+	let clock: FakeClock
+	let monitor: McpHealthMonitor
+
+	beforeEach(() => {
+		clock = new FakeClock()
+		monitor = new McpHealthMonitor(DEFAULT_MCP_HEALTH_POLICY, clock)
+	})
+
+	it("should track call outcomes and average latency", () => {
+		monitor.recordSuccess("server", 100)
+		monitor.recordFailure("server", "boom", 300)
+		clock.time = 5_000
+		monitor.recordSuccess("server", 200)
+
+		expect(monitor.getHealth("server")).to.include({
+			successCount: 2,
+			errorCount: 1,
+			consecutiveErrors: 0,
+			lastError: "boom",
+			lastSuccessAt: 5_000,
+			lastLatencyMs: 200,
+			averageLatencyMs: 200,
+		})
+	})
+
+	it("should reconnect with exponential backoff until the server is back", async () => {
+		const results = [false, false, true]
+		let attempts = 0
+
+		expect(monitor.handleDisconnect("server", async () => results[attempts++])).to.equal("reconnecting")
+
+		const delays = [await clock.fireNext(), await clock.fireNext(), await clock.fireNext()]
+		expect(delays).to.deep.equal([1_000, 2_000, 4_000])
+		expect(attempts).to.equal(3)
+		expect(clock.pending).to.equal(0)
+		expect(monitor.getHealth("server").nextReconnectAt).to.equal(undefined)
+	})
+
+	it("should give up after the maximum number of attempts", async () => {
+		const changes: string[] = []
+		monitor.setChangeCallback((serverName) => changes.push(serverName))
+		monitor.handleDisconnect("server", async () => false)
+
+		for (let i = 0; i < DEFAULT_MCP_HEALTH_POLICY.maxReconnectAttempts; i++) {
+			await clock.fireNext()
+		}
+
+		expect(clock.pending).to.equal(0)
+		expect(monitor.getHealth("server").reconnectAttempts).to.equal(DEFAULT_MCP_HEALTH_POLICY.maxReconnectAttempts)
+		expect(changes).to.have.length(DEFAULT_MCP_HEALTH_POLICY.maxReconnectAttempts)
+		expect(monitor.handleDisconnect("server", async () => true)).to.equal("gave_up")
+	})
+
+	it("should quarantine a server that keeps dropping", async () => {
+		let attempts = 0
+		const reconnect = async () => {
+			attempts++
+			return true
+		}
+
+		for (let i = 0; i < DEFAULT_MCP_HEALTH_POLICY.flapThreshold - 1; i++) {
+			expect(monitor.handleDisconnect("server", reconnect)).to.equal("reconnecting")
+			await clock.fireNext()
+			monitor.recordConnected("server")
+		}
+
+		expect(monitor.handleDisconnect("server", reconnect)).to.equal("quarantined")
+		expect(monitor.getHealth("server").quarantinedUntil).to.equal(clock.time + DEFAULT_MCP_HEALTH_POLICY.quarantineMs)
+
+		expect(await clock.fireNext()).to.equal(DEFAULT_MCP_HEALTH_POLICY.quarantineMs)
+		expect(attempts).to.equal(DEFAULT_MCP_HEALTH_POLICY.flapThreshold)
+		expect(monitor.getHealth("server").quarantinedUntil).to.equal(undefined)
+	})
+
+	it("should lift quarantine and cancel reconnects on reset", () => {
+		for (let i = 0; i < DEFAULT_MCP_HEALTH_POLICY.flapThreshold; i++) {
+			monitor.handleDisconnect("server", async () => false)
+		}
+
+		monitor.reset("server")
+
+		expect(clock.pending).to.equal(0)
+		expect(monitor.getHealth("server")).to.include({
+			quarantinedUntil: undefined,
+			nextReconnectAt: undefined,
+			reconnectAttempts: 0,
+			disconnectCount: DEFAULT_MCP_HEALTH_POLICY.flapThreshold,
+		})
+	})
+})
@@ -0,0 +1,154 @@
+import * as http from "node:http"
+import { expect } from "chai"
+import { after, before, describe, it } from "mocha"
+import { McpOAuthManager } from "../mcp_oauth_manager"
+import { McpOAuthClientProvider, type McpOAuthSession, type McpOAuthSessionStore } from "../mcp_oauth_provider"
+
+function createStore(): McpOAuthSessionStore {
+	const sessions = new Map<string, McpOAuthSession>()
+	return {
+		get: (serverName) => sessions.get(serverName),
+		set: (serverName, session) => {
+			if (session) {
+				sessions.set(serverName, session)
+			} else {
+				sessions.delete(serverName)
+			}
+		},
+	}
+}
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+	let body = ""
+	for await (const chunk of req) {
+		body += chunk
+	}
+	return body
+}
+
+describe("MCP OAuth", () => {
+	let authServer: http.Server
+	let serverUrl: string
+	const tokenRequests: URLSearchParams[] = []
+
+	// Serves the default endpoints the SDK falls back to without authorization server metadata
+	before(async () => {
+		authServer = http.createServer(async (req, res) => {
+			const body = await readBody(req)
+			if (req.method === "POST" && req.url === "/register") {
+				res.writeHead(201, { "Content-Type": "application/json" }).end(
+					JSON.stringify({ ...JSON.parse(body), client_id: "client-1" }),
+				)
+			} else if (req.method === "POST" && req.url === "/token") {
+				const params = new URLSearchParams(body)
+				tokenRequests.push(params)
+				const ok = params.get("code") === "code-1" || params.get("refresh_token") === "refresh-1"
+				res.writeHead(ok ? 200 : 400, { "Content-Type": "application/json" }).end(
+					JSON.stringify(ok ? { access_token: "access-1", token_type: "Bearer", refresh_token: "refresh-1" } : {}),
+				)
+			} else {
+				res.writeHead(404).end()
+			}
+		})
+		await new Promise<void>((resolve) => authServer.listen(0, "127.0.0.1", () => resolve()))
+		serverUrl = `http://127.0.0.1:${(authServer.address() as { port: number }).port}/mcp`
+	})
+
+	after(() => {
+		authServer.close()
+	})
+
+	describe("McpOAuthManager.authorize", () => {
+		it("should register, send the user to sign in and exchange the code with PKCE", async () => {
+			const store = createStore()
+			let authorizationUrl: URL | undefined
+			const manager = new McpOAuthManager(store, {
+				callbackPort: 0,
+				openUrl: async (url) => {
+					authorizationUrl = new URL(url)
+					const redirect = new URL(authorizationUrl.searchParams.get("redirect_uri")!)
+					redirect.searchParams.set("code", "code-1")
+					redirect.searchParams.set("state", authorizationUrl.searchParams.get("state")!)
+					await fetch(redirect)
+				},
+			})
+
+			await manager.authorize("gateway", serverUrl)
+
+			expect(authorizationUrl?.pathname).to.equal("/authorize")
+			expect(authorizationUrl?.searchParams.get("code_challenge_method")).to.equal("S256")
+			expect(tokenRequests.at(-1)?.get("code_verifier")).to.be.a("string").and.not.be.empty
+			const session = store.get("gateway")
+			expect(session?.clientInformation?.client_id).to.equal("client-1")
+			expect(session?.tokens?.access_token).to.equal("access-1")
+			expect(session?.codeVerifier).to.equal(undefined)
+			expect(manager.hasTokens("gateway", serverUrl)).to.equal(true)
+		})
+
+		it("should fail when the user denies access", async () => {
+			const manager = new McpOAuthManager(createStore(), {
+				callbackPort: 0,
+				openUrl: async (url) => {
+					const authorizationUrl = new URL(url)
+					const redirect = new URL(authorizationUrl.searchParams.get("redirect_uri")!)
+					redirect.searchParams.set("error", "access_denied")
+					redirect.searchParams.set("state", authorizationUrl.searchParams.get("state")!)
+					await fetch(redirect)
+				},
+			})
+
+			let error: Error | undefined
+			try {
+				await manager.authorize("gateway", serverUrl)
+			} catch (e) {
+				error = e as Error
+			}
+
+			expect(error?.message).to.equal("Authorization failed: access_denied")
+		})
+
+		it("should reuse a refresh token without opening the browser", async () => {
+			const store = createStore()
+			store.set("gateway", {
+				serverUrl,
+				clientInformation: { client_id: "client-1", redirect_uris: [] },
+				tokens: { access_token: "expired", token_type: "Bearer", refresh_token: "refresh-1" },
+			})
+			let opened = false
+			const manager = new McpOAuthManager(store, {
+				callbackPort: 0,
+				openUrl: async () => {
+					opened = true
+				},
+			})
+
+			await manager.authorize("gateway", serverUrl)
+
+			expect(opened).to.equal(false)
+			expect(store.get("gateway")?.tokens?.access_token).to.equal("access-1")
+		})
+	})
+
+	describe("McpOAuthClientProvider", () => {
+		it("should ignore a session for another URL and keep the refresh token", () => {
+			const store = createStore()
+			store.set("gateway", {
+				serverUrl: "https://old.example.com/mcp",
+				tokens: { access_token: "a", token_type: "Bearer" },
+			})
+			const provider = new McpOAuthClientProvider("gateway", serverUrl, store, () => {})
+
+			expect(provider.tokens()).to.equal(undefined)
+
+			provider.saveTokens({ access_token: "a", token_type: "Bearer", refresh_token: "r" })
+			provider.saveTokens({ access_token: "b", token_type: "Bearer" })
+
+			expect(store.get("gateway")).to.deep.equal({
+				serverUrl,
+				tokens: { access_token: "b", token_type: "Bearer", refresh_token: "r" },
+				codeVerifier: undefined,
+			})
+			expect(provider.redirectUrl).to.equal("http://127.0.0.1:33418/mcp/oauth/callback/gateway")
+		})
+	})
+})
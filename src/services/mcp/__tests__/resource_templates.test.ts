@@ -0,0 +1,28 @@
+import { expect } from "chai"
+import { describe, it } from "mocha"
+import { expandResourceTemplate, isResourceTemplate } from "../resource_templates"
+
+describe("Resource templates", () => {
+	it("should tell templates from concrete URIs", () => {
+		expect(isResourceTemplate("weather://{city}/current")).to.equal(true)
+		expect(isResourceTemplate("weather://paris/current")).to.equal(false)
+	})
+
+	it("should expand variables and stringify values", () => {
+		expect(expandResourceTemplate("repo://{owner}/{name}/issues{?page}", { owner: "acme", name: "app", page: 2 })).to.equal(
+			"repo://acme/app/issues?page=2",
+		)
+	})
+
+	it("should allow leaving out query variables", () => {
+		expect(expandResourceTemplate("repo://{owner}/{name}/issues{?page,state}", { owner: "acme", name: "app" })).to.equal(
+			"repo://acme/app/issues",
+		)
+	})
+
+	it("should name the variables that have no value", () => {
+		expect(() => expandResourceTemplate("repo://{owner}/{name}", { owner: "acme" })).to.throw(
+			"Missing values for resource template variables: name",
+		)
+	})
+})
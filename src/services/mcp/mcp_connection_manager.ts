@@ -2,6 +2,8 @@ import { setTimeout as setTimeoutPromise } from "node:timers/promises"
 import { Client } from "@modelcontextprotocol/sdk/client/index.js"
 import {
 	CallToolResultSchema,
+	GetPromptResultSchema,
+	ListPromptsResultSchema,
 	ListResourcesResultSchema,
 	ListResourceTemplatesResultSchema,
 	ListToolsResultSchema,
@@ -9,6 +11,8 @@ import {
 } from "@modelcontextprotocol/sdk/types.js"
 import {
 	DEFAULT_MCP_TIMEOUT_SECONDS,
+	type McpPrompt,
+	type McpPromptResponse,
 	type McpResource,
 	type McpResourceResponse,
 	type McpResourceTemplate,
@@ -24,7 +28,9 @@ import { HostProvider } from "@/hosts/host-provider"
 import { Logger } from "@/services/logging/Logger"
 import { ShowMessageType } from "@/shared/proto/host/window"
 import { DEFAULT_REQUEST_TIMEOUT_MS } from "./constants"
+import { McpHealthMonitor } from "./mcp_health_monitor"
 import { McpNotificationManager } from "./mcp_notification_manager"
+import type { McpOAuthManager } from "./mcp_oauth_manager"
 import { McpSettingsManager } from "./mcp_settings_manager"
 import { McpTransportFactory } from "./mcp_transport_factory"
 import { ServerConfigSchema } from "./schemas"
@@ -36,10 +42,12 @@ import type { McpConnection, McpServerConfig, Transport } from "./types"
  * This service handles the complete lifecycle of MCP server connections:
  * - Creating and starting connections
  * - Managing connection state
- * - Restarting failed connections
+ * - Restarting failed connections, automatically when a transport drops
  * - Cleaning up disconnected servers
  * - File watching for hot-reload
  * - Fetching tools and resources from servers
+ * - Tracking whether remote servers need the user to sign in
+ * - Per-server health (delegated to HealthMonitor)
  *
  * Responsibilities:
  * - Connection lifecycle management
@@ -59,13 +67,32 @@ import type { McpConnection, McpServerConfig, Transport } from "./types"
 export class McpConnectionManager {
 	private connections: McpConnection[] = []
 	private fileWatchers: Map<string, FSWatcher> = new Map()
+	/** Clients that finished connecting and haven't been closed on purpose */
+	private establishedClients = new Set<Client>()
+	private onServersChanged?: () => Promise<void>
 
 	constructor(
 		private readonly transportFactory: McpTransportFactory,
 		private readonly notificationManager: McpNotificationManager,
 		private readonly settingsManager: McpSettingsManager,
 		private readonly clientVersion: string,
-	) {}
+		private readonly oauthManager?: McpOAuthManager,
+		private readonly healthMonitor: McpHealthMonitor = new McpHealthMonitor(),
+	) {
+		this.healthMonitor.setChangeCallback((serverName) => {
+			this.refreshHealth(serverName)
+			this.onServersChanged?.().catch(() => {})
+		})
+	}
+
+	/**
+	 * Set the callback for changes that happen in the background, like automatic reconnects
+	 *
+	 * @param callback - Called after a server's status or health changed
+	 */
+	setServersChangedCallback(callback: () => Promise<void>): void {
+		this.onServersChanged = callback
+	}
 
 	/**
 	 * Get all connections
@@ -159,9 +186,13 @@ export class McpConnectionManager {
 				},
 				async () => {
 					const connection = this.findConnection(name)
-					if (connection) {
+					if (connection && connection.client === client) {
 						connection.server.status = "disconnected"
 					}
+					// Only a connection that was up and wasn't closed on purpose is brought back
+					if (this.establishedClients.delete(client)) {
+						await this.handleUnexpectedDisconnect(name, config)
+					}
 				},
 				async (output) => {
 					const connection = this.findConnection(name)
@@ -169,6 +200,12 @@ export class McpConnectionManager {
 						this.appendErrorMessage(connection, output)
 					}
 				},
+				() => {
+					const connection = this.findConnection(name)
+					if (connection) {
+						connection.server.authStatus = "required"
+					}
+				},
 			)
 
 			// Create connection object
@@ -190,6 +227,12 @@ export class McpConnectionManager {
 
 			connection.server.status = "connected"
 			connection.server.error = ""
+			this.establishedClients.add(client)
+			this.healthMonitor.recordConnected(name)
+			this.refreshHealth(name)
+			if (config.type !== "stdio" && this.oauthManager?.hasTokens(name, config.url)) {
+				connection.server.authStatus = "authorized"
+			}
 
 			// Set up notification handlers (delegates to NotificationManager)
 			await this.notificationManager.setupNotificationHandlers(client, name)
@@ -198,13 +241,20 @@ export class McpConnectionManager {
 			connection.server.tools = await this.fetchToolsList(name)
 			connection.server.resources = await this.fetchResourcesList(name)
 			connection.server.resourceTemplates = await this.fetchResourceTemplatesList(name)
+			connection.server.prompts = await this.fetchPromptsList(name)
 		} catch (error) {
 			// Update status with error
 			const connection = this.findConnection(name)
-			if (connection) {
+			if (connection && this.oauthManager?.isAuthorizationError(error)) {
+				// Replaces the transport's bare "Unauthorized"
+				connection.server.status = "disconnected"
+				connection.server.authStatus = "required"
+				connection.server.error = "This server requires you to sign in. Authorize MarieCoder to connect."
+			} else if (connection) {
 				connection.server.status = "disconnected"
 				this.appendErrorMessage(connection, error instanceof Error ? error.message : String(error))
 			}
+			this.refreshHealth(name)
 			throw error
 		}
 	}
@@ -220,6 +270,7 @@ export class McpConnectionManager {
 	async deleteConnection(name: string): Promise<void> {
 		const connection = this.findConnection(name)
 		if (connection) {
+			this.establishedClients.delete(connection.client)
 			try {
 				// Only close if transport/client exist (disabled servers don't have them)
 				if (connection.transport) {
@@ -262,6 +313,9 @@ export class McpConnectionManager {
 			connection.server.error = ""
 		}
 
+		// A manual restart also lifts backoff and quarantine
+		this.healthMonitor.reset(serverName)
+
 		await setTimeoutPromise(500) // Artificial delay for UX
 
 		try {
@@ -305,6 +359,8 @@ export class McpConnectionManager {
 		for (const name of currentNames) {
 			if (!newNames.has(name)) {
 				await this.deleteConnection(name)
+				this.oauthManager?.clearSession(name)
+				this.healthMonitor.remove(name)
 			}
 		}
 
@@ -435,6 +491,68 @@ export class McpConnectionManager {
 		}
 	}
 
+	/**
+	 * Fetch prompts list from a server
+	 *
+	 * @param serverName - Server name
+	 * @returns Promise<McpPrompt[]> - List of prompts
+	 * @private
+	 */
+	private async fetchPromptsList(serverName: string): Promise<McpPrompt[]> {
+		try {
+			const connection = this.findConnection(serverName)
+
+			if (!connection || connection.server.disabled || !connection.client) {
+				return []
+			}
+
+			const response = await connection.client.request({ method: "prompts/list" }, ListPromptsResultSchema, {
+				timeout: DEFAULT_REQUEST_TIMEOUT_MS,
+			})
+
+			return response?.prompts || []
+		} catch (_error) {
+			// Servers without the prompts capability reject the request
+			return []
+		}
+	}
+
+	/**
+	 * Get a prompt from a server, filled in with the given arguments
+	 *
+	 * @param serverName - Server name
+	 * @param promptName - Prompt name
+	 * @param promptArguments - Prompt arguments
+	 * @returns Promise<McpPromptResponse> - The prompt's messages
+	 * @throws Error if server not found or disabled
+	 */
+	async getPrompt(
+		serverName: string,
+		promptName: string,
+		promptArguments: Record<string, string> | undefined,
+	): Promise<McpPromptResponse> {
+		const connection = this.findConnection(serverName)
+
+		if (!connection) {
+			throw new Error(`No connection found for server: ${serverName}`)
+		}
+
+		if (connection.server.disabled) {
+			throw new Error(`Server "${serverName}" is disabled`)
+		}
+
+		return (await this.trackRequest(connection, () =>
+			connection.client.request(
+				{
+					method: "prompts/get",
+					params: { name: promptName, arguments: promptArguments },
+				},
+				GetPromptResultSchema,
+				{ timeout: this.getRequestTimeout(connection) },
+			),
+		)) as McpPromptResponse
+	}
+
 	/**
 	 * Read a resource from a server
 	 *
@@ -454,12 +572,14 @@ export class McpConnectionManager {
 			throw new Error(`Server "${serverName}" is disabled`)
 		}
 
-		return await connection.client.request(
-			{
-				method: "resources/read",
-				params: { uri },
-			},
-			ReadResourceResultSchema,
+		return await this.trackRequest(connection, () =>
+			connection.client.request(
+				{
+					method: "resources/read",
+					params: { uri },
+				},
+				ReadResourceResultSchema,
+			),
 		)
 	}
 
@@ -491,21 +611,10 @@ export class McpConnectionManager {
 			throw new Error(`Server "${serverName}" is disabled and cannot be used`)
 		}
 
-		let timeout = secondsToMs(DEFAULT_MCP_TIMEOUT_SECONDS)
-
-		try {
-			const config = JSON.parse(connection.server.config)
-			const parsedConfig = ServerConfigSchema.parse(config)
-			timeout = secondsToMs(parsedConfig.timeout)
-		} catch (error) {
-			Logger.error(
-				`Failed to parse timeout configuration for server ${serverName}`,
-				error instanceof Error ? error : new Error(String(error)),
-			)
-		}
+		const timeout = this.getRequestTimeout(connection)
 
-		try {
-			const result = await connection.client.request(
+		const result = await this.trackRequest(connection, () =>
+			connection.client.request(
 				{
 					method: "tools/call",
 					params: {
@@ -515,14 +624,115 @@ export class McpConnectionManager {
 				},
 				CallToolResultSchema,
 				{ timeout },
-			)
+			),
+		)
 
-			return {
-				...result,
-				content: result.content ?? [],
-			}
+		return {
+			...result,
+			content: result.content ?? [],
+		}
+	}
+
+	/**
+	 * Run a request against a server and record its latency and outcome
+	 *
+	 * @private
+	 */
+	private async trackRequest<T>(connection: McpConnection, request: () => Promise<T>): Promise<T> {
+		const name = connection.server.name
+		const startedAt = Date.now()
+		try {
+			const result = await request()
+			this.healthMonitor.recordSuccess(name, Date.now() - startedAt)
+			return result
 		} catch (error) {
+			this.healthMonitor.recordFailure(name, error instanceof Error ? error.message : String(error), Date.now() - startedAt)
 			throw error
+		} finally {
+			this.refreshHealth(name)
+		}
+	}
+
+	/**
+	 * Reconnect a server whose connection dropped, backing off and quarantining it via HealthMonitor
+	 *
+	 * @private
+	 */
+	private async handleUnexpectedDisconnect(name: string, config: McpServerConfig): Promise<void> {
+		const connection = this.findConnection(name)
+		if (!connection || connection.server.disabled || connection.server.authStatus === "required") {
+			return
+		}
+
+		const outcome = this.healthMonitor.handleDisconnect(name, () => this.reconnect(name, config))
+		const health = this.healthMonitor.getHealth(name)
+		switch (outcome) {
+			case "reconnecting":
+				connection.server.error = `Connection lost. Reconnecting (attempt ${health.reconnectAttempts})...`
+				break
+			case "quarantined":
+				connection.server.error = `Connection keeps dropping, so reconnecting is paused until ${new Date(health.quarantinedUntil ?? Date.now()).toLocaleTimeString()}. Restart the server to try now.`
+				break
+			case "gave_up":
+				connection.server.error = "Connection lost and could not be restored. Restart the server to try again."
+				break
+		}
+		Logger.warn(`MCP server "${name}" disconnected unexpectedly (${outcome})`)
+		this.refreshHealth(name)
+		await this.onServersChanged?.()
+	}
+
+	/**
+	 * One automatic reconnect attempt
+	 *
+	 * @returns Whether reconnecting is done: the server is back, or it was removed, disabled or reconfigured meanwhile
+	 * @private
+	 */
+	private async reconnect(name: string, config: McpServerConfig): Promise<boolean> {
+		const connection = this.findConnection(name)
+		if (!connection || connection.server.disabled || connection.server.config !== JSON.stringify(config)) {
+			return true
+		}
+		try {
+			await this.deleteConnection(name)
+			await this.connectToServer(name, config)
+			return true
+		} catch (error) {
+			Logger.warn(`Failed to reconnect MCP server "${name}": ${error instanceof Error ? error.message : String(error)}`)
+			return false
+		}
+	}
+
+	/**
+	 * Copy the server's latest health onto its connection
+	 *
+	 * @private
+	 */
+	private refreshHealth(name: string): void {
+		const connection = this.findConnection(name)
+		if (connection) {
+			connection.server.health = this.healthMonitor.getHealth(name)
+		}
+	}
+
+	/**
+	 * Get the request timeout configured for a server
+	 *
+	 * @param connection - Server connection
+	 * @returns Timeout in milliseconds, falling back to the default when the config can't be parsed
+	 * @private
+	 */
+	private getRequestTimeout(connection: McpConnection): number {
+		try {
+			const config = JSON.parse(connection.server.config)
+			const parsedConfig = ServerConfigSchema.parse(config)
+			return secondsToMs(parsedConfig.timeout)
+		} catch (error) {
+			Logger.error(
+				`Failed to parse timeout configuration for server ${connection.server.name}`,
+				error instanceof Error ? error : new Error(String(error)),
+			)
+			return secondsToMs(DEFAULT_MCP_TIMEOUT_SECONDS)
 		}
 	}
 
@@ -580,6 +790,7 @@ export class McpConnectionManager {
 	 */
 	async dispose(): Promise<void> {
 		this.removeAllFileWatchers()
+		this.healthMonitor.dispose()
 
 		for (const connection of this.connections) {
 			try {
@@ -0,0 +1,236 @@
+import type { McpServerHealth } from "@shared/mcp"
+
+/**
+ * When and how often a dropped server is reconnected
+ */
+export interface McpHealthPolicy {
+	/** Delay before the first reconnect; doubles with every failed attempt */
+	initialBackoffMs: number
+	maxBackoffMs: number
+	/** Attempts after one disconnect before giving up until the user restarts the server */
+	maxReconnectAttempts: number
+	/** Disconnects within `flapWindowMs` that put a server in quarantine */
+	flapThreshold: number
+	flapWindowMs: number
+	/** How long a flapping server is left disconnected before one more attempt */
+	quarantineMs: number
+	/** Calls the average latency is taken over */
+	latencySampleSize: number
+}
+
+export const DEFAULT_MCP_HEALTH_POLICY: McpHealthPolicy = {
+	initialBackoffMs: 1_000,
+	maxBackoffMs: 60_000,
+	maxReconnectAttempts: 6,
+	flapThreshold: 3,
+	flapWindowMs: 5 * 60_000,
+	quarantineMs: 10 * 60_000,
+	latencySampleSize: 20,
+}
+
+export interface McpHealthClock {
+	now: () => number
+	setTimeout: (callback: () => void, ms: number) => NodeJS.Timeout
+	clearTimeout: (timer: NodeJS.Timeout) => void
+}
+
+/** What happened after a server dropped */
+export type McpDisconnectOutcome = "reconnecting" | "quarantined" | "gave_up"
+
+interface ServerHealthState {
+	health: McpServerHealth
+	latencies: number[]
+	disconnectTimes: number[]
+	timer?: NodeJS.Timeout
+}
+
+const systemClock: McpHealthClock = {
+	now: () => Date.now(),
+	setTimeout: (callback, ms) => setTimeout(callback, ms),
+	clearTimeout: (timer) => clearTimeout(timer),
+}
+
+/**
+ * Tracks each MCP server's health and brings dropped servers back
+ *
+ * Every call records its latency and outcome. When a transport closes unexpectedly the server
+ * is reconnected with exponential backoff; a server that keeps dropping is quarantined, so a
+ * crash loop doesn't respawn it forever. A manual restart clears the slate.
+ */
+export class McpHealthMonitor {
+	private readonly servers = new Map<string, ServerHealthState>()
+	private onChange?: (serverName: string) => void
+
+	constructor(
+		private readonly policy: McpHealthPolicy = DEFAULT_MCP_HEALTH_POLICY,
+		private readonly clock: McpHealthClock = systemClock,
+	) {}
+
+	/**
+	 * Called whenever a server's health changes outside of a call, e.g. a reconnect was scheduled
+	 */
+	setChangeCallback(callback: (serverName: string) => void): void {
+		this.onChange = callback
+	}
+
+	/**
+	 * A copy of the server's health
+	 */
+	getHealth(serverName: string): McpServerHealth {
+		return { ...this.getState(serverName).health }
+	}
+
+	recordSuccess(serverName: string, latencyMs: number): void {
+		const state = this.getState(serverName)
+		state.health.successCount++
+		state.health.consecutiveErrors = 0
+		state.health.lastSuccessAt = this.clock.now()
+		this.recordLatency(state, latencyMs)
+	}
+
+	recordFailure(serverName: string, error: string, latencyMs?: number): void {
+		const state = this.getState(serverName)
+		state.health.errorCount++
+		state.health.consecutiveErrors++
+		state.health.lastErrorAt = this.clock.now()
+		state.health.lastError = error
+		if (latencyMs !== undefined) {
+			this.recordLatency(state, latencyMs)
+		}
+	}
+
+	/**
+	 * The server (re)connected; a later drop starts a fresh backoff
+	 */
+	recordConnected(serverName: string): void {
+		const state = this.getState(serverName)
+		state.health.reconnectAttempts = 0
+		state.health.nextReconnectAt = undefined
+		state.health.connectedAt = this.clock.now()
+	}
+
+	/**
+	 * The server dropped without being asked to. Schedules reconnects with `reconnect`, which
+	 * resolves to whether the server came back.
+	 */
+	handleDisconnect(serverName: string, reconnect: () => Promise<boolean>): McpDisconnectOutcome {
+		const state = this.getState(serverName)
+		const now = this.clock.now()
+		this.cancelTimer(state)
+
+		state.health.disconnectCount++
+		state.disconnectTimes = [...state.disconnectTimes, now].filter((time) => now - time < this.policy.flapWindowMs)
+
+		if (state.disconnectTimes.length >= this.policy.flapThreshold) {
+			state.health.quarantinedUntil = now + this.policy.quarantineMs
+			state.health.nextReconnectAt = state.health.quarantinedUntil
+			state.disconnectTimes = []
+			state.timer = this.clock.setTimeout(() => {
+				state.timer = undefined
+				state.health.quarantinedUntil = undefined
+				state.health.reconnectAttempts = 0
+				this.attemptReconnect(serverName, state, reconnect)
+			}, this.policy.quarantineMs)
+			return "quarantined"
+		}
+
+		return this.scheduleReconnect(serverName, state, reconnect)
+	}
+
+	/**
+	 * Forget backoff and quarantine, e.g. when the user restarts the server. Call counts are kept.
+	 */
+	reset(serverName: string): void {
+		const state = this.servers.get(serverName)
+		if (!state) {
+			return
+		}
+		this.cancelTimer(state)
+		state.disconnectTimes = []
+		state.health.reconnectAttempts = 0
+		state.health.nextReconnectAt = undefined
+		state.health.quarantinedUntil = undefined
+	}
+
+	/**
+	 * Stop tracking a server that was removed
+	 */
+	remove(serverName: string): void {
+		const state = this.servers.get(serverName)
+		if (state) {
+			this.cancelTimer(state)
+			this.servers.delete(serverName)
+		}
+	}
+
+	dispose(): void {
+		for (const state of this.servers.values()) {
+			this.cancelTimer(state)
+		}
+		this.servers.clear()
+	}
+
+	private scheduleReconnect(
+		serverName: string,
+		state: ServerHealthState,
+		reconnect: () => Promise<boolean>,
+	): McpDisconnectOutcome {
+		if (state.health.reconnectAttempts >= this.policy.maxReconnectAttempts) {
+			state.health.nextReconnectAt = undefined
+			return "gave_up"
+		}
+
+		const delay = Math.min(this.policy.initialBackoffMs * 2 ** state.health.reconnectAttempts, this.policy.maxBackoffMs)
+		state.health.reconnectAttempts++
+		state.health.nextReconnectAt = this.clock.now() + delay
+		state.timer = this.clock.setTimeout(() => {
+			state.timer = undefined
+			this.attemptReconnect(serverName, state, reconnect)
+		}, delay)
+		return "reconnecting"
+	}
+
+	private attemptReconnect(serverName: string, state: ServerHealthState, reconnect: () => Promise<boolean>): void {
+		state.health.nextReconnectAt = undefined
+		reconnect()
+			.catch(() => false)
+			.then((connected) => {
+				// Removed or reset while reconnecting
+				if (this.servers.get(serverName) !== state || state.timer) {
+					return
+				}
+				if (!connected) {
+					this.scheduleReconnect(serverName, state, reconnect)
+				}
+				this.onChange?.(serverName)
+			})
+	}
+
+	private recordLatency(state: ServerHealthState, latencyMs: number): void {
+		state.latencies = [...state.latencies, latencyMs].slice(-this.policy.latencySampleSize)
+		state.health.lastLatencyMs = latencyMs
+		state.health.averageLatencyMs = Math.round(
+			state.latencies.reduce((sum, latency) => sum + latency, 0) / state.latencies.length,
+		)
+	}
+
+	private cancelTimer(state: ServerHealthState): void {
+		if (state.timer) {
+			this.clock.clearTimeout(state.timer)
+			state.timer = undefined
+		}
+	}
+
+	private getState(serverName: string): ServerHealthState {
+		let state = this.servers.get(serverName)
+		if (!state) {
+			state = {
+				health: { successCount: 0, errorCount: 0, consecutiveErrors: 0, disconnectCount: 0, reconnectAttempts: 0 },
+				latencies: [],
+				disconnectTimes: [],
+			}
+			this.servers.set(serverName, state)
+		}
+		return state
+	}
+}
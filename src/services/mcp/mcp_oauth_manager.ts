@@ -0,0 +1,221 @@
+import { randomBytes } from "node:crypto"
+import * as http from "node:http"
+import { auth, type OAuthClientProvider, UnauthorizedError } from "@modelcontextprotocol/sdk/client/auth.js"
+import { openExternal } from "@utils/env"
+import type { StateManager } from "@/core/storage/StateManager"
+import {
+	MCP_OAUTH_CALLBACK_PORT,
+	McpOAuthClientProvider,
+	type McpOAuthSession,
+	type McpOAuthSessionStore,
+} from "./mcp_oauth_provider"
+
+const AUTHORIZATION_TIMEOUT_MS = 5 * 60 * 1000
+
+export interface McpOAuthManagerOptions {
+	/** Opens the authorization page for the user; defaults to the system browser */
+	openUrl?: (url: string) => Promise<void>
+	/** Port of the local callback; 0 picks a free one, which only suits tests */
+	callbackPort?: number
+	timeoutMs?: number
+}
+
+/**
+ * Keeps every server's OAuth session as one JSON secret, so tokens live in the host's
+ * secure storage next to the API keys
+ */
+export function createSecretsMcpOAuthSessionStore(
+	stateManager: Pick<StateManager, "getSecretKey" | "setSecret">,
+): McpOAuthSessionStore {
+	const readSessions = (): Record<string, McpOAuthSession> => {
+		try {
+			return JSON.parse(stateManager.getSecretKey("mcpOAuthSessions") || "{}")
+		} catch {
+			return {}
+		}
+	}
+
+	return {
+		get: (serverName) => readSessions()[serverName],
+		set: (serverName, session) => {
+			const sessions = readSessions()
+			if (session) {
+				sessions[serverName] = session
+			} else {
+				delete sessions[serverName]
+			}
+			stateManager.setSecret("mcpOAuthSessions", Object.keys(sessions).length > 0 ? JSON.stringify(sessions) : undefined)
+		},
+	}
+}
+
+/**
+ * Authorizes remote MCP servers with OAuth
+ *
+ * Transports get an auth provider that sends the stored access token and refreshes it on a 401.
+ * When a server needs the user to sign in, the connection fails with an UnauthorizedError and
+ * the user starts `authorize`, which opens the authorization page in the browser and waits for
+ * the redirect on a local callback before exchanging the code for tokens.
+ */
+export class McpOAuthManager {
+	private readonly authorizing = new Set<string>()
+
+	constructor(
+		private readonly store: McpOAuthSessionStore,
+		private readonly options: McpOAuthManagerOptions = {},
+	) {}
+
+	/**
+	 * Auth provider for a server's transport. It never opens the browser itself: when the user has
+	 * to sign in, `onAuthorizationRequired` is called and the connection attempt fails.
+	 */
+	createAuthProvider(serverName: string, serverUrl: string, onAuthorizationRequired: () => void): OAuthClientProvider {
+		return new McpOAuthClientProvider(
+			serverName,
+			serverUrl,
+			this.store,
+			() => onAuthorizationRequired(),
+			this.options.callbackPort,
+		)
+	}
+
+	/**
+	 * Whether the server has tokens for its current URL
+	 */
+	hasTokens(serverName: string, serverUrl: string): boolean {
+		const session = this.store.get(serverName)
+		return session?.serverUrl === serverUrl && !!session.tokens
+	}
+
+	/**
+	 * Forget a server's client registration and tokens
+	 */
+	clearSession(serverName: string): void {
+		if (this.store.get(serverName)) {
+			this.store.set(serverName, undefined)
+		}
+	}
+
+	/**
+	 * Whether a connection failed because the server needs the user to sign in
+	 */
+	isAuthorizationError(error: unknown): boolean {
+		return error instanceof UnauthorizedError
+	}
+
+	/**
+	 * Sign in to a server: open its authorization page and wait until the user has approved access
+	 *
+	 * @throws Error if the user denies access, doesn't finish in time or the server rejects the code
+	 */
+	async authorize(serverName: string, serverUrl: string): Promise<void> {
+		if (this.authorizing.has(serverName)) {
+			throw new Error(`Authorization for "${serverName}" is already in progress`)
+		}
+		this.authorizing.add(serverName)
+
+		const state = randomBytes(16).toString("hex")
+		const callback = await listenForAuthorizationCode(
+			serverName,
+			state,
+			this.options.callbackPort ?? MCP_OAUTH_CALLBACK_PORT,
+			this.options.timeoutMs ?? AUTHORIZATION_TIMEOUT_MS,
+		).catch((error) => {
+			this.authorizing.delete(serverName)
+			throw error
+		})
+
+		try {
+			let authorizationUrl: URL | undefined
+			const provider = new McpOAuthClientProvider(
+				serverName,
+				serverUrl,
+				this.store,
+				(url) => {
+					url.searchParams.set("state", state)
+					authorizationUrl = url
+				},
+				callback.port,
+			)
+
+			// A stored refresh token may be enough
+			if ((await auth(provider, { serverUrl })) === "AUTHORIZED" || !authorizationUrl) {
+				return
+			}
+
+			await (this.options.openUrl ?? openExternal)(authorizationUrl.toString())
+			const authorizationCode = await callback.code
+			await auth(provider, { serverUrl, authorizationCode })
+		} finally {
+			callback.close()
+			this.authorizing.delete(serverName)
+		}
+	}
+}
+
+/**
+ * Serve the redirect URL until the authorization server sends the user back with a code
+ */
+async function listenForAuthorizationCode(
+	serverName: string,
+	state: string,
+	port: number,
+	timeoutMs: number,
+): Promise<{ port: number; code: Promise<string>; close: () => void }> {
+	const callbackPath = `/mcp/oauth/callback/${encodeURIComponent(serverName)}`
+	let resolveCode: (code: string) => void = () => {}
+	let rejectCode: (error: Error) => void = () => {}
+	const code = new Promise<string>((resolve, reject) => {
+		resolveCode = resolve
+		rejectCode = reject
+	})
+	// The caller may stop waiting before the code arrives
+	code.catch(() => {})
+
+	const server = http.createServer((req, res) => {
+		const url = new URL(req.url ?? "/", "http://127.0.0.1")
+		if (url.pathname !== callbackPath) {
+			res.writeHead(404).end()
+			return
+		}
+		if (url.searchParams.get("state") !== state) {
+			res.writeHead(400, { "Content-Type": "text/plain" }).end("This authorization link has expired.")
+			return
+		}
+
+		const error = url.searchParams.get("error")
+		const authorizationCode = url.searchParams.get("code")
+		if (error || !authorizationCode) {
+			res.writeHead(400, { "Content-Type": "text/plain" }).end("Authorization failed. You can close this tab.")
+			rejectCode(new Error(`Authorization failed: ${url.searchParams.get("error_description") || error || "no code"}`))
+			return
+		}
+
+		res.writeHead(200, { "Content-Type": "text/plain" }).end(
+			`Signed in to the "${serverName}" MCP server. You can close this tab and return to MarieCoder.`,
+		)
+		resolveCode(authorizationCode)
+	})
+
+	await new Promise<void>((resolve, reject) => {
+		server.once("error", (error: NodeJS.ErrnoException) => {
+			reject(
+				error.code === "EADDRINUSE"
+					? new Error(`Port ${port} for the OAuth callback is in use; close the other sign-in and try again`)
+					: error,
+			)
+		})
+		server.listen(port, "127.0.0.1", () => resolve())
+	})
+
+	const timeout = setTimeout(() => rejectCode(new Error("Timed out waiting for authorization")), timeoutMs)
+	return {
+		port: (server.address() as { port: number }).port,
+		code,
+		close: () => {
+			clearTimeout(timeout)
+			rejectCode(new Error("Authorization was cancelled"))
+			server.close()
+		},
+	}
+}
@@ -0,0 +1,112 @@
+import type { OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js"
+import type {
+	OAuthClientInformation,
+	OAuthClientInformationFull,
+	OAuthClientMetadata,
+	OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js"
+
+/**
+ * Port of the local callback the authorization server redirects back to. It has to stay the same
+ * between runs because the redirect URL is part of each server's client registration.
+ */
+export const MCP_OAUTH_CALLBACK_PORT = 33418
+
+/**
+ * Everything kept between runs to authorize with one MCP server
+ */
+export interface McpOAuthSession {
+	/** The server URL the session belongs to; a session for another URL is never reused */
+	serverUrl: string
+	clientInformation?: OAuthClientInformationFull
+	tokens?: OAuthTokens
+	/** PKCE verifier of the authorization in progress */
+	codeVerifier?: string
+}
+
+export interface McpOAuthSessionStore {
+	get(serverName: string): McpOAuthSession | undefined
+	set(serverName: string, session: McpOAuthSession | undefined): void
+}
+
+/**
+ * The local URL the authorization server sends the user back to for a server
+ */
+export function getMcpOAuthRedirectUrl(serverName: string, port: number = MCP_OAUTH_CALLBACK_PORT): string {
+	return `http://127.0.0.1:${port}/mcp/oauth/callback/${encodeURIComponent(serverName)}`
+}
+
+/**
+ * OAuth client for one MCP server, backed by a session store
+ *
+ * The MCP SDK drives the flow: it discovers the authorization server, registers this client
+ * dynamically, adds PKCE, sends the access token and refreshes it when the server answers 401.
+ * This class only keeps the results and hands the authorization URL to `onAuthorizationUrl`
+ * when the user has to sign in.
+ */
+export class McpOAuthClientProvider implements OAuthClientProvider {
+	constructor(
+		private readonly serverName: string,
+		private readonly serverUrl: string,
+		private readonly store: McpOAuthSessionStore,
+		private readonly onAuthorizationUrl: (authorizationUrl: URL) => void | Promise<void>,
+		private readonly port: number = MCP_OAUTH_CALLBACK_PORT,
+	) {}
+
+	get redirectUrl(): string {
+		return getMcpOAuthRedirectUrl(this.serverName, this.port)
+	}
+
+	get clientMetadata(): OAuthClientMetadata {
+		return {
+			client_name: "MarieCoder",
+			redirect_uris: [this.redirectUrl],
+			grant_types: ["authorization_code", "refresh_token"],
+			response_types: ["code"],
+			token_endpoint_auth_method: "none",
+		}
+	}
+
+	clientInformation(): OAuthClientInformation | undefined {
+		return this.getSession().clientInformation
+	}
+
+	saveClientInformation(clientInformation: OAuthClientInformationFull): void {
+		this.updateSession({ clientInformation })
+	}
+
+	tokens(): OAuthTokens | undefined {
+		return this.getSession().tokens
+	}
+
+	saveTokens(tokens: OAuthTokens): void {
+		// Some servers only return a refresh token the first time
+		const refreshToken = tokens.refresh_token ?? this.getSession().tokens?.refresh_token
+		this.updateSession({ tokens: { ...tokens, refresh_token: refreshToken }, codeVerifier: undefined })
+	}
+
+	async redirectToAuthorization(authorizationUrl: URL): Promise<void> {
+		await this.onAuthorizationUrl(authorizationUrl)
+	}
+
+	saveCodeVerifier(codeVerifier: string): void {
+		this.updateSession({ codeVerifier })
+	}
+
+	codeVerifier(): string {
+		const codeVerifier = this.getSession().codeVerifier
+		if (!codeVerifier) {
+			throw new Error(`No authorization in progress for MCP server "${this.serverName}"`)
+		}
+		return codeVerifier
+	}
+
+	private getSession(): McpOAuthSession {
+		const session = this.store.get(this.serverName)
+		return session?.serverUrl === this.serverUrl ? session : { serverUrl: this.serverUrl }
+	}
+
+	private updateSession(changes: Partial<McpOAuthSession>): void {
+		this.store.set(this.serverName, { ...this.getSession(), ...changes })
+	}
+}
@@ -1,9 +1,11 @@
+import type { OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js"
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js"
 import { getDefaultEnvironment, StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js"
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
 import { Logger } from "@services/logging/Logger"
 import ReconnectingEventSource from "reconnecting-eventsource"
 import { z } from "zod"
+import type { McpOAuthManager } from "./mcp_oauth_manager"
 import { ServerConfigSchema } from "./schemas"
 import type { Transport } from "./types"
 
@@ -18,17 +20,20 @@ import type { Transport } from "./types"
  * - Create stdio transports with process management
  * - Create SSE transports with reconnection logic
  * - Create streamableHttp transports
+ * - Attach OAuth to remote transports without a static Authorization header
  * - Configure error handlers for each transport type
  * - Handle stderr streams for stdio transports
  * - Configure transport-specific options
  *
  * @example
  * ```typescript
- * const factory = new McpTransportFactory()
+ * const factory = new McpTransportFactory(oauthManager)
  * const transport = await factory.createTransport(config, serverName, onError, onClose)
  * ```
  */
 export class McpTransportFactory {
+	constructor(private readonly oauthManager?: McpOAuthManager) {}
+
 	/**
 	 * Create a transport based on server configuration
 	 *
@@ -41,6 +46,7 @@ export class McpTransportFactory {
 	 * @param onError - Error handler callback
 	 * @param onClose - Close handler callback
 	 * @param onStderr - Stderr handler callback (stdio only)
+	 * @param onAuthorizationRequired - Called when a remote server needs the user to sign in
 	 * @returns Promise<Transport> - Configured and started transport
 	 * @throws Error if unknown transport type
 	 */
@@ -50,22 +56,53 @@ export class McpTransportFactory {
 		onError: (error: Error) => Promise<void>,
 		onClose?: () => Promise<void>,
 		onStderr?: (output: string) => Promise<void>,
+		onAuthorizationRequired?: () => void,
 	): Promise<Transport> {
 		switch (config.type) {
 			case "stdio":
 				return await this.createStdioTransport(config, serverName, onError, onClose, onStderr)
 
 			case "sse":
-				return this.createSseTransport(config, onError)
+				return this.createSseTransport(
+					config,
+					onError,
+					this.createAuthProvider(config, serverName, onAuthorizationRequired),
+				)
 
 			case "streamableHttp":
-				return this.createStreamableHttpTransport(config, onError)
+				return this.createStreamableHttpTransport(
+					config,
+					onError,
+					this.createAuthProvider(config, serverName, onAuthorizationRequired),
+				)
 
 			default:
 				throw new Error(`Unknown transport type: ${(config as any).type}`)
 		}
 	}
 
+	/**
+	 * Create the OAuth provider for a remote server
+	 *
+	 * A static Authorization header means the server is already configured with credentials,
+	 * so OAuth is left out.
+	 *
+	 * @private
+	 */
+	private createAuthProvider(
+		config: Extract<z.infer<typeof ServerConfigSchema>, { type: "sse" | "streamableHttp" }>,
+		serverName: string,
+		onAuthorizationRequired: () => void = () => {},
+	): OAuthClientProvider | undefined {
+		const hasStaticAuthorization = Object.keys(config.headers ?? {}).some(
+			(header) => header.toLowerCase() === "authorization",
+		)
+		if (!this.oauthManager || hasStaticAuthorization) {
+			return undefined
+		}
+		return this.oauthManager.createAuthProvider(serverName, config.url, onAuthorizationRequired)
+	}
+
 	/**
 	 * Create stdio transport
 	 *
@@ -148,11 +185,13 @@ export class McpTransportFactory {
 	private createSseTransport(
 		config: Extract<z.infer<typeof ServerConfigSchema>, { type: "sse" }>,
 		onError: (error: Error) => Promise<void>,
+		authProvider?: OAuthClientProvider,
 	): SSEClientTransport {
 		const sseOptions = {
 			requestInit: {
 				headers: config.headers,
 			},
+			authProvider,
 		}
 
 		const reconnectingEventSourceOptions = {
@@ -181,18 +220,20 @@ export class McpTransportFactory {
 	 * Create streamableHttp transport
 	 *
 	 * Creates an HTTP transport with streamable response handling.
-	 * Configures headers for authentication if needed.
+	 * Configures headers or OAuth for authentication if needed.
 	 *
 	 * @private
 	 */
 	private createStreamableHttpTransport(
 		config: Extract<z.infer<typeof ServerConfigSchema>, { type: "streamableHttp" }>,
 		onError: (error: Error) => Promise<void>,
+		authProvider?: OAuthClientProvider,
 	): StreamableHTTPClientTransport {
 		const transport = new StreamableHTTPClientTransport(new URL(config.url), {
 			requestInit: {
 				headers: config.headers,
 			},
+			authProvider,
 		})
 
 		// Set up error handler
@@ -0,0 +1,52 @@
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js"
+
+/**
+ * Whether the URI is a resource template like `weather://{city}/current` rather than a concrete URI
+ */
+export function isResourceTemplate(uri: string): boolean {
+	return UriTemplate.isTemplate(uri)
+}
+
+/**
+ * Fill in a resource template's variables to get the URI of the resource to read
+ *
+ * @param uriTemplate - RFC 6570 URI template from the server's resource templates
+ * @param variables - Values for the template's variables; numbers and booleans are stringified. Query
+ * variables like `{?page}` may be left out, every other variable needs a value.
+ * @returns The expanded URI
+ * @throws Error naming the variables that have no value, or if the template is invalid
+ */
+export function expandResourceTemplate(uriTemplate: string, variables: Record<string, unknown>): string {
+	const template = new UriTemplate(uriTemplate)
+	const missing = getRequiredVariableNames(uriTemplate).filter(
+		(name) => variables[name] === undefined || variables[name] === null,
+	)
+	if (missing.length > 0) {
+		throw new Error(`Missing values for resource template variables: ${missing.join(", ")}`)
+	}
+
+	const values: Record<string, string | string[]> = {}
+	for (const name of template.variableNames) {
+		const value = variables[name]
+		if (value === undefined || value === null) {
+			continue
+		}
+		values[name] = Array.isArray(value) ? value.map((item) => String(item)) : String(value)
+	}
+	return template.expand(values)
+}
+
+/**
+ * Variables outside query expressions, which the URI can't be built without
+ */
+function getRequiredVariableNames(uriTemplate: string): string[] {
+	const names: string[] = []
+	for (const [, expression] of uriTemplate.matchAll(/\{([^}]+)\}/g)) {
+		if (expression.startsWith("?") || expression.startsWith("&")) {
+			continue
+		}
+		const variableList = /^[+#./;]/.test(expression) ? expression.slice(1) : expression
+		names.push(...variableList.split(",").map((name) => name.replace(/(\*|:\d+)$/, "").trim()))
+	}
+	return names
+}
@@ -157,6 +157,37 @@ export async function regexSearchFiles(
 	return formatResults(filteredResults, cwd)
 }
 
+/**
+ * List files under directoryPath that contain at least one match for regex.
+ * Pass fixedStrings to treat regex as a literal string.
+ */
+export async function findFilesWithMatches(
+	directoryPath: string,
+	regex: string,
+	options: { filePattern?: string; fixedStrings?: boolean; clineIgnoreController?: ClineIgnoreController } = {},
+): Promise<string[]> {
+	const args = ["--files-with-matches", "--glob", options.filePattern || "*"]
+	if (options.fixedStrings) {
+		args.push("--fixed-strings")
+	}
+	args.push("-e", regex, directoryPath)
+
+	let output: string
+	try {
+		output = await execRipgrep(args)
+	} catch (error) {
+		throw Error("Error calling ripgrep", { cause: error })
+	}
+
+	const files = output
+		.split("\n")
+		.map((line) => line.trim())
+		.filter(Boolean)
+		.map((file) => path.resolve(directoryPath, file))
+
+	return options.clineIgnoreController ? options.clineIgnoreController.filterPaths(files) : files
+}
+
 const MAX_RIPGREP_MB = 0.25
 const MAX_BYTE_SIZE = MAX_RIPGREP_MB * 1024 * 1024 // 0./25MB in bytes
 
@@ -0,0 +1,184 @@
+import type { ClineMessage } from "@shared/ExtensionMessage"
+import type { HistoryItem } from "@shared/HistoryItem"
+import { expect } from "chai"
+import fs from "fs/promises"
+import { afterEach, beforeEach, describe, it } from "mocha"
+import os from "os"
+import * as path from "path"
+import { extractTaskSegments } from "../extract"
+import { TaskSearchIndex } from "../task-search-index"
+import { stem, tokenize } from "../tokenize"
+
+describe("Task history search", () => {
+	describe("tokenize", () => {
+		it("should lowercase, drop stop words and split paths", () => {
+			expect(tokenize("Fix the Auth refresh in src/auth/token_refresh.ts")).to.deep.equal([
+				"fix",
+				"auth",
+				"refresh",
+				"src",
+				"auth",
+				"token_refresh",
+				"ts",
+			])
+		})
+
+		it("should stem common inflections consistently", () => {
+			expect(["fixed", "fixes", "fixing", "fix"].map(stem)).to.deep.equal(["fix", "fix", "fix", "fix"])
+			expect(stem("class")).to.equal("class")
+			expect(stem("is")).to.equal("is")
+		})
+	})
+
+	describe("extractTaskSegments", () => {
+		it("should collect user and assistant text, touched files and commands", () => {
+			const messages: ClineMessage[] = [
+				{ ts: 1, type: "say", say: "task", text: "Fix login" },
+				{ ts: 2, type: "say", say: "text", text: "Looking at the session code" },
+				{ ts: 3, type: "ask", ask: "tool", text: JSON.stringify({ tool: "readFile", path: "src/session.ts" }) },
+				{ ts: 4, type: "ask", ask: "command", text: "npm test" },
+				{ ts: 5, type: "ask", ask: "followup", text: JSON.stringify({ question: "Which provider?" }) },
+				{ ts: 6, type: "say", say: "user_feedback", text: "Google" },
+				{ ts: 7, type: "say", say: "text", text: "partial", partial: true },
+			]
+
+			const segments = extractTaskSegments(messages, {
+				files_in_context: [
+					{
+						path: "src/session.ts",
+						record_state: "active",
+						record_source: "read_tool",
+						cline_read_date: 1,
+						cline_edit_date: null,
+					},
+					{
+						path: "src/auth.ts",
+						record_state: "active",
+						record_source: "cline_edited",
+						cline_read_date: null,
+						cline_edit_date: 1,
+					},
+				],
+				model_usage: [],
+			})
+
+			expect(segments).to.deep.equal([
+				{ source: "user", text: "Fix login" },
+				{ source: "assistant", text: "Looking at the session code" },
+				{ source: "assistant", text: "Which provider?" },
+				{ source: "user", text: "Google" },
+				{ source: "command", text: "npm test" },
+				{ source: "file", text: "src/session.ts" },
+				{ source: "file", text: "src/auth.ts" },
+			])
+		})
+	})
+
+	describe("TaskSearchIndex", () => {
+		let tempDir: string
+		let tasksDir: string
+		let indexFile: string
+
+		const writeTask = async (id: string, messages: ClineMessage[]) => {
+			await fs.mkdir(path.join(tasksDir, id), { recursive: true })
+			await fs.writeFile(path.join(tasksDir, id, "ui_messages.json"), JSON.stringify(messages))
+		}
+
+		const historyItem = (id: string, task: string, ts: number): HistoryItem => ({
+			id,
+			ts,
+			task,
+			tokensIn: 0,
+			tokensOut: 0,
+			totalCost: 0,
+		})
+
+		beforeEach(async () => {
+			tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "task-search-"))
+			tasksDir = path.join(tempDir, "tasks")
+			indexFile = path.join(tempDir, "cache", "task_search_index.json")
+
+			await writeTask("1", [
+				{ ts: 1, type: "say", say: "task", text: "Login page crashes" },
+				{ ts: 2, type: "say", say: "text", text: "The auth token refresh fails when the session has expired." },
+				{
+					ts: 3,
+					type: "say",
+					say: "tool",
+					text: JSON.stringify({ tool: "editedExistingFile", path: "src/auth/refresh.ts" }),
+				},
+			])
+			await writeTask("2", [
+				{ ts: 1, type: "say", say: "task", text: "Add dark mode" },
+				{ ts: 2, type: "say", say: "text", text: "Updated the theme tokens." },
+				{ ts: 3, type: "ask", ask: "command", text: "npm run build" },
+			])
+			await writeTask("3", [
+				{ ts: 1, type: "say", say: "task", text: "Refresh the README" },
+				{ ts: 2, type: "say", say: "text", text: "Rewrote the intro." },
+			])
+		})
+
+		afterEach(async () => {
+			await fs.rm(tempDir, { recursive: true, force: true })
+		})
+
+		const history = () => [
+			historyItem("1", "Login page crashes", 1000),
+			historyItem("2", "Add dark mode", 2000),
+			historyItem("3", "Refresh the README", 3000),
+		]
+
+		it("should rank tasks matching every query term first", async () => {
+			const index = new TaskSearchIndex(indexFile, tasksDir)
+			await index.sync(history())
+
+			const results = index.search("fixed the auth refresh bug")
+
+			expect(results.map((result) => result.taskId)).to.deep.equal(["1", "3"])
+			expect(results[0].score).to.be.greaterThan(results[1].score)
+		})
+
+		it("should find tasks by touched file paths and commands", async () => {
+			const index = new TaskSearchIndex(indexFile, tasksDir)
+			await index.sync(history())
+
+			expect(index.search("refresh.ts")[0].taskId).to.equal("1")
+			expect(index.search("npm run build").map((result) => result.taskId)).to.deep.equal(["2"])
+		})
+
+		it("should return snippets with highlight offsets", async () => {
+			const index = new TaskSearchIndex(indexFile, tasksDir)
+			await index.sync(history())
+
+			const [result] = index.search("session expired")
+			const snippet = result.snippets[0]
+
+			expect(snippet.source).to.equal("assistant")
+			expect(snippet.highlights.map(([start, end]) => snippet.text.slice(start, end))).to.deep.equal(["session", "expired"])
+		})
+
+		it("should persist the index and pick up changed and deleted tasks", async () => {
+			await new TaskSearchIndex(indexFile, tasksDir).sync(history())
+			const persisted = JSON.parse(await fs.readFile(indexFile, "utf8"))
+			expect(persisted.documents).to.have.length(3)
+
+			await writeTask("2", [
+				{ ts: 1, type: "say", say: "task", text: "Add dark mode" },
+				{ ts: 2, type: "say", say: "text", text: "Also added a high contrast palette to the settings." },
+			])
+			const index = new TaskSearchIndex(indexFile, tasksDir)
+			await index.sync(history().filter((item) => item.id !== "3"))
+
+			expect(index.search("contrast palette").map((result) => result.taskId)).to.deep.equal(["2"])
+			expect(index.search("README")).to.deep.equal([])
+		})
+
+		it("should return nothing for queries made only of stop words", async () => {
+			const index = new TaskSearchIndex(indexFile, tasksDir)
+			await index.sync(history())
+
+			expect(index.search("the of and")).to.deep.equal([])
+		})
+	})
+})
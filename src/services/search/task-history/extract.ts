@@ -0,0 +1,87 @@
+import type { TaskMetadata } from "@core/context/context-tracking/context_tracker_types"
+import type { ClineAskQuestion, ClineMessage, ClinePlanModeResponse, ClineSayTool } from "@shared/ExtensionMessage"
+import type { TaskSearchSegment, TaskSearchSource } from "./types"
+
+// Long outputs are rarely what people search for; cap what gets stored per segment and per task
+const MAX_SEGMENT_LENGTH = 4000
+const MAX_TASK_TEXT_LENGTH = 200_000
+
+/**
+ * Pull the searchable parts out of a stored task: what the user asked, what the assistant said,
+ * the files it touched and the commands it ran
+ */
+export function extractTaskSegments(messages: ClineMessage[], metadata?: TaskMetadata): TaskSearchSegment[] {
+	const segments: TaskSearchSegment[] = []
+	const files = new Set<string>()
+	const commands = new Set<string>()
+	let totalLength = 0
+
+	const add = (source: TaskSearchSource, text: string | undefined) => {
+		const trimmed = text?.trim()
+		if (!trimmed || totalLength >= MAX_TASK_TEXT_LENGTH) {
+			return
+		}
+		const capped = trimmed.slice(0, MAX_SEGMENT_LENGTH)
+		totalLength += capped.length
+		segments.push({ source, text: capped })
+	}
+
+	for (const message of messages) {
+		if (message.partial) {
+			continue
+		}
+		const kind = message.type === "ask" ? message.ask : message.say
+		switch (kind) {
+			case "task":
+			case "user_feedback":
+				add("user", message.text)
+				break
+			case "text":
+			case "completion_result":
+				add("assistant", message.text)
+				break
+			case "followup":
+				add("assistant", parseJson<ClineAskQuestion>(message.text)?.question ?? message.text)
+				break
+			case "plan_mode_respond":
+				add("assistant", parseJson<ClinePlanModeResponse>(message.text)?.response ?? message.text)
+				break
+			case "tool": {
+				const path = parseJson<ClineSayTool>(message.text)?.path
+				if (path) {
+					files.add(path)
+				}
+				break
+			}
+			case "command":
+				if (message.text) {
+					commands.add(message.text.trim())
+				}
+				break
+		}
+	}
+
+	for (const entry of metadata?.files_in_context ?? []) {
+		files.add(entry.path)
+	}
+	// Commands and paths are short and the most precise thing to search by, so they are never dropped
+	for (const command of commands) {
+		segments.push({ source: "command", text: command.slice(0, MAX_SEGMENT_LENGTH) })
+	}
+	for (const file of files) {
+		segments.push({ source: "file", text: file })
+	}
+
+	return segments
+}
+
+function parseJson<T>(text: string | undefined): T | undefined {
+	if (!text) {
+		return undefined
+	}
+	try {
+		return JSON.parse(text) as T
+	} catch {
+		return undefined
+	}
+}
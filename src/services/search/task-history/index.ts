@@ -0,0 +1,2 @@
+export { TaskSearchIndex } from "./task-search-index"
+export type { TaskSearchOptions, TaskSearchResult, TaskSearchSnippet, TaskSearchSource } from "./types"
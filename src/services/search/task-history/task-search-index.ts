@@ -0,0 +1,273 @@
+import type { TaskMetadata } from "@core/context/context-tracking/context_tracker_types"
+import { GlobalFileNames } from "@core/storage/disk"
+import type { ClineMessage } from "@shared/ExtensionMessage"
+import type { HistoryItem } from "@shared/HistoryItem"
+import { fileExistsAtPath } from "@utils/fs"
+import fs from "fs/promises"
+import * as path from "path"
+import { Logger } from "@/services/logging/Logger"
+import { extractTaskSegments } from "./extract"
+import { type Token, tokenize, tokenizeWithOffsets } from "./tokenize"
+import type { IndexedTaskDocument, TaskSearchOptions, TaskSearchResult, TaskSearchSnippet, TaskSearchSource } from "./types"
+
+const INDEX_VERSION = 1
+
+// What the user asked and the paths touched say more about a task than the assistant's prose
+const SOURCE_WEIGHTS: Record<TaskSearchSource, number> = {
+	task: 3,
+	user: 2,
+	file: 1.5,
+	command: 1.5,
+	assistant: 1,
+}
+
+// Standard BM25 parameters
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+const SNIPPET_CONTEXT_BEFORE = 60
+const SNIPPET_LENGTH = 200
+
+interface PersistedIndex {
+	version: number
+	documents: IndexedTaskDocument[]
+}
+
+/**
+ * Full-text index over stored task conversations
+ *
+ * Documents are persisted to disk and kept in step with task history by sync(), which only
+ * re-reads tasks whose ui_messages.json changed. Postings are rebuilt in memory from the
+ * documents, and results are ranked with BM25 weighted by where in the task a term appeared.
+ */
+export class TaskSearchIndex {
+	private documents = new Map<string, IndexedTaskDocument>()
+	private postings = new Map<string, Map<string, number>>()
+	private documentLengths = new Map<string, number>()
+	private averageDocumentLength = 0
+	private loaded = false
+	private pendingSync: Promise<void> = Promise.resolve()
+
+	constructor(
+		private readonly indexFilePath: string,
+		private readonly tasksDirPath: string,
+	) {}
+
+	/**
+	 * Bring the index up to date with the given task history
+	 */
+	async sync(historyItems: HistoryItem[]): Promise<void> {
+		// Serialize syncs so overlapping searches don't index the same task twice
+		const run = this.pendingSync.then(() => this.syncNow(historyItems))
+		this.pendingSync = run.catch(() => {})
+		return run
+	}
+
+	/**
+	 * Rank indexed tasks against a free-text query
+	 */
+	search(query: string, options: TaskSearchOptions = {}): TaskSearchResult[] {
+		const terms = [...new Set(tokenize(query))]
+		if (terms.length === 0) {
+			return []
+		}
+
+		const scores = new Map<string, { score: number; matchedTerms: number }>()
+		for (const term of terms) {
+			const termPostings = this.postings.get(term)
+			if (!termPostings) {
+				continue
+			}
+			const idf = Math.log(1 + (this.documents.size - termPostings.size + 0.5) / (termPostings.size + 0.5))
+			for (const [id, frequency] of termPostings) {
+				const lengthRatio = (this.documentLengths.get(id) ?? 0) / (this.averageDocumentLength || 1)
+				const termScore = (idf * frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio))
+				const entry = scores.get(id) ?? { score: 0, matchedTerms: 0 }
+				entry.score += termScore
+				entry.matchedTerms++
+				scores.set(id, entry)
+			}
+		}
+
+		const phrase = query.trim().toLowerCase().replace(/\s+/g, " ")
+		const termSet = new Set(terms)
+		const results: TaskSearchResult[] = []
+		for (const [id, { score, matchedTerms }] of scores) {
+			const document = this.documents.get(id)
+			if (!document) {
+				continue
+			}
+			// Tasks matching every term outrank those matching a few of them many times
+			const coverage = matchedTerms / terms.length
+			const containsPhrase =
+				terms.length > 1 && document.segments.some((segment) => segment.text.toLowerCase().includes(phrase))
+			results.push({
+				taskId: id,
+				task: document.task,
+				ts: document.ts,
+				score: score * coverage * coverage * (containsPhrase ? 1.5 : 1),
+				snippets: buildSnippets(document, termSet, options.maxSnippets ?? 3),
+			})
+		}
+
+		return results.sort((a, b) => b.score - a.score || b.ts - a.ts).slice(0, options.limit ?? 20)
+	}
+
+	private async syncNow(historyItems: HistoryItem[]): Promise<void> {
+		await this.load()
+
+		let changed = false
+		const ids = new Set(historyItems.map((item) => item.id))
+		for (const id of this.documents.keys()) {
+			if (!ids.has(id)) {
+				this.documents.delete(id)
+				changed = true
+			}
+		}
+
+		for (const item of historyItems) {
+			const fingerprint = await this.getFingerprint(item.id)
+			const existing = this.documents.get(item.id)
+			if (existing?.fingerprint === fingerprint && existing.task === item.task) {
+				continue
+			}
+			this.documents.set(item.id, await this.indexTask(item, fingerprint))
+			changed = true
+		}
+
+		if (changed) {
+			this.rebuildPostings()
+			await this.save()
+		}
+	}
+
+	private async indexTask(item: HistoryItem, fingerprint: string): Promise<IndexedTaskDocument> {
+		const taskDir = path.join(this.tasksDirPath, item.id)
+		const messages = (await readJsonFile<ClineMessage[]>(path.join(taskDir, GlobalFileNames.uiMessages))) ?? []
+		const metadata = await readJsonFile<TaskMetadata>(path.join(taskDir, GlobalFileNames.taskMetadata))
+		const task = item.task.trim()
+
+		return {
+			id: item.id,
+			ts: item.ts,
+			task: item.task,
+			fingerprint,
+			segments: [
+				{ source: "task", text: task },
+				// The first user message repeats the task text, which is already indexed above
+				...extractTaskSegments(messages, metadata).filter(
+					(segment) => !(segment.source === "user" && segment.text === task),
+				),
+			],
+		}
+	}
+
+	private async getFingerprint(taskId: string): Promise<string> {
+		try {
+			const stats = await fs.stat(path.join(this.tasksDirPath, taskId, GlobalFileNames.uiMessages))
+			return `${stats.mtimeMs}:${stats.size}`
+		} catch {
+			return "missing"
+		}
+	}
+
+	private rebuildPostings(): void {
+		this.postings.clear()
+		this.documentLengths.clear()
+		let totalLength = 0
+
+		for (const document of this.documents.values()) {
+			const frequencies = new Map<string, number>()
+			let length = 0
+			for (const segment of document.segments) {
+				const weight = SOURCE_WEIGHTS[segment.source]
+				for (const term of tokenize(segment.text)) {
+					frequencies.set(term, (frequencies.get(term) ?? 0) + weight)
+					length += weight
+				}
+			}
+			for (const [term, frequency] of frequencies) {
+				let termPostings = this.postings.get(term)
+				if (!termPostings) {
+					termPostings = new Map()
+					this.postings.set(term, termPostings)
+				}
+				termPostings.set(document.id, frequency)
+			}
+			this.documentLengths.set(document.id, length)
+			totalLength += length
+		}
+
+		this.averageDocumentLength = this.documents.size > 0 ? totalLength / this.documents.size : 0
+	}
+
+	private async load(): Promise<void> {
+		if (this.loaded) {
+			return
+		}
+		this.loaded = true
+
+		const persisted = await readJsonFile<PersistedIndex>(this.indexFilePath)
+		if (persisted?.version === INDEX_VERSION && Array.isArray(persisted.documents)) {
+			for (const document of persisted.documents) {
+				this.documents.set(document.id, document)
+			}
+			this.rebuildPostings()
+		}
+	}
+
+	private async save(): Promise<void> {
+		try {
+			const persisted: PersistedIndex = { version: INDEX_VERSION, documents: [...this.documents.values()] }
+			await fs.mkdir(path.dirname(this.indexFilePath), { recursive: true })
+			await fs.writeFile(this.indexFilePath, JSON.stringify(persisted))
+		} catch (error) {
+			// The index can always be rebuilt from task storage, so a failed write isn't fatal
+			Logger.error("Failed to save task search index", error instanceof Error ? error : new Error(String(error)))
+		}
+	}
+}
+
+/**
+ * Pick the segments matching the most query terms and cut an excerpt around the first match
+ */
+function buildSnippets(document: IndexedTaskDocument, terms: Set<string>, maxSnippets: number): TaskSearchSnippet[] {
+	const candidates: { source: TaskSearchSource; text: string; matches: Token[]; distinctTerms: number }[] = []
+	for (const segment of document.segments) {
+		const matches = tokenizeWithOffsets(segment.text).filter((token) => terms.has(token.term))
+		if (matches.length > 0) {
+			const distinctTerms = new Set(matches.map((match) => match.term)).size
+			candidates.push({ ...segment, matches, distinctTerms })
+		}
+	}
+
+	return candidates
+		.sort((a, b) => b.distinctTerms - a.distinctTerms || SOURCE_WEIGHTS[b.source] - SOURCE_WEIGHTS[a.source])
+		.slice(0, maxSnippets)
+		.map(({ source, text, matches }) => {
+			const start = Math.max(0, matches[0].start - SNIPPET_CONTEXT_BEFORE)
+			const end = Math.min(text.length, start + SNIPPET_LENGTH)
+			const prefix = start > 0 ? "…" : ""
+			const suffix = end < text.length ? "…" : ""
+			return {
+				source,
+				// Whitespace is replaced one-for-one so highlight offsets stay valid
+				text: `${prefix}${text.slice(start, end).replace(/\s/g, " ")}${suffix}`,
+				highlights: matches
+					.filter((match) => match.start >= start && match.end <= end)
+					.map((match): [number, number] => [match.start - start + prefix.length, match.end - start + prefix.length]),
+			}
+		})
+}
+
+async function readJsonFile<T>(filePath: string): Promise<T | undefined> {
+	if (!(await fileExistsAtPath(filePath))) {
+		return undefined
+	}
+	try {
+		return JSON.parse(await fs.readFile(filePath, "utf8")) as T
+	} catch (error) {
+		Logger.warn(`Ignoring unreadable file ${filePath}: ${error instanceof Error ? error.message : String(error)}`)
+		return undefined
+	}
+}
@@ -0,0 +1,71 @@
+export interface Token {
+	term: string
+	start: number
+	end: number
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu
+
+// Very common English words that only add noise to rankings
+const STOP_WORDS = new Set([
+	"a",
+	"an",
+	"and",
+	"are",
+	"as",
+	"at",
+	"be",
+	"by",
+	"for",
+	"from",
+	"in",
+	"is",
+	"it",
+	"of",
+	"on",
+	"or",
+	"that",
+	"the",
+	"this",
+	"to",
+	"was",
+	"we",
+	"where",
+	"with",
+])
+
+/**
+ * Split text into normalized search terms along with their character offsets
+ *
+ * Terms are lowercased and lightly stemmed so "fixed", "fixes" and "fixing" all match "fix".
+ * Paths and identifiers split on punctuation, so "src/auth/refresh.ts" yields "src", "auth",
+ * "refresh" and "ts".
+ */
+export function tokenizeWithOffsets(text: string): Token[] {
+	const tokens: Token[] = []
+	for (const match of text.matchAll(WORD_PATTERN)) {
+		const word = match[0].toLowerCase()
+		if (word.length < 2 || STOP_WORDS.has(word)) {
+			continue
+		}
+		const start = match.index ?? 0
+		tokens.push({ term: stem(word), start, end: start + match[0].length })
+	}
+	return tokens
+}
+
+export function tokenize(text: string): string[] {
+	return tokenizeWithOffsets(text).map((token) => token.term)
+}
+
+/**
+ * Strip the most common English inflections, keeping at least three characters of stem
+ */
+export function stem(word: string): string {
+	for (const suffix of ["ing", "ed", "es", "s"]) {
+		if (word.length - suffix.length >= 3 && word.endsWith(suffix) && !word.endsWith("ss")) {
+			return word.slice(0, -suffix.length)
+		}
+	}
+	return word
+}
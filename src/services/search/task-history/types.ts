@@ -0,0 +1,49 @@
+/**
+ * Where a piece of indexed task text came from
+ */
+export type TaskSearchSource = "task" | "user" | "assistant" | "file" | "command"
+
+/**
+ * A piece of searchable text extracted from a stored task
+ */
+export interface TaskSearchSegment {
+	source: TaskSearchSource
+	text: string
+}
+
+/**
+ * A task as stored in the search index
+ */
+export interface IndexedTaskDocument {
+	id: string
+	ts: number
+	task: string
+	/** Identifies the ui_messages.json contents that were indexed, so changed tasks get re-indexed */
+	fingerprint: string
+	segments: TaskSearchSegment[]
+}
+
+/**
+ * An excerpt of a matching segment with the matched words marked
+ */
+export interface TaskSearchSnippet {
+	source: TaskSearchSource
+	text: string
+	/** [start, end) character offsets into text */
+	highlights: [number, number][]
+}
+
+export interface TaskSearchResult {
+	taskId: string
+	task: string
+	ts: number
+	score: number
+	snippets: TaskSearchSnippet[]
+}
+
+export interface TaskSearchOptions {
+	/** Maximum number of tasks to return (default 20) */
+	limit?: number
+	/** Maximum number of snippets per task (default 3) */
+	maxSnippets?: number
+}
@@ -1,5 +1,6 @@
 import { ClineIgnoreController } from "@core/ignore/ClineIgnoreController"
 import { listFiles } from "@services/glob/list-files"
+import { Logger } from "@services/logging/Logger"
 import { fileExistsAtPath } from "@utils/fs"
 import * as fs from "fs/promises"
 import * as path from "path"
@@ -58,40 +59,145 @@ export async function parseSourceCodeForDefinitionsTopLevel(
 	return result ? result : "No source code definitions found."
 }
 
+/**
+ * Parse a single source file for top-level definitions.
+ * Returns null when the file has no definitions or its language is unsupported.
+ */
+export async function parseSourceCodeForDefinitionsInFile(
+	filePath: string,
+	clineIgnoreController?: ClineIgnoreController,
+): Promise<string | null> {
+	const absolutePath = path.resolve(filePath)
+	if (!(await fileExistsAtPath(absolutePath))) {
+		return null
+	}
+	const { filesToParse } = separateFiles([absolutePath])
+	if (filesToParse.length === 0) {
+		return null
+	}
+	const languageParsers = await loadRequiredLanguageParsers(filesToParse)
+	return parseFile(absolutePath, languageParsers, clineIgnoreController)
+}
+
+const SUPPORTED_EXTENSIONS = [
+	"js",
+	"jsx",
+	"ts",
+	"tsx",
+	"py",
+	// Rust
+	"rs",
+	"go",
+	// C
+	"c",
+	"h",
+	// C++
+	"cpp",
+	"hpp",
+	// C#
+	"cs",
+	// Ruby
+	"rb",
+	"java",
+	"php",
+	"swift",
+	// Kotlin
+	"kt",
+].map((e) => `.${e}`)
+
+function isSupportedFile(file: string): boolean {
+	return SUPPORTED_EXTENSIONS.includes(path.extname(file))
+}
+
 function separateFiles(allFiles: string[]): {
 	filesToParse: string[]
 	remainingFiles: string[]
 } {
-	const extensions = [
-		"js",
-		"jsx",
-		"ts",
-		"tsx",
-		"py",
-		// Rust
-		"rs",
-		"go",
-		// C
-		"c",
-		"h",
-		// C++
-		"cpp",
-		"hpp",
-		// C#
-		"cs",
-		// Ruby
-		"rb",
-		"java",
-		"php",
-		"swift",
-		// Kotlin
-		"kt",
-	].map((e) => `.${e}`)
-	const filesToParse = allFiles.filter((file) => extensions.includes(path.extname(file))).slice(0, 50) // 50 files max
+	const filesToParse = allFiles.filter(isSupportedFile).slice(0, 50) // 50 files max
 	const remainingFiles = allFiles.filter((file) => !filesToParse.includes(file))
 	return { filesToParse, remainingFiles }
 }
 
+export interface SymbolDefinition {
+	// Path relative to the searched directory, using forward slashes
+	filePath: string
+	// 1-based, inclusive
+	startLine: number
+	endLine: number
+	kind: string
+	content: string
+}
+
+/**
+ * Find the definitions of a function, class, method or other named symbol in a directory tree.
+ * Uses the same definition queries as parseSourceCodeForDefinitionsTopLevel, but returns the
+ * full source of each matching definition rather than its first line.
+ */
+export async function findSymbolDefinitions(
+	dirPath: string,
+	symbolName: string,
+	options: { maxFiles?: number; maxResults?: number } = {},
+	clineIgnoreController?: ClineIgnoreController,
+): Promise<SymbolDefinition[]> {
+	const { maxFiles = 2000, maxResults = 5 } = options
+	const [allFiles] = await listFiles(dirPath, true, maxFiles)
+	const supportedFiles = allFiles.filter(isSupportedFile)
+	const filesToSearch = clineIgnoreController ? clineIgnoreController.filterPaths(supportedFiles) : supportedFiles
+
+	// Only parse files that mention the symbol at all, and load just the parsers they need
+	const candidates: { filePath: string; content: string }[] = []
+	for (const filePath of filesToSearch) {
+		const content = await fs.readFile(filePath, "utf8").catch(() => undefined)
+		if (content?.includes(symbolName)) {
+			candidates.push({ filePath, content })
+		}
+	}
+	if (candidates.length === 0) {
+		return []
+	}
+
+	const languageParsers = await loadRequiredLanguageParsers(candidates.map((candidate) => candidate.filePath))
+	const definitions: SymbolDefinition[] = []
+	for (const { filePath, content } of candidates) {
+		const { parser, query } = languageParsers[path.extname(filePath).toLowerCase().slice(1)] || {}
+		if (!parser || !query) {
+			continue
+		}
+
+		try {
+			const tree = parser.parse(content)
+			if (!tree?.rootNode) {
+				continue
+			}
+
+			const lines = content.split("\n")
+			for (const match of query.matches(tree.rootNode)) {
+				const nameCapture = match.captures.find((capture) => capture.name.startsWith("name"))
+				const definitionCapture = match.captures.find((capture) => capture.name.startsWith("definition"))
+				if (!nameCapture || !definitionCapture || nameCapture.node.text !== symbolName) {
+					continue
+				}
+
+				const { startPosition, endPosition } = definitionCapture.node
+				definitions.push({
+					filePath: path.relative(dirPath, filePath).toPosix(),
+					startLine: startPosition.row + 1,
+					endLine: endPosition.row + 1,
+					kind: definitionCapture.name.replace(/^definition\./, ""),
+					content: lines.slice(startPosition.row, endPosition.row + 1).join("\n"),
+				})
+				if (definitions.length >= maxResults) {
+					return definitions
+				}
+			}
+		} catch (error) {
+			Logger.warn(`[findSymbolDefinitions] Error parsing ${filePath}: ${error}`)
+		}
+	}
+
+	return definitions
+}
+
 /*
 Parsing files using tree-sitter
 
@@ -1,3 +1,17 @@
+// User-defined rules for auto-approving execute_command, evaluated per shell segment.
+// Patterns are globs (`npm run *`) or regular expressions written as `/pattern/flags`.
+export interface CommandPolicy {
+	allow: string[] // Segments that may be auto-approved even when the model asks for approval
+	deny: string[] // Segments that are never auto-approved, even in YOLO mode
+}
+
+// Runs auto-approved commands under Linux namespaces (bubblewrap) so they can only write to the workspace
+export interface CommandSandboxSettings {
+	enabled: boolean
+	allowNetwork: boolean // Network is cut off unless this is set
+	writablePaths: string[] // Mounted read-write besides the workspace, e.g. package manager caches
+}
+
 export interface AutoApprovalSettings {
 	// Version for race condition prevention (incremented on every change)
 	version: number
@@ -18,6 +32,35 @@ export interface AutoApprovalSettings {
 	maxRequests: number // Maximum number of auto-approved requests
 	enableNotifications: boolean // Show notifications for approval and task completion
 	favorites: string[] // IDs of actions favorited by the user for quick access
+	commandPolicy?: CommandPolicy // Allow/deny rules for commands (defaults apply when unset)
+	sandbox?: CommandSandboxSettings // Sandbox for auto-approved commands (off when unset)
+}
+
+export const DEFAULT_COMMAND_POLICY: CommandPolicy = {
+	allow: [],
+	deny: [
+		"/^rm\\s+(.*\\s)?(-[a-zA-Z]*[rRf][a-zA-Z]*|--recursive|--force)(\\s|$)/",
+		"sudo *",
+		"su",
+		"su *",
+		"git push --force*",
+		"git push -f*",
+		"git reset --hard*",
+		"git clean *",
+		"chmod -R *",
+		"chown -R *",
+		"dd *",
+		"mkfs*",
+		"shutdown*",
+		"reboot*",
+		"eval *",
+	],
+}
+
+export const DEFAULT_COMMAND_SANDBOX_SETTINGS: CommandSandboxSettings = {
+	enabled: false,
+	allowNetwork: false,
+	writablePaths: [],
 }
 
 export const DEFAULT_AUTO_APPROVAL_SETTINGS: AutoApprovalSettings = {
@@ -36,4 +79,6 @@ export const DEFAULT_AUTO_APPROVAL_SETTINGS: AutoApprovalSettings = {
 	maxRequests: 20,
 	enableNotifications: false,
 	favorites: ["enableAutoApprove", "readFiles", "editFiles"],
+	commandPolicy: DEFAULT_COMMAND_POLICY,
+	sandbox: DEFAULT_COMMAND_SANDBOX_SETTINGS,
 }
@@ -1,7 +1,7 @@
 // type that represents json data that is sent from extension to webview, called ExtensionMessage and has 'type' enum which can be 'plusButtonClicked' or 'settingsButtonClicked' or 'hello'
 
 import { WorkspaceRoot } from "../core/workspace"
-import { AutoApprovalSettings } from "./AutoApprovalSettings"
+import { AutoApprovalSettings, CommandPolicy } from "./AutoApprovalSettings"
 import { ApiConfiguration } from "./api"
 import { BrowserSettings } from "./BrowserSettings"
 import { ClineFeatureSetting } from "./ClineFeatureSetting"
@@ -11,6 +11,7 @@ import { FocusChainSettings } from "./FocusChainSettings"
 import { HistoryItem } from "./HistoryItem"
 import { McpDisplayMode } from "./McpDisplayMode"
 import { Mode, OpenaiReasoningEffort } from "./storage/types"
+import { TaskBudgetSettings } from "./TaskBudgetSettings"
 import { UserInfo } from "./UserInfo"
 // webview will hold state
 export interface ExtensionMessage {
@@ -63,11 +64,14 @@ export interface ExtensionState {
 	globalWorkflowToggles: ClineRulesToggles
 	localCursorRulesToggles: ClineRulesToggles
 	localWindsurfRulesToggles: ClineRulesToggles
+	localAgentsRulesToggles: ClineRulesToggles
+	workspaceCommandPolicy?: CommandPolicy
 	mcpResponsesCollapsed?: boolean
 	strictPlanModeEnabled?: boolean
 	yoloModeToggled?: boolean
 	useAutoCondense?: boolean
 	focusChainSettings: FocusChainSettings
+	taskBudgetSettings: TaskBudgetSettings
 	dictationSettings: DictationSettings
 	customPrompt?: string
 	autoCondenseThreshold?: number
@@ -112,12 +116,14 @@ export type ClineAsk =
 	| "resume_completed_task"
 	| "mistake_limit_reached"
 	| "auto_approval_max_req_reached"
+	| "budget_limit_reached"
 	| "browser_action_launch"
 	| "use_mcp_server"
 	| "new_task"
 	| "condense"
 	| "summarize_task"
 	| "report_bug"
+	| "subagents"
 
 export type ClineSay =
 	| "task"
@@ -148,6 +154,7 @@ export type ClineSay =
 	| "load_mcp_documentation"
 	| "info" // Added for general informational messages like retry status
 	| "task_progress"
+	| "subagents"
 
 export interface ClineSayTool {
 	tool:
@@ -168,6 +175,29 @@ export interface ClineSayTool {
 	operationIsLocatedInWorkspace?: boolean
 }
 
+export type ClineSubagentStatus = "queued" | "running" | "completed" | "failed" | "cancelled"
+
+export interface ClineSubagent {
+	index: number
+	title: string
+	status: ClineSubagentStatus
+	taskId?: string
+	// What the sub-agent is doing right now, e.g. "Editing src/index.ts"
+	activity?: string
+	result?: string
+	error?: string
+	filesChanged?: string[]
+	cost?: number
+	startedAt?: number
+	finishedAt?: number
+}
+
+// Text of "subagents" messages: the ask approving a fan-out, then the say rewritten in place as the sub-agents progress
+export interface ClineSaySubagents {
+	parentTaskId: string
+	subagents: ClineSubagent[]
+}
+
 // must keep in sync with system prompt
 export const browserActions = ["launch", "click", "type", "scroll_down", "scroll_up", "close"] as const
 export type BrowserAction = (typeof browserActions)[number]
@@ -0,0 +1,158 @@
+import type { ClineMessage } from "./ExtensionMessage"
+import { getApiMetrics } from "./getApiMetrics"
+
+/**
+ * Budget limits for a single task. Unset or zero values are unlimited.
+ */
+export interface TaskBudgetLimits {
+	// Total API cost in USD
+	maxCost?: number
+	maxTokensIn?: number
+	maxTokensOut?: number
+	// Wall-clock minutes since the task was started or last resumed
+	maxMinutes?: number
+}
+
+export interface TaskBudgetSettings {
+	enabled: boolean
+	// Crossing a soft limit pauses the task and asks whether to continue
+	soft: TaskBudgetLimits
+	// Crossing a hard limit stops the task
+	hard: TaskBudgetLimits
+}
+
+export const DEFAULT_TASK_BUDGET_SETTINGS: TaskBudgetSettings = {
+	enabled: false,
+	soft: {},
+	hard: {},
+}
+
+export type TaskBudgetMetric = "cost" | "tokensIn" | "tokensOut" | "time"
+
+export type TaskBudgetUsage = Record<TaskBudgetMetric, number>
+
+export interface TaskBudgetViolation {
+	metric: TaskBudgetMetric
+	tier: "soft" | "hard"
+	limit: number
+	used: number
+}
+
+export const TASK_BUDGET_METRICS: TaskBudgetMetric[] = ["cost", "tokensIn", "tokensOut", "time"]
+
+const LIMIT_KEYS: Record<TaskBudgetMetric, keyof TaskBudgetLimits> = {
+	cost: "maxCost",
+	tokensIn: "maxTokensIn",
+	tokensOut: "maxTokensOut",
+	time: "maxMinutes",
+}
+
+const METRIC_LABELS: Record<TaskBudgetMetric, string> = {
+	cost: "Cost",
+	tokensIn: "Input tokens",
+	tokensOut: "Output tokens",
+	time: "Time",
+}
+
+/**
+ * Get the configured limit for a metric, or undefined when it is unlimited
+ */
+export function getBudgetLimit(limits: TaskBudgetLimits, metric: TaskBudgetMetric): number | undefined {
+	const value = limits[LIMIT_KEYS[metric]]
+	return value && value > 0 ? value : undefined
+}
+
+/**
+ * Whether any soft or hard limit is configured
+ */
+export function hasBudgetLimits(settings: TaskBudgetSettings | undefined): boolean {
+	if (!settings?.enabled) {
+		return false
+	}
+	return TASK_BUDGET_METRICS.some(
+		(metric) => getBudgetLimit(settings.soft, metric) !== undefined || getBudgetLimit(settings.hard, metric) !== undefined,
+	)
+}
+
+/**
+ * Timestamp the time budget is measured from: the first API request after the task
+ * was started or last resumed, so time spent idle in history does not count
+ */
+export function getBudgetStartTime(messages: ClineMessage[]): number | undefined {
+	let startIndex = 0
+	for (let i = messages.length - 1; i >= 0; i--) {
+		if (messages[i].ask === "resume_task" || messages[i].ask === "resume_completed_task") {
+			startIndex = i + 1
+			break
+		}
+	}
+	return messages.slice(startIndex).find((message) => message.say === "api_req_started")?.ts
+}
+
+/**
+ * Compute budget usage from the task's messages
+ */
+export function getTaskBudgetUsage(messages: ClineMessage[], now: number = Date.now()): TaskBudgetUsage {
+	const metrics = getApiMetrics(messages)
+	const startTime = getBudgetStartTime(messages)
+	return {
+		cost: metrics.totalCost,
+		tokensIn: metrics.totalTokensIn,
+		tokensOut: metrics.totalTokensOut,
+		time: startTime === undefined ? 0 : Math.max(0, now - startTime) / 60_000,
+	}
+}
+
+/**
+ * Find the first crossed limit. Hard limits take precedence over soft limits, and soft
+ * limits the user already agreed to continue past are skipped.
+ */
+export function checkTaskBudget(
+	settings: TaskBudgetSettings,
+	usage: TaskBudgetUsage,
+	acknowledgedSoftLimits: TaskBudgetMetric[] = [],
+): TaskBudgetViolation | undefined {
+	if (!settings.enabled) {
+		return undefined
+	}
+
+	for (const tier of ["hard", "soft"] as const) {
+		for (const metric of TASK_BUDGET_METRICS) {
+			if (tier === "soft" && acknowledgedSoftLimits.includes(metric)) {
+				continue
+			}
+			const limit = getBudgetLimit(settings[tier], metric)
+			if (limit !== undefined && usage[metric] >= limit) {
+				return { metric, tier, limit, used: usage[metric] }
+			}
+		}
+	}
+
+	return undefined
+}
+
+/**
+ * Format a budget value for display, e.g. "$1.25", "120,000" or "15 min"
+ */
+export function formatBudgetValue(metric: TaskBudgetMetric, value: number): string {
+	switch (metric) {
+		case "cost":
+			return `$${value.toFixed(2)}`
+		case "time":
+			return `${Math.round(value)} min`
+		default:
+			return Math.round(value).toLocaleString("en-US")
+	}
+}
+
+/**
+ * Describe a crossed limit, e.g. "Cost soft limit reached: $1.02 of $1.00"
+ */
+export function formatBudgetViolation(violation: TaskBudgetViolation): string {
+	const { metric, tier, limit, used } = violation
+	return `${METRIC_LABELS[metric]} ${tier} limit reached: ${formatBudgetValue(metric, used)} of ${formatBudgetValue(metric, limit)}`
+}
+
+export function getBudgetMetricLabel(metric: TaskBudgetMetric): string {
+	return METRIC_LABELS[metric]
+}
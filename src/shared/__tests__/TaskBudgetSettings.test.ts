@@ -0,0 +1,86 @@
+import { describe, it } from "mocha"
+import "should"
+import type { ClineMessage } from "../ExtensionMessage"
+import {
+	checkTaskBudget,
+	formatBudgetViolation,
+	getBudgetStartTime,
+	getTaskBudgetUsage,
+	hasBudgetLimits,
+	type TaskBudgetSettings,
+} from "../TaskBudgetSettings"
+
+const apiRequest = (ts: number, tokensIn: number, tokensOut: number, cost: number): ClineMessage => ({
+	ts,
+	type: "say",
+	say: "api_req_started",
+	text: JSON.stringify({ tokensIn, tokensOut, cost }),
+})
+
+describe("Task Budget", () => {
+	const settings: TaskBudgetSettings = {
+		enabled: true,
+		soft: { maxCost: 1, maxTokensIn: 1000 },
+		hard: { maxCost: 2, maxMinutes: 30 },
+	}
+
+	describe("getTaskBudgetUsage", () => {
+		it("should sum cost and tokens across requests", () => {
+			const usage = getTaskBudgetUsage([apiRequest(1, 100, 10, 0.5), apiRequest(2, 200, 20, 0.25)], 2)
+			usage.cost.should.equal(0.75)
+			usage.tokensIn.should.equal(300)
+			usage.tokensOut.should.equal(30)
+		})
+
+		it("should measure time from the first request after the last resume", () => {
+			const messages: ClineMessage[] = [
+				{ ts: 0, type: "say", say: "task", text: "Do it" },
+				apiRequest(1_000, 1, 1, 0),
+				{ ts: 5_000_000, type: "ask", ask: "resume_task" },
+				apiRequest(6_000_000, 1, 1, 0),
+			]
+			getBudgetStartTime(messages)!.should.equal(6_000_000)
+			getTaskBudgetUsage(messages, 6_000_000 + 10 * 60_000).time.should.equal(10)
+		})
+
+		it("should report no elapsed time before the first request", () => {
+			getTaskBudgetUsage([{ ts: 0, type: "say", say: "task", text: "Do it" }], 60_000).time.should.equal(0)
+		})
+	})
+
+	describe("checkTaskBudget", () => {
+		const usage = { cost: 0, tokensIn: 0, tokensOut: 0, time: 0 }
+
+		it("should pass when nothing is exceeded or the budget is disabled", () => {
+			;(checkTaskBudget(settings, usage) === undefined).should.be.true()
+			;(checkTaskBudget({ ...settings, enabled: false }, { ...usage, cost: 5 }) === undefined).should.be.true()
+		})
+
+		it("should report soft limits until they are acknowledged", () => {
+			const crossed = { ...usage, cost: 1.5 }
+			checkTaskBudget(settings, crossed)!.should.deepEqual({ metric: "cost", tier: "soft", limit: 1, used: 1.5 })
+			;(checkTaskBudget(settings, crossed, ["cost"]) === undefined).should.be.true()
+		})
+
+		it("should report hard limits before soft limits, even when acknowledged", () => {
+			const violation = checkTaskBudget(settings, { ...usage, tokensIn: 5000, time: 31 }, ["time"])!
+			violation.tier.should.equal("hard")
+			violation.metric.should.equal("time")
+		})
+
+		it("should treat zero as unlimited", () => {
+			const unlimited: TaskBudgetSettings = { enabled: true, soft: { maxCost: 0 }, hard: {} }
+			hasBudgetLimits(unlimited).should.be.false()
+			;(checkTaskBudget(unlimited, { ...usage, cost: 10 }) === undefined).should.be.true()
+		})
+	})
+
+	it("should describe violations", () => {
+		formatBudgetViolation({ metric: "cost", tier: "hard", limit: 2, used: 2.034 }).should.equal(
+			"Cost hard limit reached: $2.03 of $2.00",
+		)
+		formatBudgetViolation({ metric: "tokensIn", tier: "soft", limit: 100000, used: 120500 }).should.equal(
+			"Input tokens soft limit reached: 120,500 of 100,000",
+		)
+	})
+})
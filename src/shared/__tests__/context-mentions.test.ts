@@ -1,6 +1,6 @@
 import { expect } from "chai"
 
-import { mentionRegex, mentionRegexGlobal } from "../context-mentions"
+import { buildMentionRegex, mentionRegex, mentionRegexGlobal } from "../context-mentions"
 
 interface TestResult {
 	actual: string | null
@@ -418,4 +418,31 @@ describe("Mention Regex", () => {
 			})
 		})
 	})
+
+	describe("Prefixed Mentions", () => {
+		it("matches built-in prefixed mention kinds", () => {
+			const cases: Array<[string, string]> = [
+				["@symbol:parseMentions", "@symbol:parseMentions"],
+				["see @symbol:Task.run, please", "@symbol:Task.run"],
+				["@folder-tree:/src/core", "@folder-tree:/src/core"],
+				['@folder-tree:"/my docs/"', '@folder-tree:"/my docs/"'],
+				["@url-readable:https://example.com/docs", "@url-readable:https://example.com/docs"],
+			]
+
+			cases.forEach(([input, expected]) => {
+				const match = mentionRegex.exec(input)
+				expect(match?.[0]).to.equal(expected)
+			})
+		})
+
+		it("does not match unknown prefixes", () => {
+			expect(mentionRegex.exec("@unknown:value")).to.equal(null)
+		})
+
+		it("matches custom kinds passed to buildMentionRegex", () => {
+			const regex = buildMentionRegex(["issue"], "g")
+			const matches = "fix @issue:42 and @symbol:foo".match(regex)
+			expect(matches).to.deep.equal(["@issue:42"])
+		})
+	})
 })
@@ -1,8 +1,10 @@
-export type ApiProvider = "anthropic" | "openrouter" | "lmstudio"
+export type ApiProvider = "anthropic" | "openrouter" | "lmstudio" | "openai-compatible" | "ollama"
 
 export interface ApiHandlerSecrets {
 	apiKey?: string // anthropic
 	openRouterApiKey?: string
+	openAiApiKey?: string // openai-compatible (optional for most self-hosted servers)
+	ollamaApiKey?: string // ollama (only needed behind an authenticating proxy)
 }
 
 export interface ApiHandlerOptions {
@@ -12,6 +14,10 @@ export interface ApiHandlerOptions {
 	openRouterProviderSorting?: string
 	lmStudioBaseUrl?: string
 	lmStudioMaxTokens?: string
+	openAiBaseUrl?: string
+	openAiHeaders?: Record<string, string>
+	ollamaBaseUrl?: string
+	ollamaApiOptionsCtxNum?: string
 	requestTimeoutMs?: number
 	onRetryAttempt?: (attempt: number, maxRetries: number, delay: number, error: any) => void
 
@@ -22,6 +28,9 @@ export interface ApiHandlerOptions {
 	planModeOpenRouterModelId?: string
 	planModeOpenRouterModelInfo?: ModelInfo
 	planModeLmStudioModelId?: string
+	planModeOpenAiModelId?: string
+	planModeOpenAiModelInfo?: OpenAiCompatibleModelInfo
+	planModeOllamaModelId?: string
 
 	// Act mode configurations
 	actModeApiModelId?: string
@@ -30,6 +39,9 @@ export interface ApiHandlerOptions {
 	actModeOpenRouterModelId?: string
 	actModeOpenRouterModelInfo?: ModelInfo
 	actModeLmStudioModelId?: string
+	actModeOpenAiModelId?: string
+	actModeOpenAiModelInfo?: OpenAiCompatibleModelInfo
+	actModeOllamaModelId?: string
 }
 
 export type ApiConfiguration = ApiHandlerOptions &
@@ -61,6 +73,7 @@ export interface ModelInfo {
 	cacheReadsPrice?: number
 	description?: string
 	supportsGlobalEndpoint?: boolean
+	supportsNativeTools?: boolean // Whether the model takes tool definitions and returns tool calls
 	tiers?: readonly {
 		contextWindow: number
 		inputPrice?: number
@@ -230,6 +243,7 @@ export const openRouterDefaultModelInfo: ModelInfo = {
 	outputPrice: 15.0,
 	cacheWritesPrice: 3.75,
 	cacheReadsPrice: 0.3,
+	supportsNativeTools: true,
 	description:
 		"Claude Sonnet 4.5 delivers superior intelligence across coding, agentic search, and AI agent capabilities. It's a powerful choice for agentic coding, and can complete tasks across the entire software development lifecycle—from initial planning to bug fixes, maintenance to large refactors. It offers strong performance in both planning and solving for complex coding tasks, making it an ideal choice to power end-to-end software development processes.\n\nRead more in the [blog post here](https://www.anthropic.com/claude/sonnet)",
 }
@@ -246,7 +260,7 @@ export const clineCodeSupernovaModelInfo: ModelInfo = {
 	description: "A versatile agentic coding stealth model that supports image inputs.",
 }
 
-// LMStudio (OpenAI-compatible local server)
+// LMStudio and generic OpenAI-compatible servers (vLLM, llama.cpp, etc.)
 export const openAiModelInfoSaneDefaults: OpenAiCompatibleModelInfo = {
 	maxTokens: -1,
 	contextWindow: 128_000,
@@ -258,6 +272,9 @@ export const openAiModelInfoSaneDefaults: OpenAiCompatibleModelInfo = {
 	temperature: 0,
 }
 
+// Ollama loads models with a 2-4k window unless num_ctx is set, which silently truncates our prompts
+export const ollamaDefaultContextWindow = 32_768
+
 // Gemini
 export type GeminiModelId = keyof typeof geminiModels
 export const geminiModels = {
@@ -43,22 +43,40 @@ Mention regex:
 	- The exact word 'problems'.
   - The exact word 'terminal'.
 	- The exact word 'git-changes'.
+	- Prefixed `kind:value` mentions for each kind in `PREFIXED_MENTION_KINDS` (e.g. 'symbol:parseMentions').
   - It ensures that any trailing punctuation marks (such as ',', '.', '!', etc.) are not included in the matched mention, allowing the punctuation to follow the mention naturally in the text.
 
 - **Global Regex**:
   - `mentionRegexGlobal`: Creates a global version of the `mentionRegex` to find all matches within a given string.
 
 */
-export const mentionRegex = new RegExp(
-	`@(` +
-		`/[^\\s]*?` + // Simple file paths (can't contain)
-		`|"\\/[^"]*?"` + // Quoted file paths which can contain spaces
-		`|(?:\\w+:\\/\\/)[^\\s]+?` + // URLs
-		`|[a-f0-9]{7,40}\\b` + // Git commit hashes
-		`|problems\\b` + // Exact word 'problems'
-		`|terminal\\b` + // Exact word 'terminal'
-		`|git-changes\\b` + // Exact word 'git-changes'
-		`)` +
-		`(?=[.,;:!?()]*(?=[\\s\\r\\n]|$))`, // Lookahead for trailing punctuation (multiple allowed)
-)
+/**
+ * Kinds of `@kind:value` mentions, e.g. `@symbol:parseMentions` or `@folder-tree:/src`.
+ * Each kind is resolved by a handler registered in src/core/mentions/mention_handlers.ts.
+ */
+export const PREFIXED_MENTION_KINDS = ["symbol", "folder-tree", "url-readable"]
+
+/**
+ * Build the mention regex for the given `@kind:value` mention kinds.
+ * The value may be quoted to contain spaces, e.g. `@folder-tree:"/my docs/"`.
+ */
+export function buildMentionRegex(prefixedKinds: readonly string[] = PREFIXED_MENTION_KINDS, flags?: string): RegExp {
+	const kinds = prefixedKinds.map((kind) => kind.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")
+	return new RegExp(
+		`@(` +
+			(kinds ? `(?:${kinds}):(?:"[^"]*?"|[^\\s]+?)|` : "") + // Prefixed mentions like symbol:Name
+			`/[^\\s]*?` + // Simple file paths (can't contain)
+			`|"\\/[^"]*?"` + // Quoted file paths which can contain spaces
+			`|(?:\\w+:\\/\\/)[^\\s]+?` + // URLs
+			`|[a-f0-9]{7,40}\\b` + // Git commit hashes
+			`|problems\\b` + // Exact word 'problems'
+			`|terminal\\b` + // Exact word 'terminal'
+			`|git-changes\\b` + // Exact word 'git-changes'
+			`)` +
+			`(?=[.,;:!?()]*(?=[\\s\\r\\n]|$))`, // Lookahead for trailing punctuation (multiple allowed)
+		flags,
+	)
+}
+
+export const mentionRegex = buildMentionRegex()
 export const mentionRegexGlobal = new RegExp(mentionRegex.source, "g")
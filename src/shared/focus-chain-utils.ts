@@ -3,13 +3,38 @@
  * Used by both extension and webview
  *  */
 
+/**
+ * Status of a focus chain item, written in its checkbox:
+ * - [ ] pending, - [-] or - [~] in progress, - [!] blocked, - [x] done
+ */
+export type FocusChainItemStatus = "pending" | "in_progress" | "blocked" | "done"
+
+const STATUS_MARKERS: Record<string, FocusChainItemStatus> = {
+	" ": "pending",
+	"-": "in_progress",
+	"~": "in_progress",
+	"!": "blocked",
+	x: "done",
+	X: "done",
+}
+
+/**
+ * Checkbox marker written for each status
+ */
+export const FOCUS_CHAIN_STATUS_MARKERS: Record<FocusChainItemStatus, string> = {
+	pending: " ",
+	in_progress: "-",
+	blocked: "!",
+	done: "x",
+}
+
 /**
  * Checks if a trimmed line matches focus chain item patterns
  * @param line The trimmed line to check
- * @returns true if the line is a focus chain item (- [ ], - [x], or - [X])
+ * @returns true if the line is a focus chain item (- [ ], - [x], - [X], - [-], - [~] or - [!])
  */
 export function isFocusChainItem(line: string): boolean {
-	return line.startsWith("- [ ]") || line.startsWith("- [x]") || line.startsWith("- [X]")
+	return line.startsWith("- [") && line.charAt(4) === "]" && Object.hasOwn(STATUS_MARKERS, line.charAt(3))
 }
 
 /**
@@ -23,21 +48,21 @@ export function isCompletedFocusChainItem(line: string): boolean {
 
 /**
  * Flexible regex pattern for matching focus chain items with spacing variations
- * Matches patterns like "- [x] text", "- [X] text", "- [ ] text", "-  [ ]  text", etc.
+ * Matches patterns like "- [x] text", "- [X] text", "- [ ] text", "- [!] text", "-  [ ]  text", etc.
  */
-export const FOCUS_CHAIN_ITEM_REGEX = /^-\s*\[([ xX])\]\s*(.+)$/
+export const FOCUS_CHAIN_ITEM_REGEX = /^-\s*\[([ xX~!-])\]\s*(.+)$/
 
 /**
  * Parse focus chain item using flexible regex (allows spacing variations)
  * @param line The trimmed line to parse
- * @returns Object with checked status and text, or null if not a focus chain item
+ * @returns Object with checked status, item status and text, or null if not a focus chain item
  */
-export function parseFocusChainItem(line: string): { checked: boolean; text: string } | null {
+export function parseFocusChainItem(line: string): { checked: boolean; status: FocusChainItemStatus; text: string } | null {
 	const match = line.match(FOCUS_CHAIN_ITEM_REGEX)
 	if (match) {
-		const checked = match[1] === "x" || match[1] === "X"
+		const status = STATUS_MARKERS[match[1]]
 		const text = match[2].trim()
-		return { checked, text }
+		return { checked: status === "done", status, text }
 	}
 	return null
 }
@@ -10,8 +10,37 @@ export type McpServer = {
 	tools?: McpTool[]
 	resources?: McpResource[]
 	resourceTemplates?: McpResourceTemplate[]
+	prompts?: McpPrompt[]
 	disabled?: boolean
 	timeout?: number
+	authStatus?: McpServerAuthStatus
+	health?: McpServerHealth
+}
+
+/**
+ * OAuth state of a remote server; unset for servers that don't use OAuth
+ */
+export type McpServerAuthStatus = "required" | "pending" | "authorized"
+
+/**
+ * Call statistics and reconnect state of a server. Times are epoch milliseconds.
+ */
+export type McpServerHealth = {
+	connectedAt?: number
+	lastSuccessAt?: number
+	lastErrorAt?: number
+	lastError?: string
+	successCount: number
+	errorCount: number
+	consecutiveErrors: number
+	lastLatencyMs?: number
+	averageLatencyMs?: number
+	/** Times the connection dropped without being asked to */
+	disconnectCount: number
+	reconnectAttempts: number
+	nextReconnectAt?: number
+	/** Set while the server is left disconnected for dropping too often */
+	quarantinedUntil?: number
 }
 
 export type McpTool = {
@@ -35,6 +64,46 @@ export type McpResourceTemplate = {
 	mimeType?: string
 }
 
+export type McpPrompt = {
+	name: string
+	title?: string
+	description?: string
+	arguments?: McpPromptArgument[]
+}
+
+export type McpPromptArgument = {
+	name: string
+	description?: string
+	required?: boolean
+}
+
+export type McpPromptResponse = {
+	_meta?: Record<string, any>
+	description?: string
+	messages: Array<{
+		role: "user" | "assistant"
+		content:
+			| {
+					type: "text"
+					text: string
+			  }
+			| {
+					type: "image" | "audio"
+					data: string
+					mimeType: string
+			  }
+			| {
+					type: "resource"
+					resource: {
+						uri: string
+						mimeType?: string
+						text?: string
+						blob?: string
+					}
+			  }
+	}>
+}
+
 export type McpResourceResponse = {
 	_meta?: Record<string, any>
 	contents: Array<{
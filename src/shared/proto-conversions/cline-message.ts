@@ -72,12 +72,14 @@ function convertClineAskToProtoEnum(ask: AppClineAsk | undefined): ClineAsk | un
 		resume_completed_task: ClineAsk.RESUME_COMPLETED_TASK,
 		mistake_limit_reached: ClineAsk.MISTAKE_LIMIT_REACHED,
 		auto_approval_max_req_reached: ClineAsk.AUTO_APPROVAL_MAX_REQ_REACHED,
+		budget_limit_reached: ClineAsk.BUDGET_LIMIT_REACHED,
 		browser_action_launch: ClineAsk.BROWSER_ACTION_LAUNCH,
 		use_mcp_server: ClineAsk.USE_MCP_SERVER,
 		new_task: ClineAsk.NEW_TASK,
 		condense: ClineAsk.CONDENSE,
 		summarize_task: ClineAsk.SUMMARIZE_TASK,
 		report_bug: ClineAsk.REPORT_BUG,
+		subagents: ClineAsk.SUBAGENTS,
 	}
 
 	const result = mapping[ask]
@@ -102,12 +104,14 @@ function convertProtoEnumToClineAsk(ask: ClineAsk): AppClineAsk | undefined {
 		[ClineAsk.RESUME_COMPLETED_TASK]: "resume_completed_task",
 		[ClineAsk.MISTAKE_LIMIT_REACHED]: "mistake_limit_reached",
 		[ClineAsk.AUTO_APPROVAL_MAX_REQ_REACHED]: "auto_approval_max_req_reached",
+		[ClineAsk.BUDGET_LIMIT_REACHED]: "budget_limit_reached",
 		[ClineAsk.BROWSER_ACTION_LAUNCH]: "browser_action_launch",
 		[ClineAsk.USE_MCP_SERVER]: "use_mcp_server",
 		[ClineAsk.NEW_TASK]: "new_task",
 		[ClineAsk.CONDENSE]: "condense",
 		[ClineAsk.SUMMARIZE_TASK]: "summarize_task",
 		[ClineAsk.REPORT_BUG]: "report_bug",
+		[ClineAsk.SUBAGENTS]: "subagents",
 	}
 
 	return mapping[ask]
@@ -148,6 +152,7 @@ function convertClineSayToProtoEnum(say: AppClineSay | undefined): ClineSay | un
 		load_mcp_documentation: ClineSay.LOAD_MCP_DOCUMENTATION,
 		info: ClineSay.INFO,
 		task_progress: ClineSay.TASK_PROGRESS,
+		subagents: ClineSay.SUBAGENTS_SAY,
 	}
 
 	const result = mapping[say]
@@ -189,6 +194,7 @@ function convertProtoEnumToClineSay(say: ClineSay): AppClineSay | undefined {
 		[ClineSay.LOAD_MCP_DOCUMENTATION]: "load_mcp_documentation",
 		[ClineSay.INFO]: "info",
 		[ClineSay.TASK_PROGRESS]: "task_progress",
+		[ClineSay.SUBAGENTS_SAY]: "subagents",
 	}
 
 	return mapping[say]
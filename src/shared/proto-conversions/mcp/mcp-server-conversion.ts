@@ -1,11 +1,20 @@
 import {
+	McpServerAuthStatus,
 	McpServerStatus,
+	McpPrompt as ProtoMcpPrompt,
 	McpResource as ProtoMcpResource,
 	McpResourceTemplate as ProtoMcpResourceTemplate,
 	McpServer as ProtoMcpServer,
 	McpTool as ProtoMcpTool,
 } from "@shared/proto/cline/mcp"
-import { McpResource, McpResourceTemplate, McpServer, McpTool } from "../../mcp"
+import {
+	McpPrompt,
+	McpResource,
+	McpResourceTemplate,
+	McpServer,
+	McpServerAuthStatus as McpServerAuthStatusValue,
+	McpTool,
+} from "../../mcp"
 
 // Helper to convert TS status to Proto enum
 function convertMcpStatusToProto(status: McpServer["status"]): McpServerStatus {
@@ -19,6 +28,20 @@ function convertMcpStatusToProto(status: McpServer["status"]): McpServerStatus {
 	}
 }
 
+// Helper to convert TS auth status to Proto enum
+function convertMcpAuthStatusToProto(authStatus: McpServer["authStatus"]): McpServerAuthStatus | undefined {
+	switch (authStatus) {
+		case "required":
+			return McpServerAuthStatus.MCP_SERVER_AUTH_STATUS_REQUIRED
+		case "pending":
+			return McpServerAuthStatus.MCP_SERVER_AUTH_STATUS_PENDING
+		case "authorized":
+			return McpServerAuthStatus.MCP_SERVER_AUTH_STATUS_AUTHORIZED
+		default:
+			return undefined
+	}
+}
+
 export function convertMcpServersToProtoMcpServers(mcpServers: McpServer[]): ProtoMcpServer[] {
 	const protoServers: ProtoMcpServer[] = mcpServers.map((server) => ({
 		name: server.name,
@@ -30,9 +53,12 @@ export function convertMcpServersToProtoMcpServers(mcpServers: McpServer[]): Pro
 		tools: (server.tools || []).map(convertTool),
 		resources: (server.resources || []).map(convertResource),
 		resourceTemplates: (server.resourceTemplates || []).map(convertResourceTemplate),
+		prompts: (server.prompts || []).map(convertPrompt),
 
 		disabled: server.disabled,
 		timeout: server.timeout,
+		authStatus: convertMcpAuthStatusToProto(server.authStatus),
+		health: server.health,
 	}))
 	return protoServers
 }
@@ -79,6 +105,22 @@ function convertResourceTemplate(template: McpResourceTemplate): ProtoMcpResourc
 	}
 }
 
+/**
+ * Converts McpPrompt to ProtoMcpPrompt format, ensuring all required fields have values
+ */
+function convertPrompt(prompt: McpPrompt): ProtoMcpPrompt {
+	return {
+		name: prompt.name,
+		title: prompt.title,
+		description: prompt.description,
+		arguments: (prompt.arguments || []).map((argument) => ({
+			name: argument.name,
+			description: argument.description,
+			required: argument.required,
+		})),
+	}
+}
+
 // Helper to convert Proto enum to TS status
 function convertProtoStatusToMcp(status: McpServerStatus): McpServer["status"] {
 	switch (status) {
@@ -92,6 +134,20 @@ function convertProtoStatusToMcp(status: McpServerStatus): McpServer["status"] {
 	}
 }
 
+// Helper to convert Proto enum to TS auth status
+function convertProtoAuthStatusToMcp(authStatus: McpServerAuthStatus | undefined): McpServerAuthStatusValue | undefined {
+	switch (authStatus) {
+		case McpServerAuthStatus.MCP_SERVER_AUTH_STATUS_REQUIRED:
+			return "required"
+		case McpServerAuthStatus.MCP_SERVER_AUTH_STATUS_PENDING:
+			return "pending"
+		case McpServerAuthStatus.MCP_SERVER_AUTH_STATUS_AUTHORIZED:
+			return "authorized"
+		default: // NONE means the server doesn't use OAuth
+			return undefined
+	}
+}
+
 export function convertProtoMcpServersToMcpServers(protoServers: ProtoMcpServer[]): McpServer[] {
 	const mcpServers: McpServer[] = protoServers.map((protoServer) => {
 		return {
@@ -104,9 +160,12 @@ export function convertProtoMcpServersToMcpServers(protoServers: ProtoMcpServer[
 			tools: protoServer.tools.map(convertProtoTool),
 			resources: protoServer.resources.map(convertProtoResource),
 			resourceTemplates: protoServer.resourceTemplates.map(convertProtoResourceTemplate),
+			prompts: protoServer.prompts.map(convertProtoPrompt),
 
 			disabled: protoServer.disabled,
 			timeout: protoServer.timeout,
+			authStatus: convertProtoAuthStatusToMcp(protoServer.authStatus),
+			health: protoServer.health,
 		}
 	})
 	return mcpServers
@@ -151,3 +210,19 @@ function convertProtoResourceTemplate(protoTemplate: ProtoMcpResourceTemplate):
 		description: protoTemplate.description === "" ? undefined : protoTemplate.description,
 	}
 }
+
+/**
+ * Converts ProtoMcpPrompt to McpPrompt format
+ */
+function convertProtoPrompt(protoPrompt: ProtoMcpPrompt): McpPrompt {
+	return {
+		name: protoPrompt.name,
+		title: protoPrompt.title === "" ? undefined : protoPrompt.title,
+		description: protoPrompt.description === "" ? undefined : protoPrompt.description,
+		arguments: protoPrompt.arguments.map((argument) => ({
+			name: argument.name,
+			description: argument.description === "" ? undefined : argument.description,
+			required: argument.required,
+		})),
+	}
+}
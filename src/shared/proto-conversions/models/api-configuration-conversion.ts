@@ -2,9 +2,10 @@ import {
 	OpenRouterModelInfo,
 	ModelsApiConfiguration as ProtoApiConfiguration,
 	ApiProvider as ProtoApiProvider,
+	OpenAiCompatibleModelInfo as ProtoOpenAiCompatibleModelInfo,
 	ThinkingConfig,
 } from "@shared/proto/cline/models"
-import { ApiConfiguration, ApiProvider, ModelInfo } from "../../api"
+import { ApiConfiguration, ApiProvider, ModelInfo, OpenAiCompatibleModelInfo } from "../../api"
 
 // Convert application ThinkingConfig to proto ThinkingConfig
 function convertThinkingConfigToProto(config: ModelInfo["thinkingConfig"]): ThinkingConfig | undefined {
@@ -40,6 +41,7 @@ function convertModelInfoToProtoOpenRouter(info: ModelInfo | undefined): OpenRou
 		cacheReadsPrice: info.cacheReadsPrice,
 		description: info.description,
 		thinkingConfig: convertThinkingConfigToProto(info.thinkingConfig),
+		supportsNativeTools: info.supportsNativeTools,
 		tiers:
 			info.tiers?.map((tier) => ({
 				contextWindow: tier.contextWindow,
@@ -77,6 +79,7 @@ function convertProtoToModelInfo(info: OpenRouterModelInfo | undefined): ModelIn
 					})),
 				}
 			: undefined,
+		supportsNativeTools: info.supportsNativeTools,
 		tiers: info.tiers?.map((tier) => ({
 			contextWindow: tier.contextWindow,
 			inputPrice: tier.inputPrice,
@@ -87,6 +90,38 @@ function convertProtoToModelInfo(info: OpenRouterModelInfo | undefined): ModelIn
 	}
 }
 
+// Convert application OpenAiCompatibleModelInfo to proto OpenAiCompatibleModelInfo
+function convertOpenAiCompatibleModelInfoToProto(
+	info: OpenAiCompatibleModelInfo | undefined,
+): ProtoOpenAiCompatibleModelInfo | undefined {
+	const base = convertModelInfoToProtoOpenRouter(info)
+	if (!info || !base) {
+		return undefined
+	}
+
+	return {
+		...base,
+		temperature: info.temperature,
+		isR1FormatRequired: info.isR1FormatRequired,
+	}
+}
+
+// Convert proto OpenAiCompatibleModelInfo to application OpenAiCompatibleModelInfo
+function convertProtoToOpenAiCompatibleModelInfo(
+	info: ProtoOpenAiCompatibleModelInfo | undefined,
+): OpenAiCompatibleModelInfo | undefined {
+	const base = convertProtoToModelInfo(info)
+	if (!info || !base) {
+		return undefined
+	}
+
+	return {
+		...base,
+		temperature: info.temperature,
+		isR1FormatRequired: info.isR1FormatRequired,
+	}
+}
+
 // Convert application ApiProvider to proto ApiProvider
 function convertApiProviderToProto(provider: string | undefined): ProtoApiProvider {
 	switch (provider) {
@@ -94,6 +129,12 @@ function convertApiProviderToProto(provider: string | undefined): ProtoApiProvid
 			return ProtoApiProvider.ANTHROPIC
 		case "openrouter":
 			return ProtoApiProvider.OPENROUTER
+		case "lmstudio":
+			return ProtoApiProvider.LMSTUDIO
+		case "openai-compatible":
+			return ProtoApiProvider.OPENAI
+		case "ollama":
+			return ProtoApiProvider.OLLAMA
 		default:
 			return ProtoApiProvider.ANTHROPIC
 	}
@@ -106,6 +147,12 @@ export function convertProtoToApiProvider(provider: ProtoApiProvider): ApiProvid
 			return "anthropic"
 		case ProtoApiProvider.OPENROUTER:
 			return "openrouter"
+		case ProtoApiProvider.LMSTUDIO:
+			return "lmstudio"
+		case ProtoApiProvider.OPENAI:
+			return "openai-compatible"
+		case ProtoApiProvider.OLLAMA:
+			return "ollama"
 		default:
 			return "anthropic"
 	}
@@ -120,7 +167,12 @@ export function convertApiConfigurationToProto(config: ApiConfiguration): ProtoA
 		anthropicBaseUrl: config.anthropicBaseUrl,
 		openRouterApiKey: config.openRouterApiKey,
 		openRouterProviderSorting: config.openRouterProviderSorting,
-		openAiHeaders: {},
+		openAiBaseUrl: config.openAiBaseUrl,
+		openAiApiKey: config.openAiApiKey,
+		openAiHeaders: config.openAiHeaders || {},
+		ollamaBaseUrl: config.ollamaBaseUrl,
+		ollamaApiKey: config.ollamaApiKey,
+		ollamaApiOptionsCtxNum: config.ollamaApiOptionsCtxNum,
 		requestTimeoutMs: config.requestTimeoutMs,
 
 		// Plan mode configurations
@@ -130,6 +182,9 @@ export function convertApiConfigurationToProto(config: ApiConfiguration): ProtoA
 		planModeReasoningEffort: config.planModeReasoningEffort,
 		planModeOpenRouterModelId: config.planModeOpenRouterModelId,
 		planModeOpenRouterModelInfo: convertModelInfoToProtoOpenRouter(config.planModeOpenRouterModelInfo),
+		planModeOpenAiModelId: config.planModeOpenAiModelId,
+		planModeOpenAiModelInfo: convertOpenAiCompatibleModelInfoToProto(config.planModeOpenAiModelInfo),
+		planModeOllamaModelId: config.planModeOllamaModelId,
 
 		// Act mode configurations
 		actModeApiProvider: config.actModeApiProvider ? convertApiProviderToProto(config.actModeApiProvider) : undefined,
@@ -138,6 +193,9 @@ export function convertApiConfigurationToProto(config: ApiConfiguration): ProtoA
 		actModeReasoningEffort: config.actModeReasoningEffort,
 		actModeOpenRouterModelId: config.actModeOpenRouterModelId,
 		actModeOpenRouterModelInfo: convertModelInfoToProtoOpenRouter(config.actModeOpenRouterModelInfo),
+		actModeOpenAiModelId: config.actModeOpenAiModelId,
+		actModeOpenAiModelInfo: convertOpenAiCompatibleModelInfoToProto(config.actModeOpenAiModelInfo),
+		actModeOllamaModelId: config.actModeOllamaModelId,
 	}
 }
 
@@ -149,6 +207,12 @@ export function convertProtoToApiConfiguration(protoConfig: ProtoApiConfiguratio
 		ulid: protoConfig.ulid,
 		anthropicBaseUrl: protoConfig.anthropicBaseUrl,
 		openRouterProviderSorting: protoConfig.openRouterProviderSorting,
+		openAiBaseUrl: protoConfig.openAiBaseUrl,
+		openAiApiKey: protoConfig.openAiApiKey,
+		openAiHeaders: protoConfig.openAiHeaders,
+		ollamaBaseUrl: protoConfig.ollamaBaseUrl,
+		ollamaApiKey: protoConfig.ollamaApiKey,
+		ollamaApiOptionsCtxNum: protoConfig.ollamaApiOptionsCtxNum,
 		requestTimeoutMs: protoConfig.requestTimeoutMs,
 
 		planModeApiProvider: protoConfig.planModeApiProvider
@@ -159,6 +223,9 @@ export function convertProtoToApiConfiguration(protoConfig: ProtoApiConfiguratio
 		planModeReasoningEffort: protoConfig.planModeReasoningEffort,
 		planModeOpenRouterModelId: protoConfig.planModeOpenRouterModelId,
 		planModeOpenRouterModelInfo: convertProtoToModelInfo(protoConfig.planModeOpenRouterModelInfo),
+		planModeOpenAiModelId: protoConfig.planModeOpenAiModelId,
+		planModeOpenAiModelInfo: convertProtoToOpenAiCompatibleModelInfo(protoConfig.planModeOpenAiModelInfo),
+		planModeOllamaModelId: protoConfig.planModeOllamaModelId,
 
 		actModeApiProvider: protoConfig.actModeApiProvider
 			? convertProtoToApiProvider(protoConfig.actModeApiProvider)
@@ -168,5 +235,8 @@ export function convertProtoToApiConfiguration(protoConfig: ProtoApiConfiguratio
 		actModeReasoningEffort: protoConfig.actModeReasoningEffort,
 		actModeOpenRouterModelId: protoConfig.actModeOpenRouterModelId,
 		actModeOpenRouterModelInfo: convertProtoToModelInfo(protoConfig.actModeOpenRouterModelInfo),
+		actModeOpenAiModelId: protoConfig.actModeOpenAiModelId,
+		actModeOpenAiModelInfo: convertProtoToOpenAiCompatibleModelInfo(protoConfig.actModeOpenAiModelInfo),
+		actModeOllamaModelId: protoConfig.actModeOllamaModelId,
 	}
 }
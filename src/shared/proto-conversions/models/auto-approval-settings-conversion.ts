@@ -20,6 +20,8 @@ export function convertAutoApprovalSettingsToProto(settings: AutoApprovalSetting
 		maxRequests: settings.maxRequests || 20,
 		enableNotifications: settings.enableNotifications || false,
 		favorites: settings.favorites || [],
+		commandPolicy: settings.commandPolicy,
+		sandbox: settings.sandbox,
 	}
 }
 
@@ -41,5 +43,15 @@ export function convertProtoToAutoApprovalSettings(protoSettings: AutoApprovalSe
 		maxRequests: protoSettings.maxRequests || 20,
 		enableNotifications: protoSettings.enableNotifications || false,
 		favorites: protoSettings.favorites || [],
+		commandPolicy: protoSettings.commandPolicy
+			? { allow: protoSettings.commandPolicy.allow, deny: protoSettings.commandPolicy.deny }
+			: undefined,
+		sandbox: protoSettings.sandbox
+			? {
+					enabled: protoSettings.sandbox.enabled,
+					allowNetwork: protoSettings.sandbox.allowNetwork,
+					writablePaths: protoSettings.sandbox.writablePaths,
+				}
+			: undefined,
 	}
 }
@@ -4,6 +4,7 @@ export enum ClineDefaultTool {
 	ATTEMPT = "attempt_completion",
 	BASH = "execute_command",
 	FILE_EDIT = "replace_in_file",
+	APPLY_PATCH = "apply_patch",
 	FILE_READ = "read_file",
 	FILE_NEW = "write_to_file",
 	SEARCH = "search_files",
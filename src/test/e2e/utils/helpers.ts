@@ -16,6 +16,8 @@ interface E2ETestDirectories {
 export interface E2ETestConfigs {
 	workspaceType: "single" | "multi"
 	channel: "stable" | "insiders"
+	// Recorded API fixture to serve model responses from instead of calling a provider
+	apiReplayFixture: string | undefined
 }
 
 export class E2ETestHelper {
@@ -234,9 +236,10 @@ export const e2e = test
 	.extend<E2ETestConfigs>({
 		workspaceType: "single",
 		channel: "stable",
+		apiReplayFixture: undefined,
 	})
 	.extend<{ openVSCode: (workspacePath: string) => Promise<ElectronApplication> }>({
-		openVSCode: async ({ userDataDir, channel }, use, testInfo) => {
+		openVSCode: async ({ userDataDir, channel, apiReplayFixture }, use, testInfo) => {
 			const executablePath = await downloadAndUnzipVSCode(channel, undefined, new SilentReporter())
 
 			await use(async (workspacePath: string) => {
@@ -248,6 +251,9 @@ export const e2e = test
 						E2E_TEST: "true",
 						CLINE_ENVIRONMENT: "local",
 						GRPC_RECORDER_FILE_NAME: E2ETestHelper.generateTestFileName(testInfo.title, testInfo.project.name),
+						API_RECORDER_FILE_NAME: E2ETestHelper.generateTestFileName(testInfo.title, testInfo.project.name),
+						...(apiReplayFixture ? { API_REPLAY_FIXTURE: apiReplayFixture } : {}),
+						// API_RECORDER_ENABLED: "true",
 						// GRPC_RECORDER_ENABLED: "true",
 						// GRPC_RECORDER_TESTS_FILTERS_ENABLED: "true"
 						// IS_DEV: "true",
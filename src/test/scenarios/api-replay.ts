@@ -0,0 +1,18 @@
+// Replays a recorded model response, so the whole task runs offline and deterministically
+
+import { expect } from "@playwright/test"
+import * as path from "path"
+import { e2e } from "../e2e/utils/helpers"
+
+e2e.extend({
+	apiReplayFixture: path.join(__dirname, "fixtures", "api_recorded_session_attempt_completion.json"),
+})("Scenario - API replay - task completes from a recorded response", async ({ helper, sidebar }) => {
+	await helper.signin(sidebar)
+
+	const inputbox = sidebar.getByTestId("chat-input")
+	await expect(inputbox).toBeVisible()
+	await inputbox.fill("Say hello")
+	await sidebar.getByTestId("send-button").click({ delay: 100 })
+
+	await expect(sidebar.getByText("Hello from a replayed response!")).toBeVisible()
+})
@@ -6,7 +6,13 @@ const _errorColor = "var(--vscode-errorForeground)"
 
 interface ErrorRowProps {
 	message: ClineMessage
-	errorType: "error" | "mistake_limit_reached" | "auto_approval_max_req_reached" | "diff_error" | "clineignore_error"
+	errorType:
+		| "error"
+		| "mistake_limit_reached"
+		| "auto_approval_max_req_reached"
+		| "budget_limit_reached"
+		| "diff_error"
+		| "clineignore_error"
 	apiRequestFailedMessage?: string
 	apiReqStreamingFailedMessage?: string
 }
@@ -26,6 +32,7 @@ const ErrorRow = memo(({ message, errorType, apiRequestFailedMessage, apiReqStre
 			case "error":
 			case "mistake_limit_reached":
 			case "auto_approval_max_req_reached":
+			case "budget_limit_reached":
 				// Handle API request errors with special error parsing
 				if (apiRequestFailedMessage || apiReqStreamingFailedMessage) {
 					const clineError = ClineError.parse(apiRequestFailedMessage || apiReqStreamingFailedMessage)
@@ -0,0 +1,76 @@
+import type { ClineSaySubagents, ClineSubagent, ClineSubagentStatus } from "@shared/ExtensionMessage"
+import React from "react"
+import { debug } from "@/utils/debug_logger"
+import MarkdownBlock from "../common/MarkdownBlock"
+import { cancelledColor, errorColor, normalColor, successColor } from "./chat_row/utils/style_constants"
+
+interface SubagentTreeProps {
+	data: string
+}
+
+const STATUS_ICONS: Record<ClineSubagentStatus, { icon: string; color: string }> = {
+	queued: { icon: "codicon-circle-outline", color: cancelledColor },
+	running: { icon: "codicon-loading codicon-modifier-spin", color: normalColor },
+	completed: { icon: "codicon-pass", color: successColor },
+	failed: { icon: "codicon-error", color: errorColor },
+	cancelled: { icon: "codicon-circle-slash", color: cancelledColor },
+}
+
+const SubagentRow: React.FC<{ subagent: ClineSubagent }> = ({ subagent }) => {
+	const { icon, color } = STATUS_ICONS[subagent.status] ?? STATUS_ICONS.queued
+	const details = subagent.activity ?? (subagent.status === "queued" ? "Waiting for a free slot" : undefined)
+
+	return (
+		<li className="flex gap-2 py-1">
+			<span className={`codicon ${icon} mt-[2px]`} style={{ color }} title={subagent.status} />
+			<div className="min-w-0 flex-1">
+				<div className="font-semibold break-words">{subagent.title}</div>
+				{details && <div className="text-xs opacity-80 break-words">{details}</div>}
+				{subagent.error && (
+					<div className="text-xs break-words" style={{ color: errorColor }}>
+						{subagent.error}
+					</div>
+				)}
+				{subagent.result && (
+					<div className="text-sm">
+						<MarkdownBlock markdown={subagent.result} />
+					</div>
+				)}
+				{!!subagent.filesChanged?.length && (
+					<div className="text-xs opacity-80 break-all">Changed {subagent.filesChanged.join(", ")}</div>
+				)}
+			</div>
+		</li>
+	)
+}
+
+/**
+ * The sub-agents of a fan-out, with each one's status and what it reported back
+ */
+const SubagentTree: React.FC<SubagentTreeProps> = ({ data }) => {
+	const subagents = React.useMemo(() => {
+		try {
+			return (JSON.parse(data || "{}") as Partial<ClineSaySubagents>).subagents ?? []
+		} catch (e) {
+			debug.error("Failed to parse sub-agents data", e)
+			return []
+		}
+	}, [data])
+
+	const finished = subagents.filter((subagent) => subagent.status !== "queued" && subagent.status !== "running").length
+
+	return (
+		<div className="bg-[var(--vscode-badge-background)] text-[var(--vscode-badge-foreground)] rounded-[3px] p-[14px]">
+			<div className="font-bold mb-2">
+				{finished} of {subagents.length} finished
+			</div>
+			<ul className="list-none m-0 p-0">
+				{subagents.map((subagent) => (
+					<SubagentRow key={subagent.index} subagent={subagent} />
+				))}
+			</ul>
+		</div>
+	)
+}
+
+export default SubagentTree
@@ -7,6 +7,8 @@ import { useAutoApproveActions } from "@/hooks/useAutoApproveActions"
 import { useClickAway, useWindowSize } from "@/utils/hooks"
 import { getAsVar, VSC_TITLEBAR_INACTIVE_FOREGROUND } from "@/utils/vscStyles"
 import AutoApproveMenuItem from "./AutoApproveMenuItem"
+import CommandPolicySection from "./CommandPolicySection"
+import CommandSandboxSection from "./CommandSandboxSection"
 import { ActionMetadata } from "./types"
 
 const breakpoint = 500
@@ -241,6 +243,10 @@ const AutoApproveModal: React.FC<AutoApproveModalProps> = ({
 							/>
 						</div>
 					</HeroTooltip>
+
+					<CommandPolicySection />
+
+					<CommandSandboxSection />
 				</div>
 			</div>
 		</div>
@@ -0,0 +1,113 @@
+import { CommandPolicy, DEFAULT_COMMAND_POLICY } from "@shared/AutoApprovalSettings"
+import { CommandPolicy as CommandPolicyRequest } from "@shared/proto/cline/state"
+import { useEffect, useState } from "react"
+import AutoGrowTextarea from "@/components/common/AutoGrowTextarea"
+import HeroTooltip from "@/components/common/HeroTooltip"
+import { useSettingsState } from "@/context/SettingsContext"
+import { useAutoApproveActions } from "@/hooks/useAutoApproveActions"
+import { StateServiceClient } from "@/services/grpc-client"
+import { logError } from "@/utils/debug_logger"
+
+type PolicyList = keyof CommandPolicy
+
+const toLines = (patterns: string[] | undefined) => (patterns ?? []).join("\n")
+
+const fromLines = (text: string) =>
+	text
+		.split("\n")
+		.map((line) => line.trim())
+		.filter(Boolean)
+
+interface PatternListProps {
+	label: string
+	placeholder: string
+	value: string[] | undefined
+	onCommit: (patterns: string[]) => void
+}
+
+/**
+ * One pattern per line, saved when the field loses focus
+ */
+export const PatternList = ({ label, placeholder, value, onCommit }: PatternListProps) => {
+	const [text, setText] = useState(toLines(value))
+
+	useEffect(() => {
+		setText(toLines(value))
+	}, [value])
+
+	return (
+		<label className="flex flex-col gap-1 text-xs text-[#CCCCCC]">
+			<span className="font-medium">{label}</span>
+			<AutoGrowTextarea
+				className="w-full font-mono text-xs p-1.5 rounded border border-[var(--vscode-input-border)] bg-[var(--vscode-input-background)] text-[var(--vscode-input-foreground)]"
+				maxRows={8}
+				minRows={2}
+				onBlur={() => onCommit(fromLines(text))}
+				onChange={(e) => setText(e.target.value)}
+				placeholder={placeholder}
+				spellCheck={false}
+				value={text}
+			/>
+		</label>
+	)
+}
+
+/**
+ * Allow/deny rules for auto-approving terminal commands, globally and for this workspace
+ */
+const CommandPolicySection = () => {
+	const { autoApprovalSettings, workspaceCommandPolicy } = useSettingsState()
+	const { updateCommandPolicy } = useAutoApproveActions()
+
+	const globalPolicy = autoApprovalSettings.commandPolicy ?? DEFAULT_COMMAND_POLICY
+
+	const updateGlobal = (list: PolicyList, patterns: string[]) => {
+		updateCommandPolicy({ ...globalPolicy, [list]: patterns })
+	}
+
+	const updateWorkspace = (list: PolicyList, patterns: string[]) => {
+		const current = workspaceCommandPolicy ?? { allow: [], deny: [] }
+		StateServiceClient.updateWorkspaceCommandPolicy(CommandPolicyRequest.create({ ...current, [list]: patterns })).catch(
+			(error) => logError("Failed to update workspace command policy:", error),
+		)
+	}
+
+	return (
+		<div className="flex flex-col gap-2 pl-1.5 my-2">
+			<HeroTooltip
+				content="Checked before every command, including each part of chained (&&, ;), piped and subshell commands. Use globs like 'npm run *' or regexes like '/^git (status|diff)/'. Deny rules always win, even in YOLO mode; piping into a shell is always denied."
+				placement="top">
+				<div className="flex items-center">
+					<span className="codicon codicon-terminal text-[#CCCCCC] text-[14px]" />
+					<span className="text-[#CCCCCC] text-xs font-medium ml-2">Command Policy:</span>
+				</div>
+			</HeroTooltip>
+			<PatternList
+				label="Always allow"
+				onCommit={(patterns) => updateGlobal("allow", patterns)}
+				placeholder={"npm test\nnpm run lint*"}
+				value={globalPolicy.allow}
+			/>
+			<PatternList
+				label="Never auto-approve"
+				onCommit={(patterns) => updateGlobal("deny", patterns)}
+				placeholder="rm -rf *"
+				value={globalPolicy.deny}
+			/>
+			<PatternList
+				label="This workspace: also allow"
+				onCommit={(patterns) => updateWorkspace("allow", patterns)}
+				placeholder="make build"
+				value={workspaceCommandPolicy?.allow}
+			/>
+			<PatternList
+				label="This workspace: also deny"
+				onCommit={(patterns) => updateWorkspace("deny", patterns)}
+				placeholder="terraform apply*"
+				value={workspaceCommandPolicy?.deny}
+			/>
+		</div>
+	)
+}
+
+export default CommandPolicySection
@@ -0,0 +1,55 @@
+import { CommandSandboxSettings, DEFAULT_COMMAND_SANDBOX_SETTINGS } from "@shared/AutoApprovalSettings"
+import { VSCodeCheckbox } from "@vscode/webview-ui-toolkit/react"
+import HeroTooltip from "@/components/common/HeroTooltip"
+import { useSettingsState } from "@/context/SettingsContext"
+import { useAutoApproveActions } from "@/hooks/useAutoApproveActions"
+import { PatternList } from "./CommandPolicySection"
+
+/**
+ * Sandbox for auto-approved terminal commands (Linux with bubblewrap only)
+ */
+const CommandSandboxSection = () => {
+	const { autoApprovalSettings } = useSettingsState()
+	const { updateCommandSandbox } = useAutoApproveActions()
+
+	const sandbox = autoApprovalSettings.sandbox ?? DEFAULT_COMMAND_SANDBOX_SETTINGS
+
+	const update = (changes: Partial<CommandSandboxSettings>) => {
+		updateCommandSandbox({ ...sandbox, ...changes })
+	}
+
+	return (
+		<div className="flex flex-col gap-2 pl-1.5 my-2">
+			<HeroTooltip
+				content="Runs auto-approved commands with bubblewrap (bwrap) on Linux: the workspace is writable, the rest of the filesystem is read-only and the network is off. Commands the sandbox blocks are reported back to Cline. Without bwrap, these commands ask for approval instead."
+				placement="top">
+				<div className="flex items-center">
+					<span className="codicon codicon-shield text-[#CCCCCC] text-[14px]" />
+					<span className="text-[#CCCCCC] text-xs font-medium ml-2">Command Sandbox:</span>
+				</div>
+			</HeroTooltip>
+			<VSCodeCheckbox
+				checked={sandbox.enabled}
+				onChange={(e) => update({ enabled: (e.target as HTMLInputElement).checked })}>
+				Sandbox auto-approved commands
+			</VSCodeCheckbox>
+			{sandbox.enabled && (
+				<>
+					<VSCodeCheckbox
+						checked={sandbox.allowNetwork}
+						onChange={(e) => update({ allowNetwork: (e.target as HTMLInputElement).checked })}>
+						Allow network access
+					</VSCodeCheckbox>
+					<PatternList
+						label="Also writable (one path per line)"
+						onCommit={(writablePaths) => update({ writablePaths })}
+						placeholder={"~/.npm\n~/.cache"}
+						value={sandbox.writablePaths}
+					/>
+				</>
+			)}
+		</div>
+	)
+}
+
+export default CommandSandboxSection
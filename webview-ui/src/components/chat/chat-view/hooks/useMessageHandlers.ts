@@ -76,6 +76,7 @@ export function useMessageHandlers(messages: ClineMessage[], chatState: ChatStat
 						case "resume_completed_task":
 						case "mistake_limit_reached":
 						case "auto_approval_max_req_reached":
+						case "budget_limit_reached":
 						case "api_req_failed":
 						case "new_task":
 						case "condense":
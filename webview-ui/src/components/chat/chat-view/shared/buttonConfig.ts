@@ -55,6 +55,14 @@ export const BUTTON_CONFIGS: Record<string, ButtonConfig> = {
 		primaryAction: "proceed",
 		secondaryAction: "new_task",
 	},
+	budget_limit_reached: {
+		sendingDisabled: false,
+		enableButtons: true,
+		primaryText: "Continue",
+		secondaryText: "Stop Task",
+		primaryAction: "proceed",
+		secondaryAction: "reject",
+	},
 
 	// Tool approval states - most common during task execution
 	tool_approve: {
@@ -159,6 +167,14 @@ export const BUTTON_CONFIGS: Record<string, ButtonConfig> = {
 		primaryAction: "new_task",
 		secondaryAction: undefined,
 	},
+	subagents: {
+		sendingDisabled: false,
+		enableButtons: true,
+		primaryText: "Start Sub-agents",
+		secondaryText: "Cancel",
+		primaryAction: "approve",
+		secondaryAction: "reject",
+	},
 
 	// Utility states
 	condense: {
@@ -207,7 +223,7 @@ export const BUTTON_CONFIGS: Record<string, ButtonConfig> = {
 	},
 }
 
-const errorTypes = ["api_req_failed", "mistake_limit_reached", "auto_approval_max_req_reached"]
+const errorTypes = ["api_req_failed", "mistake_limit_reached", "auto_approval_max_req_reached", "budget_limit_reached"]
 
 /**
  * Determines button configuration based on message type and state
@@ -237,6 +253,8 @@ export function getButtonConfig(message: ClineMessage | undefined, _mode: Mode =
 				return BUTTON_CONFIGS.mistake_limit_reached
 			case "auto_approval_max_req_reached":
 				return BUTTON_CONFIGS.auto_approval_max_req_reached
+			case "budget_limit_reached":
+				return BUTTON_CONFIGS.budget_limit_reached
 
 			// Tool approval (most common)
 			case "tool": {
@@ -277,6 +295,8 @@ export function getButtonConfig(message: ClineMessage | undefined, _mode: Mode =
 				return BUTTON_CONFIGS.resume_completed_task
 			case "new_task":
 				return BUTTON_CONFIGS.new_task
+			case "subagents":
+				return BUTTON_CONFIGS.subagents
 
 			// Utility
 			case "condense":
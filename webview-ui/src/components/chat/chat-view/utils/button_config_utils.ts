@@ -57,12 +57,18 @@ export function getButtonConfig(clineAsk: ClineAsk | undefined): ButtonConfig |
 		case "auto_approval_max_req_reached":
 			return { primary: "Continue", secondary: "Start New Task" }
 
+		case "budget_limit_reached":
+			return { primary: "Continue", secondary: "Stop Task" }
+
 		case "api_req_failed":
 			return { primary: "Retry", secondary: "Start New Task" }
 
 		case "new_task":
 			return { primary: "Proceed", secondary: "Cancel" }
 
+		case "subagents":
+			return { primary: "Start Sub-agents", secondary: "Cancel" }
+
 		case "condense":
 			return { primary: "Allow", secondary: "Reject" }
 
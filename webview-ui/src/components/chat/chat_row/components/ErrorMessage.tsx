@@ -7,7 +7,13 @@ import ErrorRow from "@/components/chat/ErrorRow"
  */
 interface ErrorMessageProps {
 	message: ClineMessage
-	errorType?: "error" | "diff_error" | "clineignore_error" | "mistake_limit_reached" | "auto_approval_max_req_reached"
+	errorType?:
+		| "error"
+		| "diff_error"
+		| "clineignore_error"
+		| "mistake_limit_reached"
+		| "auto_approval_max_req_reached"
+		| "budget_limit_reached"
 }
 
 /**
@@ -4,6 +4,7 @@ import NewTaskPreview from "@/components/chat/NewTaskPreview"
 import { OptionsButtons } from "@/components/chat/OptionsButtons"
 import QuoteButton from "@/components/chat/QuoteButton"
 import ReportBugPreview from "@/components/chat/ReportBugPreview"
+import SubagentTree from "@/components/chat/SubagentTree"
 import UserMessage from "@/components/chat/UserMessage"
 import { CheckmarkControl } from "@/components/common/CheckmarkControl"
 import CodeAccordian from "@/components/common/CodeAccordian"
@@ -262,6 +263,14 @@ export const MessageContent = memo(
 				case "task_progress":
 					return null
 
+				case "subagents":
+					return (
+						<>
+							<MessageHeader icon={icon} showChevron={false} title={title} />
+							<SubagentTree data={message.text || ""} />
+						</>
+					)
+
 				default:
 					return (
 						<>
@@ -286,6 +295,8 @@ export const MessageContent = memo(
 					return <ErrorMessage errorType="mistake_limit_reached" message={message} />
 				case "auto_approval_max_req_reached":
 					return <ErrorMessage errorType="auto_approval_max_req_reached" message={message} />
+				case "budget_limit_reached":
+					return <ErrorMessage errorType="budget_limit_reached" message={message} />
 
 				case "completion_result": {
 					if (!message.text) {
@@ -379,6 +390,14 @@ export const MessageContent = memo(
 						</>
 					)
 
+				case "subagents":
+					return (
+						<>
+							<MessageHeader icon={icon} showChevron={false} title={title} />
+							<SubagentTree data={message.text || ""} />
+						</>
+					)
+
 				case "plan_mode_respond": {
 					let response: string | undefined
 					let options: string[] | undefined
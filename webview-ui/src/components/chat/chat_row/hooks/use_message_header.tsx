@@ -63,6 +63,13 @@ export function useMessageHeader(
 					color: errorColor,
 				}
 
+			case "budget_limit_reached":
+				return {
+					icon: <span className="codicon codicon-warning" style={{ color: errorColor, marginBottom: "-1.5px" }} />,
+					title: <span style={{ color: errorColor, fontWeight: "bold" }}>Task Budget Limit Reached</span>,
+					color: errorColor,
+				}
+
 			case "command":
 				return {
 					icon: isCommandExecuting ? (
@@ -129,6 +136,22 @@ export function useMessageHeader(
 					color: normalColor,
 				}
 
+			case "subagents":
+				return {
+					icon: (
+						<span
+							className="codicon codicon-type-hierarchy-sub"
+							style={{ color: normalColor, marginBottom: "-1.5px" }}
+						/>
+					),
+					title: (
+						<span style={{ color: normalColor, fontWeight: "bold" }}>
+							{message.type === "ask" ? "Marie wants to split this task across sub-agents:" : "Sub-agents"}
+						</span>
+					),
+					color: normalColor,
+				}
+
 			case "condense":
 				return {
 					icon: <span className="codicon codicon-new-file" style={{ color: normalColor, marginBottom: "-1.5px" }} />,
@@ -154,6 +177,7 @@ export function useMessageHeader(
 		}
 	}, [
 		type,
+		message.type,
 		cost,
 		apiRequestFailedMessage,
 		isCommandExecuting,
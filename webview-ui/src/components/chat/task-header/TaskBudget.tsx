@@ -0,0 +1,60 @@
+import type { ClineMessage } from "@shared/ExtensionMessage"
+import {
+	formatBudgetValue,
+	getBudgetLimit,
+	getBudgetMetricLabel,
+	getTaskBudgetUsage,
+	hasBudgetLimits,
+	TASK_BUDGET_METRICS,
+	type TaskBudgetSettings,
+} from "@shared/TaskBudgetSettings"
+import { memo, useMemo } from "react"
+import { Progress } from "@/components/common/Progress"
+
+interface TaskBudgetProps {
+	messages: ClineMessage[]
+	taskBudgetSettings?: TaskBudgetSettings
+}
+
+/**
+ * Usage against each configured budget limit, measured against the hard limit when
+ * one is set and turning amber once the soft limit is crossed
+ */
+const TaskBudget = ({ messages, taskBudgetSettings }: TaskBudgetProps) => {
+	const usage = useMemo(() => getTaskBudgetUsage(messages), [messages])
+
+	if (!taskBudgetSettings || !hasBudgetLimits(taskBudgetSettings)) {
+		return null
+	}
+
+	const rows = TASK_BUDGET_METRICS.flatMap((metric) => {
+		const soft = getBudgetLimit(taskBudgetSettings.soft, metric)
+		const hard = getBudgetLimit(taskBudgetSettings.hard, metric)
+		const limit = hard ?? soft
+		if (limit === undefined) {
+			return []
+		}
+		const used = usage[metric]
+		const color = hard !== undefined && used >= hard ? "danger" : soft !== undefined && used >= soft ? "warning" : "success"
+		return [{ metric, used, limit, soft, color } as const]
+	})
+
+	return (
+		<div aria-label="Task budget" className="flex flex-col gap-1 my-1.5 text-xs">
+			{rows.map(({ metric, used, limit, soft, color }) => (
+				<div
+					className="flex items-center gap-1.5 whitespace-nowrap"
+					key={metric}
+					title={soft !== undefined && soft !== limit ? `Soft limit: ${formatBudgetValue(metric, soft)}` : undefined}>
+					<span className="w-24 text-[var(--vscode-descriptionForeground)]">{getBudgetMetricLabel(metric)}</span>
+					<Progress className="flex-1 rounded" color={color} size="sm" value={(used / limit) * 100} />
+					<span>
+						{formatBudgetValue(metric, used)} / {formatBudgetValue(metric, limit)}
+					</span>
+				</div>
+			))}
+		</div>
+	)
+}
+
+export default memo(TaskBudget)
@@ -18,6 +18,7 @@ import OpenDiskConversationHistoryButton from "./buttons/OpenDiskConversationHis
 import { CheckpointError } from "./CheckpointError"
 import ContextWindow from "./ContextWindow"
 import { highlightText } from "./Highlights"
+import TaskBudget from "./TaskBudget"
 import TaskTimeline from "./TaskTimeline"
 
 const IS_DEV = process.env.IS_DEV === '"true"'
@@ -51,7 +52,7 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
 	onScrollToMessage,
 	onSendMessage,
 }) => {
-	const { apiConfiguration, mode } = useSettingsState()
+	const { apiConfiguration, mode, taskBudgetSettings } = useSettingsState()
 	const { currentTaskId, totalTasksSize, checkpointManagerErrorMessage, clineMessages } = useTaskState()
 	const { navigateToSettings, expandTaskHeader: isTaskExpanded, setExpandTaskHeader: setIsTaskExpanded } = useUIState()
 
@@ -176,6 +177,8 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
 							useAutoCondense={false} // Disable auto-condense configuration in UI for now
 						/>
 
+						<TaskBudget messages={clineMessages} taskBudgetSettings={taskBudgetSettings} />
+
 						<TaskTimeline messages={clineMessages} onBlockClick={onScrollToMessage} />
 					</div>
 				)}
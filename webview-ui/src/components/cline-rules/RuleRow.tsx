@@ -15,7 +15,10 @@ const RuleRowComponent: React.FC<{
 	// Check if the path type is Windows
 	const win32Path = /^[a-zA-Z]:\\/.test(rulePath)
 	// Get the filename from the path for display
-	const displayName = rulePath.split(win32Path ? "\\" : "/").pop() || rulePath
+	// Agent instruction files share names across directories, so keep their parent directory
+	const pathSegments = rulePath.split(win32Path ? "\\" : "/")
+	const displayName =
+		(ruleType === "agents" ? pathSegments.slice(-2).join("/") : pathSegments[pathSegments.length - 1]) || rulePath
 
 	// Protected rules that cannot be deleted
 	const isProtectedRule = displayName === "konmari-method.md"
@@ -56,6 +59,8 @@ const RuleRowComponent: React.FC<{
 						</g>
 					</svg>
 				)
+			case "agents":
+				return <span className="codicon codicon-book" style={{ fontSize: "14px", verticalAlign: "middle" }} />
 			default:
 				return null
 		}
@@ -1,6 +1,6 @@
-import { parseFocusChainItem } from "@shared/focus-chain-utils"
+import { type FocusChainItemStatus, parseFocusChainItem } from "@shared/focus-chain-utils"
 import React, { useCallback, useEffect, useRef, useState } from "react"
-import { CheckIcon, CircleIcon } from "@/components/icons"
+import { AlertTriangle, CheckIcon, CircleIcon } from "@/components/icons"
 import { cn } from "@/utils/classnames"
 import LightMarkdown from "./LightMarkdown"
 
@@ -10,7 +10,9 @@ interface ChecklistRendererProps {
 
 interface ChecklistItem {
 	checked: boolean
+	status: FocusChainItemStatus
 	text: string
+	depth: number
 }
 
 const ChecklistRendererComponent: React.FC<ChecklistRendererProps> = ({ text }) => {
@@ -27,7 +29,10 @@ const ChecklistRendererComponent: React.FC<ChecklistRendererProps> = ({ text })
 			const trimmedLine = line.trim()
 			const parsed = parseFocusChainItem(trimmedLine)
 			if (parsed) {
-				items.push({ checked: parsed.checked, text: parsed.text })
+				// Subtasks are indented by two spaces (or a tab) per level
+				const indent = line.length - line.trimStart().length
+				const depth = Math.floor(line.slice(0, indent).replace(/\t/g, "  ").length / 2)
+				items.push({ checked: parsed.checked, status: parsed.status, text: parsed.text, depth })
 			}
 		}
 
@@ -105,10 +110,26 @@ const ChecklistRendererComponent: React.FC<ChecklistRendererProps> = ({ text })
 				overflowY: items.length >= 10 ? "auto" : "visible",
 			}}>
 			{items.map((item, index) => (
-				// biome-ignore lint/suspicious/noArrayIndexKey: Using index as key for checklist items
-				<div className="flex items-start gap-1.5 p-0.5" key={`checklist-item-${index}`}>
-					<span className={cn("text-xs shrink-0 mt-0.5", item.checked ? "text-success" : "text-foreground")}>
-						{item.checked ? <CheckIcon size={10} /> : <CircleIcon size={10} />}
+				<div
+					className="flex items-start gap-1.5 p-0.5"
+					// biome-ignore lint/suspicious/noArrayIndexKey: Using index as key for checklist items
+					key={`checklist-item-${index}`}
+					style={{ paddingLeft: `${item.depth * 12 + 2}px` }}>
+					<span
+						className={cn(
+							"text-xs shrink-0 mt-0.5",
+							item.checked && "text-success",
+							item.status === "in_progress" && "text-link",
+							item.status === "blocked" && "text-warning",
+							item.status === "pending" && "text-foreground",
+						)}>
+						{item.checked ? (
+							<CheckIcon size={10} />
+						) : item.status === "blocked" ? (
+							<AlertTriangle size={10} />
+						) : (
+							<CircleIcon fill={item.status === "in_progress" ? "currentColor" : "none"} size={10} />
+						)}
 					</span>
 					<div
 						className={cn("text-xs break-words flex-1", item.checked ? "text-description" : "text-foreground")}
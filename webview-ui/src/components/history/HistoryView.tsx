@@ -41,6 +41,7 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 		handleDeleteHistoryItem,
 		handleDeleteSelectedHistoryItems,
 		handleDeleteAllHistory,
+		handleImportTask,
 	} = useHistoryData(
 		showFavoritesOnly,
 		showCurrentWorkspaceOnly,
@@ -121,7 +122,12 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 						padding: "10px 17px 10px 20px",
 					}}>
 					<h3 style={{ color: "var(--vscode-foreground)", margin: 0 }}>History</h3>
-					<VSCodeButton onClick={onDone}>Done</VSCodeButton>
+					<div style={{ display: "flex", gap: "6px" }}>
+						<VSCodeButton appearance="secondary" aria-label="Import task bundle" onClick={handleImportTask}>
+							Import
+						</VSCodeButton>
+						<VSCodeButton onClick={onDone}>Done</VSCodeButton>
+					</div>
 				</div>
 
 				{/* Search and Filters */}
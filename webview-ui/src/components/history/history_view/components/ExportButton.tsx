@@ -1,5 +1,6 @@
-import { StringRequest } from "@shared/proto/cline/common"
+import { ExportTaskRequest, TaskExportFormat } from "@shared/proto/cline/task"
 import { VSCodeButton } from "@vscode/webview-ui-toolkit/react"
+import { useState } from "react"
 import { TaskServiceClient } from "@/services/grpc-client"
 import { debug } from "@/utils/debug_logger"
 
@@ -7,20 +8,52 @@ interface ExportButtonProps {
 	itemId: string
 }
 
+const EXPORT_FORMATS: { format: TaskExportFormat; label: string; title: string }[] = [
+	{ format: TaskExportFormat.TASK_EXPORT_MARKDOWN, label: "MD", title: "Markdown transcript" },
+	{ format: TaskExportFormat.TASK_EXPORT_JSON, label: "JSON", title: "Full messages, API history and metrics" },
+	{ format: TaskExportFormat.TASK_EXPORT_HTML, label: "HTML", title: "Self-contained report" },
+	{ format: TaskExportFormat.TASK_EXPORT_BUNDLE, label: "BUNDLE", title: "Bundle that can be imported into task history" },
+]
+
 /**
- * Export button for individual history items
+ * Export button for individual history items; expands into a choice of export formats
  */
-export const ExportButton = ({ itemId }: ExportButtonProps) => (
-	<VSCodeButton
-		appearance="icon"
-		aria-label="Export"
-		className="export-button"
-		onClick={(e) => {
-			e.stopPropagation()
-			TaskServiceClient.exportTaskWithId(StringRequest.create({ value: itemId })).catch((err) =>
-				debug.error("Failed to export task:", err),
-			)
-		}}>
-		<div style={{ fontSize: "11px", fontWeight: 500, opacity: 1 }}>EXPORT</div>
-	</VSCodeButton>
-)
+export const ExportButton = ({ itemId }: ExportButtonProps) => {
+	const [expanded, setExpanded] = useState(false)
+
+	if (!expanded) {
+		return (
+			<VSCodeButton
+				appearance="icon"
+				aria-label="Export"
+				className="export-button"
+				onClick={(e) => {
+					e.stopPropagation()
+					setExpanded(true)
+				}}>
+				<div style={{ fontSize: "11px", fontWeight: 500, opacity: 1 }}>EXPORT</div>
+			</VSCodeButton>
+		)
+	}
+
+	return (
+		<div className="export-button" style={{ display: "flex", gap: "2px" }}>
+			{EXPORT_FORMATS.map(({ format, label, title }) => (
+				<VSCodeButton
+					appearance="icon"
+					aria-label={`Export as ${title}`}
+					key={label}
+					onClick={(e) => {
+						e.stopPropagation()
+						setExpanded(false)
+						TaskServiceClient.exportTaskWithId(ExportTaskRequest.create({ taskId: itemId, format })).catch((err) =>
+							debug.error("Failed to export task:", err),
+						)
+					}}
+					title={title}>
+					<div style={{ fontSize: "11px", fontWeight: 500, opacity: 1 }}>{label}</div>
+				</VSCodeButton>
+			))}
+		</div>
+	)
+}
@@ -139,6 +139,18 @@ export const useHistoryData = (
 		[fetchTotalTasksSize],
 	)
 
+	// Import a task bundle exported from another machine
+	const handleImportTask = useCallback(async () => {
+		try {
+			const response = await TaskServiceClient.importTaskBundle(EmptyRequest.create({}))
+			if (response.value) {
+				await Promise.all([loadTaskHistory(), fetchTotalTasksSize()])
+			}
+		} catch (error) {
+			debug.error("Error importing task:", error)
+		}
+	}, [loadTaskHistory, fetchTotalTasksSize])
+
 	// Delete all history
 	const handleDeleteAllHistory = useCallback(async () => {
 		setDeleteAllDisabled(true)
@@ -161,5 +173,6 @@ export const useHistoryData = (
 		handleDeleteHistoryItem,
 		handleDeleteSelectedHistoryItems,
 		handleDeleteAllHistory,
+		handleImportTask,
 	}
 }
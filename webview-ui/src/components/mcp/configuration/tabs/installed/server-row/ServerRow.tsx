@@ -1,4 +1,4 @@
-import { DEFAULT_MCP_TIMEOUT_SECONDS, McpServer } from "@shared/mcp"
+import { DEFAULT_MCP_TIMEOUT_SECONDS, McpServer, McpServerHealth } from "@shared/mcp"
 import { StringRequest } from "@shared/proto/cline/common"
 import {
 	McpServers,
@@ -26,6 +26,32 @@ import { getMcpServerDisplayName } from "@/utils/mcp"
 import McpResourceRow from "./McpResourceRow"
 import McpToolRow from "./McpToolRow"
 
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString()
+
+// One line per fact, e.g. "Avg latency: 120 ms"
+const getHealthLines = (health: McpServerHealth): string[] => {
+	const lines: string[] = []
+	if (health.averageLatencyMs !== undefined) {
+		lines.push(`Avg latency: ${health.averageLatencyMs} ms (last ${health.lastLatencyMs ?? 0} ms)`)
+	}
+	lines.push(`Calls: ${health.successCount} ok, ${health.errorCount} failed`)
+	if (health.lastSuccessAt) {
+		lines.push(`Last success: ${formatTime(health.lastSuccessAt)}`)
+	}
+	if (health.lastError) {
+		lines.push(`Last error: ${health.lastError}`)
+	}
+	if (health.disconnectCount > 0) {
+		lines.push(`Disconnects: ${health.disconnectCount}`)
+	}
+	if (health.quarantinedUntil) {
+		lines.push(`Quarantined until ${formatTime(health.quarantinedUntil)}`)
+	} else if (health.nextReconnectAt) {
+		lines.push(`Reconnecting at ${formatTime(health.nextReconnectAt)} (attempt ${health.reconnectAttempts})`)
+	}
+	return lines
+}
+
 // constant JSX.Elements
 const TimeoutOptions = [
 	{ value: "30", label: "30 seconds" },
@@ -55,6 +81,7 @@ const ServerRow = ({
 	const [isExpanded, setIsExpanded] = useState(false)
 	const [isDeleting, setIsDeleting] = useState(false)
 	const [isRestarting, setIsRestarting] = useState(false)
+	const [isAuthorizing, setIsAuthorizing] = useState(false)
 
 	const getStatusColor = useCallback((status: McpServer["status"]) => {
 		switch (status) {
@@ -125,6 +152,22 @@ const ServerRow = ({
 			})
 	}, [server.name, setMcpServers])
 
+	const handleAuthorize = useCallback(() => {
+		setIsAuthorizing(true)
+		McpServiceClient.authorizeMcpServer({
+			value: server.name,
+		} as StringRequest)
+			.then((response: McpServers) => {
+				const mcpServers = convertProtoMcpServersToMcpServers(response.mcpServers)
+				setMcpServers(mcpServers)
+				setIsAuthorizing(false)
+			})
+			.catch((error) => {
+				setIsAuthorizing(false)
+				debug.error("Error authorizing MCP server", error)
+			})
+	}, [server.name, setMcpServers])
+
 	const handleDelete = useCallback(() => {
 		setIsDeleting(true)
 		McpServiceClient.deleteMcpServer({
@@ -307,6 +350,17 @@ const ServerRow = ({
 						}}>
 						{server.error}
 					</div>
+					{(server.authStatus === "required" || server.authStatus === "pending") && (
+						<VSCodeButton
+							disabled={isAuthorizing || server.authStatus === "pending"}
+							onClick={handleAuthorize}
+							style={{
+								width: "calc(100% - 20px)",
+								margin: "0 10px 10px 10px",
+							}}>
+							{isAuthorizing || server.authStatus === "pending" ? "Waiting for sign-in..." : "Authorize"}
+						</VSCodeButton>
+					)}
 					<VSCodeButton
 						appearance="secondary"
 						disabled={server.status === "connecting"}
@@ -403,6 +457,22 @@ const ServerRow = ({
 							</VSCodePanelView>
 						</VSCodePanels>
 
+						{server.health && (
+							<div style={{ margin: "10px 7px" }}>
+								<label style={{ display: "block", marginBottom: "4px", fontSize: "13px" }}>Health</label>
+								<div
+									style={{
+										color: "var(--vscode-descriptionForeground)",
+										fontSize: "12px",
+										wordBreak: "break-word",
+									}}>
+									{getHealthLines(server.health).map((line) => (
+										<div key={line}>{line}</div>
+									))}
+								</div>
+							</div>
+						)}
+
 						<div style={{ margin: "10px 7px" }}>
 							<label style={{ display: "block", marginBottom: "4px", fontSize: "13px" }}>Request Timeout</label>
 							<VSCodeDropdown onChange={handleTimeoutChange} style={{ width: "100%" }} value={timeoutValue}>
@@ -8,6 +8,8 @@ import { highlight } from "../history/history_view/utils/highlight_utils"
 import { OPENROUTER_MODEL_PICKER_Z_INDEX } from "./OpenRouterModelPicker"
 import { AnthropicProvider } from "./providers/AnthropicProvider"
 import { LMStudioProvider } from "./providers/LMStudioProvider"
+import { OllamaProvider } from "./providers/OllamaProvider"
+import { OpenAiCompatibleProvider } from "./providers/OpenAiCompatibleProvider"
 import { OpenRouterProvider } from "./providers/OpenRouterProvider"
 import { useApiConfigurationHandlers } from "./utils/useApiConfigurationHandlers"
 
@@ -72,6 +74,8 @@ const ApiOptions = ({ showModelOptions, apiErrorMessage, modelIdErrorMessage, is
 			{ value: "anthropic", label: "Anthropic" },
 			{ value: "openrouter", label: "OpenRouter" },
 			{ value: "lmstudio", label: "LM Studio" },
+			{ value: "openai-compatible", label: "OpenAI Compatible" },
+			{ value: "ollama", label: "Ollama" },
 		]
 
 		return providers
@@ -298,6 +302,14 @@ const ApiOptions = ({ showModelOptions, apiErrorMessage, modelIdErrorMessage, is
 				<LMStudioProvider currentMode={currentMode} isPopup={isPopup} showModelOptions={showModelOptions} />
 			)}
 
+			{apiConfiguration && selectedProvider === "openai-compatible" && (
+				<OpenAiCompatibleProvider currentMode={currentMode} isPopup={isPopup} showModelOptions={showModelOptions} />
+			)}
+
+			{apiConfiguration && selectedProvider === "ollama" && (
+				<OllamaProvider currentMode={currentMode} isPopup={isPopup} showModelOptions={showModelOptions} />
+			)}
+
 			{apiErrorMessage && (
 				<p
 					style={{
@@ -0,0 +1,80 @@
+import {
+	DEFAULT_TASK_BUDGET_SETTINGS,
+	getBudgetLimit,
+	TASK_BUDGET_METRICS,
+	type TaskBudgetLimits,
+	type TaskBudgetMetric,
+	type TaskBudgetSettings,
+} from "@shared/TaskBudgetSettings"
+import { VSCodeCheckbox, VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
+import { memo } from "react"
+import { updateSetting } from "./utils/settingsHandlers"
+
+const METRIC_ROWS: Record<TaskBudgetMetric, { label: string; key: keyof TaskBudgetLimits }> = {
+	cost: { label: "Cost (USD)", key: "maxCost" },
+	tokensIn: { label: "Input tokens", key: "maxTokensIn" },
+	tokensOut: { label: "Output tokens", key: "maxTokensOut" },
+	time: { label: "Time (minutes)", key: "maxMinutes" },
+}
+
+interface TaskBudgetSettingProps {
+	taskBudgetSettings?: TaskBudgetSettings
+}
+
+/**
+ * Soft and hard per-task limits on cost, tokens and wall-clock time
+ */
+const TaskBudgetSetting = ({ taskBudgetSettings = DEFAULT_TASK_BUDGET_SETTINGS }: TaskBudgetSettingProps) => {
+	const updateLimit = (tier: "soft" | "hard", metric: TaskBudgetMetric, rawValue: string) => {
+		const parsed = rawValue.trim() === "" ? undefined : Number.parseFloat(rawValue)
+		if (parsed !== undefined && (Number.isNaN(parsed) || parsed < 0)) {
+			return
+		}
+		// Only cost accepts fractions; tokens and minutes are whole numbers
+		const value = parsed !== undefined && metric !== "cost" ? Math.round(parsed) : parsed
+		updateSetting("taskBudgetSettings", {
+			...taskBudgetSettings,
+			[tier]: { ...taskBudgetSettings[tier], [METRIC_ROWS[metric].key]: value || undefined },
+		})
+	}
+
+	return (
+		<div style={{ marginTop: 10 }}>
+			<VSCodeCheckbox
+				checked={taskBudgetSettings.enabled}
+				onChange={(e: any) => {
+					const checked = e.target.checked === true
+					updateSetting("taskBudgetSettings", { ...taskBudgetSettings, enabled: checked })
+				}}>
+				Enable Task Budget
+			</VSCodeCheckbox>
+			<p className="text-xs text-[var(--vscode-descriptionForeground)]">
+				Limits what a single task may spend. At a soft limit Marie pauses and asks whether to continue; at a hard limit
+				the task stops. Leave a field empty for no limit.
+			</p>
+			{taskBudgetSettings.enabled && (
+				<div className="grid grid-cols-[1fr_5rem_5rem] gap-x-2 gap-y-1 items-center ml-5 mt-2.5 text-sm">
+					<span />
+					<span className="text-xs text-[var(--vscode-descriptionForeground)]">Soft</span>
+					<span className="text-xs text-[var(--vscode-descriptionForeground)]">Hard</span>
+					{TASK_BUDGET_METRICS.map((metric) => (
+						<div className="contents" key={metric}>
+							<span>{METRIC_ROWS[metric].label}</span>
+							{(["soft", "hard"] as const).map((tier) => (
+								<VSCodeTextField
+									aria-label={`${METRIC_ROWS[metric].label} ${tier} limit`}
+									key={`${tier}-${metric}-${getBudgetLimit(taskBudgetSettings[tier], metric) ?? ""}`}
+									onBlur={(e: any) => updateLimit(tier, metric, e.target.value)}
+									placeholder="None"
+									value={String(getBudgetLimit(taskBudgetSettings[tier], metric) ?? "")}
+								/>
+							))}
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	)
+}
+
+export default memo(TaskBudgetSetting)
@@ -0,0 +1,184 @@
+import { ollamaDefaultContextWindow } from "@shared/api"
+import { OllamaPullRequest } from "@shared/proto/cline/models"
+import type { Mode } from "@shared/storage/types"
+import { VSCodeButton, VSCodeDropdown, VSCodeLink, VSCodeOption, VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { useSettingsState } from "@/context/SettingsContext"
+import { ModelsServiceClient } from "@/services/grpc-client"
+import { logError } from "@/utils/debug_logger"
+import { BaseUrlField } from "../common/BaseUrlField"
+import { DebouncedTextField } from "../common/DebouncedTextField"
+import { DropdownContainer } from "../common/ModelSelector"
+import { getModeSpecificFields } from "../utils/providerUtils"
+import { useApiConfigurationHandlers } from "../utils/useApiConfigurationHandlers"
+
+/**
+ * Props for the OllamaProvider component
+ */
+interface OllamaProviderProps {
+	showModelOptions: boolean
+	isPopup?: boolean
+	currentMode: Mode
+}
+
+interface OllamaApiModel {
+	id: string
+	size?: number
+	family?: string
+	parameter_size?: string
+	quantization_level?: string
+	context_length?: number
+}
+
+/**
+ * The Ollama provider configuration component
+ */
+export const OllamaProvider = ({ currentMode }: OllamaProviderProps) => {
+	const { apiConfiguration } = useSettingsState()
+	const { handleFieldChange, handleModeFieldChange } = useApiConfigurationHandlers()
+
+	const { ollamaModelId } = getModeSpecificFields(apiConfiguration, currentMode)
+
+	const [ollamaModels, setOllamaModels] = useState<OllamaApiModel[]>([])
+	const [modelToPull, setModelToPull] = useState("")
+	const [pullStatus, setPullStatus] = useState<string | undefined>()
+	const [isPulling, setIsPulling] = useState(false)
+
+	const currentOllamaModel = useMemo(
+		() => ollamaModels.find((model) => model.id === ollamaModelId),
+		[ollamaModels, ollamaModelId],
+	)
+	const endpoint = useMemo(() => apiConfiguration?.ollamaBaseUrl || "http://localhost:11434", [apiConfiguration?.ollamaBaseUrl])
+
+	// Poll Ollama models
+	const requestOllamaModels = useCallback(async () => {
+		await ModelsServiceClient.getOllamaModels({
+			value: endpoint,
+		})
+			.then((response) => {
+				if (response?.values) {
+					const models = response.values.map((v) => JSON.parse(v) as OllamaApiModel)
+					setOllamaModels(models)
+				}
+			})
+			.catch((error) => {
+				logError("Failed to parse Ollama models:", error)
+			})
+	}, [endpoint])
+
+	useEffect(() => {
+		requestOllamaModels()
+
+		// Poll every 6 seconds
+		const interval = setInterval(requestOllamaModels, 6000)
+		return () => clearInterval(interval)
+	}, [requestOllamaModels])
+
+	const handleModelChange = (value: string) => {
+		handleModeFieldChange({ plan: "planModeOllamaModelId", act: "actModeOllamaModelId" }, value, currentMode)
+	}
+
+	const pullModel = async () => {
+		const model = modelToPull.trim()
+		if (!model) {
+			return
+		}
+		setIsPulling(true)
+		setPullStatus(`Pulling ${model}...`)
+		await ModelsServiceClient.pullOllamaModel(OllamaPullRequest.create({ baseUrl: endpoint, model }))
+			.then(() => {
+				setPullStatus(`Pulled ${model}`)
+				setModelToPull("")
+				requestOllamaModels()
+			})
+			.catch((error) => {
+				logError("Failed to pull Ollama model:", error)
+				setPullStatus(error instanceof Error ? error.message : String(error))
+			})
+			.finally(() => setIsPulling(false))
+	}
+
+	return (
+		<div className="flex flex-col gap-2">
+			<BaseUrlField
+				initialValue={apiConfiguration?.ollamaBaseUrl}
+				label="Use custom base URL"
+				onChange={(value) => handleFieldChange("ollamaBaseUrl", value)}
+				placeholder="Default: http://localhost:11434"
+			/>
+
+			<DebouncedTextField
+				initialValue={apiConfiguration?.ollamaApiKey || ""}
+				onChange={(value) => handleFieldChange("ollamaApiKey", value)}
+				placeholder="Only needed behind an authenticating proxy"
+				style={{ width: "100%" }}
+				type="password">
+				<span className="font-semibold">API Key (optional)</span>
+			</DebouncedTextField>
+
+			<div className="font-semibold">Model</div>
+			{ollamaModels.length > 0 ? (
+				<DropdownContainer className="dropdown-container" zIndex={10}>
+					<VSCodeDropdown
+						className="w-full mb-3"
+						onChange={(e: any) => handleModelChange(e?.target?.value)}
+						value={ollamaModelId}>
+						{ollamaModels.map((model) => (
+							<VSCodeOption className="w-full" key={model.id} value={model.id}>
+								{model.id}
+							</VSCodeOption>
+						))}
+					</VSCodeDropdown>
+				</DropdownContainer>
+			) : (
+				<DebouncedTextField
+					initialValue={ollamaModelId || ""}
+					onChange={handleModelChange}
+					placeholder={"e.g. qwen2.5-coder:14b"}
+					style={{ width: "100%" }}
+				/>
+			)}
+
+			<div className="flex gap-2 items-end">
+				<VSCodeTextField
+					className="flex-1"
+					onInput={(e: any) => setModelToPull(e.target.value)}
+					placeholder="e.g. llama3.1:8b"
+					value={modelToPull}>
+					<span className="font-semibold">Pull Model</span>
+				</VSCodeTextField>
+				<VSCodeButton disabled={isPulling || !modelToPull.trim()} onClick={pullModel}>
+					{isPulling ? "Pulling..." : "Pull"}
+				</VSCodeButton>
+			</div>
+			{pullStatus && <div className="text-xs text-description">{pullStatus}</div>}
+
+			<DebouncedTextField
+				initialValue={apiConfiguration?.ollamaApiOptionsCtxNum || ""}
+				onChange={(value) => handleFieldChange("ollamaApiOptionsCtxNum", value)}
+				placeholder={`Default: ${ollamaDefaultContextWindow}`}
+				style={{ width: "100%" }}>
+				<span className="font-semibold">Context Window (num_ctx)</span>
+			</DebouncedTextField>
+			{currentOllamaModel?.context_length && (
+				<div className="text-xs text-description">
+					{currentOllamaModel.id} supports up to {currentOllamaModel.context_length.toLocaleString()} tokens. Larger
+					windows need more memory.
+				</div>
+			)}
+
+			<div className="text-xs text-description">
+				Ollama allows you to run models locally on your computer. For instructions on how to get started, see their
+				<VSCodeLink
+					href="https://github.com/ollama/ollama/blob/main/README.md"
+					style={{ display: "inline", fontSize: "inherit" }}>
+					quickstart guide.
+				</VSCodeLink>{" "}
+				<div className="text-error">
+					<span className="font-semibold">Note:</span> Cline uses complex prompts and works best with Claude models.
+					Less capable models may not work as expected.
+				</div>
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,146 @@
+import { OpenAiModelsRequest } from "@shared/proto/cline/models"
+import type { Mode } from "@shared/storage/types"
+import { VSCodeButton, VSCodeDropdown, VSCodeOption } from "@vscode/webview-ui-toolkit/react"
+import { useCallback, useEffect, useState } from "react"
+import { useSettingsState } from "@/context/SettingsContext"
+import { ModelsServiceClient } from "@/services/grpc-client"
+import { logError } from "@/utils/debug_logger"
+import { DebouncedTextField } from "../common/DebouncedTextField"
+import { DropdownContainer } from "../common/ModelSelector"
+import { getModeSpecificFields } from "../utils/providerUtils"
+import { useApiConfigurationHandlers } from "../utils/useApiConfigurationHandlers"
+
+/**
+ * Props for the OpenAiCompatibleProvider component
+ */
+interface OpenAiCompatibleProviderProps {
+	showModelOptions: boolean
+	isPopup?: boolean
+	currentMode: Mode
+}
+
+/**
+ * Parses "Header: value" pairs separated by semicolons into a headers record, ignoring malformed entries
+ */
+const parseHeaders = (text: string): Record<string, string> => {
+	const headers: Record<string, string> = {}
+	for (const line of text.split(/[;\n]/)) {
+		const separator = line.indexOf(":")
+		if (separator <= 0) {
+			continue
+		}
+		const name = line.slice(0, separator).trim()
+		const value = line.slice(separator + 1).trim()
+		if (name) {
+			headers[name] = value
+		}
+	}
+	return headers
+}
+
+const formatHeaders = (headers: Record<string, string> | undefined): string =>
+	Object.entries(headers ?? {})
+		.map(([name, value]) => `${name}: ${value}`)
+		.join("; ")
+
+/**
+ * The OpenAI-compatible provider configuration component (vLLM, llama.cpp, TGI, ...)
+ */
+export const OpenAiCompatibleProvider = ({ currentMode }: OpenAiCompatibleProviderProps) => {
+	const { apiConfiguration } = useSettingsState()
+	const { handleFieldChange, handleModeFieldChange } = useApiConfigurationHandlers()
+
+	const { openAiModelId } = getModeSpecificFields(apiConfiguration, currentMode)
+
+	const [availableModels, setAvailableModels] = useState<string[]>([])
+
+	const refreshModels = useCallback(async () => {
+		if (!apiConfiguration?.openAiBaseUrl) {
+			setAvailableModels([])
+			return
+		}
+		await ModelsServiceClient.getOpenAiModels(
+			OpenAiModelsRequest.create({
+				baseUrl: apiConfiguration.openAiBaseUrl,
+				apiKey: apiConfiguration.openAiApiKey || "",
+				headers: apiConfiguration.openAiHeaders || {},
+			}),
+		)
+			.then((response) => setAvailableModels(response?.values ?? []))
+			.catch((error) => {
+				logError("Failed to fetch OpenAI-compatible models:", error)
+			})
+	}, [apiConfiguration?.openAiBaseUrl, apiConfiguration?.openAiApiKey, apiConfiguration?.openAiHeaders])
+
+	useEffect(() => {
+		refreshModels()
+	}, [refreshModels])
+
+	const handleModelChange = (value: string) => {
+		handleModeFieldChange({ plan: "planModeOpenAiModelId", act: "actModeOpenAiModelId" }, value, currentMode)
+	}
+
+	return (
+		<div className="flex flex-col gap-2">
+			<DebouncedTextField
+				initialValue={apiConfiguration?.openAiBaseUrl || ""}
+				onChange={(value) => handleFieldChange("openAiBaseUrl", value)}
+				placeholder="e.g. http://localhost:8000/v1"
+				style={{ width: "100%" }}
+				type="url">
+				<span className="font-semibold">Base URL</span>
+			</DebouncedTextField>
+
+			<DebouncedTextField
+				initialValue={apiConfiguration?.openAiApiKey || ""}
+				onChange={(value) => handleFieldChange("openAiApiKey", value)}
+				placeholder="Optional for most self-hosted servers"
+				style={{ width: "100%" }}
+				type="password">
+				<span className="font-semibold">API Key</span>
+			</DebouncedTextField>
+
+			<DebouncedTextField
+				initialValue={formatHeaders(apiConfiguration?.openAiHeaders)}
+				onChange={(value) => handleFieldChange("openAiHeaders", parseHeaders(value))}
+				placeholder="X-Gateway-Token: abc; X-Team: platform"
+				style={{ width: "100%" }}>
+				<span className="font-semibold">Custom Headers</span>
+			</DebouncedTextField>
+
+			<div className="flex items-center justify-between">
+				<span className="font-semibold">Model</span>
+				<VSCodeButton appearance="icon" onClick={refreshModels} title="Refresh models from /v1/models">
+					<span className="codicon codicon-refresh" />
+				</VSCodeButton>
+			</div>
+			{availableModels.length > 0 ? (
+				<DropdownContainer className="dropdown-container" zIndex={10}>
+					<VSCodeDropdown
+						className="w-full mb-3"
+						onChange={(e: any) => handleModelChange(e?.target?.value)}
+						value={openAiModelId}>
+						{availableModels.map((model) => (
+							<VSCodeOption className="w-full" key={model} value={model}>
+								{model}
+							</VSCodeOption>
+						))}
+					</VSCodeDropdown>
+				</DropdownContainer>
+			) : (
+				<DebouncedTextField
+					initialValue={openAiModelId || ""}
+					onChange={handleModelChange}
+					placeholder={"e.g. Qwen/Qwen2.5-Coder-32B-Instruct"}
+					style={{ width: "100%" }}
+				/>
+			)}
+
+			<div className="text-xs text-description">
+				Connects to any server implementing the OpenAI <code>/v1/chat/completions</code> API, such as vLLM or llama.cpp.
+				Models are discovered from <code>/v1/models</code>; native tool calls are translated into MarieCoder's tool
+				format.
+			</div>
+		</div>
+	)
+}
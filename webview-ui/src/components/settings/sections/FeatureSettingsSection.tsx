@@ -7,6 +7,7 @@ import { OptimisticCheckbox } from "@/components/common/OptimisticCheckbox"
 import McpDisplayModeDropdown from "@/components/mcp/chat-display/McpDisplayModeDropdown"
 import { useSettingsState } from "@/context/SettingsContext"
 import Section from "../Section"
+import TaskBudgetSetting from "../TaskBudgetSetting"
 import { updateSetting } from "../utils/settingsHandlers"
 
 interface FeatureSettingsSectionProps {
@@ -25,6 +26,7 @@ const FeatureSettingsSection = ({ renderSectionHeader }: FeatureSettingsSectionP
 		dictationSettings,
 		useAutoCondense,
 		focusChainSettings,
+		taskBudgetSettings,
 		multiRootSetting,
 	} = useSettingsState()
 
@@ -173,6 +175,7 @@ const FeatureSettingsSection = ({ renderSectionHeader }: FeatureSettingsSectionP
 							</p>
 						</div>
 					)}
+					<TaskBudgetSetting taskBudgetSettings={taskBudgetSettings} />
 					{dictationSettings?.featureEnabled && (
 						<>
 							<div className="mt-2.5">
@@ -4,6 +4,8 @@ import {
 	anthropicDefaultModelId,
 	anthropicModels,
 	ModelInfo,
+	ollamaDefaultContextWindow,
+	openAiModelInfoSaneDefaults,
 	openRouterDefaultModelId,
 	openRouterDefaultModelInfo,
 } from "@shared/api"
@@ -62,6 +64,28 @@ export function normalizeApiConfiguration(
 				selectedModelId: openRouterModelId || openRouterDefaultModelId,
 				selectedModelInfo: openRouterModelInfo || openRouterDefaultModelInfo,
 			}
+		case "openai-compatible":
+			return {
+				selectedProvider: provider,
+				selectedModelId:
+					(currentMode === "plan" ? apiConfiguration?.planModeOpenAiModelId : apiConfiguration?.actModeOpenAiModelId) ||
+					"",
+				selectedModelInfo:
+					(currentMode === "plan"
+						? apiConfiguration?.planModeOpenAiModelInfo
+						: apiConfiguration?.actModeOpenAiModelInfo) || openAiModelInfoSaneDefaults,
+			}
+		case "ollama":
+			return {
+				selectedProvider: provider,
+				selectedModelId:
+					(currentMode === "plan" ? apiConfiguration?.planModeOllamaModelId : apiConfiguration?.actModeOllamaModelId) ||
+					"",
+				selectedModelInfo: {
+					...openAiModelInfoSaneDefaults,
+					contextWindow: Number(apiConfiguration?.ollamaApiOptionsCtxNum) || ollamaDefaultContextWindow,
+				},
+			}
 		default:
 			return getProviderData(anthropicModels, anthropicDefaultModelId)
 	}
@@ -81,6 +105,9 @@ export function getModeSpecificFields(apiConfiguration: ApiConfiguration | undef
 			openRouterModelId: undefined,
 			openRouterModelInfo: undefined,
 			lmStudioModelId: undefined,
+			openAiModelId: undefined,
+			openAiModelInfo: undefined,
+			ollamaModelId: undefined,
 			thinkingBudgetTokens: undefined,
 			reasoningEffort: undefined,
 		}
@@ -94,6 +121,9 @@ export function getModeSpecificFields(apiConfiguration: ApiConfiguration | undef
 		openRouterModelInfo:
 			mode === "plan" ? apiConfiguration.planModeOpenRouterModelInfo : apiConfiguration.actModeOpenRouterModelInfo,
 		lmStudioModelId: mode === "plan" ? apiConfiguration.planModeLmStudioModelId : apiConfiguration.actModeLmStudioModelId,
+		openAiModelId: mode === "plan" ? apiConfiguration.planModeOpenAiModelId : apiConfiguration.actModeOpenAiModelId,
+		openAiModelInfo: mode === "plan" ? apiConfiguration.planModeOpenAiModelInfo : apiConfiguration.actModeOpenAiModelInfo,
+		ollamaModelId: mode === "plan" ? apiConfiguration.planModeOllamaModelId : apiConfiguration.actModeOllamaModelId,
 		thinkingBudgetTokens:
 			mode === "plan" ? apiConfiguration.planModeThinkingBudgetTokens : apiConfiguration.actModeThinkingBudgetTokens,
 		reasoningEffort: mode === "plan" ? apiConfiguration.planModeReasoningEffort : apiConfiguration.actModeReasoningEffort,
@@ -124,6 +154,13 @@ export function createModeSpecificUpdates(sourceFields: ReturnType<typeof getMod
 	updates[`${prefix}OpenRouterModelId` as keyof ApiConfiguration] = sourceFields.openRouterModelId as any
 	updates[`${prefix}OpenRouterModelInfo` as keyof ApiConfiguration] = sourceFields.openRouterModelInfo as any
 
+	// OpenAI-compatible fields
+	updates[`${prefix}OpenAiModelId` as keyof ApiConfiguration] = sourceFields.openAiModelId as any
+	updates[`${prefix}OpenAiModelInfo` as keyof ApiConfiguration] = sourceFields.openAiModelInfo as any
+
+	// Ollama fields
+	updates[`${prefix}OllamaModelId` as keyof ApiConfiguration] = sourceFields.ollamaModelId as any
+
 	return updates
 }
 
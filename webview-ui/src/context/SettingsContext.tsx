@@ -20,6 +20,7 @@ import { DEFAULT_MCP_DISPLAY_MODE } from "@shared/McpDisplayMode"
 import type { UserInfo } from "@shared/proto/cline/account"
 import { EmptyRequest } from "@shared/proto/cline/common"
 import { type TerminalProfile } from "@shared/proto/cline/state"
+import { DEFAULT_TASK_BUDGET_SETTINGS } from "@shared/TaskBudgetSettings"
 import type React from "react"
 import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react"
 import { createContextSelector } from "@/hooks/use_context_selector"
@@ -39,6 +40,7 @@ export interface SettingsContextType extends ExtensionState {
 	setLocalClineRulesToggles: (toggles: Record<string, boolean>) => void
 	setLocalCursorRulesToggles: (toggles: Record<string, boolean>) => void
 	setLocalWindsurfRulesToggles: (toggles: Record<string, boolean>) => void
+	setLocalAgentsRulesToggles: (toggles: Record<string, boolean>) => void
 	setLocalWorkflowToggles: (toggles: Record<string, boolean>) => void
 	setGlobalWorkflowToggles: (toggles: Record<string, boolean>) => void
 	setUserInfo: (userInfo?: UserInfo) => void
@@ -57,6 +59,7 @@ export const SettingsContextProvider: React.FC<{
 		browserSettings: DEFAULT_BROWSER_SETTINGS,
 		dictationSettings: DEFAULT_DICTATION_SETTINGS,
 		focusChainSettings: { enabled: false, remindClineInterval: 0 },
+		taskBudgetSettings: DEFAULT_TASK_BUDGET_SETTINGS,
 		preferredLanguage: "English",
 		openaiReasoningEffort: "medium",
 		mode: "act",
@@ -69,6 +72,7 @@ export const SettingsContextProvider: React.FC<{
 		localClineRulesToggles: {},
 		localCursorRulesToggles: {},
 		localWindsurfRulesToggles: {},
+		localAgentsRulesToggles: {},
 		localWorkflowToggles: {},
 		globalWorkflowToggles: {},
 		shellIntegrationTimeout: 4000,
@@ -136,6 +140,13 @@ export const SettingsContextProvider: React.FC<{
 		}))
 	}, [])
 
+	const setLocalAgentsRulesToggles = useCallback((toggles: Record<string, boolean>) => {
+		setState((prevState) => ({
+			...prevState,
+			localAgentsRulesToggles: toggles,
+		}))
+	}, [])
+
 	const setLocalWorkflowToggles = useCallback((toggles: Record<string, boolean>) => {
 		setState((prevState) => ({
 			...prevState,
@@ -234,6 +245,7 @@ export const SettingsContextProvider: React.FC<{
 			localClineRulesToggles: state.localClineRulesToggles || {},
 			localCursorRulesToggles: state.localCursorRulesToggles || {},
 			localWindsurfRulesToggles: state.localWindsurfRulesToggles || {},
+			localAgentsRulesToggles: state.localAgentsRulesToggles || {},
 			localWorkflowToggles: state.localWorkflowToggles || {},
 			globalWorkflowToggles: state.globalWorkflowToggles || {},
 			setDictationSettings,
@@ -241,6 +253,7 @@ export const SettingsContextProvider: React.FC<{
 			setLocalClineRulesToggles,
 			setLocalCursorRulesToggles,
 			setLocalWindsurfRulesToggles,
+			setLocalAgentsRulesToggles,
 			setLocalWorkflowToggles,
 			setGlobalWorkflowToggles,
 			setUserInfo,
@@ -254,6 +267,7 @@ export const SettingsContextProvider: React.FC<{
 			setLocalClineRulesToggles,
 			setLocalCursorRulesToggles,
 			setLocalWindsurfRulesToggles,
+			setLocalAgentsRulesToggles,
 			setLocalWorkflowToggles,
 			setGlobalWorkflowToggles,
 			setUserInfo,
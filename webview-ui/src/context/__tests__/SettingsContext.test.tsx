@@ -36,6 +36,7 @@ describe("SettingsContext", () => {
 			expect(result.current.setLocalClineRulesToggles).toBeDefined()
 			expect(result.current.setLocalCursorRulesToggles).toBeDefined()
 			expect(result.current.setLocalWindsurfRulesToggles).toBeDefined()
+			expect(result.current.setLocalAgentsRulesToggles).toBeDefined()
 			expect(result.current.setLocalWorkflowToggles).toBeDefined()
 			expect(result.current.setUserInfo).toBeDefined()
 		})
@@ -162,6 +163,22 @@ describe("SettingsContext", () => {
 			})
 		})
 
+		it("should update local agent instruction file toggles", async () => {
+			const { result } = renderHook(() => useSettingsState(), {
+				wrapper: SettingsContextProvider,
+			})
+
+			const toggles = { "/workspace/AGENTS.md": true, "/workspace/web/CLAUDE.md": false }
+
+			act(() => {
+				result.current.setLocalAgentsRulesToggles(toggles)
+			})
+
+			await waitFor(() => {
+				expect(result.current.localAgentsRulesToggles).toEqual(toggles)
+			})
+		})
+
 		it("should update local workflow toggles", async () => {
 			const { result } = renderHook(() => useSettingsState(), {
 				wrapper: SettingsContextProvider,
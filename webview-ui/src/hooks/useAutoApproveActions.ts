@@ -1,4 +1,4 @@
-import { AutoApprovalSettings } from "@shared/AutoApprovalSettings"
+import { AutoApprovalSettings, CommandPolicy, CommandSandboxSettings } from "@shared/AutoApprovalSettings"
 import { useCallback } from "react"
 import { updateAutoApproveSettings } from "@/components/chat/auto-approve-menu/AutoApproveSettingsAPI"
 import { ActionMetadata } from "@/components/chat/auto-approve-menu/types"
@@ -114,6 +114,30 @@ export function useAutoApproveActions() {
 		[autoApprovalSettings],
 	)
 
+	// Update global command allow/deny rules
+	const updateCommandPolicy = useCallback(
+		async (commandPolicy: CommandPolicy) => {
+			await updateAutoApproveSettings({
+				...autoApprovalSettings,
+				version: (autoApprovalSettings.version ?? 1) + 1,
+				commandPolicy,
+			})
+		},
+		[autoApprovalSettings],
+	)
+
+	// Update the sandbox auto-approved commands run in
+	const updateCommandSandbox = useCallback(
+		async (sandbox: CommandSandboxSettings) => {
+			await updateAutoApproveSettings({
+				...autoApprovalSettings,
+				version: (autoApprovalSettings.version ?? 1) + 1,
+				sandbox,
+			})
+		},
+		[autoApprovalSettings],
+	)
+
 	// Update auto-approve enabled state
 	const updateAutoApproveEnabled = useCallback(
 		async (checked: boolean) => {
@@ -165,6 +189,8 @@ export function useAutoApproveActions() {
 		toggleFavorite,
 		updateAction,
 		updateMaxRequests,
+		updateCommandPolicy,
+		updateCommandSandbox,
 		updateAutoApproveEnabled,
 		toggleAll,
 		updateNotifications,